@@ -1,13 +1,21 @@
 // AWS Lambda function for Bedrock integration
 // This is Option 2 - using AWS Lambda instead of Supabase Edge Functions
 
-const { BedrockRuntimeClient, InvokeModelCommand } = require('@aws-sdk/client-bedrock-runtime');
-
-const bedrockClient = new BedrockRuntimeClient({ 
-  region: process.env.AWS_REGION || 'us-east-1' 
-});
-
-const BEDROCK_MODEL_ID = process.env.BEDROCK_MODEL_ID || 'anthropic.claude-3-5-sonnet-20241022-v2:0';
+const { createProvider } = require('./providers');
+
+// Describes version 1 of the agent output protocol (src/lib/agentOutput.ts)
+const SYSTEM_PROMPT =
+  "You are a CFO Agent that helps analyze financial data. Answer in markdown. When a chart would help, end the answer with a ```json block: { \"version\": 1, \"requestType\": \"expense\" | \"income\" | \"reporting\" | \"compliance\", \"graphData\": {...} }. " +
+  "graphData by requestType: expense { expensesByCategory: { [category]: amount }, totalExpenses, timeSeries: [{ date, amount, category }] }; " +
+  "income { incomeByChannel: { [channel]: amount }, incomeBySource: { [source]: amount }, totalIncome, timeSeries: [{ date, amount, source }] }; " +
+  "reporting { monthlyData: [{ month, income, expenses, net }], totalRevenue, totalExpenses, netProfit }; " +
+  "compliance { compliantTransactions, nonCompliantTransactions, flaggedTransactions: [{ transactionId, description }] }. " +
+  "For any other chart add charts: [{ type: \"line\" | \"bar\" | \"area\" | \"pie\" | \"scatter\" | \"waterfall\" | \"combo\", title, data: [{...}], xAxis: { key, label }, yAxis: { label, format: { style: \"currency\" | \"percent\" | \"number\" | \"compact\" } }, series: [{ key, name, type, axis: \"left\" | \"right\", stack }], stacked, annotations: [{ type: \"line\", axis: \"y\", value, label }] }]; " +
+  "use requestType \"chart\" when the charts are all there is. Waterfall rows with isTotal: true show the running total. " +
+  "Amounts are plain numbers. Leave the block out when there is nothing to chart.";
+
+// Created once per container; LLM_PROVIDER picks the backend
+const provider = createProvider();
 
 exports.handler = async (event) => {
   // Handle CORS
@@ -57,30 +65,12 @@ exports.handler = async (event) => {
       ? `${message}\n\nAttached files:\n${fileContents}`
       : message;
 
-    // Prepare Bedrock request
-    const bedrockRequest = {
-      anthropic_version: "bedrock-2023-05-31",
-      max_tokens: 4096,
-      system: "You are a CFO Agent that helps analyze financial data. When you analyze data, provide a summary and return visualization data in JSON format when appropriate. Format visualization data as: { type: 'financial', data: [...] }",
-      messages: [
-        {
-          role: "user",
-          content: userContent
-        }
-      ]
-    };
-
-    // Call Bedrock
-    const command = new InvokeModelCommand({
-      modelId: BEDROCK_MODEL_ID,
-      contentType: 'application/json',
-      accept: 'application/json',
-      body: JSON.stringify(bedrockRequest)
+    const result = await provider.complete({
+      sessionId: body.sessionId || `lambda-${Date.now()}`,
+      inputText: userContent,
+      system: SYSTEM_PROMPT
     });
-
-    const response = await bedrockClient.send(command);
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-    const responseText = responseBody.content?.[0]?.text || "I've processed your request.";
+    const responseText = result.text || "I've processed your request.";
 
     // Extract visualization data if present
     let visualizationData = null;
@@ -107,7 +97,7 @@ exports.handler = async (event) => {
     };
 
   } catch (error) {
-    console.error('Error calling Bedrock:', error);
+    console.error(`Error calling ${provider.name}:`, error);
     return {
       statusCode: 500,
       headers,
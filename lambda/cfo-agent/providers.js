@@ -0,0 +1,105 @@
+// Model backends for the Lambda, mirroring supabase/functions/_shared/llm.
+// Select one with LLM_PROVIDER: bedrock-model (default), bedrock-agent or mock.
+// Every provider exposes complete({ sessionId, inputText, system }) -> { text }.
+
+const fs = require('fs');
+
+const DEFAULT_MODEL_ID = 'anthropic.claude-3-5-sonnet-20241022-v2:0';
+
+function requireEnv(provider, names) {
+  const missing = names.filter((name) => !process.env[name]);
+  if (missing.length > 0) {
+    throw new Error(`Missing configuration for the ${provider} provider. Please set ${missing.join(', ')}`);
+  }
+}
+
+function createBedrockModelProvider() {
+  const { BedrockRuntimeClient, InvokeModelCommand } = require('@aws-sdk/client-bedrock-runtime');
+  const client = new BedrockRuntimeClient({
+    region: process.env.AWS_REGION || 'us-east-1'
+  });
+
+  return {
+    name: 'bedrock-model',
+    async complete({ inputText, system }) {
+      const command = new InvokeModelCommand({
+        modelId: process.env.BEDROCK_MODEL_ID || DEFAULT_MODEL_ID,
+        contentType: 'application/json',
+        accept: 'application/json',
+        body: JSON.stringify({
+          anthropic_version: 'bedrock-2023-05-31',
+          max_tokens: 4096,
+          system,
+          messages: [{ role: 'user', content: inputText }]
+        })
+      });
+      const response = await client.send(command);
+      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+      return { text: responseBody.content?.[0]?.text || '' };
+    }
+  };
+}
+
+function createBedrockAgentProvider() {
+  requireEnv('bedrock-agent', ['AWS_BEDROCK_AGENT_ID', 'AWS_BEDROCK_AGENT_ALIAS_ID']);
+  const { BedrockAgentRuntimeClient, InvokeAgentCommand } = require('@aws-sdk/client-bedrock-agent-runtime');
+  const client = new BedrockAgentRuntimeClient({
+    region: process.env.AWS_REGION || 'us-east-1'
+  });
+
+  return {
+    name: 'bedrock-agent',
+    async complete({ sessionId, inputText }) {
+      const command = new InvokeAgentCommand({
+        agentId: process.env.AWS_BEDROCK_AGENT_ID,
+        agentAliasId: process.env.AWS_BEDROCK_AGENT_ALIAS_ID,
+        sessionId,
+        inputText
+      });
+      const response = await client.send(command);
+      let text = '';
+      const decoder = new TextDecoder();
+      for await (const event of response.completion || []) {
+        if (event.chunk?.bytes) text += decoder.decode(event.chunk.bytes, { stream: true });
+      }
+      return { text };
+    }
+  };
+}
+
+// Fixtures use the same format as the edge functions' mock provider:
+// [{ "prompt"?: exact text, "match"?: regex, "text": answer }]
+function createMockProvider() {
+  const fixturePath = process.env.LLM_MOCK_FIXTURES;
+  const fixtures = fixturePath && fs.existsSync(fixturePath)
+    ? JSON.parse(fs.readFileSync(fixturePath, 'utf8'))
+    : [];
+
+  return {
+    name: 'mock',
+    async complete({ inputText }) {
+      const fixture = fixtures.find((f) => f.prompt !== undefined && f.prompt === inputText) ||
+        fixtures.find((f) => f.match !== undefined && new RegExp(f.match, 'i').test(inputText));
+      return {
+        text: fixture
+          ? fixture.text
+          : `This is a mock response (no fixture matched). You asked: "${inputText.split('\n')[0].slice(0, 200)}"`
+      };
+    }
+  };
+}
+
+function createProvider(name = process.env.LLM_PROVIDER || 'bedrock-model') {
+  switch (name) {
+    case 'bedrock-model':
+      return createBedrockModelProvider();
+    case 'bedrock-agent':
+      return createBedrockAgentProvider();
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Expected one of: bedrock-model, bedrock-agent, mock`);
+  }
+}
+
+module.exports = { createProvider };
@@ -0,0 +1,82 @@
+// Dev-server stand-in for the documents storage bucket. With
+// VITE_DOCUMENT_STORE=local the app PUTs, GETs and DELETEs vault files under
+// /__documents/<path> (LOCAL_DOCUMENTS_ROUTE in src/lib/documentStore.ts) and
+// this middleware keeps them on disk in `dir`. Only runs under `vite` serve,
+// and vite.config.ts only registers it with VITE_DOCUMENT_STORE=local: the
+// dev server listens on the network and the store has no authentication.
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import type { IncomingMessage } from "node:http";
+import path from "node:path";
+import type { Plugin } from "vite";
+
+const ROUTE = "/__documents";
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+export function localDocumentStore(dir = ".documents"): Plugin {
+  return {
+    name: "local-document-store",
+    apply: "serve",
+    configureServer(server) {
+      const root = path.resolve(server.config.root, dir);
+
+      server.middlewares.use(ROUTE, async (req, res) => {
+        try {
+          const url = new URL(req.url || "/", "http://localhost");
+          const relative = decodeURIComponent(url.pathname).replace(/^\/+/, "");
+          const file = path.resolve(root, relative);
+          // Keep every request inside the store directory
+          if (!relative || !file.startsWith(root + path.sep)) {
+            res.statusCode = 400;
+            res.end("Invalid document path");
+            return;
+          }
+
+          switch (req.method) {
+            case "PUT":
+              await mkdir(path.dirname(file), { recursive: true });
+              await writeFile(file, await readBody(req));
+              res.statusCode = 204;
+              res.end();
+              return;
+            case "GET": {
+              const data = await readFile(file);
+              const download = url.searchParams.get("download");
+              res.setHeader("Content-Type", "application/octet-stream");
+              if (download) {
+                res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(download)}`);
+              }
+              res.end(data);
+              return;
+            }
+            case "DELETE":
+              await rm(file, { force: true });
+              res.statusCode = 204;
+              res.end();
+              return;
+            default:
+              res.statusCode = 405;
+              res.end("Method not allowed");
+          }
+        } catch (error) {
+          // Malformed percent-encoding in the path
+          if (error instanceof URIError) {
+            res.statusCode = 400;
+            res.end("Invalid document path");
+            return;
+          }
+          const missing = (error as NodeJS.ErrnoException).code === "ENOENT";
+          res.statusCode = missing ? 404 : 500;
+          res.end(missing ? "Document not found" : error instanceof Error ? error.message : "Unknown error");
+        }
+      });
+    },
+  };
+}
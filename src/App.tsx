@@ -2,8 +2,23 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
-import Index from "./pages/Index";
+import { BrowserRouter, Navigate, Routes, Route } from "react-router-dom";
+import { AppLayout } from "./components/AppLayout";
+import Dashboard from "./pages/Dashboard";
+import Analysis from "./pages/Analysis";
+import Reports from "./pages/Reports";
+import Budgets from "./pages/Budgets";
+import Scenarios from "./pages/Scenarios";
+import Receivables from "./pages/Receivables";
+import Payables from "./pages/Payables";
+import Approvals from "./pages/Approvals";
+import Reconciliation from "./pages/Reconciliation";
+import Categories from "./pages/Categories";
+import Documents from "./pages/Documents";
+import Compliance from "./pages/Compliance";
+import ComplianceCalendar from "./pages/ComplianceCalendar";
+import Settings from "./pages/Settings";
+import Chat from "./pages/Chat";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -15,7 +30,25 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route element={<AppLayout />}>
+            <Route path="/" element={<Navigate to="/dashboard" replace />} />
+            <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/analysis" element={<Analysis />} />
+            <Route path="/reports" element={<Reports />} />
+            <Route path="/budgets" element={<Budgets />} />
+            <Route path="/scenarios" element={<Scenarios />} />
+            <Route path="/receivables" element={<Receivables />} />
+            <Route path="/payables" element={<Payables />} />
+            <Route path="/approvals" element={<Approvals />} />
+            <Route path="/reconciliation" element={<Reconciliation />} />
+            <Route path="/categories" element={<Categories />} />
+            <Route path="/documents" element={<Documents />} />
+            <Route path="/compliance" element={<Compliance />} />
+            <Route path="/calendar" element={<ComplianceCalendar />} />
+            <Route path="/settings" element={<Settings />} />
+            <Route path="/chat" element={<Chat />} />
+            <Route path="/chat/:threadId" element={<Chat />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,12 @@
+import { Outlet } from "react-router-dom";
+import { Sidebar } from "@/components/Sidebar";
+
+// Shell for every routed view: navigation on the left, the page on the right
+export function AppLayout() {
+  return (
+    <div className="min-h-screen bg-background flex">
+      <Sidebar />
+      <Outlet />
+    </div>
+  );
+}
@@ -1,14 +1,20 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Send, Brain, User, Paperclip, X } from "lucide-react";
+import { Send, Brain, User, Paperclip, X, Square, ChevronDown, ChevronRight, AlertTriangle, ScanText, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useState, useRef, useEffect, type ChangeEvent } from "react";
-import type { Dispatch, SetStateAction } from "react";
+import type { Dispatch, SetStateAction, MutableRefObject } from "react";
 import { Badge } from "@/components/ui/badge";
 import { ChatVisualization } from "./ChatVisualization";
+import { readServerSentEvents } from "@/lib/sse";
+import { normalizeAgentOutput, parseAgentOutput, type VisualizationPayload } from "@/lib/agentOutput";
+import { getCurrentUserName } from "@/lib/currentUser";
+import { useToast } from "@/hooks/use-toast";
+import { importDocumentForReview, isExtractable } from "@/data/documentDrafts";
 
 interface BedrockTrace {
+  collaboratorName?: string; // Set for steps taken inside a collaborator agent
   trace?: {
     orchestrationTrace?: {
       rationale?: { text: string };
@@ -30,149 +36,23 @@ interface BedrockTrace {
   };
 }
 
-interface UploadedFile {
+export interface UploadedFile {
   id: string;
   name: string;
-  file: File;
+  file?: File; // Not kept when the message is restored from chat history
   preview?: string;
 }
 
-interface ChatMessage {
+export interface ChatMessage {
   type: "user" | "rationale" | "agent_call" | "agent_response" | "final_response";
   content: string;
   agentName?: string;
   timestamp?: string;
-  visualizationData?: any; // JSON data for visualization
+  visualizationData?: VisualizationPayload; // Structured agent output for ChatVisualization
   files?: UploadedFile[]; // Files attached to user messages
-}
-
-function parseResponseForVisualization(response: string): any | null {
-  try {
-    // Try to parse JSON from the response
-    // Look for JSON blocks in markdown code blocks
-    const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[1]);
-      // Check for new format: requestType, chatOutput, graphData
-      if (parsed.requestType && parsed.graphData) {
-        return {
-          requestType: parsed.requestType.toLowerCase(),
-          chatOutput: parsed.chatOutput || response,
-          graphData: parsed.graphData
-        };
-      }
-      // Check if it has graphData (legacy compliance report format)
-      if (parsed.graphData) {
-        return { requestType: "compliance", graphData: parsed.graphData };
-      }
-      // Check if it has data or type (standard format)
-      if (parsed.data || parsed.type) {
-        return parsed;
-      }
-    }
-
-    // Try to parse if the entire response is JSON
-    const parsed = JSON.parse(response);
-    // Check for new format: requestType, chatOutput, graphData
-    if (parsed.requestType && parsed.graphData) {
-      return {
-        requestType: parsed.requestType.toLowerCase(),
-        chatOutput: parsed.chatOutput || response,
-        graphData: parsed.graphData
-      };
-    }
-    if (parsed.graphData) {
-      return { requestType: "compliance", graphData: parsed.graphData };
-    }
-    if (parsed.data || parsed.type) {
-      return parsed;
-    }
-  } catch (e) {
-    // Not JSON, continue
-  }
-
-  // Try to find JSON-like structures in the response (including graphData)
-  try {
-    // Look for graphData structure - try to match the full JSON object
-    // This regex looks for { ... "graphData": { ... } ... } with better matching
-    // First try to find a complete JSON object that contains graphData
-    const jsonStart = response.indexOf('{');
-    if (jsonStart !== -1) {
-      // Try to find the matching closing brace
-      let braceCount = 0;
-      let jsonEnd = -1;
-      for (let i = jsonStart; i < response.length; i++) {
-        if (response[i] === '{') braceCount++;
-        if (response[i] === '}') {
-          braceCount--;
-          if (braceCount === 0) {
-            jsonEnd = i + 1;
-            break;
-          }
-        }
-      }
-      
-      if (jsonEnd > jsonStart) {
-        try {
-          const jsonStr = response.substring(jsonStart, jsonEnd);
-          const parsed = JSON.parse(jsonStr);
-          // Check for new format
-          if (parsed.requestType && parsed.graphData) {
-            return {
-              requestType: parsed.requestType.toLowerCase(),
-              chatOutput: parsed.chatOutput || response,
-              graphData: parsed.graphData
-            };
-          }
-          if (parsed.graphData) {
-            return { requestType: "compliance", graphData: parsed.graphData };
-          }
-        } catch (e) {
-          // If that fails, try the regex approach
-        }
-      }
-    }
-    
-    // Fallback to regex matching
-    const graphDataMatch = response.match(/\{[\s\S]*?"graphData"[\s\S]*?\}/);
-    if (graphDataMatch) {
-      try {
-        const parsed = JSON.parse(graphDataMatch[0]);
-        // Check for new format
-        if (parsed.requestType && parsed.graphData) {
-          return {
-            requestType: parsed.requestType.toLowerCase(),
-            chatOutput: parsed.chatOutput || response,
-            graphData: parsed.graphData
-          };
-        }
-        if (parsed.graphData) {
-          return { requestType: "compliance", graphData: parsed.graphData };
-        }
-      } catch (parseError) {
-        // If parsing the matched string fails, try to extract just the graphData part
-        const graphDataOnlyMatch = response.match(/"graphData"\s*:\s*(\{[\s\S]*?\})/);
-        if (graphDataOnlyMatch) {
-          try {
-            const graphDataParsed = JSON.parse(graphDataOnlyMatch[1]);
-            return { requestType: "compliance", graphData: graphDataParsed };
-          } catch (e) {
-            // Ignore
-          }
-        }
-      }
-    }
-    
-    // Look for standard data structure
-    const jsonLikeMatch = response.match(/\{[\s\S]*"data"[\s\S]*\}/);
-    if (jsonLikeMatch) {
-      return JSON.parse(jsonLikeMatch[0]);
-    }
-  } catch (e) {
-    // Ignore
-  }
-
-  return null;
+  streaming?: boolean; // Final response still receiving chunks
+  cancelled?: boolean; // User stopped the request before it finished
+  hideSteps?: boolean; // Collapse the reasoning steps that led to this response
 }
 
 function parseBedrockTraces(traces: BedrockTrace[]): ChatMessage[] {
@@ -207,7 +87,7 @@ function parseBedrockTraces(traces: BedrockTrace[]): ChatMessage[] {
 
     // Agent thinking/rationale
     if (orch.rationale?.text) {
-      messages.push({ type: "rationale", content: orch.rationale.text });
+      messages.push({ type: "rationale", content: orch.rationale.text, agentName: trace.collaboratorName });
     }
 
     // Agent calling another agent
@@ -233,24 +113,10 @@ function parseBedrockTraces(traces: BedrockTrace[]): ChatMessage[] {
     // Final response to user
     if (orch.observation?.finalResponse?.text) {
       const responseText = orch.observation.finalResponse.text;
-      let visualizationData = parseResponseForVisualization(responseText);
-      
-      // If no JSON structure found, still create visualization data from plain text
-      // This allows extraction of tables, metrics, and compliance data from text
-      if (!visualizationData) {
-        visualizationData = {
-          chatOutput: responseText,
-          // Let ChatVisualization extract tables, metrics, and compliance data
-        };
-      } else if (visualizationData && !visualizationData.chatOutput) {
-        // If we have visualizationData but no chatOutput, add the response text
-        visualizationData.chatOutput = responseText;
-      }
-      
       messages.push({
         type: "final_response",
         content: responseText,
-        visualizationData: visualizationData || undefined,
+        visualizationData: parseAgentOutput(responseText),
       });
     }
   }
@@ -258,6 +124,56 @@ function parseBedrockTraces(traces: BedrockTrace[]): ChatMessage[] {
   return messages;
 }
 
+// JSON blocks carry chart data for ChatVisualization, so they are not shown
+// as text; an unterminated block is one that is still streaming in. An
+// answer that is nothing but JSON shows its chatOutput instead.
+function displayText(message: ChatMessage): string {
+  if (message.visualizationData && message.content.trim().startsWith("{")) {
+    return message.visualizationData.chatOutput;
+  }
+  return message.content.replace(/```json[\s\S]*?(```|$)/g, "").trimEnd();
+}
+
+// While streaming, the in-progress answer is always the last message
+function updateStreamingMessage(messages: ChatMessage[], content: string): ChatMessage[] {
+  const last = messages[messages.length - 1];
+  if (last?.streaming) {
+    return [...messages.slice(0, -1), { ...last, content }];
+  }
+  return [...messages, { type: "final_response", content, streaming: true }];
+}
+
+// Reasoning steps that arrive mid-stream go above the partial answer
+function insertBeforeStreaming(messages: ChatMessage[], steps: ChatMessage[]): ChatMessage[] {
+  const last = messages[messages.length - 1];
+  if (last?.streaming) {
+    return [...messages.slice(0, -1), ...steps, last];
+  }
+  return [...messages, ...steps];
+}
+
+// Reasoning steps (rationale, agent calls and responses) belong to the final
+// response that follows them. Steps of a response still in progress have no owner.
+function groupReasoningSteps(messages: ChatMessage[]) {
+  const stepOwners: (number | undefined)[] = new Array(messages.length);
+  const stepCounts = new Map<number, number>();
+  let pending: number[] = [];
+
+  messages.forEach((message, index) => {
+    if (message.type === "rationale" || message.type === "agent_call" || message.type === "agent_response") {
+      pending.push(index);
+    } else if (message.type === "final_response") {
+      pending.forEach((stepIndex) => (stepOwners[stepIndex] = index));
+      if (pending.length > 0) stepCounts.set(index, pending.length);
+      pending = [];
+    } else {
+      pending = [];
+    }
+  });
+
+  return { stepOwners, stepCounts };
+}
+
 interface CFOChatProps {
   hideHeader?: boolean;
   showLoadSample?: boolean;
@@ -270,6 +186,9 @@ interface CFOChatProps {
   setIsProcessing?: Dispatch<SetStateAction<boolean>>;
   uploadedFiles?: UploadedFile[];
   setUploadedFiles?: Dispatch<SetStateAction<UploadedFile[]>>;
+  abortControllerRef?: MutableRefObject<AbortController | null>;
+  // Bedrock agent session for the current conversation
+  sessionId?: string;
 }
 
 export function CFOChat({
@@ -284,18 +203,12 @@ export function CFOChat({
   setIsProcessing: externalSetIsProcessing,
   uploadedFiles: externalUploadedFiles,
   setUploadedFiles: externalSetUploadedFiles,
+  abortControllerRef: externalAbortControllerRef,
+  sessionId: externalSessionId,
 }: CFOChatProps = {}) {
-  // Get or create unified session ID (persisted in localStorage)
-  // This session ID is shared across dashboard and chat for consistent context
-  const getSessionId = (): string => {
-    const storageKey = "cfo-unified-session-id";
-    let sessionId = localStorage.getItem(storageKey);
-    if (!sessionId) {
-      sessionId = crypto.randomUUID();
-      localStorage.setItem(storageKey, sessionId);
-    }
-    return sessionId;
-  };
+  // Without a thread to resume, the conversation gets its own agent session
+  const [internalSessionId] = useState(() => crypto.randomUUID());
+  const sessionId = externalSessionId || internalSessionId;
   // Use external state if provided, otherwise use internal state
   const [internalInputValue, setInternalInputValue] = useState("");
   const [internalMessages, setInternalMessages] = useState<ChatMessage[]>([]);
@@ -311,6 +224,9 @@ export function CFOChat({
   const uploadedFiles = externalUploadedFiles !== undefined ? externalUploadedFiles : internalUploadedFiles;
   const setUploadedFiles = externalSetUploadedFiles || setInternalUploadedFiles;
   
+  const internalAbortControllerRef = useRef<AbortController | null>(null);
+  const abortControllerRef = externalAbortControllerRef || internalAbortControllerRef;
+  
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -349,6 +265,36 @@ export function CFOChat({
     setUploadedFiles((prev) => prev.filter((f) => f.id !== fileId));
   };
 
+  // Invoices attached to the chat can go straight into the document review
+  // queue instead of being typed in; the chip stays so it can still be sent
+  const [readingFileIds, setReadingFileIds] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  const readIntoReviewQueue = async (uploaded: UploadedFile) => {
+    if (!uploaded.file) return;
+    setReadingFileIds((prev) => new Set(prev).add(uploaded.id));
+    try {
+      const { draft } = await importDocumentForReview(uploaded.file, getCurrentUserName());
+      toast({
+        title: "Draft ready for review",
+        description: `${draft.vendor_name || uploaded.name} is waiting under Documents → Review queue`,
+      });
+    } catch (error) {
+      console.error("Error extracting document:", error);
+      toast({
+        title: `Could not read ${uploaded.name}`,
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setReadingFileIds((prev) => {
+        const next = new Set(prev);
+        next.delete(uploaded.id);
+        return next;
+      });
+    }
+  };
+
 
   const handleLoadSample = () => {
     // Sample trace data for demonstration
@@ -420,6 +366,54 @@ export function CFOChat({
     setMessages(parsedMessages);
   };
 
+  const toggleSteps = (responseIndex: number) => {
+    setMessages(prev => prev.map((m, i) => (i === responseIndex ? { ...m, hideSteps: !m.hideSteps } : m)));
+  };
+
+  const { stepOwners, stepCounts } = groupReasoningSteps(messages);
+  const isStepHidden = (index: number) => {
+    const owner = stepOwners[index];
+    return owner !== undefined && !!messages[owner].hideSteps;
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Render the SSE stream from cfo-agent: chunks grow the answer in place,
+  // traces add rationale / collaborator messages as they happen
+  const consumeStream = async (response: Response) => {
+    let responseText = "";
+
+    for await (const { event, data } of readServerSentEvents(response)) {
+      const payload = JSON.parse(data);
+      if (event === "chunk") {
+        responseText += payload.text;
+        setMessages(prev => updateStreamingMessage(prev, responseText));
+      } else if (event === "trace") {
+        // The final answer comes from the chunks and the user message is already shown
+        const steps = parseBedrockTraces([payload.trace]).filter(
+          m => m.type !== "final_response" && m.type !== "user"
+        );
+        if (steps.length > 0) {
+          setMessages(prev => insertBeforeStreaming(prev, steps));
+        }
+      } else if (event === "error") {
+        throw new Error(payload.error);
+      }
+    }
+
+    const finalMessage: ChatMessage = {
+      type: "final_response",
+      content: responseText || "I've processed your request.",
+      visualizationData: responseText ? parseAgentOutput(responseText) : undefined,
+    };
+    setMessages(prev => {
+      const last = prev[prev.length - 1];
+      return last?.streaming ? [...prev.slice(0, -1), finalMessage] : [...prev, finalMessage];
+    });
+  };
+
   const handleSend = async () => {
     if (!inputValue.trim() && uploadedFiles.length === 0) return;
     
@@ -437,6 +431,9 @@ export function CFOChat({
     setUploadedFiles([]);
     setIsProcessing(true);
     
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    
     try {
       // Get API URL from environment variable
       const apiUrl = import.meta.env.VITE_BEDROCK_API_URL || 
@@ -445,7 +442,7 @@ export function CFOChat({
       // Prepare FormData for file uploads
       const formData = new FormData();
       formData.append('message', userInput);
-      formData.append('sessionId', getSessionId()); // Add session ID for conversation continuity
+      formData.append('sessionId', sessionId); // Add session ID for conversation continuity
       
       // Add files if any
       filesToSend.forEach((file) => {
@@ -453,7 +450,10 @@ export function CFOChat({
       });
       
       // Make API call to Bedrock backend
-      const headers: HeadersInit = {};
+      // Ask for a streamed answer; backends that can't stream reply with JSON
+      const headers: Record<string, string> = {
+        Accept: 'text/event-stream, application/json',
+      };
       
       // Add Supabase auth header if using Supabase function
       if (apiUrl.includes('supabase.co/functions')) {
@@ -468,6 +468,7 @@ export function CFOChat({
         method: 'POST',
         headers,
         body: formData,
+        signal: abortController.signal,
         // Don't set Content-Type header - browser will set it with boundary for FormData
       });
 
@@ -476,6 +477,11 @@ export function CFOChat({
         throw new Error(errorData.error || `API error: ${response.status} ${response.statusText}`);
       }
 
+      if ((response.headers.get("Content-Type") || "").includes("text/event-stream")) {
+        await consumeStream(response);
+        return;
+      }
+
       const result = await response.json();
       
       // Log session ID from response headers for debugging
@@ -484,66 +490,32 @@ export function CFOChat({
       console.log("All Response Headers:", Object.fromEntries(response.headers.entries()));
       
       // Parse Bedrock response - it might contain traces or direct response
-      let parsedMessages: ChatMessage[] = [];
-      let visualizationData: any = undefined;
+      // Traces supply the reasoning steps; the user message is already shown
+      const traceMessages = Array.isArray(result.traces) ? parseBedrockTraces(result.traces) : [];
+      const traceFinalResponse = traceMessages.find(m => m.type === "final_response");
+      const parsedMessages: ChatMessage[] = traceMessages.filter(
+        m => m.type !== "final_response" && m.type !== "user"
+      );
+      let visualizationData: VisualizationPayload | undefined = undefined;
       let responseText = "";
+      const directText = result.response || result.message || result.text;
       
-      // Check if response contains Bedrock traces
-      if (result.traces && Array.isArray(result.traces)) {
-        parsedMessages = parseBedrockTraces(result.traces);
-        
-        // Extract final response and visualization data from parsed messages
-        const finalResponse = parsedMessages.find(m => m.type === "final_response");
-        if (finalResponse) {
-          responseText = finalResponse.content;
-          visualizationData = finalResponse.visualizationData;
-        }
+      // Only traces, no direct answer: take the final response from them
+      if (traceFinalResponse && !directText) {
+        responseText = traceFinalResponse.content;
+        visualizationData = traceFinalResponse.visualizationData;
       } 
       // If response is direct (not traces format)
-      else if (result.response || result.message || result.text) {
-        responseText = result.response || result.message || result.text;
-        
-        // Check for visualization data in response
-        if (result.visualizationData) {
-          visualizationData = result.visualizationData;
-        } else if (result.data) {
-          // If data is provided, it might be for visualization
-          visualizationData = {
-            type: result.type || "financial",
-            data: result.data
-          };
-        }
+      else if (directText) {
+        responseText = directText;
         
-        // Parse visualization from response text if present
-        if (!visualizationData && responseText) {
-          const parsed = parseResponseForVisualization(responseText);
-          if (parsed) {
-            visualizationData = parsed;
-            // Ensure chatOutput is included
-            if (!visualizationData.chatOutput) {
-              visualizationData.chatOutput = responseText;
-            }
-          } else {
-            // No JSON found, but still create visualization data from plain text
-            visualizationData = {
-              chatOutput: responseText,
-            };
-          }
-        }
-        
-        // Also check if response contains graphData directly
-        if (!visualizationData && result.graphData) {
-          visualizationData = { 
-            type: "compliance", 
-            graphData: result.graphData,
-            chatOutput: responseText 
-          };
-        }
-        
-        // If we have visualizationData but no chatOutput, add it
-        if (visualizationData && !visualizationData.chatOutput && responseText) {
-          visualizationData.chatOutput = responseText;
-        }
+        // Structured output can come alongside the text instead of inside it
+        const structured = result.visualizationData
+          ?? (result.graphData ? { requestType: result.requestType, type: result.type, graphData: result.graphData } : undefined)
+          ?? (result.data ? { type: result.type || "financial", data: result.data } : undefined);
+        visualizationData = structured
+          ? normalizeAgentOutput(structured, responseText)
+          : parseAgentOutput(responseText);
         
         // Add rationale and agent calls if present
         if (result.rationale) {
@@ -576,33 +548,12 @@ export function CFOChat({
       // Fallback: treat entire response as text
       else if (typeof result === 'string') {
         responseText = result;
-        const parsed = parseResponseForVisualization(result);
-        if (parsed) {
-          visualizationData = parsed;
-          if (!visualizationData.chatOutput) {
-            visualizationData.chatOutput = result;
-          }
-        } else {
-          // No JSON found, create visualization data from plain text
-          visualizationData = {
-            chatOutput: result,
-          };
-        }
+        visualizationData = parseAgentOutput(result);
       }
       else {
         // Try to extract meaningful data from response
         responseText = JSON.stringify(result, null, 2);
-        const parsed = parseResponseForVisualization(responseText);
-        if (parsed) {
-          visualizationData = parsed;
-          if (!visualizationData.chatOutput) {
-            visualizationData.chatOutput = responseText;
-          }
-        } else {
-          visualizationData = {
-            chatOutput: responseText,
-          };
-        }
+        visualizationData = parseAgentOutput(responseText);
       }
       
       // Add all parsed messages (rationale, agent calls, etc.) except final response
@@ -620,6 +571,17 @@ export function CFOChat({
 
       setMessages(prev => [...prev, responseMessage]);
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Keep whatever part of the answer already arrived
+        setMessages(prev => {
+          const last = prev[prev.length - 1];
+          if (last?.streaming) {
+            return [...prev.slice(0, -1), { ...last, streaming: false, cancelled: true }];
+          }
+          return [...prev, { type: "final_response", content: "Request cancelled.", cancelled: true }];
+        });
+        return;
+      }
       console.error('Error calling Bedrock API:', error);
       const errorMessage: ChatMessage = {
         type: "final_response", 
@@ -627,8 +589,14 @@ export function CFOChat({
           ? `Sorry, I encountered an error: ${error.message}. Please check your API configuration and try again.`
           : "Sorry, I encountered an error processing your request. Please try again.",
       };
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => {
+        // The part of the answer that arrived stays, but is no longer streaming
+        const last = prev[prev.length - 1];
+        const settled = last?.streaming ? [...prev.slice(0, -1), { ...last, streaming: false }] : prev;
+        return [...settled, errorMessage];
+      });
     } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
     }
   };
@@ -670,7 +638,7 @@ export function CFOChat({
               Ask your CFO agent anything...
             </div>
           )}
-          {messages.map((message, index) => (
+          {messages.map((message, index) => isStepHidden(index) ? null : (
             <div key={index} className="space-y-2">
               {message.type === "user" && (
                 <div className="flex justify-end">
@@ -716,7 +684,11 @@ export function CFOChat({
                   >
                     <div className="flex items-center gap-2 mb-1">
                       <Brain className="w-3 h-3 text-muted-foreground" />
-                      <span className="text-xs font-medium text-muted-foreground">CFO Agent Thinking</span>
+                      <span className="text-xs font-medium text-muted-foreground">
+                        {message.agentName
+                          ? `${message.agentName.replace('fmo-', '').replace(/-/g, ' ')} thinking`
+                          : "CFO Agent Thinking"}
+                      </span>
                     </div>
                     <p className="text-muted-foreground italic">{message.content}</p>
                   </div>
@@ -763,6 +735,20 @@ export function CFOChat({
                 </div>
               )}
 
+              {message.type === "final_response" && stepCounts.has(index) && (
+                <div className="flex justify-start">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs text-muted-foreground"
+                    onClick={() => toggleSteps(index)}
+                  >
+                    {message.hideSteps ? <ChevronRight className="w-3 h-3 mr-1" /> : <ChevronDown className="w-3 h-3 mr-1" />}
+                    {message.hideSteps ? "Show" : "Hide"} reasoning ({stepCounts.get(index)} step{stepCounts.get(index) === 1 ? "" : "s"})
+                  </Button>
+                </div>
+              )}
+
               {message.type === "final_response" && (
                 <div className="flex justify-start">
                   <div
@@ -778,11 +764,7 @@ export function CFOChat({
                       <span className="text-xs font-medium">CFO Agent</span>
                     </div>
                     <div className="prose prose-sm max-w-none">
-                      {message.content.split('\n').map((line, i) => {
-                        // Skip JSON code blocks in display (they're used for visualization)
-                        if (line.trim().startsWith('```json') || line.trim() === '```') {
-                          return null;
-                        }
+                      {displayText(message).split('\n').map((line, i) => {
                         // Format markdown-style bold text
                         const formattedLine = line.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
                         return line.trim() && (
@@ -793,20 +775,38 @@ export function CFOChat({
                           />
                         );
                       })}
+                      {message.streaming && (
+                        <span className="inline-block w-1.5 h-4 bg-foreground/60 animate-pulse align-text-bottom" />
+                      )}
                     </div>
+                    {message.cancelled && (
+                      <p className="text-xs text-muted-foreground italic mt-1">Cancelled</p>
+                    )}
                     {message.visualizationData && (
                       <ChatVisualization
                         data={message.visualizationData}
                         compact={!isExpanded}
                       />
                     )}
+                    {message.visualizationData?.issues && (
+                      <div
+                        className="flex items-start gap-1.5 mt-2 text-xs text-muted-foreground"
+                        title={message.visualizationData.issues.join("\n")}
+                      >
+                        <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0 text-warning" />
+                        <span>
+                          Chart data could not be read: {message.visualizationData.issues[0]}
+                          {message.visualizationData.issues.length > 1 && ` (+${message.visualizationData.issues.length - 1} more)`}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
             </div>
           ))}
           <div ref={messagesEndRef} />
-          {isProcessing && (
+          {isProcessing && !messages[messages.length - 1]?.streaming && (
             <div className="flex justify-start">
               <div className="bg-muted/50 rounded-lg px-4 py-3 text-sm">
                 <div className="flex items-center gap-2">
@@ -835,6 +835,22 @@ export function CFOChat({
                 >
                   <Paperclip className="w-3 h-3" />
                   <span className="max-w-[150px] truncate">{file.name}</span>
+                  {file.file && isExtractable(file.file) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-4 w-4"
+                      onClick={() => readIntoReviewQueue(file)}
+                      disabled={readingFileIds.has(file.id)}
+                      title="Read into the document review queue"
+                    >
+                      {readingFileIds.has(file.id) ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <ScanText className="w-3 h-3" />
+                      )}
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="icon"
@@ -855,7 +871,7 @@ export function CFOChat({
               onChange={handleFileSelect}
               multiple
               className="hidden"
-              accept=".csv,.json,.xlsx,.xls,.pdf,image/*"
+              accept=".csv,.json,.xlsx,.xls,.pdf,.xml,.ofx,.qfx,.txt,image/*"
             />
             <Button
               variant="outline"
@@ -877,14 +893,26 @@ export function CFOChat({
               onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSend()}
               disabled={isProcessing}
             />
-            <Button 
-              size="icon" 
-              className="shrink-0"
-              onClick={handleSend}
-              disabled={isProcessing || (!inputValue.trim() && uploadedFiles.length === 0)}
-            >
-              <Send className="w-4 h-4" />
-            </Button>
+            {isProcessing ? (
+              <Button
+                size="icon"
+                variant="destructive"
+                className="shrink-0"
+                onClick={handleCancel}
+                title="Stop generating"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button 
+                size="icon" 
+                className="shrink-0"
+                onClick={handleSend}
+                disabled={!inputValue.trim() && uploadedFiles.length === 0}
+              >
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
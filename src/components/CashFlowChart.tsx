@@ -1,138 +1,215 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from "recharts";
-import { TrendingUp } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Loader2, TrendingUp } from "lucide-react";
+import { useCashForecast } from "@/hooks/use-cash-forecast";
+import { useSearchParamState } from "@/hooks/use-url-filters";
+import { FORECAST_HORIZONS, type CashForecast } from "@shared/forecast";
 
-interface CashFlowChartProps {
-  revenue?: number | null;
-  expenses?: number | null;
-  cashOnHand?: number | null;
-  monthlyData?: Array<{
-    month: string;
-    income: number;
-    expenses: number;
-    net: number;
-    cashFlow?: number;
-  }>;
+const DEFAULT_HORIZON = 6;
+
+const formatCash = (value: number) =>
+  `$${value.toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+// "2025-06" -> "Jun '25"
+const monthLabel = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString("en-US", { month: "short", year: "2-digit" });
+
+// Actual and forecast balances are separate series so they can be styled apart;
+// the last actual month also starts the forecast line so the two join up
+function chartRows(forecast: CashForecast) {
+  const lastActual = forecast.months.filter((m) => m.kind === "actual").pop();
+  return forecast.months.map((m) => ({
+    month: monthLabel(m.month),
+    actual: m.kind === "actual" ? m.cash : undefined,
+    forecast: m.kind === "forecast" || m === lastActual ? m.cash : undefined,
+    band: m.kind === "forecast" || m === lastActual ? [m.low, m.high] : undefined,
+    inflows: m.inflows,
+    outflows: m.outflows,
+  }));
 }
 
-export function CashFlowChart({ revenue, expenses, cashOnHand, monthlyData }: CashFlowChartProps = {}) {
-  // Use real monthly data if available, otherwise generate projection
-  const generateData = () => {
-    // If we have real monthly data, use it
-    if (monthlyData && monthlyData.length > 0) {
-      let runningCash = cashOnHand || 50000; // Starting cash
-      return monthlyData.map((item) => {
-        runningCash += item.net || item.cashFlow || 0;
-        // Format month for display (e.g., "2025-06" -> "Jun '25")
-        const monthDate = new Date(item.month + "-01");
-        const monthLabel = monthDate.toLocaleDateString("en-US", { month: "short", year: "2-digit" });
-        return {
-          month: monthLabel,
-          cash: Math.max(0, runningCash),
-          revenue: item.income,
-          expenses: item.expenses
-        };
-      });
-    }
-    
-    // Fallback: Generate 6-month projection based on totals
-    const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun"];
-    
-    if (revenue !== null && expenses !== null) {
-      const monthlyRevenue = revenue / 6;
-      const monthlyExpenses = expenses / 6;
-      const startingCash = cashOnHand || (revenue - expenses);
-      
-      return months.map((month, index) => {
-        const monthRevenue = monthlyRevenue * (index + 1);
-        const monthExpenses = monthlyExpenses * (index + 1);
-        const projectedCash = startingCash + (monthRevenue - monthExpenses);
-        return {
-          month,
-          cash: Math.max(0, projectedCash),
-          revenue: monthRevenue,
-          expenses: monthExpenses
-        };
-      });
-    }
-    
-    // Final fallback to sample data
-    return [
-      { month: "Jan", cash: 35000, revenue: 10000, expenses: 6500 },
-      { month: "Feb", cash: 38000, revenue: 12000, expenses: 7000 },
-      { month: "Mar", cash: 42150, revenue: 14000, expenses: 7850 },
-      { month: "Apr", cash: 45000, revenue: 15000, expenses: 8150 },
-      { month: "May", cash: 48000, revenue: 16000, expenses: 8000 },
-      { month: "Jun", cash: 52000, revenue: 18000, expenses: 8000 },
-    ];
-  };
+function DriverSummary({ forecast }: { forecast: CashForecast }) {
+  const projected = forecast.months.filter((m) => m.kind === "forecast");
+  const end = projected[projected.length - 1];
+  const lowest = projected.reduce((min, m) => (m.low < min.low ? m : min), projected[0]);
+  const billsTotal = forecast.recurringBills.reduce((total, bill) => total + bill.amount, 0);
+  const seasonal = forecast.historyMonths >= 12;
+  const confidence = Math.round(forecast.confidence * 100);
 
-  const data = generateData();
-  const hasRealData = monthlyData && monthlyData.length > 0 || (revenue !== null && expenses !== null);
+  return (
+    <div className="mt-4 pt-4 border-t border-border/50 space-y-3 text-xs text-muted-foreground">
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div>
+          <p>Cash today</p>
+          <p className="text-sm font-semibold text-foreground">{formatCash(forecast.openingCash)}</p>
+        </div>
+        <div>
+          <p>In {projected.length} months</p>
+          <p className="text-sm font-semibold text-foreground">{formatCash(end.cash)}</p>
+          <p>
+            {formatCash(end.low)} to {formatCash(end.high)} ({confidence}% range)
+          </p>
+        </div>
+        <div>
+          <p>Lowest expected</p>
+          <p className={`text-sm font-semibold ${lowest.low < 0 ? "text-destructive" : "text-foreground"}`}>
+            {formatCash(lowest.low)}
+          </p>
+          <p>{monthLabel(lowest.month)}, low end of the range</p>
+        </div>
+      </div>
+      <ul className="space-y-1">
+        <li>
+          {seasonal
+            ? `Baseline income and spend follow the seasonal pattern of the last ${forecast.historyMonths} months.`
+            : `Baseline income and spend use recent monthly averages; seasonality needs 12 months of history (${forecast.historyMonths} so far).`}
+        </li>
+        <li>
+          {forecast.recurringBills.length > 0
+            ? `${forecast.recurringBills.length} recurring bill${forecast.recurringBills.length === 1 ? "" : "s"} (${formatCash(billsTotal)} a month): ${forecast.recurringBills
+                .slice(0, 3)
+                .map((bill) => bill.label)
+                .join(", ")}${forecast.recurringBills.length > 3 ? ", ..." : ""}.`
+            : "No recurring bills detected."}
+        </li>
+        <li>
+          {forecast.collectionsModel === "invoices"
+            ? `Open invoices are collected on the observed curve: ${forecast.collectionCurve
+                .map((share) => `${Math.round(share * 100)}%`)
+                .join(" / ")} in the due month and the three after.`
+            : "Payments are not linked to invoices, so collections are forecast as part of baseline income."}
+        </li>
+        {!forecast.openingCashKnown && (
+          <li>No bank or cash accounts are set up, so the balance is the net of all transactions.</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+export function CashFlowChart() {
+  const [horizonParam, setHorizon] = useSearchParamState("horizon", String(DEFAULT_HORIZON));
+  const horizon = FORECAST_HORIZONS.find((h) => String(h) === horizonParam) ?? DEFAULT_HORIZON;
+  const { forecast, isLoading, error } = useCashForecast(horizon);
+  const data = forecast ? chartRows(forecast) : [];
+  const today = forecast?.months.find((m) => m.kind === "forecast");
 
   return (
     <Card className="border-border/50 bg-card shadow-sm">
-      <CardHeader className="pb-3">
-        <CardTitle className="text-xl font-semibold flex items-center gap-2">
-          <TrendingUp className="w-5 h-5 text-primary" />
-          {hasRealData ? "Cash Flow Projection" : "Cash Flow Forecast (6-Month Projection)"}
-        </CardTitle>
-        {hasRealData && (
+      <CardHeader className="pb-3 flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-xl font-semibold flex items-center gap-2">
+            <TrendingUp className="w-5 h-5 text-primary" />
+            Cash Flow Forecast
+          </CardTitle>
           <p className="text-xs text-muted-foreground mt-1">
-            Based on current revenue and expense trends
+            Seasonal baseline, recurring bills and expected collections, with a{" "}
+            {forecast ? Math.round(forecast.confidence * 100) : 80}% range
           </p>
-        )}
+        </div>
+        <Select value={String(horizon)} onValueChange={setHorizon}>
+          <SelectTrigger className="h-9 w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FORECAST_HORIZONS.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option} months
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </CardHeader>
       <CardContent>
-        <ResponsiveContainer width="100%" height={320}>
-          <AreaChart data={data}>
-            <defs>
-              <linearGradient id="cashGradient" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3}/>
-                <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0.05}/>
-              </linearGradient>
-            </defs>
-            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
-            <XAxis 
-              dataKey="month" 
-              stroke="hsl(var(--muted-foreground))"
-              style={{ fontSize: 12 }}
-              tickLine={false}
-            />
-            <YAxis 
-              stroke="hsl(var(--muted-foreground))"
-              style={{ fontSize: 12 }}
-              tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
-              tickLine={false}
-            />
-            <Tooltip 
-              contentStyle={{ 
-                backgroundColor: "hsl(var(--card))", 
-                border: "1px solid hsl(var(--border))",
-                borderRadius: "var(--radius)",
-                boxShadow: "0 4px 6px -1px rgba(0, 0, 0, 0.1)"
-              }}
-              formatter={(value: number) => [`$${value.toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, "Cash"]}
-              labelStyle={{ fontWeight: 600, marginBottom: 4 }}
-            />
-            <Area 
-              type="monotone" 
-              dataKey="cash" 
-              stroke="hsl(var(--primary))" 
-              strokeWidth={3}
-              fill="url(#cashGradient)"
-              dot={{ fill: "hsl(var(--primary))", r: 5, strokeWidth: 2, stroke: "hsl(var(--background))" }}
-              activeDot={{ r: 7, strokeWidth: 2, stroke: "hsl(var(--background))" }}
-            />
-          </AreaChart>
-        </ResponsiveContainer>
-        {hasRealData && (
-          <div className="mt-4 pt-4 border-t border-border/50 flex items-center justify-center gap-6 text-xs text-muted-foreground">
-            <div className="flex items-center gap-2">
-              <div className="w-2 h-2 rounded-full bg-primary"></div>
-              <span>Projected Cash Flow</span>
-            </div>
+        {isLoading ? (
+          <div className="flex items-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Building forecast...
           </div>
+        ) : error ? (
+          <p className="py-8 text-destructive">Error loading ledger: {error.message}</p>
+        ) : !forecast ? (
+          <p className="py-8 text-center text-muted-foreground">Import transactions to forecast cash flow.</p>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={320}>
+              <ComposedChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                <XAxis dataKey="month" stroke="hsl(var(--muted-foreground))" style={{ fontSize: 12 }} tickLine={false} />
+                <YAxis
+                  stroke="hsl(var(--muted-foreground))"
+                  style={{ fontSize: 12 }}
+                  tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                  tickLine={false}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "var(--radius)",
+                    boxShadow: "0 4px 6px -1px rgba(0, 0, 0, 0.1)",
+                  }}
+                  formatter={(value: number | number[], name: string) => [
+                    Array.isArray(value) ? `${formatCash(value[0])} to ${formatCash(value[1])}` : formatCash(value),
+                    name,
+                  ]}
+                  labelStyle={{ fontWeight: 600, marginBottom: 4 }}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="band"
+                  name="Likely range"
+                  stroke="none"
+                  fill="hsl(var(--primary))"
+                  fillOpacity={0.12}
+                  activeDot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="actual"
+                  name="Actual cash"
+                  stroke="hsl(var(--primary))"
+                  strokeWidth={3}
+                  dot={{ fill: "hsl(var(--primary))", r: 4, strokeWidth: 2, stroke: "hsl(var(--background))" }}
+                  connectNulls={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="forecast"
+                  name="Forecast cash"
+                  stroke="hsl(var(--primary))"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={false}
+                  connectNulls={false}
+                />
+                {today && (
+                  <ReferenceLine
+                    x={monthLabel(today.month)}
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="2 2"
+                    label={{ value: "Today", position: "insideTopLeft", fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                  />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+            <div className="mt-2 flex items-center justify-center gap-6 text-xs text-muted-foreground">
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-0.5 bg-primary"></div>
+                <span>Actual</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-4 border-t-2 border-dashed border-primary"></div>
+                <span>Forecast</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-2 rounded-sm bg-primary/15"></div>
+                <span>Likely range</span>
+              </div>
+            </div>
+            <DriverSummary forecast={forecast} />
+          </>
         )}
       </CardContent>
     </Card>
@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { MessageSquarePlus, MoreHorizontal, Pencil, Pin, PinOff, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useChatThreads, useDeleteChatThread, useUpdateChatThread } from "@/hooks/use-chat-threads";
+import type { ChatThread } from "@/data/chatHistory";
+import { cn } from "@/lib/utils";
+
+interface ChatThreadListProps {
+  activeThreadId: string | null;
+  onSelect: (thread: ChatThread) => void;
+  onNew: () => void;
+  onDeleted?: (id: string) => void;
+  // Switching threads is blocked while a response is still arriving
+  disabled?: boolean;
+  className?: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+function formatThreadDate(value: string) {
+  const date = new Date(value);
+  const today = new Date();
+  return date.toDateString() === today.toDateString()
+    ? date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+export function ChatThreadList({ activeThreadId, onSelect, onNew, onDeleted, disabled = false, className }: ChatThreadListProps) {
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<ChatThread | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data: threads = [], isLoading, error } = useChatThreads(debouncedSearch);
+  const updateThread = useUpdateChatThread();
+  const deleteThread = useDeleteChatThread();
+
+  const reportError = (title: string) => (err: Error) =>
+    toast({ title, description: err.message, variant: "destructive" });
+
+  const startRename = (thread: ChatThread) => {
+    setRenamingId(thread.id);
+    setRenameValue(thread.title);
+  };
+
+  const commitRename = () => {
+    const title = renameValue.trim();
+    const thread = threads.find((t) => t.id === renamingId);
+    setRenamingId(null);
+    if (!thread || !title || title === thread.title) return;
+    updateThread.mutate({ id: thread.id, title }, { onError: reportError("Could not rename conversation") });
+  };
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    const id = pendingDelete.id;
+    setPendingDelete(null);
+    deleteThread.mutate(id, {
+      onSuccess: () => onDeleted?.(id),
+      onError: reportError("Could not delete conversation"),
+    });
+  };
+
+  return (
+    <div className={cn("flex flex-col min-h-0", className)}>
+      <div className="p-3 space-y-2 border-b border-border/50">
+        <Button variant="outline" size="sm" className="w-full justify-start" onClick={onNew} disabled={disabled}>
+          <MessageSquarePlus className="w-4 h-4 mr-2" />
+          New conversation
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search conversations"
+            className="h-8 pl-7 text-sm"
+          />
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-2 space-y-1">
+          {isLoading && <p className="px-2 py-4 text-xs text-muted-foreground">Loading conversations...</p>}
+          {error && <p className="px-2 py-4 text-xs text-destructive">{error.message}</p>}
+          {!isLoading && !error && threads.length === 0 && (
+            <p className="px-2 py-4 text-xs text-muted-foreground">
+              {debouncedSearch.trim() ? "No conversations match your search" : "No conversations yet"}
+            </p>
+          )}
+          {threads.map((thread) => (
+            <div
+              key={thread.id}
+              className={cn(
+                "group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm",
+                thread.id === activeThreadId ? "bg-accent text-accent-foreground" : "hover:bg-muted/60",
+                disabled && thread.id !== activeThreadId && "opacity-60"
+              )}
+            >
+              {renamingId === thread.id ? (
+                <Input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setRenamingId(null);
+                  }}
+                  className="h-7 text-sm"
+                />
+              ) : (
+                <button
+                  type="button"
+                  className="flex-1 min-w-0 text-left"
+                  onClick={() => onSelect(thread)}
+                  disabled={disabled}
+                >
+                  <div className="flex items-center gap-1">
+                    {thread.pinned && <Pin className="w-3 h-3 flex-shrink-0 text-muted-foreground" />}
+                    <span className="truncate">{thread.title}</span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">{formatThreadDate(thread.last_message_at)}</span>
+                </button>
+              )}
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 flex-shrink-0 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                    title="Conversation actions"
+                  >
+                    <MoreHorizontal className="w-3.5 h-3.5" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem
+                    onClick={() =>
+                      updateThread.mutate(
+                        { id: thread.id, pinned: !thread.pinned },
+                        { onError: reportError("Could not update conversation") }
+                      )
+                    }
+                  >
+                    {thread.pinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+                    {thread.pinned ? "Unpin" : "Pin"}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => startRename(thread)}>
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    className="text-destructive focus:text-destructive"
+                    onClick={() => setPendingDelete(thread)}
+                    disabled={disabled && thread.id === activeThreadId}
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and all of its messages will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
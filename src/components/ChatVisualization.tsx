@@ -8,11 +8,19 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Maximize2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { ChartSpecChart } from "@/components/charts/ChartSpecChart";
+import type {
+  ComplianceGraphData,
+  ExpenseGraphData,
+  IncomeGraphData,
+  ReportingGraphData,
+  VisualizationPayload,
+} from "@/lib/agentOutput";
 
 const COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
 
 interface ChatVisualizationProps {
-  data: any;
+  data: VisualizationPayload;
   compact?: boolean;
 }
 
@@ -117,6 +125,36 @@ function parseComplianceData(text: string): any {
   return complianceData;
 }
 
+// The same report built from structured checklists and regulations, as the
+// compliance calendar tool returns them
+function complianceReportFromGraphData(graphData: ComplianceGraphData) {
+  const statusBreakdown = { completed: 0, inProgress: 0, pending: 0 };
+  const checklists = (graphData.checklists || []).map((item) => {
+    const status = (item.status || "Pending").toLowerCase();
+    const statusType =
+      status.includes("completed") || status.includes("not required")
+        ? "completed"
+        : status.includes("in progress")
+          ? "inProgress"
+          : "pending";
+    statusBreakdown[statusType]++;
+    return {
+      id: item.id || item.name,
+      name: item.name,
+      status: item.status || "Pending",
+      statusType,
+      date: item.dueDate || null,
+      dateInfo: [item.dueDate && `Due ${item.dueDate}`, item.assignee].filter(Boolean).join(" · "),
+    };
+  });
+  const regulations = (graphData.regulations || []).map((item) => ({
+    id: item.id || item.name,
+    name: item.name,
+    description: item.description || "",
+  }));
+  return { checklists, regulations, statusBreakdown };
+}
+
 // Extract metrics and numerical data from text
 function extractMetricsFromText(text: string): any {
   const metrics: any = {
@@ -214,7 +252,7 @@ function metricsToChartData(metrics: any): any {
 }
 
 // Transform compliance graphData into chart-friendly format
-function transformComplianceData(graphData: any) {
+function transformComplianceData(graphData: ComplianceGraphData) {
   const result: any = {
     complianceData: true,
   };
@@ -322,7 +360,7 @@ function transformComplianceData(graphData: any) {
 }
 
 // Transform expense graphData into chart-friendly format
-function transformExpenseData(graphData: any) {
+function transformExpenseData(graphData: ExpenseGraphData) {
   const result: any = {
     expenseData: true,
   };
@@ -371,7 +409,7 @@ function transformExpenseData(graphData: any) {
 }
 
 // Transform income graphData into chart-friendly format
-function transformIncomeData(graphData: any) {
+function transformIncomeData(graphData: IncomeGraphData) {
   const result: any = {
     incomeData: true,
   };
@@ -429,7 +467,7 @@ function transformIncomeData(graphData: any) {
 }
 
 // Transform reporting graphData into chart-friendly format
-function transformReportingData(graphData: any) {
+function transformReportingData(graphData: ReportingGraphData) {
   const result: any = {
     reportingData: true,
   };
@@ -504,7 +542,7 @@ function transformReportingData(graphData: any) {
   return result;
 }
 
-export function ChatVisualization({ data, compact = false }: ChatVisualizationProps) {
+function GraphDataVisualization({ data, compact = false }: ChatVisualizationProps) {
   const [enlargedChart, setEnlargedChart] = useState<string | null>(null); // Track which chart is enlarged
   const [processedData, setProcessedData] = useState<any>(null);
   const [extractedTables, setExtractedTables] = useState<any[]>([]);
@@ -545,85 +583,62 @@ export function ChatVisualization({ data, compact = false }: ChatVisualizationPr
           }
         }
 
-        // Handle new format with requestType
-        if (data.requestType && data.graphData) {
-          let transformedData;
-          switch (data.requestType.toLowerCase()) {
-            case 'compliance':
-              transformedData = transformComplianceData(data.graphData);
-              break;
-            case 'expense':
-              transformedData = transformExpenseData(data.graphData);
-              break;
-            case 'income':
-              transformedData = transformIncomeData(data.graphData);
-              break;
-            case 'reporting':
-              transformedData = transformReportingData(data.graphData);
-              break;
-            default:
-              // Fallback to compliance if unknown type
-              transformedData = transformComplianceData(data.graphData);
-          }
-          
-          // Merge extracted metrics with graphData if no graphData charts exist
-          if (metrics && (!transformedData.barChartData && !transformedData.pieChartData)) {
-            const chartData = metricsToChartData(metrics);
-            Object.assign(transformedData, chartData);
-          }
-          
-          setProcessedData(transformedData);
-            setIsLoading(false);
-            return;
-          }
-
-        // Handle legacy compliance data (backward compatibility)
-        if (data.type === "compliance" && data.graphData) {
-          const complianceData = transformComplianceData(data.graphData);
-          setProcessedData(complianceData);
-          setIsLoading(false);
-          return;
-        }
+        // The payload was validated against the agent output protocol, so
+        // each request type carries the graphData its transform expects
+        let transformedData;
+        switch (data.requestType) {
+          case "compliance":
+            transformedData = transformComplianceData(data.graphData);
+            if (data.graphData.checklists?.length || data.graphData.regulations?.length) {
+              setComplianceData(complianceReportFromGraphData(data.graphData));
+            }
+            break;
+          case "expense":
+            transformedData = transformExpenseData(data.graphData);
+            break;
+          case "income":
+            transformedData = transformIncomeData(data.graphData);
+            break;
+          case "reporting":
+            transformedData = transformReportingData(data.graphData);
+            break;
+          case "dataset": {
+            // Raw records are charted by the process-data endpoint
+            const response = await fetch(
+              `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process-data`,
+              {
+                method: 'POST',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ data: data.data, type: data.dataType }),
+              }
+            );
+
+            if (!response.ok) {
+              throw new Error('Failed to process data');
+            }
 
-        // If we only have chatOutput with tables/metrics/compliance but no graphData, still process it
-        if (data.chatOutput && (!data.graphData && !data.data)) {
-          if (tables.length > 0 || metrics || compliance) {
-            const chartData = metrics ? metricsToChartData(metrics) : {};
-            setProcessedData(chartData);
-            setIsLoading(false);
+            setProcessedData(await response.json());
             return;
           }
+          case "chart":
+            // Drawn from the specs by ChatVisualization
+            return;
+          case "text":
+            // Only what could be extracted from the markdown itself
+            if (tables.length > 0 || metrics || compliance) {
+              setProcessedData(metrics ? metricsToChartData(metrics) : {});
+            }
+            return;
         }
-        
-        // If we have chatOutput but no processed data yet, still show extracted data
-        if (data.chatOutput && !processedData && (tables.length > 0 || metrics || compliance)) {
-          const chartData = metrics ? metricsToChartData(metrics) : {};
-          setProcessedData(chartData);
-          setIsLoading(false);
-          return;
-        }
-
-        // For other data types, use the process-data endpoint
-        const response = await fetch(
-          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process-data`,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ 
-              data: data.data || data,
-              type: data.type || "financial"
-            }),
-          }
-        );
 
-        if (!response.ok) {
-          throw new Error('Failed to process data');
+        // Merge extracted metrics with graphData if no graphData charts exist
+        if (metrics && (!transformedData.barChartData && !transformedData.pieChartData)) {
+          Object.assign(transformedData, metricsToChartData(metrics));
         }
 
-        const result = await response.json();
-        setProcessedData(result);
+        setProcessedData(transformedData);
       } catch (error) {
         console.error('Error processing visualization data:', error);
       } finally {
@@ -2147,3 +2162,16 @@ export function ChatVisualization({ data, compact = false }: ChatVisualizationPr
   );
 }
 
+export function ChatVisualization({ data, compact = false }: ChatVisualizationProps) {
+  if (!data) return null;
+  const charts = data.charts ?? [];
+
+  return (
+    <>
+      {charts.map((spec, index) => (
+        <ChartSpecChart key={`${spec.type}-${index}`} spec={spec} compact={compact} />
+      ))}
+      {data.requestType !== "chart" && <GraphDataVisualization data={data} compact={compact} />}
+    </>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { usePeriodFilter, useSearchParamState } from "@/hooks/use-url-filters";
 import { Loader2 } from "lucide-react";
 import { LineChartComponent } from "./charts/LineChartComponent";
 import { BarChartComponent } from "./charts/BarChartComponent";
@@ -13,12 +14,22 @@ export const DataVisualization = () => {
   const [jsonInput, setJsonInput] = useState("");
   const [processedData, setProcessedData] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [chartType, setChartType] = useSearchParamState("chart", "line");
+  const { range } = usePeriodFilter();
   const { toast } = useToast();
 
-  const processData = async () => {
+  const processData = async (fromLedger = false) => {
     setIsLoading(true);
     try {
-      const parsedJson = JSON.parse(jsonInput);
+      const requestBody = fromLedger
+        ? { source: "ledger", type: "financial", start: range.start, end: range.end }
+        : (() => {
+            const parsedJson = JSON.parse(jsonInput);
+            return {
+              data: parsedJson.data || parsedJson,
+              type: parsedJson.type || "financial"
+            };
+          })();
       
       const response = await fetch(
         `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process-data`,
@@ -27,10 +38,7 @@ export const DataVisualization = () => {
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ 
-            data: parsedJson.data || parsedJson,
-            type: parsedJson.type || "financial"
-          }),
+          body: JSON.stringify(requestBody),
         }
       );
 
@@ -81,7 +89,7 @@ export const DataVisualization = () => {
         <CardHeader>
           <CardTitle>Data Input</CardTitle>
           <CardDescription>
-            Paste your JSON data or load sample data to visualize
+            Paste your JSON data, analyse the imported ledger, or load sample data to visualize
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -92,10 +100,13 @@ export const DataVisualization = () => {
             className="min-h-[200px] font-mono text-sm"
           />
           <div className="flex gap-2">
-            <Button onClick={processData} disabled={isLoading || !jsonInput}>
+            <Button onClick={() => processData()} disabled={isLoading || !jsonInput}>
               {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Process Data
             </Button>
+            <Button variant="outline" onClick={() => processData(true)} disabled={isLoading}>
+              Load from Ledger
+            </Button>
             <Button variant="outline" onClick={loadSampleData}>
               Load Sample Data
             </Button>
@@ -130,7 +141,7 @@ export const DataVisualization = () => {
             </CardContent>
           </Card>
 
-          <Tabs defaultValue="line" className="w-full">
+          <Tabs value={chartType} onValueChange={setChartType} className="w-full">
             <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="line">Line Chart</TabsTrigger>
               <TabsTrigger value="bar">Bar Chart</TabsTrigger>
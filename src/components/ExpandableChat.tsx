@@ -1,49 +1,77 @@
 import { useState } from "react";
 import { CFOChat } from "./CFOChat";
+import { ChatThreadList } from "./ChatThreadList";
 import { Button } from "@/components/ui/button";
-import { Maximize2, Minimize2, X } from "lucide-react";
+import { History, Maximize2, Minimize2, X } from "lucide-react";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useChatSession } from "@/hooks/use-chat-session";
+import type { ChatThread } from "@/data/chatHistory";
 import { cn } from "@/lib/utils";
 
-interface ChatMessage {
-  type: "user" | "rationale" | "agent_call" | "agent_response" | "final_response";
-  content: string;
-  agentName?: string;
-  timestamp?: string;
-  visualizationData?: any;
-  files?: Array<{
-    id: string;
-    name: string;
-    file: File;
-    preview?: string;
-  }>;
-}
-
-interface UploadedFile {
-  id: string;
-  name: string;
-  file: File;
-  preview?: string;
-}
-
 interface ExpandableChatProps {
   className?: string;
 }
 
 export function ExpandableChat({ className }: ExpandableChatProps) {
   const [isExpanded, setIsExpanded] = useState(false);
-  
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
   // Shared state for both views
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [inputValue, setInputValue] = useState("");
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  const chat = useChatSession();
+  const { activeThread, isProcessing, isLoadingThread, openThread, startNewThread } = chat;
+
+  const chatProps = {
+    messages: chat.messages,
+    setMessages: chat.setMessages,
+    inputValue: chat.inputValue,
+    setInputValue: chat.setInputValue,
+    isProcessing: isProcessing || isLoadingThread,
+    setIsProcessing: chat.setIsProcessing,
+    uploadedFiles: chat.uploadedFiles,
+    setUploadedFiles: chat.setUploadedFiles,
+    abortControllerRef: chat.abortControllerRef,
+    sessionId: chat.sessionId,
+  };
+
+  const selectThread = (thread: ChatThread) => {
+    setIsHistoryOpen(false);
+    if (thread.id !== activeThread?.id) openThread(thread.id);
+  };
+
+  const handleThreadDeleted = (id: string) => {
+    if (id === activeThread?.id) startNewThread();
+  };
+
+  const threadList = (
+    <ChatThreadList
+      activeThreadId={activeThread?.id ?? null}
+      onSelect={selectThread}
+      onNew={() => {
+        setIsHistoryOpen(false);
+        startNewThread();
+      }}
+      onDeleted={handleThreadDeleted}
+      disabled={isProcessing}
+      className="h-full"
+    />
+  );
 
   return (
     <>
       {/* Collapsed/Default View */}
       <div className={cn("relative h-full flex flex-col", className)}>
-        <div className="absolute top-2 right-2 z-10">
+        <div className="absolute top-2 right-2 z-10 flex items-center gap-1">
+          <Popover open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8" title="Conversations">
+                <History className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 h-96 p-0">
+              {threadList}
+            </PopoverContent>
+          </Popover>
           <Button
             variant="ghost"
             size="icon"
@@ -57,14 +85,7 @@ export function ExpandableChat({ className }: ExpandableChatProps) {
         <CFOChat
           showLoadSample={false}
           isExpanded={false}
-          messages={messages}
-          setMessages={setMessages}
-          inputValue={inputValue}
-          setInputValue={setInputValue}
-          isProcessing={isProcessing}
-          setIsProcessing={setIsProcessing}
-          uploadedFiles={uploadedFiles}
-          setUploadedFiles={setUploadedFiles}
+          {...chatProps}
         />
       </div>
 
@@ -72,8 +93,11 @@ export function ExpandableChat({ className }: ExpandableChatProps) {
       <Dialog open={isExpanded} onOpenChange={setIsExpanded}>
         <DialogContent className="max-w-[95vw] max-h-[95vh] w-full h-full p-0 flex flex-col [&>button]:hidden">
           <div className="flex items-center justify-between p-4 border-b flex-shrink-0 lg:p-6">
-            <div className="flex items-center gap-2">
+            <div className="flex items-center gap-2 min-w-0">
               <h2 className="text-lg font-semibold">Autonomous CFO Agent</h2>
+              {activeThread && (
+                <span className="text-sm text-muted-foreground truncate">· {activeThread.title}</span>
+              )}
             </div>
             <div className="flex items-center gap-2">
               <Button
@@ -96,24 +120,21 @@ export function ExpandableChat({ className }: ExpandableChatProps) {
               </Button>
             </div>
           </div>
-          <div className="flex-1 overflow-hidden min-h-0 bg-muted/10">
-            <CFOChat
-              hideHeader={true}
-              showLoadSample={true}
-              isExpanded={true}
-              messages={messages}
-              setMessages={setMessages}
-              inputValue={inputValue}
-              setInputValue={setInputValue}
-              isProcessing={isProcessing}
-              setIsProcessing={setIsProcessing}
-              uploadedFiles={uploadedFiles}
-              setUploadedFiles={setUploadedFiles}
-            />
+          <div className="flex-1 flex overflow-hidden min-h-0 bg-muted/10">
+            <aside className="hidden md:flex md:flex-col w-64 flex-shrink-0 border-r border-border/50 bg-card">
+              {threadList}
+            </aside>
+            <div className="flex-1 min-w-0">
+              <CFOChat
+                hideHeader={true}
+                showLoadSample={true}
+                isExpanded={true}
+                {...chatProps}
+              />
+            </div>
           </div>
         </DialogContent>
       </Dialog>
     </>
   );
 }
-
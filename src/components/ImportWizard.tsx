@@ -0,0 +1,404 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { FileSpreadsheet, Loader2, Upload, CheckCircle2, AlertCircle, Save } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  LEDGER_FIELDS,
+  LEDGER_FIELD_LABELS,
+  REQUIRED_FIELDS,
+  detectColumnMapping,
+  parseImportFile,
+  validateRows,
+  type ColumnMapping,
+  type DateFormat,
+  type DefaultType,
+  type LedgerField,
+  type ParsedSheet,
+} from "@/lib/ledgerImport";
+import { categoriseImport } from "@/data/categorisation";
+import { importTransactions } from "@/data/ledger";
+import { fetchImportPresets, saveImportPreset, type ImportPreset } from "@/data/importPresets";
+
+const NOT_MAPPED = "__none__";
+const PREVIEW_ROW_LIMIT = 50;
+
+type Step = "upload" | "map" | "preview";
+
+interface ImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: (inserted: number) => void;
+}
+
+export function ImportWizard({ open, onOpenChange, onImported }: ImportWizardProps) {
+  const [step, setStep] = useState<Step>("upload");
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [presets, setPresets] = useState<ImportPreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    fetchImportPresets()
+      .then(setPresets)
+      .catch((error) => console.error("Error loading import presets:", error));
+  }, [open]);
+
+  const reset = () => {
+    setStep("upload");
+    setSheet(null);
+    setMapping(null);
+    setPresetName("");
+    setShowErrorsOnly(false);
+  };
+
+  const validated = useMemo(
+    () => (sheet && mapping ? validateRows(sheet, mapping) : []),
+    [sheet, mapping]
+  );
+  const validRecords = validated.filter((row) => row.record).map((row) => row.record!);
+  const invalidCount = validated.length - validRecords.length;
+  const missingRequired = mapping ? REQUIRED_FIELDS.filter((field) => !mapping.columns[field]) : [];
+
+  const handleFileSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsParsing(true);
+    try {
+      const parsed = await parseImportFile(file);
+      if (parsed.rows.length === 0) throw new Error(`${file.name} has no data rows`);
+      setSheet(parsed);
+      setMapping(detectColumnMapping(parsed));
+      setStep("map");
+    } catch (error) {
+      console.error("Error parsing import file:", error);
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const updateColumn = (field: LedgerField, header: string) => {
+    setMapping((prev) => prev && {
+      ...prev,
+      columns: { ...prev.columns, [field]: header === NOT_MAPPED ? undefined : header },
+    });
+  };
+
+  const applyPreset = (presetId: string) => {
+    const preset = presets.find((p) => p.id === presetId);
+    if (!preset || !sheet) return;
+    // Only keep preset columns that exist in this file
+    const columns = Object.fromEntries(
+      Object.entries(preset.mapping.columns).filter(([, header]) => header && sheet.headers.includes(header))
+    );
+    setMapping({ ...preset.mapping, columns });
+    setPresetName(preset.name);
+  };
+
+  const handleSavePreset = async () => {
+    if (!mapping || !presetName.trim()) return;
+    try {
+      const saved = await saveImportPreset(presetName.trim(), mapping);
+      setPresets((prev) => [...prev.filter((p) => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      toast({ title: "Preset saved", description: `Column mapping saved as "${saved.name}"` });
+    } catch (error) {
+      toast({
+        title: "Could not save preset",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (validRecords.length === 0) return;
+    setIsImporting(true);
+    try {
+      const { batchId, inserted } = await importTransactions(validRecords);
+      // The rows are in either way, so a categorisation failure only loses the extra step
+      const categorised = await categoriseImport(batchId).catch((error) => {
+        console.error("Error categorising import:", error);
+        return 0;
+      });
+      toast({
+        title: "Import complete",
+        description:
+          `Added ${inserted} transaction${inserted === 1 ? "" : "s"} to the ledger` +
+          (categorised > 0 ? `, ${categorised} categorised automatically` : "") +
+          (invalidCount > 0 ? `, skipped ${invalidCount} invalid row${invalidCount === 1 ? "" : "s"}` : ""),
+      });
+      onImported?.(inserted);
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error importing transactions:", error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const previewRows = validated
+    .filter((row) => !showErrorsOnly || row.errors.length > 0)
+    .slice(0, PREVIEW_ROW_LIMIT);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-primary" />
+            Import Transactions
+          </DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload an income or expense export (CSV or Excel)."}
+            {step === "map" && sheet && `Match the columns in ${sheet.fileName} to ledger fields.`}
+            {step === "preview" && "Review the rows before loading them into the ledger."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto min-h-0 space-y-4">
+          {step === "upload" && (
+            <div
+              className="border-2 border-dashed border-border rounded-lg p-10 flex flex-col items-center justify-center gap-3 text-center cursor-pointer hover:border-primary/50 transition-colors"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {isParsing ? (
+                <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+              ) : (
+                <Upload className="w-8 h-8 text-muted-foreground" />
+              )}
+              <p className="text-sm font-medium">Click to choose a file</p>
+              <p className="text-xs text-muted-foreground">Supports .csv, .xlsx and .xls</p>
+              <input
+                type="file"
+                ref={fileInputRef}
+                onChange={handleFileSelect}
+                className="hidden"
+                accept=".csv,.txt,.xlsx,.xls"
+              />
+            </div>
+          )}
+
+          {step === "map" && sheet && mapping && (
+            <>
+              {presets.length > 0 && (
+                <div className="space-y-1.5">
+                  <Label>Load preset</Label>
+                  <Select onValueChange={applyPreset}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a saved column mapping" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {presets.map((preset) => (
+                        <SelectItem key={preset.id} value={preset.id}>
+                          {preset.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {LEDGER_FIELDS.map((field) => (
+                  <div key={field} className="space-y-1.5">
+                    <Label className="flex items-center gap-1">
+                      {LEDGER_FIELD_LABELS[field]}
+                      {REQUIRED_FIELDS.includes(field) && <span className="text-destructive">*</span>}
+                    </Label>
+                    <Select
+                      value={mapping.columns[field] || NOT_MAPPED}
+                      onValueChange={(value) => updateColumn(field, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                        {sheet.headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pt-2 border-t border-border/50">
+                <div className="space-y-1.5">
+                  <Label>Rows are</Label>
+                  <Select
+                    value={mapping.defaultType}
+                    onValueChange={(value) => setMapping({ ...mapping, defaultType: value as DefaultType })}
+                    disabled={!!mapping.columns.type}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="income">Income</SelectItem>
+                      <SelectItem value="expense">Expenses</SelectItem>
+                      <SelectItem value="signed">Signed (negative amounts are expenses)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {mapping.columns.type && (
+                    <p className="text-xs text-muted-foreground">Taken from the "{mapping.columns.type}" column</p>
+                  )}
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Date format</Label>
+                  <Select
+                    value={mapping.dateFormat}
+                    onValueChange={(value) => setMapping({ ...mapping, dateFormat: value as DateFormat })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Detect automatically</SelectItem>
+                      <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+                      <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
+                      <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex gap-2 items-end pt-2 border-t border-border/50">
+                <div className="flex-1 space-y-1.5">
+                  <Label>Save mapping as preset</Label>
+                  <Input
+                    placeholder="e.g. Clothing income export"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                  />
+                </div>
+                <Button variant="outline" onClick={handleSavePreset} disabled={!presetName.trim()}>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === "preview" && (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="default" className="gap-1">
+                  <CheckCircle2 className="w-3 h-3" />
+                  {validRecords.length} valid
+                </Badge>
+                {invalidCount > 0 && (
+                  <Badge variant="destructive" className="gap-1">
+                    <AlertCircle className="w-3 h-3" />
+                    {invalidCount} with errors
+                  </Badge>
+                )}
+                {invalidCount > 0 && (
+                  <Button variant="ghost" size="sm" onClick={() => setShowErrorsOnly((prev) => !prev)}>
+                    {showErrorsOnly ? "Show all rows" : "Show only errors"}
+                  </Button>
+                )}
+              </div>
+              <div className="border border-border/50 rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">Row</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Counterparty</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {previewRows.map((row) => (
+                      <TableRow key={row.rowNumber} className={cn(row.errors.length > 0 && "bg-destructive/5")}>
+                        <TableCell className="text-xs text-muted-foreground">{row.rowNumber}</TableCell>
+                        <TableCell className="text-xs">{row.record?.date ?? "—"}</TableCell>
+                        <TableCell className="text-xs capitalize">{row.record?.type ?? "—"}</TableCell>
+                        <TableCell className="text-xs text-right">
+                          {row.record
+                            ? `$${row.record.amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+                            : "—"}
+                        </TableCell>
+                        <TableCell className="text-xs">{row.record?.category ?? row.record?.channel ?? "—"}</TableCell>
+                        <TableCell className="text-xs">{row.record?.vendor ?? row.record?.customer ?? "—"}</TableCell>
+                        <TableCell className="text-xs">
+                          {row.errors.length > 0 ? (
+                            <span className="text-destructive">{row.errors.join("; ")}</span>
+                          ) : (
+                            <span className="text-success">OK</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {validated.length > PREVIEW_ROW_LIMIT && (
+                <p className="text-xs text-muted-foreground">
+                  Showing the first {PREVIEW_ROW_LIMIT} of {validated.length} rows
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        {step !== "upload" && (
+          <div className="flex justify-between gap-2 pt-4 border-t border-border/50">
+            <Button variant="outline" onClick={() => setStep(step === "preview" ? "map" : "upload")} disabled={isImporting}>
+              Back
+            </Button>
+            {step === "map" ? (
+              <Button onClick={() => setStep("preview")} disabled={missingRequired.length > 0}>
+                {missingRequired.length > 0
+                  ? `Map ${missingRequired.map((f) => LEDGER_FIELD_LABELS[f]).join(" and ")} to continue`
+                  : "Preview"}
+              </Button>
+            ) : (
+              <Button onClick={handleImport} disabled={isImporting || validRecords.length === 0}>
+                {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {validRecords.length} row{validRecords.length === 1 ? "" : "s"}
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,53 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePeriodFilter } from "@/hooks/use-url-filters";
+import { PERIOD_LABELS, PERIOD_PRESETS, type PeriodPreset } from "@/lib/period";
+import { cn } from "@/lib/utils";
+
+interface PeriodSelectProps {
+  defaultPeriod?: PeriodPreset;
+  className?: string;
+}
+
+// Period picker bound to the ?period / ?from / ?to search params
+export function PeriodSelect({ defaultPeriod = "all", className }: PeriodSelectProps) {
+  const { period, from, to, setPeriod } = usePeriodFilter(defaultPeriod);
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      <Select value={period} onValueChange={(value) => setPeriod(value as PeriodPreset)}>
+        <SelectTrigger className="h-9 w-[160px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PERIOD_PRESETS.map((preset) => (
+            <SelectItem key={preset} value={preset}>
+              {PERIOD_LABELS[preset]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {period === "custom" && (
+        <>
+          <Input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setPeriod("custom", { from: e.target.value, to })}
+            className="h-9 w-[150px]"
+            aria-label="From"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setPeriod("custom", { from, to: e.target.value })}
+            className="h-9 w-[150px]"
+            aria-label="To"
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,69 @@
-import { DollarSign } from "lucide-react";
+import { NavLink, useLocation } from "react-router-dom";
+import { BarChart3, CalendarClock, DollarSign, FileText, FolderOpen, GitBranch, Landmark, MessageSquare, Receipt, Settings, ShieldCheck, Stamp, Tags, Target, Wallet } from "lucide-react";
 import { cn } from "@/lib/utils";
 
-interface SidebarProps {
-  activeItem?: string;
-  onItemClick?: (itemId: string) => void;
-}
-
 const menuItems = [
-  { id: "dashboard", label: "CFO Dashboard", icon: DollarSign },
+  { to: "/dashboard", label: "CFO Dashboard", icon: DollarSign },
+  { to: "/analysis", label: "Data Analysis", icon: BarChart3 },
+  { to: "/reports", label: "Reports", icon: FileText },
+  { to: "/budgets", label: "Budgets", icon: Target },
+  { to: "/scenarios", label: "Scenarios", icon: GitBranch },
+  { to: "/receivables", label: "Receivables", icon: Receipt },
+  { to: "/payables", label: "Payables", icon: Wallet },
+  { to: "/approvals", label: "Approvals", icon: Stamp },
+  { to: "/reconciliation", label: "Reconciliation", icon: Landmark },
+  { to: "/categories", label: "Categories", icon: Tags },
+  { to: "/documents", label: "Documents", icon: FolderOpen },
+  { to: "/compliance", label: "Compliance", icon: ShieldCheck },
+  { to: "/calendar", label: "Compliance Calendar", icon: CalendarClock },
+  { to: "/chat", label: "CFO Agent Chat", icon: MessageSquare },
 ];
 
-export function Sidebar({ activeItem = "dashboard", onItemClick }: SidebarProps) {
+const footerItems = [
+  { to: "/settings", label: "Settings", icon: Settings },
+];
+
+// Views that share a reporting period keep ?period/from/to when switching
+const PERIOD_PARAMS = ["period", "from", "to"];
+const PERIOD_VIEWS = ["/dashboard", "/analysis", "/reports", "/budgets"];
+
+export function Sidebar() {
+  const location = useLocation();
+
+  const linkTarget = (to: string) => {
+    if (!PERIOD_VIEWS.includes(to)) return to;
+    const current = new URLSearchParams(location.search);
+    const params = new URLSearchParams();
+    for (const key of PERIOD_PARAMS) {
+      const value = current.get(key);
+      if (value) params.set(key, value);
+    }
+    const query = params.toString();
+    return query ? `${to}?${query}` : to;
+  };
+
+  const renderItem = (item: (typeof menuItems)[number]) => {
+    const Icon = item.icon;
+    return (
+      <NavLink
+        key={item.to}
+        to={linkTarget(item.to)}
+        className={({ isActive }) =>
+          cn(
+            "w-12 h-12 rounded-lg flex items-center justify-center transition-colors",
+            isActive
+              ? "bg-primary text-primary-foreground"
+              : "text-sidebar-foreground hover:bg-sidebar-accent"
+          )
+        }
+        title={item.label}
+        aria-label={item.label}
+      >
+        <Icon className="w-5 h-5" />
+      </NavLink>
+    );
+  };
+
   return (
     <aside className="w-20 bg-sidebar border-r border-sidebar-border flex flex-col items-center py-6 space-y-8">
       {/* Logo placeholder */}
@@ -20,26 +73,11 @@ export function Sidebar({ activeItem = "dashboard", onItemClick }: SidebarProps)
 
       {/* Navigation items */}
       <nav className="flex-1 flex flex-col items-center space-y-4">
-        {menuItems.map((item) => {
-          const Icon = item.icon;
-          const isActive = item.id === activeItem;
-          
-          return (
-            <button
-              key={item.id}
-              onClick={() => onItemClick?.(item.id)}
-              className={cn(
-                "w-12 h-12 rounded-lg flex items-center justify-center transition-colors",
-                isActive
-                  ? "bg-primary text-primary-foreground"
-                  : "text-sidebar-foreground hover:bg-sidebar-accent"
-              )}
-              title={item.label}
-            >
-              <Icon className="w-5 h-5" />
-            </button>
-          );
-        })}
+        {menuItems.map(renderItem)}
+      </nav>
+
+      <nav className="flex flex-col items-center space-y-4">
+        {footerItems.map(renderItem)}
       </nav>
     </aside>
   );
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader2, ShieldAlert, Undo2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useAnomalies } from "@/hooks/use-anomalies";
+import { dismissAnomaly, restoreAnomaly } from "@/data/anomalies";
+import type { DateRange } from "@/lib/period";
+import { cn } from "@/lib/utils";
+import { ANOMALY_KIND_LABELS, type Anomaly, type AnomalySeverity } from "@shared/anomalies";
+
+interface AnomalyAlertsCardProps {
+  range: DateRange;
+}
+
+const ALERTS_SHOWN = 5;
+
+const SEVERITY_STYLES: Record<AnomalySeverity, string> = {
+  high: "text-destructive border-destructive/40",
+  medium: "text-warning border-warning/50",
+  low: "text-muted-foreground",
+};
+
+// Anomalies in the dashboard's period, most severe first
+export function AnomalyAlertsCard({ range }: AnomalyAlertsCardProps) {
+  const { open, dismissed, isLoading, error } = useAnomalies(range);
+  const [showAll, setShowAll] = useState(false);
+  const [showDismissed, setShowDismissed] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  if (isLoading || error) return null;
+
+  const toggle = async (anomaly: Anomaly, dismiss: boolean) => {
+    setBusyKey(anomaly.key);
+    try {
+      if (dismiss) await dismissAnomaly(anomaly.key);
+      else await restoreAnomaly(anomaly.key);
+      queryClient.invalidateQueries({ queryKey: ["anomaly-dismissals"] });
+    } catch (toggleError) {
+      console.error("Error updating anomaly:", toggleError);
+      toast({
+        title: dismiss ? "Could not dismiss alert" : "Could not restore alert",
+        description: toggleError instanceof Error ? toggleError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const listed = showDismissed ? dismissed : showAll ? open : open.slice(0, ALERTS_SHOWN);
+
+  return (
+    <Card className="border-border/50 bg-card">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-primary" />
+          Anomaly Alerts
+          {open.length > 0 && (
+            <Badge variant="outline" className="ml-1">
+              {open.length}
+            </Badge>
+          )}
+        </CardTitle>
+        {dismissed.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setShowDismissed((value) => !value)}>
+            {showDismissed ? "Show open" : `${dismissed.length} dismissed`}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {listed.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {showDismissed ? "No dismissed alerts." : "Nothing unusual in this period."}
+          </p>
+        ) : (
+          listed.map((anomaly) => (
+            <div key={anomaly.key} className="flex items-start justify-between gap-3 rounded-lg border border-border/50 p-3">
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className={cn("capitalize", SEVERITY_STYLES[anomaly.severity])}>
+                    {anomaly.severity}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">{ANOMALY_KIND_LABELS[anomaly.kind]}</span>
+                  <span className="text-xs text-muted-foreground tabular-nums">{anomaly.date}</span>
+                </div>
+                <p className="text-sm font-medium">{anomaly.title}</p>
+                <p className="text-xs text-muted-foreground">{anomaly.detail}</p>
+                <p className="text-xs text-muted-foreground font-mono truncate" title={anomaly.transactionIds.join(", ")}>
+                  {anomaly.transactionIds.map((id) => id.slice(0, 8)).join(" · ")}
+                </p>
+              </div>
+              {busyKey === anomaly.key ? (
+                <Loader2 className="w-4 h-4 mt-1 shrink-0 animate-spin text-muted-foreground" />
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => toggle(anomaly, !showDismissed)}
+                  title={showDismissed ? "Restore alert" : "Dismiss alert"}
+                >
+                  {showDismissed ? <Undo2 className="w-4 h-4" /> : <X className="w-4 h-4" />}
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+        {!showDismissed && open.length > ALERTS_SHOWN && (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => setShowAll((value) => !value)}>
+            {showAll ? "Show fewer" : `Show all ${open.length}`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { formatApprovalAmount, saveApprovalPolicy, type ApprovalPolicyRow } from "@/data/approvals";
+import type { Vendor } from "@/data/ledger";
+import { parseImportAmount } from "@/lib/ledgerImport";
+import {
+  APPROVAL_SUBJECTS,
+  APPROVAL_SUBJECT_LABELS,
+  describeApprovalPolicy,
+  type ApprovalSubject,
+} from "@shared/approvals";
+
+interface ApprovalPolicyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The policy to edit; null creates one
+  policy: ApprovalPolicyRow | null;
+  vendors: Vendor[];
+  categories: string[];
+  onSaved?: () => void;
+}
+
+const ANY_VENDOR = "any";
+
+const DEFAULT_PRIORITY = 100;
+
+// Approvers are entered in order, separated by commas
+const parseApprovers = (value: string) =>
+  value
+    .split(",")
+    .map((a) => a.trim())
+    .filter(Boolean);
+
+export function ApprovalPolicyDialog({ open, onOpenChange, policy, vendors, categories, onSaved }: ApprovalPolicyDialogProps) {
+  const [name, setName] = useState("");
+  const [appliesTo, setAppliesTo] = useState<ApprovalSubject>("bill");
+  const [threshold, setThreshold] = useState("");
+  const [category, setCategory] = useState("");
+  const [vendorId, setVendorId] = useState(ANY_VENDOR);
+  const [approvers, setApprovers] = useState("");
+  const [priority, setPriority] = useState(String(DEFAULT_PRIORITY));
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(policy?.name ?? "");
+    setAppliesTo(policy?.applies_to ?? "bill");
+    setThreshold(policy ? String(policy.threshold) : "");
+    setCategory(policy?.category ?? "");
+    setVendorId(policy?.vendor_id ?? ANY_VENDOR);
+    setApprovers(policy?.approvers.join(", ") ?? "");
+    setPriority(String(policy?.priority ?? DEFAULT_PRIORITY));
+  }, [open, policy]);
+
+  const amount = threshold.trim() ? parseImportAmount(threshold) : 0;
+  const order = Number(priority);
+  const steps = parseApprovers(approvers);
+  const vendorNames = new Map(vendors.map((v) => [v.id, v.name]));
+  const limit = Math.abs(amount ?? 0);
+  const draft = {
+    name: name.trim() || `${APPROVAL_SUBJECT_LABELS[appliesTo]} over ${formatApprovalAmount(limit)}`,
+    applies_to: appliesTo,
+    threshold: limit,
+    category: category.trim() || null,
+    vendor_id: vendorId === ANY_VENDOR ? null : vendorId,
+    approvers: steps,
+    priority: Number.isInteger(order) ? order : DEFAULT_PRIORITY,
+    is_active: policy?.is_active ?? true,
+  };
+
+  // Each step needs a different person, or one approver could sign off twice
+  const duplicate = steps.find((a, i) => steps.findIndex((b) => b.toLowerCase() === a.toLowerCase()) !== i);
+  const error =
+    amount === null
+      ? "The threshold must be a number"
+      : !Number.isInteger(order)
+        ? "The priority must be a whole number"
+        : steps.length === 0
+          ? "Name at least one approver"
+          : duplicate
+            ? `${duplicate} is listed more than once`
+            : null;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveApprovalPolicy(draft, policy?.id);
+      toast({
+        title: policy ? "Policy updated" : "Policy added",
+        description: "It applies to spend entered from now on and to the unapproved list",
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (saveError) {
+      console.error("Error saving approval policy:", saveError);
+      toast({
+        title: "Could not save policy",
+        description: saveError instanceof Error ? saveError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{policy ? "Edit policy" : "New approval policy"}</DialogTitle>
+          <DialogDescription>
+            Spend over the threshold needs each approver to sign off in turn. Where several policies match, the lowest
+            priority number applies.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label>Applies to</Label>
+            <Select value={appliesTo} onValueChange={(value) => setAppliesTo(value as ApprovalSubject)}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {APPROVAL_SUBJECTS.map((s) => (
+                  <SelectItem key={s} value={s}>
+                    {APPROVAL_SUBJECT_LABELS[s]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="approval-threshold">Over</Label>
+            <Input
+              id="approval-threshold"
+              value={threshold}
+              inputMode="decimal"
+              onChange={(e) => setThreshold(e.target.value)}
+              placeholder="0"
+              className="text-right"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="approval-category">Only in category</Label>
+            <Input
+              id="approval-category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              list="approval-categories"
+              placeholder="Every category"
+            />
+            <datalist id="approval-categories">
+              {categories.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Only from vendor</Label>
+            <Select value={vendorId} onValueChange={setVendorId}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_VENDOR}>Every vendor</SelectItem>
+                {vendors.map((v) => (
+                  <SelectItem key={v.id} value={v.id}>
+                    {v.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="approval-approvers">Approvers, in order</Label>
+            <Input
+              id="approval-approvers"
+              value={approvers}
+              onChange={(e) => setApprovers(e.target.value)}
+              placeholder="e.g. Dana, Sam"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="approval-name">Name</Label>
+            <Input id="approval-name" value={name} onChange={(e) => setName(e.target.value)} placeholder={draft.name} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="approval-priority">Priority</Label>
+            <Input
+              id="approval-priority"
+              value={priority}
+              inputMode="numeric"
+              onChange={(e) => setPriority(e.target.value)}
+              className="text-right"
+            />
+          </div>
+        </div>
+
+        <p className={error ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+          {error || describeApprovalPolicy(draft, vendorNames)}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {policy ? "Save policy" : "Add policy"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,67 @@
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ApprovalPolicyRow } from "@/data/approvals";
+import { cn } from "@/lib/utils";
+import { APPROVAL_SUBJECT_LABELS, describeApprovalPolicy } from "@shared/approvals";
+
+interface ApprovalPolicyTableProps {
+  policies: ApprovalPolicyRow[];
+  vendorNames: Map<string, string>;
+  onToggle: (policy: ApprovalPolicyRow, active: boolean) => void;
+  onEdit: (policy: ApprovalPolicyRow) => void;
+  onDelete: (policy: ApprovalPolicyRow) => void;
+}
+
+export function ApprovalPolicyTable({ policies, vendorNames, onToggle, onEdit, onDelete }: ApprovalPolicyTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Policy</TableHead>
+            <TableHead>Applies to</TableHead>
+            <TableHead className="text-right">Steps</TableHead>
+            <TableHead className="text-right">Priority</TableHead>
+            <TableHead className="w-[80px]">Active</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {policies.map((policy) => (
+            <TableRow key={policy.id} className={cn(!policy.is_active && "text-muted-foreground")}>
+              <TableCell className="max-w-[420px]">
+                <span className="block truncate font-medium">{policy.name}</span>
+                <span className="block truncate text-xs text-muted-foreground">
+                  {describeApprovalPolicy(policy, vendorNames)}
+                </span>
+              </TableCell>
+              <TableCell className="whitespace-nowrap">{APPROVAL_SUBJECT_LABELS[policy.applies_to]}</TableCell>
+              <TableCell className="text-right tabular-nums">{policy.approvers.length}</TableCell>
+              <TableCell className="text-right tabular-nums">{policy.priority}</TableCell>
+              <TableCell>
+                <Switch checked={policy.is_active} onCheckedChange={(checked) => onToggle(policy, checked)} aria-label="Active" />
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onEdit(policy)} title="Edit policy">
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onDelete(policy)} title="Delete policy">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          {policies.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                No policies yet. Add one to route large bills and expenses for approval.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
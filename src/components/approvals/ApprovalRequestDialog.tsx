@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { Check, Circle, Clock, Loader2, MessageSquare, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  REQUEST_STATUS_CLASSES,
+  SUBJECT_NOUNS,
+  commentOnApproval,
+  decideApproval,
+  formatApprovalAmount,
+  type ApprovalAction,
+  type ApprovalDecision,
+  type ApprovalRequest,
+} from "@/data/approvals";
+import { cn } from "@/lib/utils";
+import { APPROVAL_REQUEST_STATUS_LABELS, decisionBlocker, describeRequestProgress } from "@shared/approvals";
+
+interface ApprovalRequestDialogProps {
+  request: ApprovalRequest | null;
+  // The request's history, oldest first
+  actions: ApprovalAction[];
+  currentUser: string | null;
+  onOpenChange: (open: boolean) => void;
+  onCommented?: () => void;
+  onDecided?: (request: ApprovalRequest) => void;
+}
+
+const ACTION_LABELS: Record<ApprovalAction["action"], string> = {
+  requested: "Requested approval",
+  approved: "Approved",
+  rejected: "Rejected",
+  commented: "Commented",
+};
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+export function ApprovalRequestDialog({
+  request,
+  actions,
+  currentUser,
+  onOpenChange,
+  onCommented,
+  onDecided,
+}: ApprovalRequestDialogProps) {
+  const [comment, setComment] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setComment("");
+  }, [request?.id]);
+
+  const blocker = request ? decisionBlocker(request, currentUser) : null;
+  const decisions = new Map(
+    actions.filter((a) => a.action === "approved" || a.action === "rejected").map((a) => [a.step, a])
+  );
+
+  const handleDecision = async (decision: ApprovalDecision) => {
+    if (!request || !currentUser) return;
+    setIsSaving(true);
+    try {
+      const updated = await decideApproval(request.id, decision, currentUser, comment);
+      toast({
+        title: decision === "approved" ? "Approved" : "Rejected",
+        description: `${request.description}: ${describeRequestProgress(updated)}`,
+      });
+      onDecided?.(updated);
+      onOpenChange(false);
+    } catch (decideError) {
+      console.error("Error deciding approval:", decideError);
+      toast({
+        title: "Could not record the decision",
+        description: decideError instanceof Error ? decideError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleComment = async () => {
+    if (!request) return;
+    setIsSaving(true);
+    try {
+      await commentOnApproval(request, currentUser, comment);
+      setComment("");
+      onCommented?.();
+    } catch (commentError) {
+      console.error("Error commenting on approval:", commentError);
+      toast({
+        title: "Could not add comment",
+        description: commentError instanceof Error ? commentError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{request?.description}</DialogTitle>
+          <DialogDescription>
+            {request &&
+              `${SUBJECT_NOUNS[request.subject]} of ${request.spend_date} for ${formatApprovalAmount(Number(request.amount))}, ` +
+                `under "${request.policy_name}"`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label>Steps</Label>
+                <Badge variant="outline" className={cn("whitespace-nowrap", REQUEST_STATUS_CLASSES[request.status])}>
+                  {APPROVAL_REQUEST_STATUS_LABELS[request.status]}
+                </Badge>
+              </div>
+              <ol className="space-y-1.5">
+                {request.approvers.map((approver, step) => {
+                  const decision = decisions.get(step);
+                  const waiting = request.status === "pending" && step === request.current_step;
+                  return (
+                    <li key={step} className="flex items-center gap-2 text-sm">
+                      {decision?.action === "approved" ? (
+                        <Check className="w-4 h-4 text-success" />
+                      ) : decision?.action === "rejected" ? (
+                        <X className="w-4 h-4 text-destructive" />
+                      ) : waiting ? (
+                        <Clock className="w-4 h-4 text-warning" />
+                      ) : (
+                        <Circle className="w-4 h-4 text-muted-foreground" />
+                      )}
+                      <span className={cn(!decision && !waiting && "text-muted-foreground")}>
+                        {step + 1}. {approver}
+                      </span>
+                      {decision && (
+                        <span className="text-xs text-muted-foreground">
+                          {ACTION_LABELS[decision.action].toLowerCase()} {formatTimestamp(decision.created_at)}
+                        </span>
+                      )}
+                      {waiting && <span className="text-xs text-muted-foreground">waiting</span>}
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+
+            <div className="space-y-2">
+              <Label>History</Label>
+              <ul className="space-y-2 border-l pl-4">
+                {actions.map((a) => (
+                  <li key={a.id} className="text-sm">
+                    <span className="font-medium">{ACTION_LABELS[a.action]}</span>
+                    <span className="text-muted-foreground">
+                      {" "}
+                      by {a.actor || "someone unnamed"}, {formatTimestamp(a.created_at)}
+                    </span>
+                    {a.comment && <p className="mt-0.5 whitespace-pre-wrap text-muted-foreground">{a.comment}</p>}
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-muted-foreground">The history is permanent: entries cannot be edited or removed.</p>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="approval-comment">Comment</Label>
+              <Textarea
+                id="approval-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={3}
+                placeholder={request.status === "pending" ? "Required to reject" : undefined}
+              />
+              {request.status === "pending" && blocker && <p className="text-xs text-muted-foreground">{blocker}</p>}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={handleComment} disabled={!comment.trim() || isSaving}>
+            <MessageSquare className="w-4 h-4 mr-2" />
+            Add comment
+          </Button>
+          {request?.status === "pending" && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => handleDecision("rejected")}
+                disabled={!!blocker || !comment.trim() || isSaving}
+                title={!comment.trim() ? "Say why in the comment" : undefined}
+              >
+                <X className="w-4 h-4 mr-2" />
+                Reject
+              </Button>
+              <Button onClick={() => handleDecision("approved")} disabled={!!blocker || isSaving}>
+                {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+                Approve
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { MessageSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { REQUEST_STATUS_CLASSES, SUBJECT_NOUNS, formatApprovalAmount, type ApprovalRequest } from "@/data/approvals";
+import { cn } from "@/lib/utils";
+import { APPROVAL_REQUEST_STATUS_LABELS, describeRequestProgress } from "@shared/approvals";
+
+interface ApprovalRequestTableProps {
+  requests: ApprovalRequest[];
+  emptyMessage: string;
+  onOpen: (request: ApprovalRequest) => void;
+}
+
+export function ApprovalRequestTable({ requests, emptyMessage, onOpen }: ApprovalRequestTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Spend</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead>Policy</TableHead>
+            <TableHead>Progress</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {requests.map((request) => (
+            <TableRow key={request.id} className="cursor-pointer" onClick={() => onOpen(request)}>
+              <TableCell className="max-w-[320px]">
+                <span className="block truncate font-medium">{request.description}</span>
+                <span className="block text-xs text-muted-foreground">
+                  {SUBJECT_NOUNS[request.subject]} of {request.spend_date}
+                  {request.requested_by && `, raised by ${request.requested_by}`}
+                </span>
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{formatApprovalAmount(Number(request.amount))}</TableCell>
+              <TableCell className="max-w-[200px] truncate">{request.policy_name}</TableCell>
+              <TableCell className="text-sm text-muted-foreground">{describeRequestProgress(request)}</TableCell>
+              <TableCell>
+                <Badge variant="outline" className={cn("whitespace-nowrap", REQUEST_STATUS_CLASSES[request.status])}>
+                  {APPROVAL_REQUEST_STATUS_LABELS[request.status]}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onOpen(request);
+                  }}
+                  title="Open request"
+                >
+                  <MessageSquare className="w-4 h-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          {requests.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
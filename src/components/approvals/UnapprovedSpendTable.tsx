@@ -0,0 +1,88 @@
+import { Loader2, Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { REQUEST_STATUS_CLASSES, SUBJECT_NOUNS, formatApprovalAmount } from "@/data/approvals";
+import { cn } from "@/lib/utils";
+import { describeRequestProgress, type UnapprovedSpend } from "@shared/approvals";
+
+interface UnapprovedSpendTableProps {
+  rows: UnapprovedSpend[];
+  vendorNames: Map<string, string>;
+  // Item being requested right now, if any
+  requestingId: string | null;
+  onRequest: (row: UnapprovedSpend) => void;
+}
+
+export function UnapprovedSpendTable({ rows, vendorNames, requestingId, onRequest }: UnapprovedSpendTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Spend</TableHead>
+            <TableHead>Vendor</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead>Policy</TableHead>
+            <TableHead>Approval</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ item, policy, request }) => {
+            const pending = request?.status === "pending";
+            return (
+              <TableRow key={`${item.subject}:${item.id}`}>
+                <TableCell className="max-w-[280px]">
+                  <span className="block truncate font-medium">{item.description || SUBJECT_NOUNS[item.subject]}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {SUBJECT_NOUNS[item.subject]} of {item.date}
+                    {item.category && ` in ${item.category}`}
+                  </span>
+                </TableCell>
+                <TableCell>{(item.vendor_id && vendorNames.get(item.vendor_id)) || "—"}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatApprovalAmount(item.amount)}</TableCell>
+                <TableCell className="max-w-[200px] truncate">{policy.name}</TableCell>
+                <TableCell>
+                  {request ? (
+                    <div className="flex flex-col items-start gap-1">
+                      <Badge variant="outline" className={cn("whitespace-nowrap", REQUEST_STATUS_CLASSES[request.status])}>
+                        {pending ? "Requested" : "Rejected"}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">{describeRequestProgress(request)}</span>
+                    </div>
+                  ) : (
+                    <Badge variant="outline" className="whitespace-nowrap text-muted-foreground">
+                      Not requested
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {!pending && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => onRequest({ item, policy, request })}
+                      disabled={requestingId !== null}
+                      title={request ? "Request approval again" : "Request approval"}
+                    >
+                      {requestingId === item.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+          {rows.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                Everything the policies cover has been approved.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
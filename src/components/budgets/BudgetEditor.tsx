@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Copy, Loader2, Plus, Save, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useBudgets } from "@/hooks/use-budgets";
+import { deleteBudgets, saveBudgets, type Budget } from "@/data/budgets";
+import { BUDGET_DIMENSION_LABELS, formatBudgetAmount, type BudgetDimension, type BudgetLine } from "@/lib/budgets";
+import { parseImportAmount } from "@/lib/ledgerImport";
+import { cn } from "@/lib/utils";
+import { BudgetImportDialog } from "./BudgetImportDialog";
+import { CopyForwardDialog } from "./CopyForwardDialog";
+
+interface BudgetEditorProps {
+  dimension: BudgetDimension;
+  year: number;
+  onYearChange: (year: number) => void;
+}
+
+// One editable row: a name and twelve monthly amounts as typed
+interface DraftLine {
+  name: string;
+  cells: string[];
+}
+
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const monthOf = (year: number, index: number) => `${year}-${String(index + 1).padStart(2, "0")}-01`;
+
+function toDraft(budgets: Budget[]): DraftLine[] {
+  const byName = new Map<string, DraftLine>();
+  for (const budget of budgets) {
+    const line = byName.get(budget.name) ?? { name: budget.name, cells: Array(12).fill("") };
+    line.cells[Number(budget.month.slice(5, 7)) - 1] = String(budget.amount);
+    byName.set(budget.name, line);
+  }
+  return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Blank cells have no budget; anything else must be a non-negative amount
+function cellAmount(text: string): number | null | "invalid" {
+  if (text.trim() === "") return null;
+  const amount = parseImportAmount(text);
+  return amount === null || amount < 0 ? "invalid" : amount;
+}
+
+export function BudgetEditor({ dimension, year, onYearChange }: BudgetEditorProps) {
+  const range = useMemo(() => ({ start: `${year}-01-01`, end: `${year}-12-31` }), [year]);
+  const { data: budgets, isLoading, error } = useBudgets(range);
+  const existing = useMemo(() => (budgets || []).filter((b) => b.dimension === dimension), [budgets, dimension]);
+
+  const [draft, setDraft] = useState<DraftLine[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [copyOpen, setCopyOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDraft(toDraft(existing));
+    setDirty(false);
+  }, [existing]);
+
+  const currentYear = new Date().getFullYear();
+  const years = Array.from(new Set([currentYear - 2, currentYear - 1, currentYear, currentYear + 1, year])).sort((a, b) => a - b);
+
+  const hasInvalid = draft.some((line) => line.cells.some((cell) => cellAmount(cell) === "invalid"));
+  const rowTotal = (line: DraftLine) =>
+    line.cells.reduce((sum, cell) => {
+      const amount = cellAmount(cell);
+      return typeof amount === "number" ? sum + amount : sum;
+    }, 0);
+  const columnTotal = (index: number) =>
+    draft.reduce((sum, line) => {
+      const amount = cellAmount(line.cells[index]);
+      return typeof amount === "number" ? sum + amount : sum;
+    }, 0);
+
+  const updateCell = (lineIndex: number, monthIndex: number, value: string) => {
+    setDraft((prev) =>
+      prev.map((line, i) =>
+        i === lineIndex ? { ...line, cells: line.cells.map((cell, m) => (m === monthIndex ? value : cell)) } : line
+      )
+    );
+    setDirty(true);
+  };
+
+  const addLine = () => {
+    const name = newName.trim();
+    if (!name || draft.some((line) => line.name === name)) return;
+    setDraft((prev) => [...prev, { name, cells: Array(12).fill("") }]);
+    setNewName("");
+    setDirty(true);
+  };
+
+  const removeLine = (lineIndex: number) => {
+    setDraft((prev) => prev.filter((_, i) => i !== lineIndex));
+    setDirty(true);
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["budgets"] });
+
+  const handleSave = async () => {
+    const lines: BudgetLine[] = [];
+    for (const line of draft) {
+      line.cells.forEach((cell, monthIndex) => {
+        const amount = cellAmount(cell);
+        if (typeof amount === "number") {
+          lines.push({ dimension, name: line.name, month: monthOf(year, monthIndex), amount });
+        }
+      });
+    }
+    // Cleared cells and removed lines delete their saved budgets
+    const kept = new Set(lines.map((l) => `${l.name}\u0000${l.month}`));
+    const removed = existing.filter((b) => !kept.has(`${b.name}\u0000${b.month}`)).map((b) => b.id);
+
+    setIsSaving(true);
+    try {
+      await saveBudgets(lines);
+      await deleteBudgets(removed);
+      toast({ title: "Budgets saved", description: `${year} ${BUDGET_DIMENSION_LABELS[dimension].toLowerCase()} budgets updated` });
+      await refresh();
+    } catch (error) {
+      console.error("Error saving budgets:", error);
+      toast({
+        title: "Could not save budgets",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Budget editor</CardTitle>
+          <CardDescription>
+            Monthly budgets by {BUDGET_DIMENSION_LABELS[dimension].toLowerCase()}. Leave a month blank for no budget.
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={String(year)} onValueChange={(value) => onYearChange(Number(value))}>
+            <SelectTrigger className="h-9 w-[100px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map((y) => (
+                <SelectItem key={y} value={String(y)}>
+                  {y}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setCopyOpen(true)}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy from {year - 1}
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!dirty || hasInvalid || isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading budgets...
+          </div>
+        ) : error ? (
+          <p className="py-8 text-destructive">Error loading budgets: {error.message}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[180px]">{BUDGET_DIMENSION_LABELS[dimension]}</TableHead>
+                  {MONTH_LABELS.map((label) => (
+                    <TableHead key={label} className="text-right">
+                      {label}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {draft.map((line, lineIndex) => (
+                  <TableRow key={line.name}>
+                    <TableCell className="py-1 font-medium">{line.name}</TableCell>
+                    {line.cells.map((cell, monthIndex) => (
+                      <TableCell key={monthIndex} className="py-1 px-1">
+                        <Input
+                          value={cell}
+                          inputMode="decimal"
+                          onChange={(e) => updateCell(lineIndex, monthIndex, e.target.value)}
+                          aria-label={`${line.name} ${MONTH_LABELS[monthIndex]} ${year}`}
+                          className={cn(
+                            "h-8 w-24 text-right tabular-nums",
+                            cellAmount(cell) === "invalid" && "border-destructive"
+                          )}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell className="py-1 text-right tabular-nums font-medium">
+                      {formatBudgetAmount(rowTotal(line))}
+                    </TableCell>
+                    <TableCell className="py-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => removeLine(lineIndex)}
+                        title={`Remove ${line.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {draft.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={15} className="py-8 text-center text-muted-foreground">
+                      No {year} budgets yet. Add a line, import a CSV or copy last year forward.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+              {draft.length > 0 && (
+                <TableFooter>
+                  <TableRow className="font-semibold">
+                    <TableCell className="py-2">Total</TableCell>
+                    {MONTH_LABELS.map((label, monthIndex) => (
+                      <TableCell key={label} className="py-2 text-right tabular-nums">
+                        {formatBudgetAmount(columnTotal(monthIndex))}
+                      </TableCell>
+                    ))}
+                    <TableCell className="py-2 text-right tabular-nums">
+                      {formatBudgetAmount(draft.reduce((sum, line) => sum + rowTotal(line), 0))}
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addLine()}
+            placeholder={`Add a ${BUDGET_DIMENSION_LABELS[dimension].toLowerCase()}`}
+            className="h-9 max-w-xs"
+          />
+          <Button variant="outline" size="sm" onClick={addLine} disabled={!newName.trim()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add line
+          </Button>
+        </div>
+      </CardContent>
+
+      <BudgetImportDialog open={importOpen} onOpenChange={setImportOpen} dimension={dimension} onImported={refresh} />
+      <CopyForwardDialog
+        open={copyOpen}
+        onOpenChange={setCopyOpen}
+        dimension={dimension}
+        year={year}
+        onCopied={refresh}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { AlertCircle, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { saveBudgets } from "@/data/budgets";
+import {
+  BUDGET_DIMENSION_LABELS,
+  parseBudgetCsv,
+  type BudgetCsvResult,
+  type BudgetDimension,
+} from "@/lib/budgets";
+
+interface BudgetImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Used when the file has a Name column rather than Category/Department/Vendor
+  dimension: BudgetDimension;
+  onImported?: () => void;
+}
+
+const MAX_ERRORS_SHOWN = 8;
+
+export function BudgetImportDialog({ open, onOpenChange, dimension, onImported }: BudgetImportDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<BudgetCsvResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFileName(null);
+    setResult(null);
+  };
+
+  const handleFileSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setFileName(file.name);
+    setResult(parseBudgetCsv(await file.text(), dimension));
+  };
+
+  const handleImport = async () => {
+    if (!result || result.lines.length === 0) return;
+    setIsImporting(true);
+    try {
+      await saveBudgets(result.lines);
+      toast({ title: "Budgets imported", description: `${result.lines.length} monthly budgets saved from ${fileName}` });
+      onImported?.();
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error importing budgets:", error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const names = result ? new Set(result.lines.map((l) => `${l.dimension}:${l.name}`)).size : 0;
+  const months = result ? result.lines.map((l) => l.month).sort() : [];
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import budgets</DialogTitle>
+          <DialogDescription>
+            A CSV with Month, {BUDGET_DIMENSION_LABELS[dimension]} and Amount columns, or one row per{" "}
+            {BUDGET_DIMENSION_LABELS[dimension].toLowerCase()} with a column per month (e.g. "Jan 2025"). Months that
+            already have a budget are replaced.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          className="border-2 border-dashed border-border rounded-lg p-8 flex flex-col items-center justify-center gap-2 text-center cursor-pointer hover:border-primary/50 transition-colors"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="w-6 h-6 text-muted-foreground" />
+          <p className="text-sm font-medium">{fileName || "Click to choose a CSV file"}</p>
+          <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" accept=".csv,.txt" />
+        </div>
+
+        {result && (
+          <div className="space-y-2 text-sm">
+            <p>
+              {result.lines.length} monthly budgets for {names} lines
+              {months.length > 0 && `, ${months[0].slice(0, 7)} to ${months[months.length - 1].slice(0, 7)}`}
+            </p>
+            {result.errors.length > 0 && (
+              <div className="rounded-md border border-destructive/30 bg-destructive/10 p-3 space-y-1">
+                <p className="flex items-center gap-2 font-medium text-destructive">
+                  <AlertCircle className="w-4 h-4" />
+                  {result.errors.length} rows skipped
+                </p>
+                {result.errors.slice(0, MAX_ERRORS_SHOWN).map((error) => (
+                  <p key={error} className="text-xs text-muted-foreground">
+                    {error}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!result || result.lines.length === 0 || isImporting}>
+            {isImporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Import {result?.lines.length || ""} budgets
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import { Link, useLocation } from "react-router-dom";
+import { ArrowRight, Target } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useBudgetVariance } from "@/hooks/use-budgets";
+import { DEFAULT_TOLERANCE, formatBudgetAmount, formatVariancePct } from "@/lib/budgets";
+import type { DateRange } from "@/lib/period";
+import { cn } from "@/lib/utils";
+import { VarianceStatusBadge } from "./VarianceTable";
+
+interface BudgetVarianceCardProps {
+  range: DateRange;
+}
+
+const FLAGGED_SHOWN = 3;
+
+// Budget vs actual by category for the dashboard's period
+export function BudgetVarianceCard({ range }: BudgetVarianceCardProps) {
+  const { report, hasBudgets, isLoading, error } = useBudgetVariance(range, "category", DEFAULT_TOLERANCE);
+  const location = useLocation();
+
+  if (isLoading || error || !report) return null;
+
+  if (!hasBudgets) {
+    return (
+      <Card className="border-border/50 bg-card">
+        <CardContent className="flex flex-wrap items-center justify-between gap-4 p-4 sm:p-6">
+          <div className="flex items-center gap-3">
+            <Target className="w-5 h-5 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">No budgets cover this period yet.</p>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/budgets?view=editor">Set up budgets</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { totals } = report;
+  const used = totals.budget > 0 ? (totals.actual / totals.budget) * 100 : 0;
+  const flagged = report.rows.filter((row) => row.status === "over" || row.status === "unbudgeted").slice(0, FLAGGED_SHOWN);
+
+  return (
+    <Card className="border-border/50 bg-card">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Target className="w-5 h-5" />
+          Budget vs Actual
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-baseline justify-between gap-2 text-sm">
+            <span>
+              <span className="text-xl font-bold">{formatBudgetAmount(totals.actual)}</span>
+              <span className="text-muted-foreground"> of {formatBudgetAmount(totals.budget)}</span>
+            </span>
+            <span
+              className={cn(
+                "font-medium tabular-nums",
+                totals.variance > 0 ? "text-destructive" : "text-success"
+              )}
+            >
+              {formatVariancePct(totals.variancePct)}
+            </span>
+          </div>
+          <Progress
+            value={Math.min(used, 100)}
+            className={cn("h-2", used > 100 && "[&>div]:bg-destructive")}
+          />
+        </div>
+
+        {flagged.length > 0 ? (
+          <div className="space-y-2">
+            {flagged.map((row) => (
+              <div key={row.name} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate">{row.name}</span>
+                <span className="flex items-center gap-2 shrink-0">
+                  <span className="tabular-nums text-muted-foreground">
+                    {formatBudgetAmount(row.actual)} / {formatBudgetAmount(row.budget)}
+                  </span>
+                  <VarianceStatusBadge status={row.status} />
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Every category is within budget.</p>
+        )}
+
+        <Button variant="ghost" size="sm" className="px-0" asChild>
+          <Link to={`/budgets${location.search}`}>
+            View variance report
+            <ArrowRight className="w-4 h-4 ml-1" />
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { fetchBudgets, saveBudgets } from "@/data/budgets";
+import { fetchLedger } from "@/data/ledger";
+import {
+  BUDGET_DIMENSION_LABELS,
+  copyForward,
+  spendByMonth,
+  type BudgetDimension,
+  type BudgetLine,
+} from "@/lib/budgets";
+
+interface CopyForwardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dimension: BudgetDimension;
+  // The year being budgeted; lines come from the year before
+  year: number;
+  onCopied?: () => void;
+}
+
+type CopySource = "budget" | "actuals";
+
+export function CopyForwardDialog({ open, onOpenChange, dimension, year, onCopied }: CopyForwardDialogProps) {
+  const [source, setSource] = useState<CopySource>("budget");
+  const [uplift, setUplift] = useState("0");
+  const [isCopying, setIsCopying] = useState(false);
+  const { toast } = useToast();
+  const fromYear = year - 1;
+
+  const handleCopy = async () => {
+    const upliftPct = Number(uplift) || 0;
+    const range = { start: `${fromYear}-01-01`, end: `${fromYear}-12-31` };
+    setIsCopying(true);
+    try {
+      let lines: BudgetLine[];
+      if (source === "budget") {
+        const budgets = await fetchBudgets(range);
+        lines = budgets.filter((b) => b.dimension === dimension);
+      } else {
+        const ledger = await fetchLedger(range);
+        const vendorNames = new Map(ledger.vendors.map((v) => [v.id, v.name]));
+        lines = spendByMonth(ledger.transactions, vendorNames, dimension);
+      }
+      const copied = copyForward(lines, fromYear, upliftPct);
+      if (copied.length === 0) {
+        toast({
+          title: "Nothing to copy",
+          description: `No ${source === "budget" ? "budgets" : "spend"} by ${BUDGET_DIMENSION_LABELS[dimension].toLowerCase()} in ${fromYear}`,
+        });
+        return;
+      }
+      await saveBudgets(copied);
+      toast({ title: "Budgets copied", description: `${copied.length} monthly budgets copied into ${year}` });
+      onCopied?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error copying budgets:", error);
+      toast({
+        title: "Copy failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Copy forward from {fromYear}</DialogTitle>
+          <DialogDescription>
+            Fill {year}'s {BUDGET_DIMENSION_LABELS[dimension].toLowerCase()} budgets month by month. Months that already
+            have a budget are replaced.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={source} onValueChange={(value) => setSource(value as CopySource)}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="budget" id="copy-budget" />
+              <Label htmlFor="copy-budget">{fromYear} budget</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="actuals" id="copy-actuals" />
+              <Label htmlFor="copy-actuals">{fromYear} actual spend</Label>
+            </div>
+          </RadioGroup>
+          <div className="space-y-1.5">
+            <Label htmlFor="copy-uplift">Adjust by (%)</Label>
+            <Input
+              id="copy-uplift"
+              type="number"
+              step="0.5"
+              value={uplift}
+              onChange={(e) => setUplift(e.target.value)}
+              className="w-32"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCopy} disabled={isCopying}>
+            {isCopying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Copy into {year}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
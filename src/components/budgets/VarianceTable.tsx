@@ -0,0 +1,100 @@
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import {
+  BUDGET_DIMENSION_LABELS,
+  VARIANCE_STATUS_LABELS,
+  formatBudgetAmount,
+  formatVariancePct,
+  type VarianceReport,
+  type VarianceRow,
+  type VarianceStatus,
+} from "@/lib/budgets";
+
+interface VarianceTableProps {
+  report: VarianceReport;
+  onDrillDown?: (row: VarianceRow) => void;
+}
+
+const STATUS_CLASSES: Record<VarianceStatus, string> = {
+  over: "border-transparent bg-destructive text-destructive-foreground",
+  "on-track": "text-success border-success/40",
+  under: "text-muted-foreground",
+  unbudgeted: "text-warning border-warning/50",
+};
+
+export function VarianceStatusBadge({ status }: { status: VarianceStatus }) {
+  return (
+    <Badge variant="outline" className={cn("whitespace-nowrap", STATUS_CLASSES[status])}>
+      {VARIANCE_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+// Positive variance is overspend, so it reads as a cost
+const varianceClass = (variance: number) =>
+  variance > 0 ? "text-destructive" : variance < 0 ? "text-success" : undefined;
+
+export function VarianceTable({ report, onDrillDown }: VarianceTableProps) {
+  const { totals } = report;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{BUDGET_DIMENSION_LABELS[report.dimension]}</TableHead>
+          <TableHead className="text-right">Budget</TableHead>
+          <TableHead className="text-right">Actual</TableHead>
+          <TableHead className="text-right">Variance</TableHead>
+          <TableHead className="text-right">Variance %</TableHead>
+          <TableHead className="text-right">Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {report.rows.map((row) => (
+          <TableRow key={row.name}>
+            <TableCell className="py-2 font-medium">{row.name}</TableCell>
+            <TableCell className="py-2 text-right tabular-nums">{formatBudgetAmount(row.budget)}</TableCell>
+            <TableCell className="py-2 text-right tabular-nums">
+              {onDrillDown && row.transactionIds.length > 0 ? (
+                <button
+                  type="button"
+                  className="hover:underline underline-offset-4"
+                  onClick={() => onDrillDown(row)}
+                  title={`Show ${row.transactionIds.length} transactions`}
+                >
+                  {formatBudgetAmount(row.actual)}
+                </button>
+              ) : (
+                formatBudgetAmount(row.actual)
+              )}
+            </TableCell>
+            <TableCell className={cn("py-2 text-right tabular-nums", varianceClass(row.variance))}>
+              {formatBudgetAmount(row.variance)}
+            </TableCell>
+            <TableCell className={cn("py-2 text-right tabular-nums", varianceClass(row.variance))}>
+              {formatVariancePct(row.variancePct)}
+            </TableCell>
+            <TableCell className="py-2 text-right">
+              <VarianceStatusBadge status={row.status} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow className="font-semibold">
+          <TableCell className="py-2">Total</TableCell>
+          <TableCell className="py-2 text-right tabular-nums">{formatBudgetAmount(totals.budget)}</TableCell>
+          <TableCell className="py-2 text-right tabular-nums">{formatBudgetAmount(totals.actual)}</TableCell>
+          <TableCell className={cn("py-2 text-right tabular-nums", varianceClass(totals.variance))}>
+            {formatBudgetAmount(totals.variance)}
+          </TableCell>
+          <TableCell className={cn("py-2 text-right tabular-nums", varianceClass(totals.variance))}>
+            {formatVariancePct(totals.variancePct)}
+          </TableCell>
+          <TableCell />
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+}
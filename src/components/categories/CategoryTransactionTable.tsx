@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { Check, Loader2, Pencil, ThumbsUp, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Transaction } from "@/data/ledger";
+import { cn } from "@/lib/utils";
+import { payeeOf, type CategoryChange, type CategoryNames } from "@shared/categorisation";
+
+export type CategoryView = "uncategorised" | "automatic" | "manual" | "imported";
+
+interface CategoryTransactionTableProps {
+  transactions: Transaction[];
+  view: CategoryView;
+  names: CategoryNames;
+  categories: string[];
+  suggestions: Map<string, CategoryChange>;
+  // Transaction with an update in flight
+  busyId: string | null;
+  onAccept: (change: CategoryChange) => void;
+  onSetCategory: (transaction: Transaction, category: string | null) => void;
+}
+
+// Long ledgers are narrowed with the search box rather than rendered whole
+const CATEGORY_ROW_LIMIT = 200;
+
+const EMPTY_MESSAGES: Record<CategoryView, string> = {
+  uncategorised: "Every transaction has a category.",
+  automatic: "No categories set by rules or learned patterns yet.",
+  manual: "No hand corrections yet. Correcting a category teaches the learned patterns.",
+  imported: "No transactions kept the category they were imported with.",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  rule: "Rule",
+  learned: "Learned",
+  manual: "By hand",
+};
+
+const formatAmount = (value: number) => value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+export function CategoryTransactionTable({
+  transactions,
+  view,
+  names,
+  categories,
+  suggestions,
+  busyId,
+  onAccept,
+  onSetCategory,
+}: CategoryTransactionTableProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const startEditing = (t: Transaction) => {
+    setEditingId(t.id);
+    setDraft(t.category ?? suggestions.get(t.id)?.to ?? "");
+  };
+
+  const save = (t: Transaction) => {
+    setEditingId(null);
+    onSetCategory(t, draft.trim() || null);
+  };
+
+  const rows = transactions.slice(0, CATEGORY_ROW_LIMIT);
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Payee</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead>{view === "uncategorised" ? "Suggestion" : "Category"}</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((t) => {
+            const suggestion = suggestions.get(t.id);
+            const busy = busyId === t.id;
+            const editing = editingId === t.id;
+            const payee = payeeOf(t, names);
+            return (
+              <TableRow key={t.id}>
+                <TableCell className="whitespace-nowrap tabular-nums">{t.date}</TableCell>
+                <TableCell className="max-w-[280px]">
+                  <span className="block truncate" title={payee || undefined}>
+                    {payee || "—"}
+                  </span>
+                  {t.description && t.description !== payee && (
+                    <span className="block truncate text-xs text-muted-foreground">{t.description}</span>
+                  )}
+                </TableCell>
+                <TableCell className={cn("text-right tabular-nums whitespace-nowrap", t.type === "income" && "text-success")}>
+                  {formatAmount(Number(t.amount))}
+                </TableCell>
+                <TableCell className="max-w-[360px]">
+                  {editing ? (
+                    <Input
+                      autoFocus
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") save(t);
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      list="transaction-categories"
+                      className="h-8"
+                      placeholder="Leave empty to clear"
+                    />
+                  ) : view === "uncategorised" ? (
+                    suggestion?.to ? (
+                      <>
+                        <div className="flex flex-wrap items-center gap-1">
+                          <span className="font-medium">{suggestion.to}</span>
+                          <Badge variant="outline" className="whitespace-nowrap">
+                            {suggestion.source === "rule" ? "Rule" : `${Math.round(suggestion.confidence * 100)}%`}
+                          </Badge>
+                        </div>
+                        <span className="block text-xs text-muted-foreground">{suggestion.reason}</span>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">No rule or pattern applies</span>
+                    )
+                  ) : (
+                    <>
+                      <div className="flex flex-wrap items-center gap-1">
+                        <span className="font-medium">{t.category}</span>
+                        {t.category_source && (
+                          <Badge variant="outline" className="whitespace-nowrap">
+                            {SOURCE_LABELS[t.category_source]}
+                          </Badge>
+                        )}
+                      </div>
+                      <span className="block text-xs text-muted-foreground">
+                        {t.category_reason ||
+                          (t.category_source === "manual" ? "Set by hand" : "Came with the imported row")}
+                      </span>
+                    </>
+                  )}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {busy ? (
+                    <Loader2 className="inline w-4 h-4 mr-2 animate-spin text-muted-foreground" />
+                  ) : editing ? (
+                    <>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => save(t)} title="Save category">
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)} title="Cancel">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      {view === "uncategorised" && suggestion?.to && (
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onAccept(suggestion)} title="Accept suggestion">
+                          <Check className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {(view === "automatic" || view === "imported") && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => onSetCategory(t, t.category)}
+                          title="Confirm category"
+                        >
+                          <ThumbsUp className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(t)} title="Correct category">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+          {transactions.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+                {EMPTY_MESSAGES[view]}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+      {transactions.length > rows.length && (
+        <p className="pt-3 text-xs text-muted-foreground">
+          Showing {rows.length} of {transactions.length}. Search to narrow the list.
+        </p>
+      )}
+      <datalist id="transaction-categories">
+        {categories.map((c) => (
+          <option key={c} value={c} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
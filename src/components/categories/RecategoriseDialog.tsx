@@ -0,0 +1,157 @@
+import { useEffect, useMemo, useState } from "react";
+import { ArrowRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { applyCategoryChanges, type CategoryRule } from "@/data/categorisation";
+import type { Transaction } from "@/data/ledger";
+import {
+  RECATEGORISE_SCOPES,
+  RECATEGORISE_SCOPE_LABELS,
+  payeeOf,
+  planRecategorisation,
+  type CategoryNames,
+  type RecategoriseScope,
+} from "@shared/categorisation";
+
+interface RecategoriseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transactions: Transaction[];
+  rules: CategoryRule[];
+  names: CategoryNames;
+  onApplied?: () => void;
+}
+
+const PREVIEW_ROWS = 50;
+
+export function RecategoriseDialog({ open, onOpenChange, transactions, rules, names, onApplied }: RecategoriseDialogProps) {
+  const [scope, setScope] = useState<RecategoriseScope>("automatic");
+  const [isApplying, setIsApplying] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setScope("automatic");
+  }, [open]);
+
+  const changes = useMemo(
+    () => (open ? planRecategorisation(transactions, rules, names, scope) : []),
+    [open, transactions, rules, names, scope]
+  );
+  const transactionsById = useMemo(() => new Map(transactions.map((t) => [t.id, t])), [transactions]);
+  const cleared = changes.filter((c) => c.to === null).length;
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const updated = await applyCategoryChanges(changes);
+      toast({
+        title: "Transactions re-categorised",
+        description: `${updated} transaction${updated === 1 ? "" : "s"} updated`,
+      });
+      onApplied?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error re-categorising transactions:", error);
+      toast({
+        title: "Could not re-categorise",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Re-categorise transactions</DialogTitle>
+          <DialogDescription>
+            Runs the current rules and learned patterns over the whole ledger. Categories set by hand are never changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1.5 max-w-xs">
+          <Label>Transactions to update</Label>
+          <Select value={scope} onValueChange={(value) => setScope(value as RecategoriseScope)}>
+            <SelectTrigger className="h-10">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECATEGORISE_SCOPES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {RECATEGORISE_SCOPE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          {changes.length === 0
+            ? "Nothing would change."
+            : `${changes.length} transaction${changes.length === 1 ? "" : "s"} would change` +
+              (cleared > 0 ? `, ${cleared} of them left uncategorised because nothing supports their category any more` : "")}
+        </p>
+
+        {changes.length > 0 && (
+          <div className="max-h-[360px] overflow-y-auto rounded-md border border-border/50">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Payee</TableHead>
+                  <TableHead>Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changes.slice(0, PREVIEW_ROWS).map((change) => {
+                  const t = transactionsById.get(change.transactionId);
+                  return (
+                    <TableRow key={change.transactionId}>
+                      <TableCell className="whitespace-nowrap tabular-nums">{t?.date}</TableCell>
+                      <TableCell className="max-w-[200px] truncate">{t ? payeeOf(t, names) || "—" : "—"}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap items-center gap-1">
+                          <span className="text-muted-foreground">{change.from || "Uncategorized"}</span>
+                          <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                          <span className="font-medium">{change.to || "Uncategorized"}</span>
+                        </div>
+                        {change.reason && <span className="block text-xs text-muted-foreground">{change.reason}</span>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {changes.length > PREVIEW_ROWS && (
+              <p className="px-4 py-2 text-xs text-muted-foreground">And {changes.length - PREVIEW_ROWS} more</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={changes.length === 0 || isApplying}>
+            {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Apply {changes.length} change{changes.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { saveCategoryRule, type CategoryRule } from "@/data/categorisation";
+import type { Account, Transaction } from "@/data/ledger";
+import { parseImportAmount } from "@/lib/ledgerImport";
+import { ruleMatches, type CategoryNames } from "@shared/categorisation";
+
+interface RuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The rule to edit; null creates one
+  rule: CategoryRule | null;
+  categories: string[];
+  accounts: Account[];
+  transactions: Transaction[];
+  names: CategoryNames;
+  onSaved?: () => void;
+}
+
+const ANY = "any";
+const DEFAULT_PRIORITY = 100;
+
+const optionalAmount = (value: string) => (value.trim() ? parseImportAmount(value) : null);
+
+export function RuleDialog({ open, onOpenChange, rule, categories, accounts, transactions, names, onSaved }: RuleDialogProps) {
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState("");
+  const [payee, setPayee] = useState("");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [accountId, setAccountId] = useState(ANY);
+  const [type, setType] = useState(ANY);
+  const [priority, setPriority] = useState(String(DEFAULT_PRIORITY));
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(rule?.name ?? "");
+    setCategory(rule?.category ?? "");
+    setPayee(rule?.payee_contains ?? "");
+    setMinAmount(rule?.min_amount === null || rule?.min_amount === undefined ? "" : String(rule.min_amount));
+    setMaxAmount(rule?.max_amount === null || rule?.max_amount === undefined ? "" : String(rule.max_amount));
+    setAccountId(rule?.account_id ?? ANY);
+    setType(rule?.transaction_type ?? ANY);
+    setPriority(String(rule?.priority ?? DEFAULT_PRIORITY));
+  }, [open, rule]);
+
+  const min = optionalAmount(minAmount);
+  const max = optionalAmount(maxAmount);
+  const priorityValue = Number(priority);
+  const draft = {
+    name: name.trim() || payee.trim() || category.trim(),
+    category: category.trim(),
+    payee_contains: payee.trim() || null,
+    min_amount: min === null ? null : Math.abs(min),
+    max_amount: max === null ? null : Math.abs(max),
+    account_id: accountId === ANY ? null : accountId,
+    transaction_type: type === ANY ? null : (type as CategoryRule["transaction_type"]),
+    priority: priorityValue,
+    is_active: rule?.is_active ?? true,
+  };
+
+  const error =
+    (minAmount.trim() && min === null) || (maxAmount.trim() && max === null)
+      ? "Amounts must be numbers"
+      : draft.min_amount !== null && draft.max_amount !== null && draft.min_amount > draft.max_amount
+        ? "The lowest amount is above the highest"
+        : !draft.payee_contains && draft.min_amount === null && draft.max_amount === null && !draft.account_id
+          ? "Add a payee, amount or account condition"
+          : !Number.isInteger(priorityValue)
+            ? "Priority must be a whole number"
+            : null;
+
+  const matching = error
+    ? 0
+    : transactions.filter((t) => ruleMatches({ ...draft, id: rule?.id ?? "", is_active: true }, t, names)).length;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveCategoryRule(draft, rule?.id);
+      toast({
+        title: rule ? "Rule updated" : "Rule added",
+        description: "Re-categorise to apply it to existing transactions",
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (saveError) {
+      console.error("Error saving category rule:", saveError);
+      toast({
+        title: "Could not save rule",
+        description: saveError instanceof Error ? saveError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit rule" : "New categorisation rule"}</DialogTitle>
+          <DialogDescription>
+            Transactions meeting every condition get the category. Rules run before learned patterns, lowest priority
+            first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="rule-payee">Payee or description contains</Label>
+            <Input id="rule-payee" value={payee} onChange={(e) => setPayee(e.target.value)} placeholder="e.g. uber" />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="rule-min">Amount from</Label>
+            <Input id="rule-min" value={minAmount} inputMode="decimal" onChange={(e) => setMinAmount(e.target.value)} className="text-right" />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="rule-max">Amount up to</Label>
+            <Input id="rule-max" value={maxAmount} inputMode="decimal" onChange={(e) => setMaxAmount(e.target.value)} className="text-right" />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Account</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any account</SelectItem>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Applies to</Label>
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Income and expenses</SelectItem>
+                <SelectItem value="expense">Expenses</SelectItem>
+                <SelectItem value="income">Income</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="rule-category">Category</Label>
+            <Input id="rule-category" value={category} onChange={(e) => setCategory(e.target.value)} list="rule-categories" />
+            <datalist id="rule-categories">
+              {categories.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="rule-priority">Priority</Label>
+            <Input id="rule-priority" value={priority} inputMode="numeric" onChange={(e) => setPriority(e.target.value)} className="text-right" />
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input id="rule-name" value={name} onChange={(e) => setName(e.target.value)} placeholder={draft.name || "Shown in explanations"} />
+          </div>
+        </div>
+
+        <p className={error ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+          {error || `Matches ${matching} existing transaction${matching === 1 ? "" : "s"}`}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error || !draft.category || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {rule ? "Save rule" : "Add rule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
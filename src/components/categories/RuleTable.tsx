@@ -0,0 +1,71 @@
+import { Pencil, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { CategoryRule } from "@/data/categorisation";
+import { cn } from "@/lib/utils";
+import { describeRule, type CategoryNames } from "@shared/categorisation";
+
+interface RuleTableProps {
+  rules: CategoryRule[];
+  names: CategoryNames;
+  matchCounts: Map<string, number>;
+  onToggle: (rule: CategoryRule, active: boolean) => void;
+  onEdit: (rule: CategoryRule) => void;
+  onDelete: (rule: CategoryRule) => void;
+}
+
+export function RuleTable({ rules, names, matchCounts, onToggle, onEdit, onDelete }: RuleTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[80px] text-right">Priority</TableHead>
+            <TableHead>Rule</TableHead>
+            <TableHead>Category</TableHead>
+            <TableHead className="text-right">Matches</TableHead>
+            <TableHead className="w-[80px]">Active</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rules.map((rule) => (
+            <TableRow key={rule.id} className={cn(!rule.is_active && "text-muted-foreground")}>
+              <TableCell className="text-right tabular-nums">{rule.priority}</TableCell>
+              <TableCell className="max-w-[360px]">
+                <span className="block truncate font-medium">{rule.name}</span>
+                <span className="block truncate text-xs text-muted-foreground">{describeRule(rule, names)}</span>
+              </TableCell>
+              <TableCell>
+                <Badge variant="outline" className="whitespace-nowrap">
+                  {rule.category}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{matchCounts.get(rule.id) ?? 0}</TableCell>
+              <TableCell>
+                <Switch checked={rule.is_active} onCheckedChange={(checked) => onToggle(rule, checked)} aria-label="Active" />
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onEdit(rule)} title="Edit rule">
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onDelete(rule)} title="Delete rule">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          {rules.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                No rules yet. Without them, categories are learned from the ones already in the ledger.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
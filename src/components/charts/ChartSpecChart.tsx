@@ -0,0 +1,328 @@
+import { useState } from "react";
+import {
+  Area,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Legend,
+  Line,
+  Pie,
+  PieChart,
+  ReferenceArea,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Maximize2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import {
+  chartColor,
+  chartRows,
+  formatChartValue,
+  waterfallSteps,
+  type ChartAnnotation,
+  type ChartSeries,
+  type ChartSpec,
+  type ValueFormat,
+  type WaterfallStep,
+} from "@/lib/chartSpec";
+
+interface ChartSpecChartProps {
+  spec: ChartSpec;
+  compact?: boolean;
+}
+
+const tooltipStyle = {
+  backgroundColor: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+};
+
+const axisStroke = "hsl(var(--muted-foreground))";
+
+const WATERFALL_COLORS: Record<WaterfallStep["kind"], string> = {
+  increase: "hsl(var(--success))",
+  decrease: "hsl(var(--destructive))",
+  total: "hsl(var(--primary))",
+};
+
+function seriesFormat(spec: ChartSpec, series?: ChartSeries): ValueFormat | undefined {
+  const axis = series?.axis === "right" ? spec.y2Axis : spec.yAxis;
+  return series?.format ?? axis?.format ?? spec.format;
+}
+
+// Reference lines, bands and points; recharts needs them as direct children
+function renderAnnotations(annotations: ChartAnnotation[] = [], fontSize: number, yAxisId?: string) {
+  return annotations.map((annotation, index) => {
+    const color = annotation.color ? chartColor(annotation.color, 0) : "hsl(var(--muted-foreground))";
+    const label = annotation.label
+      ? { value: annotation.label, position: "insideTopRight" as const, fontSize, fill: color }
+      : undefined;
+    switch (annotation.type) {
+      case "line":
+        return (
+          <ReferenceLine
+            key={`annotation-${index}`}
+            {...(annotation.axis === "x" ? { x: annotation.value } : { y: annotation.value })}
+            yAxisId={yAxisId}
+            stroke={color}
+            strokeDasharray="4 4"
+            label={label}
+          />
+        );
+      case "band":
+        return (
+          <ReferenceArea
+            key={`annotation-${index}`}
+            {...(annotation.axis === "x"
+              ? { x1: annotation.from, x2: annotation.to }
+              : { y1: Number(annotation.from), y2: Number(annotation.to) })}
+            yAxisId={yAxisId}
+            fill={color}
+            fillOpacity={0.12}
+            label={label}
+          />
+        );
+      case "point":
+        return (
+          <ReferenceDot
+            key={`annotation-${index}`}
+            x={annotation.x}
+            y={annotation.y}
+            yAxisId={yAxisId}
+            r={4}
+            fill={color}
+            stroke="none"
+            label={label}
+          />
+        );
+    }
+  });
+}
+
+function SpecChart({ spec, height, enlarged }: { spec: ChartSpec; height: number; enlarged: boolean }) {
+  const fontSize = enlarged ? 12 : 10;
+  const showLegend = spec.legend ?? (spec.type === "pie" || spec.series.length > 1);
+  const seriesByKey = new Map(spec.series.map((s) => [s.key, s]));
+  const xLabel = spec.xAxis.label
+    ? { value: spec.xAxis.label, position: "insideBottom" as const, offset: -2, fontSize }
+    : undefined;
+  const yLabel = (text?: string, side: "insideLeft" | "insideRight" = "insideLeft") =>
+    text ? { value: text, angle: -90, position: side, fontSize } : undefined;
+  const domain = (axis?: { min?: number; max?: number }) =>
+    [axis?.min ?? "auto", axis?.max ?? "auto"] as [number | "auto", number | "auto"];
+
+  if (spec.type === "pie") {
+    const rows = chartRows(spec);
+    const series = spec.series[0];
+    return (
+      <ResponsiveContainer width="100%" height={height}>
+        <PieChart>
+          <Pie
+            data={rows}
+            dataKey={series.key}
+            nameKey={spec.xAxis.key}
+            cx="50%"
+            cy="50%"
+            labelLine={false}
+            label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
+            outerRadius={enlarged ? 180 : Math.round(height * 0.35)}
+          >
+            {rows.map((_, index) => (
+              <Cell key={`cell-${index}`} fill={chartColor(undefined, index)} />
+            ))}
+          </Pie>
+          <Tooltip contentStyle={tooltipStyle} formatter={(value) => formatChartValue(value, seriesFormat(spec, series))} />
+          {showLegend && <Legend />}
+        </PieChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  if (spec.type === "scatter") {
+    const rows = chartRows(spec);
+    return (
+      <ResponsiveContainer width="100%" height={height}>
+        <ScatterChart>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis
+            type="number"
+            dataKey="x"
+            name={spec.xAxis.label || spec.xAxis.key}
+            stroke={axisStroke}
+            fontSize={fontSize}
+            domain={domain(spec.xAxis)}
+            tickFormatter={(value) => formatChartValue(value, spec.xAxis.format)}
+            label={xLabel}
+          />
+          <YAxis
+            type="number"
+            dataKey="y"
+            stroke={axisStroke}
+            fontSize={fontSize}
+            domain={domain(spec.yAxis)}
+            tickFormatter={(value) => formatChartValue(value, seriesFormat(spec))}
+            label={yLabel(spec.yAxis?.label)}
+          />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            cursor={{ strokeDasharray: "3 3" }}
+            formatter={(value, name) =>
+              name === "x" ? formatChartValue(value, spec.xAxis.format) : formatChartValue(value, seriesFormat(spec))
+            }
+          />
+          {showLegend && <Legend />}
+          {spec.series.map((series, index) => (
+            <Scatter
+              key={series.key}
+              name={series.name || series.key}
+              data={rows
+                .map((row) => ({ x: row[spec.xAxis.key], y: row[series.key] }))
+                .filter((point) => point.x !== null && point.y !== null)}
+              fill={chartColor(series.color, index)}
+            />
+          ))}
+          {renderAnnotations(spec.annotations, fontSize)}
+        </ScatterChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  if (spec.type === "waterfall") {
+    const steps = waterfallSteps(spec);
+    const format = seriesFormat(spec, spec.series[0]);
+    return (
+      <ResponsiveContainer width="100%" height={height}>
+        <BarChart data={steps}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis dataKey="label" stroke={axisStroke} fontSize={fontSize} label={xLabel} />
+          <YAxis
+            stroke={axisStroke}
+            fontSize={fontSize}
+            domain={domain(spec.yAxis)}
+            tickFormatter={(value) => formatChartValue(value, format)}
+            label={yLabel(spec.yAxis?.label)}
+          />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            formatter={(_value, _name, item) => formatChartValue((item.payload as WaterfallStep).value, format)}
+          />
+          <Bar dataKey="range" name={spec.series[0].name || spec.series[0].key}>
+            {steps.map((step, index) => (
+              <Cell key={`cell-${index}`} fill={WATERFALL_COLORS[step.kind]} />
+            ))}
+          </Bar>
+          {renderAnnotations(spec.annotations, fontSize)}
+        </BarChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  // line, bar, area and combo share one composed chart
+  const rows = chartRows(spec);
+  const hasRightAxis = spec.series.some((s) => s.axis === "right");
+  const drawAs = (series: ChartSeries, index: number) =>
+    spec.type === "combo" ? series.type ?? (index === 0 ? "bar" : "line") : spec.type;
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <ComposedChart data={rows}>
+        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+        <XAxis
+          dataKey={spec.xAxis.key}
+          stroke={axisStroke}
+          fontSize={fontSize}
+          tickFormatter={spec.xAxis.format ? (value) => formatChartValue(value, spec.xAxis.format) : undefined}
+          label={xLabel}
+        />
+        <YAxis
+          yAxisId="left"
+          stroke={axisStroke}
+          fontSize={fontSize}
+          domain={domain(spec.yAxis)}
+          tickFormatter={(value) => formatChartValue(value, spec.yAxis?.format ?? spec.format)}
+          label={yLabel(spec.yAxis?.label)}
+        />
+        {hasRightAxis && (
+          <YAxis
+            yAxisId="right"
+            orientation="right"
+            stroke={axisStroke}
+            fontSize={fontSize}
+            domain={domain(spec.y2Axis)}
+            tickFormatter={(value) => formatChartValue(value, spec.y2Axis?.format ?? spec.format)}
+            label={yLabel(spec.y2Axis?.label, "insideRight")}
+          />
+        )}
+        <Tooltip
+          contentStyle={tooltipStyle}
+          formatter={(value, _name, item) => formatChartValue(value, seriesFormat(spec, seriesByKey.get(String(item.dataKey))))}
+        />
+        {showLegend && <Legend />}
+        {spec.series.map((series, index) => {
+          const color = chartColor(series.color, index);
+          const common = {
+            key: series.key,
+            dataKey: series.key,
+            name: series.name || series.key,
+            yAxisId: series.axis,
+          };
+          const stackId = series.stack ?? (spec.stacked ? "stack" : undefined);
+          switch (drawAs(series, index)) {
+            case "bar":
+              return <Bar {...common} stackId={stackId} fill={color} />;
+            case "area":
+              return <Area {...common} stackId={stackId} type="monotone" stroke={color} fill={color} fillOpacity={0.25} />;
+            default:
+              return <Line {...common} type="monotone" stroke={color} strokeWidth={2} dot={rows.length <= 24} />;
+          }
+        })}
+        {renderAnnotations(spec.annotations, fontSize, "left")}
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
+
+// A chart described by the agent, with the same card and enlarge dialog as
+// the built-in visualizations
+export function ChartSpecChart({ spec, compact = false }: ChartSpecChartProps) {
+  const [enlarged, setEnlarged] = useState(false);
+
+  return (
+    <>
+      <div
+        className={cn(
+          "relative border border-border/50 rounded-lg bg-card p-3 mt-2",
+          compact ? "max-w-md" : "w-full"
+        )}
+      >
+        <div className="absolute top-2 right-2 z-10">
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setEnlarged(true)}>
+            <Maximize2 className="h-3 w-3" />
+          </Button>
+        </div>
+        {spec.title && <h4 className="text-xs font-medium mb-2 pr-8 text-muted-foreground">{spec.title}</h4>}
+        <SpecChart spec={spec} height={compact ? 200 : 320} enlarged={false} />
+        {spec.description && <p className="text-xs text-muted-foreground mt-2">{spec.description}</p>}
+      </div>
+
+      <Dialog open={enlarged} onOpenChange={setEnlarged}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold">{spec.title || "Chart"}</h3>
+            {enlarged && <SpecChart spec={spec} height={500} enlarged />}
+            {spec.description && <p className="text-sm text-muted-foreground">{spec.description}</p>}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
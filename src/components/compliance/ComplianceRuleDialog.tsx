@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { saveComplianceRule, type ComplianceRuleRow } from "@/data/compliance";
+import { parseImportAmount } from "@/lib/ledgerImport";
+import {
+  COMPLIANCE_RULE_KINDS,
+  COMPLIANCE_RULE_KIND_LABELS,
+  describeComplianceRule,
+  type ComplianceRuleKind,
+  type ComplianceSeverity,
+} from "@shared/compliance";
+
+interface ComplianceRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The rule to edit; null creates one
+  rule: ComplianceRuleRow | null;
+  categories: string[];
+  onSaved?: () => void;
+}
+
+const SEVERITIES: ComplianceSeverity[] = ["high", "medium", "low"];
+
+export function ComplianceRuleDialog({ open, onOpenChange, rule, categories, onSaved }: ComplianceRuleDialogProps) {
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<ComplianceRuleKind>("approval_threshold");
+  const [threshold, setThreshold] = useState("");
+  const [category, setCategory] = useState("");
+  const [severity, setSeverity] = useState<ComplianceSeverity>("medium");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(rule?.name ?? "");
+    setKind(rule?.kind ?? "approval_threshold");
+    setThreshold(rule?.threshold === null || rule?.threshold === undefined ? "" : String(rule.threshold));
+    setCategory(rule?.category ?? "");
+    setSeverity(rule?.severity ?? "medium");
+  }, [open, rule]);
+
+  // Segregation of duties and approval policies need no amount; with one they
+  // only check larger spend
+  const thresholdOptional = kind === "segregation_of_duties" || kind === "approval_policy";
+  const categoryAllowed = kind !== "segregation_of_duties";
+  const amount = threshold.trim() ? parseImportAmount(threshold) : null;
+  const draft = {
+    name: name.trim() || COMPLIANCE_RULE_KIND_LABELS[kind],
+    kind,
+    threshold: amount === null ? null : Math.abs(amount),
+    category: categoryAllowed ? category.trim() || null : null,
+    severity,
+    is_active: rule?.is_active ?? true,
+  };
+
+  const error =
+    threshold.trim() && amount === null
+      ? "The threshold must be a number"
+      : !thresholdOptional && draft.threshold === null
+        ? "Set the amount the rule starts at"
+        : null;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveComplianceRule(draft, rule?.id);
+      toast({ title: rule ? "Rule updated" : "Rule added", description: "Run the checks to apply it to the ledger" });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (saveError) {
+      console.error("Error saving compliance rule:", saveError);
+      toast({
+        title: "Could not save rule",
+        description: saveError instanceof Error ? saveError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit rule" : "New compliance rule"}</DialogTitle>
+          <DialogDescription>Each run checks the whole ledger against the active rules.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label>Check</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as ComplianceRuleKind)} disabled={!!rule}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COMPLIANCE_RULE_KINDS.map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {COMPLIANCE_RULE_KIND_LABELS[k]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="compliance-threshold">
+              {kind === "segregation_of_duties"
+                ? "Bills over (optional)"
+                : thresholdOptional
+                  ? "Spend over (optional)"
+                  : "Threshold"}
+            </Label>
+            <Input
+              id="compliance-threshold"
+              value={threshold}
+              inputMode="decimal"
+              onChange={(e) => setThreshold(e.target.value)}
+              className="text-right"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Severity</Label>
+            <Select value={severity} onValueChange={(value) => setSeverity(value as ComplianceSeverity)}>
+              <SelectTrigger className="h-10 capitalize">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEVERITIES.map((s) => (
+                  <SelectItem key={s} value={s} className="capitalize">
+                    {s}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {categoryAllowed && (
+            <div className="space-y-1.5 sm:col-span-2">
+              <Label htmlFor="compliance-category">Only in category</Label>
+              <Input
+                id="compliance-category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                list="compliance-categories"
+                placeholder="Every category"
+              />
+              <datalist id="compliance-categories">
+                {categories.map((c) => (
+                  <option key={c} value={c} />
+                ))}
+              </datalist>
+            </div>
+          )}
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="compliance-name">Name</Label>
+            <Input id="compliance-name" value={name} onChange={(e) => setName(e.target.value)} placeholder={draft.name} />
+          </div>
+        </div>
+
+        <p className={error ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+          {error || describeComplianceRule(draft)}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {rule ? "Save rule" : "Add rule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
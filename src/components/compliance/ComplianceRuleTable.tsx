@@ -0,0 +1,70 @@
+import { Pencil, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SEVERITY_STYLES, type ComplianceRuleRow } from "@/data/compliance";
+import { cn } from "@/lib/utils";
+import { COMPLIANCE_RULE_KIND_LABELS, describeComplianceRule } from "@shared/compliance";
+
+interface ComplianceRuleTableProps {
+  rules: ComplianceRuleRow[];
+  openCounts: Map<string, number>;
+  onToggle: (rule: ComplianceRuleRow, active: boolean) => void;
+  onEdit: (rule: ComplianceRuleRow) => void;
+  onDelete: (rule: ComplianceRuleRow) => void;
+}
+
+export function ComplianceRuleTable({ rules, openCounts, onToggle, onEdit, onDelete }: ComplianceRuleTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Rule</TableHead>
+            <TableHead>Check</TableHead>
+            <TableHead>Severity</TableHead>
+            <TableHead className="text-right">Open findings</TableHead>
+            <TableHead className="w-[80px]">Active</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rules.map((rule) => (
+            <TableRow key={rule.id} className={cn(!rule.is_active && "text-muted-foreground")}>
+              <TableCell className="max-w-[360px]">
+                <span className="block truncate font-medium">{rule.name}</span>
+                <span className="block truncate text-xs text-muted-foreground">{describeComplianceRule(rule)}</span>
+              </TableCell>
+              <TableCell className="whitespace-nowrap">{COMPLIANCE_RULE_KIND_LABELS[rule.kind]}</TableCell>
+              <TableCell>
+                <Badge variant="outline" className={cn("capitalize", SEVERITY_STYLES[rule.severity])}>
+                  {rule.severity}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{openCounts.get(rule.id) ?? 0}</TableCell>
+              <TableCell>
+                <Switch checked={rule.is_active} onCheckedChange={(checked) => onToggle(rule, checked)} aria-label="Active" />
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onEdit(rule)} title="Edit rule">
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onDelete(rule)} title="Delete rule">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          {rules.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                No rules yet. Add one to start checking the ledger.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { Paperclip } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DEADLINE_STATUS_CLASSES, describeDaysUntil, type ComplianceEvidence } from "@/data/obligations";
+import { cn } from "@/lib/utils";
+import { DEADLINE_STATUS_LABELS, type Deadline } from "@shared/obligations";
+
+interface DeadlineListProps {
+  deadlines: Deadline[];
+  evidenceByFiling: Map<string, ComplianceEvidence[]>;
+  onOpen: (deadline: Deadline) => void;
+}
+
+export function DeadlineList({ deadlines, evidenceByFiling, onOpen }: DeadlineListProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Due</TableHead>
+            <TableHead>Obligation</TableHead>
+            <TableHead>Assignee</TableHead>
+            <TableHead className="text-right">Checklist</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {deadlines.map((deadline) => {
+            const evidence = deadline.filing ? evidenceByFiling.get(deadline.filing.id)?.length ?? 0 : 0;
+            const closed = deadline.status === "completed" || deadline.status === "not_required";
+            return (
+              <TableRow key={deadline.key}>
+                <TableCell className="whitespace-nowrap">
+                  <span className="block tabular-nums">{deadline.dueDate}</span>
+                  {!closed && (
+                    <span className={cn("block text-xs", deadline.daysUntil < 0 ? "text-destructive" : "text-muted-foreground")}>
+                      {describeDaysUntil(deadline.daysUntil)}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-[360px]">
+                  <span className="block truncate font-medium">{deadline.obligation.name}</span>
+                  <span className="block truncate text-xs text-muted-foreground">
+                    {[deadline.obligation.reference, deadline.obligation.authority].filter(Boolean).join(" · ")}
+                  </span>
+                </TableCell>
+                <TableCell className={cn(!deadline.assignee && "text-muted-foreground")}>
+                  {deadline.assignee || "Unassigned"}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {deadline.stepsTotal > 0 ? `${deadline.stepsDone}/${deadline.stepsTotal}` : "—"}
+                  {evidence > 0 && (
+                    <span className="ml-2 inline-flex items-center gap-0.5 text-xs text-muted-foreground" title="Evidence files">
+                      <Paperclip className="w-3 h-3" />
+                      {evidence}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={cn("whitespace-nowrap", DEADLINE_STATUS_CLASSES[deadline.status])}>
+                    {DEADLINE_STATUS_LABELS[deadline.status]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="outline" size="sm" onClick={() => onOpen(deadline)}>
+                    {closed ? "View" : "Work on it"}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+          {deadlines.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                No deadlines in this window.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { DEADLINE_STATUS_CLASSES } from "@/data/obligations";
+import { cn } from "@/lib/utils";
+import type { Deadline } from "@shared/obligations";
+
+interface DeadlineMonthGridProps {
+  // YYYY-MM
+  month: string;
+  today: string;
+  deadlines: Deadline[];
+  onOpen: (deadline: Deadline) => void;
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Weeks start on Monday; days outside the month pad the first and last rows
+function monthCells(month: string): (string | null)[] {
+  const [year, m] = month.split("-").map(Number);
+  const days = new Date(Date.UTC(year, m, 0)).getUTCDate();
+  const offset = (new Date(Date.UTC(year, m - 1, 1)).getUTCDay() + 6) % 7;
+  const cells: (string | null)[] = Array(offset).fill(null);
+  for (let d = 1; d <= days; d++) cells.push(`${month}-${String(d).padStart(2, "0")}`);
+  while (cells.length % 7 !== 0) cells.push(null);
+  return cells;
+}
+
+export function DeadlineMonthGrid({ month, today, deadlines, onOpen }: DeadlineMonthGridProps) {
+  const byDate = new Map<string, Deadline[]>();
+  for (const d of deadlines) {
+    const list = byDate.get(d.dueDate);
+    if (list) list.push(d);
+    else byDate.set(d.dueDate, [d]);
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid min-w-[640px] grid-cols-7 gap-px rounded-lg border border-border/50 bg-border/50">
+        {WEEKDAYS.map((day) => (
+          <div key={day} className="bg-card px-2 py-1 text-xs font-medium text-muted-foreground">
+            {day}
+          </div>
+        ))}
+        {monthCells(month).map((date, index) => (
+          <div key={date ?? `pad-${index}`} className={cn("min-h-[88px] bg-card p-1.5", !date && "bg-muted/30")}>
+            {date && (
+              <>
+                <span
+                  className={cn(
+                    "inline-flex h-6 w-6 items-center justify-center rounded-full text-xs tabular-nums",
+                    date === today ? "bg-primary text-primary-foreground" : "text-muted-foreground"
+                  )}
+                >
+                  {Number(date.slice(8))}
+                </span>
+                <div className="mt-1 space-y-1">
+                  {(byDate.get(date) || []).map((deadline) => (
+                    <button
+                      key={deadline.key}
+                      type="button"
+                      onClick={() => onOpen(deadline)}
+                      title={`${deadline.obligation.name}${deadline.assignee ? ` · ${deadline.assignee}` : ""}`}
+                      className={cn(
+                        "block w-full truncate rounded border px-1.5 py-0.5 text-left text-xs hover:bg-muted",
+                        DEADLINE_STATUS_CLASSES[deadline.status]
+                      )}
+                    >
+                      {deadline.obligation.name}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { Download, Loader2, Paperclip, Trash2, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEADLINE_STATUS_CLASSES,
+  deleteEvidence,
+  describeDaysUntil,
+  ensureFiling,
+  evidenceUrl,
+  saveFiling,
+  uploadEvidence,
+  type ComplianceEvidence,
+  type ComplianceFiling,
+} from "@/data/obligations";
+import { getCurrentUserName } from "@/lib/currentUser";
+import { cn } from "@/lib/utils";
+import { DEADLINE_STATUS_LABELS, type Deadline, type FilingStatus } from "@shared/obligations";
+
+interface FilingDialogProps {
+  deadline: Deadline | null;
+  // Every filing, for the obligation's completion history
+  filings: ComplianceFiling[];
+  evidence: ComplianceEvidence[];
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+const FILING_STATUS_LABELS: Record<FilingStatus, string> = {
+  in_progress: "In progress",
+  completed: "Completed",
+  not_required: "Not required",
+};
+
+const HISTORY_SHOWN = 6;
+
+const formatSize = (bytes: number | null) =>
+  bytes === null ? "" : bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export function FilingDialog({ deadline, filings, evidence, onOpenChange, onSaved }: FilingDialogProps) {
+  // The parent keys the dialog on the deadline, so this state starts afresh
+  // for each one; uploads refresh the deadline without discarding edits
+  const [status, setStatus] = useState<FilingStatus>(deadline?.filing?.status ?? "in_progress");
+  const [assignee, setAssignee] = useState(deadline?.assignee ?? "");
+  const [steps, setSteps] = useState<Set<string>>(() => new Set(deadline?.filing?.completed_steps || []));
+  const [notes, setNotes] = useState(deadline?.filing?.notes ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  if (!deadline) return null;
+
+  const { obligation } = deadline;
+  const checklist = obligation.checklist;
+  const remaining = checklist.filter((step) => !steps.has(step)).length;
+  const error =
+    status === "completed" && remaining > 0
+      ? `${remaining} checklist step${remaining === 1 ? "" : "s"} still open`
+      : status === "not_required" && !notes.trim()
+        ? "Say why this filing is not required"
+        : null;
+
+  const history = filings
+    .filter((f) => f.obligation_id === obligation.id && f.due_date !== deadline.dueDate && f.status !== "in_progress")
+    .sort((a, b) => b.due_date.localeCompare(a.due_date))
+    .slice(0, HISTORY_SHOWN);
+
+  const toggleStep = (step: string, checked: boolean) => {
+    setSteps((current) => {
+      const next = new Set(current);
+      if (checked) next.add(step);
+      else next.delete(step);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (error) return;
+    setIsSaving(true);
+    try {
+      await saveFiling(
+        obligation.id,
+        deadline.dueDate,
+        {
+          status,
+          assignee,
+          completed_steps: checklist.filter((step) => steps.has(step)),
+          notes,
+        },
+        getCurrentUserName(),
+        deadline.filing
+      );
+      toast({ title: `${obligation.name} updated`, description: `${deadline.dueDate}: ${FILING_STATUS_LABELS[status]}` });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (saveError) {
+      console.error("Error saving filing:", saveError);
+      toast({
+        title: "Could not save filing",
+        description: saveError instanceof Error ? saveError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFileSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+    setIsUploading(true);
+    try {
+      const filing = deadline.filing ?? (await ensureFiling(obligation.id, deadline.dueDate));
+      for (const file of files) await uploadEvidence(filing.id, file, getCurrentUserName());
+      toast({ title: "Evidence attached", description: files.map((f) => f.name).join(", ") });
+    } catch (uploadError) {
+      console.error("Error uploading evidence:", uploadError);
+      toast({
+        title: "Could not attach evidence",
+        description: uploadError instanceof Error ? uploadError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      onSaved?.();
+    }
+  };
+
+  const handleDownload = async (item: ComplianceEvidence) => {
+    try {
+      window.open(await evidenceUrl(item), "_blank", "noopener");
+    } catch (downloadError) {
+      console.error("Error downloading evidence:", downloadError);
+      toast({
+        title: "Could not download file",
+        description: downloadError instanceof Error ? downloadError.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async (item: ComplianceEvidence) => {
+    try {
+      await deleteEvidence(item);
+      toast({ title: "Evidence removed", description: item.file_name });
+      onSaved?.();
+    } catch (removeError) {
+      console.error("Error removing evidence:", removeError);
+      toast({
+        title: "Could not remove file",
+        description: removeError instanceof Error ? removeError.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex flex-wrap items-center gap-2">
+            {obligation.name}
+            <Badge variant="outline" className={cn("font-normal", DEADLINE_STATUS_CLASSES[deadline.status])}>
+              {DEADLINE_STATUS_LABELS[deadline.status]}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            Due {deadline.dueDate} ({describeDaysUntil(deadline.daysUntil)})
+            {obligation.reference && ` · ${obligation.reference}`}
+            {obligation.authority && ` · ${obligation.authority}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {obligation.description && <p className="text-sm text-muted-foreground">{obligation.description}</p>}
+
+        {checklist.length > 0 && (
+          <div className="space-y-2">
+            <Label>Checklist</Label>
+            {checklist.map((step, index) => (
+              <label key={step} className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  id={`filing-step-${index}`}
+                  checked={steps.has(step)}
+                  onCheckedChange={(checked) => toggleStep(step, checked === true)}
+                  className="mt-0.5"
+                />
+                <span className={cn(steps.has(step) && "text-muted-foreground line-through")}>{step}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as FilingStatus)}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FILING_STATUS_LABELS) as FilingStatus[]).map((s) => (
+                  <SelectItem key={s} value={s}>
+                    {FILING_STATUS_LABELS[s]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="filing-assignee">Assignee</Label>
+            <Input id="filing-assignee" value={assignee} onChange={(e) => setAssignee(e.target.value)} placeholder="Unassigned" />
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="filing-notes">Notes</Label>
+            <Textarea
+              id="filing-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              placeholder="Confirmation numbers, amounts paid, or why it was not required"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Evidence</Label>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+              {isUploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              Attach
+            </Button>
+            <input type="file" multiple ref={fileInputRef} onChange={handleFileSelect} className="hidden" />
+          </div>
+          {evidence.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No files yet. Attach the confirmation, return or receipt.</p>
+          ) : (
+            <ul className="space-y-1">
+              {evidence.map((item) => (
+                <li key={item.id} className="flex items-center gap-2 rounded-md border border-border/50 px-2 py-1 text-sm">
+                  <Paperclip className="w-4 h-4 shrink-0 text-muted-foreground" />
+                  <span className="min-w-0 flex-1 truncate" title={item.file_name}>
+                    {item.file_name}
+                  </span>
+                  <span className="whitespace-nowrap text-xs text-muted-foreground">
+                    {[formatSize(item.size_bytes), item.uploaded_by].filter(Boolean).join(" · ")}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDownload(item)} title="Download">
+                    <Download className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleRemove(item)} title="Remove">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {history.length > 0 && (
+          <div className="space-y-1.5">
+            <Label>Earlier filings</Label>
+            <ul className="space-y-1 text-sm">
+              {history.map((f) => (
+                <li key={f.id} className="flex items-center justify-between gap-2">
+                  <span className="tabular-nums">{f.due_date}</span>
+                  <span className="truncate text-xs text-muted-foreground">
+                    {FILING_STATUS_LABELS[f.status]}
+                    {f.completed_at && ` ${f.completed_at.slice(0, 10)}`}
+                    {f.completed_by && ` by ${f.completed_by}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <p className={error ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+          {error ||
+            (deadline.filing?.completed_at
+              ? `Completed ${deadline.filing.completed_at.slice(0, 10)}${deadline.filing.completed_by ? ` by ${deadline.filing.completed_by}` : ""}`
+              : "Completing the filing records who marked it done")}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { updateComplianceFinding, type ComplianceFinding } from "@/data/compliance";
+import { getCurrentUserName } from "@/lib/currentUser";
+import {
+  ACTIVE_FINDING_STATUSES,
+  COMPLIANCE_FINDING_STATUSES,
+  COMPLIANCE_FINDING_STATUS_LABELS,
+  type ComplianceFindingStatus,
+} from "@shared/compliance";
+
+interface FindingDialogProps {
+  finding: ComplianceFinding | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export function FindingDialog({ finding, onOpenChange, onSaved }: FindingDialogProps) {
+  const [status, setStatus] = useState<ComplianceFindingStatus>("open");
+  const [owner, setOwner] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!finding) return;
+    setStatus(finding.status);
+    setOwner(finding.owner ?? getCurrentUserName() ?? "");
+    setNotes(finding.resolution_notes ?? "");
+  }, [finding]);
+
+  // Closing a finding without saying why leaves nothing to audit later
+  const closing = !ACTIVE_FINDING_STATUSES.includes(status);
+  const error = closing && !notes.trim() ? `Say why the finding is ${status}` : null;
+
+  const handleSave = async () => {
+    if (!finding || error) return;
+    setIsSaving(true);
+    try {
+      await updateComplianceFinding(finding, { status, owner, resolution_notes: notes });
+      toast({ title: "Finding updated", description: COMPLIANCE_FINDING_STATUS_LABELS[status] });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (saveError) {
+      console.error("Error updating compliance finding:", saveError);
+      toast({
+        title: "Could not update finding",
+        description: saveError instanceof Error ? saveError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!finding} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{finding?.title}</DialogTitle>
+          <DialogDescription>{finding?.detail}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as ComplianceFindingStatus)}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COMPLIANCE_FINDING_STATUSES.map((s) => (
+                  <SelectItem key={s} value={s}>
+                    {COMPLIANCE_FINDING_STATUS_LABELS[s]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="finding-owner">Owner</Label>
+            <Input id="finding-owner" value={owner} onChange={(e) => setOwner(e.target.value)} placeholder="Unassigned" />
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="finding-notes">Resolution notes</Label>
+            <Textarea
+              id="finding-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={4}
+              placeholder="What was done, or why the finding does not apply"
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
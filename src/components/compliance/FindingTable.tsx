@@ -0,0 +1,116 @@
+import { Link } from "react-router-dom";
+import { FileCheck, Paperclip, Pencil, Stamp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SEVERITY_STYLES, type ComplianceFinding } from "@/data/compliance";
+import { cn } from "@/lib/utils";
+import {
+  COMPLIANCE_FINDING_STATUS_LABELS,
+  COMPLIANCE_RULE_KIND_LABELS,
+  type ComplianceFindingStatus,
+} from "@shared/compliance";
+
+interface FindingTableProps {
+  findings: ComplianceFinding[];
+  onEdit: (finding: ComplianceFinding) => void;
+  onRecordTaxForm: (finding: ComplianceFinding) => void;
+}
+
+const STATUS_CLASSES: Record<ComplianceFindingStatus, string> = {
+  open: "text-destructive border-destructive/40",
+  in_review: "text-warning border-warning/50",
+  resolved: "text-success border-success/40",
+  waived: "text-muted-foreground",
+};
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+
+export function FindingTable({ findings, onEdit, onRecordTaxForm }: FindingTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Finding</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead>Owner</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {findings.map((finding) => (
+            <TableRow key={finding.id}>
+              <TableCell className="max-w-[420px]">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className={cn("capitalize", SEVERITY_STYLES[finding.severity])}>
+                    {finding.severity}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">{COMPLIANCE_RULE_KIND_LABELS[finding.kind]}</span>
+                </div>
+                <span className="mt-1 block font-medium">{finding.title}</span>
+                <span className="block text-xs text-muted-foreground">{finding.detail}</span>
+                {finding.resolution_notes && (
+                  <span className="mt-1 block text-xs italic text-muted-foreground">{finding.resolution_notes}</span>
+                )}
+                {finding.transaction_ids.length > 0 && (
+                  <span className="block truncate font-mono text-xs text-muted-foreground" title={finding.transaction_ids.join(", ")}>
+                    {finding.transaction_ids.map((id) => id.slice(0, 8)).join(" · ")}
+                  </span>
+                )}
+              </TableCell>
+              <TableCell className="whitespace-nowrap tabular-nums">{finding.date}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatAmount(Number(finding.amount))}</TableCell>
+              <TableCell className={cn(!finding.owner && "text-muted-foreground")}>{finding.owner || "Unassigned"}</TableCell>
+              <TableCell>
+                <Badge variant="outline" className={cn("whitespace-nowrap", STATUS_CLASSES[finding.status])}>
+                  {finding.auto_resolved ? "Cleared" : COMPLIANCE_FINDING_STATUS_LABELS[finding.status]}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                {finding.kind === "vendor_tax_docs" && finding.vendor_id && finding.status !== "resolved" && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onRecordTaxForm(finding)}
+                    title="Record tax form"
+                  >
+                    <FileCheck className="w-4 h-4" />
+                  </Button>
+                )}
+                {finding.kind === "receipt_required" && finding.status !== "resolved" && (
+                  <Button variant="ghost" size="icon" className="h-8 w-8" asChild title="Attach receipt">
+                    <Link to="/documents?view=missing">
+                      <Paperclip className="w-4 h-4" />
+                    </Link>
+                  </Button>
+                )}
+                {finding.kind === "approval_policy" && finding.status !== "resolved" && (
+                  <Button variant="ghost" size="icon" className="h-8 w-8" asChild title="Go to approvals">
+                    <Link to="/approvals?view=unapproved">
+                      <Stamp className="w-4 h-4" />
+                    </Link>
+                  </Button>
+                )}
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onEdit(finding)} title="Update finding">
+                  <Pencil className="w-4 h-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          {findings.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                No findings here.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { saveObligation, type ComplianceObligation } from "@/data/obligations";
+import {
+  OBLIGATION_FREQUENCIES,
+  OBLIGATION_FREQUENCY_LABELS,
+  OBLIGATION_TEMPLATES,
+  nextDueDate,
+  type ObligationFrequency,
+} from "@shared/obligations";
+
+interface ObligationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The obligation to edit; null creates one
+  obligation: ComplianceObligation | null;
+  onSaved?: () => void;
+}
+
+const NO_TEMPLATE = "none";
+const DEFAULT_REMINDER_DAYS = 14;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function ObligationDialog({ open, onOpenChange, obligation, onSaved }: ObligationDialogProps) {
+  const [template, setTemplate] = useState(NO_TEMPLATE);
+  const [name, setName] = useState("");
+  const [reference, setReference] = useState("");
+  const [authority, setAuthority] = useState("");
+  const [frequency, setFrequency] = useState<ObligationFrequency>("monthly");
+  const [firstDueDate, setFirstDueDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reminderDays, setReminderDays] = useState(String(DEFAULT_REMINDER_DAYS));
+  const [assignee, setAssignee] = useState("");
+  const [description, setDescription] = useState("");
+  const [checklist, setChecklist] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setTemplate(NO_TEMPLATE);
+    setName(obligation?.name ?? "");
+    setReference(obligation?.reference ?? "");
+    setAuthority(obligation?.authority ?? "");
+    setFrequency(obligation?.frequency ?? "monthly");
+    setFirstDueDate(obligation?.first_due_date ?? "");
+    setEndDate(obligation?.end_date ?? "");
+    setReminderDays(String(obligation?.reminder_days ?? DEFAULT_REMINDER_DAYS));
+    setAssignee(obligation?.assignee ?? "");
+    setDescription(obligation?.description ?? "");
+    setChecklist((obligation?.checklist ?? []).join("\n"));
+  }, [open, obligation]);
+
+  const applyTemplate = (value: string) => {
+    setTemplate(value);
+    const chosen = OBLIGATION_TEMPLATES.find((t) => t.name === value);
+    if (!chosen) return;
+    setName(chosen.name);
+    setReference(chosen.reference);
+    setAuthority(chosen.authority);
+    setFrequency(chosen.frequency);
+    setChecklist(chosen.checklist.join("\n"));
+  };
+
+  const reminder = Number(reminderDays);
+  const draft = {
+    name,
+    reference,
+    authority,
+    description,
+    frequency,
+    first_due_date: firstDueDate,
+    end_date: frequency === "once" ? null : endDate || null,
+    reminder_days: reminder,
+    assignee,
+    checklist: checklist.split("\n"),
+    is_active: obligation?.is_active ?? true,
+  };
+
+  const error = !name.trim()
+    ? "Name the obligation"
+    : !firstDueDate
+      ? "Set the first due date"
+      : draft.end_date && draft.end_date < firstDueDate
+        ? "The end date is before the first due date"
+        : !Number.isInteger(reminder) || reminder < 0
+          ? "Reminder days must be a whole number"
+          : null;
+  const next = error ? null : nextDueDate(draft, today());
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveObligation(draft, obligation?.id);
+      toast({ title: obligation ? "Obligation updated" : "Obligation added", description: name.trim() });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (saveError) {
+      console.error("Error saving obligation:", saveError);
+      toast({
+        title: "Could not save obligation",
+        description: saveError instanceof Error ? saveError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{obligation ? "Edit obligation" : "New obligation"}</DialogTitle>
+          <DialogDescription>A filing or return that falls due on a schedule.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {!obligation && (
+            <div className="space-y-1.5 sm:col-span-2">
+              <Label>Start from</Label>
+              <Select value={template} onValueChange={applyTemplate}>
+                <SelectTrigger className="h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEMPLATE}>Blank obligation</SelectItem>
+                  {OBLIGATION_TEMPLATES.map((t) => (
+                    <SelectItem key={t.name} value={t.name}>
+                      {t.name} ({t.reference})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="obligation-name">Name</Label>
+            <Input id="obligation-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="obligation-reference">Regulation or form</Label>
+            <Input id="obligation-reference" value={reference} onChange={(e) => setReference(e.target.value)} placeholder="e.g. Form 941" />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="obligation-authority">Filed with</Label>
+            <Input id="obligation-authority" value={authority} onChange={(e) => setAuthority(e.target.value)} placeholder="e.g. IRS" />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Frequency</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as ObligationFrequency)}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OBLIGATION_FREQUENCIES.map((f) => (
+                  <SelectItem key={f} value={f}>
+                    {OBLIGATION_FREQUENCY_LABELS[f]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="obligation-first-due">{frequency === "once" ? "Due date" : "First due date"}</Label>
+            <Input id="obligation-first-due" type="date" value={firstDueDate} onChange={(e) => setFirstDueDate(e.target.value)} />
+          </div>
+          {frequency !== "once" && (
+            <div className="space-y-1.5">
+              <Label htmlFor="obligation-end">Ends (optional)</Label>
+              <Input id="obligation-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <Label htmlFor="obligation-reminder">Due soon from (days before)</Label>
+            <Input
+              id="obligation-reminder"
+              value={reminderDays}
+              inputMode="numeric"
+              onChange={(e) => setReminderDays(e.target.value)}
+              className="text-right"
+            />
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="obligation-assignee">Assignee</Label>
+            <Input id="obligation-assignee" value={assignee} onChange={(e) => setAssignee(e.target.value)} placeholder="Unassigned" />
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="obligation-checklist">Checklist, one step per line</Label>
+            <Textarea id="obligation-checklist" value={checklist} onChange={(e) => setChecklist(e.target.value)} rows={4} />
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="obligation-description">Notes</Label>
+            <Textarea id="obligation-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <p className={error ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+          {error || (next ? `Next due ${next}` : "No deadlines from today on")}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {obligation ? "Save obligation" : "Add obligation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ComplianceObligation } from "@/data/obligations";
+import { cn } from "@/lib/utils";
+import { OBLIGATION_FREQUENCY_LABELS, nextDueDate } from "@shared/obligations";
+
+interface ObligationTableProps {
+  obligations: ComplianceObligation[];
+  today: string;
+  onToggle: (obligation: ComplianceObligation, active: boolean) => void;
+  onEdit: (obligation: ComplianceObligation) => void;
+  onDelete: (obligation: ComplianceObligation) => void;
+}
+
+export function ObligationTable({ obligations, today, onToggle, onEdit, onDelete }: ObligationTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Obligation</TableHead>
+            <TableHead>Frequency</TableHead>
+            <TableHead>Next due</TableHead>
+            <TableHead>Assignee</TableHead>
+            <TableHead className="text-right">Steps</TableHead>
+            <TableHead className="w-[80px]">Active</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {obligations.map((obligation) => (
+            <TableRow key={obligation.id} className={cn(!obligation.is_active && "text-muted-foreground")}>
+              <TableCell className="max-w-[360px]">
+                <span className="block truncate font-medium">{obligation.name}</span>
+                <span className="block truncate text-xs text-muted-foreground">
+                  {[obligation.reference, obligation.authority].filter(Boolean).join(" · ") || "—"}
+                </span>
+              </TableCell>
+              <TableCell className="whitespace-nowrap">{OBLIGATION_FREQUENCY_LABELS[obligation.frequency]}</TableCell>
+              <TableCell className="whitespace-nowrap tabular-nums">{nextDueDate(obligation, today) ?? "—"}</TableCell>
+              <TableCell className={cn(!obligation.assignee && "text-muted-foreground")}>
+                {obligation.assignee || "Unassigned"}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{obligation.checklist.length}</TableCell>
+              <TableCell>
+                <Switch
+                  checked={obligation.is_active}
+                  onCheckedChange={(checked) => onToggle(obligation, checked)}
+                  aria-label="Active"
+                />
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onEdit(obligation)} title="Edit obligation">
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onDelete(obligation)} title="Delete obligation">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          {obligations.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={7} className="py-8 text-center text-muted-foreground">
+                No obligations yet. Add the filings and returns the business owes.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { recordVendorTaxForm } from "@/data/compliance";
+import type { Vendor } from "@/data/ledger";
+
+interface VendorTaxFormDialogProps {
+  vendor: Vendor | null;
+  onOpenChange: (open: boolean) => void;
+  onRecorded?: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function VendorTaxFormDialog({ vendor, onOpenChange, onRecorded }: VendorTaxFormDialogProps) {
+  const [taxId, setTaxId] = useState("");
+  const [receivedOn, setReceivedOn] = useState(today());
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!vendor) return;
+    setTaxId(vendor.tax_id ?? "");
+    setReceivedOn(vendor.tax_form_received_on ?? today());
+  }, [vendor]);
+
+  const handleSave = async () => {
+    if (!vendor) return;
+    setIsSaving(true);
+    try {
+      await recordVendorTaxForm(vendor.id, taxId, receivedOn);
+      toast({ title: "Tax form recorded", description: vendor.name });
+      onRecorded?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error recording vendor tax form:", error);
+      toast({
+        title: "Could not record tax form",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!vendor} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Tax form for {vendor?.name}</DialogTitle>
+          <DialogDescription>Record the W-9 or equivalent form the vendor sent.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="vendor-tax-id">Tax id</Label>
+            <Input id="vendor-tax-id" value={taxId} onChange={(e) => setTaxId(e.target.value)} placeholder="Optional" />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="vendor-tax-received">Received on</Label>
+            <Input id="vendor-tax-received" type="date" value={receivedOn} onChange={(e) => setReceivedOn(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!receivedOn || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Record form
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,307 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from "react";
+import { Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { draftFromFile, isExtractable } from "@/data/documentDrafts";
+import { updateDocument, uploadDocument, type DocumentDetails, type VaultDocument } from "@/data/documents";
+import type { Ledger, Transaction } from "@/data/ledger";
+import { getCurrentUserName } from "@/lib/currentUser";
+import { DOCUMENT_KINDS, DOCUMENT_KIND_LABELS, SUPPORTING_DOCUMENT_KINDS, type DocumentKind } from "@shared/documents";
+import { describeTransaction, payeeNames } from "./links";
+
+interface DocumentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The document to edit; null uploads new ones
+  document: VaultDocument | null;
+  // Attach new uploads to this transaction
+  transaction?: Transaction | null;
+  ledger: Ledger | undefined;
+  // Whether a transaction gained or lost a document, which changes its compliance
+  onSaved?: (transactionsChanged: boolean) => void;
+}
+
+const NONE = "none";
+
+// Transactions offered at once; the search box narrows the rest
+const TRANSACTION_MATCH_LIMIT = 50;
+
+export function DocumentDialog({ open, onOpenChange, document, transaction, ledger, onSaved }: DocumentDialogProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [kind, setKind] = useState<DocumentKind>("receipt");
+  const [transactionId, setTransactionId] = useState(NONE);
+  const [transactionSearch, setTransactionSearch] = useState("");
+  const [vendorId, setVendorId] = useState(NONE);
+  const [invoiceId, setInvoiceId] = useState(NONE);
+  const [billId, setBillId] = useState(NONE);
+  const [notes, setNotes] = useState("");
+  const [extract, setExtract] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setFiles([]);
+    setKind(document?.kind ?? "receipt");
+    setTransactionId(document?.transaction_id ?? transaction?.id ?? NONE);
+    setTransactionSearch("");
+    setVendorId(document?.vendor_id ?? transaction?.vendor_id ?? NONE);
+    setInvoiceId(document?.invoice_id ?? NONE);
+    setBillId(document?.bill_id ?? NONE);
+    setNotes(document?.notes ?? "");
+    // Drafts are for new spend; a receipt for an existing transaction is only attached
+    setExtract(!transaction);
+  }, [open, document, transaction]);
+
+  const names = useMemo(() => (ledger ? payeeNames(ledger) : null), [ledger]);
+
+  const transactionOptions = useMemo(() => {
+    if (!ledger || !names) return [];
+    const query = transactionSearch.trim().toLowerCase();
+    const matches = ledger.transactions
+      .filter((t) => t.id === transactionId || !query || describeTransaction(t, names).toLowerCase().includes(query))
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, TRANSACTION_MATCH_LIMIT);
+    // Keep the chosen one listed even when the search hides it
+    const chosen = ledger.transactions.find((t) => t.id === transactionId);
+    if (chosen && !matches.includes(chosen)) matches.unshift(chosen);
+    return matches.map((t) => ({ id: t.id, label: describeTransaction(t, names) }));
+  }, [ledger, names, transactionSearch, transactionId]);
+
+  const details: DocumentDetails = {
+    kind,
+    notes,
+    transaction_id: transactionId === NONE ? null : transactionId,
+    vendor_id: vendorId === NONE ? null : vendorId,
+    invoice_id: invoiceId === NONE ? null : invoiceId,
+    bill_id: billId === NONE ? null : billId,
+  };
+
+  const extractable = files.filter(isExtractable);
+
+  const error = !document && files.length === 0 ? "Choose a file to upload" : null;
+
+  const handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(e.target.files || []));
+    e.target.value = "";
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      if (document) {
+        await updateDocument(document.id, details);
+        toast({ title: "Document updated", description: document.file_name });
+      } else {
+        const unread: string[] = [];
+        let drafted = 0;
+        for (const file of files) {
+          const uploaded = await uploadDocument(file, details, getCurrentUserName());
+          if (!extract || !isExtractable(file)) continue;
+          // An unreadable file is still kept; it just has no draft to review
+          try {
+            await draftFromFile(file, uploaded);
+            drafted++;
+          } catch (extractError) {
+            console.error("Error extracting document:", extractError);
+            unread.push(`${file.name}: ${extractError instanceof Error ? extractError.message : "Unknown error"}`);
+          }
+        }
+        toast({
+          title: files.length === 1 ? "Document added" : `${files.length} documents added`,
+          description:
+            drafted > 0
+              ? `${drafted} draft${drafted === 1 ? "" : "s"} waiting in the review queue`
+              : files.map((f) => f.name).join(", "),
+        });
+        if (unread.length > 0) {
+          toast({ title: "Some documents could not be read", description: unread.join("; "), variant: "destructive" });
+        }
+      }
+      onSaved?.(details.transaction_id !== (document?.transaction_id ?? null) || (document?.kind ?? kind) !== kind);
+      onOpenChange(false);
+    } catch (saveError) {
+      console.error("Error saving document:", saveError);
+      toast({
+        title: "Could not save document",
+        description: saveError instanceof Error ? saveError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{document ? "Edit document" : "Add documents"}</DialogTitle>
+          <DialogDescription>
+            {document?.file_name ?? "Receipts, invoices and contracts, attached to the records they support."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!document && (
+          <div
+            className="border-2 border-dashed border-border rounded-lg p-6 flex flex-col items-center justify-center gap-2 text-center cursor-pointer hover:border-primary/50 transition-colors"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-6 h-6 text-muted-foreground" />
+            <p className="text-sm font-medium">
+              {files.length > 0 ? files.map((f) => f.name).join(", ") : "Click to choose files"}
+            </p>
+            <input
+              type="file"
+              multiple
+              ref={fileInputRef}
+              onChange={handleFileSelect}
+              className="hidden"
+              accept=".pdf,.xml,.txt,.csv,.doc,.docx,image/*"
+            />
+          </div>
+        )}
+
+        {!document && extractable.length > 0 && (
+          <label className="flex items-start gap-2 text-sm">
+            <Checkbox
+              id="document-extract"
+              checked={extract}
+              onCheckedChange={(checked) => setExtract(checked === true)}
+              className="mt-0.5"
+            />
+            <span>
+              Read {extractable.length === 1 ? "the invoice" : `${extractable.length} invoices`} into the review queue
+              <span className="block text-xs text-muted-foreground">
+                Vendor, dates, totals and line items from the PDF text or e-invoice XML, to confirm before posting
+              </span>
+            </span>
+          </label>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label>Kind</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as DocumentKind)}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DOCUMENT_KINDS.map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {DOCUMENT_KIND_LABELS[k]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Vendor</Label>
+            <Select value={vendorId} onValueChange={setVendorId}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {(ledger?.vendors || []).map((v) => (
+                  <SelectItem key={v.id} value={v.id}>
+                    {v.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="document-transaction-search">Transaction</Label>
+            <Input
+              id="document-transaction-search"
+              value={transactionSearch}
+              onChange={(e) => setTransactionSearch(e.target.value)}
+              placeholder="Search by date, payee or amount"
+            />
+            <Select value={transactionId} onValueChange={setTransactionId}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {transactionOptions.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Invoice</Label>
+            <Select value={invoiceId} onValueChange={setInvoiceId}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {(ledger?.invoices || []).map((i) => (
+                  <SelectItem key={i.id} value={i.id}>
+                    {i.invoice_number}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Bill</Label>
+            <Select value={billId} onValueChange={setBillId}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {(ledger?.bills || []).map((b) => (
+                  <SelectItem key={b.id} value={b.id}>
+                    {b.bill_number}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="document-notes">Notes</Label>
+            <Textarea id="document-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <p className={error ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+          {error ||
+            (details.transaction_id && SUPPORTING_DOCUMENT_KINDS.includes(kind)
+              ? "Documents the transaction for the receipt rule"
+              : "Receipts and invoices attached to a transaction satisfy the receipt rule")}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {document ? "Save document" : "Upload"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import { useMemo } from "react";
+import { Download, FileText, Pencil, ScanText, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { isExtractable } from "@/data/documentDrafts";
+import type { VaultDocument } from "@/data/documents";
+import type { Ledger } from "@/data/ledger";
+import { DOCUMENT_KIND_LABELS } from "@shared/documents";
+import { linkLabeler } from "./links";
+
+interface DocumentGridProps {
+  documents: VaultDocument[];
+  ledger: Ledger | undefined;
+  emptyMessage: string;
+  onDownload: (document: VaultDocument) => void;
+  onEdit: (document: VaultDocument) => void;
+  onDelete: (document: VaultDocument) => void;
+  // Read a PDF or e-invoice into the review queue
+  onExtract?: (document: VaultDocument) => void;
+}
+
+export function DocumentGrid({
+  documents,
+  ledger,
+  emptyMessage,
+  onDownload,
+  onEdit,
+  onDelete,
+  onExtract,
+}: DocumentGridProps) {
+  const describeLinks = useMemo(() => linkLabeler(ledger), [ledger]);
+
+  if (documents.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {documents.map((document) => {
+        const links = describeLinks(document);
+        return (
+          <div key={document.id} className="flex gap-3 rounded-lg border border-border/50 p-3">
+            <div className="flex h-20 w-16 shrink-0 items-center justify-center overflow-hidden rounded border border-border/50 bg-muted/40">
+              {document.thumbnail ? (
+                <img src={document.thumbnail} alt="" className="h-full w-full object-cover" />
+              ) : (
+                <FileText className="w-6 h-6 text-muted-foreground" />
+              )}
+            </div>
+            <div className="min-w-0 flex-1 space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <span className="truncate text-sm font-medium" title={document.file_name}>
+                  {document.file_name}
+                </span>
+                <Badge variant="outline" className="shrink-0 font-normal">
+                  {DOCUMENT_KIND_LABELS[document.kind]}
+                </Badge>
+              </div>
+              {links.length > 0 ? (
+                links.map((label) => (
+                  <p key={label} className="truncate text-xs text-muted-foreground" title={label}>
+                    {label}
+                  </p>
+                ))
+              ) : (
+                <p className="text-xs text-warning">Not attached to anything</p>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate text-xs text-muted-foreground">
+                  {document.created_at.slice(0, 10)}
+                  {document.uploaded_by && ` · ${document.uploaded_by}`}
+                </span>
+                <div className="flex shrink-0">
+                  {onExtract && isExtractable({ name: document.file_name, type: document.content_type || "" }) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => onExtract(document)}
+                      title="Read into the review queue"
+                    >
+                      <ScanText className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onDownload(document)} title="Download">
+                    <Download className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onEdit(document)} title="Edit document">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onDelete(document)} title="Delete document">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { AlertTriangle, ClipboardCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatDraftAmount, type DocumentDraft } from "@/data/documentDrafts";
+import { EXTRACTION_FORMAT_LABELS, type ExtractionFormat } from "@shared/invoiceExtraction";
+
+interface DraftQueueTableProps {
+  drafts: DocumentDraft[];
+  emptyMessage: string;
+  onReview: (draft: DocumentDraft) => void;
+}
+
+const STATUS_CLASSES: Record<DocumentDraft["status"], string> = {
+  pending: "text-warning border-warning/50",
+  posted: "text-success border-success/40",
+  discarded: "text-muted-foreground",
+};
+
+export function DraftQueueTable({ drafts, emptyMessage, onReview }: DraftQueueTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Vendor</TableHead>
+            <TableHead>Number</TableHead>
+            <TableHead>Read from</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+            <TableHead>Post as</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {drafts.map((draft) => (
+            <TableRow key={draft.id}>
+              <TableCell className="whitespace-nowrap tabular-nums">{draft.issue_date || "—"}</TableCell>
+              <TableCell className="max-w-[240px]">
+                <div className="truncate">{draft.vendor_name || "Unknown vendor"}</div>
+                {draft.status === "pending" && draft.warnings.length > 0 && (
+                  <div className="flex items-center gap-1 text-xs text-warning" title={draft.warnings.join("\n")}>
+                    <AlertTriangle className="w-3 h-3" />
+                    {draft.warnings.length} to check
+                  </div>
+                )}
+              </TableCell>
+              <TableCell className="whitespace-nowrap text-muted-foreground">{draft.invoice_number || "—"}</TableCell>
+              <TableCell className="whitespace-nowrap text-muted-foreground">
+                {EXTRACTION_FORMAT_LABELS[draft.source_format as ExtractionFormat] ?? draft.source_format}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{formatDraftAmount(draft.total, draft.currency)}</TableCell>
+              <TableCell className="whitespace-nowrap capitalize">{draft.target}</TableCell>
+              <TableCell>
+                <Badge variant="outline" className={STATUS_CLASSES[draft.status]}>
+                  {draft.status}
+                </Badge>
+                {draft.reviewed_by && <div className="pt-0.5 text-xs text-muted-foreground">{draft.reviewed_by}</div>}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button variant={draft.status === "pending" ? "default" : "outline"} size="sm" onClick={() => onReview(draft)}>
+                  <ClipboardCheck className="w-4 h-4 mr-2" />
+                  {draft.status === "pending" ? "Review" : "View"}
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          {drafts.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={8} className="py-8 text-center text-muted-foreground">
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, Download, Loader2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  discardDocumentDraft,
+  draftLines,
+  draftReviewError,
+  formatDraftAmount,
+  postDocumentDraft,
+  saveDocumentDraft,
+  type DocumentDraft,
+  type DraftReview,
+  type DraftTarget,
+} from "@/data/documentDrafts";
+import type { VaultDocument } from "@/data/documents";
+import { getCurrentUserName } from "@/lib/currentUser";
+import type { CategoryDecision } from "@shared/categorisation";
+import { EXTRACTION_FORMAT_LABELS, type ExtractionFormat } from "@shared/invoiceExtraction";
+
+interface DraftReviewDialogProps {
+  draft: DocumentDraft | null;
+  // The vault document the draft was read from, if it is still there
+  document?: VaultDocument;
+  categories: string[];
+  suggestCategory: (draft: DocumentDraft, vendorName: string, total: number) => CategoryDecision | null;
+  onOpenChange: (open: boolean) => void;
+  onDownload?: (document: VaultDocument) => void;
+  onSaved?: () => void;
+}
+
+const TARGET_LABELS: Record<DraftTarget, string> = {
+  bill: "Bill to pay",
+  transaction: "Paid expense",
+};
+
+const toNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export function DraftReviewDialog({
+  draft,
+  document,
+  categories,
+  suggestCategory,
+  onOpenChange,
+  onDownload,
+  onSaved,
+}: DraftReviewDialogProps) {
+  // The parent keys the dialog on the draft, so the form starts afresh from each one
+  const [target, setTarget] = useState<DraftTarget>(draft?.target ?? "transaction");
+  const [vendorName, setVendorName] = useState(draft?.vendor_name ?? "");
+  const [invoiceNumber, setInvoiceNumber] = useState(draft?.invoice_number ?? "");
+  const [issueDate, setIssueDate] = useState(draft?.issue_date ?? "");
+  const [dueDate, setDueDate] = useState(draft?.due_date ?? "");
+  const [subtotal, setSubtotal] = useState(draft?.subtotal == null ? "" : String(draft.subtotal));
+  const [tax, setTax] = useState(draft?.tax == null ? "" : String(draft.tax));
+  const [total, setTotal] = useState(draft?.total == null ? "" : String(draft.total));
+  const [category, setCategory] = useState(draft?.category ?? "");
+  const [action, setAction] = useState<"save" | "post" | "discard" | null>(null);
+  const { toast } = useToast();
+
+  const suggestion = useMemo(
+    () => (draft && vendorName.trim() ? suggestCategory(draft, vendorName, Number(total) || 0) : null),
+    [draft, vendorName, total, suggestCategory]
+  );
+
+  if (!draft) return null;
+
+  const isPending = draft.status === "pending";
+  const lines = draftLines(draft);
+  const review: DraftReview = {
+    target,
+    vendor_name: vendorName,
+    invoice_number: invoiceNumber,
+    issue_date: issueDate,
+    due_date: dueDate,
+    subtotal: toNumber(subtotal),
+    tax: toNumber(tax),
+    total: Number(total) || 0,
+    category,
+  };
+  const error = isPending ? draftReviewError(draft, review) : null;
+  const foreignCurrency = draft.currency && draft.currency !== "USD";
+
+  const run = async (kind: "save" | "post" | "discard") => {
+    setAction(kind);
+    try {
+      if (kind === "save") {
+        await saveDocumentDraft(draft.id, review);
+        toast({ title: "Draft saved", description: vendorName || "Unknown vendor" });
+      } else if (kind === "post") {
+        await postDocumentDraft(draft, review, getCurrentUserName(), suggestion);
+        toast({
+          title: target === "bill" ? "Bill created" : "Transaction posted",
+          description: `${vendorName} · ${formatDraftAmount(review.total, draft.currency)}`,
+        });
+      } else {
+        await discardDocumentDraft(draft.id, getCurrentUserName());
+        toast({ title: "Draft discarded", description: "The document stays in the vault" });
+      }
+      onSaved?.();
+      onOpenChange(false);
+    } catch (actionError) {
+      console.error("Error reviewing draft:", actionError);
+      toast({
+        title: kind === "post" ? "Could not post draft" : kind === "save" ? "Could not save draft" : "Could not discard draft",
+        description: actionError instanceof Error ? actionError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setAction(null);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isPending ? "Review draft" : `Draft ${draft.status}`}</DialogTitle>
+          <DialogDescription>
+            Read from {EXTRACTION_FORMAT_LABELS[draft.source_format as ExtractionFormat] ?? draft.source_format}
+            {document && ` · ${document.file_name}`}
+            {draft.reviewed_by && ` · reviewed by ${draft.reviewed_by}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPending && (draft.warnings.length > 0 || foreignCurrency) && (
+          <div className="space-y-1 rounded-lg border border-warning/50 p-3 text-sm">
+            {draft.warnings.map((warning) => (
+              <p key={warning} className="flex items-center gap-2 text-warning">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                {warning}
+              </p>
+            ))}
+            {foreignCurrency && (
+              <p className="flex items-center gap-2 text-warning">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                Amounts are in {draft.currency}; the ledger is kept in USD, so convert them before posting
+              </p>
+            )}
+          </div>
+        )}
+
+        <fieldset disabled={!isPending} className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label>Post as</Label>
+            <Select value={target} onValueChange={(value) => setTarget(value as DraftTarget)} disabled={!isPending}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TARGET_LABELS) as DraftTarget[]).map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {TARGET_LABELS[t]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="draft-vendor">Vendor</Label>
+            <Input id="draft-vendor" value={vendorName} onChange={(e) => setVendorName(e.target.value)} />
+            {draft.vendor_tax_id && <p className="text-xs text-muted-foreground">Tax ID {draft.vendor_tax_id}</p>}
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="draft-number">Invoice number</Label>
+            <Input id="draft-number" value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="draft-category">Category</Label>
+            <Input
+              id="draft-category"
+              list="draft-categories"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="Uncategorised"
+            />
+            <datalist id="draft-categories">
+              {categories.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+            {isPending && suggestion && suggestion.category !== category && (
+              <button
+                type="button"
+                className="flex items-center gap-1 text-left text-xs text-primary hover:underline"
+                onClick={() => setCategory(suggestion.category)}
+                title={suggestion.reason}
+              >
+                <Sparkles className="w-3 h-3 shrink-0" />
+                Use {suggestion.category}
+              </button>
+            )}
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="draft-issue-date">{draft.document_type === "receipt" ? "Date" : "Issue date"}</Label>
+            <Input id="draft-issue-date" type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="draft-due-date">Due date</Label>
+            <Input id="draft-due-date" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-3 gap-3 sm:col-span-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="draft-subtotal">Subtotal</Label>
+              <Input id="draft-subtotal" type="number" step="0.01" value={subtotal} onChange={(e) => setSubtotal(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="draft-tax">Tax</Label>
+              <Input id="draft-tax" type="number" step="0.01" value={tax} onChange={(e) => setTax(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="draft-total">Total</Label>
+              <Input id="draft-total" type="number" step="0.01" value={total} onChange={(e) => setTotal(e.target.value)} />
+            </div>
+          </div>
+        </fieldset>
+
+        {lines.length > 0 && (
+          <div className="overflow-x-auto rounded-lg border border-border/50">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line, i) => (
+                  <TableRow key={i}>
+                    <TableCell className="max-w-[280px] truncate" title={line.description}>
+                      {line.description}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{line.quantity ?? "—"}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatDraftAmount(line.unitPrice, draft.currency)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatDraftAmount(line.amount, draft.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <p className={error ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+          {error ||
+            (!isPending
+              ? draft.status === "posted"
+                ? `Posted as a ${draft.bill_id ? "bill" : "transaction"}${draft.reviewed_at ? ` on ${draft.reviewed_at.slice(0, 10)}` : ""}`
+                : "Discarded without posting"
+              : target === "bill"
+                ? "Creates a bill that waits for approval before it can be paid"
+                : draft.document_type === "credit_note"
+                  ? "Posts a refund from the vendor as income, with the document attached"
+                  : "Posts a paid expense with the document attached as its receipt")}
+        </p>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            {document && onDownload && (
+              <Button variant="outline" onClick={() => onDownload(document)}>
+                <Download className="w-4 h-4 mr-2" />
+                Open document
+              </Button>
+            )}
+            {isPending && (
+              <Button variant="ghost" onClick={() => run("discard")} disabled={!!action}>
+                {action === "discard" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Discard
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              {isPending ? "Cancel" : "Close"}
+            </Button>
+            {isPending && (
+              <>
+                <Button variant="outline" onClick={() => run("save")} disabled={!!action}>
+                  {action === "save" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save draft
+                </Button>
+                <Button onClick={() => run("post")} disabled={!!error || !!action}>
+                  {action === "post" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Post
+                </Button>
+              </>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,67 @@
+import { Paperclip } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Transaction } from "@/data/ledger";
+import type { MissingDocumentation } from "@/hooks/use-documents";
+import { payeeOf } from "@shared/categorisation";
+import type { PayeeNames } from "./links";
+
+interface MissingDocumentationTableProps {
+  rows: MissingDocumentation[];
+  names: PayeeNames;
+  emptyMessage: string;
+  onAttach: (transaction: Transaction) => void;
+}
+
+// Long lists are worked through from the most recent rather than rendered whole
+const MISSING_ROW_LIMIT = 200;
+
+const formatAmount = (value: number) => value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+export function MissingDocumentationTable({ rows, names, emptyMessage, onAttach }: MissingDocumentationTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Payee</TableHead>
+            <TableHead>Category</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead>Rule</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.slice(0, MISSING_ROW_LIMIT).map(({ transaction, ruleName }) => (
+            <TableRow key={transaction.id}>
+              <TableCell className="whitespace-nowrap tabular-nums">{transaction.date}</TableCell>
+              <TableCell className="max-w-[280px] truncate">{payeeOf(transaction, names) || "Unnamed payee"}</TableCell>
+              <TableCell className="text-muted-foreground">{transaction.category || "Uncategorised"}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatAmount(Number(transaction.amount))}</TableCell>
+              <TableCell className="whitespace-nowrap text-muted-foreground">{ruleName}</TableCell>
+              <TableCell className="text-right">
+                <Button variant="outline" size="sm" onClick={() => onAttach(transaction)}>
+                  <Paperclip className="w-4 h-4 mr-2" />
+                  Attach receipt
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          {rows.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+      {rows.length > MISSING_ROW_LIMIT && (
+        <p className="pt-3 text-xs text-muted-foreground">
+          Showing the {MISSING_ROW_LIMIT} most recent of {rows.length} transactions.
+        </p>
+      )}
+    </div>
+  );
+}
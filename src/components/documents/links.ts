@@ -0,0 +1,43 @@
+import type { DocumentLinks } from "@/data/documents";
+import type { Ledger, Transaction } from "@/data/ledger";
+import { payeeOf } from "@shared/categorisation";
+
+const formatAmount = (value: number) => value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+type LinkLedger = Pick<Ledger, "transactions" | "vendors" | "customers" | "invoices" | "bills">;
+
+export type PayeeNames = { vendors: Map<string, string>; customers: Map<string, string> };
+
+export function payeeNames(ledger: Pick<Ledger, "vendors" | "customers">): PayeeNames {
+  return {
+    vendors: new Map(ledger.vendors.map((v) => [v.id, v.name])),
+    customers: new Map(ledger.customers.map((c) => [c.id, c.name])),
+  };
+}
+
+export const describeTransaction = (t: Transaction, names: PayeeNames) =>
+  `${t.date} · ${payeeOf(t, names) || "Unnamed payee"} · ${formatAmount(Number(t.amount))}`;
+
+/**
+ * Labels for what a document is attached to, one per linked record. Builds
+ * its lookups once so a whole vault can be labelled.
+ */
+export function linkLabeler(ledger: LinkLedger | undefined): (links: DocumentLinks) => string[] {
+  if (!ledger) return () => [];
+  const names = payeeNames(ledger);
+  const transactions = new Map(ledger.transactions.map((t) => [t.id, t]));
+  const invoices = new Map(ledger.invoices.map((i) => [i.id, i.invoice_number]));
+  const bills = new Map(ledger.bills.map((b) => [b.id, b.bill_number]));
+
+  return (links) => {
+    const labels: string[] = [];
+    if (links.transaction_id) {
+      const t = transactions.get(links.transaction_id);
+      labels.push(t ? `Transaction ${describeTransaction(t, names)}` : "A transaction");
+    }
+    if (links.vendor_id) labels.push(`Vendor ${names.vendors.get(links.vendor_id) ?? "(deleted)"}`);
+    if (links.invoice_id) labels.push(`Invoice ${invoices.get(links.invoice_id) ?? "(deleted)"}`);
+    if (links.bill_id) labels.push(`Bill ${bills.get(links.bill_id) ?? "(deleted)"}`);
+    return labels;
+  };
+}
@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { requestBillApprovalIfRequired } from "@/data/approvals";
+import type { Vendor } from "@/data/ledger";
+import { createBill, formatPayableAmount } from "@/data/payables";
+import { getCurrentUserName } from "@/lib/currentUser";
+import { parseImportAmount } from "@/lib/ledgerImport";
+import { cn } from "@/lib/utils";
+import { addDays, daysOverdue } from "@shared/aging";
+
+interface BillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vendors: Vendor[];
+  onCreated?: () => void;
+}
+
+const PAYMENT_TERMS = [0, 7, 14, 30, 60] as const;
+const DEFAULT_TERMS = 30;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function BillDialog({ open, onOpenChange, vendors, onCreated }: BillDialogProps) {
+  const [number, setNumber] = useState("");
+  const [vendor, setVendor] = useState("");
+  const [issueDate, setIssueDate] = useState(today());
+  const [terms, setTerms] = useState(String(DEFAULT_TERMS));
+  const [dueDate, setDueDate] = useState(addDays(today(), DEFAULT_TERMS));
+  const [total, setTotal] = useState("");
+  const [discountPercent, setDiscountPercent] = useState("");
+  const [discountDays, setDiscountDays] = useState("");
+  const [category, setCategory] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setNumber("");
+    setVendor("");
+    setIssueDate(today());
+    setTerms(String(DEFAULT_TERMS));
+    setDueDate(addDays(today(), DEFAULT_TERMS));
+    setTotal("");
+    setDiscountPercent("");
+    setDiscountDays("");
+    setCategory("");
+    setNotes("");
+  }, [open]);
+
+  // A vendor's default category saves retyping it on every bill
+  const selectVendor = (name: string) => {
+    setVendor(name);
+    const match = vendors.find((v) => v.name === name);
+    if (match?.default_category && !category) setCategory(match.default_category);
+  };
+
+  const amount = parseImportAmount(total);
+  const percent = discountPercent.trim() ? parseImportAmount(discountPercent) : 0;
+  const days = discountDays.trim() ? Number(discountDays) : null;
+  const termsDays = Math.max(0, daysOverdue(issueDate, dueDate));
+  const discountError =
+    percent === null || percent < 0 || percent >= 100
+      ? "Enter a discount between 0 and 100%"
+      : percent > 0 && (days === null || !Number.isInteger(days) || days < 0 || days > termsDays)
+        ? "Discount days must fall within the payment terms"
+        : null;
+  const canSave =
+    !!number.trim() && !!issueDate && dueDate >= issueDate && amount !== null && amount > 0 && !discountError;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const bill = await createBill({
+        bill_number: number,
+        vendor,
+        issue_date: issueDate,
+        terms_days: termsDays,
+        due_date: dueDate,
+        discount_percent: percent,
+        discount_days: days,
+        total: amount,
+        category: category.trim() || null,
+        notes: notes.trim() || null,
+        entered_by: getCurrentUserName(),
+      });
+      const request = await requestBillApprovalIfRequired(bill, getCurrentUserName()).catch((requestError) => {
+        // The bill still shows as unapproved spend, where it can be sent again
+        console.error("Error requesting bill approval:", requestError);
+        return null;
+      });
+      toast({
+        title: "Bill entered",
+        description:
+          `${bill.bill_number} for ${formatPayableAmount(Number(bill.total))} awaits approval` +
+          (request ? ` from ${request.approvers[0]}` : ""),
+      });
+      onCreated?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error creating bill:", error);
+      toast({
+        title: "Could not enter bill",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New bill</DialogTitle>
+          <DialogDescription>Bills need approval before they can be paid or suggested for payment.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="bill-vendor">Vendor</Label>
+            <Input
+              id="bill-vendor"
+              value={vendor}
+              onChange={(e) => selectVendor(e.target.value)}
+              list="bill-vendors"
+              placeholder="Existing or new vendor"
+            />
+            <datalist id="bill-vendors">
+              {vendors.map((v) => (
+                <option key={v.id} value={v.name} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="bill-number">Bill number</Label>
+            <Input id="bill-number" value={number} onChange={(e) => setNumber(e.target.value)} placeholder="The vendor's invoice number" />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="bill-issue-date">Bill date</Label>
+            <Input
+              id="bill-issue-date"
+              type="date"
+              value={issueDate}
+              onChange={(e) => {
+                setIssueDate(e.target.value);
+                if (terms !== "custom") setDueDate(addDays(e.target.value, Number(terms)));
+              }}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1.5">
+              <Label>Terms</Label>
+              <Select
+                value={terms}
+                onValueChange={(value) => {
+                  setTerms(value);
+                  if (value !== "custom") setDueDate(addDays(issueDate, Number(value)));
+                }}
+              >
+                <SelectTrigger className="h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_TERMS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option === 0 ? "On receipt" : `Net ${option}`}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="bill-due-date">Due date</Label>
+              <Input
+                id="bill-due-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => {
+                  setDueDate(e.target.value);
+                  setTerms("custom");
+                }}
+                className={cn(dueDate < issueDate && "border-destructive")}
+              />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="bill-total">Amount</Label>
+            <Input id="bill-total" value={total} inputMode="decimal" onChange={(e) => setTotal(e.target.value)} className="text-right" />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Early-payment discount</Label>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Input
+                value={discountPercent}
+                inputMode="decimal"
+                onChange={(e) => setDiscountPercent(e.target.value)}
+                placeholder="0"
+                aria-label="Discount percent"
+                className="w-20 text-right"
+              />
+              % if paid within
+              <Input
+                value={discountDays}
+                inputMode="numeric"
+                onChange={(e) => setDiscountDays(e.target.value)}
+                placeholder="10"
+                aria-label="Discount days"
+                className="w-20 text-right"
+              />
+              days
+            </div>
+            {discountError && <p className="text-xs text-destructive">{discountError}</p>}
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="bill-category">Category</Label>
+            <Input id="bill-category" value={category} onChange={(e) => setCategory(e.target.value)} placeholder="Used for the payment transaction" />
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="bill-notes">Notes</Label>
+          <Textarea id="bill-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Enter bill
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
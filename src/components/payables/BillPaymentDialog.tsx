@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { Account, Bill } from "@/data/ledger";
+import { formatPayableAmount, recordBillPayment } from "@/data/payables";
+import { parseImportAmount } from "@/lib/ledgerImport";
+import { billOutstanding, isCashAccount, round2 } from "@shared/metrics";
+import { earlyPaymentDiscount } from "@shared/payables";
+
+interface BillPaymentDialogProps {
+  bill: Bill | null;
+  accounts: Account[];
+  onOpenChange: (open: boolean) => void;
+  onRecorded?: () => void;
+}
+
+const NO_ACCOUNT = "none";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function BillPaymentDialog({ bill, accounts, onOpenChange, onRecorded }: BillPaymentDialogProps) {
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(today());
+  const [accountId, setAccountId] = useState(NO_ACCOUNT);
+  const [reference, setReference] = useState("");
+  const [takeDiscount, setTakeDiscount] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const outstanding = bill ? billOutstanding(bill) : 0;
+  // Judged on the payment date, since that is when the vendor receives it
+  const discount = bill && date ? earlyPaymentDiscount(bill, date) : null;
+  const discountedAmount = discount ? round2(outstanding - discount.amount) : outstanding;
+  const cashAccounts = accounts.filter(isCashAccount);
+
+  useEffect(() => {
+    if (!bill) return;
+    const offer = earlyPaymentDiscount(bill, today());
+    setTakeDiscount(!!offer);
+    setAmount(String(offer ? round2(billOutstanding(bill) - offer.amount) : billOutstanding(bill)));
+    setDate(today());
+    setAccountId(NO_ACCOUNT);
+    setReference("");
+  }, [bill]);
+
+  const toggleDiscount = (checked: boolean) => {
+    setTakeDiscount(checked);
+    setAmount(String(checked ? discountedAmount : outstanding));
+  };
+
+  const applying = takeDiscount && !!discount;
+  const value = parseImportAmount(amount);
+  const amountError =
+    value === null || value <= 0
+      ? "Enter an amount above zero"
+      : applying && Math.abs(value - discountedAmount) > 0.005
+        ? `Taking the discount means paying ${formatPayableAmount(discountedAmount)} in full`
+        : value > outstanding + 0.005
+          ? `Only ${formatPayableAmount(outstanding)} is outstanding`
+          : null;
+
+  const handleSave = async () => {
+    if (!bill || amountError) return;
+    setIsSaving(true);
+    try {
+      const updated = await recordBillPayment({
+        billId: bill.id,
+        amount: value,
+        date,
+        accountId: accountId === NO_ACCOUNT ? null : accountId,
+        reference: reference.trim() || null,
+        takeDiscount: applying,
+      });
+      toast({
+        title: updated.status === "paid" ? "Bill paid in full" : "Payment recorded",
+        description: `${formatPayableAmount(value)} against ${updated.bill_number}`,
+      });
+      onRecorded?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error recording bill payment:", error);
+      toast({
+        title: "Could not record payment",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!bill} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pay bill{bill && ` ${bill.bill_number}`}</DialogTitle>
+          <DialogDescription>
+            {formatPayableAmount(outstanding)} outstanding, due {bill?.due_date}. The payment is added to the ledger as
+            an expense.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {discount && (
+            <label className="flex items-start gap-2 rounded-md border border-border/50 p-3 text-sm">
+              <Checkbox checked={takeDiscount} onCheckedChange={(checked) => toggleDiscount(checked === true)} className="mt-0.5" />
+              <span>
+                Take the {formatPayableAmount(discount.amount)} early-payment discount
+                <span className="block text-xs text-muted-foreground">Available until {discount.deadline}</span>
+              </span>
+            </label>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="bill-payment-amount">Amount</Label>
+              <Input
+                id="bill-payment-amount"
+                value={amount}
+                inputMode="decimal"
+                onChange={(e) => setAmount(e.target.value)}
+                className="text-right"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="bill-payment-date">Payment date</Label>
+              <Input id="bill-payment-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+          </div>
+          {amountError && amount && <p className="text-xs text-destructive">{amountError}</p>}
+          <div className="space-y-1.5">
+            <Label>Paid from</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                {cashAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="bill-payment-reference">Reference</Label>
+            <Input
+              id="bill-payment-reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="Cheque or transfer reference"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!amountError || !date || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Record payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
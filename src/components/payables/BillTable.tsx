@@ -0,0 +1,159 @@
+import { Link } from "react-router-dom";
+import { Ban, Check, CreditCard, Stamp, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Bill } from "@/data/ledger";
+import { APPROVAL_LABELS, formatPayableAmount, type BillApprovalStatus } from "@/data/payables";
+import { cn } from "@/lib/utils";
+import { daysOverdue } from "@shared/aging";
+import { billOutstanding } from "@shared/metrics";
+
+interface BillTableProps {
+  bills: Bill[];
+  vendorNames: Map<string, string>;
+  asOf: string;
+  // Bills under an approval policy, approved through the approvals inbox
+  routedBills: Set<string>;
+  onApprove: (bill: Bill, approval: BillApprovalStatus) => void;
+  onRecordPayment: (bill: Bill) => void;
+  onVoid: (bill: Bill) => void;
+}
+
+// "Net 30", or "2/10 net 30" with an early-payment discount
+function describeTerms(bill: Pick<Bill, "terms_days" | "discount_percent" | "discount_days">) {
+  const net = bill.terms_days === 0 ? "On receipt" : `Net ${bill.terms_days}`;
+  const percent = Number(bill.discount_percent);
+  if (percent > 0 && bill.discount_days !== null) return `${percent}/${bill.discount_days} ${net.toLowerCase()}`;
+  return net;
+}
+
+const STATUS_LABELS: Record<Bill["status"], string> = {
+  open: "Open",
+  partially_paid: "Part paid",
+  paid: "Paid",
+  void: "Void",
+};
+
+const STATUS_CLASSES: Record<Bill["status"], string> = {
+  open: "",
+  partially_paid: "text-warning border-warning/50",
+  paid: "text-success border-success/40",
+  void: "text-muted-foreground line-through",
+};
+
+const APPROVAL_CLASSES: Record<BillApprovalStatus, string> = {
+  pending: "text-warning border-warning/50",
+  approved: "text-success border-success/40",
+  rejected: "text-destructive border-destructive/50",
+};
+
+export function BillTable({ bills, vendorNames, asOf, routedBills, onApprove, onRecordPayment, onVoid }: BillTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Bill</TableHead>
+            <TableHead>Vendor</TableHead>
+            <TableHead>Due</TableHead>
+            <TableHead>Terms</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+            <TableHead className="text-right">Outstanding</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {bills.map((bill) => {
+            const outstanding = billOutstanding(bill);
+            const late = outstanding > 0 ? daysOverdue(bill.due_date, asOf) : 0;
+            const settled = bill.status === "void" || bill.status === "paid";
+            const routed = routedBills.has(bill.id);
+            return (
+              <TableRow key={bill.id}>
+                <TableCell className="font-medium whitespace-nowrap">
+                  {bill.bill_number}
+                  <span className="block text-xs font-normal text-muted-foreground">issued {bill.issue_date}</span>
+                </TableCell>
+                <TableCell>{(bill.vendor_id && vendorNames.get(bill.vendor_id)) || "—"}</TableCell>
+                <TableCell className="whitespace-nowrap tabular-nums">
+                  {bill.due_date}
+                  {late > 0 && <span className="block text-xs text-destructive">{late} days late</span>}
+                  {bill.scheduled_date && !settled && (
+                    <span className="block text-xs text-muted-foreground">pay on {bill.scheduled_date}</span>
+                  )}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{describeTerms(bill)}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatPayableAmount(Number(bill.total))}</TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {outstanding > 0 ? formatPayableAmount(outstanding) : "—"}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-col items-start gap-1">
+                    <Badge variant="outline" className={cn("whitespace-nowrap", STATUS_CLASSES[bill.status])}>
+                      {STATUS_LABELS[bill.status]}
+                    </Badge>
+                    {!settled && (
+                      <Badge variant="outline" className={cn("whitespace-nowrap", APPROVAL_CLASSES[bill.approval_status])}>
+                        {APPROVAL_LABELS[bill.approval_status]}
+                      </Badge>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {bill.approval_status !== "approved" && !settled && routed && (
+                    <Button variant="ghost" size="icon" className="h-8 w-8" asChild title="Go to approvals">
+                      <Link to="/approvals?view=unapproved">
+                        <Stamp className="w-4 h-4" />
+                      </Link>
+                    </Button>
+                  )}
+                  {bill.approval_status !== "approved" && !settled && !routed && (
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onApprove(bill, "approved")} title="Approve">
+                      <Check className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {bill.approval_status === "pending" && !settled && !routed && (
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onApprove(bill, "rejected")} title="Reject">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {bill.approval_status === "approved" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => onRecordPayment(bill)}
+                      disabled={outstanding <= 0}
+                      title="Record payment"
+                    >
+                      <CreditCard className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onVoid(bill)}
+                    disabled={settled || Number(bill.amount_paid) > 0}
+                    title="Void bill"
+                  >
+                    <Ban className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+          {bills.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={8} className="py-8 text-center text-muted-foreground">
+                No bills match.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
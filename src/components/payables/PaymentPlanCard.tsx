@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { CalendarCheck, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { Bill } from "@/data/ledger";
+import { formatPayableAmount, scheduleBills } from "@/data/payables";
+import { cn } from "@/lib/utils";
+import { PAYMENT_REASON_LABELS, type PaymentPlan, type PaymentSuggestion } from "@shared/payables";
+
+interface PaymentPlanCardProps {
+  plan: PaymentPlan;
+  cashOnHand: number | null;
+  bills: Bill[];
+  vendorNames: Map<string, string>;
+  reserve: string;
+  onReserveChange: (value: string) => void;
+  onScheduled?: () => void;
+}
+
+const REASON_CLASSES: Record<PaymentSuggestion["reason"], string> = {
+  overdue: "border-transparent bg-destructive text-destructive-foreground",
+  due: "",
+  discount: "text-success border-success/40",
+};
+
+export function PaymentPlanCard({
+  plan,
+  cashOnHand,
+  bills,
+  vendorNames,
+  reserve,
+  onReserveChange,
+  onScheduled,
+}: PaymentPlanCardProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const billsById = new Map(bills.map((b) => [b.id, b]));
+
+  // Start from the plan's own picks whenever it changes
+  useEffect(() => {
+    setSelected(new Set(plan.suggestions.map((s) => s.billId)));
+  }, [plan]);
+
+  const rows = [...plan.suggestions, ...plan.deferred];
+  const chosen = rows.filter((s) => selected.has(s.billId));
+  const chosenTotal = chosen.reduce((total, s) => total + s.amount, 0);
+
+  const toggle = (billId: string, checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(billId);
+      else next.delete(billId);
+      return next;
+    });
+
+  const handleSchedule = async () => {
+    setIsSaving(true);
+    try {
+      await scheduleBills(chosen.map((s) => ({ billId: s.billId, date: s.payBy })));
+      toast({
+        title: "Payments scheduled",
+        description: `${chosen.length} bill${chosen.length === 1 ? "" : "s"} for ${formatPayableAmount(chosenTotal)}; the cash forecast now uses these dates`,
+      });
+      onScheduled?.();
+    } catch (error) {
+      console.error("Error scheduling bills:", error);
+      toast({
+        title: "Could not schedule payments",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Pay this week</CardTitle>
+          <CardDescription>
+            Approved bills overdue, due or losing an early-payment discount by {plan.windowEnd}
+          </CardDescription>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="payment-reserve" className="text-xs text-muted-foreground">
+              Keep in the bank
+            </Label>
+            <Input
+              id="payment-reserve"
+              value={reserve}
+              inputMode="decimal"
+              onChange={(e) => onReserveChange(e.target.value)}
+              placeholder="0"
+              className="h-9 w-32 text-right"
+            />
+          </div>
+          <Button size="sm" onClick={handleSchedule} disabled={chosen.length === 0 || isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CalendarCheck className="w-4 h-4 mr-2" />}
+            Schedule {chosen.length || ""}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-x-8 gap-y-2 text-sm">
+          <p>
+            <span className="text-muted-foreground">Cash on hand </span>
+            <span className="font-semibold tabular-nums">{cashOnHand === null ? "unknown" : formatPayableAmount(cashOnHand)}</span>
+          </p>
+          {plan.cashAvailable !== null && (
+            <p>
+              <span className="text-muted-foreground">Available to pay </span>
+              <span className="font-semibold tabular-nums">{formatPayableAmount(Math.max(0, plan.cashAvailable))}</span>
+            </p>
+          )}
+          <p>
+            <span className="text-muted-foreground">Selected </span>
+            <span className="font-semibold tabular-nums">{formatPayableAmount(chosenTotal)}</span>
+          </p>
+          {plan.savings > 0 && (
+            <p>
+              <span className="text-muted-foreground">Discounts in the plan </span>
+              <span className="font-semibold tabular-nums text-success">{formatPayableAmount(plan.savings)}</span>
+            </p>
+          )}
+        </div>
+        {cashOnHand === null && (
+          <p className="text-xs text-muted-foreground">
+            Add a bank or cash account to limit suggestions to the cash you have.
+          </p>
+        )}
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Bill</TableHead>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Why</TableHead>
+                <TableHead>Pay by</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((suggestion) => {
+                const bill = billsById.get(suggestion.billId);
+                const isDeferred = !plan.suggestions.includes(suggestion);
+                return (
+                  <TableRow key={suggestion.billId} className={cn(isDeferred && "text-muted-foreground")}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(suggestion.billId)}
+                        onCheckedChange={(checked) => toggle(suggestion.billId, checked === true)}
+                        aria-label={`Pay ${bill?.bill_number ?? "bill"}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium whitespace-nowrap">{bill?.bill_number}</TableCell>
+                    <TableCell>{(bill?.vendor_id && vendorNames.get(bill.vendor_id)) || "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={cn("whitespace-nowrap", REASON_CLASSES[suggestion.reason])}>
+                        {PAYMENT_REASON_LABELS[suggestion.reason]}
+                      </Badge>
+                      {isDeferred && <span className="block text-xs">Not enough cash</span>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap tabular-nums">{suggestion.payBy}</TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatPayableAmount(suggestion.amount)}
+                      {suggestion.discount > 0 && (
+                        <span className="block text-xs text-success">saves {formatPayableAmount(suggestion.discount)}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                    Nothing needs paying this week.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatReceivableAmount } from "@/data/receivables";
+import { cn } from "@/lib/utils";
+import { AGING_BUCKETS, AGING_BUCKET_LABELS, type AgingReport, type AgingRow } from "@shared/aging";
+
+interface AgingTableProps {
+  report: AgingReport;
+  // Column heading for the party: customer for receivables, vendor for payables
+  partyLabel?: string;
+  emptyMessage?: string;
+  selectedPartyId?: string | null;
+  onSelectParty?: (row: AgingRow) => void;
+}
+
+// Older buckets read as more urgent
+const BUCKET_CLASSES: Record<string, string | undefined> = {
+  "61-90": "text-warning",
+  "90+": "text-destructive font-medium",
+};
+
+const amountCell = (value: number) => (value === 0 ? "—" : formatReceivableAmount(value));
+
+export function AgingTable({
+  report,
+  partyLabel = "Customer",
+  emptyMessage = "Nothing is owed right now.",
+  selectedPartyId,
+  onSelectParty,
+}: AgingTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{partyLabel}</TableHead>
+            {AGING_BUCKETS.map((bucket) => (
+              <TableHead key={bucket} className="text-right whitespace-nowrap">
+                {AGING_BUCKET_LABELS[bucket]}
+              </TableHead>
+            ))}
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.rows.map((row) => (
+            <TableRow
+              key={row.partyId ?? ""}
+              className={cn(onSelectParty && "cursor-pointer", row.partyId === selectedPartyId && "bg-muted/50")}
+              onClick={() => onSelectParty?.(row)}
+            >
+              <TableCell className="font-medium">{row.party}</TableCell>
+              {AGING_BUCKETS.map((bucket) => (
+                <TableCell
+                  key={bucket}
+                  className={cn("text-right tabular-nums", row.buckets[bucket] > 0 && BUCKET_CLASSES[bucket])}
+                >
+                  {amountCell(row.buckets[bucket])}
+                </TableCell>
+              ))}
+              <TableCell className="text-right tabular-nums font-medium">{formatReceivableAmount(row.total)}</TableCell>
+            </TableRow>
+          ))}
+          {report.rows.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={AGING_BUCKETS.length + 2} className="py-8 text-center text-muted-foreground">
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+        {report.rows.length > 0 && (
+          <TableFooter>
+            <TableRow className="font-semibold">
+              <TableCell>Total</TableCell>
+              {AGING_BUCKETS.map((bucket) => (
+                <TableCell key={bucket} className="text-right tabular-nums">
+                  {amountCell(report.totals[bucket])}
+                </TableCell>
+              ))}
+              <TableCell className="text-right tabular-nums">{formatReceivableAmount(report.totals.total)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        )}
+      </Table>
+    </div>
+  );
+}
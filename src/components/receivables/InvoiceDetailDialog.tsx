@@ -0,0 +1,115 @@
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Invoice } from "@/data/ledger";
+import { formatReceivableAmount, invoiceDisplayStatus } from "@/data/receivables";
+import { useInvoiceDetail } from "@/hooks/use-receivables";
+import { invoiceOutstanding } from "@shared/metrics";
+import { InvoiceStatusBadge } from "./InvoiceTable";
+
+interface InvoiceDetailDialogProps {
+  invoice: Invoice | null;
+  customerName?: string;
+  asOf: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function InvoiceDetailDialog({ invoice, customerName, asOf, onOpenChange }: InvoiceDetailDialogProps) {
+  const { data, isLoading, error } = useInvoiceDetail(invoice?.id ?? null);
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        {invoice && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-3">
+                {invoice.invoice_number}
+                <InvoiceStatusBadge status={invoiceDisplayStatus(invoice, asOf)} />
+              </DialogTitle>
+              <DialogDescription>
+                {customerName || "No customer"} · issued {invoice.issue_date} · due {invoice.due_date}
+              </DialogDescription>
+            </DialogHeader>
+
+            {isLoading && (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {error && <p className="text-sm text-destructive">Could not load the invoice: {error.message}</p>}
+
+            {data && (
+              <div className="space-y-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Unit price</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.lines.map((line) => (
+                      <TableRow key={line.id}>
+                        <TableCell>{line.description}</TableCell>
+                        <TableCell className="text-right tabular-nums">{Number(line.quantity)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatReceivableAmount(Number(line.unit_price))}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatReceivableAmount(Number(line.amount))}</TableCell>
+                      </TableRow>
+                    ))}
+                    {data.lines.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground">
+                          This invoice has no line items.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow className="font-semibold">
+                      <TableCell colSpan={3}>Total</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatReceivableAmount(Number(invoice.total))}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold">Payments</h3>
+                  {data.payments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No payments recorded.</p>
+                  ) : (
+                    <Table>
+                      <TableBody>
+                        {data.payments.map((payment) => (
+                          <TableRow key={payment.id}>
+                            <TableCell className="tabular-nums">{payment.date}</TableCell>
+                            <TableCell className="text-muted-foreground">{payment.reference || "—"}</TableCell>
+                            <TableCell className="text-right tabular-nums">{formatReceivableAmount(Number(payment.amount))}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Outstanding</span>
+                    <span className="font-semibold tabular-nums">{formatReceivableAmount(invoiceOutstanding(invoice))}</span>
+                  </div>
+                </div>
+
+                {invoice.notes && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{invoice.notes}</p>}
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import type { Customer } from "@/data/ledger";
+import { createInvoice, formatReceivableAmount, lineAmount } from "@/data/receivables";
+import { parseImportAmount } from "@/lib/ledgerImport";
+import { cn } from "@/lib/utils";
+import { addDays } from "@shared/aging";
+
+interface InvoiceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customers: Customer[];
+  suggestedNumber: string;
+  onCreated?: () => void;
+}
+
+interface DraftLine {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+const PAYMENT_TERMS = [0, 7, 14, 30, 60] as const;
+const DEFAULT_TERMS = 30;
+
+const blankLine = (): DraftLine => ({ description: "", quantity: "1", unitPrice: "" });
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function parseLine(line: DraftLine) {
+  const quantity = parseImportAmount(line.quantity);
+  const unitPrice = parseImportAmount(line.unitPrice);
+  const valid = !!line.description.trim() && quantity !== null && quantity > 0 && unitPrice !== null && unitPrice >= 0;
+  return valid ? { description: line.description.trim(), quantity, unit_price: unitPrice } : null;
+}
+
+export function InvoiceDialog({ open, onOpenChange, customers, suggestedNumber, onCreated }: InvoiceDialogProps) {
+  const [number, setNumber] = useState(suggestedNumber);
+  const [customer, setCustomer] = useState("");
+  const [issueDate, setIssueDate] = useState(today());
+  const [terms, setTerms] = useState(String(DEFAULT_TERMS));
+  const [dueDate, setDueDate] = useState(addDays(today(), DEFAULT_TERMS));
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([blankLine()]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setNumber(suggestedNumber);
+    setCustomer("");
+    setIssueDate(today());
+    setTerms(String(DEFAULT_TERMS));
+    setDueDate(addDays(today(), DEFAULT_TERMS));
+    setNotes("");
+    setLines([blankLine()]);
+  }, [open, suggestedNumber]);
+
+  const applyTerms = (value: string, from = issueDate) => {
+    setTerms(value);
+    if (value !== "custom") setDueDate(addDays(from, Number(value)));
+  };
+
+  const parsed = lines.map(parseLine);
+  const filledLines = lines.filter((l) => l.description || l.unitPrice);
+  const total = parsed.reduce((sum, line) => sum + (line ? lineAmount(line) : 0), 0);
+  const canSave =
+    !!number.trim() &&
+    !!issueDate &&
+    dueDate >= issueDate &&
+    filledLines.length > 0 &&
+    lines.every((line, i) => parsed[i] || (!line.description && !line.unitPrice));
+
+  const updateLine = (index: number, patch: Partial<DraftLine>) =>
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const invoice = await createInvoice({
+        invoice_number: number,
+        customer,
+        issue_date: issueDate,
+        due_date: dueDate,
+        notes: notes.trim() || null,
+        lines: parsed.filter(Boolean),
+      });
+      toast({ title: "Invoice created", description: `${invoice.invoice_number} for ${formatReceivableAmount(Number(invoice.total))}` });
+      onCreated?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error creating invoice:", error);
+      toast({
+        title: "Could not create invoice",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New invoice</DialogTitle>
+          <DialogDescription>The invoice is recorded as sent; its total is the sum of the line items.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="invoice-number">Invoice number</Label>
+            <Input id="invoice-number" value={number} onChange={(e) => setNumber(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="invoice-customer">Customer</Label>
+            <Input
+              id="invoice-customer"
+              value={customer}
+              onChange={(e) => setCustomer(e.target.value)}
+              list="invoice-customers"
+              placeholder="Existing or new customer"
+            />
+            <datalist id="invoice-customers">
+              {customers.map((c) => (
+                <option key={c.id} value={c.name} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="invoice-issue-date">Issue date</Label>
+            <Input
+              id="invoice-issue-date"
+              type="date"
+              value={issueDate}
+              onChange={(e) => {
+                setIssueDate(e.target.value);
+                if (terms !== "custom") setDueDate(addDays(e.target.value, Number(terms)));
+              }}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1.5">
+              <Label>Terms</Label>
+              <Select value={terms} onValueChange={(value) => applyTerms(value)}>
+                <SelectTrigger className="h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_TERMS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days === 0 ? "On receipt" : `Net ${days}`}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="invoice-due-date">Due date</Label>
+              <Input
+                id="invoice-due-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => {
+                  setDueDate(e.target.value);
+                  setTerms("custom");
+                }}
+                className={cn(dueDate < issueDate && "border-destructive")}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Line items</Label>
+          {lines.map((line, index) => (
+            <div key={index} className="grid grid-cols-[1fr_80px_110px_100px_36px] items-center gap-2">
+              <Input
+                value={line.description}
+                onChange={(e) => updateLine(index, { description: e.target.value })}
+                placeholder="Description"
+                aria-label={`Line ${index + 1} description`}
+              />
+              <Input
+                value={line.quantity}
+                inputMode="decimal"
+                onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                aria-label={`Line ${index + 1} quantity`}
+                className="text-right"
+              />
+              <Input
+                value={line.unitPrice}
+                inputMode="decimal"
+                onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                placeholder="Unit price"
+                aria-label={`Line ${index + 1} unit price`}
+                className="text-right"
+              />
+              <span className="text-right text-sm tabular-nums">
+                {parsed[index] ? formatReceivableAmount(lineAmount(parsed[index])) : "—"}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setLines((prev) => (prev.length > 1 ? prev.filter((_, i) => i !== index) : [blankLine()]))}
+                title="Remove line"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, blankLine()])}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add line
+            </Button>
+            <p className="text-sm">
+              Total <span className="font-semibold tabular-nums">{formatReceivableAmount(total)}</span>
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="invoice-notes">Notes</Label>
+          <Textarea id="invoice-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Create invoice
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+import { Ban, CreditCard, FileText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Invoice } from "@/data/ledger";
+import {
+  INVOICE_STATUS_LABELS,
+  formatReceivableAmount,
+  invoiceDisplayStatus,
+  type InvoiceDisplayStatus,
+} from "@/data/receivables";
+import { cn } from "@/lib/utils";
+import { invoiceOutstanding } from "@shared/metrics";
+import { daysOverdue } from "@shared/aging";
+
+interface InvoiceTableProps {
+  invoices: Invoice[];
+  customerNames: Map<string, string>;
+  asOf: string;
+  onRecordPayment: (invoice: Invoice) => void;
+  onShowDetail: (invoice: Invoice) => void;
+  onVoid: (invoice: Invoice) => void;
+}
+
+const STATUS_CLASSES: Record<InvoiceDisplayStatus, string> = {
+  draft: "text-muted-foreground",
+  sent: "",
+  partially_paid: "text-warning border-warning/50",
+  paid: "text-success border-success/40",
+  void: "text-muted-foreground line-through",
+  overdue: "border-transparent bg-destructive text-destructive-foreground",
+};
+
+export function InvoiceStatusBadge({ status }: { status: InvoiceDisplayStatus }) {
+  return (
+    <Badge variant="outline" className={cn("whitespace-nowrap", STATUS_CLASSES[status])}>
+      {INVOICE_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+export function InvoiceTable({ invoices, customerNames, asOf, onRecordPayment, onShowDetail, onVoid }: InvoiceTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Invoice</TableHead>
+            <TableHead>Customer</TableHead>
+            <TableHead>Issued</TableHead>
+            <TableHead>Due</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+            <TableHead className="text-right">Outstanding</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {invoices.map((invoice) => {
+            const outstanding = invoiceOutstanding(invoice);
+            const status = invoiceDisplayStatus(invoice, asOf);
+            const overdueDays = daysOverdue(invoice.due_date, asOf);
+            return (
+              <TableRow key={invoice.id}>
+                <TableCell className="font-medium whitespace-nowrap">{invoice.invoice_number}</TableCell>
+                <TableCell>{(invoice.customer_id && customerNames.get(invoice.customer_id)) || "—"}</TableCell>
+                <TableCell className="whitespace-nowrap tabular-nums">{invoice.issue_date}</TableCell>
+                <TableCell className="whitespace-nowrap tabular-nums">
+                  {invoice.due_date}
+                  {status === "overdue" && <span className="block text-xs text-destructive">{overdueDays} days late</span>}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">{formatReceivableAmount(Number(invoice.total))}</TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {outstanding > 0 ? formatReceivableAmount(outstanding) : "—"}
+                </TableCell>
+                <TableCell>
+                  <InvoiceStatusBadge status={status} />
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onShowDetail(invoice)} title="Line items and payments">
+                    <FileText className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onRecordPayment(invoice)}
+                    disabled={outstanding <= 0}
+                    title="Record payment"
+                  >
+                    <CreditCard className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onVoid(invoice)}
+                    disabled={invoice.status === "void" || Number(invoice.amount_paid) > 0}
+                    title="Void invoice"
+                  >
+                    <Ban className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+          {invoices.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={8} className="py-8 text-center text-muted-foreground">
+                No invoices match.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
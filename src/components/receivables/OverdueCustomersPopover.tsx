@@ -0,0 +1,66 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useReceivables } from "@/hooks/use-receivables";
+import { formatReceivableAmount } from "@/data/receivables";
+import { DSO_PERIOD_DAYS, topOverdueCustomers } from "@shared/receivables";
+
+interface OverdueCustomersPopoverProps {
+  children: ReactNode;
+}
+
+// The customers behind the dashboard's overdue figure, each linking to their invoices
+export function OverdueCustomersPopover({ children }: OverdueCustomersPopoverProps) {
+  const { report, dso, isLoading } = useReceivables();
+  const customers = report ? topOverdueCustomers(report) : [];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring">
+          {children}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="border-b px-4 py-3">
+          <p className="text-sm font-semibold">Most overdue customers</p>
+          {dso !== null && (
+            <p className="text-xs text-muted-foreground">
+              DSO {dso} days over the last {DSO_PERIOD_DAYS} days
+            </p>
+          )}
+        </div>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : customers.length === 0 ? (
+          <p className="px-4 py-3 text-sm text-muted-foreground">No customer is overdue.</p>
+        ) : (
+          <ul className="py-1">
+            {customers.map((row) => (
+              <li key={row.partyId ?? ""}>
+                <Link
+                  to={`/receivables?view=invoices&status=overdue${row.partyId ? `&customer=${row.partyId}` : ""}`}
+                  className="flex items-center justify-between gap-3 px-4 py-2 text-sm hover:bg-muted/50"
+                >
+                  <span className="min-w-0">
+                    <span className="block truncate font-medium">{row.party}</span>
+                    <span className="block text-xs text-muted-foreground">oldest {row.oldestDaysOverdue} days late</span>
+                  </span>
+                  <span className="font-semibold tabular-nums text-destructive">{formatReceivableAmount(row.overdue)}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="border-t px-4 py-2">
+          <Link to="/receivables" className="text-sm font-medium text-primary hover:underline">
+            View aging report
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { Account, Invoice } from "@/data/ledger";
+import { formatReceivableAmount, recordInvoicePayment } from "@/data/receivables";
+import { parseImportAmount } from "@/lib/ledgerImport";
+import { invoiceOutstanding, isCashAccount } from "@shared/metrics";
+
+interface PaymentDialogProps {
+  invoice: Invoice | null;
+  accounts: Account[];
+  onOpenChange: (open: boolean) => void;
+  onRecorded?: () => void;
+}
+
+const NO_ACCOUNT = "none";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function PaymentDialog({ invoice, accounts, onOpenChange, onRecorded }: PaymentDialogProps) {
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(today());
+  const [accountId, setAccountId] = useState(NO_ACCOUNT);
+  const [reference, setReference] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const outstanding = invoice ? invoiceOutstanding(invoice) : 0;
+  const cashAccounts = accounts.filter(isCashAccount);
+
+  useEffect(() => {
+    if (!invoice) return;
+    setAmount(String(invoiceOutstanding(invoice)));
+    setDate(today());
+    setAccountId(NO_ACCOUNT);
+    setReference("");
+  }, [invoice]);
+
+  const value = parseImportAmount(amount);
+  const amountError =
+    value === null || value <= 0
+      ? "Enter an amount above zero"
+      : value > outstanding + 0.005
+        ? `Only ${formatReceivableAmount(outstanding)} is outstanding`
+        : null;
+
+  const handleSave = async () => {
+    if (!invoice || amountError) return;
+    setIsSaving(true);
+    try {
+      const updated = await recordInvoicePayment({
+        invoiceId: invoice.id,
+        amount: value,
+        date,
+        accountId: accountId === NO_ACCOUNT ? null : accountId,
+        reference: reference.trim() || null,
+      });
+      toast({
+        title: updated.status === "paid" ? "Invoice paid in full" : "Payment recorded",
+        description: `${formatReceivableAmount(value)} against ${updated.invoice_number}`,
+      });
+      onRecorded?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      toast({
+        title: "Could not record payment",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record payment{invoice && ` for ${invoice.invoice_number}`}</DialogTitle>
+          <DialogDescription>
+            {formatReceivableAmount(outstanding)} outstanding of {formatReceivableAmount(Number(invoice?.total ?? 0))}.
+            The payment is added to the ledger as income.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="payment-amount">Amount</Label>
+              <Input
+                id="payment-amount"
+                value={amount}
+                inputMode="decimal"
+                onChange={(e) => setAmount(e.target.value)}
+                className="text-right"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="payment-date">Date received</Label>
+              <Input id="payment-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+          </div>
+          {amountError && amount && <p className="text-xs text-destructive">{amountError}</p>}
+          <div className="space-y-1.5">
+            <Label>Deposited to</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                {cashAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="payment-reference">Reference</Label>
+            <Input
+              id="payment-reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="Cheque or transfer reference"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!amountError || !date || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Record payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+import { Check, EyeOff, Loader2, Plus, Undo2, Unlink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Invoice, Transaction } from "@/data/ledger";
+import { formatBankAmount, type BankLine } from "@/data/reconciliation";
+import { cn } from "@/lib/utils";
+import { AUTO_ACCEPT_CONFIDENCE, type MatchSuggestion, type MatchTarget } from "@shared/reconciliation";
+
+export type LineView = "suggested" | "unmatched" | "matched" | "ignored";
+
+interface BankLineTableProps {
+  lines: BankLine[];
+  view: LineView;
+  suggestions: Map<string, MatchSuggestion>;
+  transactionsById: Map<string, Transaction>;
+  invoicesById: Map<string, Invoice>;
+  // Line with an action in flight
+  busyLineId: string | null;
+  onAccept: (line: BankLine, suggestion: MatchSuggestion) => void;
+  onAddToLedger: (line: BankLine) => void;
+  onIgnore: (line: BankLine, ignored: boolean) => void;
+  onUnmatch: (line: BankLine) => void;
+}
+
+const EMPTY_MESSAGES: Record<LineView, string> = {
+  suggested: "No suggested matches. Lines without one are under Unmatched.",
+  unmatched: "Every line has a match or a suggestion.",
+  matched: "No lines reconciled yet.",
+  ignored: "No ignored lines.",
+};
+
+function describeTarget(
+  target: MatchTarget,
+  transactionsById: Map<string, Transaction>,
+  invoicesById: Map<string, Invoice>
+): { title: string; detail: string | null } {
+  if (target.kind === "invoice") {
+    const invoice = invoicesById.get(target.id);
+    return { title: `Invoice ${invoice?.invoice_number ?? ""}`.trim(), detail: invoice ? `due ${invoice.due_date}` : null };
+  }
+  const transaction = transactionsById.get(target.id);
+  if (!transaction) return { title: "Transaction", detail: null };
+  return {
+    title: transaction.description || transaction.category || (transaction.type === "income" ? "Income" : "Expense"),
+    detail: [transaction.date, transaction.reference].filter(Boolean).join(" · "),
+  };
+}
+
+export function BankLineTable({
+  lines,
+  view,
+  suggestions,
+  transactionsById,
+  invoicesById,
+  busyLineId,
+  onAccept,
+  onAddToLedger,
+  onIgnore,
+  onUnmatch,
+}: BankLineTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Bank description</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            {(view === "suggested" || view === "matched") && <TableHead>Ledger</TableHead>}
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lines.map((line) => {
+            const suggestion = suggestions.get(line.id);
+            const busy = busyLineId === line.id;
+            const target =
+              view === "matched" && line.transaction_id
+                ? describeTarget({ kind: "transaction", id: line.transaction_id }, transactionsById, invoicesById)
+                : suggestion && describeTarget(suggestion.target, transactionsById, invoicesById);
+            return (
+              <TableRow key={line.id} className={cn(view === "ignored" && "text-muted-foreground")}>
+                <TableCell className="whitespace-nowrap tabular-nums">{line.date}</TableCell>
+                <TableCell className="max-w-[320px]">
+                  <span className="block truncate" title={line.description ?? undefined}>
+                    {line.description || "—"}
+                  </span>
+                  {line.reference && <span className="block text-xs text-muted-foreground">ref {line.reference}</span>}
+                </TableCell>
+                <TableCell className={cn("text-right tabular-nums whitespace-nowrap", Number(line.amount) > 0 && "text-success")}>
+                  {formatBankAmount(Number(line.amount))}
+                </TableCell>
+                {(view === "suggested" || view === "matched") && (
+                  <TableCell className="max-w-[320px]">
+                    {target && (
+                      <>
+                        <span className="block truncate font-medium">{target.title}</span>
+                        {target.detail && <span className="block text-xs text-muted-foreground">{target.detail}</span>}
+                      </>
+                    )}
+                    {view === "suggested" && suggestion && (
+                      <div className="mt-1 flex flex-wrap items-center gap-1">
+                        <Badge
+                          variant="outline"
+                          className={cn(
+                            "whitespace-nowrap",
+                            suggestion.confidence >= AUTO_ACCEPT_CONFIDENCE
+                              ? "text-success border-success/40"
+                              : "text-warning border-warning/50"
+                          )}
+                        >
+                          {Math.round(suggestion.confidence * 100)}%
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">{suggestion.reasons.join(" · ")}</span>
+                      </div>
+                    )}
+                  </TableCell>
+                )}
+                <TableCell className="text-right whitespace-nowrap">
+                  {busy ? (
+                    <Loader2 className="inline w-4 h-4 mr-2 animate-spin text-muted-foreground" />
+                  ) : (
+                    <>
+                      {view === "suggested" && suggestion && (
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onAccept(line, suggestion)} title="Accept match">
+                          <Check className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {(view === "suggested" || view === "unmatched") && (
+                        <>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onAddToLedger(line)} title="Add to ledger">
+                            <Plus className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onIgnore(line, true)} title="Ignore">
+                            <EyeOff className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                      {view === "matched" && (
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onUnmatch(line)} title="Unmatch">
+                          <Unlink className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {view === "ignored" && (
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onIgnore(line, false)} title="Restore">
+                          <Undo2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+          {lines.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+                {EMPTY_MESSAGES[view]}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from "react";
+import { Landmark, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { Account } from "@/data/ledger";
+import { createBankAccount, formatBankAmount, importStatement } from "@/data/reconciliation";
+import { parseStatementFile, STATEMENT_FORMAT_LABELS, type ParsedStatement } from "@/lib/bankStatements";
+
+interface StatementImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Bank and cash accounts the statement can belong to
+  accounts: Account[];
+  defaultAccountId: string | null;
+  onImported?: (accountId: string) => void;
+}
+
+const NEW_ACCOUNT = "new";
+
+export function StatementImportDialog({
+  open,
+  onOpenChange,
+  accounts,
+  defaultAccountId,
+  onImported,
+}: StatementImportDialogProps) {
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [accountId, setAccountId] = useState(NEW_ACCOUNT);
+  const [accountName, setAccountName] = useState("");
+  const [isParsing, setIsParsing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setStatement(null);
+    setAccountId(defaultAccountId || accounts[0]?.id || NEW_ACCOUNT);
+    setAccountName("");
+  }, [open, defaultAccountId, accounts]);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setIsParsing(true);
+    try {
+      setStatement(await parseStatementFile(file));
+    } catch (error) {
+      console.error("Error parsing bank statement:", error);
+      toast({
+        title: "Could not read statement",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!statement) return;
+    setIsSaving(true);
+    try {
+      const targetId = accountId === NEW_ACCOUNT ? (await createBankAccount(accountName)).id : accountId;
+      const result = await importStatement(statement, targetId);
+      toast({
+        title: "Statement imported",
+        description:
+          `${result.inserted} new line${result.inserted === 1 ? "" : "s"}` +
+          (result.duplicates > 0 ? `, ${result.duplicates} already imported` : ""),
+      });
+      onImported?.(targetId);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error importing bank statement:", error);
+      toast({
+        title: "Could not import statement",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const moneyIn = statement ? statement.lines.filter((l) => l.amount > 0).reduce((sum, l) => sum + l.amount, 0) : 0;
+  const moneyOut = statement ? statement.lines.filter((l) => l.amount < 0).reduce((sum, l) => sum - l.amount, 0) : 0;
+  const canImport = !!statement && (accountId !== NEW_ACCOUNT || !!accountName.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Landmark className="w-5 h-5 text-primary" />
+            Import bank statement
+          </DialogTitle>
+          <DialogDescription>
+            OFX/QFX, CAMT.053 or a CSV export from your bank. Lines already imported for the account are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div
+            className="border-2 border-dashed border-border rounded-lg p-6 flex flex-col items-center justify-center gap-2 text-center cursor-pointer hover:border-primary/50 transition-colors"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {isParsing ? (
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            ) : (
+              <Upload className="w-6 h-6 text-muted-foreground" />
+            )}
+            <p className="text-sm font-medium">{statement ? statement.fileName : "Click to choose a file"}</p>
+            <p className="text-xs text-muted-foreground">Supports .ofx, .qfx, .xml, .csv, .xlsx and .xls</p>
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileSelect}
+              className="hidden"
+              accept=".ofx,.qfx,.xml,.csv,.txt,.xlsx,.xls"
+            />
+          </div>
+
+          {statement && (
+            <div className="rounded-md border border-border/50 p-3 text-sm space-y-1">
+              <p>
+                <span className="font-medium">{STATEMENT_FORMAT_LABELS[statement.format]}</span>
+                {statement.accountNumber && <span className="text-muted-foreground"> · account {statement.accountNumber}</span>}
+                {statement.currency && <span className="text-muted-foreground"> · {statement.currency}</span>}
+              </p>
+              <p className="text-muted-foreground">
+                {statement.lines.length} lines from {statement.periodStart} to {statement.periodEnd}
+                {statement.skipped > 0 && `, ${statement.skipped} unreadable rows skipped`}
+              </p>
+              <p className="text-muted-foreground">
+                {formatBankAmount(moneyIn)} in, {formatBankAmount(moneyOut)} out
+              </p>
+              <p className="text-muted-foreground">
+                {statement.closingBalance === null
+                  ? "No closing balance in the file, so cash on hand stays on the ledger's figure."
+                  : `Closing balance ${formatBankAmount(statement.closingBalance)} on ${statement.periodEnd}`}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <Label>Bank account</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger className="h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NEW_ACCOUNT}>New bank account…</SelectItem>
+              </SelectContent>
+            </Select>
+            {accountId === NEW_ACCOUNT && (
+              <Input
+                value={accountName}
+                onChange={(e) => setAccountName(e.target.value)}
+                placeholder="Account name, e.g. Operating account"
+                aria-label="New account name"
+              />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Import {statement ? statement.lines.length : ""} lines
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatStatementAmount } from "@/lib/statements";
+import { cn } from "@/lib/utils";
+import type { ComparativeRow, ComparativeStatement } from "@shared/statements";
+
+interface StatementTableProps {
+  statement: ComparativeStatement;
+  onDrillDown?: (row: ComparativeRow, column: number) => void;
+}
+
+function formatPeriod({ start, end }: { start?: string; end: string }) {
+  return start ? `${start} – ${end}` : `to ${end}`;
+}
+
+export function StatementTable({ statement, onDrillDown }: StatementTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[45%]" />
+          {statement.columns.map((column) => (
+            <TableHead key={column.label} className="text-right align-bottom">
+              <div className="font-semibold text-foreground">{column.label}</div>
+              <div className="text-xs font-normal">
+                {statement.kind === "balance-sheet" ? `at ${column.period.end}` : formatPeriod(column.period)}
+              </div>
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {statement.rows.map((row) => {
+          if (row.kind === "section") {
+            return (
+              <TableRow key={row.id} className="hover:bg-transparent">
+                <TableCell colSpan={statement.columns.length + 1} className="pt-6 pb-2 font-semibold">
+                  {row.label}
+                </TableCell>
+              </TableRow>
+            );
+          }
+          return (
+            <TableRow
+              key={row.id}
+              className={cn(
+                row.kind === "subtotal" && "font-medium",
+                row.kind === "total" && "font-semibold bg-muted/40 border-t-2"
+              )}
+            >
+              <TableCell className={cn("py-2", row.kind === "line" && "pl-8")}>{row.label}</TableCell>
+              {row.amounts.map((amount, column) => {
+                const canDrillDown = !!onDrillDown && row.transactionIds[column].length > 0;
+                return (
+                  <TableCell key={column} className="py-2 text-right tabular-nums">
+                    {canDrillDown ? (
+                      <button
+                        type="button"
+                        className="hover:underline underline-offset-4"
+                        onClick={() => onDrillDown(row, column)}
+                        title={`Show ${row.transactionIds[column].length} transactions`}
+                      >
+                        {formatStatementAmount(amount)}
+                      </button>
+                    ) : (
+                      formatStatementAmount(amount)
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,58 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { Transaction } from "@/data/ledger";
+import { formatStatementAmount } from "@/lib/statements";
+
+interface TransactionDrilldownProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  transactions: Transaction[];
+}
+
+// The ledger rows behind a statement line
+export function TransactionDrilldown({ open, onOpenChange, title, description, transactions }: TransactionDrilldownProps) {
+  const net = transactions.reduce((sum, t) => sum + (t.type === "expense" ? -t.amount : t.amount), 0);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{title}</SheetTitle>
+          <SheetDescription>
+            {description ? `${description} · ` : ""}
+            {transactions.length} transactions, net {formatStatementAmount(net)}
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 min-h-0 mt-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map((t) => (
+                <TableRow key={t.id}>
+                  <TableCell className="whitespace-nowrap">{t.date}</TableCell>
+                  <TableCell className="max-w-[220px] truncate" title={t.description || undefined}>
+                    {t.description || t.reference || "—"}
+                  </TableCell>
+                  <TableCell>{t.category || "Uncategorized"}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatStatementAmount(t.type === "expense" ? -t.amount : t.amount)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
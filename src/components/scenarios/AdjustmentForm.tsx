@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ADJUSTMENT_LABELS,
+  ADJUSTMENT_TYPES,
+  REVENUE_CHANNELS,
+  parseAdjustments,
+  type AdjustmentType,
+  type ScenarioAdjustment,
+} from "@shared/scenarios";
+
+interface AdjustmentFormProps {
+  onAdd: (adjustment: ScenarioAdjustment) => void;
+}
+
+interface Field {
+  key: string;
+  label: string;
+  kind: "number" | "month" | "text" | "channel";
+  placeholder?: string;
+}
+
+const FIELDS: Record<AdjustmentType, Field[]> = {
+  revenue: [
+    { key: "channel", label: "Channel", kind: "channel" },
+    { key: "changePct", label: "Change %", kind: "number", placeholder: "-20" },
+    { key: "startMonth", label: "From", kind: "month" },
+    { key: "endMonth", label: "Until (optional)", kind: "month" },
+  ],
+  headcount: [
+    { key: "role", label: "Role", kind: "text", placeholder: "Sales associate" },
+    { key: "count", label: "People", kind: "number", placeholder: "2" },
+    { key: "monthlyCost", label: "Monthly cost each", kind: "number", placeholder: "4500" },
+    { key: "startMonth", label: "Start", kind: "month" },
+  ],
+  price: [
+    { key: "changePct", label: "Price change %", kind: "number", placeholder: "5" },
+    { key: "volumeChangePct", label: "Volume change %", kind: "number", placeholder: "-2" },
+    { key: "startMonth", label: "From", kind: "month" },
+  ],
+  capex: [
+    { key: "description", label: "Description", kind: "text", placeholder: "Shop fit-out" },
+    { key: "amount", label: "Amount", kind: "number", placeholder: "25000" },
+    { key: "month", label: "Month", kind: "month" },
+    { key: "usefulLifeMonths", label: "Useful life (months)", kind: "number", placeholder: "36" },
+  ],
+  loan: [
+    { key: "amount", label: "Amount", kind: "number", placeholder: "50000" },
+    { key: "month", label: "Drawdown", kind: "month" },
+    { key: "annualRatePct", label: "Annual rate %", kind: "number", placeholder: "8" },
+    { key: "termMonths", label: "Term (months)", kind: "number", placeholder: "36" },
+  ],
+};
+
+const ALL_CHANNELS = "all";
+
+function nextMonth(): string {
+  const date = new Date();
+  date.setMonth(date.getMonth() + 1, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+// Fields for one adjustment, checked with the same rules the agent's tool uses
+export function AdjustmentForm({ onAdd }: AdjustmentFormProps) {
+  const [type, setType] = useState<AdjustmentType>("revenue");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const defaultMonth = nextMonth();
+
+  const value = (field: Field) =>
+    values[field.key] ?? (field.kind === "month" && field.key !== "endMonth" ? defaultMonth : "");
+  const setValue = (key: string, next: string) => setValues((prev) => ({ ...prev, [key]: next }));
+
+  const handleAdd = () => {
+    const raw: Record<string, unknown> = { type };
+    for (const field of FIELDS[type]) {
+      const text = value(field);
+      raw[field.key] = field.kind === "channel" && text === ALL_CHANNELS ? null : text;
+    }
+    const { adjustments, errors } = parseAdjustments([raw]);
+    if (errors.length > 0) {
+      setError(errors[0].replace(/^Adjustment 1: /, ""));
+      return;
+    }
+    onAdd(adjustments[0]);
+    setValues({});
+    setError(null);
+  };
+
+  return (
+    <div className="rounded-lg border border-border/50 p-4 space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5 items-end">
+        <div className="space-y-1.5">
+          <Label>Adjustment</Label>
+          <Select
+            value={type}
+            onValueChange={(next) => {
+              setType(next as AdjustmentType);
+              setValues({});
+              setError(null);
+            }}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ADJUSTMENT_TYPES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {ADJUSTMENT_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {FIELDS[type].map((field) => (
+          <div key={field.key} className="space-y-1.5">
+            <Label htmlFor={`adjustment-${field.key}`}>{field.label}</Label>
+            {field.kind === "channel" ? (
+              <Select value={value(field) || ALL_CHANNELS} onValueChange={(next) => setValue(field.key, next)}>
+                <SelectTrigger id={`adjustment-${field.key}`} className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CHANNELS}>All channels</SelectItem>
+                  {REVENUE_CHANNELS.map((channel) => (
+                    <SelectItem key={channel} value={channel}>
+                      {channel}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={`adjustment-${field.key}`}
+                type={field.kind === "month" ? "month" : "text"}
+                inputMode={field.kind === "number" ? "decimal" : undefined}
+                value={value(field)}
+                placeholder={field.placeholder}
+                onChange={(e) => setValue(field.key, e.target.value)}
+                className="h-9"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-3">
+        <Button variant="outline" size="sm" onClick={handleAdd}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add adjustment
+        </Button>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatScenarioAmount, type Scenario } from "@/data/scenarios";
+import { chartColor } from "@/lib/chartSpec";
+import { cn } from "@/lib/utils";
+import type { ScenarioResult, ScenarioSummary } from "@shared/scenarios";
+
+interface ScenarioComparisonProps {
+  baseline: ScenarioResult;
+  scenarios: Scenario[];
+  results: Map<string, ScenarioResult>;
+  horizon: number;
+}
+
+const monthLabel = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString("en-US", { month: "short", year: "2-digit" });
+
+const ROWS: { label: string; value: (summary: ScenarioSummary, horizon: number) => string; number: (s: ScenarioSummary) => number }[] = [
+  { label: "Ending cash", value: (s) => formatScenarioAmount(s.endingCash), number: (s) => s.endingCash },
+  {
+    label: "Lowest cash",
+    value: (s) => `${formatScenarioAmount(s.lowestCash)} (${monthLabel(s.lowestMonth)})`,
+    number: (s) => s.lowestCash,
+  },
+  {
+    label: "Runway",
+    value: (s, horizon) =>
+      s.runwayMonths === null ? `${horizon}+ months` : s.runwayMonths === 0 ? "Out of cash this month" : `${s.runwayMonths} months`,
+    number: (s) => s.runwayMonths ?? Infinity,
+  },
+  { label: "Profit over horizon", value: (s) => formatScenarioAmount(s.totalProfit), number: (s) => s.totalProfit },
+];
+
+// Cash, runway and profit for the baseline and every scenario, side by side
+export function ScenarioComparison({ baseline, scenarios, results, horizon }: ScenarioComparisonProps) {
+  const columns = [
+    { id: "baseline", name: "Baseline", result: baseline },
+    ...scenarios.filter((s) => results.has(s.id)).map((s) => ({ id: s.id, name: s.name, result: results.get(s.id)! })),
+  ];
+  const data = baseline.months.map((m, i) => ({
+    month: monthLabel(m.month),
+    ...Object.fromEntries(columns.map((c) => [c.id, c.result.months[i]?.cash])),
+  }));
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader>
+        <CardTitle>Comparison</CardTitle>
+        <CardDescription>Month-end cash over the next {horizon} months, against the baseline forecast</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+            <XAxis dataKey="month" stroke="hsl(var(--muted-foreground))" style={{ fontSize: 12 }} tickLine={false} />
+            <YAxis
+              stroke="hsl(var(--muted-foreground))"
+              style={{ fontSize: 12 }}
+              tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+              tickLine={false}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "hsl(var(--card))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "var(--radius)",
+              }}
+              formatter={(value: number, name: string) => [formatScenarioAmount(value), name]}
+            />
+            <Legend />
+            <ReferenceLine y={0} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+            {columns.map((c, index) => (
+              <Line
+                key={c.id}
+                type="monotone"
+                dataKey={c.id}
+                name={c.name}
+                stroke={index === 0 ? "hsl(var(--muted-foreground))" : chartColor(undefined, index - 1)}
+                strokeWidth={2}
+                strokeDasharray={index === 0 ? "6 4" : undefined}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                {columns.map((c) => (
+                  <TableHead key={c.id} className="text-right whitespace-nowrap">
+                    {c.name}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ROWS.map((row) => (
+                <TableRow key={row.label}>
+                  <TableCell className="font-medium whitespace-nowrap">{row.label}</TableCell>
+                  {columns.map((c, index) => {
+                    const change = index === 0 ? 0 : row.number(c.result.summary) - row.number(baseline.summary);
+                    return (
+                      <TableCell
+                        key={c.id}
+                        className={cn(
+                          "text-right tabular-nums whitespace-nowrap",
+                          change > 0 && "text-success",
+                          change < 0 && "text-destructive"
+                        )}
+                      >
+                        {row.value(c.result.summary, horizon)}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
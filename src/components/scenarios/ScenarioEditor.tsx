@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Bot, Copy, Loader2, Save, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { createScenario, deleteScenario, updateScenario, type Scenario } from "@/data/scenarios";
+import { ADJUSTMENT_LABELS, describeAdjustment, type ScenarioAdjustment, type ScenarioResult } from "@shared/scenarios";
+import { AdjustmentForm } from "./AdjustmentForm";
+
+interface ScenarioEditorProps {
+  scenario: Scenario;
+  result?: ScenarioResult;
+  onSelect: (id: string | null) => void;
+}
+
+export function ScenarioEditor({ scenario, result, onSelect }: ScenarioEditorProps) {
+  const [name, setName] = useState(scenario.name);
+  const [description, setDescription] = useState(scenario.description || "");
+  const [adjustments, setAdjustments] = useState<ScenarioAdjustment[]>(scenario.adjustments);
+  const [isSaving, setIsSaving] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setName(scenario.name);
+    setDescription(scenario.description || "");
+    setAdjustments(scenario.adjustments);
+  }, [scenario]);
+
+  const dirty =
+    name !== scenario.name ||
+    description !== (scenario.description || "") ||
+    JSON.stringify(adjustments) !== JSON.stringify(scenario.adjustments);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: ["scenarios"] });
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      await updateScenario(scenario.id, { name: name.trim() || scenario.name, description: description.trim() || null, adjustments });
+      toast({ title: "Scenario saved", description: name.trim() || scenario.name });
+    }, "Could not save scenario");
+
+  const handleDuplicate = () =>
+    run(async () => {
+      const copy = await createScenario({ name: `${name.trim() || scenario.name} (copy)`, description: description.trim() || null, adjustments });
+      onSelect(copy.id);
+    }, "Could not duplicate scenario");
+
+  const handleDelete = () =>
+    run(async () => {
+      await deleteScenario(scenario.id);
+      onSelect(null);
+    }, "Could not delete scenario");
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="flex-1 min-w-[240px] space-y-2">
+          <CardTitle className="flex items-center gap-2">
+            <Input value={name} onChange={(e) => setName(e.target.value)} className="h-9 text-base font-semibold max-w-sm" aria-label="Scenario name" />
+            {scenario.source === "agent" && (
+              <Badge variant="secondary" className="gap-1 shrink-0">
+                <Bot className="w-3 h-3" />
+                From agent
+              </Badge>
+            )}
+          </CardTitle>
+          <Textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What this scenario tests"
+            rows={2}
+            className="max-w-xl"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleDuplicate} disabled={isSaving}>
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicate
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleDelete} disabled={isSaving}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!dirty || isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {adjustments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No adjustments yet, so this matches the baseline forecast. Add one below.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {adjustments.map((adjustment, index) => (
+              <li key={index} className="flex items-center justify-between gap-2 rounded-md border border-border/50 px-3 py-2 text-sm">
+                <span>
+                  <span className="text-muted-foreground">{ADJUSTMENT_LABELS[adjustment.type]}: </span>
+                  {describeAdjustment(adjustment)}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => setAdjustments((prev) => prev.filter((_, i) => i !== index))}
+                  title="Remove adjustment"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {result?.warnings.map((warning) => (
+          <p key={warning} className="text-sm text-warning">
+            {warning}
+          </p>
+        ))}
+        <AdjustmentForm onAdd={(adjustment) => setAdjustments((prev) => [...prev, adjustment])} />
+        {dirty && <p className="text-xs text-muted-foreground">Save to update the comparison.</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,23 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AnomalyDismissal = Tables<"anomaly_dismissals">;
+
+export async function fetchAnomalyDismissals(): Promise<AnomalyDismissal[]> {
+  const { data, error } = await supabase.from("anomaly_dismissals").select("*");
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// Dismissing twice keeps the first note
+export async function dismissAnomaly(key: string, note?: string): Promise<void> {
+  const { error } = await supabase
+    .from("anomaly_dismissals")
+    .upsert({ key, note: note?.trim() || null }, { onConflict: "key", ignoreDuplicates: true });
+  if (error) throw new Error(error.message);
+}
+
+export async function restoreAnomaly(key: string): Promise<void> {
+  const { error } = await supabase.from("anomaly_dismissals").delete().eq("key", key);
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,141 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { matchingPolicy, type ApprovalRequestStatus, type ApprovalSubject } from "@shared/approvals";
+import { fetchAllRows, type Bill } from "./ledger";
+
+export type ApprovalPolicyRow = Tables<"approval_policies">;
+export type ApprovalRequest = Tables<"approval_requests">;
+export type ApprovalAction = Tables<"approval_actions">;
+
+export type ApprovalPolicyDraft = Omit<TablesInsert<"approval_policies">, "id" | "created_at" | "updated_at">;
+
+export type ApprovalDecision = "approved" | "rejected";
+
+export function formatApprovalAmount(value: number) {
+  return value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+}
+
+export const SUBJECT_NOUNS: Record<ApprovalSubject, string> = {
+  bill: "Bill",
+  expense: "Expense",
+};
+
+export const REQUEST_STATUS_CLASSES: Record<ApprovalRequestStatus, string> = {
+  pending: "text-warning border-warning/50",
+  approved: "text-success border-success/40",
+  rejected: "text-destructive border-destructive/50",
+};
+
+export function fetchApprovalPolicies(): Promise<ApprovalPolicyRow[]> {
+  return fetchAllRows<ApprovalPolicyRow>((from, to) =>
+    supabase.from("approval_policies").select("*").order("priority").order("name").range(from, to)
+  );
+}
+
+export async function saveApprovalPolicy(draft: ApprovalPolicyDraft, id?: string): Promise<ApprovalPolicyRow> {
+  const row = {
+    ...draft,
+    name: draft.name.trim(),
+    category: draft.category?.trim() || null,
+    approvers: draft.approvers.map((a) => a.trim()).filter(Boolean),
+  };
+  const { data, error } = id
+    ? await supabase.from("approval_policies").update(row).eq("id", id).select("*").single()
+    : await supabase.from("approval_policies").insert(row).select("*").single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function setApprovalPolicyActive(id: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase.from("approval_policies").update({ is_active: isActive }).eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+// Requests raised under the policy keep their copy of it
+export async function deleteApprovalPolicy(id: string): Promise<void> {
+  const { error } = await supabase.from("approval_policies").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+export function fetchApprovalRequests(): Promise<ApprovalRequest[]> {
+  return fetchAllRows<ApprovalRequest>((from, to) =>
+    supabase
+      .from("approval_requests")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+}
+
+export function fetchApprovalActions(): Promise<ApprovalAction[]> {
+  return fetchAllRows<ApprovalAction>((from, to) =>
+    supabase
+      .from("approval_actions")
+      .select("*")
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+}
+
+// The request copies the policy's approvers and the spend's amount as they are now
+export async function requestApproval(
+  subject: ApprovalSubject,
+  subjectId: string,
+  policyId: string,
+  requestedBy: string | null,
+  comment?: string | null
+): Promise<ApprovalRequest> {
+  const { data, error } = await supabase.rpc("request_approval", {
+    p_subject: subject,
+    p_subject_id: subjectId,
+    p_policy_id: policyId,
+    p_requested_by: requestedBy?.trim() || "",
+    p_comment: comment?.trim() || undefined,
+  });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// The database checks it is the actor's turn; a final decision settles the bill's approval too
+export async function decideApproval(
+  requestId: string,
+  decision: ApprovalDecision,
+  actor: string,
+  comment?: string | null
+): Promise<ApprovalRequest> {
+  const { data, error } = await supabase.rpc("decide_approval", {
+    p_request_id: requestId,
+    p_decision: decision,
+    p_actor: actor,
+    p_comment: comment?.trim() || undefined,
+  });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function commentOnApproval(request: ApprovalRequest, actor: string | null, comment: string): Promise<void> {
+  const { error } = await supabase.from("approval_actions").insert({
+    request_id: request.id,
+    action: "commented",
+    step: request.current_step,
+    actor: actor?.trim() || null,
+    comment: comment.trim(),
+  });
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Raise a request for a newly entered bill if a policy covers it. Returns
+ * null when no policy applies and the bill is approved the usual way.
+ */
+export async function requestBillApprovalIfRequired(bill: Bill, requestedBy: string | null): Promise<ApprovalRequest | null> {
+  const policy = matchingPolicy(await fetchApprovalPolicies(), {
+    subject: "bill",
+    amount: Number(bill.total) || 0,
+    category: bill.category,
+    vendor_id: bill.vendor_id,
+  });
+  return policy ? requestApproval("bill", bill.id, policy.id, requestedBy) : null;
+}
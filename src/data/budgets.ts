@@ -0,0 +1,49 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import type { BudgetLine } from "@/lib/budgets";
+import { fetchAllRows } from "./ledger";
+
+export type Budget = Tables<"budgets">;
+
+export interface BudgetRange {
+  start?: string; // YYYY-MM-DD; the month it falls in is included
+  end?: string; // YYYY-MM-DD, inclusive
+}
+
+export function fetchBudgets(range: BudgetRange = {}): Promise<Budget[]> {
+  return fetchAllRows<Budget>((from, to) => {
+    let query = supabase.from("budgets").select("*");
+    if (range.start) query = query.gte("month", `${range.start.slice(0, 7)}-01`);
+    if (range.end) query = query.lte("month", range.end);
+    return query
+      .order("month", { ascending: true })
+      .order("dimension", { ascending: true })
+      .order("name", { ascending: true })
+      .range(from, to);
+  });
+}
+
+const UPSERT_CHUNK_SIZE = 500;
+
+// Lines for a month that already has a budget replace it
+export async function saveBudgets(lines: BudgetLine[]): Promise<void> {
+  const rows: TablesInsert<"budgets">[] = lines.map(({ dimension, name, month, amount }) => ({
+    dimension,
+    name,
+    month,
+    amount,
+  }));
+  for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from("budgets")
+      .upsert(rows.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: "dimension,name,month" });
+    if (error) throw new Error(error.message);
+  }
+}
+
+export async function deleteBudgets(ids: string[]): Promise<void> {
+  for (let i = 0; i < ids.length; i += UPSERT_CHUNK_SIZE) {
+    const { error } = await supabase.from("budgets").delete().in("id", ids.slice(i, i + UPSERT_CHUNK_SIZE));
+    if (error) throw new Error(error.message);
+  }
+}
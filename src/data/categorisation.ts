@@ -0,0 +1,113 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { planRecategorisation, type CategoryChange, type CategoryNames } from "@shared/categorisation";
+import {
+  fetchAccounts,
+  fetchAllRows,
+  fetchCustomers,
+  fetchTransactions,
+  fetchVendors,
+  type Account,
+  type Customer,
+  type Vendor,
+} from "./ledger";
+
+export type CategoryRule = Tables<"category_rules">;
+
+export type CategoryRuleDraft = Omit<TablesInsert<"category_rules">, "id" | "created_at" | "updated_at">;
+
+const CHANGE_CHUNK_SIZE = 500;
+
+export function buildCategoryNames(vendors: Vendor[], customers: Customer[], accounts: Account[]): CategoryNames {
+  return {
+    vendors: new Map(vendors.map((v) => [v.id, v.name])),
+    customers: new Map(customers.map((c) => [c.id, c.name])),
+    accounts: new Map(accounts.map((a) => [a.id, a.name])),
+  };
+}
+
+export function fetchCategoryRules(): Promise<CategoryRule[]> {
+  return fetchAllRows<CategoryRule>((from, to) =>
+    supabase
+      .from("category_rules")
+      .select("*")
+      .order("priority", { ascending: true })
+      .order("name", { ascending: true })
+      .range(from, to)
+  );
+}
+
+export async function saveCategoryRule(draft: CategoryRuleDraft, id?: string): Promise<CategoryRule> {
+  const row = {
+    ...draft,
+    name: draft.name.trim(),
+    category: draft.category.trim(),
+    payee_contains: draft.payee_contains?.trim() || null,
+  };
+  const { data, error } = id
+    ? await supabase.from("category_rules").update(row).eq("id", id).select("*").single()
+    : await supabase.from("category_rules").insert(row).select("*").single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function setCategoryRuleActive(id: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase.from("category_rules").update({ is_active: isActive }).eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+// Transactions the rule categorised keep their category until the next re-run
+export async function deleteCategoryRule(id: string): Promise<void> {
+  const { error } = await supabase.from("category_rules").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Set a category by hand. Hand corrections teach the learned patterns and
+ * are never changed by a re-run; clearing one keeps the row uncategorised.
+ */
+export async function setTransactionCategory(id: string, category: string | null): Promise<void> {
+  const { error } = await supabase
+    .from("transactions")
+    .update({ category: category?.trim() || null, category_source: "manual", category_rule_id: null, category_reason: null })
+    .eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+export async function applyCategoryChanges(changes: CategoryChange[]): Promise<number> {
+  let updated = 0;
+  for (let i = 0; i < changes.length; i += CHANGE_CHUNK_SIZE) {
+    const { data, error } = await supabase.rpc("apply_category_changes", {
+      p_changes: changes.slice(i, i + CHANGE_CHUNK_SIZE).map((c) => ({
+        id: c.transactionId,
+        category: c.to,
+        source: c.source,
+        rule_id: c.ruleId,
+        reason: c.reason,
+      })),
+    });
+    if (error) throw new Error(error.message);
+    updated += data || 0;
+  }
+  return updated;
+}
+
+/** Fill in categories for the uncategorised rows of one import, learning from the whole ledger. */
+export async function categoriseImport(batchId: string): Promise<number> {
+  const [transactions, rules, vendors, customers, accounts] = await Promise.all([
+    fetchTransactions(),
+    fetchCategoryRules(),
+    fetchVendors(),
+    fetchCustomers(),
+    fetchAccounts(),
+  ]);
+  const batch = new Set(transactions.filter((t) => t.import_batch_id === batchId).map((t) => t.id));
+  const changes = planRecategorisation(
+    transactions,
+    rules,
+    buildCategoryNames(vendors, customers, accounts),
+    "uncategorised",
+    batch
+  );
+  return applyCategoryChanges(changes);
+}
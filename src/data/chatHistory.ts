@@ -0,0 +1,127 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables, TablesInsert } from "@/integrations/supabase/types";
+import type { ChatMessage, UploadedFile } from "@/components/CFOChat";
+import { normalizeAgentOutput } from "@/lib/agentOutput";
+
+export type ChatThread = Tables<"chat_threads">;
+
+// What is kept of an attachment; the file itself is not stored
+export interface AttachmentMeta {
+  name: string;
+  size?: number;
+  type?: string;
+}
+
+const THREAD_COLUMNS = "id, title, pinned, session_id, last_message_at, created_at, updated_at";
+const TITLE_LENGTH = 60;
+
+// Pinned threads first, then the most recently active
+export async function fetchChatThreads(search = ""): Promise<ChatThread[]> {
+  const term = search.trim();
+  let query = supabase.from("chat_threads").select(THREAD_COLUMNS);
+
+  if (term) {
+    // Match thread titles as well as anything said in the conversation
+    const pattern = `%${term.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+    const { data: matches, error } = await supabase
+      .from("chat_messages")
+      .select("thread_id")
+      .ilike("content", pattern)
+      .limit(500);
+    if (error) throw new Error(error.message);
+    const threadIds = Array.from(new Set((matches || []).map((m) => m.thread_id)));
+    query = threadIds.length > 0
+      ? query.or(`title.ilike.${JSON.stringify(pattern)},id.in.(${threadIds.join(",")})`)
+      : query.ilike("title", pattern);
+  }
+
+  const { data, error } = await query
+    .order("pinned", { ascending: false })
+    .order("last_message_at", { ascending: false });
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export async function fetchChatThread(id: string): Promise<ChatThread | null> {
+  const { data, error } = await supabase.from("chat_threads").select(THREAD_COLUMNS).eq("id", id).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export function threadTitleFrom(text: string): string {
+  const line = text.trim().split("\n")[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : line || "New conversation";
+}
+
+export async function createChatThread(thread: { title: string; session_id: string }): Promise<ChatThread> {
+  const { data, error } = await supabase.from("chat_threads").insert(thread).select(THREAD_COLUMNS).single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function updateChatThread(id: string, patch: { title?: string; pinned?: boolean }): Promise<void> {
+  const { error } = await supabase.from("chat_threads").update(patch).eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+// Messages go with the thread (ON DELETE CASCADE)
+export async function deleteChatThread(id: string): Promise<void> {
+  const { error } = await supabase.from("chat_threads").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+function toAttachmentMeta(files: UploadedFile[]): AttachmentMeta[] {
+  return files.map((f) => ({ name: f.name, size: f.file?.size, type: f.file?.type }));
+}
+
+export async function fetchChatMessages(threadId: string): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .select("position, type, content, agent_name, visualization_data, attachments, cancelled")
+    .eq("thread_id", threadId)
+    .order("position");
+  if (error) throw new Error(error.message);
+
+  return (data || []).map((row) => {
+    const attachments = (row.attachments as unknown as AttachmentMeta[] | null) || [];
+    return {
+      type: row.type as ChatMessage["type"],
+      content: row.content,
+      agentName: row.agent_name || undefined,
+      // Older messages were saved before the output protocol existed
+      visualizationData: row.visualization_data ? normalizeAgentOutput(row.visualization_data, row.content) : undefined,
+      files: attachments.length > 0
+        ? attachments.map((a, i) => ({ id: `${threadId}-${row.position}-${i}`, name: a.name }))
+        : undefined,
+      cancelled: row.cancelled || undefined,
+    };
+  });
+}
+
+/**
+ * Store the messages of a finished turn. `startPosition` is the number of
+ * messages already saved for the thread, so positions continue from there.
+ */
+export async function appendChatMessages(threadId: string, messages: ChatMessage[], startPosition: number): Promise<void> {
+  if (messages.length === 0) return;
+
+  const rows: TablesInsert<"chat_messages">[] = messages.map((message, i) => ({
+    thread_id: threadId,
+    position: startPosition + i,
+    type: message.type,
+    content: message.content,
+    agent_name: message.agentName ?? null,
+    visualization_data: (message.visualizationData ?? null) as Json,
+    attachments: message.files?.length ? (toAttachmentMeta(message.files) as unknown as Json) : null,
+    cancelled: !!message.cancelled,
+  }));
+
+  const { error } = await supabase.from("chat_messages").insert(rows);
+  if (error) throw new Error(error.message);
+
+  const { error: touchError } = await supabase
+    .from("chat_threads")
+    .update({ last_message_at: new Date().toISOString() })
+    .eq("id", threadId);
+  if (touchError) throw new Error(touchError.message);
+}
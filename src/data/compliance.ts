@@ -0,0 +1,125 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import {
+  ACTIVE_FINDING_STATUSES,
+  evaluateCompliance,
+  type ComplianceFindingStatus,
+  type ComplianceSeverity,
+} from "@shared/compliance";
+import { fetchApprovalPolicies, fetchApprovalRequests } from "./approvals";
+import { fetchDocuments } from "./documents";
+import { fetchAllRows, fetchBills, fetchCustomers, fetchTransactions, fetchVendors } from "./ledger";
+
+export type ComplianceRuleRow = Tables<"compliance_rules">;
+export type ComplianceFinding = Tables<"compliance_findings">;
+
+export type ComplianceRuleDraft = Omit<TablesInsert<"compliance_rules">, "id" | "created_at" | "updated_at">;
+
+export interface ComplianceFindingUpdate {
+  status: ComplianceFindingStatus;
+  owner: string | null;
+  resolution_notes: string | null;
+}
+
+export interface ComplianceRunResult {
+  // Findings the active rules raise now
+  total: number;
+  opened: number;
+  // Open findings the rules no longer raise, resolved automatically
+  cleared: number;
+}
+
+export const SEVERITY_STYLES: Record<ComplianceSeverity, string> = {
+  high: "text-destructive border-destructive/40",
+  medium: "text-warning border-warning/50",
+  low: "text-muted-foreground",
+};
+
+export function fetchComplianceRules(): Promise<ComplianceRuleRow[]> {
+  return fetchAllRows<ComplianceRuleRow>((from, to) =>
+    supabase.from("compliance_rules").select("*").order("kind").order("name").range(from, to)
+  );
+}
+
+export async function saveComplianceRule(draft: ComplianceRuleDraft, id?: string): Promise<ComplianceRuleRow> {
+  const row = { ...draft, name: draft.name.trim(), category: draft.category?.trim() || null };
+  const { data, error } = id
+    ? await supabase.from("compliance_rules").update(row).eq("id", id).select("*").single()
+    : await supabase.from("compliance_rules").insert(row).select("*").single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function setComplianceRuleActive(id: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase.from("compliance_rules").update({ is_active: isActive }).eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+// Findings the rule raised stay in the register and clear on the next run
+export async function deleteComplianceRule(id: string): Promise<void> {
+  const { error } = await supabase.from("compliance_rules").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+export function fetchComplianceFindings(): Promise<ComplianceFinding[]> {
+  return fetchAllRows<ComplianceFinding>((from, to) =>
+    supabase
+      .from("compliance_findings")
+      .select("*")
+      .order("date", { ascending: false })
+      .order("key", { ascending: true })
+      .range(from, to)
+  );
+}
+
+// A hand-set status sticks: later runs refresh the finding but never reopen it
+export async function updateComplianceFinding(finding: ComplianceFinding, update: ComplianceFindingUpdate): Promise<void> {
+  const closed = !ACTIVE_FINDING_STATUSES.includes(update.status);
+  const { error } = await supabase
+    .from("compliance_findings")
+    .update({
+      status: update.status,
+      owner: update.owner?.trim() || null,
+      resolution_notes: update.resolution_notes?.trim() || null,
+      resolved_at: !closed ? null : update.status === finding.status ? finding.resolved_at : new Date().toISOString(),
+      auto_resolved: false,
+    })
+    .eq("id", finding.id);
+  if (error) throw new Error(error.message);
+}
+
+export async function recordVendorTaxForm(vendorId: string, taxId: string | null, receivedOn: string): Promise<void> {
+  const { error } = await supabase
+    .from("vendors")
+    .update({ tax_id: taxId?.trim() || null, tax_form_received_on: receivedOn })
+    .eq("id", vendorId);
+  if (error) throw new Error(error.message);
+}
+
+/** Evaluate the active rules over the whole ledger and store the findings. */
+export async function runComplianceChecks(): Promise<ComplianceRunResult> {
+  const [rules, transactions, bills, vendors, customers, documents, approvalPolicies, approvalRequests] =
+    await Promise.all([
+      fetchComplianceRules(),
+      fetchTransactions(),
+      fetchBills(),
+      fetchVendors(),
+      fetchCustomers(),
+      fetchDocuments(),
+      fetchApprovalPolicies(),
+      fetchApprovalRequests(),
+    ]);
+  const checks = evaluateCompliance(rules, {
+    transactions,
+    bills,
+    vendors,
+    customers,
+    documents,
+    approvalPolicies,
+    approvalRequests,
+  });
+  const { data, error } = await supabase.rpc("sync_compliance_findings", { p_findings: checks.map((c) => ({ ...c })) });
+  if (error) throw new Error(error.message);
+  const result = data as { opened: number; cleared: number };
+  return { total: checks.length, opened: result.opened, cleared: result.cleared };
+}
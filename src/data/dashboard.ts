@@ -0,0 +1,52 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { DashboardData } from "@shared/metrics";
+
+export type {
+  DashboardData,
+  DashboardMetrics,
+  FinancialHealth,
+  PeriodTotals,
+  Statistics,
+  TopEntities,
+  TopEntity,
+} from "@shared/metrics";
+
+export interface DashboardResponse extends DashboardData {
+  // Narrative written by the agent over the computed figures
+  commentary: string | null;
+  commentaryError: string | null;
+  sessionId: string;
+}
+
+export interface DashboardRequest {
+  sessionId?: string;
+  commentary?: boolean;
+  start?: string; // YYYY-MM-DD, inclusive
+  end?: string; // YYYY-MM-DD, inclusive
+}
+
+// Figures are computed by the dashboard-metrics function from the ledger tables
+export async function fetchDashboardData(request: DashboardRequest = {}): Promise<DashboardResponse> {
+  const params = new URLSearchParams();
+  if (request.sessionId) params.set("sessionId", request.sessionId);
+  if (request.commentary) params.set("commentary", "true");
+  if (request.start) params.set("start", request.start);
+  if (request.end) params.set("end", request.end);
+  const query = params.toString();
+
+  const { data, error } = await supabase.functions.invoke<DashboardResponse & { error?: string }>(
+    query ? `dashboard-metrics?${query}` : "dashboard-metrics",
+    { method: "GET" }
+  );
+  if (error) {
+    // Surface the function's own error message rather than "non-2xx status code"
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw new Error(error.message);
+  }
+  if (!data || data.error) throw new Error(data?.error || "Dashboard metrics returned no data");
+  return data;
+}
@@ -0,0 +1,269 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { CategoryDecision } from "@shared/categorisation";
+import { extractInvoice, suggestDraftTarget, type ExtractedInvoice, type ExtractedLine } from "@shared/invoiceExtraction";
+import { documentUrl, uploadDocument, type VaultDocument } from "./documents";
+import { fetchAllRows, upsertNamed } from "./ledger";
+import { createBill } from "./payables";
+
+export type DocumentDraft = Tables<"document_drafts">;
+export type DraftTarget = DocumentDraft["target"];
+
+export type { ExtractedInvoice, ExtractedLine } from "@shared/invoiceExtraction";
+
+// The fields a reviewer confirms or corrects before posting
+export interface DraftReview {
+  target: DraftTarget;
+  vendor_name: string;
+  invoice_number: string;
+  issue_date: string;
+  due_date: string;
+  subtotal: number | null;
+  tax: number | null;
+  total: number;
+  category: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** PDFs and e-invoice XML can be read; images and other files cannot. */
+export function isExtractable(file: Pick<File, "name" | "type">): boolean {
+  return /\.(pdf|xml)$/i.test(file.name) || file.type === "application/pdf" || /xml/.test(file.type);
+}
+
+/** An amount in the document's own currency; unknown codes fall back to a plain number. */
+export function formatDraftAmount(value: number | null, currency: string | null): string {
+  if (value === null) return "—";
+  try {
+    return Number(value).toLocaleString("en-US", { style: "currency", currency: currency || "USD" });
+  } catch {
+    return `${Number(value).toFixed(2)} ${currency}`;
+  }
+}
+
+export const draftLines = (draft: DocumentDraft): ExtractedLine[] =>
+  Array.isArray(draft.lines) ? (draft.lines as unknown as ExtractedLine[]) : [];
+
+export function fetchDocumentDrafts(): Promise<DocumentDraft[]> {
+  return fetchAllRows<DocumentDraft>((from, to) =>
+    supabase.from("document_drafts").select("*").order("created_at", { ascending: false }).order("id").range(from, to)
+  );
+}
+
+/**
+ * Read an invoice or receipt. XML is parsed here; PDFs go to the
+ * extract-document function, which also finds Factur-X XML inside them.
+ */
+export async function extractDocument(file: File): Promise<ExtractedInvoice> {
+  if (/\.xml$/i.test(file.name) || /xml/.test(file.type)) {
+    const extraction = extractInvoice({ xml: await file.text() });
+    if (!extraction) throw new Error("Not a UBL or Factur-X/ZUGFeRD invoice");
+    return extraction;
+  }
+
+  const body = new FormData();
+  body.append("file", file);
+  const { data, error } = await supabase.functions.invoke<{ extraction?: ExtractedInvoice; error?: string }>(
+    "extract-document",
+    { body }
+  );
+  if (error) {
+    // Surface the function's own error message rather than "non-2xx status code"
+    if (error instanceof FunctionsHttpError) {
+      const response = await error.context.json().catch(() => null);
+      if (response?.error) throw new Error(response.error);
+    }
+    throw new Error(error.message);
+  }
+  if (!data?.extraction) throw new Error(data?.error || "Nothing could be read from the document");
+  return data.extraction;
+}
+
+async function insertDraft(extraction: ExtractedInvoice, documentId: string | null): Promise<DocumentDraft> {
+  const { data, error } = await supabase
+    .from("document_drafts")
+    .insert({
+      document_id: documentId,
+      target: suggestDraftTarget(extraction),
+      source_format: extraction.format,
+      document_type: extraction.documentType,
+      invoice_number: extraction.invoiceNumber,
+      vendor_name: extraction.vendorName,
+      vendor_tax_id: extraction.vendorTaxId,
+      issue_date: extraction.issueDate,
+      due_date: extraction.dueDate,
+      currency: extraction.currency,
+      subtotal: extraction.subtotal,
+      tax: extraction.tax,
+      total: extraction.total,
+      lines: extraction.lines as unknown as Json,
+      warnings: extraction.warnings,
+    })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/** Queue a draft read from `file`, which is already in the vault as `document`. */
+export async function draftFromFile(file: File, document: VaultDocument): Promise<DocumentDraft> {
+  return insertDraft(await extractDocument(file), document.id);
+}
+
+/** Queue a draft for a vault document, fetching the stored file. */
+export async function draftFromDocument(document: VaultDocument): Promise<DocumentDraft> {
+  const response = await fetch(await documentUrl(document));
+  if (!response.ok) throw new Error(`Could not read ${document.file_name} (${response.status})`);
+  const file = new File([await response.blob()], document.file_name, { type: document.content_type || "" });
+  return draftFromFile(file, document);
+}
+
+/**
+ * Store a file in the vault and queue the draft read from it. Unreadable
+ * files fail before anything is stored.
+ */
+export async function importDocumentForReview(
+  file: File,
+  uploadedBy: string | null
+): Promise<{ document: VaultDocument; draft: DocumentDraft }> {
+  const extraction = await extractDocument(file);
+  const document = await uploadDocument(
+    file,
+    {
+      kind: extraction.documentType === "receipt" ? "receipt" : "invoice",
+      notes: null,
+      transaction_id: null,
+      vendor_id: null,
+      invoice_id: null,
+      bill_id: null,
+    },
+    uploadedBy
+  );
+  return { document, draft: await insertDraft(extraction, document.id) };
+}
+
+export async function saveDocumentDraft(id: string, review: DraftReview): Promise<void> {
+  const { error } = await supabase
+    .from("document_drafts")
+    .update({
+      target: review.target,
+      vendor_name: review.vendor_name.trim() || null,
+      invoice_number: review.invoice_number.trim() || null,
+      issue_date: review.issue_date || null,
+      due_date: review.due_date || null,
+      subtotal: review.subtotal,
+      tax: review.tax,
+      total: review.total,
+      category: review.category.trim() || null,
+    })
+    .eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+/** What stops a reviewed draft from posting, or null when it can. */
+export function draftReviewError(draft: DocumentDraft, review: DraftReview): string | null {
+  if (!review.vendor_name.trim()) return "Enter the vendor";
+  if (!review.issue_date) return "Enter the document date";
+  if (!(review.total > 0)) return "Enter a total above zero";
+  if (review.target === "bill") {
+    if (draft.document_type === "credit_note") return "A credit note posts as a transaction, not a bill";
+    if (!review.invoice_number.trim()) return "A bill needs the invoice number";
+    if (!review.due_date) return "A bill needs a due date";
+    if (review.due_date < review.issue_date) return "The due date is before the issue date";
+  }
+  return null;
+}
+
+/**
+ * Post a reviewed draft to the ledger: a bill (which then waits for approval
+ * like any other) or a paid transaction, with the source document attached.
+ * Credit notes post as income, the refund from the vendor.
+ */
+export async function postDocumentDraft(
+  draft: DocumentDraft,
+  review: DraftReview,
+  reviewedBy: string | null,
+  // The engine's category for this draft; keeping it records the rule or pattern behind it
+  suggestion: CategoryDecision | null = null
+): Promise<void> {
+  const problem = draftReviewError(draft, review);
+  if (problem) throw new Error(problem);
+  await saveDocumentDraft(draft.id, review);
+
+  // Claim the draft first so two reviewers cannot post it twice
+  const { data: claimed, error: claimError } = await supabase
+    .from("document_drafts")
+    .update({ status: "posted", reviewed_by: reviewedBy, reviewed_at: new Date().toISOString() })
+    .eq("id", draft.id)
+    .eq("status", "pending")
+    .select("id");
+  if (claimError) throw new Error(claimError.message);
+  if (!claimed || claimed.length === 0) throw new Error("This draft has already been reviewed");
+
+  const vendor = review.vendor_name.trim();
+  const category = review.category.trim() || null;
+  let link: { transaction_id?: string; bill_id?: string; vendor_id: string | null };
+  try {
+    if (review.target === "bill") {
+      const bill = await createBill({
+        bill_number: review.invoice_number,
+        vendor,
+        issue_date: review.issue_date,
+        terms_days: Math.round((Date.parse(review.due_date) - Date.parse(review.issue_date)) / DAY_MS),
+        due_date: review.due_date,
+        discount_percent: 0,
+        discount_days: null,
+        total: review.total,
+        category,
+        notes: draftLines(draft)
+          .map((l) => l.description)
+          .join("; ") || null,
+        entered_by: reviewedBy,
+      });
+      link = { bill_id: bill.id, vendor_id: bill.vendor_id };
+    } else {
+      const vendorIds = await upsertNamed("vendors", [vendor]);
+      const fromSuggestion = !!category && suggestion?.category === category;
+      const { data, error } = await supabase
+        .from("transactions")
+        .insert({
+          date: review.issue_date,
+          amount: review.total,
+          type: draft.document_type === "credit_note" ? "income" : "expense",
+          category,
+          category_source: category ? (fromSuggestion ? suggestion.source : "manual") : null,
+          category_rule_id: fromSuggestion ? suggestion.ruleId : null,
+          category_reason: fromSuggestion ? suggestion.reason : null,
+          description: vendor,
+          reference: review.invoice_number.trim() || null,
+          vendor_id: vendorIds.get(vendor) ?? null,
+        })
+        .select("id, vendor_id")
+        .single();
+      if (error) throw new Error(error.message);
+      link = { transaction_id: data.id, vendor_id: data.vendor_id };
+    }
+  } catch (postError) {
+    await supabase.from("document_drafts").update({ status: "pending", reviewed_by: null, reviewed_at: null }).eq("id", draft.id);
+    throw postError;
+  }
+
+  const { transaction_id = null, bill_id = null } = link;
+  const { error } = await supabase.from("document_drafts").update({ transaction_id, bill_id }).eq("id", draft.id);
+  if (error) throw new Error(error.message);
+  if (draft.document_id) {
+    const { error: linkError } = await supabase.from("documents").update(link).eq("id", draft.document_id);
+    if (linkError) throw new Error(linkError.message);
+  }
+}
+
+/** Drop a draft without posting; the document stays in the vault. */
+export async function discardDocumentDraft(id: string, reviewedBy: string | null): Promise<void> {
+  const { error } = await supabase
+    .from("document_drafts")
+    .update({ status: "discarded", reviewed_by: reviewedBy, reviewed_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", "pending");
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { documentStore } from "@/lib/documentStore";
+import { createImageThumbnail } from "@/lib/imageThumbnail";
+import { fetchAllRows } from "./ledger";
+
+export type VaultDocument = Tables<"documents">;
+
+// The records a document can support; any may be empty
+export interface DocumentLinks {
+  transaction_id: string | null;
+  vendor_id: string | null;
+  invoice_id: string | null;
+  bill_id: string | null;
+}
+
+export interface DocumentDetails extends DocumentLinks {
+  kind: VaultDocument["kind"];
+  notes: string | null;
+}
+
+export function fetchDocuments(): Promise<VaultDocument[]> {
+  return fetchAllRows<VaultDocument>((from, to) =>
+    supabase.from("documents").select("*").order("created_at", { ascending: false }).order("id").range(from, to)
+  );
+}
+
+export async function uploadDocument(file: File, details: DocumentDetails, uploadedBy: string | null): Promise<VaultDocument> {
+  const path = `${crypto.randomUUID()}-${file.name.replace(/[^\w.-]+/g, "_")}`;
+  const thumbnail = await createImageThumbnail(file);
+  await documentStore.upload(path, file);
+
+  const { data, error } = await supabase
+    .from("documents")
+    .insert({
+      ...details,
+      notes: details.notes?.trim() || null,
+      file_name: file.name,
+      storage_path: path,
+      content_type: file.type || null,
+      size_bytes: file.size,
+      thumbnail,
+      uploaded_by: uploadedBy,
+    })
+    .select("*")
+    .single();
+  if (error) {
+    await documentStore.remove([path]);
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+export async function updateDocument(id: string, details: DocumentDetails): Promise<void> {
+  const { error } = await supabase
+    .from("documents")
+    .update({ ...details, notes: details.notes?.trim() || null })
+    .eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+export function documentUrl(document: VaultDocument): Promise<string> {
+  return documentStore.downloadUrl(document.storage_path, document.file_name);
+}
+
+export async function deleteDocument(document: VaultDocument): Promise<void> {
+  await documentStore.remove([document.storage_path]);
+  const { error } = await supabase.from("documents").delete().eq("id", document.id);
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,31 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { ColumnMapping } from "@/lib/ledgerImport";
+
+export interface ImportPreset {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+}
+
+export async function fetchImportPresets(): Promise<ImportPreset[]> {
+  const { data, error } = await supabase.from("import_presets").select("id, name, mapping").order("name");
+  if (error) throw new Error(error.message);
+  return (data || []).map((row) => ({ ...row, mapping: row.mapping as unknown as ColumnMapping }));
+}
+
+// Saving under an existing name replaces that preset
+export async function saveImportPreset(name: string, mapping: ColumnMapping): Promise<ImportPreset> {
+  const { data, error } = await supabase
+    .from("import_presets")
+    .upsert({ name, mapping: mapping as unknown as Json }, { onConflict: "name" })
+    .select("id, name, mapping")
+    .single();
+  if (error) throw new Error(error.message);
+  return { ...data, mapping: data.mapping as unknown as ColumnMapping };
+}
+
+export async function deleteImportPreset(id: string): Promise<void> {
+  const { error } = await supabase.from("import_presets").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
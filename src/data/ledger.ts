@@ -0,0 +1,153 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import type { ImportRecord } from "@/lib/ledgerImport";
+
+export type Account = Tables<"accounts">;
+export type Vendor = Tables<"vendors">;
+export type Customer = Tables<"customers">;
+export type Invoice = Tables<"invoices">;
+export type Bill = Tables<"bills">;
+export type BankStatement = Tables<"bank_statements">;
+export type Transaction = Tables<"transactions">;
+
+export interface Ledger {
+  accounts: Account[];
+  vendors: Vendor[];
+  customers: Customer[];
+  invoices: Invoice[];
+  bills: Bill[];
+  statements: BankStatement[];
+  transactions: Transaction[];
+}
+
+export interface LedgerRange {
+  start?: string; // YYYY-MM-DD, inclusive
+  end?: string; // YYYY-MM-DD, inclusive
+}
+
+// PostgREST caps a single response at 1000 rows, so page through larger tables
+const PAGE_SIZE = 1000;
+
+export async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+export function fetchTransactions(range: LedgerRange = {}): Promise<Transaction[]> {
+  return fetchAllRows<Transaction>((from, to) => {
+    let query = supabase.from("transactions").select("*");
+    if (range.start) query = query.gte("date", range.start);
+    if (range.end) query = query.lte("date", range.end);
+    return query.order("date", { ascending: true }).order("id", { ascending: true }).range(from, to);
+  });
+}
+
+export function fetchInvoices(): Promise<Invoice[]> {
+  return fetchAllRows<Invoice>((from, to) =>
+    supabase.from("invoices").select("*").order("issue_date", { ascending: true }).range(from, to)
+  );
+}
+
+export function fetchBills(): Promise<Bill[]> {
+  return fetchAllRows<Bill>((from, to) =>
+    supabase.from("bills").select("*").order("issue_date", { ascending: true }).range(from, to)
+  );
+}
+
+export function fetchBankStatements(): Promise<BankStatement[]> {
+  return fetchAllRows<BankStatement>((from, to) =>
+    supabase.from("bank_statements").select("*").order("period_end", { ascending: true }).range(from, to)
+  );
+}
+
+export async function fetchAccounts(): Promise<Account[]> {
+  const { data, error } = await supabase.from("accounts").select("*").order("code", { ascending: true });
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export function fetchVendors(): Promise<Vendor[]> {
+  return fetchAllRows<Vendor>((from, to) =>
+    supabase.from("vendors").select("*").order("name", { ascending: true }).range(from, to)
+  );
+}
+
+export function fetchCustomers(): Promise<Customer[]> {
+  return fetchAllRows<Customer>((from, to) =>
+    supabase.from("customers").select("*").order("name", { ascending: true }).range(from, to)
+  );
+}
+
+// Load the whole ledger in one go
+export async function fetchLedger(range: LedgerRange = {}): Promise<Ledger> {
+  const [accounts, vendors, customers, invoices, bills, statements, transactions] = await Promise.all([
+    fetchAccounts(),
+    fetchVendors(),
+    fetchCustomers(),
+    fetchInvoices(),
+    fetchBills(),
+    fetchBankStatements(),
+    fetchTransactions(range),
+  ]);
+  return { accounts, vendors, customers, invoices, bills, statements, transactions };
+}
+
+// Find or create named entities, returning a name -> id lookup
+export async function upsertNamed(table: "vendors" | "customers", names: string[]): Promise<Map<string, string>> {
+  const lookup = new Map<string, string>();
+  const unique = Array.from(new Set(names));
+  if (unique.length === 0) return lookup;
+  const { data, error } = await supabase
+    .from(table)
+    .upsert(unique.map((name) => ({ name })), { onConflict: "name" })
+    .select("id, name");
+  if (error) throw new Error(error.message);
+  for (const row of data || []) lookup.set(row.name, row.id);
+  return lookup;
+}
+
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Load validated import records into the ledger, creating vendors and
+ * customers on the fly. Every row is tagged with one import batch id.
+ */
+export async function importTransactions(records: ImportRecord[]): Promise<{ batchId: string; inserted: number }> {
+  const batchId = crypto.randomUUID();
+  const vendorIds = await upsertNamed("vendors", records.map((r) => r.vendor).filter(Boolean) as string[]);
+  const customerIds = await upsertNamed("customers", records.map((r) => r.customer).filter(Boolean) as string[]);
+
+  const rows: TablesInsert<"transactions">[] = records.map((r) => ({
+    date: r.date,
+    transaction_time: r.time,
+    amount: r.amount,
+    type: r.type,
+    category: r.category,
+    channel: r.channel,
+    department: r.department,
+    description: r.description,
+    reference: r.reference,
+    vendor_id: r.vendor ? vendorIds.get(r.vendor) ?? null : null,
+    customer_id: r.customer ? customerIds.get(r.customer) ?? null : null,
+    import_batch_id: batchId,
+  }));
+
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    const { error } = await supabase.from("transactions").insert(rows.slice(i, i + INSERT_CHUNK_SIZE));
+    if (error) {
+      // Roll back whatever part of the batch made it in
+      await supabase.from("transactions").delete().eq("import_batch_id", batchId);
+      throw new Error(error.message);
+    }
+  }
+
+  return { batchId, inserted: rows.length };
+}
@@ -0,0 +1,184 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import type { DeadlineStatus } from "@shared/obligations";
+import { fetchAllRows } from "./ledger";
+
+export type ComplianceObligation = Tables<"compliance_obligations">;
+export type ComplianceFiling = Tables<"compliance_filings">;
+export type ComplianceEvidence = Tables<"compliance_evidence">;
+
+export type ObligationDraft = Omit<TablesInsert<"compliance_obligations">, "id" | "created_at" | "updated_at">;
+
+export interface FilingUpdate {
+  status: ComplianceFiling["status"];
+  assignee: string | null;
+  completed_steps: string[];
+  notes: string | null;
+}
+
+export const DEADLINE_STATUS_CLASSES: Record<DeadlineStatus, string> = {
+  overdue: "text-destructive border-destructive/40",
+  due_soon: "text-warning border-warning/50",
+  upcoming: "",
+  in_progress: "text-primary border-primary/40",
+  completed: "text-success border-success/40",
+  not_required: "text-muted-foreground",
+};
+
+// "in 12 days", "today" or "3 days late"
+export function describeDaysUntil(days: number) {
+  if (days === 0) return "today";
+  if (days > 0) return `in ${days} day${days === 1 ? "" : "s"}`;
+  return `${-days} day${days === -1 ? "" : "s"} late`;
+}
+
+const EVIDENCE_BUCKET = "compliance-evidence";
+
+// Signed download links only need to outlive the click that asked for them
+const EVIDENCE_URL_SECONDS = 60;
+
+export function fetchObligations(): Promise<ComplianceObligation[]> {
+  return fetchAllRows<ComplianceObligation>((from, to) =>
+    supabase.from("compliance_obligations").select("*").order("name").range(from, to)
+  );
+}
+
+export async function saveObligation(draft: ObligationDraft, id?: string): Promise<ComplianceObligation> {
+  const row = {
+    ...draft,
+    name: draft.name.trim(),
+    reference: draft.reference?.trim() || null,
+    authority: draft.authority?.trim() || null,
+    description: draft.description?.trim() || null,
+    assignee: draft.assignee?.trim() || null,
+    checklist: (draft.checklist || []).map((step) => step.trim()).filter(Boolean),
+  };
+  const { data, error } = id
+    ? await supabase.from("compliance_obligations").update(row).eq("id", id).select("*").single()
+    : await supabase.from("compliance_obligations").insert(row).select("*").single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function setObligationActive(id: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase.from("compliance_obligations").update({ is_active: isActive }).eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+// Filings and evidence records go with it; the files are removed first
+export async function deleteObligation(id: string): Promise<void> {
+  const { data: evidence, error: evidenceError } = await supabase
+    .from("compliance_evidence")
+    .select("storage_path, compliance_filings!inner(obligation_id)")
+    .eq("compliance_filings.obligation_id", id);
+  if (evidenceError) throw new Error(evidenceError.message);
+  if (evidence && evidence.length > 0) {
+    const { error: removeError } = await supabase.storage.from(EVIDENCE_BUCKET).remove(evidence.map((e) => e.storage_path));
+    if (removeError) throw new Error(removeError.message);
+  }
+  const { error } = await supabase.from("compliance_obligations").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+export function fetchFilings(): Promise<ComplianceFiling[]> {
+  return fetchAllRows<ComplianceFiling>((from, to) =>
+    supabase.from("compliance_filings").select("*").order("due_date", { ascending: false }).order("id").range(from, to)
+  );
+}
+
+export function fetchEvidence(): Promise<ComplianceEvidence[]> {
+  return fetchAllRows<ComplianceEvidence>((from, to) =>
+    supabase.from("compliance_evidence").select("*").order("created_at").order("id").range(from, to)
+  );
+}
+
+/** The filing for one deadline, created in progress if work has not started. */
+export async function ensureFiling(obligationId: string, dueDate: string): Promise<ComplianceFiling> {
+  const { error } = await supabase
+    .from("compliance_filings")
+    .upsert({ obligation_id: obligationId, due_date: dueDate }, { onConflict: "obligation_id,due_date", ignoreDuplicates: true });
+  if (error) throw new Error(error.message);
+  const { data, error: selectError } = await supabase
+    .from("compliance_filings")
+    .select("*")
+    .eq("obligation_id", obligationId)
+    .eq("due_date", dueDate)
+    .single();
+  if (selectError) throw new Error(selectError.message);
+  return data;
+}
+
+/**
+ * Record progress on a deadline. Completing it stamps who and when (kept
+ * while it stays completed); moving it back to in progress clears the stamp.
+ */
+export async function saveFiling(
+  obligationId: string,
+  dueDate: string,
+  update: FilingUpdate,
+  completedBy: string | null,
+  previous: Pick<ComplianceFiling, "status" | "completed_at" | "completed_by"> | null = null
+): Promise<ComplianceFiling> {
+  const completed = update.status === "completed";
+  const stillCompleted = completed && previous?.status === "completed";
+  const { data, error } = await supabase
+    .from("compliance_filings")
+    .upsert(
+      {
+        obligation_id: obligationId,
+        due_date: dueDate,
+        status: update.status,
+        assignee: update.assignee?.trim() || null,
+        completed_steps: update.completed_steps,
+        notes: update.notes?.trim() || null,
+        completed_at: stillCompleted ? previous.completed_at : completed ? new Date().toISOString() : null,
+        completed_by: stillCompleted ? previous.completed_by : completed ? completedBy?.trim() || null : null,
+      },
+      { onConflict: "obligation_id,due_date" }
+    )
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function uploadEvidence(filingId: string, file: File, uploadedBy: string | null): Promise<ComplianceEvidence> {
+  const path = `${filingId}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]+/g, "_")}`;
+  const { error: uploadError } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined });
+  if (uploadError) throw new Error(uploadError.message);
+
+  const { data, error } = await supabase
+    .from("compliance_evidence")
+    .insert({
+      filing_id: filingId,
+      file_name: file.name,
+      storage_path: path,
+      content_type: file.type || null,
+      size_bytes: file.size,
+      uploaded_by: uploadedBy,
+    })
+    .select("*")
+    .single();
+  if (error) {
+    await supabase.storage.from(EVIDENCE_BUCKET).remove([path]);
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+export async function evidenceUrl(evidence: ComplianceEvidence): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .createSignedUrl(evidence.storage_path, EVIDENCE_URL_SECONDS, { download: evidence.file_name });
+  if (error) throw new Error(error.message);
+  return data.signedUrl;
+}
+
+export async function deleteEvidence(evidence: ComplianceEvidence): Promise<void> {
+  const { error: removeError } = await supabase.storage.from(EVIDENCE_BUCKET).remove([evidence.storage_path]);
+  if (removeError) throw new Error(removeError.message);
+  const { error } = await supabase.from("compliance_evidence").delete().eq("id", evidence.id);
+  if (error) throw new Error(error.message);
+}
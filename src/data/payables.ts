@@ -0,0 +1,104 @@
+import { supabase } from "@/integrations/supabase/client";
+import { upsertNamed, type Bill } from "./ledger";
+
+export type BillApprovalStatus = Bill["approval_status"];
+
+export interface BillDraft {
+  bill_number: string;
+  // Vendor name; a new name creates the vendor
+  vendor: string;
+  issue_date: string;
+  terms_days: number;
+  due_date: string;
+  discount_percent: number;
+  discount_days: number | null;
+  total: number;
+  category?: string | null;
+  notes?: string | null;
+  entered_by?: string | null;
+}
+
+export interface BillPaymentDraft {
+  billId: string;
+  amount: number;
+  date: string;
+  accountId?: string | null;
+  reference?: string | null;
+  takeDiscount?: boolean;
+}
+
+export const APPROVAL_LABELS: Record<BillApprovalStatus, string> = {
+  pending: "Awaiting approval",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export function formatPayableAmount(value: number) {
+  return value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+}
+
+/** Enter a bill; it waits for approval before it can be paid. */
+export async function createBill(draft: BillDraft): Promise<Bill> {
+  const name = draft.vendor.trim();
+  const vendorIds = name ? await upsertNamed("vendors", [name]) : new Map<string, string>();
+  const { data, error } = await supabase
+    .from("bills")
+    .insert({
+      bill_number: draft.bill_number.trim(),
+      vendor_id: vendorIds.get(name) ?? null,
+      issue_date: draft.issue_date,
+      terms_days: draft.terms_days,
+      due_date: draft.due_date,
+      discount_percent: draft.discount_percent,
+      discount_days: draft.discount_percent > 0 ? draft.discount_days : null,
+      total: draft.total,
+      category: draft.category || null,
+      notes: draft.notes || null,
+      entered_by: draft.entered_by?.trim() || null,
+    })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function setBillApproval(id: string, approval: BillApprovalStatus, approvedBy?: string | null): Promise<void> {
+  const approved = approval === "approved";
+  const { error } = await supabase
+    .from("bills")
+    .update({
+      approval_status: approval,
+      approved_at: approved ? new Date().toISOString() : null,
+      approved_by: approved ? approvedBy?.trim() || null : null,
+    })
+    .eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+// Plan payment dates; a null date puts the bill back on its due date
+export async function scheduleBills(schedule: { billId: string; date: string | null }[]): Promise<void> {
+  const results = await Promise.all(
+    schedule.map(({ billId, date }) => supabase.from("bills").update({ scheduled_date: date }).eq("id", billId))
+  );
+  const failed = results.find((r) => r.error);
+  if (failed?.error) throw new Error(failed.error.message);
+}
+
+// The payment transaction and the bill's paid amount and status are updated together
+export async function recordBillPayment(payment: BillPaymentDraft): Promise<Bill> {
+  const { data, error } = await supabase.rpc("record_bill_payment", {
+    p_bill_id: payment.billId,
+    p_amount: payment.amount,
+    p_date: payment.date,
+    p_account_id: payment.accountId || undefined,
+    p_reference: payment.reference || undefined,
+    p_take_discount: payment.takeDiscount || undefined,
+  });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function voidBill(id: string): Promise<void> {
+  const { error } = await supabase.from("bills").update({ status: "void", scheduled_date: null }).eq("id", id);
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,128 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { invoiceOutstanding } from "@shared/metrics";
+import { upsertNamed, type Invoice, type Transaction } from "./ledger";
+
+export type InvoiceLine = Tables<"invoice_lines">;
+
+export interface InvoiceLineDraft {
+  description: string;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface InvoiceDraft {
+  invoice_number: string;
+  // Customer name; a new name creates the customer
+  customer: string;
+  issue_date: string;
+  due_date: string;
+  notes?: string | null;
+  lines: InvoiceLineDraft[];
+}
+
+export interface PaymentDraft {
+  invoiceId: string;
+  amount: number;
+  date: string;
+  accountId?: string | null;
+  reference?: string | null;
+}
+
+export const lineAmount = (line: InvoiceLineDraft) => Math.round(line.quantity * line.unit_price * 100) / 100;
+
+export function formatReceivableAmount(value: number) {
+  return value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+}
+
+export type InvoiceDisplayStatus = Invoice["status"] | "overdue";
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceDisplayStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_paid: "Part paid",
+  paid: "Paid",
+  void: "Void",
+  overdue: "Overdue",
+};
+
+// Sent and part-paid invoices past their due date show as overdue
+export function invoiceDisplayStatus(invoice: Invoice, asOf: string): InvoiceDisplayStatus {
+  return invoiceOutstanding(invoice) > 0 && invoice.due_date < asOf ? "overdue" : invoice.status;
+}
+
+export async function fetchInvoiceLines(invoiceId: string): Promise<InvoiceLine[]> {
+  const { data, error } = await supabase
+    .from("invoice_lines")
+    .select("*")
+    .eq("invoice_id", invoiceId)
+    .order("position", { ascending: true });
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// Payments are income transactions linked to the invoice
+export async function fetchInvoicePayments(invoiceId: string): Promise<Transaction[]> {
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("*")
+    .eq("invoice_id", invoiceId)
+    .eq("type", "income")
+    .order("date", { ascending: true });
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+/** Create a sent invoice with its line items; the total is the sum of the lines. */
+export async function createInvoice(draft: InvoiceDraft): Promise<Invoice> {
+  const name = draft.customer.trim();
+  const customerIds = name ? await upsertNamed("customers", [name]) : new Map<string, string>();
+  const total = Math.round(draft.lines.reduce((sum, line) => sum + lineAmount(line), 0) * 100) / 100;
+
+  const { data: invoice, error } = await supabase
+    .from("invoices")
+    .insert({
+      invoice_number: draft.invoice_number.trim(),
+      customer_id: customerIds.get(name) ?? null,
+      issue_date: draft.issue_date,
+      due_date: draft.due_date,
+      total,
+      notes: draft.notes || null,
+    })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+
+  const rows: TablesInsert<"invoice_lines">[] = draft.lines.map((line, position) => ({
+    invoice_id: invoice.id,
+    position,
+    description: line.description,
+    quantity: line.quantity,
+    unit_price: line.unit_price,
+  }));
+  const { error: linesError } = await supabase.from("invoice_lines").insert(rows);
+  if (linesError) {
+    // Without its lines the invoice is incomplete, so take it back out
+    await supabase.from("invoices").delete().eq("id", invoice.id);
+    throw new Error(linesError.message);
+  }
+  return invoice;
+}
+
+// The payment transaction and the invoice's paid amount and status are updated together
+export async function recordInvoicePayment(payment: PaymentDraft): Promise<Invoice> {
+  const { data, error } = await supabase.rpc("record_invoice_payment", {
+    p_invoice_id: payment.invoiceId,
+    p_amount: payment.amount,
+    p_date: payment.date,
+    p_account_id: payment.accountId || undefined,
+    p_reference: payment.reference || undefined,
+  });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function voidInvoice(id: string): Promise<void> {
+  const { error } = await supabase.from("invoices").update({ status: "void" }).eq("id", id);
+  if (error) throw new Error(error.message);
+}
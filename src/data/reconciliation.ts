@@ -0,0 +1,136 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import type { ParsedStatement } from "@/lib/bankStatements";
+import type { MatchTarget } from "@shared/reconciliation";
+import { fetchAllRows, type Account, type BankStatement } from "./ledger";
+
+export type BankLine = Tables<"bank_statement_lines">;
+
+export interface StatementImportResult {
+  statement: BankStatement;
+  inserted: number;
+  // Lines already loaded from an earlier, overlapping statement
+  duplicates: number;
+}
+
+// Statement lines are checked to the cent, unlike the rounded report figures
+export function formatBankAmount(value: number) {
+  return value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+const INSERT_CHUNK_SIZE = 500;
+
+export function fetchBankLines(accountId: string): Promise<BankLine[]> {
+  return fetchAllRows<BankLine>((from, to) =>
+    supabase
+      .from("bank_statement_lines")
+      .select("*")
+      .eq("account_id", accountId)
+      .order("date", { ascending: false })
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+}
+
+/** A bank account to import statements into, for ledgers that have none yet. */
+export async function createBankAccount(name: string): Promise<Account> {
+  const { data, error } = await supabase
+    .from("accounts")
+    .insert({ name: name.trim(), type: "asset", subtype: "bank" })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/**
+ * Save a parsed statement against a bank account. Lines the account already
+ * has (same bank id) are skipped, so they keep their reconciliation.
+ */
+export async function importStatement(parsed: ParsedStatement, accountId: string): Promise<StatementImportResult> {
+  const { data: statement, error } = await supabase
+    .from("bank_statements")
+    .insert({
+      account_id: accountId,
+      format: parsed.format,
+      file_name: parsed.fileName,
+      account_number: parsed.accountNumber,
+      currency: parsed.currency,
+      period_start: parsed.periodStart,
+      period_end: parsed.periodEnd,
+      opening_balance: parsed.openingBalance,
+      closing_balance: parsed.closingBalance,
+    })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+
+  const rows: TablesInsert<"bank_statement_lines">[] = parsed.lines.map((line) => ({
+    statement_id: statement.id,
+    account_id: accountId,
+    date: line.date,
+    amount: line.amount,
+    description: line.description,
+    reference: line.reference,
+    external_id: line.externalId,
+  }));
+
+  let inserted = 0;
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    const { data, error: insertError } = await supabase
+      .from("bank_statement_lines")
+      .upsert(rows.slice(i, i + INSERT_CHUNK_SIZE), { onConflict: "account_id,external_id", ignoreDuplicates: true })
+      .select("id");
+    if (insertError) {
+      // The statement's own lines go with it
+      await supabase.from("bank_statements").delete().eq("id", statement.id);
+      throw new Error(insertError.message);
+    }
+    inserted += data?.length || 0;
+  }
+
+  const { data: saved, error: countError } = await supabase
+    .from("bank_statements")
+    .update({ line_count: inserted })
+    .eq("id", statement.id)
+    .select("*")
+    .single();
+  if (countError) throw new Error(countError.message);
+  return { statement: saved, inserted, duplicates: rows.length - inserted };
+}
+
+/**
+ * Reconcile a statement line to a transaction or invoice, or with no target
+ * add it to the ledger as a new transaction in `category`.
+ */
+export async function reconcileBankLine(
+  lineId: string,
+  target: MatchTarget | null,
+  category?: string | null
+): Promise<BankLine> {
+  const { data, error } = await supabase.rpc("reconcile_bank_line", {
+    p_line_id: lineId,
+    p_transaction_id: target?.kind === "transaction" ? target.id : undefined,
+    p_invoice_id: target?.kind === "invoice" ? target.id : undefined,
+    p_category: category || undefined,
+  });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Transactions created from the line stay in the ledger
+export async function unmatchBankLine(id: string): Promise<void> {
+  const { error } = await supabase
+    .from("bank_statement_lines")
+    .update({ status: "unmatched", transaction_id: null, matched_at: null })
+    .eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+export async function setBankLineIgnored(id: string, ignored: boolean): Promise<void> {
+  const { error } = await supabase
+    .from("bank_statement_lines")
+    .update({ status: ignored ? "ignored" : "unmatched" })
+    .eq("id", id);
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,51 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { parseAdjustments, type ScenarioAdjustment } from "@shared/scenarios";
+
+export interface Scenario extends Omit<Tables<"scenarios">, "adjustments"> {
+  adjustments: ScenarioAdjustment[];
+}
+
+export interface ScenarioDraft {
+  name: string;
+  description?: string | null;
+  adjustments: ScenarioAdjustment[];
+}
+
+export const formatScenarioAmount = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
+
+// Rows the agent wrote are checked again on the way out; bad adjustments are dropped
+function toScenario(row: Tables<"scenarios">): Scenario {
+  return { ...row, adjustments: parseAdjustments(row.adjustments).adjustments };
+}
+
+export async function fetchScenarios(): Promise<Scenario[]> {
+  const { data, error } = await supabase.from("scenarios").select("*").order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data || []).map(toScenario);
+}
+
+export async function createScenario(draft: ScenarioDraft): Promise<Scenario> {
+  const { data, error } = await supabase
+    .from("scenarios")
+    .insert({ ...draft, adjustments: draft.adjustments as unknown as Json })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return toScenario(data);
+}
+
+export async function updateScenario(id: string, patch: Partial<ScenarioDraft>): Promise<void> {
+  const { adjustments, ...rest } = patch;
+  const { error } = await supabase
+    .from("scenarios")
+    .update(adjustments ? { ...rest, adjustments: adjustments as unknown as Json } : rest)
+    .eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  const { error } = await supabase.from("scenarios").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,42 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchAnomalyDismissals } from "@/data/anomalies";
+import { fetchLedger } from "@/data/ledger";
+import type { DateRange } from "@/lib/period";
+import { detectAnomalies } from "@shared/anomalies";
+
+/**
+ * Anomalies in the ledger with a transaction in `range`, split into open
+ * and dismissed. Baselines need the full history, so the whole ledger loads.
+ */
+export function useAnomalies(range: DateRange = {}) {
+  const ledgerQuery = useQuery({
+    queryKey: ["ledger", null, null],
+    queryFn: () => fetchLedger({}),
+  });
+  const dismissalsQuery = useQuery({
+    queryKey: ["anomaly-dismissals"],
+    queryFn: fetchAnomalyDismissals,
+  });
+  const ledger = ledgerQuery.data;
+  const dismissals = dismissalsQuery.data;
+
+  const anomalies = useMemo(() => {
+    if (!ledger) return [];
+    const names = {
+      vendors: new Map(ledger.vendors.map((v) => [v.id, v.name])),
+      customers: new Map(ledger.customers.map((c) => [c.id, c.name])),
+    };
+    return detectAnomalies(ledger.transactions, names, range);
+  }, [ledger, range]);
+
+  const dismissed = useMemo(() => new Set((dismissals || []).map((d) => d.key)), [dismissals]);
+
+  return {
+    open: anomalies.filter((a) => !dismissed.has(a.key)),
+    dismissed: anomalies.filter((a) => dismissed.has(a.key)),
+    transactions: ledger?.transactions || [],
+    isLoading: ledgerQuery.isLoading || dismissalsQuery.isLoading,
+    error: ledgerQuery.error || dismissalsQuery.error,
+  };
+}
@@ -0,0 +1,75 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  fetchApprovalActions,
+  fetchApprovalPolicies,
+  fetchApprovalRequests,
+  type ApprovalAction,
+} from "@/data/approvals";
+import { fetchLedger } from "@/data/ledger";
+import { getCurrentUserName } from "@/lib/currentUser";
+import { currentApprover, findUnapprovedSpend, spendItems } from "@shared/approvals";
+
+/**
+ * Approval policies and requests with each request's history, the requests
+ * waiting on the current user, and the spend a policy covers that is not
+ * yet approved.
+ */
+export function useApprovals() {
+  const policiesQuery = useQuery({
+    queryKey: ["approval-policies"],
+    queryFn: fetchApprovalPolicies,
+  });
+  const requestsQuery = useQuery({
+    queryKey: ["approval-requests"],
+    queryFn: fetchApprovalRequests,
+  });
+  const actionsQuery = useQuery({
+    queryKey: ["approval-actions"],
+    queryFn: fetchApprovalActions,
+  });
+  const ledgerQuery = useQuery({
+    queryKey: ["ledger", null, null],
+    queryFn: () => fetchLedger({}),
+  });
+
+  const policies = useMemo(() => policiesQuery.data || [], [policiesQuery.data]);
+  const requests = useMemo(() => requestsQuery.data || [], [requestsQuery.data]);
+  const ledger = ledgerQuery.data;
+  const currentUser = getCurrentUserName();
+
+  const actionsByRequest = useMemo(() => {
+    const groups = new Map<string, ApprovalAction[]>();
+    for (const a of actionsQuery.data || []) {
+      const list = groups.get(a.request_id);
+      if (list) list.push(a);
+      else groups.set(a.request_id, [a]);
+    }
+    return groups;
+  }, [actionsQuery.data]);
+
+  const pending = useMemo(() => requests.filter((r) => r.status === "pending"), [requests]);
+
+  const inbox = useMemo(() => {
+    const me = currentUser?.toLowerCase();
+    return me ? pending.filter((r) => currentApprover(r)?.trim().toLowerCase() === me) : [];
+  }, [pending, currentUser]);
+
+  const unapproved = useMemo(
+    () => (ledger ? findUnapprovedSpend(policies, requests, spendItems(ledger)) : []),
+    [ledger, policies, requests]
+  );
+
+  return {
+    policies,
+    requests,
+    pending,
+    inbox,
+    unapproved,
+    actionsByRequest,
+    currentUser,
+    ledger,
+    isLoading: policiesQuery.isLoading || requestsQuery.isLoading || actionsQuery.isLoading || ledgerQuery.isLoading,
+    error: policiesQuery.error || requestsQuery.error || actionsQuery.error || ledgerQuery.error,
+  };
+}
@@ -0,0 +1,46 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchBudgets } from "@/data/budgets";
+import { fetchLedger, type Transaction } from "@/data/ledger";
+import { budgetVariance, type BudgetDimension } from "@/lib/budgets";
+import type { DateRange } from "@/lib/period";
+
+export function useBudgets(range: DateRange = {}) {
+  return useQuery({
+    queryKey: ["budgets", range.start ?? null, range.end ?? null],
+    queryFn: () => fetchBudgets(range),
+  });
+}
+
+/**
+ * Budget against actual spend for `range`, grouped by `dimension`. Loads the
+ * budgets and the ledger for the period and compares them in the browser.
+ */
+export function useBudgetVariance(range: DateRange, dimension: BudgetDimension, tolerance: number) {
+  const budgetsQuery = useBudgets(range);
+  const ledgerQuery = useQuery({
+    queryKey: ["ledger", range.start ?? null, range.end ?? null],
+    queryFn: () => fetchLedger(range),
+  });
+  const budgets = budgetsQuery.data;
+  const ledger = ledgerQuery.data;
+
+  const report = useMemo(() => {
+    if (!budgets || !ledger) return null;
+    const vendorNames = new Map(ledger.vendors.map((v) => [v.id, v.name]));
+    return budgetVariance(budgets, ledger.transactions, vendorNames, dimension, range, tolerance);
+  }, [budgets, ledger, dimension, range, tolerance]);
+
+  const transactionsById = useMemo(
+    () => new Map<string, Transaction>((ledger?.transactions || []).map((t) => [t.id, t])),
+    [ledger]
+  );
+
+  return {
+    report,
+    transactionsById,
+    hasBudgets: !!budgets && budgets.some((b) => b.dimension === dimension),
+    isLoading: budgetsQuery.isLoading || ledgerQuery.isLoading,
+    error: budgetsQuery.error || ledgerQuery.error,
+  };
+}
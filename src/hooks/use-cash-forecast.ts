@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchLedger } from "@/data/ledger";
+import { buildCashForecast } from "@shared/forecast";
+import { scheduledBillPayments } from "@shared/payables";
+
+/**
+ * Month-by-month cash forecast `horizon` months ahead. Drivers are learned
+ * from the whole ledger, so this ignores the dashboard's period filter. Open
+ * bills are paid on their scheduled or due dates, in place of their vendor's
+ * recurring bill that month, so bill spend is counted once.
+ */
+export function useCashForecast(horizon: number) {
+  const ledgerQuery = useQuery({
+    queryKey: ["ledger", null, null],
+    queryFn: () => fetchLedger({}),
+  });
+  const ledger = ledgerQuery.data;
+
+  const forecast = useMemo(
+    () =>
+      ledger && ledger.transactions.length > 0
+        ? buildCashForecast(ledger, { horizon, scheduledPayments: scheduledBillPayments(ledger.bills, ledger.vendors) })
+        : null,
+    [ledger, horizon]
+  );
+
+  return { forecast, ledger, isLoading: ledgerQuery.isLoading, error: ledgerQuery.error };
+}
@@ -0,0 +1,62 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { buildCategoryNames, fetchCategoryRules } from "@/data/categorisation";
+import { fetchLedger } from "@/data/ledger";
+import { planRecategorisation, ruleMatches } from "@shared/categorisation";
+
+/**
+ * Every transaction with its categorisation rules, a suggested category for
+ * each uncategorised one and how many transactions each rule matches.
+ */
+export function useCategorisation() {
+  const ledgerQuery = useQuery({
+    queryKey: ["ledger", null, null],
+    queryFn: () => fetchLedger({}),
+  });
+  const rulesQuery = useQuery({
+    queryKey: ["category-rules"],
+    queryFn: fetchCategoryRules,
+  });
+  const ledger = ledgerQuery.data;
+  const rules = useMemo(() => rulesQuery.data || [], [rulesQuery.data]);
+
+  const transactions = useMemo(
+    () => (ledger ? ledger.transactions.filter((t) => t.type === "income" || t.type === "expense") : []),
+    [ledger]
+  );
+  const names = useMemo(
+    () => buildCategoryNames(ledger?.vendors || [], ledger?.customers || [], ledger?.accounts || []),
+    [ledger]
+  );
+  const categories = useMemo(
+    () =>
+      Array.from(new Set([...transactions.map((t) => t.category), ...rules.map((r) => r.category)].filter(Boolean))).sort(
+        (a, b) => a.localeCompare(b)
+      ),
+    [transactions, rules]
+  );
+  const suggestions = useMemo(
+    () => new Map(planRecategorisation(transactions, rules, names, "uncategorised").map((c) => [c.transactionId, c])),
+    [transactions, rules, names]
+  );
+  // Counted as if active, so a paused rule still shows what it would catch
+  const ruleMatchCounts = useMemo(
+    () =>
+      new Map(
+        rules.map((rule) => [rule.id, transactions.filter((t) => ruleMatches({ ...rule, is_active: true }, t, names)).length])
+      ),
+    [transactions, rules, names]
+  );
+
+  return {
+    transactions,
+    rules,
+    accounts: ledger?.accounts || [],
+    names,
+    categories,
+    suggestions,
+    ruleMatchCounts,
+    isLoading: ledgerQuery.isLoading || rulesQuery.isLoading,
+    error: ledgerQuery.error || rulesQuery.error,
+  };
+}
@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { ChatMessage, UploadedFile } from "@/components/CFOChat";
+import { useToast } from "@/hooks/use-toast";
+import { CHAT_THREADS_KEY } from "@/hooks/use-chat-threads";
+import {
+  appendChatMessages,
+  createChatThread,
+  fetchChatMessages,
+  fetchChatThread,
+  threadTitleFrom,
+  type ChatThread,
+} from "@/data/chatHistory";
+
+// The open conversation survives a page reload
+export const ACTIVE_THREAD_KEY = "cfo-active-thread-id";
+
+interface ChatSessionOptions {
+  // Route-controlled thread (null = new conversation); leave undefined to
+  // resume the last open thread instead
+  threadId?: string | null;
+  // Called once a new conversation has been saved as a thread
+  onThreadCreated?: (thread: ChatThread) => void;
+}
+
+/**
+ * Chat state for one conversation panel: messages and input, plus loading
+ * threads from history and saving each finished turn back to it.
+ */
+export function useChatSession({ threadId, onThreadCreated }: ChatSessionOptions = {}) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [inputValue, setInputValue] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  // Shared so a request started in one view can be cancelled from the other
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // A new conversation only becomes a thread once its first turn is saved;
+  // until then it runs on a fresh agent session
+  const [activeThread, setActiveThread] = useState<ChatThread | null>(null);
+  const [draftSessionId, setDraftSessionId] = useState(() => crypto.randomUUID());
+  const [isLoadingThread, setIsLoadingThread] = useState(false);
+  // Messages [0, savedCount) are already stored for the active thread
+  const savedCountRef = useRef(0);
+  const isSavingRef = useRef(false);
+  // Bumped after each save so a turn that finished mid-save is picked up
+  const [saveCount, setSaveCount] = useState(0);
+  const loadRequestRef = useRef(0);
+  const activeThreadRef = useRef<ChatThread | null>(null);
+  activeThreadRef.current = activeThread;
+  const onThreadCreatedRef = useRef(onThreadCreated);
+  onThreadCreatedRef.current = onThreadCreated;
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const openThread = useCallback(async (id: string) => {
+    const request = ++loadRequestRef.current;
+    setIsLoadingThread(true);
+    try {
+      const [thread, threadMessages] = await Promise.all([
+        fetchChatThread(id),
+        fetchChatMessages(id),
+      ]);
+      if (request !== loadRequestRef.current) return;
+      if (!thread) {
+        localStorage.removeItem(ACTIVE_THREAD_KEY);
+        toast({ title: "Conversation not found", description: "It may have been deleted.", variant: "destructive" });
+        return;
+      }
+      setActiveThread(thread);
+      setMessages(threadMessages);
+      savedCountRef.current = threadMessages.length;
+      localStorage.setItem(ACTIVE_THREAD_KEY, thread.id);
+    } catch (error) {
+      toast({
+        title: "Could not open conversation",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      if (request === loadRequestRef.current) setIsLoadingThread(false);
+    }
+  }, [toast]);
+
+  const startNewThread = useCallback(() => {
+    loadRequestRef.current++;
+    setIsLoadingThread(false);
+    setActiveThread(null);
+    setMessages([]);
+    setUploadedFiles([]);
+    setDraftSessionId(crypto.randomUUID());
+    savedCountRef.current = 0;
+    localStorage.removeItem(ACTIVE_THREAD_KEY);
+  }, []);
+
+  // Uncontrolled panels pick up where the user left off
+  useEffect(() => {
+    if (threadId !== undefined) return;
+    const storedThreadId = localStorage.getItem(ACTIVE_THREAD_KEY);
+    if (storedThreadId) openThread(storedThreadId);
+  }, [threadId, openThread]);
+
+  // Route-controlled panels follow the URL
+  useEffect(() => {
+    if (threadId === undefined || threadId === (activeThreadRef.current?.id ?? null)) return;
+    if (threadId) openThread(threadId);
+    else startNewThread();
+  }, [threadId, openThread, startNewThread]);
+
+  // Save each turn once it has finished (streaming partials are never stored)
+  useEffect(() => {
+    if (isProcessing || isLoadingThread || isSavingRef.current) return;
+    const startPosition = savedCountRef.current;
+    const unsaved = messages.slice(startPosition);
+    if (unsaved.length === 0 || unsaved.some((m) => m.streaming)) return;
+
+    isSavingRef.current = true;
+    savedCountRef.current = messages.length;
+    // Opening another thread while this one saves must not touch its state
+    const request = loadRequestRef.current;
+    (async () => {
+      try {
+        let thread = activeThread;
+        const isNew = !thread;
+        if (!thread) {
+          const firstUserMessage = messages.find((m) => m.type === "user");
+          thread = await createChatThread({
+            title: threadTitleFrom(firstUserMessage?.content || ""),
+            session_id: draftSessionId,
+          });
+          if (request === loadRequestRef.current) {
+            setActiveThread(thread);
+            activeThreadRef.current = thread;
+            localStorage.setItem(ACTIVE_THREAD_KEY, thread.id);
+          }
+        }
+        await appendChatMessages(thread.id, unsaved, startPosition);
+        queryClient.invalidateQueries({ queryKey: CHAT_THREADS_KEY });
+        if (isNew && request === loadRequestRef.current) onThreadCreatedRef.current?.(thread);
+      } catch (error) {
+        // Retry with the next turn
+        if (request === loadRequestRef.current) savedCountRef.current = startPosition;
+        toast({
+          title: "Conversation not saved",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "destructive",
+        });
+      } finally {
+        isSavingRef.current = false;
+        setSaveCount((count) => count + 1);
+      }
+    })();
+  }, [messages, isProcessing, isLoadingThread, activeThread, draftSessionId, saveCount, queryClient, toast]);
+
+  return {
+    messages,
+    setMessages,
+    inputValue,
+    setInputValue,
+    isProcessing,
+    setIsProcessing,
+    uploadedFiles,
+    setUploadedFiles,
+    abortControllerRef,
+    activeThread,
+    isLoadingThread,
+    sessionId: activeThread?.session_id || draftSessionId,
+    openThread,
+    startNewThread,
+  };
+}
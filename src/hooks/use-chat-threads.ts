@@ -0,0 +1,27 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { deleteChatThread, fetchChatThreads, updateChatThread } from "@/data/chatHistory";
+
+export const CHAT_THREADS_KEY = ["chat-threads"];
+
+export function useChatThreads(search = "") {
+  return useQuery({
+    queryKey: [...CHAT_THREADS_KEY, search.trim()],
+    queryFn: () => fetchChatThreads(search),
+  });
+}
+
+export function useUpdateChatThread() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...patch }: { id: string; title?: string; pinned?: boolean }) => updateChatThread(id, patch),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: CHAT_THREADS_KEY }),
+  });
+}
+
+export function useDeleteChatThread() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => deleteChatThread(id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: CHAT_THREADS_KEY }),
+  });
+}
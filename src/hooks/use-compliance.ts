@@ -0,0 +1,53 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchComplianceFindings, fetchComplianceRules } from "@/data/compliance";
+import { fetchLedger } from "@/data/ledger";
+import { ACTIVE_FINDING_STATUSES } from "@shared/compliance";
+
+/** The compliance rules and findings register, with open findings counted per rule. */
+export function useCompliance() {
+  const rulesQuery = useQuery({
+    queryKey: ["compliance-rules"],
+    queryFn: fetchComplianceRules,
+  });
+  const findingsQuery = useQuery({
+    queryKey: ["compliance-findings"],
+    queryFn: fetchComplianceFindings,
+  });
+  const ledgerQuery = useQuery({
+    queryKey: ["ledger", null, null],
+    queryFn: () => fetchLedger({}),
+  });
+
+  const findings = useMemo(() => findingsQuery.data || [], [findingsQuery.data]);
+  const active = useMemo(() => findings.filter((f) => ACTIVE_FINDING_STATUSES.includes(f.status)), [findings]);
+  const openCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const f of active) if (f.rule_id) counts.set(f.rule_id, (counts.get(f.rule_id) || 0) + 1);
+    return counts;
+  }, [active]);
+
+  return {
+    rules: rulesQuery.data || [],
+    findings,
+    active,
+    openCounts,
+    ledger: ledgerQuery.data,
+    isLoading: rulesQuery.isLoading || findingsQuery.isLoading || ledgerQuery.isLoading,
+    error: rulesQuery.error || findingsQuery.error || ledgerQuery.error,
+  };
+}
+
+/** Findings still needing attention, for the dashboard's compliance flags. */
+export function useComplianceFlags() {
+  const findingsQuery = useQuery({
+    queryKey: ["compliance-findings"],
+    queryFn: fetchComplianceFindings,
+  });
+  const active = (findingsQuery.data || []).filter((f) => ACTIVE_FINDING_STATUSES.includes(f.status));
+  return {
+    count: active.length,
+    highCount: active.filter((f) => f.severity === "high").length,
+    isLoading: findingsQuery.isLoading,
+  };
+}
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchDashboardData } from "@/data/dashboard";
+import type { DateRange } from "@/lib/period";
+
+export function useDashboardData(range: DateRange = {}, enabled = true) {
+  return useQuery({
+    queryKey: ["dashboard-data", range.start ?? null, range.end ?? null],
+    queryFn: () => fetchDashboardData(range),
+    enabled,
+  });
+}
+
+// Commentary waits on the agent, so it loads separately from the figures
+export function useDashboardCommentary(range: DateRange = {}, enabled = true) {
+  return useQuery({
+    queryKey: ["dashboard-data", range.start ?? null, range.end ?? null, "commentary"],
+    queryFn: async () => {
+      const data = await fetchDashboardData({ ...range, commentary: true });
+      if (data.commentaryError) throw new Error(data.commentaryError);
+      return data.commentary;
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+}
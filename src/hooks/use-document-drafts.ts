@@ -0,0 +1,78 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { buildCategoryNames, fetchCategoryRules } from "@/data/categorisation";
+import { fetchDocumentDrafts, type DocumentDraft } from "@/data/documentDrafts";
+import { fetchLedger } from "@/data/ledger";
+import { categorise, learnCategories, type CategoryDecision } from "@shared/categorisation";
+
+/**
+ * Drafts read from uploaded invoices and receipts, the queue still waiting
+ * for review, and a category suggestion for a draft from the same rules and
+ * learned patterns that categorise imports.
+ */
+export function useDocumentDrafts() {
+  const draftsQuery = useQuery({
+    queryKey: ["document-drafts"],
+    queryFn: fetchDocumentDrafts,
+  });
+  const ledgerQuery = useQuery({
+    queryKey: ["ledger", null, null],
+    queryFn: () => fetchLedger({}),
+  });
+  const rulesQuery = useQuery({
+    queryKey: ["category-rules"],
+    queryFn: fetchCategoryRules,
+  });
+  const drafts = useMemo(() => draftsQuery.data || [], [draftsQuery.data]);
+  const ledger = ledgerQuery.data;
+
+  const pending = useMemo(() => drafts.filter((d) => d.status === "pending"), [drafts]);
+
+  const names = useMemo(
+    () => buildCategoryNames(ledger?.vendors || [], ledger?.customers || [], ledger?.accounts || []),
+    [ledger]
+  );
+  const model = useMemo(() => learnCategories(ledger?.transactions || [], names), [ledger, names]);
+  const categories = useMemo(
+    () =>
+      Array.from(new Set((ledger?.transactions || []).map((t) => t.category).filter(Boolean) as string[])).sort((a, b) =>
+        a.localeCompare(b)
+      ),
+    [ledger]
+  );
+
+  // The draft is judged as the transaction it would post as
+  const suggestCategory = useCallback(
+    (draft: DocumentDraft, vendorName: string, total: number): CategoryDecision | null => {
+      const name = vendorName.trim().toLowerCase();
+      const vendor = ledger?.vendors.find((v) => v.name.trim().toLowerCase() === name);
+      return categorise(
+        {
+          id: draft.id,
+          date: draft.issue_date || "",
+          amount: total,
+          type: draft.document_type === "credit_note" ? "income" : "expense",
+          category: null,
+          category_source: null,
+          account_id: null,
+          vendor_id: vendor?.id ?? null,
+          customer_id: null,
+          description: vendorName,
+        },
+        rulesQuery.data || [],
+        model,
+        names
+      );
+    },
+    [ledger, rulesQuery.data, model, names]
+  );
+
+  return {
+    drafts,
+    pending,
+    categories,
+    suggestCategory,
+    isLoading: draftsQuery.isLoading || ledgerQuery.isLoading || rulesQuery.isLoading,
+    error: draftsQuery.error || ledgerQuery.error || rulesQuery.error,
+  };
+}
@@ -0,0 +1,77 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchComplianceRules } from "@/data/compliance";
+import { fetchDocuments, type VaultDocument } from "@/data/documents";
+import { fetchLedger, type Transaction } from "@/data/ledger";
+import { evaluateCompliance } from "@shared/compliance";
+
+export interface MissingDocumentation {
+  transaction: Transaction;
+  // The receipt rule that asks for a document
+  ruleName: string;
+}
+
+/**
+ * The document vault, grouped by the transaction each document supports,
+ * and the expenses the active receipt rules still flag as undocumented.
+ */
+export function useDocuments() {
+  const documentsQuery = useQuery({
+    queryKey: ["documents"],
+    queryFn: fetchDocuments,
+  });
+  const rulesQuery = useQuery({
+    queryKey: ["compliance-rules"],
+    queryFn: fetchComplianceRules,
+  });
+  const ledgerQuery = useQuery({
+    queryKey: ["ledger", null, null],
+    queryFn: () => fetchLedger({}),
+  });
+
+  const documents = useMemo(() => documentsQuery.data || [], [documentsQuery.data]);
+  const ledger = ledgerQuery.data;
+
+  const byTransaction = useMemo(() => {
+    const groups = new Map<string, VaultDocument[]>();
+    for (const d of documents) {
+      if (!d.transaction_id) continue;
+      const list = groups.get(d.transaction_id);
+      if (list) list.push(d);
+      else groups.set(d.transaction_id, [d]);
+    }
+    return groups;
+  }, [documents]);
+
+  const receiptRules = useMemo(
+    () => (rulesQuery.data || []).filter((r) => r.kind === "receipt_required" && r.is_active),
+    [rulesQuery.data]
+  );
+
+  // Same evaluation the compliance run stores, limited to the receipt rules
+  const missing = useMemo(() => {
+    if (!ledger) return [];
+    const transactions = new Map(ledger.transactions.map((t) => [t.id, t]));
+    const rules = new Map(receiptRules.map((r) => [r.id, r.name]));
+    const rows = new Map<string, MissingDocumentation>();
+    // Receipt rules never look at approvals
+    const checked = { ...ledger, documents, approvalPolicies: [], approvalRequests: [] };
+    for (const check of evaluateCompliance(receiptRules, checked)) {
+      const transaction = transactions.get(check.transaction_ids[0]);
+      if (transaction && !rows.has(transaction.id)) {
+        rows.set(transaction.id, { transaction, ruleName: rules.get(check.rule_id) || "Receipt required" });
+      }
+    }
+    return Array.from(rows.values()).sort((a, b) => b.transaction.date.localeCompare(a.transaction.date));
+  }, [ledger, receiptRules, documents]);
+
+  return {
+    documents,
+    byTransaction,
+    receiptRules,
+    missing,
+    ledger,
+    isLoading: documentsQuery.isLoading || rulesQuery.isLoading || ledgerQuery.isLoading,
+    error: documentsQuery.error || rulesQuery.error || ledgerQuery.error,
+  };
+}
@@ -0,0 +1,89 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchLedger, type Transaction } from "@/data/ledger";
+import { priorPeriod, priorYear, type DateRange } from "@/lib/period";
+import {
+  STATEMENT_BUILDERS,
+  compareStatements,
+  type ComparativeStatement,
+  type StatementKind,
+  type StatementPeriod,
+} from "@shared/statements";
+
+export const COMPARISONS = ["none", "prior-period", "prior-year", "both"] as const;
+
+export type Comparison = (typeof COMPARISONS)[number];
+
+export const COMPARISON_LABELS: Record<Comparison, string> = {
+  none: "No comparison",
+  "prior-period": "vs prior period",
+  "prior-year": "vs prior year",
+  both: "vs prior period and year",
+};
+
+export function isComparison(value: string | null): value is Comparison {
+  return !!value && (COMPARISONS as readonly string[]).includes(value);
+}
+
+// Columns to report on; comparatives need a bounded period to shift
+function statementColumns(range: DateRange, comparison: Comparison, today: string) {
+  const current = { start: range.start, end: range.end || today };
+  const columns: { label: string; period: StatementPeriod }[] = [{ label: "This period", period: current }];
+  if (!current.start) return columns;
+  if (comparison === "prior-period" || comparison === "both") {
+    columns.push({ label: "Prior period", period: priorPeriod({ start: current.start, end: current.end }) });
+  }
+  if (comparison === "prior-year" || comparison === "both") {
+    const { start, end } = priorYear(current);
+    columns.push({ label: "Prior year", period: { start, end: end! } });
+  }
+  return columns;
+}
+
+/**
+ * Income statement, balance sheet and cash flow statement for `range`, with
+ * comparative columns. The balance sheet needs the whole history, so the
+ * ledger is loaded from the beginning up to the end of the period.
+ */
+export function useFinancialStatements(range: DateRange, comparison: Comparison) {
+  const today = new Date().toISOString().slice(0, 10);
+  const end = range.end || today;
+
+  const query = useQuery({
+    queryKey: ["ledger", end],
+    queryFn: () => fetchLedger({ end }),
+  });
+  const ledger = query.data;
+
+  const columns = useMemo(
+    () => statementColumns(range, comparison, today),
+    [range, comparison, today]
+  );
+
+  const statements = useMemo(() => {
+    if (!ledger) return null;
+    const build = (kind: StatementKind) =>
+      compareStatements(
+        columns.map((c) => STATEMENT_BUILDERS[kind](ledger, c.period, today)),
+        columns.map((c) => c.label)
+      );
+    return {
+      "income-statement": build("income-statement"),
+      "balance-sheet": build("balance-sheet"),
+      "cash-flow": build("cash-flow"),
+    } as Record<StatementKind, ComparativeStatement>;
+  }, [ledger, columns, today]);
+
+  const transactionsById = useMemo(
+    () => new Map<string, Transaction>((ledger?.transactions || []).map((t) => [t.id, t])),
+    [ledger]
+  );
+
+  return {
+    statements,
+    transactionsById,
+    comparable: !!range.start,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
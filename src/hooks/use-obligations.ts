@@ -0,0 +1,49 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchEvidence, fetchFilings, fetchObligations, type ComplianceEvidence } from "@/data/obligations";
+import { buildDeadlines, type DeadlineOptions } from "@shared/obligations";
+
+/**
+ * Regulatory obligations with their deadlines from `start` to `end` (plus
+ * any still overdue), filing history and evidence grouped by filing.
+ */
+export function useObligations({ start, end, asOf }: DeadlineOptions) {
+  const obligationsQuery = useQuery({
+    queryKey: ["compliance-obligations"],
+    queryFn: fetchObligations,
+  });
+  const filingsQuery = useQuery({
+    queryKey: ["compliance-filings"],
+    queryFn: fetchFilings,
+  });
+  const evidenceQuery = useQuery({
+    queryKey: ["compliance-evidence"],
+    queryFn: fetchEvidence,
+  });
+
+  const obligations = useMemo(() => obligationsQuery.data || [], [obligationsQuery.data]);
+  const filings = useMemo(() => filingsQuery.data || [], [filingsQuery.data]);
+
+  const deadlines = useMemo(
+    () => buildDeadlines(obligations, filings, { start, end, asOf }),
+    [obligations, filings, start, end, asOf]
+  );
+  const evidenceByFiling = useMemo(() => {
+    const groups = new Map<string, ComplianceEvidence[]>();
+    for (const e of evidenceQuery.data || []) {
+      const list = groups.get(e.filing_id);
+      if (list) list.push(e);
+      else groups.set(e.filing_id, [e]);
+    }
+    return groups;
+  }, [evidenceQuery.data]);
+
+  return {
+    obligations,
+    filings,
+    deadlines,
+    evidenceByFiling,
+    isLoading: obligationsQuery.isLoading || filingsQuery.isLoading || evidenceQuery.isLoading,
+    error: obligationsQuery.error || filingsQuery.error || evidenceQuery.error,
+  };
+}
@@ -0,0 +1,51 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchLedger } from "@/data/ledger";
+import { cashBalance } from "@shared/metrics";
+import { buildPayablesAging, daysPayableOutstanding, suggestBillPayments } from "@shared/payables";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Every bill with the AP aging report, DPO and this week's payment plan. The
+ * plan spends cash on hand above `reserve`, so the whole ledger is loaded.
+ */
+export function usePayables(reserve = 0) {
+  const query = useQuery({
+    queryKey: ["ledger", null, null],
+    queryFn: () => fetchLedger({}),
+  });
+  const ledger = query.data;
+
+  const asOf = today();
+  const report = useMemo(() => (ledger ? buildPayablesAging(ledger.bills, ledger.vendors, asOf) : null), [ledger, asOf]);
+  const dpo = useMemo(() => (ledger ? daysPayableOutstanding(ledger.bills, asOf) : null), [ledger, asOf]);
+  const cashOnHand = useMemo(
+    () =>
+      ledger
+        ? cashBalance(
+            ledger.accounts,
+            ledger.transactions.filter((t) => t.date <= asOf),
+            ledger.statements.filter((s) => s.period_end <= asOf)
+          )
+        : null,
+    [ledger, asOf]
+  );
+  const plan = useMemo(
+    () => (ledger ? suggestBillPayments(ledger.bills, { asOf, cashOnHand, reserve }) : null),
+    [ledger, asOf, cashOnHand, reserve]
+  );
+
+  return {
+    bills: ledger?.bills || [],
+    vendors: ledger?.vendors || [],
+    accounts: ledger?.accounts || [],
+    report,
+    dpo,
+    cashOnHand,
+    plan,
+    asOf,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
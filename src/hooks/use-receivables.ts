@@ -0,0 +1,51 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchAccounts, fetchCustomers, fetchInvoices } from "@/data/ledger";
+import { fetchInvoiceLines, fetchInvoicePayments } from "@/data/receivables";
+import { buildAgingReport, daysSalesOutstanding } from "@shared/receivables";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Every invoice with the aging report and DSO as of today. Receivables are a
+ * point-in-time balance, so the dashboard's period filter does not apply.
+ */
+export function useReceivables() {
+  const query = useQuery({
+    queryKey: ["receivables"],
+    queryFn: async () => {
+      const [invoices, customers, accounts] = await Promise.all([fetchInvoices(), fetchCustomers(), fetchAccounts()]);
+      return { invoices, customers, accounts };
+    },
+  });
+  const data = query.data;
+
+  const asOf = today();
+  const report = useMemo(
+    () => (data ? buildAgingReport(data.invoices, data.customers, asOf) : null),
+    [data, asOf]
+  );
+  const dso = useMemo(() => (data ? daysSalesOutstanding(data.invoices, asOf) : null), [data, asOf]);
+
+  return {
+    invoices: data?.invoices || [],
+    customers: data?.customers || [],
+    accounts: data?.accounts || [],
+    report,
+    dso,
+    asOf,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+export function useInvoiceDetail(invoiceId: string | null) {
+  return useQuery({
+    queryKey: ["receivables", "invoice", invoiceId],
+    queryFn: async () => {
+      const [lines, payments] = await Promise.all([fetchInvoiceLines(invoiceId!), fetchInvoicePayments(invoiceId!)]);
+      return { lines, payments };
+    },
+    enabled: !!invoiceId,
+  });
+}
@@ -0,0 +1,53 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchLedger } from "@/data/ledger";
+import { fetchBankLines } from "@/data/reconciliation";
+import { isCashAccount } from "@shared/metrics";
+import { reconcileAccount, suggestMatches } from "@shared/reconciliation";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * A bank account's statement lines with suggested matches against the whole
+ * ledger, and how its latest statement balance compares with the ledger.
+ * Without `accountId` the first bank or cash account is used.
+ */
+export function useReconciliation(accountId: string | null) {
+  const ledgerQuery = useQuery({
+    queryKey: ["ledger", null, null],
+    queryFn: () => fetchLedger({}),
+  });
+  const ledger = ledgerQuery.data;
+  const accounts = useMemo(() => (ledger ? ledger.accounts.filter(isCashAccount) : []), [ledger]);
+  const selectedId = accountId || accounts[0]?.id || null;
+
+  const linesQuery = useQuery({
+    queryKey: ["bank-lines", selectedId],
+    queryFn: () => fetchBankLines(selectedId!),
+    enabled: !!selectedId,
+  });
+  const lines = linesQuery.data;
+
+  const asOf = today();
+  const suggestions = useMemo(
+    () => (ledger && lines ? suggestMatches(lines, ledger.transactions, ledger.invoices) : []),
+    [ledger, lines]
+  );
+  const summary = useMemo(() => {
+    const account = accounts.find((a) => a.id === selectedId);
+    return account && ledger && lines ? reconcileAccount(account, ledger.statements, lines, ledger.transactions, asOf) : null;
+  }, [accounts, selectedId, ledger, lines, asOf]);
+
+  return {
+    accountId: selectedId,
+    accounts,
+    lines: lines || [],
+    suggestions,
+    summary,
+    transactions: ledger?.transactions || [],
+    invoices: ledger?.invoices || [],
+    asOf,
+    isLoading: ledgerQuery.isLoading || linesQuery.isLoading,
+    error: ledgerQuery.error || linesQuery.error,
+  };
+}
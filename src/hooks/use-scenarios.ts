@@ -0,0 +1,49 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchScenarios } from "@/data/scenarios";
+import { applyScenario, revenueChannelMix, type ScenarioResult } from "@shared/scenarios";
+import { useCashForecast } from "./use-cash-forecast";
+
+export function useScenarios() {
+  return useQuery({
+    queryKey: ["scenarios"],
+    queryFn: fetchScenarios,
+  });
+}
+
+/**
+ * The baseline cash forecast and every saved scenario applied to it over
+ * `horizon` months, keyed by scenario id.
+ */
+export function useScenarioComparison(horizon: number) {
+  const scenariosQuery = useScenarios();
+  const { forecast, ledger, isLoading, error } = useCashForecast(horizon);
+  const scenarios = scenariosQuery.data;
+
+  const channelMix = useMemo(
+    () => (forecast && ledger ? revenueChannelMix(ledger.transactions, forecast.asOf) : null),
+    [forecast, ledger]
+  );
+
+  const baseline = useMemo(
+    () => (forecast && channelMix ? applyScenario(forecast, channelMix, []) : null),
+    [forecast, channelMix]
+  );
+
+  const results = useMemo(() => {
+    const byId = new Map<string, ScenarioResult>();
+    if (!forecast || !channelMix) return byId;
+    for (const scenario of scenarios || []) byId.set(scenario.id, applyScenario(forecast, channelMix, scenario.adjustments));
+    return byId;
+  }, [forecast, channelMix, scenarios]);
+
+  return {
+    scenarios: scenarios || [],
+    forecast,
+    channelMix,
+    baseline,
+    results,
+    isLoading: scenariosQuery.isLoading || isLoading,
+    error: scenariosQuery.error || error,
+  };
+}
@@ -0,0 +1,62 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { isPeriodPreset, resolvePeriod, type PeriodPreset } from "@/lib/period";
+
+/**
+ * A single search param as state, e.g. ?chart=bar. Setting the default (or
+ * an empty value) removes the param so URLs stay short.
+ */
+export function useSearchParamState(name: string, defaultValue = ""): [string, (value: string) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const value = searchParams.get(name) ?? defaultValue;
+
+  const setValue = useCallback(
+    (next: string) => {
+      setSearchParams(
+        (prev) => {
+          const params = new URLSearchParams(prev);
+          if (!next || next === defaultValue) params.delete(name);
+          else params.set(name, next);
+          return params;
+        },
+        { replace: true }
+      );
+    },
+    [name, defaultValue, setSearchParams]
+  );
+
+  return [value, setValue];
+}
+
+// The reporting period shared by the dashboard, analysis and reports views
+export function usePeriodFilter(defaultPeriod: PeriodPreset = "all") {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const rawPeriod = searchParams.get("period");
+  const period: PeriodPreset = isPeriodPreset(rawPeriod) ? rawPeriod : defaultPeriod;
+  const from = searchParams.get("from") || "";
+  const to = searchParams.get("to") || "";
+
+  const range = useMemo(() => resolvePeriod(period, { start: from, end: to }), [period, from, to]);
+
+  const setPeriod = useCallback(
+    (next: PeriodPreset, custom: { from?: string; to?: string } = {}) => {
+      setSearchParams(
+        (prev) => {
+          const params = new URLSearchParams(prev);
+          if (next === defaultPeriod) params.delete("period");
+          else params.set("period", next);
+          for (const key of ["from", "to"] as const) {
+            const value = next === "custom" ? (key in custom ? custom[key] : params.get(key)) : null;
+            if (value) params.set(key, value);
+            else params.delete(key);
+          }
+          return params;
+        },
+        { replace: true }
+      );
+    },
+    [defaultPeriod, setSearchParams]
+  );
+
+  return { period, from, to, range, setPeriod };
+}
@@ -14,16 +14,1474 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      accounts: {
+        Row: {
+          code: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          opening_balance: number
+          opening_balance_date: string | null
+          subtype: string | null
+          type: Database["public"]["Enums"]["account_type"]
+          updated_at: string
+        }
+        Insert: {
+          code?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          opening_balance?: number
+          opening_balance_date?: string | null
+          subtype?: string | null
+          type: Database["public"]["Enums"]["account_type"]
+          updated_at?: string
+        }
+        Update: {
+          code?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          opening_balance?: number
+          opening_balance_date?: string | null
+          subtype?: string | null
+          type?: Database["public"]["Enums"]["account_type"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      anomaly_dismissals: {
+        Row: {
+          created_at: string
+          key: string
+          note: string | null
+        }
+        Insert: {
+          created_at?: string
+          key: string
+          note?: string | null
+        }
+        Update: {
+          created_at?: string
+          key?: string
+          note?: string | null
+        }
+        Relationships: []
+      }
+      approval_actions: {
+        Row: {
+          action: Database["public"]["Enums"]["approval_action_kind"]
+          actor: string | null
+          comment: string | null
+          created_at: string
+          id: string
+          request_id: string
+          step: number
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["approval_action_kind"]
+          actor?: string | null
+          comment?: string | null
+          created_at?: string
+          id?: string
+          request_id: string
+          step?: number
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["approval_action_kind"]
+          actor?: string | null
+          comment?: string | null
+          created_at?: string
+          id?: string
+          request_id?: string
+          step?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_actions_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "approval_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_policies: {
+        Row: {
+          applies_to: Database["public"]["Enums"]["approval_subject"]
+          approvers: string[]
+          category: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          priority: number
+          threshold: number
+          updated_at: string
+          vendor_id: string | null
+        }
+        Insert: {
+          applies_to?: Database["public"]["Enums"]["approval_subject"]
+          approvers: string[]
+          category?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          priority?: number
+          threshold?: number
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Update: {
+          applies_to?: Database["public"]["Enums"]["approval_subject"]
+          approvers?: string[]
+          category?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          priority?: number
+          threshold?: number
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_policies_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_requests: {
+        Row: {
+          amount: number
+          approvers: string[]
+          bill_id: string | null
+          created_at: string
+          current_step: number
+          decided_at: string | null
+          description: string
+          id: string
+          policy_id: string | null
+          policy_name: string
+          requested_by: string | null
+          spend_date: string
+          status: Database["public"]["Enums"]["approval_request_status"]
+          subject: Database["public"]["Enums"]["approval_subject"]
+          transaction_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          approvers: string[]
+          bill_id?: string | null
+          created_at?: string
+          current_step?: number
+          decided_at?: string | null
+          description: string
+          id?: string
+          policy_id?: string | null
+          policy_name: string
+          requested_by?: string | null
+          spend_date: string
+          status?: Database["public"]["Enums"]["approval_request_status"]
+          subject: Database["public"]["Enums"]["approval_subject"]
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          approvers?: string[]
+          bill_id?: string | null
+          created_at?: string
+          current_step?: number
+          decided_at?: string | null
+          description?: string
+          id?: string
+          policy_id?: string | null
+          policy_name?: string
+          requested_by?: string | null
+          spend_date?: string
+          status?: Database["public"]["Enums"]["approval_request_status"]
+          subject?: Database["public"]["Enums"]["approval_subject"]
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_requests_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_requests_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "approval_policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_requests_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_statement_lines: {
+        Row: {
+          account_id: string
+          amount: number
+          created_at: string
+          date: string
+          description: string | null
+          external_id: string
+          id: string
+          matched_at: string | null
+          reference: string | null
+          statement_id: string
+          status: Database["public"]["Enums"]["bank_line_status"]
+          transaction_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          created_at?: string
+          date: string
+          description?: string | null
+          external_id: string
+          id?: string
+          matched_at?: string | null
+          reference?: string | null
+          statement_id: string
+          status?: Database["public"]["Enums"]["bank_line_status"]
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          created_at?: string
+          date?: string
+          description?: string | null
+          external_id?: string
+          id?: string
+          matched_at?: string | null
+          reference?: string | null
+          statement_id?: string
+          status?: Database["public"]["Enums"]["bank_line_status"]
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_lines_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_statement_id_fkey"
+            columns: ["statement_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_statements: {
+        Row: {
+          account_id: string
+          account_number: string | null
+          closing_balance: number | null
+          created_at: string
+          currency: string | null
+          file_name: string | null
+          format: string
+          id: string
+          line_count: number
+          opening_balance: number | null
+          period_end: string
+          period_start: string | null
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          account_number?: string | null
+          closing_balance?: number | null
+          created_at?: string
+          currency?: string | null
+          file_name?: string | null
+          format: string
+          id?: string
+          line_count?: number
+          opening_balance?: number | null
+          period_end: string
+          period_start?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          account_number?: string | null
+          closing_balance?: number | null
+          created_at?: string
+          currency?: string | null
+          file_name?: string | null
+          format?: string
+          id?: string
+          line_count?: number
+          opening_balance?: number | null
+          period_end?: string
+          period_start?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statements_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bills: {
+        Row: {
+          amount_paid: number
+          approval_status: Database["public"]["Enums"]["bill_approval_status"]
+          approved_at: string | null
+          approved_by: string | null
+          bill_number: string
+          category: string | null
+          created_at: string
+          discount_days: number | null
+          discount_percent: number
+          discount_taken: number
+          due_date: string
+          entered_by: string | null
+          id: string
+          issue_date: string
+          notes: string | null
+          scheduled_date: string | null
+          status: Database["public"]["Enums"]["bill_status"]
+          terms_days: number
+          total: number
+          updated_at: string
+          vendor_id: string | null
+        }
+        Insert: {
+          amount_paid?: number
+          approval_status?: Database["public"]["Enums"]["bill_approval_status"]
+          approved_at?: string | null
+          approved_by?: string | null
+          bill_number: string
+          category?: string | null
+          created_at?: string
+          discount_days?: number | null
+          discount_percent?: number
+          discount_taken?: number
+          due_date: string
+          entered_by?: string | null
+          id?: string
+          issue_date: string
+          notes?: string | null
+          scheduled_date?: string | null
+          status?: Database["public"]["Enums"]["bill_status"]
+          terms_days?: number
+          total: number
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Update: {
+          amount_paid?: number
+          approval_status?: Database["public"]["Enums"]["bill_approval_status"]
+          approved_at?: string | null
+          approved_by?: string | null
+          bill_number?: string
+          category?: string | null
+          created_at?: string
+          discount_days?: number | null
+          discount_percent?: number
+          discount_taken?: number
+          due_date?: string
+          entered_by?: string | null
+          id?: string
+          issue_date?: string
+          notes?: string | null
+          scheduled_date?: string | null
+          status?: Database["public"]["Enums"]["bill_status"]
+          terms_days?: number
+          total?: number
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bills_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      budgets: {
+        Row: {
+          amount: number
+          created_at: string
+          dimension: Database["public"]["Enums"]["budget_dimension"]
+          id: string
+          month: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          dimension: Database["public"]["Enums"]["budget_dimension"]
+          id?: string
+          month: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          dimension?: Database["public"]["Enums"]["budget_dimension"]
+          id?: string
+          month?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      category_rules: {
+        Row: {
+          account_id: string | null
+          category: string
+          created_at: string
+          id: string
+          is_active: boolean
+          max_amount: number | null
+          min_amount: number | null
+          name: string
+          payee_contains: string | null
+          priority: number
+          transaction_type: Database["public"]["Enums"]["transaction_type"] | null
+          updated_at: string
+        }
+        Insert: {
+          account_id?: string | null
+          category: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          min_amount?: number | null
+          name: string
+          payee_contains?: string | null
+          priority?: number
+          transaction_type?: Database["public"]["Enums"]["transaction_type"] | null
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string | null
+          category?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          min_amount?: number | null
+          name?: string
+          payee_contains?: string | null
+          priority?: number
+          transaction_type?: Database["public"]["Enums"]["transaction_type"] | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_rules_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_messages: {
+        Row: {
+          agent_name: string | null
+          attachments: Json | null
+          cancelled: boolean
+          content: string
+          created_at: string
+          id: string
+          position: number
+          thread_id: string
+          type: string
+          visualization_data: Json | null
+        }
+        Insert: {
+          agent_name?: string | null
+          attachments?: Json | null
+          cancelled?: boolean
+          content: string
+          created_at?: string
+          id?: string
+          position: number
+          thread_id: string
+          type: string
+          visualization_data?: Json | null
+        }
+        Update: {
+          agent_name?: string | null
+          attachments?: Json | null
+          cancelled?: boolean
+          content?: string
+          created_at?: string
+          id?: string
+          position?: number
+          thread_id?: string
+          type?: string
+          visualization_data?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_threads: {
+        Row: {
+          created_at: string
+          id: string
+          last_message_at: string
+          pinned: boolean
+          session_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_message_at?: string
+          pinned?: boolean
+          session_id: string
+          title?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_message_at?: string
+          pinned?: boolean
+          session_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      compliance_evidence: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          file_name: string
+          filing_id: string
+          id: string
+          size_bytes: number | null
+          storage_path: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          file_name: string
+          filing_id: string
+          id?: string
+          size_bytes?: number | null
+          storage_path: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          file_name?: string
+          filing_id?: string
+          id?: string
+          size_bytes?: number | null
+          storage_path?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_evidence_filing_id_fkey"
+            columns: ["filing_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_filings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compliance_filings: {
+        Row: {
+          assignee: string | null
+          completed_at: string | null
+          completed_by: string | null
+          completed_steps: string[]
+          created_at: string
+          due_date: string
+          id: string
+          notes: string | null
+          obligation_id: string
+          status: Database["public"]["Enums"]["filing_status"]
+          updated_at: string
+        }
+        Insert: {
+          assignee?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
+          completed_steps?: string[]
+          created_at?: string
+          due_date: string
+          id?: string
+          notes?: string | null
+          obligation_id: string
+          status?: Database["public"]["Enums"]["filing_status"]
+          updated_at?: string
+        }
+        Update: {
+          assignee?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
+          completed_steps?: string[]
+          created_at?: string
+          due_date?: string
+          id?: string
+          notes?: string | null
+          obligation_id?: string
+          status?: Database["public"]["Enums"]["filing_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_filings_obligation_id_fkey"
+            columns: ["obligation_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_obligations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compliance_findings: {
+        Row: {
+          amount: number
+          auto_resolved: boolean
+          bill_id: string | null
+          created_at: string
+          date: string
+          detail: string
+          first_detected_at: string
+          id: string
+          key: string
+          kind: Database["public"]["Enums"]["compliance_rule_kind"]
+          last_detected_at: string
+          owner: string | null
+          resolution_notes: string | null
+          resolved_at: string | null
+          rule_id: string | null
+          severity: Database["public"]["Enums"]["compliance_severity"]
+          status: Database["public"]["Enums"]["compliance_finding_status"]
+          title: string
+          transaction_ids: string[]
+          updated_at: string
+          vendor_id: string | null
+        }
+        Insert: {
+          amount?: number
+          auto_resolved?: boolean
+          bill_id?: string | null
+          created_at?: string
+          date: string
+          detail: string
+          first_detected_at?: string
+          id?: string
+          key: string
+          kind: Database["public"]["Enums"]["compliance_rule_kind"]
+          last_detected_at?: string
+          owner?: string | null
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          rule_id?: string | null
+          severity: Database["public"]["Enums"]["compliance_severity"]
+          status?: Database["public"]["Enums"]["compliance_finding_status"]
+          title: string
+          transaction_ids?: string[]
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Update: {
+          amount?: number
+          auto_resolved?: boolean
+          bill_id?: string | null
+          created_at?: string
+          date?: string
+          detail?: string
+          first_detected_at?: string
+          id?: string
+          key?: string
+          kind?: Database["public"]["Enums"]["compliance_rule_kind"]
+          last_detected_at?: string
+          owner?: string | null
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          rule_id?: string | null
+          severity?: Database["public"]["Enums"]["compliance_severity"]
+          status?: Database["public"]["Enums"]["compliance_finding_status"]
+          title?: string
+          transaction_ids?: string[]
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_findings_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "compliance_findings_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "compliance_findings_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compliance_obligations: {
+        Row: {
+          assignee: string | null
+          authority: string | null
+          checklist: string[]
+          created_at: string
+          description: string | null
+          end_date: string | null
+          first_due_date: string
+          frequency: Database["public"]["Enums"]["obligation_frequency"]
+          id: string
+          is_active: boolean
+          name: string
+          reference: string | null
+          reminder_days: number
+          updated_at: string
+        }
+        Insert: {
+          assignee?: string | null
+          authority?: string | null
+          checklist?: string[]
+          created_at?: string
+          description?: string | null
+          end_date?: string | null
+          first_due_date: string
+          frequency: Database["public"]["Enums"]["obligation_frequency"]
+          id?: string
+          is_active?: boolean
+          name: string
+          reference?: string | null
+          reminder_days?: number
+          updated_at?: string
+        }
+        Update: {
+          assignee?: string | null
+          authority?: string | null
+          checklist?: string[]
+          created_at?: string
+          description?: string | null
+          end_date?: string | null
+          first_due_date?: string
+          frequency?: Database["public"]["Enums"]["obligation_frequency"]
+          id?: string
+          is_active?: boolean
+          name?: string
+          reference?: string | null
+          reminder_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      compliance_rules: {
+        Row: {
+          category: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          kind: Database["public"]["Enums"]["compliance_rule_kind"]
+          name: string
+          severity: Database["public"]["Enums"]["compliance_severity"]
+          threshold: number | null
+          updated_at: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          kind: Database["public"]["Enums"]["compliance_rule_kind"]
+          name: string
+          severity?: Database["public"]["Enums"]["compliance_severity"]
+          threshold?: number | null
+          updated_at?: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          kind?: Database["public"]["Enums"]["compliance_rule_kind"]
+          name?: string
+          severity?: Database["public"]["Enums"]["compliance_severity"]
+          threshold?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      customers: {
+        Row: {
+          channel: string | null
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          channel?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          channel?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      document_drafts: {
+        Row: {
+          bill_id: string | null
+          category: string | null
+          created_at: string
+          currency: string | null
+          document_id: string | null
+          document_type: string
+          due_date: string | null
+          id: string
+          invoice_number: string | null
+          issue_date: string | null
+          lines: Json
+          reviewed_at: string | null
+          reviewed_by: string | null
+          source_format: string
+          status: Database["public"]["Enums"]["document_draft_status"]
+          subtotal: number | null
+          target: Database["public"]["Enums"]["document_draft_target"]
+          tax: number | null
+          total: number | null
+          transaction_id: string | null
+          updated_at: string
+          vendor_name: string | null
+          vendor_tax_id: string | null
+          warnings: string[]
+        }
+        Insert: {
+          bill_id?: string | null
+          category?: string | null
+          created_at?: string
+          currency?: string | null
+          document_id?: string | null
+          document_type?: string
+          due_date?: string | null
+          id?: string
+          invoice_number?: string | null
+          issue_date?: string | null
+          lines?: Json
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source_format: string
+          status?: Database["public"]["Enums"]["document_draft_status"]
+          subtotal?: number | null
+          target?: Database["public"]["Enums"]["document_draft_target"]
+          tax?: number | null
+          total?: number | null
+          transaction_id?: string | null
+          updated_at?: string
+          vendor_name?: string | null
+          vendor_tax_id?: string | null
+          warnings?: string[]
+        }
+        Update: {
+          bill_id?: string | null
+          category?: string | null
+          created_at?: string
+          currency?: string | null
+          document_id?: string | null
+          document_type?: string
+          due_date?: string | null
+          id?: string
+          invoice_number?: string | null
+          issue_date?: string | null
+          lines?: Json
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source_format?: string
+          status?: Database["public"]["Enums"]["document_draft_status"]
+          subtotal?: number | null
+          target?: Database["public"]["Enums"]["document_draft_target"]
+          tax?: number | null
+          total?: number | null
+          transaction_id?: string | null
+          updated_at?: string
+          vendor_name?: string | null
+          vendor_tax_id?: string | null
+          warnings?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_drafts_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_drafts_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_drafts_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      documents: {
+        Row: {
+          bill_id: string | null
+          content_type: string | null
+          created_at: string
+          file_name: string
+          id: string
+          invoice_id: string | null
+          kind: Database["public"]["Enums"]["document_kind"]
+          notes: string | null
+          size_bytes: number | null
+          storage_path: string
+          thumbnail: string | null
+          transaction_id: string | null
+          updated_at: string
+          uploaded_by: string | null
+          vendor_id: string | null
+        }
+        Insert: {
+          bill_id?: string | null
+          content_type?: string | null
+          created_at?: string
+          file_name: string
+          id?: string
+          invoice_id?: string | null
+          kind?: Database["public"]["Enums"]["document_kind"]
+          notes?: string | null
+          size_bytes?: number | null
+          storage_path: string
+          thumbnail?: string | null
+          transaction_id?: string | null
+          updated_at?: string
+          uploaded_by?: string | null
+          vendor_id?: string | null
+        }
+        Update: {
+          bill_id?: string | null
+          content_type?: string | null
+          created_at?: string
+          file_name?: string
+          id?: string
+          invoice_id?: string | null
+          kind?: Database["public"]["Enums"]["document_kind"]
+          notes?: string | null
+          size_bytes?: number | null
+          storage_path?: string
+          thumbnail?: string | null
+          transaction_id?: string | null
+          updated_at?: string
+          uploaded_by?: string | null
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "documents_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_presets: {
+        Row: {
+          created_at: string
+          id: string
+          mapping: Json
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          mapping: Json
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          mapping?: Json
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      invoice_lines: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string
+          id: string
+          invoice_id: string
+          position: number
+          quantity: number
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          amount?: never
+          created_at?: string
+          description: string
+          id?: string
+          invoice_id: string
+          position?: number
+          quantity?: number
+          unit_price: number
+          updated_at?: string
+        }
+        Update: {
+          amount?: never
+          created_at?: string
+          description?: string
+          id?: string
+          invoice_id?: string
+          position?: number
+          quantity?: number
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount_paid: number
+          created_at: string
+          customer_id: string | null
+          due_date: string
+          id: string
+          invoice_number: string
+          issue_date: string
+          notes: string | null
+          status: Database["public"]["Enums"]["invoice_status"]
+          total: number
+          updated_at: string
+        }
+        Insert: {
+          amount_paid?: number
+          created_at?: string
+          customer_id?: string | null
+          due_date: string
+          id?: string
+          invoice_number: string
+          issue_date: string
+          notes?: string | null
+          status?: Database["public"]["Enums"]["invoice_status"]
+          total: number
+          updated_at?: string
+        }
+        Update: {
+          amount_paid?: number
+          created_at?: string
+          customer_id?: string | null
+          due_date?: string
+          id?: string
+          invoice_number?: string
+          issue_date?: string
+          notes?: string | null
+          status?: Database["public"]["Enums"]["invoice_status"]
+          total?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scenarios: {
+        Row: {
+          adjustments: Json
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          adjustments?: Json
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          adjustments?: Json
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          source?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      transactions: {
+        Row: {
+          account_id: string | null
+          amount: number
+          bill_id: string | null
+          category: string | null
+          category_reason: string | null
+          category_rule_id: string | null
+          category_source: Database["public"]["Enums"]["category_source"] | null
+          channel: string | null
+          created_at: string
+          customer_id: string | null
+          date: string
+          department: string | null
+          description: string | null
+          id: string
+          import_batch_id: string | null
+          invoice_id: string | null
+          reference: string | null
+          transaction_time: string | null
+          type: Database["public"]["Enums"]["transaction_type"]
+          updated_at: string
+          vendor_id: string | null
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          bill_id?: string | null
+          category?: string | null
+          category_reason?: string | null
+          category_rule_id?: string | null
+          category_source?: Database["public"]["Enums"]["category_source"] | null
+          channel?: string | null
+          created_at?: string
+          customer_id?: string | null
+          date: string
+          department?: string | null
+          description?: string | null
+          id?: string
+          import_batch_id?: string | null
+          invoice_id?: string | null
+          reference?: string | null
+          transaction_time?: string | null
+          type: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          bill_id?: string | null
+          category?: string | null
+          category_reason?: string | null
+          category_rule_id?: string | null
+          category_source?: Database["public"]["Enums"]["category_source"] | null
+          channel?: string | null
+          created_at?: string
+          customer_id?: string | null
+          date?: string
+          department?: string | null
+          description?: string | null
+          id?: string
+          import_batch_id?: string | null
+          invoice_id?: string | null
+          reference?: string | null
+          transaction_time?: string | null
+          type?: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_category_rule_id_fkey"
+            columns: ["category_rule_id"]
+            isOneToOne: false
+            referencedRelation: "category_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vendors: {
+        Row: {
+          created_at: string
+          default_category: string | null
+          email: string | null
+          id: string
+          name: string
+          tax_form_received_on: string | null
+          tax_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          default_category?: string | null
+          email?: string | null
+          id?: string
+          name: string
+          tax_form_received_on?: string | null
+          tax_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          default_category?: string | null
+          email?: string | null
+          id?: string
+          name?: string
+          tax_form_received_on?: string | null
+          tax_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_category_changes: {
+        Args: {
+          p_changes: Json
+        }
+        Returns: number
+      }
+      decide_approval: {
+        Args: {
+          p_actor: string
+          p_comment?: string
+          p_decision: string
+          p_request_id: string
+        }
+        Returns: Database["public"]["Tables"]["approval_requests"]["Row"]
+      }
+      reconcile_bank_line: {
+        Args: {
+          p_category?: string
+          p_invoice_id?: string
+          p_line_id: string
+          p_transaction_id?: string
+        }
+        Returns: Database["public"]["Tables"]["bank_statement_lines"]["Row"]
+      }
+      record_bill_payment: {
+        Args: {
+          p_account_id?: string
+          p_amount: number
+          p_bill_id: string
+          p_date: string
+          p_reference?: string
+          p_take_discount?: boolean
+        }
+        Returns: Database["public"]["Tables"]["bills"]["Row"]
+      }
+      record_invoice_payment: {
+        Args: {
+          p_account_id?: string
+          p_amount: number
+          p_date: string
+          p_invoice_id: string
+          p_reference?: string
+        }
+        Returns: Database["public"]["Tables"]["invoices"]["Row"]
+      }
+      request_approval: {
+        Args: {
+          p_comment?: string
+          p_policy_id: string
+          p_requested_by: string
+          p_subject: string
+          p_subject_id: string
+        }
+        Returns: Database["public"]["Tables"]["approval_requests"]["Row"]
+      }
+      sync_compliance_findings: {
+        Args: {
+          p_findings: Json
+        }
+        Returns: Json
+      }
     }
     Enums: {
-      [_ in never]: never
+      account_type: "asset" | "liability" | "equity" | "income" | "expense"
+      approval_action_kind: "requested" | "approved" | "rejected" | "commented"
+      approval_request_status: "pending" | "approved" | "rejected"
+      approval_subject: "bill" | "expense"
+      bank_line_status: "unmatched" | "matched" | "ignored"
+      bill_approval_status: "pending" | "approved" | "rejected"
+      bill_status: "open" | "partially_paid" | "paid" | "void"
+      budget_dimension: "category" | "department" | "vendor"
+      category_source: "manual" | "rule" | "learned"
+      compliance_finding_status: "open" | "in_review" | "resolved" | "waived"
+      compliance_rule_kind:
+        | "approval_threshold"
+        | "receipt_required"
+        | "vendor_tax_docs"
+        | "segregation_of_duties"
+        | "approval_policy"
+      compliance_severity: "high" | "medium" | "low"
+      document_draft_status: "pending" | "posted" | "discarded"
+      document_draft_target: "transaction" | "bill"
+      document_kind: "receipt" | "invoice" | "contract" | "other"
+      filing_status: "in_progress" | "completed" | "not_required"
+      invoice_status: "draft" | "sent" | "partially_paid" | "paid" | "void"
+      obligation_frequency:
+        | "monthly"
+        | "quarterly"
+        | "semiannual"
+        | "annual"
+        | "once"
+      transaction_type: "income" | "expense" | "transfer"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -150,6 +1608,32 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      account_type: ["asset", "liability", "equity", "income", "expense"],
+      approval_action_kind: ["requested", "approved", "rejected", "commented"],
+      approval_request_status: ["pending", "approved", "rejected"],
+      approval_subject: ["bill", "expense"],
+      bank_line_status: ["unmatched", "matched", "ignored"],
+      bill_approval_status: ["pending", "approved", "rejected"],
+      bill_status: ["open", "partially_paid", "paid", "void"],
+      budget_dimension: ["category", "department", "vendor"],
+      category_source: ["manual", "rule", "learned"],
+      compliance_finding_status: ["open", "in_review", "resolved", "waived"],
+      compliance_rule_kind: [
+        "approval_threshold",
+        "receipt_required",
+        "vendor_tax_docs",
+        "segregation_of_duties",
+        "approval_policy",
+      ],
+      compliance_severity: ["high", "medium", "low"],
+      document_draft_status: ["pending", "posted", "discarded"],
+      document_draft_target: ["transaction", "bill"],
+      document_kind: ["receipt", "invoice", "contract", "other"],
+      filing_status: ["in_progress", "completed", "not_required"],
+      invoice_status: ["draft", "sent", "partially_paid", "paid", "void"],
+      obligation_frequency: ["monthly", "quarterly", "semiannual", "annual", "once"],
+      transaction_type: ["income", "expense", "transfer"],
+    },
   },
 } as const
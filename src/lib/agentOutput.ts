@@ -0,0 +1,318 @@
+import { z } from "zod";
+import { chartSpecSchema } from "./chartSpec";
+
+/**
+ * Structured output from the CFO agent, version 1:
+ *
+ *   { "version": 1, "requestType": "expense", "chatOutput": "...markdown...", "graphData": { ... } }
+ *
+ * `requestType` selects the `graphData` shape below. Plain prose answers need
+ * no JSON at all; they become `{ requestType: "text" }` and ChatVisualization
+ * pulls tables and metrics out of the markdown. Any type may add `charts`,
+ * declarative chart specs (chartSpec.ts); `requestType: "chart"` has nothing
+ * but those. Payloads from before the protocol (no version, capitalised
+ * types, bare `graphData`, `{ type, data }`) are upgraded by
+ * `upgradeLegacyOutput`.
+ */
+export const AGENT_OUTPUT_VERSION = 1;
+
+// Agents often quote figures as strings ("1,200.50" or "$300")
+const amount = z.preprocess(
+  (value) => (typeof value === "string" && value.trim() !== "" ? Number(value.replace(/[$,\s]/g, "")) : value),
+  z.number({ invalid_type_error: "Expected a number" }).finite()
+);
+
+// Records keyed by name, e.g. { "Rent": 1200, "Payroll": 5400 }
+const amountsByName = z.record(amount);
+
+// { name, amount } rows; older agents used category/source/channel and value
+const namedAmount = z
+  .object({
+    name: z.string().optional(),
+    category: z.string().optional(),
+    source: z.string().optional(),
+    channel: z.string().optional(),
+    description: z.string().optional(),
+    amount: amount.optional(),
+    value: amount.optional(),
+  })
+  .passthrough();
+
+const periodKeys = {
+  date: z.string().optional(),
+  month: z.string().optional(),
+  period: z.string().optional(),
+  year: z.union([z.string(), z.number()]).optional(),
+};
+
+const transactionNote = (note: "description" | "missing" | "reason") =>
+  z.object({ transactionId: z.string().optional(), [note]: z.string().optional() }).passthrough();
+
+export const complianceGraphDataSchema = z
+  .object({
+    // A count, or (legacy) the ids of the compliant transactions
+    compliantTransactions: z.union([amount, z.array(z.string())]).optional(),
+    nonCompliantTransactions: amount.optional(),
+    risks: z.array(z.string()).optional(),
+    flaggedTransactions: z.array(transactionNote("description")).optional(),
+    nonCompliantVendors: z
+      .array(z.object({ vendorName: z.string().optional(), transactionIds: z.array(z.string()).optional() }).passthrough())
+      .optional(),
+    missingDocumentation: z.array(transactionNote("missing")).optional(),
+    managerVerificationRequired: z.array(transactionNote("reason")).optional(),
+    // Filing deadlines and the obligations behind them, from the regulation calendar
+    checklists: z
+      .array(
+        z.object({
+          id: z.string().optional(),
+          name: z.string(),
+          status: z.string().optional(),
+          dueDate: z.string().optional(),
+          assignee: z.string().nullable().optional(),
+        }).passthrough()
+      )
+      .optional(),
+    regulations: z
+      .array(z.object({ id: z.string().optional(), name: z.string(), description: z.string().optional() }).passthrough())
+      .optional(),
+  })
+  .passthrough();
+
+export const expenseGraphDataSchema = z
+  .object({
+    expensesByCategory: amountsByName.optional(),
+    totalExpenses: amount.optional(),
+    categories: z.array(namedAmount).optional(),
+    timeSeries: z
+      .array(
+        z.object({
+          ...periodKeys,
+          amount: amount.optional(),
+          expense: amount.optional(),
+          value: amount.optional(),
+          category: z.string().optional(),
+        }).passthrough()
+      )
+      .optional(),
+    topExpenses: z.array(namedAmount).optional(),
+  })
+  .passthrough();
+
+export const incomeGraphDataSchema = z
+  .object({
+    incomeByChannel: amountsByName.optional(),
+    incomeBySource: amountsByName.optional(),
+    totalIncome: amount.optional(),
+    sources: z.array(namedAmount).optional(),
+    channels: z.array(namedAmount).optional(),
+    timeSeries: z
+      .array(
+        z.object({
+          ...periodKeys,
+          amount: amount.optional(),
+          income: amount.optional(),
+          value: amount.optional(),
+          source: z.string().optional(),
+        }).passthrough()
+      )
+      .optional(),
+  })
+  .passthrough();
+
+const periodTotals = z
+  .object({
+    ...periodKeys,
+    income: amount.optional(),
+    revenue: amount.optional(),
+    expense: amount.optional(),
+    expenses: amount.optional(),
+    net: amount.optional(),
+    profit: amount.optional(),
+    cashFlow: amount.optional(),
+  })
+  .passthrough();
+
+export const reportingGraphDataSchema = z
+  .object({
+    metrics: z.record(z.unknown()).optional(),
+    timeSeries: z.array(periodTotals).optional(),
+    monthlyData: z.array(periodTotals).optional(),
+    yearlyData: z.array(periodTotals).optional(),
+    categoriesByType: amountsByName.optional(),
+    categories: z.array(namedAmount).optional(),
+    comparison: z.array(z.record(z.unknown())).optional(),
+    totalRevenue: amount.optional(),
+    totalExpenses: amount.optional(),
+    netProfit: amount.optional(),
+  })
+  .passthrough();
+
+const outputBase = {
+  version: z.literal(AGENT_OUTPUT_VERSION),
+  chatOutput: z.string(),
+  // Declarative charts drawn alongside any request type
+  charts: z.array(chartSpecSchema).optional(),
+};
+
+export const agentOutputSchema = z.discriminatedUnion("requestType", [
+  z.object({ ...outputBase, requestType: z.literal("compliance"), graphData: complianceGraphDataSchema }),
+  z.object({ ...outputBase, requestType: z.literal("expense"), graphData: expenseGraphDataSchema }),
+  z.object({ ...outputBase, requestType: z.literal("income"), graphData: incomeGraphDataSchema }),
+  z.object({ ...outputBase, requestType: z.literal("reporting"), graphData: reportingGraphDataSchema }),
+  // Raw records for the process-data function to chart
+  z.object({
+    ...outputBase,
+    requestType: z.literal("dataset"),
+    dataType: z.string(),
+    data: z.union([z.array(z.record(z.unknown())), z.record(z.unknown())]),
+  }),
+  // Only the charts in `charts`
+  z.object({ ...outputBase, requestType: z.literal("chart"), charts: z.array(chartSpecSchema).min(1) }),
+  z.object({ ...outputBase, requestType: z.literal("text") }),
+]);
+
+export type AgentOutput = z.infer<typeof agentOutputSchema>;
+export type AgentRequestType = AgentOutput["requestType"];
+export type ComplianceGraphData = z.infer<typeof complianceGraphDataSchema>;
+export type ExpenseGraphData = z.infer<typeof expenseGraphDataSchema>;
+export type IncomeGraphData = z.infer<typeof incomeGraphDataSchema>;
+export type ReportingGraphData = z.infer<typeof reportingGraphDataSchema>;
+
+// What a chat message keeps: the validated output plus anything that went
+// wrong reading it, so the chat can say why there is no chart
+export type VisualizationPayload = AgentOutput & { issues?: string[] };
+
+const GRAPH_REQUEST_TYPES = ["compliance", "expense", "income", "reporting"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const textOutput = (chatOutput: string, issues: string[] = []): VisualizationPayload => ({
+  version: AGENT_OUTPUT_VERSION,
+  requestType: "text",
+  chatOutput,
+  ...(issues.length > 0 ? { issues } : {}),
+});
+
+/**
+ * Bring an object in any of the formats agents have produced up to the
+ * current version. Returns null when it does not look like agent output.
+ */
+export function upgradeLegacyOutput(raw: Record<string, unknown>, fallbackText: string): Record<string, unknown> | null {
+  const chatOutput = typeof raw.chatOutput === "string" && raw.chatOutput.trim() ? raw.chatOutput : fallbackText;
+  const legacyType = typeof raw.type === "string" ? raw.type.toLowerCase() : undefined;
+  const charts = Array.isArray(raw.charts) ? { charts: raw.charts } : {};
+
+  if (typeof raw.requestType === "string") {
+    return { ...raw, version: raw.version ?? AGENT_OUTPUT_VERSION, requestType: raw.requestType.toLowerCase(), chatOutput };
+  }
+  // { graphData } was the original compliance report; { type, graphData } named its kind
+  if (raw.graphData !== undefined) {
+    const requestType = legacyType && GRAPH_REQUEST_TYPES.includes(legacyType) ? legacyType : "compliance";
+    return { version: AGENT_OUTPUT_VERSION, requestType, chatOutput, graphData: raw.graphData, ...charts };
+  }
+  if (raw.data !== undefined && (Array.isArray(raw.data) || isRecord(raw.data))) {
+    return { version: AGENT_OUTPUT_VERSION, requestType: "dataset", dataType: legacyType || "financial", chatOutput, data: raw.data, ...charts };
+  }
+  if (Array.isArray(raw.charts)) {
+    return { version: AGENT_OUTPUT_VERSION, requestType: "chart", chatOutput, ...charts };
+  }
+  if (typeof raw.chatOutput === "string") {
+    return { version: AGENT_OUTPUT_VERSION, requestType: "text", chatOutput };
+  }
+  return null;
+}
+
+function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    if (issue.code === "invalid_union_discriminator") return "Unknown requestType";
+    const path = issue.path.join(".");
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+// One bad chart spec should not cost the answer its other charts or its
+// graphData, so specs are checked one by one and the invalid ones dropped
+function dropInvalidCharts(output: Record<string, unknown>): { output: Record<string, unknown>; issues: string[] } {
+  if (!Array.isArray(output.charts)) return { output, issues: [] };
+  const issues: string[] = [];
+  const charts = output.charts.filter((chart, index) => {
+    const result = chartSpecSchema.safeParse(chart);
+    if (!result.success) issues.push(...describeIssues(result.error).map((issue) => `charts.${index}: ${issue}`));
+    return result.success;
+  });
+  return { output: { ...output, charts }, issues };
+}
+
+/**
+ * Validate an already parsed payload (an API response field or a message
+ * restored from chat history). Anything invalid falls back to the text.
+ */
+export function normalizeAgentOutput(value: unknown, fallbackText = ""): VisualizationPayload {
+  if (!isRecord(value)) return textOutput(fallbackText);
+  const upgraded = upgradeLegacyOutput(value, fallbackText);
+  if (!upgraded) return textOutput(fallbackText);
+
+  if (typeof upgraded.version === "number" && upgraded.version > AGENT_OUTPUT_VERSION) {
+    return textOutput(upgraded.chatOutput as string, [`Unsupported output version ${upgraded.version}`]);
+  }
+  const { output, issues: chartIssues } = dropInvalidCharts(upgraded);
+  const result = agentOutputSchema.safeParse(output);
+  if (result.success) {
+    const issues = [...(Array.isArray(value.issues) ? value.issues.map(String) : []), ...chartIssues];
+    return issues.length > 0 ? { ...result.data, issues } : result.data;
+  }
+
+  const issues = describeIssues(result.error).map((issue) =>
+    issue === "Unknown requestType" ? `Unknown requestType "${upgraded.requestType}"` : issue
+  );
+  return textOutput(upgraded.chatOutput as string, [...chartIssues, ...issues]);
+}
+
+// The first balanced {"...} in `text`, skipping braces inside strings
+function findJsonObject(text: string): string | null {
+  const start = text.search(/\{\s*"/);
+  if (start === -1) return null;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (c === "\\") i++;
+      else if (c === '"') inString = false;
+    } else if (c === '"') {
+      inString = true;
+    } else if (c === "{") {
+      depth++;
+    } else if (c === "}" && --depth === 0) {
+      return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+// Where the JSON in a response can be: a ```json fence, the whole body, or
+// an object embedded in prose that mentions the protocol's keys
+function findJsonCandidate(text: string): string | null {
+  const fenced = text.match(/```json\s*([\s\S]*?)\s*```/);
+  if (fenced) return fenced[1];
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) return trimmed;
+  if (/"(requestType|graphData|chatOutput|charts)"\s*:/.test(text)) return findJsonObject(text);
+  return null;
+}
+
+/** Read the agent's answer as protocol output, reporting malformed JSON. */
+export function parseAgentOutput(text: string): VisualizationPayload {
+  const candidate = findJsonCandidate(text);
+  if (candidate === null) return textOutput(text);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(candidate);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return textOutput(text, [`The agent returned malformed JSON: ${reason}`]);
+  }
+  return normalizeAgentOutput(parsed, text);
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { parseStatementSheet } from "./bankStatements";
+
+describe("parseStatementSheet", () => {
+  it("reads debit and credit columns, not a value date, as the amount", () => {
+    const statement = parseStatementSheet({
+      fileName: "export.csv",
+      headers: ["Booking Date", "Value Date", "Description", "Debit", "Credit", "Balance"],
+      rows: [
+        { "Booking Date": "2025-01-02", "Value Date": "2025-01-03", Description: "Rent", Debit: "250.00", Credit: "", Balance: "750.00" },
+        { "Booking Date": "2025-01-05", "Value Date": "2025-01-06", Description: "Invoice 12", Debit: "", Credit: "1,200.00", Balance: "1,950.00" },
+      ],
+    });
+    expect(statement.lines.map((l) => [l.date, l.amount, l.description])).toEqual([
+      ["2025-01-02", -250, "Rent"],
+      ["2025-01-05", 1200, "Invoice 12"],
+    ]);
+    expect(statement.openingBalance).toBe(1000);
+    expect(statement.closingBalance).toBe(1950);
+  });
+
+  it("prefers debit and credit columns to an unsigned amount", () => {
+    const statement = parseStatementSheet({
+      fileName: "export.csv",
+      headers: ["Date", "Amount", "Debit", "Credit"],
+      rows: [{ Date: "2025-01-02", Amount: "80.00", Debit: "80.00", Credit: "" }],
+    });
+    expect(statement.lines[0].amount).toBe(-80);
+  });
+
+  it("still takes a column headed just Value as the amount", () => {
+    const statement = parseStatementSheet({
+      fileName: "export.csv",
+      headers: ["Date", "Description", "Value"],
+      rows: [{ Date: "2025-01-02", Description: "Card payment", Value: "-42.10" }],
+    });
+    expect(statement.lines[0].amount).toBe(-42.1);
+  });
+
+  it("reads decimal commas", () => {
+    const statement = parseStatementSheet({
+      fileName: "export.csv",
+      headers: ["Date", "Description", "Amount", "Balance"],
+      rows: [
+        { Date: "02.01.2025", Description: "Rent", Amount: "-1.234,56", Balance: "8.765,44" },
+        { Date: "15.01.2025", Description: "Interest", Amount: "12,5 EUR", Balance: "8.777,94" },
+      ],
+    });
+    expect(statement.lines.map((l) => l.amount)).toEqual([-1234.56, 12.5]);
+    expect(statement.openingBalance).toBe(10000);
+    expect(statement.closingBalance).toBe(8777.94);
+  });
+
+  it("keeps commas that group thousands", () => {
+    const statement = parseStatementSheet({
+      fileName: "export.csv",
+      headers: ["Date", "Amount"],
+      rows: [{ Date: "2025-01-02", Amount: "1,234" }],
+    });
+    expect(statement.lines[0].amount).toBe(1234);
+  });
+});
@@ -0,0 +1,374 @@
+import {
+  normalizeHeader,
+  parseImportAmount,
+  parseImportDate,
+  parseImportFile,
+  type DateFormat,
+  type ParsedSheet,
+  type SheetRow,
+} from "./ledgerImport";
+
+export type StatementFormat = "ofx" | "camt053" | "csv";
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  ofx: "OFX / QFX",
+  camt053: "CAMT.053",
+  csv: "CSV",
+};
+
+export interface StatementLine {
+  date: string;
+  amount: number; // signed as the bank reports it: positive is money in
+  description: string | null;
+  reference: string | null;
+  // The bank's id for the line, or a fingerprint when the file has none
+  externalId: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  fileName: string;
+  accountNumber: string | null;
+  currency: string | null;
+  periodStart: string | null;
+  periodEnd: string;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  lines: StatementLine[];
+  skipped: number; // rows without a readable date or amount
+}
+
+type DraftLine = Omit<StatementLine, "externalId"> & { externalId?: string | null };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const optionalText = (value: unknown) => {
+  const text = String(value ?? "").replace(/\s+/g, " ").trim();
+  return text ? text : null;
+};
+
+// Some banks write decimal commas: "12,50" or "1.234,56". A comma followed by
+// one or two final digits is the decimal point; otherwise commas group thousands
+function statementAmount(value: unknown): number | null {
+  if (typeof value === "number") return isFinite(value) ? value : null;
+  const text = String(value ?? "").trim();
+  if (/,\d{1,2}$/.test(text.replace(/[^0-9.,]/g, ""))) {
+    return parseImportAmount(text.replace(/\./g, "").replace(",", "."));
+  }
+  return parseImportAmount(text);
+}
+
+// Lines without a bank id are keyed on what they show, numbered when a
+// statement repeats the same line, so re-importing the file finds them again
+function withExternalIds(lines: DraftLine[]): StatementLine[] {
+  const seen = new Map<string, number>();
+  return lines.map((line) => {
+    if (line.externalId) return { ...line, externalId: line.externalId };
+    const key = `${line.date}|${line.amount.toFixed(2)}|${line.description ?? ""}|${line.reference ?? ""}`;
+    const count = (seen.get(key) || 0) + 1;
+    seen.set(key, count);
+    return { ...line, externalId: count > 1 ? `${key}#${count}` : key };
+  });
+}
+
+function finishStatement(
+  base: Omit<ParsedStatement, "lines" | "periodStart" | "periodEnd" | "skipped"> & {
+    periodStart?: string | null;
+    periodEnd?: string | null;
+  },
+  lines: DraftLine[],
+  skipped: number
+): ParsedStatement {
+  if (lines.length === 0) throw new Error(`No transactions found in ${base.fileName}`);
+  const dates = lines.map((l) => l.date).sort();
+  return {
+    ...base,
+    periodStart: base.periodStart || dates[0],
+    periodEnd: base.periodEnd || dates[dates.length - 1],
+    lines: withExternalIds(lines),
+    skipped,
+  };
+}
+
+// --- OFX / QFX ---------------------------------------------------------------
+// OFX 1.x is SGML where leaf elements have no closing tag; 2.x is XML. Reading
+// each leaf up to the next "<" or line break handles both.
+
+const decodeEntities = (text: string) =>
+  text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, "&");
+
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? optionalText(decodeEntities(match[1])) : null;
+}
+
+function ofxBlock(text: string, tag: string): string | null {
+  const match = text.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "i"));
+  return match ? match[1] : null;
+}
+
+// 20240131120000.000[-5:EST] -> 2024-01-31
+function ofxDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? parseImportDate(`${match[1]}-${match[2]}-${match[3]}`) : null;
+}
+
+export function parseOfx(text: string, fileName: string): ParsedStatement {
+  const lines: DraftLine[] = [];
+  let skipped = 0;
+  for (const match of text.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)) {
+    const block = match[1];
+    const date = ofxDate(ofxValue(block, "DTPOSTED"));
+    const amount = statementAmount(ofxValue(block, "TRNAMT"));
+    if (!date || amount === null) {
+      skipped++;
+      continue;
+    }
+    const name = ofxValue(block, "NAME");
+    const memo = ofxValue(block, "MEMO");
+    lines.push({
+      date,
+      amount: round2(amount),
+      description: name && memo && name !== memo ? `${name} - ${memo}` : name || memo,
+      reference: ofxValue(block, "CHECKNUM") || ofxValue(block, "REFNUM"),
+      externalId: ofxValue(block, "FITID"),
+    });
+  }
+
+  const ledgerBalance = ofxBlock(text, "LEDGERBAL");
+  const closingBalance = ledgerBalance ? statementAmount(ofxValue(ledgerBalance, "BALAMT")) : null;
+  const transactionList = ofxBlock(text, "BANKTRANLIST") || "";
+  const total = lines.reduce((sum, l) => sum + l.amount, 0);
+
+  return finishStatement(
+    {
+      format: "ofx",
+      fileName,
+      accountNumber: ofxValue(text, "ACCTID"),
+      currency: ofxValue(text, "CURDEF"),
+      periodStart: ofxDate(ofxValue(transactionList, "DTSTART")),
+      // The balance is as of its own date, which may be after the last line
+      periodEnd: (ledgerBalance && ofxDate(ofxValue(ledgerBalance, "DTASOF"))) || ofxDate(ofxValue(transactionList, "DTEND")),
+      openingBalance: closingBalance === null ? null : round2(closingBalance - total),
+      closingBalance,
+    },
+    lines,
+    skipped
+  );
+}
+
+// --- CAMT.053 ----------------------------------------------------------------
+// ISO 20022 bank-to-customer statement. Elements are matched by local name so
+// any camt.053.001.xx namespace version reads the same. Only the first
+// statement in the file is read; banks send one file per account.
+
+const childElements = (parent: Element, name: string) =>
+  Array.from(parent.children).filter((child) => child.localName === name);
+
+// Follow a path of direct children, e.g. path(entry, "BookgDt", "Dt")
+function path(parent: Element | null | undefined, ...names: string[]): Element | null {
+  let current = parent || null;
+  for (const name of names) {
+    if (!current) return null;
+    current = childElements(current, name)[0] || null;
+  }
+  return current;
+}
+
+const textOf = (element: Element | null) => optionalText(element?.textContent);
+
+const descendants = (parent: Element, name: string) => Array.from(parent.getElementsByTagNameNS("*", name));
+
+function camtDate(parent: Element | null): string | null {
+  return parseImportDate(textOf(path(parent, "Dt")) || textOf(path(parent, "DtTm")) || "", "YYYY-MM-DD");
+}
+
+// Amounts are unsigned with a separate credit/debit indicator
+function camtAmount(parent: Element): number | null {
+  const amount = statementAmount(textOf(path(parent, "Amt")));
+  if (amount === null) return null;
+  return round2(textOf(path(parent, "CdtDbtInd")) === "DBIT" ? -amount : amount);
+}
+
+export function parseCamt053(text: string, fileName: string): ParsedStatement {
+  const document = new DOMParser().parseFromString(text, "application/xml");
+  if (document.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`Could not parse ${fileName}: the file is not valid XML`);
+  }
+  const statement = descendants(document.documentElement, "Stmt")[0];
+  if (!statement) throw new Error(`${fileName} does not contain a CAMT.053 statement`);
+
+  const balances = new Map<string, { date: string | null; amount: number | null }>();
+  for (const balance of childElements(statement, "Bal")) {
+    const code = textOf(path(balance, "Tp", "CdOrPrtry", "Cd"));
+    if (code) balances.set(code, { date: camtDate(path(balance, "Dt")), amount: camtAmount(balance) });
+  }
+  // Opening booked, or the previous statement's closing balance
+  const opening = balances.get("OPBD") || balances.get("PRCD");
+  const closing = balances.get("CLBD");
+
+  const lines: DraftLine[] = [];
+  let skipped = 0;
+  for (const entry of childElements(statement, "Ntry")) {
+    // Pending entries may still change, so only booked ones are imported
+    if (textOf(path(entry, "Sts")) === "PDNG") continue;
+    const date = camtDate(path(entry, "BookgDt")) || camtDate(path(entry, "ValDt"));
+    const amount = camtAmount(entry);
+    if (!date || amount === null) {
+      skipped++;
+      continue;
+    }
+    const remittance = descendants(entry, "Ustrd").map(textOf).filter(Boolean);
+    const party = descendants(entry, amount < 0 ? "Cdtr" : "Dbtr").map((p) => textOf(path(p, "Nm")) || textOf(path(p, "Pty", "Nm")))[0];
+    const description = [party, ...remittance, textOf(path(entry, "AddtlNtryInf"))].filter(Boolean);
+    const endToEnd = descendants(entry, "EndToEndId").map(textOf).find((id) => id && id !== "NOTPROVIDED");
+    lines.push({
+      date,
+      amount,
+      description: description.length > 0 ? Array.from(new Set(description)).join(" - ") : null,
+      reference: endToEnd || textOf(descendants(entry, "CdtrRefInf").map((r) => path(r, "Ref"))[0]),
+      externalId: textOf(path(entry, "AcctSvcrRef")) || textOf(path(entry, "NtryRef")),
+    });
+  }
+
+  const account = path(statement, "Acct");
+  return finishStatement(
+    {
+      format: "camt053",
+      fileName,
+      accountNumber: textOf(path(account, "Id", "IBAN")) || textOf(path(account, "Id", "Othr", "Id")),
+      currency: textOf(path(account, "Ccy")) || path(childElements(statement, "Ntry")[0], "Amt")?.getAttribute("Ccy") || null,
+      periodStart: parseImportDate(textOf(path(statement, "FrToDt", "FrDtTm")) || "", "YYYY-MM-DD"),
+      periodEnd: closing?.date || parseImportDate(textOf(path(statement, "FrToDt", "ToDtTm")) || "", "YYYY-MM-DD"),
+      openingBalance: opening?.amount ?? null,
+      closingBalance: closing?.amount ?? null,
+    },
+    lines,
+    skipped
+  );
+}
+
+// --- CSV and spreadsheets ----------------------------------------------------
+
+type StatementColumn = "date" | "description" | "amount" | "debit" | "credit" | "indicator" | "reference" | "balance";
+
+const COLUMN_SYNONYMS: Record<StatementColumn, string[]> = {
+  date: ["date", "transactiondate", "postingdate", "posteddate", "bookingdate", "valuedate"],
+  description: ["description", "details", "narrative", "memo", "payee", "name", "transactiondescription"],
+  amount: ["amount", "transactionamount", "value"],
+  debit: ["debit", "debits", "withdrawal", "withdrawals", "moneyout", "paidout"],
+  credit: ["credit", "credits", "deposit", "deposits", "moneyin", "paidin"],
+  indicator: ["debitcredit", "creditdebit", "drcr", "crdr", "type", "transactiontype"],
+  reference: ["reference", "ref", "checknumber", "chequenumber", "transactionid", "id"],
+  balance: ["balance", "runningbalance", "closingbalance"],
+};
+
+// Headers such as "Value Date" contain other columns' synonyms, so only the
+// date column may partly match a header that mentions a date
+function detectStatementColumns(headers: string[]): Partial<Record<StatementColumn, string>> {
+  const columns: Partial<Record<StatementColumn, string>> = {};
+  const used = new Set<string>();
+  const normalized = headers.map((header) => ({ header, key: normalizeHeader(header) }));
+  for (const pass of ["exact", "partial"] as const) {
+    for (const column of Object.keys(COLUMN_SYNONYMS) as StatementColumn[]) {
+      if (columns[column]) continue;
+      for (const synonym of COLUMN_SYNONYMS[column]) {
+        if (pass === "partial" && synonym.length < 4) continue;
+        const match = normalized.find(
+          ({ header, key }) =>
+            !used.has(header) &&
+            (pass === "exact"
+              ? key === synonym
+              : key.includes(synonym) && (column === "date" || !key.includes("date")))
+        );
+        if (match) {
+          columns[column] = match.header;
+          used.add(match.header);
+          break;
+        }
+      }
+    }
+  }
+  return columns;
+}
+
+// A day above 12 in either position settles the order for the whole file
+function detectDateFormat(values: unknown[]): DateFormat {
+  for (const value of values) {
+    const match = String(value ?? "").trim().match(/^(\d{1,2})[-/.](\d{1,2})[-/.]\d{2,4}$/);
+    if (!match) continue;
+    if (Number(match[1]) > 12) return "DD/MM/YYYY";
+    if (Number(match[2]) > 12) return "MM/DD/YYYY";
+  }
+  return "auto";
+}
+
+export function parseStatementSheet(sheet: ParsedSheet): ParsedStatement {
+  const columns = detectStatementColumns(sheet.headers);
+  if (!columns.date) throw new Error(`${sheet.fileName} has no date column`);
+  if (!columns.amount && !columns.debit && !columns.credit) {
+    throw new Error(`${sheet.fileName} needs an amount column, or debit and credit columns`);
+  }
+  const cell = (row: SheetRow, column: StatementColumn) => (columns[column] ? row[columns[column]!] : undefined);
+  const dateFormat = detectDateFormat(sheet.rows.map((row) => cell(row, "date")));
+
+  const rows: { line: DraftLine; balance: number | null }[] = [];
+  let skipped = 0;
+  for (const row of sheet.rows) {
+    const date = parseImportDate(cell(row, "date"), dateFormat);
+    let amount: number | null;
+    // Separate debit and credit columns are clearer than a signed amount
+    if (columns.amount && !(columns.debit && columns.credit)) {
+      amount = statementAmount(cell(row, "amount"));
+      if (amount !== null && /^(dr|debit|d)$/i.test(String(cell(row, "indicator") ?? "").trim())) amount = -Math.abs(amount);
+    } else {
+      const credit = statementAmount(cell(row, "credit"));
+      const debit = statementAmount(cell(row, "debit"));
+      amount = credit === null && debit === null ? null : Math.abs(credit ?? 0) - Math.abs(debit ?? 0);
+    }
+    if (!date || amount === null) {
+      skipped++;
+      continue;
+    }
+    rows.push({
+      line: {
+        date,
+        amount: round2(amount),
+        description: optionalText(cell(row, "description")),
+        reference: optionalText(cell(row, "reference")),
+      },
+      balance: columns.balance ? statementAmount(cell(row, "balance")) : null,
+    });
+  }
+
+  // Running balances give the statement's ends; files list newest first or last
+  const newestFirst = rows.length > 1 && rows[0].line.date > rows[rows.length - 1].line.date;
+  const chronological = newestFirst ? [...rows].reverse() : rows;
+  const first = chronological[0];
+  const last = chronological[chronological.length - 1];
+
+  return finishStatement(
+    {
+      format: "csv",
+      fileName: sheet.fileName,
+      accountNumber: null,
+      currency: null,
+      openingBalance: first && first.balance !== null ? round2(first.balance - first.line.amount) : null,
+      closingBalance: last ? last.balance : null,
+    },
+    chronological.map((r) => r.line),
+    skipped
+  );
+}
+
+/** Read a bank statement, telling the format from the file's extension and content. */
+export async function parseStatementFile(file: File): Promise<ParsedStatement> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  if (extension === "ofx" || extension === "qfx" || extension === "xml") {
+    const text = await file.text();
+    if (/<OFX>|OFXHEADER/i.test(text)) return parseOfx(text, file.name);
+    if (/camt\.053|<BkToCstmrStmt/.test(text)) return parseCamt053(text, file.name);
+    throw new Error(`${file.name} is neither an OFX/QFX nor a CAMT.053 statement`);
+  }
+  return parseStatementSheet(await parseImportFile(file));
+}
@@ -0,0 +1,311 @@
+import Papa from "papaparse";
+import { parseImportAmount } from "./ledgerImport";
+
+// What a monthly budget can be set against; actual spend is grouped the same way
+export const BUDGET_DIMENSIONS = ["category", "department", "vendor"] as const;
+
+export type BudgetDimension = (typeof BUDGET_DIMENSIONS)[number];
+
+export const BUDGET_DIMENSION_LABELS: Record<BudgetDimension, string> = {
+  category: "Category",
+  department: "Department",
+  vendor: "Vendor",
+};
+
+// Spend that has no value for the dimension
+export const UNASSIGNED_LABELS: Record<BudgetDimension, string> = {
+  category: "Uncategorized",
+  department: "No department",
+  vendor: "No vendor",
+};
+
+export function isBudgetDimension(value: string | null): value is BudgetDimension {
+  return !!value && (BUDGET_DIMENSIONS as readonly string[]).includes(value);
+}
+
+export interface BudgetLine {
+  dimension: BudgetDimension;
+  name: string;
+  month: string; // YYYY-MM-01
+  amount: number;
+}
+
+// The parts of a ledger transaction that count towards actual spend
+export interface SpendTransaction {
+  id: string;
+  date: string;
+  amount: number;
+  type: string;
+  category: string | null;
+  department: string | null;
+  vendor_id: string | null;
+}
+
+// How far actual spend may stray from budget, as a fraction, before it is flagged
+export const VARIANCE_TOLERANCES = [0, 0.05, 0.1, 0.2] as const;
+export const DEFAULT_TOLERANCE = 0.1;
+
+export type VarianceStatus = "over" | "on-track" | "under" | "unbudgeted";
+
+export const VARIANCE_STATUS_LABELS: Record<VarianceStatus, string> = {
+  over: "Over budget",
+  "on-track": "On track",
+  under: "Under budget",
+  unbudgeted: "Unbudgeted",
+};
+
+export function formatBudgetAmount(value: number) {
+  return value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+}
+
+export function formatVariancePct(value: number | null) {
+  if (value === null) return "—";
+  return `${value > 0 ? "+" : ""}${(value * 100).toFixed(1)}%`;
+}
+
+export interface VarianceRow {
+  name: string;
+  budget: number;
+  actual: number;
+  // Positive when spend is over budget
+  variance: number;
+  // variance / budget, null without a budget
+  variancePct: number | null;
+  status: VarianceStatus;
+  transactionIds: string[];
+}
+
+export interface VarianceReport {
+  dimension: BudgetDimension;
+  rows: VarianceRow[];
+  totals: Omit<VarianceRow, "name" | "status" | "transactionIds">;
+}
+
+export const monthStart = (date: string) => `${date.slice(0, 7)}-01`;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function spendKey(t: SpendTransaction, dimension: BudgetDimension, vendorNames: Map<string, string>): string {
+  const value =
+    dimension === "vendor" ? (t.vendor_id ? vendorNames.get(t.vendor_id) : null) : t[dimension];
+  return value?.trim() || UNASSIGNED_LABELS[dimension];
+}
+
+function inRange(date: string, range: { start?: string; end?: string }) {
+  return (!range.start || date >= range.start) && (!range.end || date <= range.end);
+}
+
+export function varianceStatus(budget: number, actual: number, tolerance: number): VarianceStatus {
+  if (budget === 0) return actual > 0 ? "unbudgeted" : "on-track";
+  const pct = (actual - budget) / budget;
+  if (pct > tolerance) return "over";
+  if (pct < -tolerance) return "under";
+  return "on-track";
+}
+
+/**
+ * Budget against actual expense spend for every name in `dimension`. Budgets
+ * are monthly, so the range starts at the beginning of its first month for
+ * both sides. Names with spend but no budget come through as "unbudgeted".
+ */
+export function budgetVariance(
+  budgets: BudgetLine[],
+  transactions: SpendTransaction[],
+  vendorNames: Map<string, string>,
+  dimension: BudgetDimension,
+  range: { start?: string; end?: string },
+  tolerance = DEFAULT_TOLERANCE
+): VarianceReport {
+  const monthRange = { start: range.start && monthStart(range.start), end: range.end };
+  const rows = new Map<string, VarianceRow>();
+  const row = (name: string) => {
+    let existing = rows.get(name);
+    if (!existing) {
+      existing = { name, budget: 0, actual: 0, variance: 0, variancePct: null, status: "on-track", transactionIds: [] };
+      rows.set(name, existing);
+    }
+    return existing;
+  };
+
+  for (const line of budgets) {
+    if (line.dimension !== dimension || !inRange(line.month, monthRange)) continue;
+    row(line.name).budget += line.amount;
+  }
+  for (const t of transactions) {
+    if (t.type !== "expense" || !inRange(t.date, monthRange)) continue;
+    const target = row(spendKey(t, dimension, vendorNames));
+    target.actual += t.amount;
+    target.transactionIds.push(t.id);
+  }
+
+  const result = Array.from(rows.values()).map((r) => {
+    const budget = round2(r.budget);
+    const actual = round2(r.actual);
+    const variance = round2(actual - budget);
+    return {
+      ...r,
+      budget,
+      actual,
+      variance,
+      variancePct: budget ? variance / budget : null,
+      status: varianceStatus(budget, actual, tolerance),
+    };
+  });
+  // Biggest overspend first
+  result.sort((a, b) => b.variance - a.variance || a.name.localeCompare(b.name));
+
+  const budget = round2(result.reduce((sum, r) => sum + r.budget, 0));
+  const actual = round2(result.reduce((sum, r) => sum + r.actual, 0));
+  const variance = round2(actual - budget);
+  return {
+    dimension,
+    rows: result,
+    totals: { budget, actual, variance, variancePct: budget ? variance / budget : null },
+  };
+}
+
+/** Monthly expense spend as budget lines, e.g. to budget next year off this year's actuals. */
+export function spendByMonth(
+  transactions: SpendTransaction[],
+  vendorNames: Map<string, string>,
+  dimension: BudgetDimension
+): BudgetLine[] {
+  const totals = new Map<string, BudgetLine>();
+  for (const t of transactions) {
+    if (t.type !== "expense") continue;
+    const name = spendKey(t, dimension, vendorNames);
+    const month = monthStart(t.date);
+    const key = `${name}\u0000${month}`;
+    const line = totals.get(key) ?? { dimension, name, month, amount: 0 };
+    line.amount += t.amount;
+    totals.set(key, line);
+  }
+  return Array.from(totals.values()).map((line) => ({ ...line, amount: round2(line.amount) }));
+}
+
+/**
+ * Move lines from `fromYear` twelve months forward, scaled by `upliftPct`
+ * (5 means 5% more). Lines in other years are ignored.
+ */
+export function copyForward(lines: BudgetLine[], fromYear: number, upliftPct = 0): BudgetLine[] {
+  const factor = 1 + upliftPct / 100;
+  return lines
+    .filter((line) => line.month.startsWith(`${fromYear}-`))
+    .map((line) => ({
+      ...line,
+      month: `${fromYear + 1}${line.month.slice(4)}`,
+      amount: round2(line.amount * factor),
+    }));
+}
+
+// One line per dimension, name and month; the last one wins
+export function dedupeBudgetLines(lines: BudgetLine[]): BudgetLine[] {
+  const byKey = new Map<string, BudgetLine>();
+  for (const line of lines) byKey.set(`${line.dimension}\u0000${line.name}\u0000${line.month}`, line);
+  return Array.from(byKey.values());
+}
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** "2025-03", "2025-03-01", "03/2025", "Mar 2025", "March-25" -> "2025-03-01" */
+export function parseBudgetMonth(value: unknown): string | null {
+  const text = String(value ?? "").trim().toLowerCase();
+  if (!text) return null;
+  const valid = (year: number, month: number) =>
+    month >= 1 && month <= 12 ? `${year < 100 ? 2000 + year : year}-${pad(month)}-01` : null;
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?$/);
+  if (iso) return valid(Number(iso[1]), Number(iso[2]));
+  const numeric = text.match(/^(\d{1,2})[-/.](\d{4})$/);
+  if (numeric) return valid(Number(numeric[2]), Number(numeric[1]));
+  const named = text.match(/^([a-z]{3,9})\.?[\s\-/']*(\d{2}|\d{4})$/);
+  if (named) {
+    const month = MONTH_NAMES.indexOf(named[1].slice(0, 3)) + 1;
+    return month > 0 ? valid(Number(named[2]), month) : null;
+  }
+  return null;
+}
+
+export interface BudgetCsvResult {
+  lines: BudgetLine[];
+  errors: string[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Budget lines from a CSV in either layout:
+ *
+ *   long:  Month,Category,Amount             (optional Dimension column)
+ *   wide:  Category,Jan 2025,Feb 2025,...    (one column per month)
+ *
+ * A Category, Department or Vendor header sets the dimension; otherwise a
+ * Name column is read as `defaultDimension`.
+ */
+export function parseBudgetCsv(text: string, defaultDimension: BudgetDimension): BudgetCsvResult {
+  const parsed = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: "greedy",
+    transformHeader: (header) => header.trim(),
+  });
+  const headers = (parsed.meta.fields || []).filter(Boolean);
+  const lines: BudgetLine[] = [];
+  const errors: string[] = [];
+  const find = (...names: string[]) => headers.find((h) => names.includes(normalizeHeader(h)));
+
+  const dimensionHeader = find(...BUDGET_DIMENSIONS);
+  const nameHeader = dimensionHeader ?? find("name", "budget", "line", "item");
+  const headerDimension = dimensionHeader
+    ? (normalizeHeader(dimensionHeader) as BudgetDimension)
+    : defaultDimension;
+  const monthHeader = find("month", "period", "date");
+  const amountHeader = find("amount", "budget", "value", "total");
+  const rowDimensionHeader = find("dimension", "type");
+
+  if (!nameHeader) {
+    return { lines, errors: ["Add a Category, Department, Vendor or Name column"] };
+  }
+
+  if (monthHeader && amountHeader && amountHeader !== nameHeader) {
+    parsed.data.forEach((row, index) => {
+      const rowNumber = index + 1;
+      const name = String(row[nameHeader] ?? "").trim();
+      const month = parseBudgetMonth(row[monthHeader]);
+      const amount = parseImportAmount(row[amountHeader]);
+      const rawDimension = rowDimensionHeader ? String(row[rowDimensionHeader] ?? "").trim().toLowerCase() : "";
+      const dimension = rawDimension ? rawDimension : headerDimension;
+      if (!name) errors.push(`Row ${rowNumber}: missing name`);
+      else if (!month) errors.push(`Row ${rowNumber}: invalid month "${row[monthHeader] ?? ""}"`);
+      else if (amount === null || amount < 0) errors.push(`Row ${rowNumber}: invalid amount "${row[amountHeader] ?? ""}"`);
+      else if (!isBudgetDimension(dimension)) errors.push(`Row ${rowNumber}: unknown dimension "${rawDimension}"`);
+      else lines.push({ dimension, name, month, amount });
+    });
+    return { lines: dedupeBudgetLines(lines), errors };
+  }
+
+  const monthColumns = headers
+    .filter((h) => h !== nameHeader)
+    .map((header) => ({ header, month: parseBudgetMonth(header) }))
+    .filter((c): c is { header: string; month: string } => c.month !== null);
+  if (monthColumns.length === 0) {
+    return { lines, errors: ["Add Month and Amount columns, or one column per month such as \"Jan 2025\""] };
+  }
+
+  parsed.data.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const name = String(row[nameHeader] ?? "").trim();
+    if (!name) {
+      errors.push(`Row ${rowNumber}: missing name`);
+      return;
+    }
+    for (const { header, month } of monthColumns) {
+      if (String(row[header] ?? "").trim() === "") continue;
+      const amount = parseImportAmount(row[header]);
+      if (amount === null || amount < 0) errors.push(`Row ${rowNumber}: invalid amount "${row[header]}" for ${header}`);
+      else lines.push({ dimension: headerDimension, name, month, amount });
+    }
+  });
+  return { lines: dedupeBudgetLines(lines), errors };
+}
@@ -0,0 +1,199 @@
+import { z } from "zod";
+
+/**
+ * Declarative chart specs the agent can return in `charts` (see
+ * agentOutput.ts). ChartSpecChart renders them, so a new kind of analysis
+ * only needs a new spec, not new frontend code. Example:
+ *
+ *   {
+ *     "type": "combo",
+ *     "title": "Revenue and margin",
+ *     "data": [{ "month": "2025-01", "revenue": 52000, "margin": 18.5 }, ...],
+ *     "xAxis": { "key": "month" },
+ *     "yAxis": { "format": { "style": "currency" } },
+ *     "y2Axis": { "format": { "style": "percent" } },
+ *     "series": [
+ *       { "key": "revenue", "name": "Revenue", "type": "bar" },
+ *       { "key": "margin", "name": "Margin", "type": "line", "axis": "right" }
+ *     ],
+ *     "annotations": [{ "type": "line", "axis": "y", "value": 50000, "label": "Target" }]
+ *   }
+ */
+export const CHART_TYPES = ["line", "bar", "area", "pie", "scatter", "waterfall", "combo"] as const;
+
+export type ChartType = (typeof CHART_TYPES)[number];
+
+// Percent values are already percentages: 12.5 renders as 12.5%
+export const valueFormatSchema = z.object({
+  style: z.enum(["number", "currency", "percent", "compact"]).default("number"),
+  currency: z.string().length(3).default("USD"),
+  decimals: z.number().int().min(0).max(6).optional(),
+});
+
+const axisSchema = z.object({
+  label: z.string().optional(),
+  format: valueFormatSchema.optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+const seriesSchema = z.object({
+  key: z.string(),
+  name: z.string().optional(),
+  // Only for combo charts; other types draw every series the same way
+  type: z.enum(["line", "bar", "area"]).optional(),
+  // A palette slot (chart-1..chart-5), a theme colour (primary, success,
+  // warning, destructive) or any CSS colour
+  color: z.string().optional(),
+  // Series with the same stack id are stacked
+  stack: z.string().optional(),
+  axis: z.enum(["left", "right"]).default("left"),
+  format: valueFormatSchema.optional(),
+});
+
+const position = z.union([z.number(), z.string()]);
+
+const annotationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("line"),
+    axis: z.enum(["x", "y"]).default("y"),
+    value: position,
+    label: z.string().optional(),
+    color: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("band"),
+    axis: z.enum(["x", "y"]).default("x"),
+    from: position,
+    to: position,
+    label: z.string().optional(),
+    color: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("point"),
+    x: position,
+    y: z.number(),
+    label: z.string().optional(),
+    color: z.string().optional(),
+  }),
+]);
+
+export const chartSpecSchema = z
+  .object({
+    type: z.enum(CHART_TYPES),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    data: z.array(z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]))).min(1),
+    // Category (or, for scatter, numeric) values; for pie the slice names
+    xAxis: axisSchema.extend({ key: z.string() }),
+    yAxis: axisSchema.optional(),
+    // Right-hand axis for series with axis: "right"
+    y2Axis: axisSchema.optional(),
+    // Pie and waterfall use the first series only
+    series: z.array(seriesSchema).min(1),
+    stacked: z.boolean().optional(),
+    // Default format for every value; series and axes can override it
+    format: valueFormatSchema.optional(),
+    annotations: z.array(annotationSchema).optional(),
+    legend: z.boolean().optional(),
+    // Waterfall rows where this column is true show the running total
+    totalKey: z.string().default("isTotal"),
+  })
+  .superRefine((spec, ctx) => {
+    const hasKey = (key: string) => spec.data.some((row) => key in row);
+    if (!hasKey(spec.xAxis.key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["xAxis", "key"], message: `No data rows have "${spec.xAxis.key}"` });
+    }
+    spec.series.forEach((series, index) => {
+      if (!hasKey(series.key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["series", index, "key"], message: `No data rows have "${series.key}"` });
+      }
+    });
+  });
+
+export type ChartSpec = z.infer<typeof chartSpecSchema>;
+export type ChartSeries = ChartSpec["series"][number];
+export type ChartAnnotation = NonNullable<ChartSpec["annotations"]>[number];
+export type ValueFormat = z.infer<typeof valueFormatSchema>;
+
+export function formatChartValue(value: unknown, format?: ValueFormat): string {
+  const number = toChartNumber(value);
+  if (number === null) return value === null || value === undefined ? "" : String(value);
+  const decimals = format?.decimals;
+  switch (format?.style) {
+    case "currency":
+      return number.toLocaleString("en-US", {
+        style: "currency",
+        currency: format.currency,
+        minimumFractionDigits: decimals ?? 0,
+        maximumFractionDigits: decimals ?? 2,
+      });
+    case "percent":
+      return `${number.toLocaleString("en-US", { maximumFractionDigits: decimals ?? 1 })}%`;
+    case "compact":
+      return number.toLocaleString("en-US", { notation: "compact", maximumFractionDigits: decimals ?? 1 });
+    default:
+      return number.toLocaleString("en-US", { maximumFractionDigits: decimals ?? 2 });
+  }
+}
+
+// Numbers quoted as strings ("1,200", "$300") still plot
+export function toChartNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const number = Number(value.replace(/[$,%\s]/g, ""));
+  return Number.isFinite(number) ? number : null;
+}
+
+const THEME_COLORS = ["primary", "success", "warning", "destructive", "muted-foreground"];
+
+export function chartColor(color: string | undefined, index: number): string {
+  if (color && /^chart-[1-5]$/.test(color)) return `hsl(var(--${color}))`;
+  if (color && THEME_COLORS.includes(color)) return `hsl(var(--${color}))`;
+  return color || `hsl(var(--chart-${(index % 5) + 1}))`;
+}
+
+// Series values as numbers, other columns as given
+export function chartRows(spec: ChartSpec): Record<string, unknown>[] {
+  const seriesKeys = spec.series.map((s) => s.key);
+  const numericX = spec.type === "scatter";
+  return spec.data.map((row) => {
+    const prepared: Record<string, unknown> = { ...row };
+    for (const key of seriesKeys) prepared[key] = toChartNumber(row[key]);
+    if (numericX) prepared[spec.xAxis.key] = toChartNumber(row[spec.xAxis.key]);
+    return prepared;
+  });
+}
+
+export interface WaterfallStep {
+  label: string;
+  // Signed change, or the running total for total rows
+  value: number;
+  // [low, high] of the floating bar
+  range: [number, number];
+  kind: "increase" | "decrease" | "total";
+}
+
+/**
+ * Floating bars for a waterfall: each step starts where the previous one
+ * ended, and total rows drop back to zero to show the running total.
+ */
+export function waterfallSteps(spec: ChartSpec): WaterfallStep[] {
+  const valueKey = spec.series[0].key;
+  let running = 0;
+  return spec.data.map((row) => {
+    const label = String(row[spec.xAxis.key] ?? "");
+    if (row[spec.totalKey] === true) {
+      return { label, value: running, range: [Math.min(0, running), Math.max(0, running)], kind: "total" };
+    }
+    const change = toChartNumber(row[valueKey]) ?? 0;
+    const start = running;
+    running += change;
+    return {
+      label,
+      value: change,
+      range: [Math.min(start, running), Math.max(start, running)],
+      kind: change < 0 ? "decrease" : "increase",
+    };
+  });
+}
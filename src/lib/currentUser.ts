@@ -0,0 +1,13 @@
+// There are no user accounts yet, so the name set in Settings stands in for
+// who entered or approved something. It stays in this browser only.
+const CURRENT_USER_KEY = "currentUserName";
+
+export function getCurrentUserName(): string | null {
+  return localStorage.getItem(CURRENT_USER_KEY)?.trim() || null;
+}
+
+export function setCurrentUserName(name: string): void {
+  const trimmed = name.trim();
+  if (trimmed) localStorage.setItem(CURRENT_USER_KEY, trimmed);
+  else localStorage.removeItem(CURRENT_USER_KEY);
+}
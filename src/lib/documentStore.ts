@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Where vault files live. Supabase Storage by default; with
+ * VITE_DOCUMENT_STORE=local the dev server keeps them under .documents/
+ * instead (see plugins/localDocumentStore.ts), so the vault works without a
+ * storage bucket. Rows in the documents table are stored the same either way.
+ */
+export interface DocumentStore {
+  upload(path: string, file: File): Promise<void>;
+  remove(paths: string[]): Promise<void>;
+  // A short-lived link that downloads the file as `fileName`
+  downloadUrl(path: string, fileName: string): Promise<string>;
+}
+
+const BUCKET = "documents";
+
+// Signed download links only need to outlive the click that asked for them
+const URL_SECONDS = 60;
+
+export const LOCAL_DOCUMENTS_ROUTE = "/__documents";
+
+const supabaseStore: DocumentStore = {
+  async upload(path, file) {
+    const { error } = await supabase.storage.from(BUCKET).upload(path, file, { contentType: file.type || undefined });
+    if (error) throw new Error(error.message);
+  },
+  async remove(paths) {
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(BUCKET).remove(paths);
+    if (error) throw new Error(error.message);
+  },
+  async downloadUrl(path, fileName) {
+    const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, URL_SECONDS, { download: fileName });
+    if (error) throw new Error(error.message);
+    return data.signedUrl;
+  },
+};
+
+const localUrl = (path: string) => `${LOCAL_DOCUMENTS_ROUTE}/${path.split("/").map(encodeURIComponent).join("/")}`;
+
+async function localRequest(path: string, init: RequestInit) {
+  const response = await fetch(localUrl(path), init);
+  if (!response.ok) {
+    throw new Error(
+      response.status === 404 && init.method !== "DELETE"
+        ? "Local document store not found. It only runs under the Vite dev server."
+        : `Local document store: ${(await response.text()) || response.statusText}`
+    );
+  }
+}
+
+const localStore: DocumentStore = {
+  upload: (path, file) => localRequest(path, { method: "PUT", body: file }),
+  async remove(paths) {
+    for (const path of paths) await localRequest(path, { method: "DELETE" });
+  },
+  async downloadUrl(path, fileName) {
+    return `${localUrl(path)}?download=${encodeURIComponent(fileName)}`;
+  },
+};
+
+export const documentStore: DocumentStore = import.meta.env.VITE_DOCUMENT_STORE === "local" ? localStore : supabaseStore;
@@ -0,0 +1,33 @@
+// Longest side of a vault thumbnail, in pixels
+const THUMBNAIL_SIZE = 240;
+
+/**
+ * A small JPEG data URL of an image file, read the same way the chat
+ * previews attachments. Null for anything the browser cannot draw.
+ */
+export function createImageThumbnail(file: File): Promise<string | null> {
+  if (!file.type.startsWith("image/")) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onerror = () => resolve(null);
+    reader.onload = (event) => {
+      const image = new Image();
+      image.onerror = () => resolve(null);
+      image.onload = () => {
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.max(1, Math.round(image.width * scale));
+        canvas.height = Math.max(1, Math.round(image.height * scale));
+        const context = canvas.getContext("2d");
+        if (!context) return resolve(null);
+        // JPEG has no transparency; paint it white like paper
+        context.fillStyle = "#fff";
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL("image/jpeg", 0.7));
+      };
+      image.src = event.target?.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+}
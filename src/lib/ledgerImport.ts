@@ -0,0 +1,319 @@
+import Papa from "papaparse";
+import * as XLSX from "xlsx";
+
+// Ledger columns an imported spreadsheet column can be mapped onto
+export const LEDGER_FIELDS = [
+  "date",
+  "time",
+  "amount",
+  "type",
+  "category",
+  "channel",
+  "department",
+  "vendor",
+  "customer",
+  "description",
+  "reference",
+] as const;
+
+export type LedgerField = (typeof LEDGER_FIELDS)[number];
+
+export const LEDGER_FIELD_LABELS: Record<LedgerField, string> = {
+  date: "Date",
+  time: "Time",
+  amount: "Amount",
+  type: "Income / Expense",
+  category: "Category",
+  channel: "Revenue Channel",
+  department: "Department",
+  vendor: "Vendor",
+  customer: "Customer",
+  description: "Description",
+  reference: "Reference",
+};
+
+export const REQUIRED_FIELDS: LedgerField[] = ["date", "amount"];
+
+// How to decide income vs expense when the file has no type column
+export type DefaultType = "income" | "expense" | "signed";
+
+export type DateFormat = "auto" | "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY";
+
+export interface ColumnMapping {
+  columns: Partial<Record<LedgerField, string>>;
+  defaultType: DefaultType;
+  dateFormat: DateFormat;
+}
+
+export type SheetRow = Record<string, unknown>;
+
+export interface ParsedSheet {
+  fileName: string;
+  headers: string[];
+  rows: SheetRow[];
+}
+
+export interface ImportRecord {
+  date: string;
+  time: string | null; // HH:MM:SS
+  amount: number;
+  type: "income" | "expense";
+  category: string | null;
+  channel: string | null;
+  department: string | null;
+  vendor: string | null;
+  customer: string | null;
+  description: string | null;
+  reference: string | null;
+}
+
+export interface ValidatedRow {
+  rowNumber: number; // 1-based, matching the spreadsheet row after the header
+  record: ImportRecord | null;
+  errors: string[];
+}
+
+const FIELD_SYNONYMS: Record<LedgerField, string[]> = {
+  date: ["date", "transactiondate", "txndate", "postingdate", "posteddate", "paymentdate", "invoicedate"],
+  time: ["time", "transactiontime", "txntime", "posttime", "postingtime"],
+  amount: ["amount", "totalamount", "total", "value", "amountusd", "net", "sum"],
+  type: ["type", "transactiontype", "direction", "incomeexpense", "debitcredit"],
+  category: ["category", "expensecategory", "incomecategory", "class"],
+  channel: ["revenuechannel", "channel", "saleschannel"],
+  department: ["department", "dept", "costcenter", "costcentre", "division"],
+  vendor: ["vendor", "vendorname", "supplier", "suppliername", "payee", "merchant"],
+  customer: ["customer", "customername", "client", "clientname", "buyer"],
+  description: ["description", "memo", "details", "narrative", "notes", "item"],
+  reference: ["reference", "ref", "transactionid", "invoicenumber", "receiptnumber", "id"],
+};
+
+export const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export async function parseImportFile(file: File): Promise<ParsedSheet> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+
+  if (extension === "csv" || extension === "txt") {
+    const result = Papa.parse<SheetRow>(await file.text(), {
+      header: true,
+      skipEmptyLines: "greedy",
+      transformHeader: (header) => header.trim(),
+    });
+    if (result.errors.length > 0 && result.data.length === 0) {
+      throw new Error(`Could not parse ${file.name}: ${result.errors[0].message}`);
+    }
+    return {
+      fileName: file.name,
+      headers: (result.meta.fields || []).filter(Boolean),
+      rows: result.data,
+    };
+  }
+
+  if (extension === "xlsx" || extension === "xls") {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) throw new Error(`${file.name} does not contain any sheets`);
+    const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, range: 0 });
+    return {
+      fileName: file.name,
+      headers: headerRow.map((h) => String(h ?? "").trim()).filter(Boolean),
+      rows: XLSX.utils.sheet_to_json<SheetRow>(sheet, { defval: "", raw: true }),
+    };
+  }
+
+  throw new Error(`Unsupported file type ".${extension}". Upload a CSV or Excel file.`);
+}
+
+/**
+ * Guess which spreadsheet column feeds each ledger field from its header,
+ * e.g. "Revenue_Channel" -> channel, "Supplier" -> vendor.
+ */
+export function detectColumnMapping(sheet: ParsedSheet): ColumnMapping {
+  const columns: ColumnMapping["columns"] = {};
+  const used = new Set<string>();
+  const normalized = sheet.headers.map((header) => ({ header, key: normalizeHeader(header) }));
+
+  // Exact synonym matches win over partial ones. Short synonyms such as "id"
+  // only match exactly so they don't pick up headers like "Paid_Date".
+  for (const pass of ["exact", "partial"] as const) {
+    for (const field of LEDGER_FIELDS) {
+      if (columns[field]) continue;
+      for (const synonym of FIELD_SYNONYMS[field]) {
+        if (pass === "partial" && synonym.length < 4) continue;
+        const match = normalized.find(({ header, key }) =>
+          !used.has(header) && (pass === "exact" ? key === synonym : key.includes(synonym))
+        );
+        if (match) {
+          columns[field] = match.header;
+          used.add(match.header);
+          break;
+        }
+      }
+    }
+  }
+
+  const fileName = sheet.fileName.toLowerCase();
+  let defaultType: DefaultType = "signed";
+  if (/income|revenue|sales/.test(fileName)) defaultType = "income";
+  else if (/expense|cost|spend/.test(fileName)) defaultType = "expense";
+  else if (columns.channel || columns.customer) defaultType = "income";
+  else if (columns.vendor) defaultType = "expense";
+
+  return { columns, defaultType, dateFormat: "auto" };
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+export function parseImportDate(value: unknown, format: DateFormat = "auto"): string | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    return toIsoDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+  if (typeof value === "number") {
+    // Excel serial date
+    const parsed = XLSX.SSF.parse_date_code(value);
+    return parsed ? toIsoDate(parsed.y, parsed.m, parsed.d) : null;
+  }
+
+  const text = String(value ?? "").trim();
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso && (format === "auto" || format === "YYYY-MM-DD")) {
+    return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const slashed = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/);
+  if (slashed) {
+    const a = Number(slashed[1]);
+    const b = Number(slashed[2]);
+    const year = slashed[3].length === 2 ? 2000 + Number(slashed[3]) : Number(slashed[3]);
+    if (format === "DD/MM/YYYY") return toIsoDate(year, b, a);
+    if (format === "MM/DD/YYYY") return toIsoDate(year, a, b);
+    // Auto: US order unless the first part can only be a day
+    return a > 12 ? toIsoDate(year, b, a) : toIsoDate(year, a, b);
+  }
+
+  if (format !== "auto") return null;
+  const fallback = new Date(text);
+  return isNaN(fallback.getTime())
+    ? null
+    : toIsoDate(fallback.getFullYear(), fallback.getMonth() + 1, fallback.getDate());
+}
+
+/**
+ * A time of day as HH:MM:SS from "14:05", "2:05 PM", a date-time such as
+ * "2025-01-03 22:14", or an Excel time. Null when there is none.
+ */
+export function parseImportTime(value: unknown): string | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    return `${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}`;
+  }
+  if (typeof value === "number") {
+    // Excel stores times as the fraction of a day
+    const seconds = Math.round((value - Math.floor(value)) * 86400) % 86400;
+    return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+  }
+
+  const match = String(value ?? "").match(/(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([ap])\.?m\b)?/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = Number(match[3] || 0);
+  const meridiem = match[4]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "p" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+}
+
+export function parseImportAmount(value: unknown): number | null {
+  if (typeof value === "number") return isFinite(value) ? value : null;
+  let text = String(value ?? "").trim();
+  if (!text) return null;
+  // Accounting style negatives: (1,234.50)
+  const negative = /^\(.*\)$/.test(text) || text.startsWith("-");
+  text = text.replace(/[^0-9.]/g, "");
+  if (!text) return null;
+  const amount = parseFloat(text);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+function parseTypeValue(value: unknown): "income" | "expense" | null {
+  const text = String(value ?? "").trim().toLowerCase();
+  if (/income|revenue|sale|credit|deposit|receipt|inflow/.test(text)) return "income";
+  if (/expense|cost|debit|payment|withdrawal|purchase|outflow/.test(text)) return "expense";
+  return null;
+}
+
+const optionalText = (value: unknown) => {
+  const text = String(value ?? "").trim();
+  return text ? text : null;
+};
+
+export function validateRows(sheet: ParsedSheet, mapping: ColumnMapping): ValidatedRow[] {
+  const { columns, defaultType, dateFormat } = mapping;
+  const cell = (row: SheetRow, field: LedgerField) => (columns[field] ? row[columns[field]!] : undefined);
+
+  return sheet.rows.map((row, index) => {
+    const errors: string[] = [];
+
+    const rawDate = cell(row, "date");
+    const date = parseImportDate(rawDate, dateFormat);
+    if (!columns.date) errors.push("No date column mapped");
+    else if (!date) errors.push(`Invalid date "${String(rawDate ?? "")}"`);
+
+    const rawAmount = cell(row, "amount");
+    const signedAmount = parseImportAmount(rawAmount);
+    if (!columns.amount) errors.push("No amount column mapped");
+    else if (signedAmount === null) errors.push(`Invalid amount "${String(rawAmount ?? "")}"`);
+
+    let type: "income" | "expense" | null = null;
+    if (columns.type) {
+      type = parseTypeValue(cell(row, "type"));
+      if (!type) errors.push(`Unknown type "${String(cell(row, "type") ?? "")}"`);
+    } else if (defaultType === "signed") {
+      if (signedAmount !== null) type = signedAmount < 0 ? "expense" : "income";
+    } else {
+      type = defaultType;
+    }
+
+    // Without a time column, a date-time text cell still gives the time
+    const time = columns.time
+      ? parseImportTime(cell(row, "time"))
+      : typeof rawDate === "string"
+        ? parseImportTime(rawDate)
+        : null;
+
+    if (errors.length > 0 || !date || signedAmount === null || !type) {
+      return { rowNumber: index + 1, record: null, errors };
+    }
+
+    return {
+      rowNumber: index + 1,
+      errors,
+      record: {
+        date,
+        time,
+        amount: Math.abs(signedAmount),
+        type,
+        category: optionalText(cell(row, "category")),
+        channel: optionalText(cell(row, "channel")),
+        department: optionalText(cell(row, "department")),
+        vendor: optionalText(cell(row, "vendor")),
+        customer: optionalText(cell(row, "customer")),
+        description: optionalText(cell(row, "description")),
+        reference: optionalText(cell(row, "reference")),
+      },
+    };
+  });
+}
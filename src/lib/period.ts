@@ -0,0 +1,119 @@
+// Reporting periods that views share through the URL (?period=ytd or
+// ?period=custom&from=2025-01-01&to=2025-03-31)
+
+export const PERIOD_PRESETS = [
+  "all",
+  "this-month",
+  "last-month",
+  "last-3-months",
+  "ytd",
+  "last-12-months",
+  "last-year",
+  "custom",
+] as const;
+
+export type PeriodPreset = (typeof PERIOD_PRESETS)[number];
+
+export const PERIOD_LABELS: Record<PeriodPreset, string> = {
+  all: "All time",
+  "this-month": "This month",
+  "last-month": "Last month",
+  "last-3-months": "Last 3 months",
+  ytd: "Year to date",
+  "last-12-months": "Last 12 months",
+  "last-year": "Last year",
+  custom: "Custom range",
+};
+
+export interface DateRange {
+  start?: string; // YYYY-MM-DD, inclusive
+  end?: string; // YYYY-MM-DD, inclusive
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const isoDate = (year: number, month: number, day: number) => {
+  // Date.UTC normalises overflow, e.g. month 0 -> December of the previous year
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+export function isPeriodPreset(value: string | null): value is PeriodPreset {
+  return !!value && (PERIOD_PRESETS as readonly string[]).includes(value);
+}
+
+export function isIsoDate(value: string | null | undefined): value is string {
+  return !!value && ISO_DATE.test(value);
+}
+
+/** Turn a preset (or a custom from/to pair) into an inclusive date range. */
+export function resolvePeriod(
+  preset: PeriodPreset,
+  custom: DateRange = {},
+  today: string = new Date().toISOString().slice(0, 10)
+): DateRange {
+  const [year, month] = today.split("-").map(Number);
+  switch (preset) {
+    case "this-month":
+      return { start: isoDate(year, month, 1), end: today };
+    case "last-month":
+      return { start: isoDate(year, month - 1, 1), end: isoDate(year, month, 0) };
+    case "last-3-months":
+      return { start: isoDate(year, month - 2, 1), end: today };
+    case "ytd":
+      return { start: isoDate(year, 1, 1), end: today };
+    case "last-12-months":
+      return { start: isoDate(year, month - 11, 1), end: today };
+    case "last-year":
+      return { start: isoDate(year - 1, 1, 1), end: isoDate(year - 1, 12, 31) };
+    case "custom":
+      return {
+        start: isIsoDate(custom.start) ? custom.start : undefined,
+        end: isIsoDate(custom.end) ? custom.end : undefined,
+      };
+    default:
+      return {};
+  }
+}
+
+export function describeRange(range: DateRange): string {
+  if (range.start && range.end) return `${range.start} to ${range.end}`;
+  if (range.start) return `from ${range.start}`;
+  if (range.end) return `up to ${range.end}`;
+  return "all time";
+}
+
+const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return isoDate(year, month, day + days);
+};
+
+const isMonthStart = (date: string) => date.endsWith("-01");
+const isMonthEnd = (date: string) => addDays(date, 1).endsWith("-01");
+
+/**
+ * The period of equal length just before `range`. Whole months shift by
+ * months, so March compares with February rather than a 31-day window.
+ */
+export function priorPeriod(range: { start: string; end: string }): { start: string; end: string } {
+  const [startYear, startMonth] = range.start.split("-").map(Number);
+  const [endYear, endMonth] = range.end.split("-").map(Number);
+  if (isMonthStart(range.start) && isMonthEnd(range.end)) {
+    const months = (endYear - startYear) * 12 + (endMonth - startMonth) + 1;
+    return { start: isoDate(startYear, startMonth - months, 1), end: addDays(range.start, -1) };
+  }
+  const days = Math.round((Date.parse(range.end) - Date.parse(range.start)) / 86_400_000) + 1;
+  return { start: addDays(range.start, -days), end: addDays(range.start, -1) };
+}
+
+// The same dates a year earlier; 29 February becomes the 28th
+export function priorYear(range: DateRange): DateRange {
+  const shift = (date?: string) => {
+    if (!date) return undefined;
+    const [year, month, day] = date.split("-").map(Number);
+    return isoDate(year - 1, month, Math.min(day, new Date(Date.UTC(year - 1, month, 0)).getUTCDate()));
+  };
+  return { start: shift(range.start), end: shift(range.end) };
+}
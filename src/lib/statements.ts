@@ -0,0 +1,6 @@
+// Accounting style: negatives in brackets, blanks for rows absent in a period
+export function formatStatementAmount(value: number | null) {
+  if (value === null) return "—";
+  const formatted = Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return value < 0 ? `(${formatted})` : formatted;
+}
@@ -0,0 +1,19 @@
+import { DataVisualization } from "@/components/DataVisualization";
+import { PeriodSelect } from "@/components/PeriodSelect";
+
+const Analysis = () => (
+  <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+    <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Data Analysis</h1>
+          <p className="text-muted-foreground mt-1">Process and visualize your financial data</p>
+        </div>
+        <PeriodSelect />
+      </div>
+      <DataVisualization />
+    </div>
+  </div>
+);
+
+export default Analysis;
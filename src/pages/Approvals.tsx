@@ -0,0 +1,324 @@
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { CircleAlert, Inbox, ListChecks, Loader2, Plus, Stamp } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { KPICard } from "@/components/KPICard";
+import { ApprovalPolicyDialog } from "@/components/approvals/ApprovalPolicyDialog";
+import { ApprovalPolicyTable } from "@/components/approvals/ApprovalPolicyTable";
+import { ApprovalRequestDialog } from "@/components/approvals/ApprovalRequestDialog";
+import { ApprovalRequestTable } from "@/components/approvals/ApprovalRequestTable";
+import { UnapprovedSpendTable } from "@/components/approvals/UnapprovedSpendTable";
+import { useToast } from "@/hooks/use-toast";
+import { useApprovals } from "@/hooks/use-approvals";
+import { useSearchParamState } from "@/hooks/use-url-filters";
+import {
+  deleteApprovalPolicy,
+  formatApprovalAmount,
+  requestApproval,
+  setApprovalPolicyActive,
+  type ApprovalPolicyRow,
+  type ApprovalRequest,
+} from "@/data/approvals";
+import { runComplianceChecks } from "@/data/compliance";
+import type { UnapprovedSpend } from "@shared/approvals";
+
+const VIEWS = ["inbox", "requests", "unapproved", "policies"];
+
+const Approvals = () => {
+  const [view, setView] = useSearchParamState("view", "inbox");
+  const [editingPolicy, setEditingPolicy] = useState<ApprovalPolicyRow | null>(null);
+  const [isPolicyDialogOpen, setIsPolicyDialogOpen] = useState(false);
+  const [deletingPolicy, setDeletingPolicy] = useState<ApprovalPolicyRow | null>(null);
+  const [openRequestId, setOpenRequestId] = useState<string | null>(null);
+  const [requestingId, setRequestingId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { policies, requests, pending, inbox, unapproved, actionsByRequest, currentUser, ledger, isLoading, error } =
+    useApprovals();
+
+  const vendors = useMemo(() => ledger?.vendors || [], [ledger]);
+  const vendorNames = useMemo(() => new Map(vendors.map((v) => [v.id, v.name])), [vendors]);
+  const categories = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          [...(ledger?.transactions || []), ...(ledger?.bills || [])].map((t) => t.category).filter((c): c is string => !!c)
+        )
+      ).sort((a, b) => a.localeCompare(b)),
+    [ledger]
+  );
+
+  const activeView = VIEWS.includes(view) ? view : "inbox";
+  const openRequest = requests.find((r) => r.id === openRequestId) ?? null;
+  const unapprovedTotal = unapproved.reduce((sum, row) => sum + row.item.amount, 0);
+  const activePolicies = policies.filter((p) => p.is_active).length;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["approval-policies"] });
+    queryClient.invalidateQueries({ queryKey: ["approval-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["approval-actions"] });
+  };
+
+  // Unapproved spend is a compliance finding, so re-run the checks whenever
+  // a request is raised or settled
+  const syncCompliance = async () => {
+    try {
+      await runComplianceChecks();
+    } catch (syncError) {
+      console.error("Error running compliance checks:", syncError);
+      toast({
+        title: "Could not update compliance findings",
+        description: syncError instanceof Error ? syncError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ["compliance-findings"] });
+    }
+  };
+
+  // A settled bill request changes the bill's own approval
+  const handleDecided = (request: ApprovalRequest) => {
+    refresh();
+    if (request.status === "pending") return;
+    queryClient.invalidateQueries({ queryKey: ["ledger"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-data"] });
+    syncCompliance();
+  };
+
+  const handleRequest = async ({ item, policy }: UnapprovedSpend) => {
+    setRequestingId(item.id);
+    try {
+      const request = await requestApproval(item.subject, item.id, policy.id, currentUser);
+      toast({ title: "Approval requested", description: `Waiting on ${request.approvers[0]}` });
+      refresh();
+      syncCompliance();
+    } catch (requestError) {
+      console.error("Error requesting approval:", requestError);
+      toast({
+        title: "Could not request approval",
+        description: requestError instanceof Error ? requestError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setRequestingId(null);
+    }
+  };
+
+  const openPolicyDialog = (policy: ApprovalPolicyRow | null) => {
+    setEditingPolicy(policy);
+    setIsPolicyDialogOpen(true);
+  };
+
+  const handleTogglePolicy = async (policy: ApprovalPolicyRow, isActive: boolean) => {
+    try {
+      await setApprovalPolicyActive(policy.id, isActive);
+      refresh();
+    } catch (toggleError) {
+      console.error("Error updating approval policy:", toggleError);
+      toast({
+        title: "Could not update policy",
+        description: toggleError instanceof Error ? toggleError.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deletingPolicy) return;
+    try {
+      await deleteApprovalPolicy(deletingPolicy.id);
+      toast({ title: "Policy deleted", description: deletingPolicy.name });
+      refresh();
+    } catch (deleteError) {
+      console.error("Error deleting approval policy:", deleteError);
+      toast({
+        title: "Could not delete policy",
+        description: deleteError instanceof Error ? deleteError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingPolicy(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+      <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Approvals</h1>
+            <p className="text-muted-foreground mt-1">Sign-off on bills and expenses over the policy thresholds</p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => openPolicyDialog(null)} disabled={isLoading}>
+            <Plus className="w-4 h-4 mr-2" />
+            New policy
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading approvals...
+          </div>
+        ) : error ? (
+          <p className="py-8 text-destructive">Error loading approvals: {error.message}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+              <KPICard
+                title="Waiting on you"
+                value={String(inbox.length)}
+                icon={Inbox}
+                variant={inbox.length > 0 ? "warning" : "default"}
+              />
+              <KPICard title="Pending requests" value={String(pending.length)} icon={ListChecks} />
+              <KPICard
+                title="Unapproved spend"
+                value={formatApprovalAmount(unapprovedTotal)}
+                icon={CircleAlert}
+                variant={unapproved.length > 0 ? "destructive" : "success"}
+              />
+              <KPICard title="Active policies" value={String(activePolicies)} icon={Stamp} />
+            </div>
+
+            <Tabs value={activeView} onValueChange={setView}>
+              <TabsList className="grid w-full grid-cols-4">
+                <TabsTrigger value="inbox">Inbox ({inbox.length})</TabsTrigger>
+                <TabsTrigger value="requests">All requests</TabsTrigger>
+                <TabsTrigger value="unapproved">Unapproved ({unapproved.length})</TabsTrigger>
+                <TabsTrigger value="policies">Policies</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="inbox">
+                <Card className="border-border/50">
+                  <CardHeader>
+                    <CardTitle>Waiting on you</CardTitle>
+                    <CardDescription>
+                      {currentUser
+                        ? `Requests where ${currentUser} is the next approver.`
+                        : "Set your name in Settings to see the requests waiting on you."}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ApprovalRequestTable
+                      requests={inbox}
+                      emptyMessage="Nothing is waiting on you."
+                      onOpen={(r) => setOpenRequestId(r.id)}
+                    />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="requests">
+                <Card className="border-border/50">
+                  <CardHeader>
+                    <CardTitle>All requests</CardTitle>
+                    <CardDescription>Every request raised, newest first, with its full history.</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ApprovalRequestTable
+                      requests={requests}
+                      emptyMessage="No approvals requested yet."
+                      onOpen={(r) => setOpenRequestId(r.id)}
+                    />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="unapproved">
+                <Card className="border-border/50">
+                  <CardHeader>
+                    <CardTitle>Unapproved spend</CardTitle>
+                    <CardDescription>
+                      Bills and expenses an active policy covers that have not been approved. They are also raised as
+                      compliance findings.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <UnapprovedSpendTable
+                      rows={unapproved}
+                      vendorNames={vendorNames}
+                      requestingId={requestingId}
+                      onRequest={handleRequest}
+                    />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="policies">
+                <Card className="border-border/50">
+                  <CardHeader>
+                    <CardTitle>Policies</CardTitle>
+                    <CardDescription>
+                      New bills a policy covers are sent for approval when they are entered. Changes do not affect
+                      requests already raised.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ApprovalPolicyTable
+                      policies={policies}
+                      vendorNames={vendorNames}
+                      onToggle={handleTogglePolicy}
+                      onEdit={openPolicyDialog}
+                      onDelete={setDeletingPolicy}
+                    />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </div>
+
+      <ApprovalPolicyDialog
+        open={isPolicyDialogOpen}
+        onOpenChange={setIsPolicyDialogOpen}
+        policy={editingPolicy}
+        vendors={vendors}
+        categories={categories}
+        onSaved={() => {
+          refresh();
+          syncCompliance();
+        }}
+      />
+      <ApprovalRequestDialog
+        request={openRequest}
+        actions={(openRequest && actionsByRequest.get(openRequest.id)) || []}
+        currentUser={currentUser}
+        onOpenChange={(open) => !open && setOpenRequestId(null)}
+        onCommented={refresh}
+        onDecided={handleDecided}
+      />
+      <AlertDialog open={!!deletingPolicy} onOpenChange={(open) => !open && setDeletingPolicy(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete policy "{deletingPolicy?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests already raised under it keep their approvers and history. Spend it covered no longer needs
+              approval unless another policy applies.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete policy</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Approvals;
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PeriodSelect } from "@/components/PeriodSelect";
+import { BudgetEditor } from "@/components/budgets/BudgetEditor";
+import { VarianceTable } from "@/components/budgets/VarianceTable";
+import { TransactionDrilldown } from "@/components/reports/TransactionDrilldown";
+import { useBudgetVariance } from "@/hooks/use-budgets";
+import { usePeriodFilter, useSearchParamState } from "@/hooks/use-url-filters";
+import {
+  BUDGET_DIMENSIONS,
+  BUDGET_DIMENSION_LABELS,
+  DEFAULT_TOLERANCE,
+  VARIANCE_TOLERANCES,
+  formatBudgetAmount,
+  isBudgetDimension,
+  type VarianceRow,
+} from "@/lib/budgets";
+import { describeRange } from "@/lib/period";
+
+const tolerancePercent = (tolerance: number) => String(Math.round(tolerance * 100));
+
+const Budgets = () => {
+  const { range } = usePeriodFilter();
+  const [view, setView] = useSearchParamState("view", "variance");
+  const [dimensionParam, setDimension] = useSearchParamState("by", "category");
+  const [toleranceParam, setTolerance] = useSearchParamState("tolerance", tolerancePercent(DEFAULT_TOLERANCE));
+  const currentYear = new Date().getFullYear();
+  const [yearParam, setYear] = useSearchParamState("year", String(currentYear));
+
+  const dimension = isBudgetDimension(dimensionParam) ? dimensionParam : "category";
+  const tolerance = VARIANCE_TOLERANCES.find((t) => tolerancePercent(t) === toleranceParam) ?? DEFAULT_TOLERANCE;
+  const year = /^\d{4}$/.test(yearParam) ? Number(yearParam) : currentYear;
+
+  const { report, transactionsById, hasBudgets, isLoading, error } = useBudgetVariance(range, dimension, tolerance);
+  const [drilldown, setDrilldown] = useState<VarianceRow | null>(null);
+
+  return (
+    <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+      <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Budgets</h1>
+            <p className="text-muted-foreground mt-1">Plan monthly spend and track it against the ledger</p>
+          </div>
+          <Select value={dimension} onValueChange={setDimension}>
+            <SelectTrigger className="h-9 w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUDGET_DIMENSIONS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  By {BUDGET_DIMENSION_LABELS[option].toLowerCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Tabs value={view === "editor" ? "editor" : "variance"} onValueChange={setView}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="variance">Budget vs actual</TabsTrigger>
+            <TabsTrigger value="editor">Edit budgets</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="variance">
+            <Card className="border-border/50">
+              <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle>Variance report</CardTitle>
+                  <CardDescription>
+                    Expense spend for {describeRange(range)} against budget. Select an actual to see its transactions.
+                  </CardDescription>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <PeriodSelect />
+                  <Select value={tolerancePercent(tolerance)} onValueChange={setTolerance}>
+                    <SelectTrigger className="h-9 w-[150px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VARIANCE_TOLERANCES.map((option) => (
+                        <SelectItem key={option} value={tolerancePercent(option)}>
+                          {option === 0 ? "Flag any variance" : `Flag beyond ±${tolerancePercent(option)}%`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="flex items-center gap-2 py-8 text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Loading budgets and ledger...
+                  </div>
+                ) : error ? (
+                  <p className="py-8 text-destructive">Error loading budgets: {error.message}</p>
+                ) : report && report.rows.length > 0 ? (
+                  <>
+                    {!hasBudgets && (
+                      <p className="mb-4 text-sm text-muted-foreground">
+                        No {BUDGET_DIMENSION_LABELS[dimension].toLowerCase()} budgets cover this period yet, so all
+                        spend shows as unbudgeted.
+                      </p>
+                    )}
+                    <VarianceTable report={report} onDrillDown={setDrilldown} />
+                  </>
+                ) : (
+                  <p className="py-8 text-center text-muted-foreground">No budgets or spend in this period.</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="editor">
+            <BudgetEditor dimension={dimension} year={year} onYearChange={(next) => setYear(String(next))} />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <TransactionDrilldown
+        open={!!drilldown}
+        onOpenChange={(open) => !open && setDrilldown(null)}
+        title={drilldown?.name || ""}
+        description={
+          drilldown
+            ? `Budget ${formatBudgetAmount(drilldown.budget)}, actual ${formatBudgetAmount(drilldown.actual)}`
+            : undefined
+        }
+        transactions={drilldown ? drilldown.transactionIds.map((id) => transactionsById.get(id)).filter(Boolean) : []}
+      />
+    </div>
+  );
+};
+
+export default Budgets;
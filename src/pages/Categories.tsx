@@ -0,0 +1,314 @@
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { CheckCheck, Loader2, Plus, RefreshCw, Search, Sparkles, Tags, TriangleAlert, Wand2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { KPICard } from "@/components/KPICard";
+import { CategoryTransactionTable, type CategoryView } from "@/components/categories/CategoryTransactionTable";
+import { RecategoriseDialog } from "@/components/categories/RecategoriseDialog";
+import { RuleDialog } from "@/components/categories/RuleDialog";
+import { RuleTable } from "@/components/categories/RuleTable";
+import { useToast } from "@/hooks/use-toast";
+import { useCategorisation } from "@/hooks/use-categorisation";
+import { useSearchParamState } from "@/hooks/use-url-filters";
+import {
+  applyCategoryChanges,
+  deleteCategoryRule,
+  setCategoryRuleActive,
+  setTransactionCategory,
+  type CategoryRule,
+} from "@/data/categorisation";
+import type { Transaction } from "@/data/ledger";
+import { payeeOf, type CategoryChange } from "@shared/categorisation";
+
+const CATEGORY_VIEWS: { value: CategoryView; label: string }[] = [
+  { value: "uncategorised", label: "Uncategorized" },
+  { value: "automatic", label: "Automatic" },
+  { value: "manual", label: "By hand" },
+  { value: "imported", label: "Imported" },
+];
+
+const viewOf = (t: Transaction): CategoryView =>
+  !t.category
+    ? "uncategorised"
+    : t.category_source === "manual"
+      ? "manual"
+      : t.category_source
+        ? "automatic"
+        : "imported";
+
+const Categories = () => {
+  const [view, setView] = useSearchParamState("view", "uncategorised");
+  const [search, setSearch] = useSearchParamState("q", "");
+  const [editingRule, setEditingRule] = useState<CategoryRule | null>(null);
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false);
+  const [deletingRule, setDeletingRule] = useState<CategoryRule | null>(null);
+  const [isRecategorising, setIsRecategorising] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isAcceptingAll, setIsAcceptingAll] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { transactions, rules, accounts, names, categories, suggestions, ruleMatchCounts, isLoading, error } =
+    useCategorisation();
+
+  // Newest first, filtered by payee, description or category
+  const transactionsByView = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    const groups: Record<CategoryView, Transaction[]> = { uncategorised: [], automatic: [], manual: [], imported: [] };
+    for (const t of [...transactions].reverse()) {
+      if (needle) {
+        const haystack = `${payeeOf(t, names)} ${t.description || ""} ${t.category || ""}`.toLowerCase();
+        if (!haystack.includes(needle)) continue;
+      }
+      groups[viewOf(t)].push(t);
+    }
+    return groups;
+  }, [transactions, names, search]);
+
+  const uncategorisedCount = transactions.filter((t) => !t.category).length;
+  const automaticCount = transactions.filter((t) => t.category && (t.category_source === "rule" || t.category_source === "learned")).length;
+  const activeRules = rules.filter((r) => r.is_active).length;
+  const ready = Array.from(suggestions.values()).filter((c) => c.to !== null);
+  const activeView = CATEGORY_VIEWS.some((v) => v.value === view) ? (view as CategoryView) : "uncategorised";
+
+  // Categories feed the dashboard, reports and budgets, so everything built on the ledger reloads
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["category-rules"] });
+    queryClient.invalidateQueries({ queryKey: ["ledger"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-data"] });
+  };
+
+  const openRuleDialog = (rule: CategoryRule | null) => {
+    setEditingRule(rule);
+    setIsRuleDialogOpen(true);
+  };
+
+  const runAction = async (id: string | null, action: () => Promise<unknown>, failure: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      refresh();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAccept = (change: CategoryChange) =>
+    runAction(change.transactionId, () => applyCategoryChanges([change]), "Could not apply category");
+
+  const handleSetCategory = (t: Transaction, category: string | null) =>
+    runAction(t.id, () => setTransactionCategory(t.id, category), "Could not update category");
+
+  const handleToggleRule = (rule: CategoryRule, active: boolean) =>
+    runAction(null, () => setCategoryRuleActive(rule.id, active), "Could not update rule");
+
+  const acceptAll = async () => {
+    setIsAcceptingAll(true);
+    try {
+      const updated = await applyCategoryChanges(ready);
+      toast({ title: "Suggestions applied", description: `${updated} transaction${updated === 1 ? "" : "s"} categorised` });
+    } catch (error) {
+      console.error("Error applying suggestions:", error);
+      toast({
+        title: "Could not apply suggestions",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAcceptingAll(false);
+      refresh();
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deletingRule) return;
+    try {
+      await deleteCategoryRule(deletingRule.id);
+      toast({ title: "Rule deleted", description: deletingRule.name });
+      refresh();
+    } catch (error) {
+      console.error("Error deleting category rule:", error);
+      toast({
+        title: "Could not delete rule",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingRule(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+      <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Categories</h1>
+            <p className="text-muted-foreground mt-1">Rules and learned patterns that categorise the ledger</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => setIsRecategorising(true)} disabled={isLoading}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Re-categorise
+            </Button>
+            <Button size="sm" onClick={() => openRuleDialog(null)} disabled={isLoading}>
+              <Plus className="w-4 h-4 mr-2" />
+              New rule
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading transactions...
+          </div>
+        ) : error ? (
+          <p className="py-8 text-destructive">Error loading transactions: {error.message}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+              <KPICard
+                title="Uncategorized"
+                value={String(uncategorisedCount)}
+                icon={TriangleAlert}
+                variant={uncategorisedCount > 0 ? "warning" : "success"}
+              />
+              <KPICard title="Suggestions ready" value={String(ready.length)} icon={Sparkles} />
+              <KPICard title="Categorised automatically" value={String(automaticCount)} icon={Wand2} />
+              <KPICard title="Active rules" value={`${activeRules} of ${rules.length}`} icon={Tags} />
+            </div>
+
+            <Card className="border-border/50">
+              <CardHeader>
+                <CardTitle>Rules</CardTitle>
+                <CardDescription>
+                  The first matching rule sets the category. Without one, a payee's usual category is learned from earlier
+                  transactions, with hand corrections counting most.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RuleTable
+                  rules={rules}
+                  names={names}
+                  matchCounts={ruleMatchCounts}
+                  onToggle={handleToggleRule}
+                  onEdit={openRuleDialog}
+                  onDelete={setDeletingRule}
+                />
+              </CardContent>
+            </Card>
+
+            <Card className="border-border/50">
+              <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle>Transactions</CardTitle>
+                  <CardDescription>Each category shows why it was chosen. Correct one to teach the learned patterns.</CardDescription>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <div className="relative">
+                    <Search className="absolute left-2.5 top-2.5 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Search payee or category"
+                      className="h-9 w-[220px] pl-8"
+                    />
+                  </div>
+                  <Button size="sm" variant="outline" onClick={acceptAll} disabled={ready.length === 0 || isAcceptingAll}>
+                    {isAcceptingAll ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <CheckCheck className="w-4 h-4 mr-2" />
+                    )}
+                    Accept {ready.length} suggestion{ready.length === 1 ? "" : "s"}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Tabs value={activeView} onValueChange={setView}>
+                  <TabsList className="grid w-full grid-cols-4">
+                    {CATEGORY_VIEWS.map(({ value, label }) => (
+                      <TabsTrigger key={value} value={value}>
+                        {label} ({transactionsByView[value].length})
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                  {CATEGORY_VIEWS.map(({ value }) => (
+                    <TabsContent key={value} value={value}>
+                      <CategoryTransactionTable
+                        transactions={transactionsByView[value]}
+                        view={value}
+                        names={names}
+                        categories={categories}
+                        suggestions={suggestions}
+                        busyId={busyId}
+                        onAccept={handleAccept}
+                        onSetCategory={handleSetCategory}
+                      />
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <RuleDialog
+        open={isRuleDialogOpen}
+        onOpenChange={setIsRuleDialogOpen}
+        rule={editingRule}
+        categories={categories}
+        accounts={accounts}
+        transactions={transactions}
+        names={names}
+        onSaved={refresh}
+      />
+      <RecategoriseDialog
+        open={isRecategorising}
+        onOpenChange={setIsRecategorising}
+        transactions={transactions}
+        rules={rules}
+        names={names}
+        onApplied={refresh}
+      />
+      <AlertDialog open={!!deletingRule} onOpenChange={(open) => !open && setDeletingRule(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete rule "{deletingRule?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Transactions it categorised keep their category until you re-categorise them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete rule</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Categories;
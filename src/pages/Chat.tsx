@@ -0,0 +1,69 @@
+import { useEffect, useRef } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { CFOChat } from "@/components/CFOChat";
+import { ChatThreadList } from "@/components/ChatThreadList";
+import { ACTIVE_THREAD_KEY, useChatSession } from "@/hooks/use-chat-session";
+
+// Full-page chat at /chat/:threadId; /chat starts a new conversation
+const Chat = () => {
+  const { threadId } = useParams();
+  const navigate = useNavigate();
+
+  const chat = useChatSession({
+    threadId: threadId ?? null,
+    onThreadCreated: (thread) => navigate(`/chat/${thread.id}`, { replace: true }),
+  });
+  const { activeThread, isProcessing, isLoadingThread, startNewThread } = chat;
+
+  // Coming from the sidebar, resume the conversation that was open last.
+  // Only on first visit; "New conversation" navigates here on purpose
+  const resumeChecked = useRef(false);
+  useEffect(() => {
+    if (resumeChecked.current) return;
+    resumeChecked.current = true;
+    if (threadId) return;
+    const storedThreadId = localStorage.getItem(ACTIVE_THREAD_KEY);
+    if (storedThreadId) navigate(`/chat/${storedThreadId}`, { replace: true });
+  }, [threadId, navigate]);
+
+  const startConversation = () => {
+    startNewThread();
+    navigate("/chat");
+  };
+
+  return (
+    <div className="flex-1 flex h-screen min-w-0">
+      <aside className="hidden md:flex md:flex-col w-72 flex-shrink-0 border-r border-border/50 bg-card">
+        <div className="px-4 pt-6 pb-2">
+          <h1 className="text-lg font-semibold">Conversations</h1>
+        </div>
+        <ChatThreadList
+          activeThreadId={activeThread?.id ?? null}
+          onSelect={(thread) => navigate(`/chat/${thread.id}`)}
+          onNew={startConversation}
+          onDeleted={(id) => id === activeThread?.id && startConversation()}
+          disabled={isProcessing}
+          className="flex-1"
+        />
+      </aside>
+      <div className="flex-1 min-w-0 p-4 sm:p-6">
+        <CFOChat
+          showLoadSample={false}
+          isExpanded={true}
+          messages={chat.messages}
+          setMessages={chat.setMessages}
+          inputValue={chat.inputValue}
+          setInputValue={chat.setInputValue}
+          isProcessing={isProcessing || isLoadingThread}
+          setIsProcessing={chat.setIsProcessing}
+          uploadedFiles={chat.uploadedFiles}
+          setUploadedFiles={chat.setUploadedFiles}
+          abortControllerRef={chat.abortControllerRef}
+          sessionId={chat.sessionId}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default Chat;
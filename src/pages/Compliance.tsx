@@ -0,0 +1,265 @@
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { CircleCheck, Loader2, Play, Plus, ShieldAlert, ShieldCheck, TriangleAlert } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { KPICard } from "@/components/KPICard";
+import { ComplianceRuleDialog } from "@/components/compliance/ComplianceRuleDialog";
+import { ComplianceRuleTable } from "@/components/compliance/ComplianceRuleTable";
+import { FindingDialog } from "@/components/compliance/FindingDialog";
+import { FindingTable } from "@/components/compliance/FindingTable";
+import { VendorTaxFormDialog } from "@/components/compliance/VendorTaxFormDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCompliance } from "@/hooks/use-compliance";
+import { useSearchParamState } from "@/hooks/use-url-filters";
+import {
+  deleteComplianceRule,
+  runComplianceChecks,
+  setComplianceRuleActive,
+  type ComplianceFinding,
+  type ComplianceRuleRow,
+} from "@/data/compliance";
+import type { Vendor } from "@/data/ledger";
+import {
+  COMPLIANCE_FINDING_STATUSES,
+  COMPLIANCE_FINDING_STATUS_LABELS,
+  type ComplianceFindingStatus,
+} from "@shared/compliance";
+
+const Compliance = () => {
+  const [status, setStatus] = useSearchParamState("status", "open");
+  const [editingRule, setEditingRule] = useState<ComplianceRuleRow | null>(null);
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false);
+  const [deletingRule, setDeletingRule] = useState<ComplianceRuleRow | null>(null);
+  const [editingFinding, setEditingFinding] = useState<ComplianceFinding | null>(null);
+  const [taxFormVendor, setTaxFormVendor] = useState<Vendor | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { rules, findings, active, openCounts, ledger, isLoading, error } = useCompliance();
+
+  const findingsByStatus = useMemo(() => {
+    const groups: Record<ComplianceFindingStatus, ComplianceFinding[]> = { open: [], in_review: [], resolved: [], waived: [] };
+    for (const f of findings) groups[f.status].push(f);
+    return groups;
+  }, [findings]);
+
+  const categories = useMemo(
+    () =>
+      Array.from(new Set((ledger?.transactions || []).map((t) => t.category).filter((c): c is string => !!c))).sort((a, b) =>
+        a.localeCompare(b)
+      ),
+    [ledger]
+  );
+
+  const highCount = active.filter((f) => f.severity === "high").length;
+  const closedCount = findingsByStatus.resolved.length + findingsByStatus.waived.length;
+  const activeStatus = COMPLIANCE_FINDING_STATUSES.includes(status as ComplianceFindingStatus)
+    ? (status as ComplianceFindingStatus)
+    : "open";
+
+  // Open findings feed the dashboard's compliance flag count
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["compliance-rules"] });
+    queryClient.invalidateQueries({ queryKey: ["compliance-findings"] });
+  };
+
+  const openRuleDialog = (rule: ComplianceRuleRow | null) => {
+    setEditingRule(rule);
+    setIsRuleDialogOpen(true);
+  };
+
+  const runChecks = async () => {
+    setIsRunning(true);
+    try {
+      const result = await runComplianceChecks();
+      toast({
+        title: "Compliance checks complete",
+        description: `${result.total} finding${result.total === 1 ? "" : "s"}: ${result.opened} new, ${result.cleared} cleared`,
+      });
+    } catch (runError) {
+      console.error("Error running compliance checks:", runError);
+      toast({
+        title: "Could not run compliance checks",
+        description: runError instanceof Error ? runError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+      refresh();
+    }
+  };
+
+  const handleToggleRule = async (rule: ComplianceRuleRow, isActive: boolean) => {
+    try {
+      await setComplianceRuleActive(rule.id, isActive);
+      refresh();
+    } catch (toggleError) {
+      console.error("Error updating compliance rule:", toggleError);
+      toast({
+        title: "Could not update rule",
+        description: toggleError instanceof Error ? toggleError.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openTaxForm = (finding: ComplianceFinding) =>
+    setTaxFormVendor(ledger?.vendors.find((v) => v.id === finding.vendor_id) ?? null);
+
+  const confirmDelete = async () => {
+    if (!deletingRule) return;
+    try {
+      await deleteComplianceRule(deletingRule.id);
+      toast({ title: "Rule deleted", description: deletingRule.name });
+      refresh();
+    } catch (deleteError) {
+      console.error("Error deleting compliance rule:", deleteError);
+      toast({
+        title: "Could not delete rule",
+        description: deleteError instanceof Error ? deleteError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingRule(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+      <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Compliance</h1>
+            <p className="text-muted-foreground mt-1">Rules checked against the ledger and the findings they raise</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => openRuleDialog(null)} disabled={isLoading}>
+              <Plus className="w-4 h-4 mr-2" />
+              New rule
+            </Button>
+            <Button size="sm" onClick={runChecks} disabled={isLoading || isRunning}>
+              {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Run checks
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading compliance register...
+          </div>
+        ) : error ? (
+          <p className="py-8 text-destructive">Error loading compliance register: {error.message}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+              <KPICard
+                title="Open findings"
+                value={String(findingsByStatus.open.length)}
+                icon={ShieldAlert}
+                variant={findingsByStatus.open.length > 0 ? "warning" : "success"}
+              />
+              <KPICard
+                title="High severity"
+                value={String(highCount)}
+                icon={TriangleAlert}
+                variant={highCount > 0 ? "destructive" : "default"}
+              />
+              <KPICard title="In review" value={String(findingsByStatus.in_review.length)} icon={ShieldCheck} />
+              <KPICard title="Resolved or waived" value={String(closedCount)} icon={CircleCheck} />
+            </div>
+
+            <Card className="border-border/50">
+              <CardHeader>
+                <CardTitle>Findings</CardTitle>
+                <CardDescription>
+                  Each run refreshes the findings and keeps their owner and notes. Open findings the rules no longer raise
+                  are cleared; ones you resolve or waive stay that way.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs value={activeStatus} onValueChange={setStatus}>
+                  <TabsList className="grid w-full grid-cols-4">
+                    {COMPLIANCE_FINDING_STATUSES.map((s) => (
+                      <TabsTrigger key={s} value={s}>
+                        {COMPLIANCE_FINDING_STATUS_LABELS[s]} ({findingsByStatus[s].length})
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                  {COMPLIANCE_FINDING_STATUSES.map((s) => (
+                    <TabsContent key={s} value={s}>
+                      <FindingTable findings={findingsByStatus[s]} onEdit={setEditingFinding} onRecordTaxForm={openTaxForm} />
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              </CardContent>
+            </Card>
+
+            <Card className="border-border/50">
+              <CardHeader>
+                <CardTitle>Rules</CardTitle>
+                <CardDescription>Changes apply the next time the checks run.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ComplianceRuleTable
+                  rules={rules}
+                  openCounts={openCounts}
+                  onToggle={handleToggleRule}
+                  onEdit={openRuleDialog}
+                  onDelete={setDeletingRule}
+                />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <ComplianceRuleDialog
+        open={isRuleDialogOpen}
+        onOpenChange={setIsRuleDialogOpen}
+        rule={editingRule}
+        categories={categories}
+        onSaved={refresh}
+      />
+      <FindingDialog finding={editingFinding} onOpenChange={(open) => !open && setEditingFinding(null)} onSaved={refresh} />
+      <VendorTaxFormDialog
+        vendor={taxFormVendor}
+        onOpenChange={(open) => !open && setTaxFormVendor(null)}
+        onRecorded={() => {
+          queryClient.invalidateQueries({ queryKey: ["ledger"] });
+          runChecks();
+        }}
+      />
+      <AlertDialog open={!!deletingRule} onOpenChange={(open) => !open && setDeletingRule(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete rule "{deletingRule?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its findings stay in the register; open ones are cleared the next time the checks run.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete rule</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Compliance;
@@ -0,0 +1,268 @@
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { CalendarClock, ChevronLeft, ChevronRight, CircleCheck, Clock, Loader2, Plus, TriangleAlert } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { KPICard } from "@/components/KPICard";
+import { DeadlineList } from "@/components/compliance/DeadlineList";
+import { DeadlineMonthGrid } from "@/components/compliance/DeadlineMonthGrid";
+import { FilingDialog } from "@/components/compliance/FilingDialog";
+import { ObligationDialog } from "@/components/compliance/ObligationDialog";
+import { ObligationTable } from "@/components/compliance/ObligationTable";
+import { useToast } from "@/hooks/use-toast";
+import { useObligations } from "@/hooks/use-obligations";
+import { useSearchParamState } from "@/hooks/use-url-filters";
+import { deleteObligation, setObligationActive, type ComplianceObligation } from "@/data/obligations";
+import { addDays } from "@shared/aging";
+import type { Deadline } from "@shared/obligations";
+
+// How far ahead the upcoming list looks
+const UPCOMING_DAYS = 90;
+const DUE_SOON_KPI_DAYS = 30;
+
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+function shiftMonth(month: string, months: number) {
+  const [year, m] = month.split("-").map(Number);
+  const date = new Date(Date.UTC(year, m - 1 + months, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+function monthEnd(month: string) {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m, 0)).toISOString().slice(0, 10);
+}
+
+const monthLabel = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+
+const ComplianceCalendar = () => {
+  const today = new Date().toISOString().slice(0, 10);
+  const [view, setView] = useSearchParamState("view", "upcoming");
+  const [monthParam, setMonth] = useSearchParamState("month", today.slice(0, 7));
+  const [editingObligation, setEditingObligation] = useState<ComplianceObligation | null>(null);
+  const [isObligationDialogOpen, setIsObligationDialogOpen] = useState(false);
+  const [deletingObligation, setDeletingObligation] = useState<ComplianceObligation | null>(null);
+  const [openDeadline, setOpenDeadline] = useState<Deadline | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const month = MONTH_PATTERN.test(monthParam) ? monthParam : today.slice(0, 7);
+  const upcomingEnd = addDays(today, UPCOMING_DAYS);
+  const monthStart = `${month}-01`;
+  const monthLast = monthEnd(month);
+
+  // One window covering both views; each tab filters its own slice
+  const { obligations, filings, deadlines, evidenceByFiling, isLoading, error } = useObligations({
+    start: monthStart < today ? monthStart : today,
+    end: monthLast > upcomingEnd ? monthLast : upcomingEnd,
+    asOf: today,
+  });
+
+  const upcoming = useMemo(
+    () => deadlines.filter((d) => d.dueDate <= upcomingEnd && (d.dueDate >= today || d.status === "overdue")),
+    [deadlines, today, upcomingEnd]
+  );
+  const inMonth = useMemo(
+    () => deadlines.filter((d) => d.dueDate >= monthStart && d.dueDate <= monthLast),
+    [deadlines, monthStart, monthLast]
+  );
+
+  const overdueCount = deadlines.filter((d) => d.status === "overdue").length;
+  const dueSoonCount = upcoming.filter(
+    (d) => d.daysUntil >= 0 && d.daysUntil <= DUE_SOON_KPI_DAYS && d.status !== "completed" && d.status !== "not_required"
+  ).length;
+  const inProgressCount = upcoming.filter((d) => d.status === "in_progress").length;
+  const completedThisYear = filings.filter(
+    (f) => f.status === "completed" && f.completed_at?.slice(0, 4) === today.slice(0, 4)
+  ).length;
+
+  // The open deadline re-read from the latest data, so evidence and history stay current
+  const selected = openDeadline ? deadlines.find((d) => d.key === openDeadline.key) ?? openDeadline : null;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["compliance-obligations"] });
+    queryClient.invalidateQueries({ queryKey: ["compliance-filings"] });
+    queryClient.invalidateQueries({ queryKey: ["compliance-evidence"] });
+  };
+
+  const openObligationDialog = (obligation: ComplianceObligation | null) => {
+    setEditingObligation(obligation);
+    setIsObligationDialogOpen(true);
+  };
+
+  const handleToggleObligation = async (obligation: ComplianceObligation, isActive: boolean) => {
+    try {
+      await setObligationActive(obligation.id, isActive);
+      refresh();
+    } catch (toggleError) {
+      console.error("Error updating obligation:", toggleError);
+      toast({
+        title: "Could not update obligation",
+        description: toggleError instanceof Error ? toggleError.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deletingObligation) return;
+    try {
+      await deleteObligation(deletingObligation.id);
+      toast({ title: "Obligation deleted", description: deletingObligation.name });
+      refresh();
+    } catch (deleteError) {
+      console.error("Error deleting obligation:", deleteError);
+      toast({
+        title: "Could not delete obligation",
+        description: deleteError instanceof Error ? deleteError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingObligation(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+      <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Compliance Calendar</h1>
+            <p className="text-muted-foreground mt-1">Filing deadlines, their checklists and the evidence they were met</p>
+          </div>
+          <Button size="sm" onClick={() => openObligationDialog(null)} disabled={isLoading}>
+            <Plus className="w-4 h-4 mr-2" />
+            New obligation
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading compliance calendar...
+          </div>
+        ) : error ? (
+          <p className="py-8 text-destructive">Error loading compliance calendar: {error.message}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+              <KPICard
+                title="Overdue"
+                value={String(overdueCount)}
+                icon={TriangleAlert}
+                variant={overdueCount > 0 ? "destructive" : "success"}
+              />
+              <KPICard
+                title={`Due in ${DUE_SOON_KPI_DAYS} days`}
+                value={String(dueSoonCount)}
+                icon={CalendarClock}
+                variant={dueSoonCount > 0 ? "warning" : "default"}
+              />
+              <KPICard title="In progress" value={String(inProgressCount)} icon={Clock} />
+              <KPICard title="Completed this year" value={String(completedThisYear)} icon={CircleCheck} />
+            </div>
+
+            <Card className="border-border/50">
+              <CardHeader>
+                <CardTitle>Deadlines</CardTitle>
+                <CardDescription>
+                  Computed from each obligation's schedule. Past deadlines stay overdue until they are completed or marked
+                  not required.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs value={view === "month" ? "month" : "upcoming"} onValueChange={setView}>
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="upcoming">Next {UPCOMING_DAYS} days ({upcoming.length})</TabsTrigger>
+                    <TabsTrigger value="month">Month</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="upcoming">
+                    <DeadlineList deadlines={upcoming} evidenceByFiling={evidenceByFiling} onOpen={setOpenDeadline} />
+                  </TabsContent>
+                  <TabsContent value="month" className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Button variant="ghost" size="icon" onClick={() => setMonth(shiftMonth(month, -1))} title="Previous month">
+                        <ChevronLeft className="w-4 h-4" />
+                      </Button>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{monthLabel(month)}</span>
+                        {month !== today.slice(0, 7) && (
+                          <Button variant="outline" size="sm" onClick={() => setMonth(today.slice(0, 7))}>
+                            Today
+                          </Button>
+                        )}
+                      </div>
+                      <Button variant="ghost" size="icon" onClick={() => setMonth(shiftMonth(month, 1))} title="Next month">
+                        <ChevronRight className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <DeadlineMonthGrid month={month} today={today} deadlines={inMonth} onOpen={setOpenDeadline} />
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+
+            <Card className="border-border/50">
+              <CardHeader>
+                <CardTitle>Obligations</CardTitle>
+                <CardDescription>Recurring filings and returns. Inactive ones drop off the calendar.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ObligationTable
+                  obligations={obligations}
+                  today={today}
+                  onToggle={handleToggleObligation}
+                  onEdit={openObligationDialog}
+                  onDelete={setDeletingObligation}
+                />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <ObligationDialog
+        open={isObligationDialogOpen}
+        onOpenChange={setIsObligationDialogOpen}
+        obligation={editingObligation}
+        onSaved={refresh}
+      />
+      <FilingDialog
+        key={selected?.key}
+        deadline={selected}
+        filings={filings}
+        evidence={selected?.filing ? evidenceByFiling.get(selected.filing.id) || [] : []}
+        onOpenChange={(open) => !open && setOpenDeadline(null)}
+        onSaved={refresh}
+      />
+      <AlertDialog open={!!deletingObligation} onOpenChange={(open) => !open && setDeletingObligation(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete obligation "{deletingObligation?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its filing history and evidence files are deleted with it. Turn it off instead to keep the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete obligation</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ComplianceCalendar;
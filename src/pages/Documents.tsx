@@ -0,0 +1,355 @@
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { ClipboardCheck, FileCheck, FileText, FileWarning, Loader2, Upload } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { KPICard } from "@/components/KPICard";
+import { DocumentDialog } from "@/components/documents/DocumentDialog";
+import { DocumentGrid } from "@/components/documents/DocumentGrid";
+import { DraftQueueTable } from "@/components/documents/DraftQueueTable";
+import { DraftReviewDialog } from "@/components/documents/DraftReviewDialog";
+import { MissingDocumentationTable } from "@/components/documents/MissingDocumentationTable";
+import { payeeNames } from "@/components/documents/links";
+import { useToast } from "@/hooks/use-toast";
+import { useDocumentDrafts } from "@/hooks/use-document-drafts";
+import { useDocuments } from "@/hooks/use-documents";
+import { useSearchParamState } from "@/hooks/use-url-filters";
+import { runComplianceChecks } from "@/data/compliance";
+import { draftFromDocument } from "@/data/documentDrafts";
+import { deleteDocument, documentUrl, type VaultDocument } from "@/data/documents";
+import type { Transaction } from "@/data/ledger";
+import { DOCUMENT_KINDS, DOCUMENT_KIND_LABELS, SUPPORTING_DOCUMENT_KINDS } from "@shared/documents";
+
+const ALL_KINDS = "all";
+const VIEWS = ["all", "review", "missing", "unattached"];
+
+// Reviewed drafts listed under the queue, most recent first
+const REVIEWED_SHOWN = 20;
+
+const isAttached = (d: VaultDocument) => !!(d.transaction_id || d.vendor_id || d.invoice_id || d.bill_id);
+
+const Documents = () => {
+  const [view, setView] = useSearchParamState("view", "all");
+  const [kind, setKind] = useSearchParamState("kind", ALL_KINDS);
+  const [search, setSearch] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingDocument, setEditingDocument] = useState<VaultDocument | null>(null);
+  const [attachTo, setAttachTo] = useState<Transaction | null>(null);
+  const [deletingDocument, setDeletingDocument] = useState<VaultDocument | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { documents, missing, receiptRules, ledger, isLoading, error } = useDocuments();
+  const drafts = useDocumentDrafts();
+
+  const names = useMemo(() => payeeNames(ledger ?? { vendors: [], customers: [] }), [ledger]);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return documents.filter(
+      (d) =>
+        (kind === ALL_KINDS || d.kind === kind) &&
+        (!query || d.file_name.toLowerCase().includes(query) || (d.notes || "").toLowerCase().includes(query))
+    );
+  }, [documents, kind, search]);
+  const unattached = useMemo(() => documents.filter((d) => !isAttached(d)), [documents]);
+  const supportingCount = documents.filter((d) => d.transaction_id && SUPPORTING_DOCUMENT_KINDS.includes(d.kind)).length;
+  const reviewed = useMemo(
+    () =>
+      drafts.drafts
+        .filter((d) => d.status !== "pending")
+        .sort((a, b) => (b.reviewed_at || b.updated_at).localeCompare(a.reviewed_at || a.updated_at))
+        .slice(0, REVIEWED_SHOWN),
+    [drafts.drafts]
+  );
+  // Re-read from the latest drafts so the dialog reflects saved edits
+  const reviewing = drafts.drafts.find((d) => d.id === reviewingId) ?? null;
+
+  const activeView = VIEWS.includes(view) ? view : "all";
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["documents"] });
+    queryClient.invalidateQueries({ queryKey: ["document-drafts"] });
+  };
+
+  // Posting a draft adds a bill or transaction
+  const handleReviewed = () => {
+    refresh();
+    queryClient.invalidateQueries({ queryKey: ["ledger"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-data"] });
+  };
+
+  // Re-run the compliance checks so receipt findings clear (or reopen) as
+  // soon as a transaction's documents change
+  const syncCompliance = async () => {
+    try {
+      const result = await runComplianceChecks();
+      if (result.cleared > 0) {
+        toast({
+          title: "Compliance findings cleared",
+          description: `${result.cleared} finding${result.cleared === 1 ? "" : "s"} now documented`,
+        });
+      }
+    } catch (syncError) {
+      console.error("Error running compliance checks:", syncError);
+      toast({
+        title: "Could not update compliance findings",
+        description: syncError instanceof Error ? syncError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ["compliance-findings"] });
+    }
+  };
+
+  const handleSaved = (transactionsChanged: boolean) => {
+    refresh();
+    if (transactionsChanged) syncCompliance();
+  };
+
+  const openDialog = (document: VaultDocument | null, transaction: Transaction | null = null) => {
+    setEditingDocument(document);
+    setAttachTo(transaction);
+    setIsDialogOpen(true);
+  };
+
+  const handleDownload = async (document: VaultDocument) => {
+    try {
+      window.open(await documentUrl(document), "_blank", "noopener");
+    } catch (downloadError) {
+      console.error("Error downloading document:", downloadError);
+      toast({
+        title: "Could not download document",
+        description: downloadError instanceof Error ? downloadError.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExtract = async (document: VaultDocument) => {
+    const existing = drafts.pending.find((d) => d.document_id === document.id);
+    if (existing) {
+      setReviewingId(existing.id);
+      return;
+    }
+    try {
+      const draft = await draftFromDocument(document);
+      await queryClient.invalidateQueries({ queryKey: ["document-drafts"] });
+      setReviewingId(draft.id);
+    } catch (extractError) {
+      console.error("Error extracting document:", extractError);
+      toast({
+        title: "Could not read document",
+        description: extractError instanceof Error ? extractError.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deletingDocument) return;
+    try {
+      await deleteDocument(deletingDocument);
+      toast({ title: "Document deleted", description: deletingDocument.file_name });
+      handleSaved(!!deletingDocument.transaction_id);
+    } catch (deleteError) {
+      console.error("Error deleting document:", deleteError);
+      toast({
+        title: "Could not delete document",
+        description: deleteError instanceof Error ? deleteError.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingDocument(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+      <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Documents</h1>
+            <p className="text-muted-foreground mt-1">Receipts, invoices and contracts behind the ledger</p>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)} disabled={isLoading}>
+            <Upload className="w-4 h-4 mr-2" />
+            Add documents
+          </Button>
+        </div>
+
+        {isLoading || drafts.isLoading ? (
+          <div className="flex items-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading documents...
+          </div>
+        ) : error || drafts.error ? (
+          <p className="py-8 text-destructive">Error loading documents: {(error || drafts.error)?.message}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+              <KPICard title="Documents" value={String(documents.length)} icon={FileText} />
+              <KPICard title="Supporting transactions" value={String(supportingCount)} icon={FileCheck} />
+              <KPICard
+                title="Missing documentation"
+                value={String(missing.length)}
+                icon={FileWarning}
+                variant={missing.length > 0 ? "warning" : "success"}
+              />
+              <KPICard
+                title="Awaiting review"
+                value={String(drafts.pending.length)}
+                icon={ClipboardCheck}
+                variant={drafts.pending.length > 0 ? "warning" : "default"}
+              />
+            </div>
+
+            <Card className="border-border/50">
+              <CardHeader>
+                <CardTitle>Vault</CardTitle>
+                <CardDescription>
+                  A receipt or invoice attached to an expense documents it for the receipt rule; the compliance findings
+                  update as soon as you attach one.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs value={activeView} onValueChange={setView}>
+                  <TabsList className="grid w-full grid-cols-4">
+                    <TabsTrigger value="all">Documents ({documents.length})</TabsTrigger>
+                    <TabsTrigger value="review">Review queue ({drafts.pending.length})</TabsTrigger>
+                    <TabsTrigger value="missing">Missing documentation ({missing.length})</TabsTrigger>
+                    <TabsTrigger value="unattached">Not attached ({unattached.length})</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="all" className="space-y-4">
+                    <div className="flex flex-wrap gap-2">
+                      <Input
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search file names and notes"
+                        className="h-9 max-w-xs"
+                      />
+                      <Select value={kind} onValueChange={setKind}>
+                        <SelectTrigger className="h-9 w-[160px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL_KINDS}>All kinds</SelectItem>
+                          {DOCUMENT_KINDS.map((k) => (
+                            <SelectItem key={k} value={k}>
+                              {DOCUMENT_KIND_LABELS[k]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <DocumentGrid
+                      documents={filtered}
+                      ledger={ledger}
+                      emptyMessage={documents.length === 0 ? "No documents yet." : "No documents match."}
+                      onDownload={handleDownload}
+                      onEdit={(document) => openDialog(document)}
+                      onDelete={setDeletingDocument}
+                      onExtract={handleExtract}
+                    />
+                  </TabsContent>
+                  <TabsContent value="review" className="space-y-6">
+                    <p className="text-sm text-muted-foreground">
+                      Invoices and receipts read from the PDF text or e-invoice XML (UBL, Factur-X/ZUGFeRD). Check each
+                      one, correct anything misread, then post it as a bill or a paid expense.
+                    </p>
+                    <DraftQueueTable
+                      drafts={drafts.pending}
+                      emptyMessage="Nothing to review. Upload a PDF or e-invoice and choose to read it into the queue."
+                      onReview={(draft) => setReviewingId(draft.id)}
+                    />
+                    {reviewed.length > 0 && (
+                      <div className="space-y-2">
+                        <h3 className="text-sm font-medium">Recently reviewed</h3>
+                        <DraftQueueTable
+                          drafts={reviewed}
+                          emptyMessage=""
+                          onReview={(draft) => setReviewingId(draft.id)}
+                        />
+                      </div>
+                    )}
+                  </TabsContent>
+                  <TabsContent value="missing">
+                    <MissingDocumentationTable
+                      rows={missing}
+                      names={names}
+                      emptyMessage={
+                        receiptRules.length === 0
+                          ? "No receipt rule is active. Add one on the Compliance page to list undocumented expenses."
+                          : "Every expense the receipt rules cover is documented."
+                      }
+                      onAttach={(transaction) => openDialog(null, transaction)}
+                    />
+                  </TabsContent>
+                  <TabsContent value="unattached">
+                    <DocumentGrid
+                      documents={unattached}
+                      ledger={ledger}
+                      emptyMessage="Every document is attached to a transaction, vendor, invoice or bill."
+                      onDownload={handleDownload}
+                      onEdit={(document) => openDialog(document)}
+                      onDelete={setDeletingDocument}
+                    />
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <DocumentDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        document={editingDocument}
+        transaction={attachTo}
+        ledger={ledger}
+        onSaved={handleSaved}
+      />
+      <DraftReviewDialog
+        key={reviewing?.id}
+        draft={reviewing}
+        document={documents.find((d) => d.id === reviewing?.document_id)}
+        categories={drafts.categories}
+        suggestCategory={drafts.suggestCategory}
+        onOpenChange={(open) => !open && setReviewingId(null)}
+        onDownload={handleDownload}
+        onSaved={handleReviewed}
+      />
+      <AlertDialog open={!!deletingDocument} onOpenChange={(open) => !open && setDeletingDocument(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deletingDocument?.file_name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The file is removed from the vault. An expense it documented is flagged again if the receipt rule covers it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete document</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Documents;
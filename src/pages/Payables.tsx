@@ -0,0 +1,330 @@
+import { useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, Calendar, ClipboardCheck, Loader2, Plus, Wallet, X } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { KPICard } from "@/components/KPICard";
+import { AgingTable } from "@/components/receivables/AgingTable";
+import { BillDialog } from "@/components/payables/BillDialog";
+import { BillPaymentDialog } from "@/components/payables/BillPaymentDialog";
+import { BillTable } from "@/components/payables/BillTable";
+import { PaymentPlanCard } from "@/components/payables/PaymentPlanCard";
+import { useToast } from "@/hooks/use-toast";
+import { useApprovals } from "@/hooks/use-approvals";
+import { usePayables } from "@/hooks/use-payables";
+import { useSearchParamState } from "@/hooks/use-url-filters";
+import type { Bill } from "@/data/ledger";
+import {
+  APPROVAL_LABELS,
+  formatPayableAmount,
+  setBillApproval,
+  voidBill,
+  type BillApprovalStatus,
+} from "@/data/payables";
+import { getCurrentUserName } from "@/lib/currentUser";
+import { parseImportAmount } from "@/lib/ledgerImport";
+import type { AgingRow } from "@shared/aging";
+import { billOutstanding } from "@shared/metrics";
+import { DPO_PERIOD_DAYS } from "@shared/payables";
+
+// "open" covers everything with a balance, overdue or not
+const STATUS_FILTERS = ["all", "open", "overdue", "pending", "paid", "void"] as const;
+
+const STATUS_FILTER_LABELS: Record<(typeof STATUS_FILTERS)[number], string> = {
+  all: "All bills",
+  open: "Open",
+  overdue: "Overdue",
+  pending: APPROVAL_LABELS.pending,
+  paid: "Paid",
+  void: "Void",
+};
+
+const ALL_VENDORS = "all";
+
+const Payables = () => {
+  const [, setSearchParams] = useSearchParams();
+  const [view, setView] = useSearchParamState("view", "aging");
+  const [vendorFilter, setVendorFilter] = useSearchParamState("vendor", ALL_VENDORS);
+  const [statusFilter, setStatusFilter] = useSearchParamState("status", "all");
+  const [reserveParam, setReserve] = useSearchParamState("reserve", "");
+  const reserve = Math.max(0, parseImportAmount(reserveParam) ?? 0);
+  const { bills, vendors, accounts, report, dpo, cashOnHand, plan, asOf, isLoading, error } = usePayables(reserve);
+  const [isCreating, setIsCreating] = useState(false);
+  const [paying, setPaying] = useState<Bill | null>(null);
+  const [voiding, setVoiding] = useState<Bill | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { requests: approvalRequests, unapproved } = useApprovals();
+
+  const vendorNames = useMemo(() => new Map(vendors.map((v) => [v.id, v.name])), [vendors]);
+
+  // Bills an approval policy covers are decided in the approvals inbox, not here
+  const routedBills = useMemo(
+    () =>
+      new Set([
+        ...unapproved.filter((row) => row.item.subject === "bill").map((row) => row.item.id),
+        ...approvalRequests.map((r) => r.bill_id).filter((id): id is string => !!id),
+      ]),
+    [unapproved, approvalRequests]
+  );
+  const pendingCount = bills.filter((b) => b.approval_status === "pending" && billOutstanding(b) > 0).length;
+
+  const filtered = useMemo(() => {
+    const rows = bills.filter((bill) => {
+      if (vendorFilter !== ALL_VENDORS && bill.vendor_id !== vendorFilter) return false;
+      switch (statusFilter) {
+        case "open":
+          return billOutstanding(bill) > 0;
+        case "overdue":
+          return billOutstanding(bill) > 0 && bill.due_date < asOf;
+        case "pending":
+          return billOutstanding(bill) > 0 && bill.approval_status === "pending";
+        case "paid":
+        case "void":
+          return bill.status === statusFilter;
+        default:
+          return true;
+      }
+    });
+    return rows.sort((a, b) => a.due_date.localeCompare(b.due_date) || a.bill_number.localeCompare(b.bill_number));
+  }, [bills, vendorFilter, statusFilter, asOf]);
+
+  // Bills live in the ledger query, which also drives the forecast and the dashboard
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["ledger"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-data"] });
+    queryClient.invalidateQueries({ queryKey: ["approval-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["approval-actions"] });
+  };
+
+  // Both params change together, so set them in one navigation
+  const showVendorBills = (row: AgingRow) => {
+    if (!row.partyId) return;
+    setSearchParams(
+      (prev) => {
+        const params = new URLSearchParams(prev);
+        params.set("view", "bills");
+        params.set("vendor", row.partyId);
+        params.set("status", "open");
+        return params;
+      },
+      { replace: true }
+    );
+  };
+
+  const handleApproval = async (bill: Bill, approval: BillApprovalStatus) => {
+    try {
+      await setBillApproval(bill.id, approval, getCurrentUserName());
+      toast({ title: `Bill ${approval}`, description: bill.bill_number });
+      refresh();
+    } catch (error) {
+      console.error("Error updating bill approval:", error);
+      toast({
+        title: "Could not update bill",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmVoid = async () => {
+    if (!voiding) return;
+    try {
+      await voidBill(voiding.id);
+      toast({ title: "Bill voided", description: voiding.bill_number });
+      refresh();
+    } catch (error) {
+      console.error("Error voiding bill:", error);
+      toast({
+        title: "Could not void bill",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setVoiding(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+      <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Payables</h1>
+            <p className="text-muted-foreground mt-1">Vendor bills, approvals and what to pay this week</p>
+          </div>
+          <Button size="sm" onClick={() => setIsCreating(true)} disabled={isLoading}>
+            <Plus className="w-4 h-4 mr-2" />
+            New bill
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading bills...
+          </div>
+        ) : error ? (
+          <p className="py-8 text-destructive">Error loading bills: {error.message}</p>
+        ) : (
+          report &&
+          plan && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+                <KPICard title="Outstanding" value={formatPayableAmount(report.totals.total)} icon={Wallet} />
+                <KPICard
+                  title="Overdue"
+                  value={formatPayableAmount(report.totals.overdue)}
+                  icon={AlertCircle}
+                  variant={report.totals.overdue > 0 ? "destructive" : "default"}
+                />
+                <KPICard title={`DPO (${DPO_PERIOD_DAYS} days)`} value={dpo === null ? "—" : `${dpo} days`} icon={Calendar} />
+                <KPICard
+                  title="Awaiting approval"
+                  value={String(pendingCount)}
+                  icon={ClipboardCheck}
+                  variant={pendingCount > 0 ? "warning" : "default"}
+                />
+              </div>
+
+              <Tabs value={["bills", "schedule"].includes(view) ? view : "aging"} onValueChange={setView}>
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="aging">Aging</TabsTrigger>
+                  <TabsTrigger value="bills">Bills</TabsTrigger>
+                  <TabsTrigger value="schedule">Payment schedule</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="aging">
+                  <Card className="border-border/50">
+                    <CardHeader>
+                      <CardTitle>Aging report</CardTitle>
+                      <CardDescription>
+                        What is owed to vendors by days past due as of {asOf}. Select a vendor to see their bills.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <AgingTable
+                        report={report}
+                        partyLabel="Vendor"
+                        emptyMessage="No bills are waiting to be paid."
+                        selectedPartyId={vendorFilter === ALL_VENDORS ? null : vendorFilter}
+                        onSelectParty={showVendorBills}
+                      />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="bills">
+                  <Card className="border-border/50">
+                    <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+                      <div>
+                        <CardTitle>Bills</CardTitle>
+                        <CardDescription>
+                          {filtered.length} of {bills.length} bills
+                        </CardDescription>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Select value={vendorFilter} onValueChange={setVendorFilter}>
+                          <SelectTrigger className="h-9 w-[200px]">
+                            <SelectValue placeholder="All vendors" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ALL_VENDORS}>All vendors</SelectItem>
+                            {vendors.map((vendor) => (
+                              <SelectItem key={vendor.id} value={vendor.id}>
+                                {vendor.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select value={statusFilter} onValueChange={setStatusFilter}>
+                          <SelectTrigger className="h-9 w-[170px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {STATUS_FILTERS.map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {STATUS_FILTER_LABELS[option]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {(vendorFilter !== ALL_VENDORS || statusFilter !== "all") && (
+                          <Button variant="ghost" size="sm" onClick={() => setSearchParams({ view: "bills" }, { replace: true })}>
+                            <X className="w-4 h-4 mr-1" />
+                            Clear
+                          </Button>
+                        )}
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <BillTable
+                        bills={filtered}
+                        vendorNames={vendorNames}
+                        asOf={asOf}
+                        routedBills={routedBills}
+                        onApprove={handleApproval}
+                        onRecordPayment={setPaying}
+                        onVoid={setVoiding}
+                      />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="schedule">
+                  <PaymentPlanCard
+                    plan={plan}
+                    cashOnHand={cashOnHand}
+                    bills={bills}
+                    vendorNames={vendorNames}
+                    reserve={reserveParam}
+                    onReserveChange={setReserve}
+                    onScheduled={refresh}
+                  />
+                </TabsContent>
+              </Tabs>
+            </>
+          )
+        )}
+      </div>
+
+      <BillDialog open={isCreating} onOpenChange={setIsCreating} vendors={vendors} onCreated={refresh} />
+      <BillPaymentDialog
+        bill={paying}
+        accounts={accounts}
+        onOpenChange={(open) => !open && setPaying(null)}
+        onRecorded={refresh}
+      />
+      <AlertDialog open={!!voiding} onOpenChange={(open) => !open && setVoiding(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Void {voiding?.bill_number}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The bill stays on record but no longer counts towards payables or the cash forecast. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmVoid}>Void bill</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Payables;
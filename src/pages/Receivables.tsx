@@ -0,0 +1,281 @@
+import { useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, Calendar, FileText, Loader2, Plus, Receipt, X } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { KPICard } from "@/components/KPICard";
+import { AgingTable } from "@/components/receivables/AgingTable";
+import { InvoiceDetailDialog } from "@/components/receivables/InvoiceDetailDialog";
+import { InvoiceDialog } from "@/components/receivables/InvoiceDialog";
+import { InvoiceTable } from "@/components/receivables/InvoiceTable";
+import { PaymentDialog } from "@/components/receivables/PaymentDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useReceivables } from "@/hooks/use-receivables";
+import { useSearchParamState } from "@/hooks/use-url-filters";
+import type { Invoice } from "@/data/ledger";
+import { INVOICE_STATUS_LABELS, formatReceivableAmount, invoiceDisplayStatus, voidInvoice } from "@/data/receivables";
+import { invoiceOutstanding } from "@shared/metrics";
+import type { AgingRow } from "@shared/aging";
+import { DSO_PERIOD_DAYS, nextInvoiceNumber } from "@shared/receivables";
+
+// "open" covers everything with a balance, overdue or not
+const STATUS_FILTERS = ["all", "open", "overdue", "paid", "void"] as const;
+
+const STATUS_FILTER_LABELS: Record<(typeof STATUS_FILTERS)[number], string> = {
+  all: "All invoices",
+  open: "Open",
+  overdue: INVOICE_STATUS_LABELS.overdue,
+  paid: INVOICE_STATUS_LABELS.paid,
+  void: INVOICE_STATUS_LABELS.void,
+};
+
+const ALL_CUSTOMERS = "all";
+
+const Receivables = () => {
+  const [, setSearchParams] = useSearchParams();
+  const [view, setView] = useSearchParamState("view", "aging");
+  const [customerFilter, setCustomerFilter] = useSearchParamState("customer", ALL_CUSTOMERS);
+  const [statusFilter, setStatusFilter] = useSearchParamState("status", "all");
+  const { invoices, customers, accounts, report, dso, asOf, isLoading, error } = useReceivables();
+  const [isCreating, setIsCreating] = useState(false);
+  const [paying, setPaying] = useState<Invoice | null>(null);
+  const [detail, setDetail] = useState<Invoice | null>(null);
+  const [voiding, setVoiding] = useState<Invoice | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const customerNames = useMemo(() => new Map(customers.map((c) => [c.id, c.name])), [customers]);
+
+  const filtered = useMemo(() => {
+    const rows = invoices.filter((invoice) => {
+      if (customerFilter !== ALL_CUSTOMERS && invoice.customer_id !== customerFilter) return false;
+      switch (statusFilter) {
+        case "open":
+          return invoiceOutstanding(invoice) > 0;
+        case "overdue":
+          return invoiceDisplayStatus(invoice, asOf) === "overdue";
+        case "paid":
+        case "void":
+          return invoice.status === statusFilter;
+        default:
+          return true;
+      }
+    });
+    return rows.sort((a, b) => b.issue_date.localeCompare(a.issue_date) || b.invoice_number.localeCompare(a.invoice_number));
+  }, [invoices, customerFilter, statusFilter, asOf]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["receivables"] });
+    queryClient.invalidateQueries({ queryKey: ["ledger"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-data"] });
+  };
+
+  // Both params change together, so set them in one navigation
+  const showCustomerInvoices = (row: AgingRow) => {
+    if (!row.partyId) return;
+    setSearchParams(
+      (prev) => {
+        const params = new URLSearchParams(prev);
+        params.set("view", "invoices");
+        params.set("customer", row.partyId);
+        params.set("status", "open");
+        return params;
+      },
+      { replace: true }
+    );
+  };
+
+  const confirmVoid = async () => {
+    if (!voiding) return;
+    try {
+      await voidInvoice(voiding.id);
+      toast({ title: "Invoice voided", description: voiding.invoice_number });
+      refresh();
+    } catch (error) {
+      console.error("Error voiding invoice:", error);
+      toast({
+        title: "Could not void invoice",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setVoiding(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+      <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Receivables</h1>
+            <p className="text-muted-foreground mt-1">Invoices, payments received and who owes what</p>
+          </div>
+          <Button size="sm" onClick={() => setIsCreating(true)} disabled={isLoading}>
+            <Plus className="w-4 h-4 mr-2" />
+            New invoice
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading invoices...
+          </div>
+        ) : error ? (
+          <p className="py-8 text-destructive">Error loading invoices: {error.message}</p>
+        ) : (
+          report && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+                <KPICard title="Outstanding" value={formatReceivableAmount(report.totals.total)} icon={Receipt} />
+                <KPICard
+                  title="Overdue"
+                  value={formatReceivableAmount(report.totals.overdue)}
+                  icon={AlertCircle}
+                  variant={report.totals.overdue > 0 ? "destructive" : "default"}
+                />
+                <KPICard title={`DSO (${DSO_PERIOD_DAYS} days)`} value={dso === null ? "—" : `${dso} days`} icon={Calendar} />
+                <KPICard title="Open invoices" value={String(report.openItems)} icon={FileText} />
+              </div>
+
+              <Tabs value={view === "invoices" ? "invoices" : "aging"} onValueChange={setView}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="aging">Aging</TabsTrigger>
+                  <TabsTrigger value="invoices">Invoices</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="aging">
+                  <Card className="border-border/50">
+                    <CardHeader>
+                      <CardTitle>Aging report</CardTitle>
+                      <CardDescription>
+                        Outstanding balances by days past due as of {asOf}. Select a customer to see their invoices.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <AgingTable
+                        report={report}
+                        selectedPartyId={customerFilter === ALL_CUSTOMERS ? null : customerFilter}
+                        onSelectParty={showCustomerInvoices}
+                      />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="invoices">
+                  <Card className="border-border/50">
+                    <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+                      <div>
+                        <CardTitle>Invoices</CardTitle>
+                        <CardDescription>
+                          {filtered.length} of {invoices.length} invoices
+                        </CardDescription>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Select value={customerFilter} onValueChange={setCustomerFilter}>
+                          <SelectTrigger className="h-9 w-[200px]">
+                            <SelectValue placeholder="All customers" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ALL_CUSTOMERS}>All customers</SelectItem>
+                            {customers.map((customer) => (
+                              <SelectItem key={customer.id} value={customer.id}>
+                                {customer.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select value={statusFilter} onValueChange={setStatusFilter}>
+                          <SelectTrigger className="h-9 w-[150px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {STATUS_FILTERS.map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {STATUS_FILTER_LABELS[option]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {(customerFilter !== ALL_CUSTOMERS || statusFilter !== "all") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setSearchParams({ view: "invoices" }, { replace: true })}
+                          >
+                            <X className="w-4 h-4 mr-1" />
+                            Clear
+                          </Button>
+                        )}
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <InvoiceTable
+                        invoices={filtered}
+                        customerNames={customerNames}
+                        asOf={asOf}
+                        onRecordPayment={setPaying}
+                        onShowDetail={setDetail}
+                        onVoid={setVoiding}
+                      />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              </Tabs>
+            </>
+          )
+        )}
+      </div>
+
+      <InvoiceDialog
+        open={isCreating}
+        onOpenChange={setIsCreating}
+        customers={customers}
+        suggestedNumber={nextInvoiceNumber(invoices.map((i) => i.invoice_number))}
+        onCreated={refresh}
+      />
+      <PaymentDialog
+        invoice={paying}
+        accounts={accounts}
+        onOpenChange={(open) => !open && setPaying(null)}
+        onRecorded={refresh}
+      />
+      <InvoiceDetailDialog
+        invoice={detail}
+        customerName={detail?.customer_id ? customerNames.get(detail.customer_id) : undefined}
+        asOf={asOf}
+        onOpenChange={(open) => !open && setDetail(null)}
+      />
+      <AlertDialog open={!!voiding} onOpenChange={(open) => !open && setVoiding(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Void {voiding?.invoice_number}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The invoice stays on record but no longer counts towards receivables. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmVoid}>Void invoice</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Receivables;
@@ -0,0 +1,269 @@
+import { useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { CheckCheck, Landmark, ListChecks, Loader2, Scale, Upload, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { KPICard } from "@/components/KPICard";
+import { BankLineTable, type LineView } from "@/components/reconciliation/BankLineTable";
+import { StatementImportDialog } from "@/components/reconciliation/StatementImportDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useReconciliation } from "@/hooks/use-reconciliation";
+import { useSearchParamState } from "@/hooks/use-url-filters";
+import {
+  formatBankAmount,
+  reconcileBankLine,
+  setBankLineIgnored,
+  unmatchBankLine,
+  type BankLine,
+} from "@/data/reconciliation";
+import { AUTO_ACCEPT_CONFIDENCE, isReconciled, type MatchSuggestion } from "@shared/reconciliation";
+
+const LINE_VIEWS: { value: LineView; label: string }[] = [
+  { value: "suggested", label: "Suggested" },
+  { value: "unmatched", label: "Unmatched" },
+  { value: "matched", label: "Matched" },
+  { value: "ignored", label: "Ignored" },
+];
+
+const Reconciliation = () => {
+  const [, setSearchParams] = useSearchParams();
+  const [view, setView] = useSearchParamState("view", "suggested");
+  const [accountParam] = useSearchParamState("account", "");
+  const [isImporting, setIsImporting] = useState(false);
+  const [busyLineId, setBusyLineId] = useState<string | null>(null);
+  const [isAcceptingAll, setIsAcceptingAll] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { accountId, accounts, lines, suggestions, summary, transactions, invoices, isLoading, error } =
+    useReconciliation(accountParam || null);
+
+  const suggestionsByLine = useMemo(() => new Map(suggestions.map((s) => [s.lineId, s])), [suggestions]);
+  const transactionsById = useMemo(() => new Map(transactions.map((t) => [t.id, t])), [transactions]);
+  const invoicesById = useMemo(() => new Map(invoices.map((i) => [i.id, i])), [invoices]);
+
+  const linesByView = useMemo(() => {
+    const groups: Record<LineView, BankLine[]> = { suggested: [], unmatched: [], matched: [], ignored: [] };
+    for (const line of lines) {
+      if (isReconciled(line)) groups.matched.push(line);
+      else if (line.status === "ignored") groups.ignored.push(line);
+      else if (suggestionsByLine.has(line.id)) groups.suggested.push(line);
+      else groups.unmatched.push(line);
+    }
+    return groups;
+  }, [lines, suggestionsByLine]);
+
+  const confident = suggestions.filter((s) => s.confidence >= AUTO_ACCEPT_CONFIDENCE);
+  const activeView = LINE_VIEWS.some((v) => v.value === view) ? (view as LineView) : "suggested";
+
+  // Reconciling can add transactions and invoice payments, so everything built on the ledger reloads
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["bank-lines"] });
+    queryClient.invalidateQueries({ queryKey: ["ledger"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-data"] });
+    queryClient.invalidateQueries({ queryKey: ["receivables"] });
+  };
+
+  const selectAccount = (id: string) =>
+    setSearchParams(
+      (prev) => {
+        const params = new URLSearchParams(prev);
+        params.set("account", id);
+        return params;
+      },
+      { replace: true }
+    );
+
+  const runLineAction = async (line: BankLine, action: () => Promise<unknown>, failure: string) => {
+    setBusyLineId(line.id);
+    try {
+      await action();
+      refresh();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyLineId(null);
+    }
+  };
+
+  const handleAccept = (line: BankLine, suggestion: MatchSuggestion) =>
+    runLineAction(line, () => reconcileBankLine(line.id, suggestion.target), "Could not accept match");
+
+  const handleAddToLedger = (line: BankLine) =>
+    runLineAction(line, () => reconcileBankLine(line.id, null), "Could not add line to the ledger");
+
+  const handleIgnore = (line: BankLine, ignored: boolean) =>
+    runLineAction(line, () => setBankLineIgnored(line.id, ignored), "Could not update line");
+
+  const handleUnmatch = (line: BankLine) =>
+    runLineAction(line, () => unmatchBankLine(line.id), "Could not unmatch line");
+
+  // One at a time: each match can record a payment against an invoice
+  const acceptConfident = async () => {
+    setIsAcceptingAll(true);
+    let accepted = 0;
+    try {
+      for (const suggestion of confident) {
+        await reconcileBankLine(suggestion.lineId, suggestion.target);
+        accepted++;
+      }
+      toast({ title: "Matches accepted", description: `${accepted} line${accepted === 1 ? "" : "s"} reconciled` });
+    } catch (error) {
+      console.error("Error accepting matches:", error);
+      toast({
+        title: `Stopped after ${accepted} match${accepted === 1 ? "" : "es"}`,
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAcceptingAll(false);
+      refresh();
+    }
+  };
+
+  const difference = summary?.difference ?? null;
+
+  return (
+    <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+      <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Reconciliation</h1>
+            <p className="text-muted-foreground mt-1">Match bank statement lines with the ledger</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {accounts.length > 0 && (
+              <Select value={accountId ?? undefined} onValueChange={selectAccount}>
+                <SelectTrigger className="h-9 w-[200px]">
+                  <SelectValue placeholder="Bank account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button size="sm" onClick={() => setIsImporting(true)} disabled={isLoading}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import statement
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading statement lines...
+          </div>
+        ) : error ? (
+          <p className="py-8 text-destructive">Error loading statement lines: {error.message}</p>
+        ) : !summary ? (
+          <Card className="border-border/50">
+            <CardContent className="py-12 flex flex-col items-center gap-3 text-center">
+              <Landmark className="w-8 h-8 text-muted-foreground" />
+              <p className="font-medium">No bank accounts yet</p>
+              <p className="text-sm text-muted-foreground max-w-md">
+                Import a statement to create the account. Once a statement is in, cash on hand comes from the bank's
+                closing balance.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+              <KPICard
+                title={summary.statementDate ? `Bank balance (${summary.statementDate})` : "Bank balance"}
+                value={summary.statementBalance === null ? "—" : formatBankAmount(summary.statementBalance)}
+                icon={Landmark}
+              />
+              <KPICard title="Ledger balance" value={formatBankAmount(summary.ledgerBalance)} icon={Wallet} />
+              <KPICard
+                title="Difference"
+                value={difference === null ? "—" : formatBankAmount(difference)}
+                icon={Scale}
+                variant={difference === null ? "default" : Math.abs(difference) < 0.005 ? "success" : "warning"}
+              />
+              <KPICard
+                title="Lines to review"
+                value={String(summary.openLines)}
+                icon={ListChecks}
+                variant={summary.openLines > 0 ? "warning" : "default"}
+              />
+            </div>
+
+            <Card className="border-border/50">
+              <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle>Statement lines</CardTitle>
+                  <CardDescription>
+                    Suggestions pair each line with a ledger transaction of the same amount within a few days, or an
+                    open invoice it pays.
+                  </CardDescription>
+                </div>
+                <Button size="sm" variant="outline" onClick={acceptConfident} disabled={confident.length === 0 || isAcceptingAll}>
+                  {isAcceptingAll ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <CheckCheck className="w-4 h-4 mr-2" />
+                  )}
+                  Accept {confident.length} confident
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <Tabs value={activeView} onValueChange={setView}>
+                  <TabsList className="grid w-full grid-cols-4">
+                    {LINE_VIEWS.map(({ value, label }) => (
+                      <TabsTrigger key={value} value={value}>
+                        {label} ({linesByView[value].length})
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                  {LINE_VIEWS.map(({ value }) => (
+                    <TabsContent key={value} value={value}>
+                      <BankLineTable
+                        lines={linesByView[value]}
+                        view={value}
+                        suggestions={suggestionsByLine}
+                        transactionsById={transactionsById}
+                        invoicesById={invoicesById}
+                        busyLineId={busyLineId}
+                        onAccept={handleAccept}
+                        onAddToLedger={handleAddToLedger}
+                        onIgnore={handleIgnore}
+                        onUnmatch={handleUnmatch}
+                      />
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <StatementImportDialog
+        open={isImporting}
+        onOpenChange={setIsImporting}
+        accounts={accounts}
+        defaultAccountId={accountId}
+        onImported={(id) => {
+          selectAccount(id);
+          refresh();
+        }}
+      />
+    </div>
+  );
+};
+
+export default Reconciliation;
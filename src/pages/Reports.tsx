@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PeriodSelect } from "@/components/PeriodSelect";
+import { StatementTable } from "@/components/reports/StatementTable";
+import { TransactionDrilldown } from "@/components/reports/TransactionDrilldown";
+import {
+  COMPARISONS,
+  COMPARISON_LABELS,
+  isComparison,
+  useFinancialStatements,
+  type Comparison,
+} from "@/hooks/use-financial-statements";
+import { usePeriodFilter, useSearchParamState } from "@/hooks/use-url-filters";
+import { describeRange } from "@/lib/period";
+import { formatStatementAmount } from "@/lib/statements";
+import { STATEMENT_TITLES, type ComparativeRow, type StatementKind } from "@shared/statements";
+
+const STATEMENT_KINDS: StatementKind[] = ["income-statement", "balance-sheet", "cash-flow"];
+
+const Reports = () => {
+  const { range } = usePeriodFilter();
+  const [statementParam, setStatement] = useSearchParamState("statement", "income-statement");
+  const [compareParam, setCompare] = useSearchParamState("compare", "prior-period");
+  const statementKind = (STATEMENT_KINDS as string[]).includes(statementParam)
+    ? (statementParam as StatementKind)
+    : "income-statement";
+  const comparison: Comparison = isComparison(compareParam) ? compareParam : "prior-period";
+
+  const { statements, transactionsById, comparable, isLoading, error } = useFinancialStatements(range, comparison);
+  const [drilldown, setDrilldown] = useState<{ row: ComparativeRow; column: number } | null>(null);
+
+  const drilldownStatement = statements?.[statementKind];
+  const drilldownColumn = drilldown ? drilldownStatement?.columns[drilldown.column] : undefined;
+
+  return (
+    <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+      <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Reports</h1>
+            <p className="text-muted-foreground mt-1">Financial statements for {describeRange(range)}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <PeriodSelect />
+            <Select value={comparison} onValueChange={setCompare} disabled={!comparable}>
+              <SelectTrigger className="h-9 w-[200px]" title={comparable ? undefined : "Choose a period to compare"}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COMPARISONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {COMPARISON_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Tabs value={statementKind} onValueChange={setStatement}>
+          <TabsList className="grid w-full grid-cols-3">
+            {STATEMENT_KINDS.map((kind) => (
+              <TabsTrigger key={kind} value={kind}>
+                {STATEMENT_TITLES[kind]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {STATEMENT_KINDS.map((kind) => {
+            const statement = statements?.[kind];
+            const unbalanced = statement?.differences.some((d) => d !== 0);
+            return (
+              <TabsContent key={kind} value={kind}>
+                <Card className="border-border/50">
+                  <CardHeader>
+                    <CardTitle>{STATEMENT_TITLES[kind]}</CardTitle>
+                    <CardDescription>
+                      {kind === "balance-sheet"
+                        ? "Balances at the end of each period"
+                        : "Select an amount to see the transactions behind it"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {isLoading ? (
+                      <div className="flex items-center gap-2 py-8 text-muted-foreground">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Loading ledger...
+                      </div>
+                    ) : error ? (
+                      <p className="py-8 text-destructive">Error loading ledger: {error.message}</p>
+                    ) : statement ? (
+                      <>
+                        {unbalanced && (
+                          <div className="mb-4 flex items-center gap-2 rounded-md border border-warning/50 p-3 text-sm">
+                            <AlertTriangle className="w-4 h-4 text-warning" />
+                            Out of balance by {statement.differences.map(formatStatementAmount).join(" / ")}
+                          </div>
+                        )}
+                        <StatementTable
+                          statement={statement}
+                          onDrillDown={(row, column) => setDrilldown({ row, column })}
+                        />
+                      </>
+                    ) : null}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            );
+          })}
+        </Tabs>
+      </div>
+
+      <TransactionDrilldown
+        open={!!drilldown}
+        onOpenChange={(open) => !open && setDrilldown(null)}
+        title={drilldown?.row.label || ""}
+        description={drilldownColumn?.label}
+        transactions={
+          drilldown
+            ? drilldown.row.transactionIds[drilldown.column]
+                .map((id) => transactionsById.get(id))
+                .filter(Boolean)
+            : []
+        }
+      />
+    </div>
+  );
+};
+
+export default Reports;
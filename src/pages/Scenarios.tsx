@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Bot, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScenarioComparison } from "@/components/scenarios/ScenarioComparison";
+import { ScenarioEditor } from "@/components/scenarios/ScenarioEditor";
+import { useToast } from "@/hooks/use-toast";
+import { useScenarioComparison } from "@/hooks/use-scenarios";
+import { useSearchParamState } from "@/hooks/use-url-filters";
+import { createScenario, formatScenarioAmount } from "@/data/scenarios";
+import { cn } from "@/lib/utils";
+import { FORECAST_HORIZONS } from "@shared/forecast";
+
+const DEFAULT_HORIZON = 12;
+
+const Scenarios = () => {
+  const [horizonParam, setHorizon] = useSearchParamState("horizon", String(DEFAULT_HORIZON));
+  const [selectedId, setSelectedId] = useSearchParamState("scenario", "");
+  const horizon = FORECAST_HORIZONS.find((h) => String(h) === horizonParam) ?? DEFAULT_HORIZON;
+  const { scenarios, baseline, results, isLoading, error } = useScenarioComparison(horizon);
+  const [isCreating, setIsCreating] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const selected = scenarios.find((s) => s.id === selectedId) || null;
+
+  // A new scenario starts as a copy of the baseline: no adjustments
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const scenario = await createScenario({ name: `Scenario ${scenarios.length + 1}`, adjustments: [] });
+      await queryClient.invalidateQueries({ queryKey: ["scenarios"] });
+      setSelectedId(scenario.id);
+    } catch (error) {
+      console.error("Error creating scenario:", error);
+      toast({
+        title: "Could not create scenario",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+      <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Scenarios</h1>
+            <p className="text-muted-foreground mt-1">
+              Test changes to revenue, headcount, prices, capex and borrowing against the cash forecast
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={String(horizon)} onValueChange={setHorizon}>
+              <SelectTrigger className="h-9 w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORECAST_HORIZONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option} months
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleCreate} disabled={isCreating}>
+              {isCreating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              New scenario
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading forecast and scenarios...
+          </div>
+        ) : error ? (
+          <p className="py-8 text-destructive">Error loading scenarios: {error.message}</p>
+        ) : !baseline ? (
+          <Card className="border-border/50">
+            <CardContent className="py-8 text-center text-muted-foreground">
+              Import transactions to build the baseline forecast scenarios start from.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <ScenarioComparison baseline={baseline} scenarios={scenarios} results={results} horizon={horizon} />
+
+            <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+              <div className="space-y-2">
+                {scenarios.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    No scenarios yet. Create one here, or ask the CFO agent something like "what if we hire two people
+                    in March?"
+                  </p>
+                )}
+                {scenarios.map((scenario) => {
+                  const summary = results.get(scenario.id)?.summary;
+                  return (
+                    <button
+                      key={scenario.id}
+                      type="button"
+                      onClick={() => setSelectedId(scenario.id)}
+                      className={cn(
+                        "w-full rounded-lg border px-3 py-2 text-left transition-colors",
+                        scenario.id === selectedId ? "border-primary bg-primary/5" : "border-border/50 hover:bg-muted/50"
+                      )}
+                    >
+                      <span className="flex items-center gap-1.5 text-sm font-medium">
+                        {scenario.source === "agent" && <Bot className="w-3.5 h-3.5 text-muted-foreground" />}
+                        <span className="truncate">{scenario.name}</span>
+                      </span>
+                      <span className="block text-xs text-muted-foreground">
+                        {scenario.adjustments.length} adjustment{scenario.adjustments.length === 1 ? "" : "s"}
+                        {summary && ` · ends at ${formatScenarioAmount(summary.endingCash)}`}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+
+              {selected ? (
+                <ScenarioEditor
+                  scenario={selected}
+                  result={results.get(selected.id)}
+                  onSelect={(id) => setSelectedId(id || "")}
+                />
+              ) : (
+                scenarios.length > 0 && (
+                  <p className="text-sm text-muted-foreground">Select a scenario to edit its adjustments.</p>
+                )
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Scenarios;
@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { getCurrentUserName, setCurrentUserName } from "@/lib/currentUser";
+
+const Settings = () => {
+  const [name, setName] = useState(() => getCurrentUserName() ?? "");
+  const { toast } = useToast();
+
+  const saveName = () => {
+    setCurrentUserName(name);
+    toast({ title: name.trim() ? "Name saved" : "Name cleared" });
+  };
+
+  return (
+    <div className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+      <div className="max-w-6xl mx-auto space-y-6 sm:space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+          <p className="text-muted-foreground mt-1">Configure your dashboard</p>
+        </div>
+
+        <Card className="border-border/50 max-w-xl">
+          <CardHeader>
+            <CardTitle>Your name</CardTitle>
+            <CardDescription>
+              Recorded on the bills you enter and approve, and used as the default owner of compliance findings.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex items-end gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                saveName();
+              }}
+            >
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="current-user-name">Name</Label>
+                <Input id="current-user-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Alex Kim" />
+              </div>
+              <Button type="submit">Save</Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,323 @@
+// Tools the CFO agent can call while it answers. The bedrock-model provider
+// hands them to the model directly. For bedrock-agent, give the agent an
+// action group with the same function names and parameters and "Return
+// control" as its executor; the provider then runs them here and sends the
+// results back to the agent.
+import { addDays } from "./aging.ts";
+import { ANOMALY_KINDS, detectAnomalies } from "./anomalies.ts";
+import {
+  ACTIVE_FINDING_STATUSES,
+  COMPLIANCE_RULE_KINDS,
+  complianceGraphData,
+  evaluateCompliance,
+  type ComplianceFindingSummary,
+} from "./compliance.ts";
+import { buildCashForecast } from "./forecast.ts";
+import { scheduledBillPayments } from "./payables.ts";
+import {
+  createServiceClient,
+  fetchAllRows,
+  loadAnomalyLedger,
+  loadComplianceLedger,
+  loadForecastLedger,
+  loadObligations,
+} from "./ledger.ts";
+import type { LLMTool } from "./llm/types.ts";
+import { DEADLINE_STATUSES, buildDeadlines, deadlineGraphData } from "./obligations.ts";
+import {
+  ADJUSTMENT_TYPES,
+  REVENUE_CHANNELS,
+  applyScenario,
+  describeAdjustment,
+  parseAdjustments,
+  revenueChannelMix,
+} from "./scenarios.ts";
+
+// Matches the scenario workspace's default horizon
+const SCENARIO_HORIZON = 12;
+
+export const createScenarioTool: LLMTool = {
+  name: "create_scenario",
+  description:
+    "Save a what-if scenario to the scenario workspace and return its cash, runway and profit against the baseline " +
+    `forecast over the next ${SCENARIO_HORIZON} months. Use it for questions like "what if we hire two people" or ` +
+    '"what if online revenue drops 20%". Months are YYYY-MM and percentages plain numbers (-20 is a 20% drop). ' +
+    "Quote the returned figures and link the scenario with the returned path.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: { type: "string", description: "Short scenario name, e.g. \"Two new hires in March\"" },
+      description: { type: "string", description: "What the scenario tests" },
+      adjustments: {
+        type: "array",
+        description:
+          "Changes to apply. revenue: channel (one of " +
+          `${REVENUE_CHANNELS.join(", ")}, or omit for all revenue), changePct, startMonth, optional endMonth. ` +
+          "headcount: count, monthlyCost per person fully loaded, startMonth, optional role. " +
+          "price: changePct, optional volumeChangePct, startMonth. " +
+          "capex: amount, month, optional description and usefulLifeMonths (default 36). " +
+          "loan: amount, month of drawdown, annualRatePct, termMonths.",
+        items: {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: [...ADJUSTMENT_TYPES] },
+            channel: { type: "string" },
+            changePct: { type: "number" },
+            volumeChangePct: { type: "number" },
+            count: { type: "number" },
+            monthlyCost: { type: "number" },
+            role: { type: "string" },
+            amount: { type: "number" },
+            description: { type: "string" },
+            usefulLifeMonths: { type: "number" },
+            annualRatePct: { type: "number" },
+            termMonths: { type: "number" },
+            month: { type: "string" },
+            startMonth: { type: "string" },
+            endMonth: { type: "string" },
+          },
+          required: ["type"],
+        },
+      },
+    },
+    required: ["name", "adjustments"],
+  },
+
+  async run(input) {
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    if (!name) throw new Error("name is required");
+    const { adjustments, errors } = parseAdjustments(input.adjustments);
+    if (errors.length > 0) throw new Error(errors.join("; "));
+    if (adjustments.length === 0) throw new Error("Add at least one adjustment");
+    const description = typeof input.description === "string" && input.description.trim() ? input.description.trim() : null;
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from("scenarios")
+      .insert({ name, description, adjustments, source: "agent" })
+      .select("id")
+      .single();
+    if (error) throw new Error(`Failed to save scenario: ${error.message}`);
+
+    const ledger = await loadForecastLedger(supabase);
+    const forecast = buildCashForecast(ledger, {
+      horizon: SCENARIO_HORIZON,
+      scheduledPayments: scheduledBillPayments(ledger.bills, ledger.vendors),
+    });
+    const channelMix = revenueChannelMix(ledger.transactions, forecast.asOf);
+    const baseline = applyScenario(forecast, channelMix, []);
+    const scenario = applyScenario(forecast, channelMix, adjustments);
+
+    return {
+      id: data.id,
+      path: `/scenarios?scenario=${data.id}`,
+      horizonMonths: SCENARIO_HORIZON,
+      adjustments: adjustments.map(describeAdjustment),
+      // runwayMonths is null when cash lasts the whole horizon
+      baseline: baseline.summary,
+      scenario: scenario.summary,
+      warnings: scenario.warnings,
+    };
+  },
+};
+
+// Findings returned to the agent when it does not ask for a limit
+const DEFAULT_ANOMALY_LIMIT = 20;
+
+const isoDate = (value: unknown) =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+
+export const findAnomaliesTool: LLMTool = {
+  name: "find_anomalies",
+  description:
+    "List statistical anomalies in the ledger: possible duplicate payments, amounts unusual for their payee or " +
+    "category (baselines adjust for seasonality), category spikes, large first payments to new vendors, weekend or " +
+    "after-hours spend and round-number payment patterns. Findings the user dismissed are left out. Dates are " +
+    "YYYY-MM-DD. Cite each finding by its transactionIds so the user can look the transactions up.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      start: { type: "string", description: "Only findings with a transaction on or after this date" },
+      end: { type: "string", description: "Only findings with a transaction on or before this date" },
+      kinds: {
+        type: "array",
+        description: "Limit to these kinds of finding",
+        items: { type: "string", enum: [...ANOMALY_KINDS] },
+      },
+      limit: { type: "number", description: `Most findings to return, most severe first (default ${DEFAULT_ANOMALY_LIMIT})` },
+    },
+  },
+
+  async run(input) {
+    const kinds = Array.isArray(input.kinds) ? input.kinds.filter((k) => typeof k === "string") : [];
+    const limit = typeof input.limit === "number" && input.limit > 0 ? Math.floor(input.limit) : DEFAULT_ANOMALY_LIMIT;
+
+    const { transactions, vendors, customers, dismissedKeys } = await loadAnomalyLedger(createServiceClient());
+    const names = {
+      vendors: new Map(vendors.map((v) => [v.id, v.name])),
+      customers: new Map(customers.map((c) => [c.id, c.name])),
+    };
+    const findings = detectAnomalies(transactions, names, { start: isoDate(input.start), end: isoDate(input.end) })
+      .filter((a) => kinds.length === 0 || kinds.includes(a.kind));
+    const open = findings.filter((a) => !dismissedKeys.has(a.key));
+
+    return {
+      total: open.length,
+      dismissed: findings.length - open.length,
+      findings: open.slice(0, limit),
+    };
+  },
+};
+
+// Open findings returned to the agent when it does not ask for a limit
+const DEFAULT_FINDING_LIMIT = 20;
+
+const FINDING_SEVERITY_ORDER: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+interface StoredFinding extends ComplianceFindingSummary {
+  id: string;
+  severity: string;
+  date: string;
+  amount: number;
+  owner: string | null;
+  resolution_notes: string | null;
+}
+
+export const checkComplianceTool: LLMTool = {
+  name: "check_compliance",
+  description:
+    "Run the compliance rules over the ledger (payments over the approval threshold without an approved bill, " +
+    "expenses without a receipt, vendors paid enough to need a tax form, bills approved by whoever entered them, " +
+    "bills and expenses an approval policy covers that are not fully approved), " +
+    "store the results in the findings register and return the findings still open or in review with their owner " +
+    "and notes. graphData is ready to use as the compliance chart; cite findings by their transactionIds.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      kinds: {
+        type: "array",
+        description: "Limit the returned findings to these rule kinds",
+        items: { type: "string", enum: [...COMPLIANCE_RULE_KINDS] },
+      },
+      limit: { type: "number", description: `Most findings to return, most severe first (default ${DEFAULT_FINDING_LIMIT})` },
+    },
+  },
+
+  async run(input) {
+    const kinds = Array.isArray(input.kinds) ? input.kinds.filter((k) => typeof k === "string") : [];
+    const limit = typeof input.limit === "number" && input.limit > 0 ? Math.floor(input.limit) : DEFAULT_FINDING_LIMIT;
+
+    const supabase = createServiceClient();
+    const { rules, ...ledger } = await loadComplianceLedger(supabase);
+    const checks = evaluateCompliance(rules, ledger);
+    const { data: sync, error } = await supabase.rpc("sync_compliance_findings", { p_findings: checks });
+    if (error) throw new Error(`Failed to store compliance findings: ${error.message}`);
+
+    const findings = await fetchAllRows<StoredFinding>("compliance_findings", (from, to) =>
+      supabase
+        .from("compliance_findings")
+        .select("id, kind, severity, status, title, detail, date, amount, transaction_ids, vendor_id, owner, resolution_notes")
+        .in("status", ACTIVE_FINDING_STATUSES)
+        .order("date", { ascending: false })
+        .order("id")
+        .range(from, to)
+    );
+    const listed = findings
+      .filter((f) => kinds.length === 0 || kinds.includes(f.kind))
+      .sort((a, b) => FINDING_SEVERITY_ORDER[a.severity] - FINDING_SEVERITY_ORDER[b.severity]);
+
+    return {
+      rulesChecked: rules.length,
+      opened: sync?.opened ?? 0,
+      cleared: sync?.cleared ?? 0,
+      total: listed.length,
+      findings: listed.slice(0, limit).map((f) => ({
+        id: f.id,
+        kind: f.kind,
+        severity: f.severity,
+        status: f.status,
+        title: f.title,
+        detail: f.detail,
+        date: f.date,
+        amount: Number(f.amount),
+        owner: f.owner,
+        notes: f.resolution_notes,
+        transactionIds: f.transaction_ids,
+      })),
+      graphData: complianceGraphData(
+        findings,
+        ledger.transactions.length,
+        new Map(ledger.vendors.map((v) => [v.id, v.name])),
+      ),
+      path: "/compliance",
+    };
+  },
+};
+
+// Window listed when the agent does not give one
+const DEFAULT_DEADLINE_DAYS = 90;
+
+export const listComplianceDeadlinesTool: LLMTool = {
+  name: "list_compliance_deadlines",
+  description:
+    "List filing and regulatory deadlines from the compliance calendar (sales tax, payroll and annual returns and " +
+    "any other obligations the user tracks) with their status, assignee, checklist progress, evidence attached and " +
+    "who completed them. Deadlines before the window that are still open are included as overdue. Dates are " +
+    "YYYY-MM-DD. Only report deadlines this returns; graphData is ready to use as the compliance chart.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      start: { type: "string", description: "First due date to list (default today)" },
+      end: { type: "string", description: `Last due date to list (default ${DEFAULT_DEADLINE_DAYS} days from start)` },
+      statuses: {
+        type: "array",
+        description: "Limit to deadlines with these statuses",
+        items: { type: "string", enum: [...DEADLINE_STATUSES] },
+      },
+    },
+  },
+
+  async run(input) {
+    const today = new Date().toISOString().slice(0, 10);
+    const start = isoDate(input.start) ?? today;
+    const end = isoDate(input.end) ?? addDays(start, DEFAULT_DEADLINE_DAYS);
+    const statuses = Array.isArray(input.statuses) ? input.statuses.filter((s) => typeof s === "string") : [];
+
+    const { obligations, filings, evidenceCounts } = await loadObligations(createServiceClient());
+    const deadlines = buildDeadlines(obligations, filings, { start, end, asOf: today })
+      .filter((d) => statuses.length === 0 || statuses.includes(d.status));
+
+    return {
+      start,
+      end,
+      obligationsTracked: obligations.filter((o) => o.is_active).length,
+      total: deadlines.length,
+      deadlines: deadlines.map((d) => ({
+        obligation: d.obligation.name,
+        reference: d.obligation.reference,
+        authority: d.obligation.authority,
+        dueDate: d.dueDate,
+        daysUntil: d.daysUntil,
+        status: d.status,
+        assignee: d.assignee,
+        checklist: d.obligation.checklist.map((step) => ({
+          step,
+          done: d.filing?.completed_steps.includes(step) ?? false,
+        })),
+        notes: d.filing?.notes ?? null,
+        completedAt: d.filing?.completed_at ?? null,
+        completedBy: d.filing?.completed_by ?? null,
+        evidenceFiles: d.filing ? evidenceCounts.get(d.filing.id) ?? 0 : 0,
+      })),
+      graphData: deadlineGraphData(deadlines),
+      path: "/calendar",
+    };
+  },
+};
+
+export const AGENT_TOOLS: LLMTool[] = [
+  createScenarioTool,
+  findAnomaliesTool,
+  checkComplianceTool,
+  listComplianceDeadlinesTool,
+];
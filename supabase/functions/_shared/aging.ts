@@ -0,0 +1,141 @@
+// Aging of open balances by days past due, shared by receivables (invoices
+// by customer) and payables (bills by vendor). Pure like metrics.ts.
+import { round2 } from "./metrics.ts";
+
+export const AGING_BUCKETS = ["current", "1-30", "31-60", "61-90", "90+"] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: "Current",
+  "1-30": "1–30 days",
+  "31-60": "31–60 days",
+  "61-90": "61–90 days",
+  "90+": "90+ days",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days from the due date to `asOf`; zero or less while not yet due
+export function daysOverdue(dueDate: string, asOf: string): number {
+  return Math.round((Date.parse(`${asOf}T00:00:00Z`) - Date.parse(`${dueDate}T00:00:00Z`)) / DAY_MS);
+}
+
+export function agingBucket(days: number): AgingBucket {
+  if (days <= 0) return "current";
+  if (days <= 30) return "1-30";
+  if (days <= 60) return "31-60";
+  if (days <= 90) return "61-90";
+  return "90+";
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// An invoice or bill with a balance, reduced to what aging needs
+export interface OpenItem {
+  id: string;
+  // Customer or vendor the balance is owed by or to
+  partyId: string | null;
+  issueDate: string;
+  dueDate: string;
+  outstanding: number;
+}
+
+export interface AgingRow {
+  partyId: string | null;
+  party: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  overdue: number;
+  // Days past due of the oldest unpaid item; zero when nothing is overdue
+  oldestDaysOverdue: number;
+  itemIds: string[];
+}
+
+export interface AgingReport {
+  asOf: string;
+  rows: AgingRow[];
+  totals: Record<AgingBucket, number> & { total: number; overdue: number };
+  openItems: number;
+}
+
+const emptyBuckets = () => Object.fromEntries(AGING_BUCKETS.map((b) => [b, 0])) as Record<AgingBucket, number>;
+
+/**
+ * Open balances on `asOf` per party, split by how far past due they are.
+ * Items without a party are grouped under `unassigned`. Rows are sorted by
+ * overdue amount, then by total.
+ */
+export function ageOpenItems(
+  items: OpenItem[],
+  parties: { id: string; name: string }[],
+  asOf: string,
+  unassigned: string
+): AgingReport {
+  const partyNames = new Map(parties.map((p) => [p.id, p.name]));
+  const rows = new Map<string, AgingRow>();
+  let openItems = 0;
+
+  for (const item of items) {
+    if (item.outstanding <= 0 || item.issueDate > asOf) continue;
+    openItems++;
+    const key = item.partyId ?? "";
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        partyId: item.partyId,
+        party: (item.partyId && partyNames.get(item.partyId)) || unassigned,
+        buckets: emptyBuckets(),
+        total: 0,
+        overdue: 0,
+        oldestDaysOverdue: 0,
+        itemIds: [],
+      };
+      rows.set(key, row);
+    }
+    const days = daysOverdue(item.dueDate, asOf);
+    const bucket = agingBucket(days);
+    row.buckets[bucket] += item.outstanding;
+    row.total += item.outstanding;
+    if (bucket !== "current") row.overdue += item.outstanding;
+    row.oldestDaysOverdue = Math.max(row.oldestDaysOverdue, days);
+    row.itemIds.push(item.id);
+  }
+
+  const result = Array.from(rows.values()).map((row) => ({
+    ...row,
+    buckets: Object.fromEntries(AGING_BUCKETS.map((b) => [b, round2(row.buckets[b])])) as Record<AgingBucket, number>,
+    total: round2(row.total),
+    overdue: round2(row.overdue),
+  }));
+  result.sort((a, b) => b.overdue - a.overdue || b.total - a.total || a.party.localeCompare(b.party));
+
+  const totals = { ...emptyBuckets(), total: 0, overdue: 0 };
+  for (const row of result) {
+    for (const b of AGING_BUCKETS) totals[b] = round2(totals[b] + row.buckets[b]);
+    totals.total = round2(totals.total + row.total);
+    totals.overdue = round2(totals.overdue + row.overdue);
+  }
+  return { asOf, rows: result, totals, openItems };
+}
+
+export function topOverdue(report: AgingReport, limit = 5): AgingRow[] {
+  return report.rows.filter((row) => row.overdue > 0).slice(0, limit);
+}
+
+// First day of the `periodDays` window ending on `asOf`
+export function periodStart(asOf: string, periodDays: number): string {
+  return addDays(asOf, -(periodDays - 1));
+}
+
+/**
+ * Days a balance takes to turn over: what is open on `asOf` over what was
+ * raised in the preceding `periodDays`, times `periodDays`. The formula
+ * behind both DSO and DPO; null when nothing was raised in the window.
+ */
+export function turnoverDays(openBalance: number, raised: number, periodDays: number): number | null {
+  if (raised <= 0) return null;
+  return Math.round((openBalance / raised) * periodDays * 10) / 10;
+}
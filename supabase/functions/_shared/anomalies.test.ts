@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { detectAnomalies, type AnomalyKind, type AnomalyTransaction } from "./anomalies.ts";
+
+const row = (t: Partial<AnomalyTransaction> & Pick<AnomalyTransaction, "id" | "date" | "amount">): AnomalyTransaction => ({
+  type: "expense",
+  category: null,
+  account_id: "bank",
+  vendor_id: null,
+  customer_id: null,
+  description: null,
+  reference: null,
+  transaction_time: null,
+  ...t,
+});
+
+const names = {
+  vendors: new Map([
+    ["acme", "Acme"],
+    ["cleaner", "Sparkle Cleaning"],
+    ["landlord", "Landlord"],
+    ["newco", "NewCo"],
+  ]),
+  customers: new Map<string, string>(),
+};
+
+const findings = (transactions: AnomalyTransaction[], kind: AnomalyKind) =>
+  detectAnomalies(transactions, names).filter((a) => a.kind === kind);
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+describe("detectAnomalies", () => {
+  describe("duplicate payments", () => {
+    it("clusters same-amount payments to a payee within the window", () => {
+      const transactions = [
+        row({ id: "d1", date: "2025-03-03", amount: 500, vendor_id: "acme", reference: "INV-7" }),
+        row({ id: "d2", date: "2025-03-05", amount: 500, vendor_id: "acme", reference: "INV-7" }),
+        // Weeks later, so a payment of its own
+        row({ id: "d3", date: "2025-04-20", amount: 500, vendor_id: "acme" }),
+        // Each within a week of the one before, so one cluster of three
+        row({ id: "c1", date: "2025-03-03", amount: 250, description: "Courier run" }),
+        row({ id: "c2", date: "2025-03-08", amount: 250, description: "Courier run" }),
+        row({ id: "c3", date: "2025-03-13", amount: 250, description: "Courier run" }),
+      ];
+      const duplicates = findings(transactions, "duplicate_payment");
+      expect(duplicates.map((a) => [a.transactionIds, a.severity, a.amount])).toEqual(
+        expect.arrayContaining([
+          [["d1", "d2"], "high", 500],
+          [["c1", "c2", "c3"], "medium", 500],
+        ])
+      );
+      expect(duplicates).toHaveLength(2);
+      expect(duplicates.find((a) => a.transactionIds.includes("d1"))?.detail).toBe(
+        "2 payments of $500 within 2 days, all with reference INV-7"
+      );
+    });
+
+    it("leaves routine weekly payments of the same amount alone", () => {
+      const mondays = ["01-06", "01-13", "01-20", "01-27", "02-03", "02-10", "02-17", "02-24"];
+      const transactions = mondays.map((day, i) =>
+        row({ id: `w${i}`, date: `2025-${day}`, amount: 150, vendor_id: "cleaner" })
+      );
+      expect(findings(transactions, "duplicate_payment")).toEqual([]);
+    });
+  });
+
+  describe("unusual amounts", () => {
+    it("flags a payment far above the payee's usual amount", () => {
+      const transactions = [
+        ...[190, 205, 200, 210, 195, 200, 198, 202].map((amount, i) =>
+          row({ id: `g${i}`, date: `2024-${pad(i + 1)}-10`, amount, description: "Globex hosting" })
+        ),
+        row({ id: "g-big", date: "2024-09-10", amount: 2000, description: "Globex hosting" }),
+      ];
+      const unusual = findings(transactions, "unusual_amount");
+      expect(unusual.map((a) => [a.transactionIds, a.severity])).toEqual([[["g-big"], "high"]]);
+    });
+
+    it("expects a category's seasonal months to run higher", () => {
+      // Heating costs treble every December
+      const transactions = Array.from({ length: 24 }, (_, i) => {
+        const month = `${2023 + Math.floor(i / 12)}-${pad((i % 12) + 1)}`;
+        return row({
+          id: `u-${month}`,
+          date: `${month}-15`,
+          amount: month.endsWith("-12") ? 900 : 300,
+          category: "Utilities",
+          description: "City Gas",
+        });
+      });
+      expect(findings(transactions, "unusual_amount")).toEqual([]);
+      expect(findings(transactions, "category_spike")).toEqual([]);
+    });
+  });
+
+  describe("category spikes", () => {
+    it("flags a month well above the category's other months", () => {
+      const transactions = [
+        ...Array.from({ length: 8 }, (_, i) =>
+          row({ id: `t${i}`, date: `2025-${pad(i + 1)}-12`, amount: 400, category: "Travel", description: `Trip ${i}` })
+        ),
+        row({ id: "t-big", date: "2025-09-12", amount: 3000, category: "Travel", description: "Conference" }),
+      ];
+      const spikes = findings(transactions, "category_spike");
+      expect(spikes.map((a) => [a.key, a.severity, a.transactionIds])).toEqual([
+        ["category_spike:expense:Travel:2025-09", "high", ["t-big"]],
+      ]);
+    });
+  });
+
+  describe("new vendors", () => {
+    it("flags large first payments only after 90 days of history", () => {
+      const transactions = [
+        ...Array.from({ length: 20 }, (_, i) =>
+          row({ id: `s${i}`, date: `2025-01-${pad(i + 2)}`, amount: 50, description: "Corner Cafe" })
+        ),
+        ...Array.from({ length: 6 }, (_, i) =>
+          row({ id: `r${i}`, date: `2025-${pad(i + 1)}-01`, amount: 2000, vendor_id: "landlord" })
+        ),
+        // Inside the first 90 days, so part of the opening history
+        row({ id: "early", date: "2025-02-01", amount: 5000, vendor_id: "acme" }),
+        row({ id: "late", date: "2025-06-10", amount: 5000, vendor_id: "newco" }),
+      ];
+      const vendors = findings(transactions, "new_vendor");
+      expect(vendors.map((a) => [a.transactionIds, a.severity, a.title])).toEqual([
+        [["late"], "high", "Large first payment to NewCo"],
+      ]);
+    });
+  });
+
+  describe("off-hours spend", () => {
+    it("flags rare weekend and late-night payments", () => {
+      const weekdays = ["03", "04", "05", "06", "07", "10", "11", "12", "13", "14"];
+      const transactions = [
+        ...weekdays.map((day, i) =>
+          row({ id: `o${i}`, date: `2025-03-${day}`, amount: 200, description: `Supplier ${i}`, transaction_time: "10:00:00" })
+        ),
+        row({ id: "saturday", date: "2025-03-08", amount: 800, description: "Hardware store", transaction_time: "11:00:00" }),
+        row({ id: "late", date: "2025-03-12", amount: 500, description: "Online order", transaction_time: "23:15:00" }),
+      ];
+      const offHours = findings(transactions, "off_hours");
+      expect(offHours.map((a) => [a.transactionIds[0], a.title])).toEqual(
+        expect.arrayContaining([
+          ["saturday", "Weekend payment to Hardware store"],
+          ["late", "After-hours payment to Online order"],
+        ])
+      );
+      expect(offHours).toHaveLength(2);
+    });
+  });
+
+  describe("round amounts", () => {
+    it("flags a payee paid varying whole hundreds", () => {
+      const transactions = [1500, 2200, 800].map((amount, i) =>
+        row({ id: `k${i}`, date: `2025-0${i + 1}-20`, amount, description: "Strategy consulting" })
+      );
+      const round = findings(transactions, "round_amounts");
+      expect(round.map((a) => [a.transactionIds, a.severity, a.amount])).toEqual([[["k0", "k1", "k2"], "medium", 4500]]);
+    });
+
+    it("raises nothing for a fixed monthly rent", () => {
+      const transactions = Array.from({ length: 6 }, (_, i) =>
+        row({ id: `rent${i}`, date: `2025-${pad(i + 1)}-01`, amount: 2000, vendor_id: "landlord" })
+      );
+      expect(detectAnomalies(transactions, names)).toEqual([]);
+    });
+  });
+});
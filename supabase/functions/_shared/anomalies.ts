@@ -0,0 +1,460 @@
+// Statistical anomaly detection over the ledger: duplicate payments, amounts
+// that are unusual for their payee or category, large first payments to new
+// vendors, weekend and after-hours spend, and round-number payment patterns.
+// Baselines use the whole ledger; findings cite transactions by id so the
+// agent can quote them. Pure like metrics.ts.
+import { round2, type LedgerTransaction } from "./metrics.ts";
+import { addDays, daysOverdue as daysBetween } from "./aging.ts";
+import { payeeKey, payeeOf, type CategoryNames } from "./categorisation.ts";
+import { seasonalIndices } from "./forecast.ts";
+
+export interface AnomalyTransaction extends LedgerTransaction {
+  description: string | null;
+  reference: string | null;
+  // HH:MM:SS when the export carried a time of day
+  transaction_time: string | null;
+}
+
+export const ANOMALY_KINDS = [
+  "duplicate_payment",
+  "unusual_amount",
+  "category_spike",
+  "new_vendor",
+  "off_hours",
+  "round_amounts",
+] as const;
+
+export type AnomalyKind = (typeof ANOMALY_KINDS)[number];
+
+export const ANOMALY_KIND_LABELS: Record<AnomalyKind, string> = {
+  duplicate_payment: "Possible duplicate",
+  unusual_amount: "Unusual amount",
+  category_spike: "Category spike",
+  new_vendor: "New vendor",
+  off_hours: "Weekend or after hours",
+  round_amounts: "Round numbers",
+};
+
+export type AnomalySeverity = "high" | "medium" | "low";
+
+export interface Anomaly {
+  // Stable across runs for the same transactions, so a dismissal sticks
+  key: string;
+  kind: AnomalyKind;
+  severity: AnomalySeverity;
+  date: string; // latest transaction involved
+  amount: number;
+  title: string;
+  detail: string;
+  transactionIds: string[];
+}
+
+export interface AnomalyOptions {
+  // Only report findings with a transaction in this range; baselines still use everything
+  start?: string;
+  end?: string;
+}
+
+// Same payee and amount this close together looks like a double payment
+export const DUPLICATE_WINDOW_DAYS = 7;
+
+// Payees paid the same amount this often are on a schedule, not duplicated
+const ROUTINE_GAP_DAYS = 7;
+
+// Earlier payments to a payee (or rows in a category) needed for a baseline
+const MIN_PAYEE_HISTORY = 5;
+const MIN_CATEGORY_HISTORY = 10;
+const MIN_CATEGORY_MONTHS = 6;
+
+// Robust z-score (median and MAD) above which an amount is unusual
+const UNUSUAL_SCORE = 3.5;
+const UNUSUAL_MIN_RATIO = 2;
+const UNUSUAL_MIN_EXCESS = 100;
+const SPIKE_MIN_RATIO = 1.5;
+const SPIKE_MIN_EXCESS = 500;
+
+// A vendor counts as new once the ledger has this much history before it
+const NEW_VENDOR_HISTORY_DAYS = 90;
+const NEW_VENDOR_MIN_AMOUNT = 1000;
+
+// Weekend or after-hours spend is only unusual when it is rare
+const OFF_HOURS_MAX_SHARE = 0.15;
+const BUSINESS_HOURS = { start: "07:00:00", end: "20:00:00" };
+const OFF_HOURS_MIN_AMOUNT = 100;
+
+const ROUND_UNIT = 100;
+const ROUND_MIN_COUNT = 3;
+const ROUND_MIN_SHARE = 0.6;
+
+const SEVERITY_ORDER: Record<AnomalySeverity, number> = { high: 0, medium: 1, low: 2 };
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const toAmount = (value: number | string | null | undefined) => Number(value) || 0;
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+
+const monthLabel = (month: string) => `${MONTH_NAMES[Number(month.slice(5, 7)) - 1]} ${month.slice(0, 4)}`;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+interface Spread {
+  median: number;
+  mad: number; // median absolute deviation
+}
+
+function spreadOf(values: number[]): Spread {
+  const center = median(values);
+  return { median: center, mad: median(values.map((v) => Math.abs(v - center))) };
+}
+
+/**
+ * How far `value` sits above `expected`, in robust standard deviations. The
+ * spread is floored at a tenth of the baseline so payees paid the same
+ * amount every time do not flag a few cents' difference.
+ */
+function robustScore(value: number, expected: number, spread: Spread): number {
+  const scale = spread.median > 0 ? expected / spread.median : 1;
+  return (value - expected) / Math.max(1.4826 * spread.mad * scale, expected * 0.1, 1);
+}
+
+// Every month from the first to the last, with zero for months without rows
+function monthlySeries(rows: AnomalyTransaction[]): { month: string; value: number }[] {
+  if (rows.length === 0) return [];
+  const totals = new Map<string, number>();
+  for (const t of rows) totals.set(t.date.slice(0, 7), (totals.get(t.date.slice(0, 7)) || 0) + toAmount(t.amount));
+  const months = Array.from(totals.keys()).sort();
+  const series: { month: string; value: number }[] = [];
+  for (let month = months[0]; month <= months[months.length - 1]; ) {
+    series.push({ month, value: totals.get(month) || 0 });
+    const [year, m] = month.split("-").map(Number);
+    month = m === 12 ? `${year + 1}-01` : `${year}-${String(m + 1).padStart(2, "0")}`;
+  }
+  return series;
+}
+
+const isWeekend = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+const isAfterHours = (time: string | null) =>
+  !!time && (time < BUSINESS_HOURS.start || time >= BUSINESS_HOURS.end);
+
+const groupBy = <T>(items: T[], keyOf: (item: T) => string | null) => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    if (key === null) continue;
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  }
+  return groups;
+};
+
+const byDate = (a: AnomalyTransaction, b: AnomalyTransaction) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id);
+
+function detectDuplicates(expenses: AnomalyTransaction[], names: Pick<CategoryNames, "vendors" | "customers">): Anomaly[] {
+  const findings: Anomaly[] = [];
+  const payments = groupBy(expenses, (t) => {
+    const payee = payeeKey(t, names);
+    return payee ? `${payee}|${Math.round(toAmount(t.amount) * 100)}` : null;
+  });
+  for (const rows of payments.values()) {
+    if (rows.length < 2) continue;
+    rows.sort(byDate);
+    const gaps = rows.slice(1).map((t, i) => daysBetween(rows[i].date, t.date));
+    // Daily or weekly payments of the same amount are routine
+    if (rows.length >= 4 && median(gaps) <= ROUTINE_GAP_DAYS) continue;
+
+    let cluster = [rows[0]];
+    const flush = () => {
+      if (cluster.length < 2) return;
+      const first = cluster[0];
+      const last = cluster[cluster.length - 1];
+      const sameReference = !!first.reference && cluster.every((t) => t.reference === first.reference);
+      const days = daysBetween(first.date, last.date);
+      findings.push({
+        key: `duplicate_payment:${cluster.map((t) => t.id).sort().join(",")}`,
+        kind: "duplicate_payment",
+        severity: sameReference || days === 0 ? "high" : "medium",
+        date: last.date,
+        amount: round2(toAmount(first.amount) * (cluster.length - 1)),
+        title: `Possible duplicate payment to ${payeeOf(first, names) || "an unnamed payee"}`,
+        detail:
+          `${cluster.length} payments of ${formatAmount(toAmount(first.amount))} ` +
+          (days === 0 ? "on the same day" : `within ${days} day${days === 1 ? "" : "s"}`) +
+          (sameReference ? `, all with reference ${first.reference}` : ""),
+        transactionIds: cluster.map((t) => t.id),
+      });
+    };
+    for (const t of rows.slice(1)) {
+      if (daysBetween(cluster[cluster.length - 1].date, t.date) <= DUPLICATE_WINDOW_DAYS) {
+        cluster.push(t);
+      } else {
+        flush();
+        cluster = [t];
+      }
+    }
+    flush();
+  }
+  return findings;
+}
+
+/**
+ * Seasonal index for a category in a given month, from its other months so
+ * an outlier does not explain itself away. Cached per category and month.
+ */
+function categorySeasonality(rows: AnomalyTransaction[]): (t: AnomalyTransaction) => number {
+  const series = new Map<string, { month: string; value: number }[]>();
+  for (const [key, group] of groupBy(rows, (t) => (t.category ? `${t.type}|${t.category}` : null))) {
+    series.set(key, monthlySeries(group));
+  }
+  const cache = new Map<string, number>();
+  return (t) => {
+    if (!t.category) return 1;
+    const key = `${t.type}|${t.category}`;
+    const month = t.date.slice(0, 7);
+    if (!cache.has(`${key}|${month}`)) {
+      const others = (series.get(key) || []).filter((s) => s.month !== month);
+      cache.set(`${key}|${month}`, seasonalIndices(others)[Number(month.slice(5, 7)) - 1]);
+    }
+    return cache.get(`${key}|${month}`)!;
+  };
+}
+
+function detectUnusualAmounts(
+  rows: AnomalyTransaction[],
+  names: Pick<CategoryNames, "vendors" | "customers">,
+  seasonOf: (t: AnomalyTransaction) => number
+): Anomaly[] {
+  const findings: Anomaly[] = [];
+  const byPayee = groupBy(rows, (t) => {
+    const payee = payeeKey(t, names);
+    return payee ? `${t.type}|${payee}` : null;
+  });
+  const byCategory = groupBy(rows, (t) => (t.category ? `${t.type}|${t.category}` : null));
+  const spreads = new Map<AnomalyTransaction[], Spread>();
+  const spreadFor = (group: AnomalyTransaction[]) => {
+    if (!spreads.has(group)) spreads.set(group, spreadOf(group.map((r) => toAmount(r.amount))));
+    return spreads.get(group)!;
+  };
+
+  for (const t of rows) {
+    const payee = payeeKey(t, names);
+    const payeeRows = payee ? byPayee.get(`${t.type}|${payee}`) || [] : [];
+    const categoryRows = t.category ? byCategory.get(`${t.type}|${t.category}`) || [] : [];
+    // The payee's own history is the better baseline; the category stands in for payees seen too rarely
+    const usePayee = payeeRows.length > MIN_PAYEE_HISTORY;
+    const baseline = usePayee ? payeeRows : categoryRows.length > MIN_CATEGORY_HISTORY ? categoryRows : null;
+    if (!baseline) continue;
+
+    const spread = spreadFor(baseline);
+    const season = seasonOf(t);
+    const expected = spread.median * season;
+    const amount = toAmount(t.amount);
+    if (expected <= 0 || amount < expected * UNUSUAL_MIN_RATIO || amount - expected < UNUSUAL_MIN_EXCESS) continue;
+    if (robustScore(amount, expected, spread) < UNUSUAL_SCORE) continue;
+
+    const ratio = amount / expected;
+    const label = usePayee ? payeeOf(t, names) : t.category;
+    findings.push({
+      key: `unusual_amount:${t.id}`,
+      kind: "unusual_amount",
+      severity: ratio >= 5 ? "high" : "medium",
+      date: t.date,
+      amount: round2(amount),
+      title: `Unusual ${t.type === "income" ? "receipt from" : "payment to"} ${payeeOf(t, names) || "an unnamed payee"}`,
+      detail:
+        `${formatAmount(amount)} is ${ratio.toFixed(1)}× the usual ${formatAmount(expected)} ` +
+        `for ${label} (median of ${baseline.length} ${t.type === "income" ? "receipts" : "payments"}` +
+        (Math.abs(season - 1) >= 0.1 ? `, adjusted for ${MONTH_NAMES[Number(t.date.slice(5, 7)) - 1]} seasonality` : "") +
+        ")",
+      transactionIds: [t.id],
+    });
+  }
+  return findings;
+}
+
+/**
+ * Months where a category's total is well above its baseline: the median
+ * of its other months scaled by that calendar month's seasonal index, so a
+ * surge that happens every December is not reported every December.
+ */
+function detectCategorySpikes(rows: AnomalyTransaction[], options: AnomalyOptions): Anomaly[] {
+  const findings: Anomaly[] = [];
+  for (const [key, group] of groupBy(rows, (t) => (t.category ? `${t.type}|${t.category}` : null))) {
+    const series = monthlySeries(group);
+    if (series.length <= MIN_CATEGORY_MONTHS) continue;
+    const type = key.slice(0, key.indexOf("|"));
+    const category = key.slice(key.indexOf("|") + 1);
+
+    for (const { month, value } of series) {
+      if ((options.start && `${month}-31` < options.start) || (options.end && `${month}-01` > options.end)) continue;
+      const others = series.filter((s) => s.month !== month);
+      const spread = spreadOf(others.map((s) => s.value));
+      const season = seasonalIndices(others)[Number(month.slice(5, 7)) - 1];
+      const expected = spread.median * season;
+      if (expected <= 0 || value < expected * SPIKE_MIN_RATIO || value - expected < SPIKE_MIN_EXCESS) continue;
+      if (robustScore(value, expected, spread) < UNUSUAL_SCORE) continue;
+
+      const ratio = value / expected;
+      const largest = group
+        .filter((t) => t.date.startsWith(month))
+        .sort((a, b) => toAmount(b.amount) - toAmount(a.amount))
+        .slice(0, 5);
+      findings.push({
+        key: `category_spike:${type}:${category}:${month}`,
+        kind: "category_spike",
+        // Income above its usual level is worth knowing about, not worrying about
+        severity: type === "income" ? "low" : ratio >= 2.5 ? "high" : "medium",
+        date: largest[0]?.date ?? `${month}-01`,
+        amount: round2(value),
+        title: `${category} ${type === "income" ? "income" : "spend"} spike in ${monthLabel(month)}`,
+        detail:
+          `${formatAmount(value)} against a baseline of ${formatAmount(expected)} (${ratio.toFixed(1)}×` +
+          (Math.abs(season - 1) >= 0.1 ? `, adjusted for ${MONTH_NAMES[Number(month.slice(5, 7)) - 1]} seasonality` : "") +
+          "). Largest transactions listed",
+        transactionIds: largest.map((t) => t.id),
+      });
+    }
+  }
+  return findings;
+}
+
+function detectNewVendors(expenses: AnomalyTransaction[], names: Pick<CategoryNames, "vendors" | "customers">): Anomaly[] {
+  if (expenses.length === 0) return [];
+  const findings: Anomaly[] = [];
+  const sorted = [...expenses].sort(byDate);
+  const historyStart = addDays(sorted[0].date, NEW_VENDOR_HISTORY_DAYS);
+  const amounts = expenses.map((t) => toAmount(t.amount));
+  const threshold = Math.max(NEW_VENDOR_MIN_AMOUNT, percentile(amounts, 0.9));
+  const top = percentile(amounts, 0.99);
+
+  const seen = new Set<string>();
+  for (const t of sorted) {
+    if (!t.vendor_id || seen.has(t.vendor_id)) continue;
+    seen.add(t.vendor_id);
+    // Every vendor in the first import is new; only later arrivals stand out
+    if (t.date < historyStart || toAmount(t.amount) < threshold) continue;
+    const larger = amounts.filter((a) => a < toAmount(t.amount)).length / amounts.length;
+    findings.push({
+      key: `new_vendor:${t.id}`,
+      kind: "new_vendor",
+      severity: toAmount(t.amount) >= top ? "high" : "medium",
+      date: t.date,
+      amount: round2(toAmount(t.amount)),
+      title: `Large first payment to ${names.vendors.get(t.vendor_id) || "a new vendor"}`,
+      detail: `${formatAmount(toAmount(t.amount))} is the first payment to this vendor and larger than ${Math.round(larger * 100)}% of all expenses`,
+      transactionIds: [t.id],
+    });
+  }
+  return findings;
+}
+
+function detectOffHours(expenses: AnomalyTransaction[], names: Pick<CategoryNames, "vendors" | "customers">): Anomaly[] {
+  if (expenses.length === 0) return [];
+  const findings: Anomaly[] = [];
+  const timed = expenses.filter((t) => t.transaction_time);
+  // A business that trades at weekends or late spends then too
+  const checkWeekends = expenses.filter((t) => isWeekend(t.date)).length / expenses.length <= OFF_HOURS_MAX_SHARE;
+  const checkHours =
+    timed.length > 0 && timed.filter((t) => isAfterHours(t.transaction_time)).length / timed.length <= OFF_HOURS_MAX_SHARE;
+  const amounts = expenses.map((t) => toAmount(t.amount));
+  const threshold = Math.max(OFF_HOURS_MIN_AMOUNT, median(amounts));
+  const large = percentile(amounts, 0.9);
+
+  for (const t of expenses) {
+    const amount = toAmount(t.amount);
+    const weekend = checkWeekends && isWeekend(t.date);
+    const afterHours = checkHours && isAfterHours(t.transaction_time);
+    if ((!weekend && !afterHours) || amount < threshold) continue;
+    const day = new Date(`${t.date}T00:00:00Z`).toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" });
+    findings.push({
+      key: `off_hours:${t.id}`,
+      kind: "off_hours",
+      severity: amount >= large ? "medium" : "low",
+      date: t.date,
+      amount: round2(amount),
+      title: `${weekend ? "Weekend" : "After-hours"} payment to ${payeeOf(t, names) || "an unnamed payee"}`,
+      detail:
+        `${formatAmount(amount)} on ${day} ${t.date}` +
+        (t.transaction_time ? ` at ${t.transaction_time.slice(0, 5)}` : "") +
+        `; under ${Math.round(OFF_HOURS_MAX_SHARE * 100)}% of spending happens ${weekend ? "at weekends" : "outside business hours"}`,
+      transactionIds: [t.id],
+    });
+  }
+  return findings;
+}
+
+function detectRoundAmounts(expenses: AnomalyTransaction[], names: Pick<CategoryNames, "vendors" | "customers">): Anomaly[] {
+  const findings: Anomaly[] = [];
+  for (const [payee, rows] of groupBy(expenses, (t) => payeeKey(t, names))) {
+    const round = rows.filter((t) => toAmount(t.amount) >= ROUND_UNIT && Math.round(toAmount(t.amount) * 100) % (ROUND_UNIT * 100) === 0);
+    const distinct = new Set(round.map((t) => toAmount(t.amount)));
+    // A fixed rent or retainer is round by design; a spread of round figures is estimates, not invoices
+    if (round.length < ROUND_MIN_COUNT || round.length / rows.length < ROUND_MIN_SHARE || distinct.size < 2) continue;
+    round.sort(byDate);
+    const total = round.reduce((sum, t) => sum + toAmount(t.amount), 0);
+    const examples = Array.from(distinct).slice(0, 3).map(formatAmount).join(", ");
+    findings.push({
+      key: `round_amounts:${payee}`,
+      kind: "round_amounts",
+      severity: total / round.length >= 1000 ? "medium" : "low",
+      date: round[round.length - 1].date,
+      amount: round2(total),
+      title: `Round-number payments to ${payeeOf(round[0], names) || "an unnamed payee"}`,
+      detail: `${round.length} of ${rows.length} payments are whole hundreds (${examples})`,
+      transactionIds: round.map((t) => t.id),
+    });
+  }
+  return findings;
+}
+
+/**
+ * Run every detector over the ledger and return the findings, most severe
+ * and most recent first. Findings are limited to `options.start`–`end` by
+ * their transactions' dates; baselines draw on all rows up to `end`.
+ */
+export function detectAnomalies(
+  transactions: AnomalyTransaction[],
+  names: Pick<CategoryNames, "vendors" | "customers">,
+  options: AnomalyOptions = {}
+): Anomaly[] {
+  const rows = transactions.filter(
+    (t) => (t.type === "income" || t.type === "expense") && toAmount(t.amount) > 0 && (!options.end || t.date <= options.end)
+  );
+  const expenses = rows.filter((t) => t.type === "expense");
+  const seasonOf = categorySeasonality(rows);
+  const dates = new Map(rows.map((t) => [t.id, t.date]));
+  const inRange = (anomaly: Anomaly) =>
+    anomaly.kind === "category_spike" ||
+    anomaly.transactionIds.some((id) => {
+      const date = dates.get(id) || "";
+      return (!options.start || date >= options.start) && (!options.end || date <= options.end);
+    });
+
+  return [
+    ...detectDuplicates(expenses, names),
+    ...detectUnusualAmounts(rows, names, seasonOf),
+    ...detectCategorySpikes(rows, options),
+    ...detectNewVendors(expenses, names),
+    ...detectOffHours(expenses, names),
+    ...detectRoundAmounts(expenses, names),
+  ]
+    .filter(inRange)
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.date.localeCompare(a.date));
+}
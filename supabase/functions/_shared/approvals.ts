@@ -0,0 +1,229 @@
+// Approval workflows: a policy names who must sign off, in order, on bills or
+// expenses over an amount, optionally only in one category or from one
+// vendor. This works out which policy covers a piece of spend, who decides
+// next and what is still unapproved; decisions are recorded by the
+// decide_approval database function. Pure like metrics.ts.
+import { round2 } from "./metrics.ts";
+
+export const APPROVAL_SUBJECTS = ["bill", "expense"] as const;
+
+export type ApprovalSubject = (typeof APPROVAL_SUBJECTS)[number];
+
+export const APPROVAL_SUBJECT_LABELS: Record<ApprovalSubject, string> = {
+  bill: "Bills",
+  expense: "Expenses",
+};
+
+export const APPROVAL_REQUEST_STATUSES = ["pending", "approved", "rejected"] as const;
+
+export type ApprovalRequestStatus = (typeof APPROVAL_REQUEST_STATUSES)[number];
+
+export const APPROVAL_REQUEST_STATUS_LABELS: Record<ApprovalRequestStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export interface ApprovalPolicy {
+  id: string;
+  name: string;
+  applies_to: ApprovalSubject;
+  threshold: number;
+  category: string | null;
+  vendor_id: string | null;
+  approvers: string[];
+  priority: number;
+  is_active: boolean;
+}
+
+// Enough of a stored request to tell where it stands
+export interface ApprovalRequestSummary {
+  id: string;
+  subject: ApprovalSubject;
+  bill_id: string | null;
+  transaction_id: string | null;
+  status: ApprovalRequestStatus;
+  current_step: number;
+  approvers: string[];
+  requested_by: string | null;
+  created_at: string;
+}
+
+// A bill, or an expense paid without one, that a policy may cover
+export interface SpendItem {
+  subject: ApprovalSubject;
+  id: string;
+  date: string;
+  amount: number;
+  category: string | null;
+  vendor_id: string | null;
+  description: string | null;
+}
+
+export interface UnapprovedSpend {
+  item: SpendItem;
+  policy: ApprovalPolicy;
+  // The latest request, pending or rejected; null if none was raised
+  request: ApprovalRequestSummary | null;
+}
+
+const toAmount = (value: number | string | null | undefined) => Number(value) || 0;
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+
+const sameText = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a?.trim() && !!b?.trim() && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * What needs approving: bills that are not void or already approved, and
+ * expenses not paid against a bill (the bill's approval covers those).
+ */
+export function spendItems(ledger: {
+  transactions: {
+    id: string;
+    date: string;
+    amount: number;
+    type: string;
+    category: string | null;
+    vendor_id: string | null;
+    description: string | null;
+    bill_id: string | null;
+  }[];
+  bills: {
+    id: string;
+    bill_number: string;
+    issue_date: string;
+    total: number;
+    status: string;
+    approval_status: string;
+    category?: string | null;
+    vendor_id: string | null;
+  }[];
+}): SpendItem[] {
+  const bills = ledger.bills
+    .filter((b) => b.status !== "void" && b.approval_status !== "approved")
+    .map((b) => ({
+      subject: "bill" as const,
+      id: b.id,
+      date: b.issue_date,
+      amount: round2(toAmount(b.total)),
+      category: b.category ?? null,
+      vendor_id: b.vendor_id,
+      description: `Bill ${b.bill_number}`,
+    }));
+  const expenses = ledger.transactions
+    .filter((t) => t.type === "expense" && !t.bill_id)
+    .map((t) => ({
+      subject: "expense" as const,
+      id: t.id,
+      date: t.date,
+      amount: round2(toAmount(t.amount)),
+      category: t.category,
+      vendor_id: t.vendor_id,
+      description: t.description,
+    }));
+  return [...bills, ...expenses];
+}
+
+/** Policies in the order they are tried: priority, then the larger threshold. */
+export function sortPolicies(policies: ApprovalPolicy[]): ApprovalPolicy[] {
+  return [...policies].sort(
+    (a, b) => a.priority - b.priority || toAmount(b.threshold) - toAmount(a.threshold) || a.name.localeCompare(b.name),
+  );
+}
+
+export function policyMatches(policy: ApprovalPolicy, item: Omit<SpendItem, "id" | "date" | "description">): boolean {
+  return (
+    policy.is_active &&
+    policy.applies_to === item.subject &&
+    item.amount > toAmount(policy.threshold) &&
+    (!policy.category || sameText(policy.category, item.category)) &&
+    (!policy.vendor_id || policy.vendor_id === item.vendor_id)
+  );
+}
+
+/** The policy that governs a piece of spend, or null when none does. */
+export function matchingPolicy(
+  policies: ApprovalPolicy[],
+  item: Omit<SpendItem, "id" | "date" | "description">,
+): ApprovalPolicy | null {
+  return sortPolicies(policies).find((p) => policyMatches(p, item)) ?? null;
+}
+
+/** What the policy covers and who signs off, in one sentence. */
+export function describeApprovalPolicy(
+  policy: Pick<ApprovalPolicy, "applies_to" | "threshold" | "category" | "vendor_id" | "approvers">,
+  vendorNames: Map<string, string>,
+): string {
+  const scope = [
+    policy.category ? ` in ${policy.category}` : "",
+    policy.vendor_id ? ` from ${vendorNames.get(policy.vendor_id) || "one vendor"}` : "",
+  ].join("");
+  const approvers = policy.approvers.filter((a) => a.trim());
+  return (
+    `${APPROVAL_SUBJECT_LABELS[policy.applies_to]} over ${formatAmount(toAmount(policy.threshold))}${scope} ` +
+    `need approval from ${approvers.length > 0 ? approvers.join(", then ") : "nobody yet"}`
+  );
+}
+
+/** Whose decision a pending request is waiting for. */
+export function currentApprover(request: Pick<ApprovalRequestSummary, "status" | "current_step" | "approvers">): string | null {
+  return request.status === "pending" ? request.approvers[request.current_step] ?? null : null;
+}
+
+/**
+ * Why `actor` cannot decide the request now, or null if they can. The
+ * database function applies the same checks; this is for the buttons.
+ */
+export function decisionBlocker(
+  request: Pick<ApprovalRequestSummary, "status" | "current_step" | "approvers" | "requested_by">,
+  actor: string | null,
+): string | null {
+  if (!actor?.trim()) return "Set your name in Settings to decide approvals";
+  if (request.status !== "pending") return `This request is already ${request.status}`;
+  const approver = currentApprover(request);
+  if (!sameText(approver, actor)) return `Step ${request.current_step + 1} is for ${approver}`;
+  if (sameText(request.requested_by, actor)) return "You raised this request, so someone else must decide it";
+  return null;
+}
+
+/** One line on where a request stands. */
+export function describeRequestProgress(
+  request: Pick<ApprovalRequestSummary, "status" | "current_step" | "approvers">,
+): string {
+  const steps = request.approvers.length;
+  if (request.status === "approved") return `Approved by all ${steps} step${steps === 1 ? "" : "s"}`;
+  if (request.status === "rejected") return `Rejected at step ${request.current_step + 1} of ${steps}`;
+  return `Waiting on ${currentApprover(request)} (step ${request.current_step + 1} of ${steps})`;
+}
+
+/**
+ * Spend a policy covers that has no approved request, with its latest
+ * request if one was raised. An approval stands once given, even if the
+ * policy changes afterwards.
+ */
+export function findUnapprovedSpend(
+  policies: ApprovalPolicy[],
+  requests: ApprovalRequestSummary[],
+  items: SpendItem[],
+): UnapprovedSpend[] {
+  const approved = new Set<string>();
+  const latest = new Map<string, ApprovalRequestSummary>();
+  for (const request of requests) {
+    const subjectId = request.bill_id ?? request.transaction_id;
+    if (!subjectId) continue;
+    if (request.status === "approved") approved.add(subjectId);
+    const previous = latest.get(subjectId);
+    if (!previous || request.created_at > previous.created_at) latest.set(subjectId, request);
+  }
+
+  const sorted = sortPolicies(policies);
+  const unapproved: UnapprovedSpend[] = [];
+  for (const item of items) {
+    if (approved.has(item.id)) continue;
+    const policy = sorted.find((p) => policyMatches(p, item));
+    if (policy) unapproved.push({ item, policy, request: latest.get(item.id) ?? null });
+  }
+  return unapproved.sort((a, b) => b.item.date.localeCompare(a.item.date) || b.item.amount - a.item.amount);
+}
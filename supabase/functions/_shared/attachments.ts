@@ -0,0 +1,270 @@
+// Turns files uploaded from the chat into plain text the Bedrock agent can read.
+// The agent only ever sees `inputText`, so every attachment is extracted here
+// and large tables are summarised to stay inside the prompt budget.
+import Papa from "npm:papaparse@5";
+import * as XLSX from "npm:xlsx@0.18.5";
+import { extractText, getDocumentProxy } from "npm:unpdf@1";
+
+// InvokeAgent accepts at most 25,000 characters of inputText
+export const MAX_ATTACHMENT_CHARS = 20000;
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+// Tables up to this size are passed through whole, larger ones are summarised
+const FULL_TABLE_ROW_LIMIT = 100;
+const SAMPLE_ROW_COUNT = 15;
+const TOP_VALUE_COUNT = 8;
+
+type Row = Record<string, unknown>;
+
+export interface ExtractedAttachment {
+  name: string;
+  kind: "table" | "pdf" | "text" | "unsupported";
+  text: string;
+  rowCount?: number;
+  pageCount?: number;
+  error?: string;
+}
+
+function extensionOf(name: string) {
+  return name.split(".").pop()?.toLowerCase() || "";
+}
+
+function formatNumber(value: number) {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+// Amount-like cells: "1,200.50", "$45", "(300.00)", "-12 USD"
+const AMOUNT_PATTERN = /^[-+]?\(?[-+]?\s*[$€£]?\s*\d[\d,]*(\.\d+)?\s*\)?\s*(usd|eur|gbp)?$/i;
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return isFinite(value) ? value : null;
+  const text = String(value ?? "").trim();
+  if (!AMOUNT_PATTERN.test(text)) return null;
+  const negative = /^\(.*\)$/.test(text) || text.includes("-");
+  const n = parseFloat(text.replace(/[^0-9.]/g, ""));
+  return isNaN(n) ? null : negative ? -n : n;
+}
+
+function toDate(value: unknown): string | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  const text = String(value ?? "").trim();
+  if (!/^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/.test(text)) return null;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+function rowsToCsv(headers: string[], rows: Row[]) {
+  return Papa.unparse({
+    fields: headers,
+    data: rows.map((row) => headers.map((h) => {
+      const value = row[h];
+      return value instanceof Date ? value.toISOString().slice(0, 10) : value ?? "";
+    })),
+  });
+}
+
+/**
+ * Describe a table in a few hundred characters: per-column totals and ranges
+ * for numeric columns, date ranges, and the most common values (with their
+ * share of the first amount column) for categorical columns.
+ */
+export function summarizeTable(headers: string[], rows: Row[]): string {
+  const lines: string[] = [`Rows: ${rows.length}`, `Columns: ${headers.join(", ")}`];
+
+  const numericColumns = headers.filter((h) => {
+    const values = rows.map((r) => r[h]).filter((v) => String(v ?? "").trim() !== "");
+    return values.length > 0 && values.filter((v) => toNumber(v) !== null).length / values.length > 0.9;
+  });
+  const dateColumns = headers.filter((h) => !numericColumns.includes(h) && rows.some((r) => toDate(r[h])));
+  const amountColumn = numericColumns.find((h) => /amount|total|value|price|debit|credit/i.test(h)) || numericColumns[0];
+
+  for (const h of numericColumns) {
+    const values = rows.map((r) => toNumber(r[h])).filter((v): v is number => v !== null);
+    const total = values.reduce((a, b) => a + b, 0);
+    // Spreading a large column into Math.min/max overflows the call stack
+    const min = values.reduce((a, b) => Math.min(a, b));
+    const max = values.reduce((a, b) => Math.max(a, b));
+    lines.push(
+      `${h}: sum ${formatNumber(total)}, mean ${formatNumber(total / values.length)}, min ${formatNumber(min)}, max ${formatNumber(max)}`,
+    );
+  }
+
+  for (const h of dateColumns) {
+    const dates = rows.map((r) => toDate(r[h])).filter((d): d is string => !!d).sort();
+    if (dates.length > 0) lines.push(`${h}: ${dates[0]} to ${dates[dates.length - 1]}`);
+  }
+
+  for (const h of headers) {
+    if (numericColumns.includes(h) || dateColumns.includes(h)) continue;
+    const groups = new Map<string, { count: number; amount: number }>();
+    for (const row of rows) {
+      const key = String(row[h] ?? "").trim();
+      if (!key) continue;
+      const group = groups.get(key) || { count: 0, amount: 0 };
+      group.count += 1;
+      group.amount += amountColumn ? toNumber(row[amountColumn]) ?? 0 : 0;
+      groups.set(key, group);
+    }
+    // Free-text columns (descriptions, ids) are not worth grouping
+    if (groups.size === 0 || groups.size > rows.length * 0.5) continue;
+    const top = Array.from(groups.entries())
+      .sort(([, a], [, b]) => (amountColumn ? Math.abs(b.amount) - Math.abs(a.amount) : b.count - a.count))
+      .slice(0, TOP_VALUE_COUNT)
+      .map(([key, g]) => amountColumn
+        ? `${key} (${g.count} rows, ${amountColumn} ${formatNumber(g.amount)})`
+        : `${key} (${g.count} rows)`);
+    lines.push(`${h} (${groups.size} distinct): ${top.join("; ")}`);
+  }
+
+  return lines.join("\n");
+}
+
+function describeTable(headers: string[], rows: Row[]): string {
+  if (rows.length <= FULL_TABLE_ROW_LIMIT) {
+    return rowsToCsv(headers, rows);
+  }
+  return [
+    "Summary:",
+    summarizeTable(headers, rows),
+    "",
+    `First ${SAMPLE_ROW_COUNT} rows:`,
+    rowsToCsv(headers, rows.slice(0, SAMPLE_ROW_COUNT)),
+  ].join("\n");
+}
+
+// OFX/QFX statements are SGML; pull out the STMTTRN blocks as table rows
+export function parseOfxTransactions(text: string): Row[] {
+  const rows: Row[] = [];
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  for (const block of blocks) {
+    const field = (tag: string) => block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))?.[1]?.trim() || "";
+    const posted = field("DTPOSTED");
+    rows.push({
+      date: posted ? `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}` : "",
+      type: field("TRNTYPE"),
+      amount: field("TRNAMT"),
+      name: field("NAME") || field("PAYEE"),
+      memo: field("MEMO"),
+      id: field("FITID"),
+    });
+  }
+  return rows;
+}
+
+async function extractOne(file: File): Promise<ExtractedAttachment> {
+  const name = file.name;
+  if (file.size > MAX_FILE_BYTES) {
+    return { name, kind: "unsupported", text: "", error: `File is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB` };
+  }
+
+  const ext = extensionOf(name);
+
+  if (ext === "csv" || ext === "tsv") {
+    const result = Papa.parse<Row>(await file.text(), {
+      header: true,
+      skipEmptyLines: "greedy",
+      transformHeader: (h: string) => h.trim(),
+    });
+    const headers = (result.meta.fields || []).filter(Boolean);
+    return { name, kind: "table", rowCount: result.data.length, text: describeTable(headers, result.data) };
+  }
+
+  if (ext === "xlsx" || ext === "xls") {
+    const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: "array", cellDates: true });
+    const sections: string[] = [];
+    let rowCount = 0;
+    for (const sheetName of workbook.SheetNames) {
+      const sheet = workbook.Sheets[sheetName];
+      const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 });
+      const headers = headerRow.map((h) => String(h ?? "").trim()).filter(Boolean);
+      const rows = XLSX.utils.sheet_to_json<Row>(sheet, { defval: "" });
+      if (rows.length === 0) continue;
+      rowCount += rows.length;
+      sections.push(`Sheet "${sheetName}":\n${describeTable(headers, rows)}`);
+    }
+    return { name, kind: "table", rowCount, text: sections.join("\n\n") };
+  }
+
+  if (ext === "ofx" || ext === "qfx") {
+    const rows = parseOfxTransactions(await file.text());
+    const headers = ["date", "type", "amount", "name", "memo", "id"];
+    return { name, kind: "table", rowCount: rows.length, text: describeTable(headers, rows) };
+  }
+
+  if (ext === "pdf" || file.type === "application/pdf") {
+    const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()));
+    const { totalPages, text } = await extractText(pdf, { mergePages: true });
+    const clean = String(text).replace(/[ \t]+/g, " ").replace(/\n{3,}/g, "\n\n").trim();
+    if (!clean) {
+      return { name, kind: "pdf", pageCount: totalPages, text: "", error: "PDF has no text layer (scanned image)" };
+    }
+    return { name, kind: "pdf", pageCount: totalPages, text: clean };
+  }
+
+  if (ext === "json") {
+    const raw = await file.text();
+    try {
+      const parsed = JSON.parse(raw);
+      const records = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.data) ? parsed.data : null;
+      if (records && records.length > 0 && typeof records[0] === "object") {
+        const headers = Array.from(new Set(records.flatMap((r: Row) => Object.keys(r))));
+        return { name, kind: "table", rowCount: records.length, text: describeTable(headers, records) };
+      }
+    } catch (_e) {
+      // Fall through and send the raw text
+    }
+    return { name, kind: "text", text: raw };
+  }
+
+  if (ext === "txt" || ext === "md" || ext === "xml" || file.type.startsWith("text/")) {
+    return { name, kind: "text", text: await file.text() };
+  }
+
+  return {
+    name,
+    kind: "unsupported",
+    text: "",
+    error: file.type.startsWith("image/")
+      ? "Images cannot be read yet"
+      : `Unsupported file type .${ext}`,
+  };
+}
+
+/**
+ * Extract every attachment and render them as one prompt section, trimming
+ * each file's share so the whole section fits in `budget` characters.
+ */
+export async function buildAttachmentContext(files: File[], budget = MAX_ATTACHMENT_CHARS): Promise<string> {
+  if (files.length === 0) return "";
+
+  const extracted = await Promise.all(files.map(async (file) => {
+    try {
+      return await extractOne(file);
+    } catch (err) {
+      console.error(`Failed to extract ${file.name}:`, err);
+      return {
+        name: file.name,
+        kind: "unsupported",
+        text: "",
+        error: err instanceof Error ? err.message : "Could not read file",
+      } as ExtractedAttachment;
+    }
+  }));
+
+  const perFile = Math.floor(budget / extracted.length);
+  const sections = extracted.map((a) => {
+    const details = [
+      a.kind.toUpperCase(),
+      a.rowCount !== undefined ? `${a.rowCount} rows` : null,
+      a.pageCount !== undefined ? `${a.pageCount} pages` : null,
+    ].filter(Boolean).join(", ");
+    if (a.error) {
+      return `--- Attached file: ${a.name} (could not be read: ${a.error}) ---`;
+    }
+    const body = a.text.length > perFile
+      ? `${a.text.slice(0, perFile)}\n[... truncated, ${a.text.length - perFile} more characters]`
+      : a.text;
+    return `--- Attached file: ${a.name} (${details}) ---\n${body}\n--- End of ${a.name} ---`;
+  });
+
+  return `The user attached the following files. Their contents are included below.\n\n${sections.join("\n\n")}`;
+}
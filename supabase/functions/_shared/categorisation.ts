@@ -0,0 +1,289 @@
+// Transaction categorisation: user rules first, then patterns learned from
+// categories already in the ledger, weighted towards hand corrections. Every
+// decision carries a one-line reason. Pure like metrics.ts.
+import type { LedgerTransaction } from "./metrics.ts";
+
+export type CategorySource = "manual" | "rule" | "learned";
+
+export interface CategoryRule {
+  id: string;
+  name: string;
+  category: string;
+  payee_contains: string | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  account_id: string | null;
+  transaction_type: string | null;
+  priority: number;
+  is_active: boolean;
+}
+
+export interface CategorisableTransaction extends LedgerTransaction {
+  description: string | null;
+  category_source: string | null;
+}
+
+// Names used to read payees and describe rules
+export interface CategoryNames {
+  vendors: Map<string, string>;
+  customers: Map<string, string>;
+  accounts: Map<string, string>;
+}
+
+export interface CategoryDecision {
+  category: string;
+  source: Exclude<CategorySource, "manual">;
+  ruleId: string | null;
+  confidence: number; // 0..1; rules are always 1
+  reason: string;
+}
+
+// A learned category needs this share of the payee's earlier transactions
+export const LEARNED_MIN_SHARE = 0.6;
+
+// Hand corrections count this many times over an imported category
+const CORRECTION_WEIGHT = 3;
+
+const toAmount = (value: number | string | null | undefined) => Number(value) || 0;
+
+const formatAmount = (value: number) =>
+  toAmount(value).toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+
+// Enough of a transaction to tell who it was paid to or received from
+type PayeeFields = Pick<CategorisableTransaction, "vendor_id" | "customer_id" | "description">;
+
+/** The vendor or customer name, falling back to the description. */
+export function payeeOf(t: PayeeFields, names: Pick<CategoryNames, "vendors" | "customers">): string {
+  return (
+    (t.vendor_id && names.vendors.get(t.vendor_id)) ||
+    (t.customer_id && names.customers.get(t.customer_id)) ||
+    t.description ||
+    ""
+  );
+}
+
+// Bank descriptions carry dates, card and store numbers; the first few words
+// without digits identify the payee well enough to learn from
+export function payeeKey(t: PayeeFields, names: Pick<CategoryNames, "vendors" | "customers">): string | null {
+  if (t.vendor_id) return `vendor:${t.vendor_id}`;
+  if (t.customer_id) return `customer:${t.customer_id}`;
+  const words = (t.description || "")
+    .toUpperCase()
+    .replace(/[^A-Z ]+/g, " ")
+    .split(/\s+/)
+    .filter((w) => w.length > 1)
+    .slice(0, 3);
+  return words.length > 0 ? `text:${words.join(" ")}` : payeeOf(t, names) || null;
+}
+
+/** Human-readable conditions, e.g. `payee contains "uber", expenses 10–50`. */
+export function describeRule(rule: CategoryRule, names: CategoryNames): string {
+  const parts: string[] = [];
+  if (rule.payee_contains) parts.push(`payee contains "${rule.payee_contains}"`);
+  const kind = rule.transaction_type === "income" ? "income" : rule.transaction_type === "expense" ? "expenses" : "amount";
+  if (rule.min_amount !== null && rule.max_amount !== null) {
+    parts.push(`${kind} ${formatAmount(rule.min_amount)}–${formatAmount(rule.max_amount)}`);
+  } else if (rule.min_amount !== null) {
+    parts.push(`${kind} from ${formatAmount(rule.min_amount)}`);
+  } else if (rule.max_amount !== null) {
+    parts.push(`${kind} up to ${formatAmount(rule.max_amount)}`);
+  } else if (rule.transaction_type) {
+    parts.push(`${kind} only`);
+  }
+  if (rule.account_id) parts.push(`account ${names.accounts.get(rule.account_id) || "(removed)"}`);
+  return parts.join(", ");
+}
+
+export function ruleMatches(rule: CategoryRule, t: CategorisableTransaction, names: CategoryNames): boolean {
+  if (!rule.is_active) return false;
+  if (rule.transaction_type && rule.transaction_type !== t.type) return false;
+  if (rule.account_id && rule.account_id !== t.account_id) return false;
+  const amount = Math.abs(toAmount(t.amount));
+  if (rule.min_amount !== null && amount < toAmount(rule.min_amount)) return false;
+  if (rule.max_amount !== null && amount > toAmount(rule.max_amount)) return false;
+  if (rule.payee_contains) {
+    const needle = rule.payee_contains.trim().toLowerCase();
+    const haystack = `${payeeOf(t, names)} ${t.description || ""}`.toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  return true;
+}
+
+// Lowest priority first; ties go to the rule with the most conditions
+export function sortRules(rules: CategoryRule[]): CategoryRule[] {
+  const conditions = (r: CategoryRule) =>
+    [r.payee_contains, r.min_amount, r.max_amount, r.account_id, r.transaction_type].filter((c) => c !== null).length;
+  return [...rules].sort((a, b) => a.priority - b.priority || conditions(b) - conditions(a) || a.name.localeCompare(b.name));
+}
+
+interface PayeePattern {
+  label: string;
+  rows: Map<string, number>;
+  weights: Map<string, number>;
+  corrections: Map<string, number>;
+  total: number;
+}
+
+export interface CategoryModel {
+  patterns: Map<string, PayeePattern>;
+}
+
+/**
+ * Learn each payee's usual category from transactions categorised by hand or
+ * on import. Categories the engine chose itself are left out, so a wrong
+ * guess is not reinforced by being repeated.
+ */
+export function learnCategories(transactions: CategorisableTransaction[], names: CategoryNames): CategoryModel {
+  const patterns = new Map<string, PayeePattern>();
+  for (const t of transactions) {
+    if (!t.category || (t.type !== "income" && t.type !== "expense")) continue;
+    if (t.category_source === "rule" || t.category_source === "learned") continue;
+    const payee = payeeKey(t, names);
+    if (!payee) continue;
+    const key = `${t.type}|${payee}`;
+    const pattern = patterns.get(key) || {
+      label: payeeOf(t, names) || payee,
+      rows: new Map(),
+      weights: new Map(),
+      corrections: new Map(),
+      total: 0,
+    };
+    const manual = t.category_source === "manual";
+    const weight = manual ? CORRECTION_WEIGHT : 1;
+    pattern.rows.set(t.category, (pattern.rows.get(t.category) || 0) + 1);
+    pattern.weights.set(t.category, (pattern.weights.get(t.category) || 0) + weight);
+    if (manual) pattern.corrections.set(t.category, (pattern.corrections.get(t.category) || 0) + 1);
+    pattern.total += weight;
+    patterns.set(key, pattern);
+  }
+  return { patterns };
+}
+
+function predict(t: CategorisableTransaction, model: CategoryModel, names: CategoryNames, excludeSelf: boolean) {
+  const payee = payeeKey(t, names);
+  const pattern = payee ? model.patterns.get(`${t.type}|${payee}`) : undefined;
+  if (!pattern) return null;
+
+  // A row already in the model must not vote for its own category
+  const own = excludeSelf && t.category && t.category_source !== "rule" && t.category_source !== "learned" ? t.category : null;
+  const ownWeight = own ? (t.category_source === "manual" ? CORRECTION_WEIGHT : 1) : 0;
+  const total = pattern.total - ownWeight;
+  if (total <= 0) return null;
+
+  let best: { category: string; weight: number } | null = null;
+  for (const [category, weight] of pattern.weights) {
+    const adjusted = category === own ? weight - ownWeight : weight;
+    if (adjusted > 0 && (!best || adjusted > best.weight)) best = { category, weight: adjusted };
+  }
+  if (!best) return null;
+  const share = best.weight / total;
+  const rows = (pattern.rows.get(best.category) || 0) - (best.category === own ? 1 : 0);
+  const corrections = (pattern.corrections.get(best.category) || 0) - (best.category === own && t.category_source === "manual" ? 1 : 0);
+  // One imported row is a coincidence; one hand correction is an instruction
+  if (share < LEARNED_MIN_SHARE || (rows < 2 && corrections < 1)) return null;
+
+  const seen = Array.from(pattern.rows.values()).reduce((a, b) => a + b, 0) - (own ? 1 : 0);
+  const reason =
+    `${rows} of ${seen} earlier ${t.type === "income" ? "receipts from" : "payments to"} ${pattern.label} ` +
+    `were ${best.category}` +
+    (corrections > 0 ? ` (${corrections} set by hand)` : "");
+  return { category: best.category, confidence: Math.round(share * 100) / 100, reason };
+}
+
+/** Pick a category for one transaction, or null when no rule or pattern applies. */
+export function categorise(
+  t: CategorisableTransaction,
+  rules: CategoryRule[],
+  model: CategoryModel,
+  names: CategoryNames,
+  excludeSelf = false
+): CategoryDecision | null {
+  if (t.type !== "income" && t.type !== "expense") return null;
+  const rule = sortRules(rules).find((r) => ruleMatches(r, t, names));
+  if (rule) {
+    return {
+      category: rule.category,
+      source: "rule",
+      ruleId: rule.id,
+      confidence: 1,
+      reason: `Rule "${rule.name}": ${describeRule(rule, names)}`,
+    };
+  }
+  const learned = predict(t, model, names, excludeSelf);
+  return learned && { ...learned, source: "learned", ruleId: null };
+}
+
+// Which existing categories a re-run may replace. Hand-set ones never are.
+export const RECATEGORISE_SCOPES = ["uncategorised", "automatic", "all"] as const;
+
+export type RecategoriseScope = (typeof RECATEGORISE_SCOPES)[number];
+
+export const RECATEGORISE_SCOPE_LABELS: Record<RecategoriseScope, string> = {
+  uncategorised: "Uncategorised only",
+  automatic: "Uncategorised and automatic",
+  all: "Everything except hand corrections",
+};
+
+export interface CategoryChange {
+  transactionId: string;
+  from: string | null;
+  to: string | null;
+  source: Exclude<CategorySource, "manual"> | null;
+  ruleId: string | null;
+  reason: string | null;
+  confidence: number;
+}
+
+function inScope(t: CategorisableTransaction, scope: RecategoriseScope): boolean {
+  if (t.category_source === "manual") return false;
+  if (scope === "uncategorised") return !t.category;
+  if (scope === "automatic") return !t.category || t.category_source === "rule" || t.category_source === "learned";
+  return true;
+}
+
+/**
+ * Re-run categorisation over the ledger and list what would change. With
+ * `automatic` scope, a category the engine set earlier and that no rule or
+ * pattern supports any more is cleared. `onlyIds` limits the run, e.g. to
+ * one import, while still learning from every transaction.
+ */
+export function planRecategorisation(
+  transactions: CategorisableTransaction[],
+  rules: CategoryRule[],
+  names: CategoryNames,
+  scope: RecategoriseScope,
+  onlyIds?: Set<string>
+): CategoryChange[] {
+  const model = learnCategories(transactions, names);
+  const sorted = sortRules(rules);
+  const changes: CategoryChange[] = [];
+  for (const t of transactions) {
+    if ((onlyIds && !onlyIds.has(t.id)) || !inScope(t, scope)) continue;
+    const decision = categorise(t, sorted, model, names, true);
+    if (decision) {
+      if (decision.category === t.category && decision.source === t.category_source) continue;
+      // An imported category the engine agrees with is left as it came
+      if (decision.category === t.category && !t.category_source) continue;
+      changes.push({
+        transactionId: t.id,
+        from: t.category,
+        to: decision.category,
+        source: decision.source,
+        ruleId: decision.ruleId,
+        reason: decision.reason,
+        confidence: decision.confidence,
+      });
+    } else if (t.category && (t.category_source === "rule" || t.category_source === "learned")) {
+      changes.push({
+        transactionId: t.id,
+        from: t.category,
+        to: null,
+        source: null,
+        ruleId: null,
+        reason: null,
+        confidence: 0,
+      });
+    }
+  }
+  return changes;
+}
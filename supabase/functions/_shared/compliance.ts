@@ -0,0 +1,417 @@
+// Compliance rules evaluated over the ledger: large payments without an
+// approved bill, expenses without a receipt, vendors paid enough to need tax
+// documents, bills approved by the person who entered them, and spend an
+// approval policy covers that was never signed off. Each finding carries a
+// stable key so the register can track it across runs. Pure like metrics.ts;
+// storing the findings is the caller's job.
+import { round2, type LedgerTransaction } from "./metrics.ts";
+import { payeeOf, type CategoryNames } from "./categorisation.ts";
+import { documentedTransactionIds, type LinkedDocument } from "./documents.ts";
+import {
+  describeRequestProgress,
+  findUnapprovedSpend,
+  spendItems,
+  type ApprovalPolicy,
+  type ApprovalRequestSummary,
+} from "./approvals.ts";
+
+export const COMPLIANCE_RULE_KINDS = [
+  "approval_threshold",
+  "receipt_required",
+  "vendor_tax_docs",
+  "segregation_of_duties",
+  "approval_policy",
+] as const;
+
+export type ComplianceRuleKind = (typeof COMPLIANCE_RULE_KINDS)[number];
+
+export const COMPLIANCE_RULE_KIND_LABELS: Record<ComplianceRuleKind, string> = {
+  approval_threshold: "Approval threshold",
+  receipt_required: "Receipt required",
+  vendor_tax_docs: "Vendor tax documents",
+  segregation_of_duties: "Segregation of duties",
+  approval_policy: "Approval policy",
+};
+
+export const COMPLIANCE_RULE_KIND_DESCRIPTIONS: Record<ComplianceRuleKind, string> = {
+  approval_threshold: "Payments over the threshold need an approved bill",
+  receipt_required: "Expenses over the threshold need a bill or receipt on file",
+  vendor_tax_docs: "Vendors paid more than the threshold in a year need a tax form on file",
+  segregation_of_duties: "Bills must be approved by someone other than who entered them",
+  approval_policy: "Bills and expenses an approval policy covers need every step signed off",
+};
+
+export type ComplianceSeverity = "high" | "medium" | "low";
+
+export const COMPLIANCE_FINDING_STATUSES = ["open", "in_review", "resolved", "waived"] as const;
+
+export type ComplianceFindingStatus = (typeof COMPLIANCE_FINDING_STATUSES)[number];
+
+export const COMPLIANCE_FINDING_STATUS_LABELS: Record<ComplianceFindingStatus, string> = {
+  open: "Open",
+  in_review: "In review",
+  resolved: "Resolved",
+  waived: "Waived",
+};
+
+// Statuses that still need someone's attention
+export const ACTIVE_FINDING_STATUSES: ComplianceFindingStatus[] = ["open", "in_review"];
+
+export interface ComplianceRule {
+  id: string;
+  name: string;
+  kind: ComplianceRuleKind;
+  threshold: number | null;
+  category: string | null;
+  severity: ComplianceSeverity;
+  is_active: boolean;
+}
+
+export interface ComplianceTransaction extends LedgerTransaction {
+  description: string | null;
+  bill_id: string | null;
+}
+
+export interface ComplianceBill {
+  id: string;
+  bill_number: string;
+  vendor_id: string | null;
+  issue_date: string;
+  total: number;
+  status: string;
+  approval_status: string;
+  category: string | null;
+  entered_by: string | null;
+  approved_by: string | null;
+}
+
+export interface ComplianceVendor {
+  id: string;
+  name: string;
+  tax_id: string | null;
+  tax_form_received_on: string | null;
+}
+
+export interface ComplianceLedger {
+  transactions: ComplianceTransaction[];
+  bills: ComplianceBill[];
+  vendors: ComplianceVendor[];
+  customers: { id: string; name: string }[];
+  documents: LinkedDocument[];
+  approvalPolicies: ApprovalPolicy[];
+  approvalRequests: ApprovalRequestSummary[];
+}
+
+// One finding as a run raises it; the register adds status, owner and notes
+export interface ComplianceCheck {
+  key: string;
+  rule_id: string;
+  kind: ComplianceRuleKind;
+  severity: ComplianceSeverity;
+  title: string;
+  detail: string;
+  date: string;
+  amount: number;
+  transaction_ids: string[];
+  vendor_id: string | null;
+  bill_id: string | null;
+}
+
+const SEVERITY_ORDER: Record<ComplianceSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+const toAmount = (value: number | string | null | undefined) => Number(value) || 0;
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+
+const sameCategory = (rule: ComplianceRule, category: string | null) =>
+  !rule.category || (category || "").trim().toLowerCase() === rule.category.trim().toLowerCase();
+
+const samePerson = (a: string | null, b: string | null) =>
+  !!a?.trim() && !!b?.trim() && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** What the rule checks, with its threshold and category filled in. */
+export function describeComplianceRule(rule: Pick<ComplianceRule, "kind" | "threshold" | "category">): string {
+  const limit = formatAmount(toAmount(rule.threshold));
+  const scope = rule.category ? ` in ${rule.category}` : "";
+  switch (rule.kind) {
+    case "approval_threshold":
+      return `Payments over ${limit}${scope} need an approved bill`;
+    case "receipt_required":
+      return `Expenses over ${limit}${scope} need a bill or receipt on file`;
+    case "vendor_tax_docs":
+      return `Vendors paid more than ${limit}${scope} in a calendar year need a tax form on file`;
+    case "segregation_of_duties":
+      return rule.threshold
+        ? `Bills over ${limit} must be approved by someone other than who entered them`
+        : COMPLIANCE_RULE_KIND_DESCRIPTIONS.segregation_of_duties;
+    case "approval_policy":
+      return rule.threshold
+        ? `Bills and expenses over ${limit}${scope} an approval policy covers need every step signed off`
+        : rule.category
+          ? `Bills and expenses${scope} an approval policy covers need every step signed off`
+          : COMPLIANCE_RULE_KIND_DESCRIPTIONS.approval_policy;
+  }
+}
+
+function checkApprovals(
+  rule: ComplianceRule,
+  ledger: ComplianceLedger,
+  names: Pick<CategoryNames, "vendors" | "customers">,
+): ComplianceCheck[] {
+  const threshold = toAmount(rule.threshold);
+  const approved = new Set(ledger.bills.filter((b) => b.approval_status === "approved").map((b) => b.id));
+  return ledger.transactions
+    .filter(
+      (t) =>
+        t.type === "expense" &&
+        toAmount(t.amount) > threshold &&
+        sameCategory(rule, t.category) &&
+        !(t.bill_id && approved.has(t.bill_id)),
+    )
+    .map((t) => {
+      const payee = payeeOf(t, names) || "an unnamed payee";
+      return {
+        key: `${rule.id}:txn:${t.id}`,
+        rule_id: rule.id,
+        kind: rule.kind,
+        severity: rule.severity,
+        title: `${formatAmount(toAmount(t.amount))} to ${payee} without approval`,
+        detail: t.bill_id
+          ? `Paid against a bill that was never approved; payments over ${formatAmount(threshold)} need one`
+          : `Not linked to an approved bill; payments over ${formatAmount(threshold)} need one`,
+        date: t.date,
+        amount: round2(toAmount(t.amount)),
+        transaction_ids: [t.id],
+        vendor_id: t.vendor_id,
+        bill_id: t.bill_id,
+      };
+    });
+}
+
+// A linked bill, or a receipt or invoice in the vault, is the supporting document
+function checkReceipts(
+  rule: ComplianceRule,
+  ledger: ComplianceLedger,
+  names: Pick<CategoryNames, "vendors" | "customers">,
+): ComplianceCheck[] {
+  const threshold = toAmount(rule.threshold);
+  const documented = documentedTransactionIds(ledger.documents);
+  return ledger.transactions
+    .filter(
+      (t) =>
+        t.type === "expense" &&
+        toAmount(t.amount) > threshold &&
+        sameCategory(rule, t.category) &&
+        !t.bill_id &&
+        !documented.has(t.id),
+    )
+    .map((t) => ({
+      key: `${rule.id}:txn:${t.id}`,
+      rule_id: rule.id,
+      kind: rule.kind,
+      severity: rule.severity,
+      title: `No receipt for ${formatAmount(toAmount(t.amount))} to ${payeeOf(t, names) || "an unnamed payee"}`,
+      detail: `Expenses over ${formatAmount(threshold)} need a bill or receipt on file`,
+      date: t.date,
+      amount: round2(toAmount(t.amount)),
+      transaction_ids: [t.id],
+      vendor_id: t.vendor_id,
+      bill_id: null,
+    }));
+}
+
+function checkVendorTaxDocs(rule: ComplianceRule, ledger: ComplianceLedger): ComplianceCheck[] {
+  const threshold = toAmount(rule.threshold);
+  const vendors = new Map(ledger.vendors.map((v) => [v.id, v]));
+  const paid = new Map<string, { vendorId: string; year: string; total: number; ids: string[]; last: string }>();
+  for (const t of ledger.transactions) {
+    if (t.type !== "expense" || !t.vendor_id || !sameCategory(rule, t.category)) continue;
+    const year = t.date.slice(0, 4);
+    const key = `${t.vendor_id}:${year}`;
+    const entry = paid.get(key) || { vendorId: t.vendor_id, year, total: 0, ids: [], last: t.date };
+    entry.total += toAmount(t.amount);
+    entry.ids.push(t.id);
+    if (t.date > entry.last) entry.last = t.date;
+    paid.set(key, entry);
+  }
+
+  const checks: ComplianceCheck[] = [];
+  for (const entry of paid.values()) {
+    const vendor = vendors.get(entry.vendorId);
+    // A form received late still covers earlier years once it is on file
+    if (!vendor || entry.total <= threshold || vendor.tax_form_received_on) continue;
+    checks.push({
+      key: `${rule.id}:vendor:${vendor.id}:${entry.year}`,
+      rule_id: rule.id,
+      kind: rule.kind,
+      severity: rule.severity,
+      title: `No tax form on file for ${vendor.name}`,
+      detail:
+        `Paid ${formatAmount(round2(entry.total))} in ${entry.year} across ${entry.ids.length} payment` +
+        `${entry.ids.length === 1 ? "" : "s"}; vendors paid more than ${formatAmount(threshold)} need a tax form` +
+        (vendor.tax_id?.trim() ? "" : " and tax id"),
+      date: entry.last,
+      amount: round2(entry.total),
+      transaction_ids: entry.ids,
+      vendor_id: vendor.id,
+      bill_id: null,
+    });
+  }
+  return checks;
+}
+
+function checkSegregation(rule: ComplianceRule, ledger: ComplianceLedger): ComplianceCheck[] {
+  const vendors = new Map(ledger.vendors.map((v) => [v.id, v.name]));
+  const payments = new Map<string, string[]>();
+  for (const t of ledger.transactions) {
+    if (!t.bill_id) continue;
+    const ids = payments.get(t.bill_id);
+    if (ids) ids.push(t.id);
+    else payments.set(t.bill_id, [t.id]);
+  }
+  return ledger.bills
+    .filter(
+      (b) =>
+        b.status !== "void" &&
+        b.approval_status === "approved" &&
+        samePerson(b.entered_by, b.approved_by) &&
+        (!rule.threshold || toAmount(b.total) > toAmount(rule.threshold)),
+    )
+    .map((b) => ({
+      key: `${rule.id}:bill:${b.id}`,
+      rule_id: rule.id,
+      kind: rule.kind,
+      severity: rule.severity,
+      title: `Bill ${b.bill_number} approved by the person who entered it`,
+      detail:
+        `${b.entered_by!.trim()} entered and approved ${formatAmount(toAmount(b.total))}` +
+        (b.vendor_id && vendors.get(b.vendor_id) ? ` from ${vendors.get(b.vendor_id)}` : ""),
+      date: b.issue_date,
+      amount: round2(toAmount(b.total)),
+      transaction_ids: payments.get(b.id) || [],
+      vendor_id: b.vendor_id,
+      bill_id: b.id,
+    }));
+}
+
+// The policies decide what needs approving; the rule's own threshold and
+// category only narrow which of that it reports
+function checkApprovalPolicies(
+  rule: ComplianceRule,
+  ledger: ComplianceLedger,
+  names: Pick<CategoryNames, "vendors" | "customers">,
+): ComplianceCheck[] {
+  const payments = new Map<string, string[]>();
+  for (const t of ledger.transactions) {
+    if (!t.bill_id) continue;
+    const ids = payments.get(t.bill_id);
+    if (ids) ids.push(t.id);
+    else payments.set(t.bill_id, [t.id]);
+  }
+  const transactions = new Map(ledger.transactions.map((t) => [t.id, t]));
+  return findUnapprovedSpend(ledger.approvalPolicies, ledger.approvalRequests, spendItems(ledger))
+    .filter(({ item }) => (!rule.threshold || item.amount > toAmount(rule.threshold)) && sameCategory(rule, item.category))
+    .map(({ item, policy, request }) => {
+      const isBill = item.subject === "bill";
+      const transaction = transactions.get(item.id);
+      const payee = (transaction && payeeOf(transaction, names)) || item.description || "an unnamed payee";
+      const status = request
+        ? describeRequestProgress(request)
+        : `No approval requested from ${policy.approvers.join(", then ")}`;
+      return {
+        key: `${rule.id}:${isBill ? "bill" : "txn"}:${item.id}`,
+        rule_id: rule.id,
+        kind: rule.kind,
+        severity: rule.severity,
+        title: isBill
+          ? `${item.description} for ${formatAmount(item.amount)} not approved`
+          : `${formatAmount(item.amount)} to ${payee} not approved`,
+        detail: `${status}; required by "${policy.name}"`,
+        date: item.date,
+        amount: item.amount,
+        transaction_ids: isBill ? payments.get(item.id) || [] : [item.id],
+        vendor_id: item.vendor_id,
+        bill_id: isBill ? item.id : null,
+      };
+    });
+}
+
+/** Every finding the active rules raise over the ledger, most severe first. */
+export function evaluateCompliance(rules: ComplianceRule[], ledger: ComplianceLedger): ComplianceCheck[] {
+  const names = {
+    vendors: new Map(ledger.vendors.map((v) => [v.id, v.name])),
+    customers: new Map(ledger.customers.map((c) => [c.id, c.name])),
+  };
+  const checks: ComplianceCheck[] = [];
+  for (const rule of rules) {
+    if (!rule.is_active) continue;
+    switch (rule.kind) {
+      case "approval_threshold":
+        checks.push(...checkApprovals(rule, ledger, names));
+        break;
+      case "receipt_required":
+        checks.push(...checkReceipts(rule, ledger, names));
+        break;
+      case "vendor_tax_docs":
+        checks.push(...checkVendorTaxDocs(rule, ledger));
+        break;
+      case "segregation_of_duties":
+        checks.push(...checkSegregation(rule, ledger));
+        break;
+      case "approval_policy":
+        checks.push(...checkApprovalPolicies(rule, ledger, names));
+        break;
+    }
+  }
+  return checks.sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.date.localeCompare(a.date) || b.amount - a.amount,
+  );
+}
+
+// Enough of a stored finding to chart it
+export interface ComplianceFindingSummary {
+  kind: ComplianceRuleKind;
+  status: ComplianceFindingStatus;
+  title: string;
+  detail: string;
+  transaction_ids: string[];
+  vendor_id: string | null;
+}
+
+/**
+ * Compliance graphData for the chat chart (src/lib/agentOutput.ts) built
+ * from the register's active findings, so the chart shows tracked items
+ * rather than whatever the agent wrote.
+ */
+export function complianceGraphData(
+  findings: ComplianceFindingSummary[],
+  transactionCount: number,
+  vendorNames: Map<string, string>,
+) {
+  const active = findings.filter((f) => ACTIVE_FINDING_STATUSES.includes(f.status));
+  const of = (kind: ComplianceRuleKind) => active.filter((f) => f.kind === kind);
+  const flagged = new Set(active.flatMap((f) => f.transaction_ids));
+  const perTransaction = (kind: ComplianceRuleKind) =>
+    of(kind).flatMap((f) => f.transaction_ids.map((transactionId) => ({ transactionId, note: f.detail })));
+
+  return {
+    compliantTransactions: Math.max(0, transactionCount - flagged.size),
+    nonCompliantTransactions: flagged.size,
+    flaggedTransactions: perTransaction("approval_threshold").map(({ transactionId, note }) => ({
+      transactionId,
+      description: note,
+    })),
+    missingDocumentation: perTransaction("receipt_required").map(({ transactionId, note }) => ({
+      transactionId,
+      missing: note,
+    })),
+    managerVerificationRequired: [...perTransaction("segregation_of_duties"), ...perTransaction("approval_policy")].map(
+      ({ transactionId, note }) => ({ transactionId, reason: note }),
+    ),
+    nonCompliantVendors: of("vendor_tax_docs").map((f) => ({
+      vendorName: (f.vendor_id && vendorNames.get(f.vendor_id)) || f.title,
+      transactionIds: f.transaction_ids,
+    })),
+  };
+}
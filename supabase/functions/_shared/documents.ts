@@ -0,0 +1,30 @@
+// Document vault kinds and which of them count as the supporting document
+// for an expense. Pure like metrics.ts.
+
+export const DOCUMENT_KINDS = ["receipt", "invoice", "contract", "other"] as const;
+
+export type DocumentKind = (typeof DOCUMENT_KINDS)[number];
+
+export const DOCUMENT_KIND_LABELS: Record<DocumentKind, string> = {
+  receipt: "Receipt",
+  invoice: "Invoice",
+  contract: "Contract",
+  other: "Other",
+};
+
+// A receipt or the supplier's invoice documents a payment; a contract does not
+export const SUPPORTING_DOCUMENT_KINDS: DocumentKind[] = ["receipt", "invoice"];
+
+export interface LinkedDocument {
+  kind: DocumentKind;
+  transaction_id: string | null;
+}
+
+/** Transactions with a receipt or invoice attached. */
+export function documentedTransactionIds(documents: LinkedDocument[]): Set<string> {
+  return new Set(
+    documents
+      .filter((d) => d.transaction_id && SUPPORTING_DOCUMENT_KINDS.includes(d.kind))
+      .map((d) => d.transaction_id as string),
+  );
+}
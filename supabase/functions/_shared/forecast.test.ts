@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { buildCashForecast, type ForecastLedger, type ForecastTransaction } from "./forecast.ts";
+import { scheduledBillPayments, type PayableBill } from "./payables.ts";
+
+const AS_OF = "2025-06-15";
+
+const row = (t: Partial<ForecastTransaction> & Pick<ForecastTransaction, "id" | "date" | "amount" | "type">) => ({
+  category: null,
+  account_id: "bank",
+  vendor_id: null,
+  customer_id: null,
+  invoice_id: null,
+  description: null,
+  ...t,
+});
+
+// Rent is billed by Acme every month and paid against the bill; June's bill
+// is still open and falls due in July
+const months = ["2025-01", "2025-02", "2025-03", "2025-04", "2025-05"];
+const ledger: ForecastLedger = {
+  accounts: [{ id: "bank", type: "asset", subtype: "bank", opening_balance: 10000 }],
+  vendors: [{ id: "acme", name: "Acme" }],
+  invoices: [],
+  statements: [],
+  transactions: months.flatMap((month, i) => [
+    row({ id: `in-${i}`, date: `${month}-10`, amount: 3000, type: "income" }),
+    row({ id: `rent-${i}`, date: `${month}-05`, amount: 1000, type: "expense", vendor_id: "acme" }),
+  ]),
+};
+
+const openBill: PayableBill = {
+  id: "b-june",
+  bill_number: "RENT-06",
+  vendor_id: "acme",
+  issue_date: "2025-06-05",
+  due_date: "2025-07-05",
+  terms_days: 30,
+  total: 1000,
+  amount_paid: 0,
+  discount_taken: 0,
+  discount_percent: 0,
+  discount_days: null,
+  status: "open",
+  approval_status: "approved",
+  scheduled_date: null,
+};
+
+describe("buildCashForecast with scheduled bills", () => {
+  it("pays an open bill in place of that month's recurring bill", () => {
+    const forecast = buildCashForecast(ledger, {
+      asOf: AS_OF,
+      horizon: 12,
+      scheduledPayments: scheduledBillPayments([openBill], ledger.vendors),
+    });
+    expect(forecast.recurringBills.map((b) => [b.label, b.amount])).toEqual([["Acme", 1000]]);
+
+    const july = forecast.months.find((m) => m.month === "2025-07")!;
+    expect(july.drivers).toMatchObject({ baselineExpenses: 0, recurringBills: 0, scheduledPayments: 1000 });
+    expect(july.outflows).toBe(1000);
+
+    // Rent resumes once the open bill is paid
+    const later = forecast.months.filter((m) => m.kind === "forecast" && m.month > "2025-07");
+    expect(later).toHaveLength(10);
+    for (const month of later) {
+      expect(month.drivers).toMatchObject({ recurringBills: 1000, scheduledPayments: 0 });
+      expect(month.outflows).toBe(1000);
+    }
+  });
+
+  it("learns bill spend from history when no bills are scheduled", () => {
+    const forecast = buildCashForecast(ledger, { asOf: AS_OF, horizon: 3 });
+    expect(forecast.recurringBills.map((b) => [b.label, b.amount])).toEqual([["Acme", 1000]]);
+
+    const july = forecast.months.find((m) => m.month === "2025-07")!;
+    expect(july.drivers?.recurringBills).toBe(1000);
+    expect(july.drivers?.scheduledPayments).toBe(0);
+  });
+});
@@ -0,0 +1,453 @@
+// Driver-based cash flow forecast built from ledger rows. Pure like
+// metrics.ts, so the web app can use it through the `@shared` alias.
+//
+// Each month's cash movement is the sum of separate drivers:
+// - baseline income and spend: the recent monthly level, scaled by a
+//   seasonal index per calendar month when there is a year of history
+// - recurring bills: expenses that repeat monthly at a steady amount, placed
+//   on their usual day and left out of the baseline
+// - receivables: open invoices collected along the curve seen in past
+//   payments, plus new invoicing at its usual rate. Used only when payments
+//   are linked to invoices; otherwise collections are already in the baseline
+// - scheduled payments passed in by the caller, e.g. open bills. A scheduled
+//   bill stands in for its vendor's recurring bill in the month it is paid,
+//   so the same spend is not counted twice
+// The band around the cash line widens with the square root of the horizon,
+// from the month-to-month noise the baseline does not explain.
+import {
+  cashBalance,
+  invoiceOutstanding,
+  isCashAccount,
+  round2,
+  type LedgerAccount,
+  type LedgerInvoice,
+  type LedgerStatement,
+  type LedgerTransaction,
+} from "./metrics.ts";
+
+export interface ForecastTransaction extends LedgerTransaction {
+  invoice_id: string | null;
+  description: string | null;
+}
+
+export interface ForecastInvoice extends LedgerInvoice {
+  issue_date: string;
+}
+
+export interface ForecastLedger {
+  accounts: LedgerAccount[];
+  vendors: { id: string; name: string }[];
+  invoices: ForecastInvoice[];
+  statements: LedgerStatement[];
+  transactions: ForecastTransaction[];
+}
+
+// A payment already committed to a date
+export interface ScheduledPayment {
+  date: string; // YYYY-MM-DD
+  amount: number;
+  label: string;
+  // Set when the payment settles a vendor's bill
+  vendorId?: string;
+}
+
+export const FORECAST_HORIZONS = [3, 6, 12, 18] as const;
+export const MIN_FORECAST_HORIZON = 3;
+export const MAX_FORECAST_HORIZON = 18;
+
+export interface RecurringBill {
+  label: string;
+  vendorId: string | null;
+  amount: number;
+  dayOfMonth: number;
+  occurrences: number;
+  lastDate: string;
+}
+
+export interface ForecastDrivers {
+  baselineIncome: number;
+  baselineExpenses: number;
+  recurringBills: number;
+  collections: number;
+  scheduledPayments: number;
+}
+
+export interface ForecastMonth {
+  month: string; // YYYY-MM
+  kind: "actual" | "forecast";
+  inflows: number;
+  outflows: number;
+  net: number;
+  // Balance at the end of the month
+  cash: number;
+  // Confidence band around `cash`; equal to it for actual months
+  low: number;
+  high: number;
+  drivers?: ForecastDrivers;
+}
+
+export interface CashForecast {
+  asOf: string;
+  openingCash: number;
+  // False when there are no cash accounts and the balance is just the net of all transactions
+  openingCashKnown: boolean;
+  months: ForecastMonth[];
+  recurringBills: RecurringBill[];
+  // Receivables are forecast from open invoices only when payments are linked to them
+  collectionsModel: "invoices" | "baseline";
+  // Share of an invoice collected 0, 1, 2 and 3 months after its due month
+  collectionCurve: number[];
+  // Calendar month indices, January first; all 1 without a year of history
+  seasonality: { income: number[]; expenses: number[] };
+  historyMonths: number;
+  confidence: number;
+}
+
+export interface ForecastOptions {
+  asOf?: string;
+  horizon?: number;
+  // Completed months of actual balances to include before the forecast
+  actualMonths?: number;
+  scheduledPayments?: ScheduledPayment[];
+}
+
+// Used until there are enough paid invoices to measure the real curve
+export const DEFAULT_COLLECTION_CURVE = [0.55, 0.3, 0.1, 0.03];
+
+const HISTORY_LIMIT = 24;
+const LEVEL_MONTHS = 6;
+const MIN_CURVE_INVOICES = 3;
+const RECURRING_MIN_OCCURRENCES = 3;
+const RECURRING_MAX_VARIATION = 0.2;
+// z-score of an 80% two-sided interval
+const CONFIDENCE = 0.8;
+const Z_SCORE = 1.2816;
+
+const toAmount = (value: number | string | null | undefined) => Number(value) || 0;
+
+const monthKey = (date: string) => date.slice(0, 7);
+
+function addMonths(month: string, count: number): string {
+  const [year, m] = month.split("-").map(Number);
+  const index = year * 12 + (m - 1) + count;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+}
+
+function monthDiff(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split("-").map(Number);
+  const [toYear, toMonth] = to.split("-").map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+const daysInMonth = (month: string) => {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m, 0)).getUTCDate();
+};
+
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+function stdev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((total, v) => total + (v - avg) ** 2, 0) / (values.length - 1));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Same payee or same wording, ignoring dates and reference numbers
+function billKey(t: ForecastTransaction): string | null {
+  if (t.vendor_id) return `vendor:${t.vendor_id}`;
+  const words = (t.description || "").toLowerCase().replace(/[^a-z ]+/g, " ").replace(/\s+/g, " ").trim();
+  return words.length >= 3 ? `text:${words}` : null;
+}
+
+/**
+ * Expenses paid once a month, every month, at a steady amount: at least three
+ * consecutive months, still paid within the last two, and amounts within 20%
+ * of each other. `transactionIds` covers every row of a detected bill, older
+ * ones included, so none of them also count towards the baseline.
+ */
+export function detectRecurringBills(
+  expenses: ForecastTransaction[],
+  vendorNames: Map<string, string>,
+  asOf: string
+): { bills: RecurringBill[]; transactionIds: Set<string> } {
+  const currentMonth = monthKey(asOf);
+  const groups = new Map<string, ForecastTransaction[]>();
+  for (const t of expenses) {
+    if (monthDiff(monthKey(t.date), currentMonth) > 12) continue;
+    const key = billKey(t);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) || []), t]);
+  }
+
+  const bills: RecurringBill[] = [];
+  const billKeys = new Set<string>();
+  for (const [key, rows] of groups) {
+    const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date));
+    const months = sorted.map((t) => monthKey(t.date));
+    if (sorted.length < RECURRING_MIN_OCCURRENCES || new Set(months).size !== months.length) continue;
+    if (months.some((m, i) => i > 0 && monthDiff(months[i - 1], m) !== 1)) continue;
+    if (monthDiff(months[months.length - 1], currentMonth) > 1) continue;
+    const amounts = sorted.map((t) => toAmount(t.amount));
+    if (stdev(amounts) / mean(amounts) > RECURRING_MAX_VARIATION) continue;
+
+    const last = sorted[sorted.length - 1];
+    bills.push({
+      label: key.startsWith("vendor:")
+        ? vendorNames.get(key.slice(7)) || "Vendor"
+        : last.description || key.slice(5),
+      vendorId: last.vendor_id,
+      amount: round2(median(amounts.slice(-3))),
+      dayOfMonth: Math.round(median(sorted.map((t) => Number(t.date.slice(8, 10))))),
+      occurrences: sorted.length,
+      lastDate: last.date,
+    });
+    billKeys.add(key);
+  }
+  bills.sort((a, b) => b.amount - a.amount);
+  const transactionIds = new Set(expenses.filter((t) => billKeys.has(billKey(t) ?? "")).map((t) => t.id));
+  return { bills, transactionIds };
+}
+
+/**
+ * Share of each invoice paid 0..3 months after the month it fell due, from
+ * invoices old enough to have run the whole curve. What is left over is
+ * treated as never collected.
+ */
+export function collectionCurve(invoices: ForecastInvoice[], payments: ForecastTransaction[], asOf: string): number[] {
+  const currentMonth = monthKey(asOf);
+  const paymentsByInvoice = new Map<string, ForecastTransaction[]>();
+  for (const p of payments) {
+    if (!p.invoice_id) continue;
+    paymentsByInvoice.set(p.invoice_id, [...(paymentsByInvoice.get(p.invoice_id) || []), p]);
+  }
+
+  const length = DEFAULT_COLLECTION_CURVE.length;
+  const collected = Array(length).fill(0);
+  let invoiced = 0;
+  let sample = 0;
+  for (const invoice of invoices) {
+    if (invoice.status === "void" || invoice.status === "draft") continue;
+    const dueMonth = monthKey(invoice.due_date);
+    if (monthDiff(dueMonth, currentMonth) < length) continue;
+    const linked = paymentsByInvoice.get(invoice.id);
+    if (!linked) continue;
+    sample++;
+    invoiced += toAmount(invoice.total);
+    for (const p of linked) {
+      const offset = Math.min(length - 1, Math.max(0, monthDiff(dueMonth, monthKey(p.date))));
+      collected[offset] += toAmount(p.amount);
+    }
+  }
+  if (sample < MIN_CURVE_INVOICES || invoiced <= 0) return DEFAULT_COLLECTION_CURVE;
+  return collected.map((amount) => Math.min(1, amount / invoiced));
+}
+
+/**
+ * Seasonal index per calendar month (January first) from monthly totals.
+ * Indices are pulled towards 1 until there are two years of history, so one
+ * unusual month does not repeat at full strength.
+ */
+export function seasonalIndices(history: { month: string; value: number }[]): number[] {
+  const indices = Array(12).fill(1);
+  const overall = mean(history.map((h) => h.value));
+  if (history.length < 12 || overall <= 0) return indices;
+
+  const weight = Math.min(1, history.length / 24);
+  const byCalendarMonth: number[][] = Array.from({ length: 12 }, () => []);
+  for (const h of history) byCalendarMonth[Number(h.month.slice(5, 7)) - 1].push(h.value);
+  const raw = byCalendarMonth.map((values) => (values.length ? mean(values) / overall : 1));
+  const shrunk = raw.map((index) => 1 + weight * (index - 1));
+  const average = mean(shrunk);
+  return shrunk.map((index) => Math.max(0.1, index / average));
+}
+
+const seasonOf = (indices: number[], month: string) => indices[Number(month.slice(5, 7)) - 1];
+
+// Recent level with the seasonal effect taken out
+function deseasonalizedLevel(history: { month: string; value: number }[], indices: number[]): number {
+  const recent = history.slice(-LEVEL_MONTHS);
+  return mean(recent.map((h) => h.value / seasonOf(indices, h.month)));
+}
+
+/** Project cash month by month from `asOf`, after the most recent actual months. */
+export function buildCashForecast(ledger: ForecastLedger, options: ForecastOptions = {}): CashForecast {
+  const asOf = options.asOf || new Date().toISOString().slice(0, 10);
+  const horizon = Math.min(MAX_FORECAST_HORIZON, Math.max(MIN_FORECAST_HORIZON, options.horizon ?? 6));
+  const actualMonths = options.actualMonths ?? 6;
+  const currentMonth = monthKey(asOf);
+
+  const settled = ledger.transactions.filter(
+    (t) => (t.type === "income" || t.type === "expense") && t.date <= asOf
+  );
+  const signed = (t: ForecastTransaction) => (t.type === "income" ? toAmount(t.amount) : -toAmount(t.amount));
+
+  // Opening cash as on the dashboard; without cash accounts every row counts
+  const cashAccounts = ledger.accounts.filter(isCashAccount);
+  const cashAccountIds = new Set(cashAccounts.map((a) => a.id));
+  const openingCashKnown = cashAccounts.length > 0;
+  const cashRows = openingCashKnown
+    ? settled.filter((t) => !t.account_id || cashAccountIds.has(t.account_id))
+    : settled;
+  const openingCash = openingCashKnown
+    ? cashBalance(ledger.accounts, settled, ledger.statements.filter((s) => s.period_end <= asOf))
+    : round2(cashRows.reduce((total, t) => total + signed(t), 0));
+
+  const income = settled.filter((t) => t.type === "income");
+  const expenses = settled.filter((t) => t.type === "expense");
+  const vendorNames = new Map(ledger.vendors.map((v) => [v.id, v.name]));
+  const recurring = detectRecurringBills(expenses, vendorNames, asOf);
+  const collectionsModel = income.some((t) => t.invoice_id) ? "invoices" : "baseline";
+  const curve = collectionCurve(ledger.invoices, income, asOf);
+
+  // Completed months of history for the baseline drivers
+  const firstMonth = settled.length ? monthKey(settled.reduce((a, t) => (t.date < a ? t.date : a), asOf)) : currentMonth;
+  const historyCount = Math.min(HISTORY_LIMIT, Math.max(0, monthDiff(firstMonth, currentMonth)));
+  const historyMonthKeys = Array.from({ length: historyCount }, (_, i) => addMonths(currentMonth, i - historyCount));
+  const totalsByMonth = (rows: ForecastTransaction[]) => {
+    const totals = new Map<string, number>();
+    for (const t of rows) totals.set(monthKey(t.date), (totals.get(monthKey(t.date)) || 0) + toAmount(t.amount));
+    return historyMonthKeys.map((month) => ({ month, value: totals.get(month) || 0 }));
+  };
+  const incomeHistory = totalsByMonth(
+    collectionsModel === "invoices" ? income.filter((t) => !t.invoice_id) : income
+  );
+  const expenseHistory = totalsByMonth(expenses.filter((t) => !recurring.transactionIds.has(t.id)));
+
+  const seasonality = { income: seasonalIndices(incomeHistory), expenses: seasonalIndices(expenseHistory) };
+  const incomeLevel = deseasonalizedLevel(incomeHistory, seasonality.income);
+  const expenseLevel = deseasonalizedLevel(expenseHistory, seasonality.expenses);
+
+  // Unexplained month-to-month movement in the baseline
+  const residuals = historyMonthKeys.map((month, i) =>
+    incomeHistory[i].value - expenseHistory[i].value -
+    (incomeLevel * seasonOf(seasonality.income, month) - expenseLevel * seasonOf(seasonality.expenses, month))
+  );
+  const sigma = residuals.length >= 3 ? stdev(residuals) : 0.25 * (incomeLevel + expenseLevel);
+
+  // Receivables: open invoices along the rest of the curve, then new invoicing
+  const collections = new Map<string, number>();
+  const collect = (month: string, amount: number) => collections.set(month, (collections.get(month) || 0) + amount);
+  if (collectionsModel === "invoices") {
+    for (const invoice of ledger.invoices) {
+      const outstanding = invoiceOutstanding(invoice);
+      if (outstanding <= 0) continue;
+      const dueMonth = monthKey(invoice.due_date);
+      const overdue = Math.max(0, monthDiff(dueMonth, currentMonth));
+      // Given it is still unpaid, how the rest of the curve plays out
+      const remaining = 1 - curve.slice(0, overdue).reduce((a, b) => a + b, 0);
+      if (overdue >= curve.length || remaining <= 0) continue;
+      for (let k = overdue; k < curve.length; k++) {
+        const month = addMonths(dueMonth, k);
+        collect(month < currentMonth ? currentMonth : month, (outstanding * curve[k]) / remaining);
+      }
+    }
+
+    const issued = ledger.invoices.filter((i) => i.status !== "void" && i.status !== "draft");
+    const invoicedHistory = historyMonthKeys.map((month) => ({
+      month,
+      value: issued.filter((i) => monthKey(i.issue_date) === month).reduce((a, i) => a + toAmount(i.total), 0),
+    }));
+    const invoicedLevel = deseasonalizedLevel(invoicedHistory, seasonality.income);
+    const terms = Math.max(0, Math.round(mean(issued.map((i) => monthDiff(monthKey(i.issue_date), monthKey(i.due_date))))));
+    for (let h = 0; h < horizon; h++) {
+      const month = addMonths(currentMonth, h);
+      // Invoices already raised this month are in the open invoices above
+      const share = h === 0 ? 1 - Number(asOf.slice(8, 10)) / daysInMonth(month) : 1;
+      const amount = invoicedLevel * seasonOf(seasonality.income, month) * share;
+      curve.forEach((fraction, k) => collect(addMonths(month, terms + k), amount * fraction));
+    }
+  }
+
+  const scheduled = new Map<string, number>();
+  // Scheduled bill amounts by month and vendor, netted against recurring bills
+  const scheduledBills = new Map<string, number>();
+  for (const payment of options.scheduledPayments || []) {
+    if (payment.amount <= 0) continue;
+    const month = payment.date < asOf ? currentMonth : monthKey(payment.date);
+    scheduled.set(month, (scheduled.get(month) || 0) + payment.amount);
+    if (payment.vendorId) {
+      const key = `${month}:${payment.vendorId}`;
+      scheduledBills.set(key, (scheduledBills.get(key) || 0) + payment.amount);
+    }
+  }
+  const unscheduledAmount = (bill: RecurringBill, month: string) =>
+    Math.max(0, bill.amount - (bill.vendorId ? scheduledBills.get(`${month}:${bill.vendorId}`) || 0 : 0));
+
+  // Actual month-end balances, walking back from today's balance
+  const months: ForecastMonth[] = [];
+  for (let i = actualMonths; i >= 1; i--) {
+    const month = addMonths(currentMonth, -i);
+    if (month < firstMonth) continue;
+    const later = cashRows.filter((t) => monthKey(t.date) > month);
+    const inMonth = cashRows.filter((t) => monthKey(t.date) === month);
+    const inflows = round2(inMonth.filter((t) => t.type === "income").reduce((a, t) => a + toAmount(t.amount), 0));
+    const outflows = round2(inMonth.filter((t) => t.type === "expense").reduce((a, t) => a + toAmount(t.amount), 0));
+    const cash = round2(openingCash - later.reduce((a, t) => a + signed(t), 0));
+    months.push({ month, kind: "actual", inflows, outflows, net: round2(inflows - outflows), cash, low: cash, high: cash });
+  }
+
+  // This month's flows so far are already in the opening balance
+  const today = Number(asOf.slice(8, 10));
+  const monthToDate = cashRows.filter((t) => monthKey(t.date) === currentMonth);
+  let cash = openingCash;
+  let variance = 0;
+  for (let h = 0; h < horizon; h++) {
+    const month = addMonths(currentMonth, h);
+    const share = h === 0 ? 1 - today / daysInMonth(month) : 1;
+    const drivers: ForecastDrivers = {
+      baselineIncome: round2(incomeLevel * seasonOf(seasonality.income, month) * share),
+      baselineExpenses: round2(expenseLevel * seasonOf(seasonality.expenses, month) * share),
+      recurringBills: round2(
+        recurring.bills
+          .filter((bill) => h > 0 || (bill.dayOfMonth > today && monthKey(bill.lastDate) < currentMonth))
+          .reduce((a, bill) => a + unscheduledAmount(bill, month), 0)
+      ),
+      collections: round2(collections.get(month) || 0),
+      scheduledPayments: round2(scheduled.get(month) || 0),
+    };
+    const futureIn = drivers.baselineIncome + drivers.collections;
+    const futureOut = drivers.baselineExpenses + drivers.recurringBills + drivers.scheduledPayments;
+    cash += futureIn - futureOut;
+    variance += (sigma * share) ** 2 + (0.2 * drivers.collections) ** 2;
+    const spread = Z_SCORE * Math.sqrt(variance);
+
+    // The current month shows what already happened plus the rest of the forecast
+    const pastIn = h === 0 ? monthToDate.filter((t) => t.type === "income").reduce((a, t) => a + toAmount(t.amount), 0) : 0;
+    const pastOut = h === 0 ? monthToDate.filter((t) => t.type === "expense").reduce((a, t) => a + toAmount(t.amount), 0) : 0;
+    const inflows = round2(pastIn + futureIn);
+    const outflows = round2(pastOut + futureOut);
+    months.push({
+      month,
+      kind: "forecast",
+      inflows,
+      outflows,
+      net: round2(inflows - outflows),
+      cash: round2(cash),
+      low: round2(cash - spread),
+      high: round2(cash + spread),
+      drivers,
+    });
+  }
+
+  return {
+    asOf,
+    openingCash,
+    openingCashKnown,
+    months,
+    recurringBills: recurring.bills,
+    collectionsModel,
+    collectionCurve: curve.map((share) => Math.round(share * 1000) / 1000),
+    seasonality: {
+      income: seasonality.income.map((index) => Math.round(index * 1000) / 1000),
+      expenses: seasonality.expenses.map((index) => Math.round(index * 1000) / 1000),
+    },
+    historyMonths: historyCount,
+    confidence: CONFIDENCE,
+  };
+}
@@ -0,0 +1,421 @@
+// Structured data from supplier invoices and receipts without OCR: UBL 2.1
+// and UN/CEFACT Cross Industry Invoice XML (the format inside Factur-X and
+// ZUGFeRD PDFs), or failing that the text layer of a PDF. The e-invoice
+// formats are exact; text is read with labelled-field heuristics and every
+// guess is listed in `warnings` for the reviewer. Pure like metrics.ts.
+import { round2 } from "./metrics.ts";
+
+export const EXTRACTION_FORMATS = ["ubl", "cii", "pdf_text"] as const;
+
+export type ExtractionFormat = (typeof EXTRACTION_FORMATS)[number];
+
+export const EXTRACTION_FORMAT_LABELS: Record<ExtractionFormat, string> = {
+  ubl: "UBL e-invoice",
+  cii: "Factur-X / ZUGFeRD",
+  pdf_text: "PDF text",
+};
+
+export interface ExtractedLine {
+  description: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  amount: number;
+}
+
+export interface ExtractedInvoice {
+  format: ExtractionFormat;
+  documentType: "invoice" | "credit_note" | "receipt";
+  invoiceNumber: string | null;
+  vendorName: string | null;
+  vendorTaxId: string | null;
+  buyerName: string | null;
+  issueDate: string | null;
+  dueDate: string | null;
+  currency: string | null;
+  subtotal: number | null;
+  tax: number | null;
+  total: number | null;
+  lines: ExtractedLine[];
+  warnings: string[];
+}
+
+// Totals that disagree by less than this are rounding, not a misread
+const TOTAL_TOLERANCE = 0.02;
+
+// ---------------------------------------------------------------------------
+// XML
+
+function decodeEntities(text: string) {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Namespace prefixes differ between senders (cbc:, ram:, ns2:...), so drop them
+function stripPrefixes(xml: string) {
+  return xml.replace(/<(\/?)[\w.-]+:([\w.-]+)/g, "<$1$2").replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->/g, "");
+}
+
+// Every <tag>...</tag> directly or deeply inside `xml`; self-closing tags give ""
+function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</${tag}>)`, "g");
+  return Array.from(xml.matchAll(pattern), (m) => m[1] ?? "");
+}
+
+// The first element along a path of tags
+function at(xml: string | null, ...path: string[]): string | null {
+  let current = xml;
+  for (const tag of path) {
+    if (current === null) return null;
+    current = elements(current, tag)[0] ?? null;
+  }
+  return current;
+}
+
+function textAt(xml: string | null, ...path: string[]): string | null {
+  const value = at(xml, ...path);
+  if (value === null) return null;
+  const text = decodeEntities(value.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+  return text || null;
+}
+
+function numberAt(xml: string | null, ...path: string[]): number | null {
+  const text = textAt(xml, ...path);
+  if (text === null) return null;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : null;
+}
+
+// UBL dates are already ISO; CII uses format 102 (YYYYMMDD)
+function xmlDate(text: string | null): string | null {
+  if (!text) return null;
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`;
+  return /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : null;
+}
+
+/** Which e-invoice syntax an XML document uses, if any. */
+export function detectXmlFormat(xml: string): "ubl" | "cii" | null {
+  const root = stripPrefixes(xml).match(/<([\w.-]+)[\s>]/)?.[1];
+  if (root === "Invoice" || root === "CreditNote") return "ubl";
+  if (root === "CrossIndustryInvoice") return "cii";
+  return null;
+}
+
+export function parseUblInvoice(xml: string): ExtractedInvoice {
+  const doc = stripPrefixes(xml);
+  const creditNote = /^\s*<CreditNote[\s>]/.test(doc);
+  const supplier = at(doc, "AccountingSupplierParty", "Party");
+  const totals = at(doc, "LegalMonetaryTotal");
+  const lineTag = creditNote ? "CreditNoteLine" : "InvoiceLine";
+  const quantityTag = creditNote ? "CreditedQuantity" : "InvoicedQuantity";
+
+  const lines = elements(doc, lineTag).map((line) => ({
+    description: textAt(line, "Item", "Name") || textAt(line, "Item", "Description") || "Item",
+    quantity: numberAt(line, quantityTag),
+    unitPrice: numberAt(line, "Price", "PriceAmount"),
+    amount: numberAt(line, "LineExtensionAmount") ?? 0,
+  }));
+
+  // The document-level TaxTotal comes after the parties; line TaxTotals sit inside lines
+  const header = doc.replace(new RegExp(`<${lineTag}[\\s>][\\s\\S]*?</${lineTag}>`, "g"), "");
+
+  return finish({
+    format: "ubl",
+    documentType: creditNote ? "credit_note" : "invoice",
+    invoiceNumber: textAt(header, "ID"),
+    vendorName: textAt(supplier, "PartyName", "Name") || textAt(supplier, "PartyLegalEntity", "RegistrationName"),
+    vendorTaxId: textAt(supplier, "PartyTaxScheme", "CompanyID") || textAt(supplier, "PartyLegalEntity", "CompanyID"),
+    buyerName:
+      textAt(doc, "AccountingCustomerParty", "Party", "PartyName", "Name") ||
+      textAt(doc, "AccountingCustomerParty", "Party", "PartyLegalEntity", "RegistrationName"),
+    issueDate: xmlDate(textAt(header, "IssueDate")),
+    dueDate: xmlDate(textAt(header, "DueDate") || textAt(doc, "PaymentMeans", "PaymentDueDate")),
+    currency: textAt(header, "DocumentCurrencyCode"),
+    subtotal: numberAt(totals, "TaxExclusiveAmount") ?? numberAt(totals, "LineExtensionAmount"),
+    tax: numberAt(header, "TaxTotal", "TaxAmount"),
+    total: numberAt(totals, "PayableAmount") ?? numberAt(totals, "TaxInclusiveAmount"),
+    lines,
+    warnings: [],
+  });
+}
+
+export function parseCiiInvoice(xml: string): ExtractedInvoice {
+  const doc = stripPrefixes(xml);
+  const exchanged = at(doc, "ExchangedDocument");
+  const agreement = at(doc, "ApplicableHeaderTradeAgreement");
+  const settlement = at(doc, "ApplicableHeaderTradeSettlement");
+  const summation = at(settlement, "SpecifiedTradeSettlementHeaderMonetarySummation");
+  const seller = at(agreement, "SellerTradeParty");
+
+  // Tax total may be repeated in the accounting currency; the first is the invoice's
+  const lines = elements(doc, "IncludedSupplyChainTradeLineItem").map((line) => ({
+    description: textAt(line, "SpecifiedTradeProduct", "Name") || "Item",
+    quantity: numberAt(line, "SpecifiedLineTradeDelivery", "BilledQuantity"),
+    unitPrice: numberAt(line, "SpecifiedLineTradeAgreement", "NetPriceProductTradePrice", "ChargeAmount"),
+    amount:
+      numberAt(line, "SpecifiedLineTradeSettlement", "SpecifiedTradeSettlementLineMonetarySummation", "LineTotalAmount") ?? 0,
+  }));
+
+  return finish({
+    format: "cii",
+    documentType: textAt(exchanged, "TypeCode") === "381" ? "credit_note" : "invoice",
+    invoiceNumber: textAt(exchanged, "ID"),
+    vendorName: textAt(seller, "Name"),
+    vendorTaxId: textAt(seller, "SpecifiedTaxRegistration", "ID"),
+    buyerName: textAt(agreement, "BuyerTradeParty", "Name"),
+    issueDate: xmlDate(textAt(exchanged, "IssueDateTime", "DateTimeString")),
+    dueDate: xmlDate(textAt(settlement, "SpecifiedTradePaymentTerms", "DueDateDateTime", "DateTimeString")),
+    currency: textAt(settlement, "InvoiceCurrencyCode"),
+    subtotal: numberAt(summation, "TaxBasisTotalAmount") ?? numberAt(summation, "LineTotalAmount"),
+    tax: numberAt(summation, "TaxTotalAmount"),
+    total: numberAt(summation, "DuePayableAmount") ?? numberAt(summation, "GrandTotalAmount"),
+    lines,
+    warnings: [],
+  });
+}
+
+// ---------------------------------------------------------------------------
+// PDF text
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const CURRENCY_SYMBOLS: Record<string, string> = { $: "USD", "€": "EUR", "£": "GBP" };
+
+// "1,234.56", "1.234,56", "$ 99", "(12.00)"
+const AMOUNT = String.raw`\(?-?[$€£]?\s?\d{1,3}(?:[,.\s]\d{3})*(?:[.,]\d{2})?\)?|\(?-?[$€£]?\s?\d+(?:[.,]\d{2})?\)?`;
+
+/** A money amount in either decimal convention; null if it is not one. */
+export function parseAmount(text: string): number | null {
+  const negative = /^\(.*\)$/.test(text.trim()) || text.includes("-");
+  let digits = text.replace(/[^\d.,]/g, "");
+  if (!digits) return null;
+  const lastComma = digits.lastIndexOf(",");
+  const lastDot = digits.lastIndexOf(".");
+  // Whichever separator comes last with two digits after it is the decimal point
+  if (lastComma > lastDot && digits.length - lastComma === 3) {
+    digits = digits.replace(/\./g, "").replace(",", ".");
+  } else {
+    digits = digits.replace(/,/g, "");
+    if ((digits.match(/\./g) || []).length > 1) digits = digits.replace(/\.(?=.*\.)/g, "");
+  }
+  const n = Number(digits);
+  return Number.isFinite(n) ? (negative ? -n : n) : null;
+}
+
+/**
+ * A date in the formats invoices print, as YYYY-MM-DD. Slashed dates are read
+ * month first unless `dayFirst`; dotted ones are always day first.
+ */
+export function parseTextDate(text: string, dayFirst = false): string | null {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const build = (y: number, m: number, d: number) => {
+    const year = y < 100 ? 2000 + y : y;
+    if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+    const date = new Date(Date.UTC(year, m - 1, d));
+    return date.getUTCMonth() === m - 1 ? `${year}-${pad(m)}-${pad(d)}` : null;
+  };
+  let m = text.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return build(+m[1], +m[2], +m[3]);
+  m = text.match(/(\d{1,2})\.(\d{1,2})\.(\d{2,4})/);
+  if (m) return build(+m[3], +m[2], +m[1]);
+  m = text.match(/(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+  if (m) return dayFirst ? build(+m[3], +m[2], +m[1]) : build(+m[3], +m[1], +m[2]);
+  m = text.match(/([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})/);
+  if (m && MONTHS.includes(m[1].slice(0, 3).toLowerCase())) {
+    return build(+m[3], MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1, +m[2]);
+  }
+  m = text.match(/(\d{1,2})\s+([A-Za-z]{3,9})\.?,?\s+(\d{4})/);
+  if (m && MONTHS.includes(m[2].slice(0, 3).toLowerCase())) {
+    return build(+m[3], MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()) + 1, +m[1]);
+  }
+  return null;
+}
+
+const lastAmountOn = (line: string) => {
+  const matches = line.match(new RegExp(AMOUNT, "g")) || [];
+  for (let i = matches.length - 1; i >= 0; i--) {
+    const n = parseAmount(matches[i]);
+    if (n !== null && /[.,]\d{2}\)?$|^[$€£]/.test(matches[i].trim())) return n;
+  }
+  return null;
+};
+
+// The amount on the first line whose label matches, skipping lines that match `not`
+function labelledAmount(lines: string[], label: RegExp, not?: RegExp): number | null {
+  for (const line of lines) {
+    if (!label.test(line) || (not && not.test(line))) continue;
+    const amount = lastAmountOn(line);
+    if (amount !== null) return amount;
+  }
+  return null;
+}
+
+function labelledDate(lines: string[], label: RegExp, dayFirst: boolean): string | null {
+  for (const [i, line] of lines.entries()) {
+    if (!label.test(line)) continue;
+    // The value is usually on the same line, sometimes on the next
+    const date =
+      parseTextDate(line.replace(label, " "), dayFirst) ?? (lines[i + 1] ? parseTextDate(lines[i + 1], dayFirst) : null);
+    if (date) return date;
+  }
+  return null;
+}
+
+const TOTAL_LABEL = /\b(amount due|balance due|total due|grand total|invoice total|total amount|total)\b/i;
+const SUBTOTAL_LABEL = /\b(sub-?total|net amount|total net|amount before tax)\b/i;
+const TAX_LABEL = /\b(tax|vat|gst|hst)\b/i;
+const HEADER_LABEL = /\b(description|item)\b.*\b(amount|total|price)\b/i;
+const ITEM_LINE = new RegExp(String.raw`^(.*?[A-Za-z].*?)\s+(\d+(?:[.,]\d+)?)\s*(?:x\s*)?(?:@\s*)?(${AMOUNT})\s+(${AMOUNT})$`);
+
+export function parseInvoiceText(text: string): ExtractedInvoice {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  const warnings: string[] = [];
+  const body = lines.join("\n");
+
+  const receipt = /\breceipt\b/i.test(body) && !/\binvoice\b/i.test(body);
+  const credit = /\bcredit (note|memo)\b/i.test(body);
+
+  const numberMatch = body.match(
+    /\b(?:invoice|receipt|bill|credit note|document)\s*(?:no\.?|number|num\.?|#|id)\s*[:#]?\s*([A-Z0-9][A-Z0-9\-/.]*\d[A-Z0-9\-/]*)/i,
+  );
+
+  // "From:" or "Seller:" names the vendor; otherwise it is usually printed first
+  const fromLine = lines.find((l) => /^(from|seller|supplier|vendor|billed by)\b\s*:?/i.test(l));
+  let vendorName = fromLine?.replace(/^(from|seller|supplier|vendor|billed by)\b\s*:?\s*/i, "") || null;
+  if (!vendorName) {
+    vendorName =
+      lines.find(
+        (l) =>
+          /[A-Za-z]{2}/.test(l) && !/^(tax\s+)?(invoice|receipt|bill|credit note|page \d)/i.test(l) && !parseTextDate(l),
+      ) ?? null;
+    if (vendorName) warnings.push("Vendor taken from the first line of the document");
+  }
+  const taxIdMatch = body.match(/\b(?:vat|tax|gst|abn|ein|tin)\s*(?:id|no\.?|number|reg(?:istration)?\.?(?: no\.?)?)\s*[:#]?\s*([A-Z]{0,2}\s?\d[\dA-Z\- ]{5,}\d)/i);
+  const billToIndex = lines.findIndex((l) => /^(bill(ed)? to|customer|sold to)\b/i.test(l));
+  const buyerName =
+    billToIndex >= 0
+      ? lines[billToIndex].replace(/^(bill(ed)? to|customer|sold to)\b\s*:?\s*/i, "") || lines[billToIndex + 1] || null
+      : null;
+
+  const codeMatch = body.match(/\b(USD|EUR|GBP|CAD|AUD|CHF)\b/);
+  const symbolMatch = body.match(/[$€£]/);
+  const currency = codeMatch?.[1] ?? (symbolMatch ? CURRENCY_SYMBOLS[symbolMatch[0]] : null);
+
+  // Slashed dates are day first outside the US, and whenever one could not be a month
+  const dayFirst =
+    (!!currency && currency !== "USD") ||
+    Array.from(body.matchAll(/\b(\d{1,2})\/(\d{1,2})\/\d{2,4}\b/g)).some((m) => +m[1] > 12);
+  const issueDate =
+    labelledDate(lines, /\b(invoice date|date of issue|issue date|issued|receipt date|date)\b\s*:?/i, dayFirst) ??
+    lines.map((l) => parseTextDate(l, dayFirst)).find(Boolean) ??
+    null;
+  const dueDate = labelledDate(lines, /\b(due date|payment due|due by|pay by|due)\b\s*:?/i, dayFirst);
+
+  const subtotal = labelledAmount(lines, SUBTOTAL_LABEL);
+  const tax = labelledAmount(lines, TAX_LABEL, /\b(incl(uding|\.)?|excl(uding|\.)?|tax (id|no|number|reg))\b/i);
+  // Search from the bottom: the last "total" line is the one to pay
+  const total = labelledAmount([...lines].reverse(), TOTAL_LABEL, SUBTOTAL_LABEL);
+
+  // Item rows sit between a column header and the first totals line
+  const start = lines.findIndex((l) => HEADER_LABEL.test(l));
+  const items: ExtractedLine[] = [];
+  if (start >= 0) {
+    for (const line of lines.slice(start + 1)) {
+      if (SUBTOTAL_LABEL.test(line) || TOTAL_LABEL.test(line)) break;
+      const m = line.match(ITEM_LINE);
+      if (!m) continue;
+      const amount = parseAmount(m[4]);
+      if (amount === null) continue;
+      items.push({
+        description: m[1].trim(),
+        quantity: parseAmount(m[2]),
+        unitPrice: parseAmount(m[3]),
+        amount,
+      });
+    }
+  }
+  if (items.length === 0) warnings.push("No line items recognised");
+
+  return finish({
+    format: "pdf_text",
+    documentType: credit ? "credit_note" : receipt ? "receipt" : "invoice",
+    invoiceNumber: numberMatch?.[1] ?? null,
+    vendorName,
+    vendorTaxId: taxIdMatch?.[1].trim() ?? null,
+    buyerName,
+    issueDate,
+    dueDate,
+    currency,
+    subtotal,
+    tax,
+    total,
+    lines: items,
+    warnings,
+  });
+}
+
+// ---------------------------------------------------------------------------
+
+// Fill gaps that follow from the other figures and flag what does not add up
+function finish(invoice: ExtractedInvoice): ExtractedInvoice {
+  const result = { ...invoice, warnings: [...invoice.warnings] };
+  const lineSum = round2(result.lines.reduce((sum, l) => sum + l.amount, 0));
+
+  if (result.subtotal === null && result.lines.length > 0) result.subtotal = lineSum;
+  if (result.total === null && result.subtotal !== null) {
+    result.total = round2(result.subtotal + (result.tax ?? 0));
+    result.warnings.push("Total worked out from the subtotal and tax");
+  }
+  if (result.tax === null && result.total !== null && result.subtotal !== null && result.total > result.subtotal) {
+    result.tax = round2(result.total - result.subtotal);
+  }
+
+  if (result.total === null) result.warnings.push("No total found");
+  if (!result.invoiceNumber) result.warnings.push("No invoice number found");
+  if (!result.issueDate) result.warnings.push("No date found");
+  if (!result.vendorName) result.warnings.push("No vendor found");
+  if (result.issueDate && result.dueDate && result.dueDate < result.issueDate) {
+    result.warnings.push("Due date is before the issue date");
+  }
+  if (
+    result.subtotal !== null &&
+    result.tax !== null &&
+    result.total !== null &&
+    Math.abs(result.subtotal + result.tax - result.total) > TOTAL_TOLERANCE
+  ) {
+    result.warnings.push("Subtotal plus tax does not equal the total");
+  }
+  if (result.lines.length > 0 && result.subtotal !== null && Math.abs(lineSum - result.subtotal) > TOTAL_TOLERANCE) {
+    result.warnings.push("Line items do not add up to the subtotal");
+  }
+  return result;
+}
+
+/**
+ * Extract from whichever source the document offers, preferring embedded
+ * e-invoice XML. Null when there is nothing to read.
+ */
+export function extractInvoice(source: { xml?: string | null; text?: string | null }): ExtractedInvoice | null {
+  if (source.xml) {
+    const format = detectXmlFormat(source.xml);
+    if (format === "ubl") return parseUblInvoice(source.xml);
+    if (format === "cii") return parseCiiInvoice(source.xml);
+  }
+  if (source.text?.trim()) return parseInvoiceText(source.text);
+  return null;
+}
+
+/** Bills for invoices still to be paid, transactions for what is already paid. */
+export function suggestDraftTarget(invoice: Pick<ExtractedInvoice, "documentType" | "dueDate">): "transaction" | "bill" {
+  return invoice.documentType === "invoice" && invoice.dueDate ? "bill" : "transaction";
+}
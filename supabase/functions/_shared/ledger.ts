@@ -0,0 +1,241 @@
+// Server-side reads of the ledger tables. Edge functions use the service role
+// so they see every row regardless of the caller's session.
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { LedgerRows } from "./metrics.ts";
+import type { ForecastLedger, ForecastTransaction } from "./forecast.ts";
+import type { PayableBill } from "./payables.ts";
+import type { AnomalyTransaction } from "./anomalies.ts";
+import type { ComplianceLedger, ComplianceRule } from "./compliance.ts";
+import type { Obligation, ObligationFiling } from "./obligations.ts";
+
+const PAGE_SIZE = 1000;
+
+export function createServiceClient(): SupabaseClient {
+  return createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+}
+
+// PostgREST caps responses at 1000 rows, so page through with range()
+export async function fetchAllRows<T>(
+  table: string,
+  buildQuery: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+export interface LedgerRange {
+  start?: string;
+  end?: string;
+}
+
+// Load everything buildDashboardData needs, optionally limited to a date range
+export async function loadLedgerRows(
+  supabase: SupabaseClient,
+  range: LedgerRange = {},
+): Promise<LedgerRows> {
+  const [transactions, invoices, bills, statements, accounts, vendors, customers] = await Promise.all([
+    fetchAllRows<LedgerRows["transactions"][number]>("transactions", (from, to) => {
+      let query = supabase
+        .from("transactions")
+        .select("id, date, amount, type, category, account_id, vendor_id, customer_id");
+      if (range.start) query = query.gte("date", range.start);
+      if (range.end) query = query.lte("date", range.end);
+      return query.order("date").order("id").range(from, to);
+    }),
+    fetchAllRows<LedgerRows["invoices"][number]>("invoices", (from, to) =>
+      supabase.from("invoices").select("id, due_date, total, amount_paid, status").order("issue_date").range(from, to)
+    ),
+    fetchAllRows<LedgerRows["bills"][number]>("bills", (from, to) =>
+      supabase.from("bills").select("id, due_date, total, amount_paid, discount_taken, status").order("issue_date").range(from, to)
+    ),
+    fetchAllRows<LedgerRows["statements"][number]>("bank_statements", (from, to) =>
+      supabase.from("bank_statements").select("account_id, period_end, closing_balance").order("period_end").range(from, to)
+    ),
+    fetchAllRows<LedgerRows["accounts"][number]>("accounts", (from, to) =>
+      supabase.from("accounts").select("id, type, subtype, opening_balance").order("code").range(from, to)
+    ),
+    fetchAllRows<LedgerRows["vendors"][number]>("vendors", (from, to) =>
+      supabase.from("vendors").select("id, name").order("name").range(from, to)
+    ),
+    fetchAllRows<LedgerRows["customers"][number]>("customers", (from, to) =>
+      supabase.from("customers").select("id, name").order("name").range(from, to)
+    ),
+  ]);
+
+  return { transactions, invoices, bills, statements, accounts, vendors, customers };
+}
+
+// Everything buildCashForecast, its bill payments and the scenario channel
+// mix need, over all dates
+export async function loadForecastLedger(
+  supabase: SupabaseClient,
+): Promise<
+  ForecastLedger & { transactions: (ForecastTransaction & { channel: string | null })[]; bills: PayableBill[] }
+> {
+  const [transactions, invoices, bills, statements, accounts, vendors] = await Promise.all([
+    fetchAllRows<ForecastTransaction & { channel: string | null }>("transactions", (from, to) =>
+      supabase
+        .from("transactions")
+        .select("id, date, amount, type, category, channel, description, account_id, vendor_id, customer_id, invoice_id")
+        .order("date")
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAllRows<ForecastLedger["invoices"][number]>("invoices", (from, to) =>
+      supabase
+        .from("invoices")
+        .select("id, issue_date, due_date, total, amount_paid, status")
+        .order("issue_date")
+        .range(from, to)
+    ),
+    fetchAllRows<PayableBill>("bills", (from, to) =>
+      supabase
+        .from("bills")
+        .select(
+          "id, bill_number, vendor_id, issue_date, due_date, terms_days, discount_percent, discount_days, total, amount_paid, discount_taken, status, approval_status, scheduled_date",
+        )
+        .order("issue_date")
+        .range(from, to)
+    ),
+    fetchAllRows<ForecastLedger["statements"][number]>("bank_statements", (from, to) =>
+      supabase.from("bank_statements").select("account_id, period_end, closing_balance").order("period_end").range(from, to)
+    ),
+    fetchAllRows<ForecastLedger["accounts"][number]>("accounts", (from, to) =>
+      supabase.from("accounts").select("id, type, subtype, opening_balance").order("code").range(from, to)
+    ),
+    fetchAllRows<ForecastLedger["vendors"][number]>("vendors", (from, to) =>
+      supabase.from("vendors").select("id, name").order("name").range(from, to)
+    ),
+  ]);
+
+  return { transactions, invoices, bills, statements, accounts, vendors };
+}
+
+// Everything detectAnomalies needs, with the keys of dismissed findings
+export async function loadAnomalyLedger(supabase: SupabaseClient): Promise<{
+  transactions: AnomalyTransaction[];
+  vendors: { id: string; name: string }[];
+  customers: { id: string; name: string }[];
+  dismissedKeys: Set<string>;
+}> {
+  const [transactions, vendors, customers, dismissals] = await Promise.all([
+    fetchAllRows<AnomalyTransaction>("transactions", (from, to) =>
+      supabase
+        .from("transactions")
+        .select("id, date, amount, type, category, description, reference, transaction_time, account_id, vendor_id, customer_id")
+        .in("type", ["income", "expense"])
+        .order("date")
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAllRows<{ id: string; name: string }>("vendors", (from, to) =>
+      supabase.from("vendors").select("id, name").order("name").range(from, to)
+    ),
+    fetchAllRows<{ id: string; name: string }>("customers", (from, to) =>
+      supabase.from("customers").select("id, name").order("name").range(from, to)
+    ),
+    fetchAllRows<{ key: string }>("anomaly_dismissals", (from, to) =>
+      supabase.from("anomaly_dismissals").select("key").order("key").range(from, to)
+    ),
+  ]);
+
+  return { transactions, vendors, customers, dismissedKeys: new Set(dismissals.map((d) => d.key)) };
+}
+
+// The active compliance rules and everything evaluateCompliance checks them against
+export async function loadComplianceLedger(
+  supabase: SupabaseClient,
+): Promise<ComplianceLedger & { rules: ComplianceRule[] }> {
+  const [rules, transactions, bills, vendors, customers, documents, approvalPolicies, approvalRequests] = await Promise.all([
+    fetchAllRows<ComplianceRule>("compliance_rules", (from, to) =>
+      supabase
+        .from("compliance_rules")
+        .select("id, name, kind, threshold, category, severity, is_active")
+        .eq("is_active", true)
+        .order("name")
+        .range(from, to)
+    ),
+    fetchAllRows<ComplianceLedger["transactions"][number]>("transactions", (from, to) =>
+      supabase
+        .from("transactions")
+        .select("id, date, amount, type, category, description, account_id, vendor_id, customer_id, bill_id")
+        .eq("type", "expense")
+        .order("date")
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAllRows<ComplianceLedger["bills"][number]>("bills", (from, to) =>
+      supabase
+        .from("bills")
+        .select("id, bill_number, vendor_id, issue_date, total, status, approval_status, category, entered_by, approved_by")
+        .order("issue_date")
+        .range(from, to)
+    ),
+    fetchAllRows<ComplianceLedger["vendors"][number]>("vendors", (from, to) =>
+      supabase.from("vendors").select("id, name, tax_id, tax_form_received_on").order("name").range(from, to)
+    ),
+    fetchAllRows<{ id: string; name: string }>("customers", (from, to) =>
+      supabase.from("customers").select("id, name").order("name").range(from, to)
+    ),
+    fetchAllRows<ComplianceLedger["documents"][number]>("documents", (from, to) =>
+      supabase.from("documents").select("kind, transaction_id").not("transaction_id", "is", null).order("id").range(from, to)
+    ),
+    fetchAllRows<ComplianceLedger["approvalPolicies"][number]>("approval_policies", (from, to) =>
+      supabase
+        .from("approval_policies")
+        .select("id, name, applies_to, threshold, category, vendor_id, approvers, priority, is_active")
+        .order("priority")
+        .range(from, to)
+    ),
+    fetchAllRows<ComplianceLedger["approvalRequests"][number]>("approval_requests", (from, to) =>
+      supabase
+        .from("approval_requests")
+        .select("id, subject, bill_id, transaction_id, status, current_step, approvers, requested_by, created_at")
+        .order("created_at")
+        .range(from, to)
+    ),
+  ]);
+
+  return { rules, transactions, bills, vendors, customers, documents, approvalPolicies, approvalRequests };
+}
+
+/** Every obligation and filing, with the number of evidence files per filing. */
+export async function loadObligations(supabase: SupabaseClient): Promise<{
+  obligations: Obligation[];
+  filings: ObligationFiling[];
+  evidenceCounts: Map<string, number>;
+}> {
+  const [obligations, filings, evidence] = await Promise.all([
+    fetchAllRows<Obligation>("compliance_obligations", (from, to) =>
+      supabase
+        .from("compliance_obligations")
+        .select("id, name, reference, authority, description, frequency, first_due_date, end_date, reminder_days, assignee, checklist, is_active")
+        .order("name")
+        .range(from, to)
+    ),
+    fetchAllRows<ObligationFiling>("compliance_filings", (from, to) =>
+      supabase
+        .from("compliance_filings")
+        .select("id, obligation_id, due_date, status, assignee, completed_steps, notes, completed_at, completed_by")
+        .order("due_date")
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAllRows<{ filing_id: string }>("compliance_evidence", (from, to) =>
+      supabase.from("compliance_evidence").select("filing_id").order("id").range(from, to)
+    ),
+  ]);
+
+  const evidenceCounts = new Map<string, number>();
+  for (const e of evidence) evidenceCounts.set(e.filing_id, (evidenceCounts.get(e.filing_id) ?? 0) + 1);
+  return { obligations, filings, evidenceCounts };
+}
@@ -0,0 +1,106 @@
+// Bedrock Agent: the supervisor agent and its collaborators, with session
+// memory and orchestration traces. Action groups set to return control are
+// answered from request.tools (see agentTools.ts).
+import {
+  BedrockAgentRuntimeClient,
+  InvokeAgentCommand,
+  type InvocationResultMember,
+  type ReturnControlPayload,
+} from "npm:@aws-sdk/client-bedrock-agent-runtime";
+import { normalizeTrace } from "../traces.ts";
+import { type LLMEvent, type LLMProvider, type LLMRequest, type LLMTool, requireEnv, runTool } from "./types.ts";
+
+// Agent turns per request, so an agent that keeps calling tools still finishes
+const MAX_TOOL_ROUNDS = 4;
+
+async function returnControlResults(
+  payload: ReturnControlPayload,
+  tools: LLMTool[],
+): Promise<InvocationResultMember[]> {
+  const results: InvocationResultMember[] = [];
+  for (const invocation of payload.invocationInputs || []) {
+    const call = invocation.functionInvocationInput;
+    if (!call?.function) continue;
+    // Parameters arrive as strings; the tools parse numbers and JSON lists themselves
+    const input = Object.fromEntries((call.parameters || []).map((p) => [p.name || "", p.value]));
+    const { output, isError } = await runTool(tools, call.function, input);
+    results.push({
+      functionResult: {
+        actionGroup: call.actionGroup,
+        function: call.function,
+        responseBody: { TEXT: { body: output } },
+        // Lets the agent correct its input and try again
+        ...(isError ? { responseState: "REPROMPT" as const } : {}),
+      },
+    });
+  }
+  return results;
+}
+
+export class BedrockAgentProvider implements LLMProvider {
+  readonly name = "bedrock-agent";
+  private client: BedrockAgentRuntimeClient | null = null;
+  private config: Record<string, string> | null = null;
+
+  private connect() {
+    if (!this.client) {
+      this.config = requireEnv(this.name, [
+        "AWS_REGION",
+        "AWS_ACCESS_KEY_ID",
+        "AWS_SECRET_ACCESS_KEY",
+        "AWS_BEDROCK_AGENT_ID",
+        "AWS_BEDROCK_AGENT_ALIAS_ID",
+      ]);
+      // The SDK handles SigV4 signing
+      this.client = new BedrockAgentRuntimeClient({
+        region: this.config.AWS_REGION,
+        credentials: {
+          accessKeyId: this.config.AWS_ACCESS_KEY_ID,
+          secretAccessKey: this.config.AWS_SECRET_ACCESS_KEY,
+        },
+      });
+    }
+    return { client: this.client, config: this.config! };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMEvent> {
+    const { client, config } = this.connect();
+    let inputText: string | undefined = request.inputText;
+    let toolResults: { invocationId?: string; returnControlInvocationResults: InvocationResultMember[] } | undefined;
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const command = new InvokeAgentCommand({
+        agentId: config.AWS_BEDROCK_AGENT_ID,
+        agentAliasId: config.AWS_BEDROCK_AGENT_ALIAS_ID,
+        sessionId: request.sessionId,
+        inputText,
+        sessionState: toolResults,
+        // Orchestration traces drive the rationale / agent_call messages in the chat
+        enableTrace: true,
+      });
+
+      // Aborting the request (e.g. the user pressed cancel) stops the agent call too
+      const response = await client.send(command, { abortSignal: request.signal });
+      if (!response.completion) return;
+
+      const decoder = new TextDecoder();
+      let returnControl: ReturnControlPayload | undefined;
+      for await (const event of response.completion) {
+        if (event.chunk?.bytes) {
+          yield { type: "chunk", text: decoder.decode(event.chunk.bytes, { stream: true }) };
+        }
+        const trace = event.trace ? normalizeTrace(event.trace) : null;
+        if (trace) yield { type: "trace", trace };
+        if (event.returnControl) returnControl = event.returnControl;
+      }
+      if (!returnControl) return;
+
+      // The agent is waiting on tool results; send them back in the same session
+      inputText = undefined;
+      toolResults = {
+        invocationId: returnControl.invocationId,
+        returnControlInvocationResults: await returnControlResults(returnControl, request.tools || []),
+      };
+    }
+  }
+}
@@ -0,0 +1,131 @@
+// A foundation model called directly with InvokeModel. There is no agent
+// memory, so every request is answered on its own and sessionId is ignored.
+// Tool calls are run in between model turns until the model stops asking.
+import {
+  BedrockRuntimeClient,
+  InvokeModelWithResponseStreamCommand,
+} from "npm:@aws-sdk/client-bedrock-runtime";
+import { type LLMEvent, type LLMProvider, type LLMRequest, requireEnv, runTool } from "./types.ts";
+
+const DEFAULT_MODEL_ID = "anthropic.claude-3-5-sonnet-20241022-v2:0";
+const MAX_TOKENS = 4096;
+// Model turns per request, so a model that keeps calling tools still finishes
+const MAX_TOOL_ROUNDS = 4;
+
+type ContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; json: string };
+
+// Describes version 1 of the agent output protocol (src/lib/agentOutput.ts)
+export const DEFAULT_SYSTEM_PROMPT =
+  "You are a CFO Agent that helps analyze financial data. Answer in markdown. When a chart would help, end the answer with a ```json block: { \"version\": 1, \"requestType\": \"expense\" | \"income\" | \"reporting\" | \"compliance\", \"graphData\": {...} }. " +
+  "graphData by requestType: expense { expensesByCategory: { [category]: amount }, totalExpenses, timeSeries: [{ date, amount, category }] }; " +
+  "income { incomeByChannel: { [channel]: amount }, incomeBySource: { [source]: amount }, totalIncome, timeSeries: [{ date, amount, source }] }; " +
+  "reporting { monthlyData: [{ month, income, expenses, net }], totalRevenue, totalExpenses, netProfit }; " +
+  "compliance { compliantTransactions, nonCompliantTransactions, flaggedTransactions: [{ transactionId, description }] }. " +
+  "For any other chart add charts: [{ type: \"line\" | \"bar\" | \"area\" | \"pie\" | \"scatter\" | \"waterfall\" | \"combo\", title, data: [{...}], xAxis: { key, label }, yAxis: { label, format: { style: \"currency\" | \"percent\" | \"number\" | \"compact\" } }, series: [{ key, name, type, axis: \"left\" | \"right\", stack }], stacked, annotations: [{ type: \"line\", axis: \"y\", value, label }] }]; " +
+  "use requestType \"chart\" when the charts are all there is. Waterfall rows with isTotal: true show the running total. " +
+  "Amounts are plain numbers. Leave the block out when there is nothing to chart. " +
+  "For what-if questions use the create_scenario tool when it is available. " +
+  "For unusual transactions, duplicates or anomalies use the find_anomalies tool and cite findings by transaction id. " +
+  "For compliance questions use the check_compliance tool and chart its graphData rather than judging transactions yourself. " +
+  "For filing deadlines, checklists or regulations use the list_compliance_deadlines tool and chart its graphData; never invent due dates.";
+
+export class BedrockModelProvider implements LLMProvider {
+  readonly name = "bedrock-model";
+  private client: BedrockRuntimeClient | null = null;
+
+  private connect() {
+    if (!this.client) {
+      const config = requireEnv(this.name, ["AWS_REGION", "AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY"]);
+      this.client = new BedrockRuntimeClient({
+        region: config.AWS_REGION,
+        credentials: {
+          accessKeyId: config.AWS_ACCESS_KEY_ID,
+          secretAccessKey: config.AWS_SECRET_ACCESS_KEY,
+        },
+      });
+    }
+    return this.client;
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMEvent> {
+    const client = this.connect();
+    const tools = request.tools || [];
+    const messages: { role: "user" | "assistant"; content: unknown }[] = [
+      { role: "user", content: request.inputText },
+    ];
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const command = new InvokeModelWithResponseStreamCommand({
+        modelId: Deno.env.get("BEDROCK_MODEL_ID") || DEFAULT_MODEL_ID,
+        contentType: "application/json",
+        accept: "application/json",
+        body: JSON.stringify({
+          anthropic_version: "bedrock-2023-05-31",
+          max_tokens: MAX_TOKENS,
+          system: request.system || DEFAULT_SYSTEM_PROMPT,
+          messages,
+          ...(tools.length > 0
+            ? { tools: tools.map((t) => ({ name: t.name, description: t.description, input_schema: t.inputSchema })) }
+            : {}),
+        }),
+      });
+
+      const response = await client.send(command, { abortSignal: request.signal });
+      if (!response.body) return;
+
+      const decoder = new TextDecoder();
+      const content: ContentBlock[] = [];
+      let stopReason: string | null = null;
+      for await (const event of response.body) {
+        if (!event.chunk?.bytes) continue;
+        const payload = JSON.parse(decoder.decode(event.chunk.bytes));
+        if (payload.type === "content_block_start") {
+          const block = payload.content_block;
+          content[payload.index] = block?.type === "tool_use"
+            ? { type: "tool_use", id: block.id, name: block.name, json: "" }
+            : { type: "text", text: "" };
+        } else if (payload.type === "content_block_delta") {
+          const block = content[payload.index];
+          if (payload.delta?.type === "text_delta") {
+            if (block?.type === "text") block.text += payload.delta.text;
+            yield { type: "chunk", text: payload.delta.text };
+          } else if (payload.delta?.type === "input_json_delta" && block?.type === "tool_use") {
+            block.json += payload.delta.partial_json;
+          }
+        } else if (payload.type === "message_delta") {
+          stopReason = payload.delta?.stop_reason ?? stopReason;
+        }
+      }
+
+      const calls = content.filter((b): b is Extract<ContentBlock, { type: "tool_use" }> => b?.type === "tool_use");
+      if (stopReason !== "tool_use" || calls.length === 0) return;
+
+      const inputs = calls.map((call) => {
+        try {
+          return call.json ? JSON.parse(call.json) : {};
+        } catch {
+          return {};
+        }
+      });
+      messages.push({
+        role: "assistant",
+        // Empty text blocks are rejected by the API
+        content: content.filter((block) => block && (block.type === "tool_use" || block.text)).map((block) =>
+          block.type === "text"
+            ? block
+            : { type: "tool_use", id: block.id, name: block.name, input: inputs[calls.indexOf(block)] }
+        ),
+      });
+      const results = [];
+      for (const [i, call] of calls.entries()) {
+        const { output, isError } = await runTool(tools, call.name, inputs[i]);
+        results.push({ type: "tool_result", tool_use_id: call.id, content: output, is_error: isError });
+      }
+      messages.push({ role: "user", content: results });
+      // Keep the text before and after the tool call apart
+      if (content.some((b) => b?.type === "text" && b.text)) yield { type: "chunk", text: "\n\n" };
+    }
+  }
+}
@@ -0,0 +1,44 @@
+// Pick the model backend from LLM_PROVIDER so the edge functions can run
+// against Bedrock or fully offline:
+//   bedrock-agent (default)  the Bedrock supervisor agent
+//   bedrock-model            a foundation model via InvokeModel (BEDROCK_MODEL_ID)
+//   mock                     canned fixtures, optionally from LLM_MOCK_FIXTURES
+// Setting LLM_RECORD_FIXTURES to a file path records real responses for replay.
+import { BedrockAgentProvider } from "./bedrockAgent.ts";
+import { BedrockModelProvider } from "./bedrockModel.ts";
+import { loadFixtureFile, MockProvider, RecordingProvider } from "./mock.ts";
+import { DEFAULT_MOCK_FIXTURES } from "./mockFixtures.ts";
+import { LLMConfigurationError, type LLMProvider } from "./types.ts";
+
+export { collectResponse, LLMConfigurationError } from "./types.ts";
+export type { LLMEvent, LLMProvider, LLMRequest, LLMResponse, LLMTool } from "./types.ts";
+
+export const LLM_PROVIDERS = ["bedrock-agent", "bedrock-model", "mock"] as const;
+
+export async function createLLMProvider(name = Deno.env.get("LLM_PROVIDER") || "bedrock-agent"): Promise<LLMProvider> {
+  let provider: LLMProvider;
+  switch (name) {
+    case "bedrock-agent":
+      provider = new BedrockAgentProvider();
+      break;
+    case "bedrock-model":
+      provider = new BedrockModelProvider();
+      break;
+    case "mock": {
+      const fixturePath = Deno.env.get("LLM_MOCK_FIXTURES");
+      const fixtures = fixturePath ? await loadFixtureFile(fixturePath) : [];
+      // Recorded fixtures win, the defaults cover everything else
+      return new MockProvider(
+        [...fixtures, ...DEFAULT_MOCK_FIXTURES],
+        Number(Deno.env.get("LLM_MOCK_DELAY_MS")) || 0,
+      );
+    }
+    default:
+      throw new LLMConfigurationError(
+        `Unknown LLM_PROVIDER "${name}". Expected one of: ${LLM_PROVIDERS.join(", ")}`,
+      );
+  }
+
+  const recordPath = Deno.env.get("LLM_RECORD_FIXTURES");
+  return recordPath ? new RecordingProvider(provider, recordPath) : provider;
+}
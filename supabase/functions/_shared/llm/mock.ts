@@ -0,0 +1,90 @@
+// Scripted provider for offline development: answers come from fixtures
+// (recorded or hand written) instead of AWS, streamed in small chunks so the
+// chat behaves the same as with a real model.
+import type { BedrockTrace } from "../traces.ts";
+import { DEFAULT_MOCK_FIXTURES } from "./mockFixtures.ts";
+import { type LLMEvent, type LLMProvider, type LLMRequest } from "./types.ts";
+
+export interface MockFixture {
+  // Exact prompt from a recording; takes precedence over `match`
+  prompt?: string;
+  // Case-insensitive regular expression tested against the prompt
+  match?: string;
+  text: string;
+  traces?: BedrockTrace[];
+}
+
+const WORDS_PER_CHUNK = 4;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function findFixture(fixtures: MockFixture[], inputText: string): MockFixture | null {
+  return fixtures.find((f) => f.prompt !== undefined && f.prompt === inputText) ||
+    fixtures.find((f) => f.match !== undefined && new RegExp(f.match, "i").test(inputText)) ||
+    null;
+}
+
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+
+  constructor(
+    private fixtures: MockFixture[] = DEFAULT_MOCK_FIXTURES,
+    private chunkDelayMs = 0,
+  ) {}
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMEvent> {
+    const fixture = findFixture(this.fixtures, request.inputText) || {
+      text: `This is a mock response (no fixture matched). You asked: "${request.inputText.split("\n")[0].slice(0, 200)}"`,
+    };
+
+    for (const trace of fixture.traces || []) {
+      if (request.signal?.aborted) return;
+      yield { type: "trace", trace };
+      if (this.chunkDelayMs) await sleep(this.chunkDelayMs);
+    }
+
+    // Split on word boundaries, keeping the whitespace so chunks join back exactly
+    const words = fixture.text.split(/(?<=\s)/);
+    for (let i = 0; i < words.length; i += WORDS_PER_CHUNK) {
+      if (request.signal?.aborted) return;
+      yield { type: "chunk", text: words.slice(i, i + WORDS_PER_CHUNK).join("") };
+      if (this.chunkDelayMs) await sleep(this.chunkDelayMs);
+    }
+  }
+}
+
+export async function loadFixtureFile(path: string): Promise<MockFixture[]> {
+  try {
+    const parsed = JSON.parse(await Deno.readTextFile(path));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return [];
+    throw err;
+  }
+}
+
+/**
+ * Wrap a real provider and append every completed exchange to a fixture file,
+ * so a session against AWS can be replayed later with the mock provider.
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private inner: LLMProvider, private path: string) {
+    this.name = `${inner.name} (recording)`;
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMEvent> {
+    let text = "";
+    const traces: BedrockTrace[] = [];
+    for await (const event of this.inner.stream(request)) {
+      if (event.type === "chunk") text += event.text;
+      else traces.push(event.trace);
+      yield event;
+    }
+
+    const fixtures = await loadFixtureFile(this.path);
+    fixtures.push({ prompt: request.inputText, text, ...(traces.length > 0 ? { traces } : {}) });
+    await Deno.writeTextFile(this.path, JSON.stringify(fixtures, null, 2));
+  }
+}
@@ -0,0 +1,64 @@
+import type { MockFixture } from "./mock.ts";
+
+// Canned answers for offline development and demos. Fixtures are tried in
+// order, so keep the more specific patterns first.
+export const DEFAULT_MOCK_FIXTURES: MockFixture[] = [
+  {
+    match: "commentary for the business owner's dashboard",
+    text: [
+      "- The business is running at the profit margin shown above, so revenue currently covers operating costs.",
+      "- Cash on hand and the monthly burn rate give the runway shown on the dashboard; keep an eye on it if spending rises.",
+      "- Spending is concentrated in the top expense categories, which are the first place to look for savings.",
+      "- Outstanding invoices tie up cash, so following up on overdue customers will improve the cash position.",
+    ].join("\n"),
+  },
+  {
+    match: "cash|runway|burn",
+    traces: [
+      {
+        trace: {
+          orchestrationTrace: {
+            rationale: { text: "The user is asking about cash position. I will ask the cash flow collaborator for current balances and burn." },
+          },
+        },
+      },
+      {
+        trace: {
+          orchestrationTrace: {
+            invocationInput: {
+              agentCollaboratorInvocationInput: {
+                agentCollaboratorName: "fmo-cashflow-agent",
+                input: { text: "Summarise the current cash balance, monthly burn and runway." },
+              },
+            },
+          },
+        },
+      },
+      {
+        trace: {
+          orchestrationTrace: {
+            observation: {
+              agentCollaboratorInvocationOutput: {
+                agentCollaboratorName: "fmo-cashflow-agent",
+                output: { text: "Cash balance is healthy, burn has been stable for three months, runway is above twelve months." },
+              },
+            },
+          },
+        },
+      },
+    ],
+    text: "Your cash position is healthy. Monthly burn has been stable over the last quarter, which puts your runway above twelve months at the current rate.\n\nTo extend it further, review recurring software and contractor spend, and chase invoices that are more than 30 days overdue.",
+  },
+  {
+    match: "profit|margin|waterfall",
+    text: "Revenue of $120,000 turned into $27,000 of net profit last quarter, a 22.5% net margin. Cost of sales took a third of revenue and payroll most of the rest.\n\n```json\n{ \"version\": 1, \"requestType\": \"chart\", \"charts\": [{ \"type\": \"waterfall\", \"title\": \"Revenue to net profit\", \"data\": [{ \"step\": \"Revenue\", \"amount\": 120000 }, { \"step\": \"Cost of sales\", \"amount\": -40000 }, { \"step\": \"Gross profit\", \"isTotal\": true }, { \"step\": \"Payroll\", \"amount\": -42000 }, { \"step\": \"Rent\", \"amount\": -6000 }, { \"step\": \"Other\", \"amount\": -5000 }, { \"step\": \"Net profit\", \"isTotal\": true }], \"xAxis\": { \"key\": \"step\" }, \"series\": [{ \"key\": \"amount\", \"name\": \"Amount\" }], \"format\": { \"style\": \"currency\" } }] }\n```",
+  },
+  {
+    match: "expense|spend|cost|categor",
+    text: "Here is how your spending breaks down by category:\n\n| Category | Amount | Share |\n| --- | --- | --- |\n| Payroll | $42,000 | 56% |\n| Rent | $12,000 | 16% |\n| Software | $8,500 | 11% |\n| Marketing | $7,500 | 10% |\n| Other | $5,000 | 7% |\n\nPayroll is the largest cost. Software and marketing together account for about a fifth of spend and are the easiest to adjust.\n\n```json\n{ \"version\": 1, \"requestType\": \"expense\", \"graphData\": { \"expensesByCategory\": { \"Payroll\": 42000, \"Rent\": 12000, \"Software\": 8500, \"Marketing\": 7500, \"Other\": 5000 }, \"totalExpenses\": 75000 } }\n```",
+  },
+  {
+    match: "compliance|regulat|tax",
+    text: "I checked your records against the usual small-business obligations. Quarterly tax filings look up to date, but three expenses over $75 have no receipt attached. Upload receipts for those before the next filing deadline.",
+  },
+];
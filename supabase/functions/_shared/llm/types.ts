@@ -0,0 +1,87 @@
+import type { BedrockTrace } from "../traces.ts";
+
+export interface LLMRequest {
+  // Conversation id; providers without memory ignore it
+  sessionId: string;
+  inputText: string;
+  // Instructions for providers that take a system prompt (the agent has its own)
+  system?: string;
+  // Functions the model may call while answering; providers without tool use ignore them
+  tools?: LLMTool[];
+  signal?: AbortSignal;
+}
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  // JSON Schema of the input object
+  inputSchema: Record<string, unknown>;
+  // Throw to report a problem back to the model, e.g. invalid input
+  run(input: Record<string, unknown>): Promise<unknown>;
+}
+
+export type LLMEvent =
+  | { type: "chunk"; text: string }
+  | { type: "trace"; trace: BedrockTrace };
+
+export interface LLMProvider {
+  readonly name: string;
+  // Answer text arrives as chunks, reasoning steps (if the provider has any) as traces
+  stream(request: LLMRequest): AsyncIterable<LLMEvent>;
+}
+
+export interface LLMResponse {
+  text: string;
+  traces: BedrockTrace[];
+}
+
+// Thrown when the selected provider is missing secrets; callers can degrade gracefully
+export class LLMConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LLMConfigurationError";
+  }
+}
+
+// Buffer a whole response for callers that do not stream
+export async function collectResponse(provider: LLMProvider, request: LLMRequest): Promise<LLMResponse> {
+  let text = "";
+  const traces: BedrockTrace[] = [];
+  for await (const event of provider.stream(request)) {
+    if (event.type === "chunk") text += event.text;
+    else traces.push(event.trace);
+  }
+  return { text, traces };
+}
+
+// Run a tool call for a provider; failures go back to the model as text it can act on
+export async function runTool(
+  tools: LLMTool[],
+  name: string,
+  input: Record<string, unknown>,
+): Promise<{ output: string; isError: boolean }> {
+  const tool = tools.find((t) => t.name === name);
+  if (!tool) return { output: `Unknown tool "${name}"`, isError: true };
+  try {
+    return { output: JSON.stringify(await tool.run(input)), isError: false };
+  } catch (err) {
+    console.error(`Tool ${name} failed:`, err);
+    return { output: err instanceof Error ? err.message : String(err), isError: true };
+  }
+}
+
+export function requireEnv(provider: string, names: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const name of names) {
+    const value = Deno.env.get(name);
+    if (value) values[name] = value;
+    else missing.push(name);
+  }
+  if (missing.length > 0) {
+    throw new LLMConfigurationError(
+      `Missing configuration for the ${provider} provider. Please set ${missing.join(", ")} as Supabase secrets.`,
+    );
+  }
+  return values;
+}
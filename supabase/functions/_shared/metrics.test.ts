@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { billOutstanding, buildDashboardData, cashBalance, invoiceOutstanding, type LedgerRows } from "./metrics.ts";
+
+const TODAY = "2025-03-31";
+
+// One bank account and one card, three months of activity, open and settled
+// invoices and bills
+const ledger: LedgerRows = {
+  accounts: [
+    { id: "bank", type: "asset", subtype: "bank", opening_balance: 1000 },
+    { id: "card", type: "liability", subtype: "credit_card", opening_balance: 0 },
+  ],
+  vendors: [
+    { id: "acme", name: "Acme" },
+    { id: "globex", name: "Globex" },
+  ],
+  customers: [{ id: "initech", name: "Initech" }],
+  invoices: [
+    { id: "i1", due_date: "2025-02-01", total: 2000, amount_paid: 500, status: "sent" },
+    { id: "i2", due_date: "2025-04-30", total: 800, amount_paid: 0, status: "sent" },
+    { id: "i3", due_date: "2025-01-31", total: 100, amount_paid: 100, status: "paid" },
+  ],
+  bills: [
+    { id: "b1", due_date: "2025-03-01", total: 600, amount_paid: 100, discount_taken: 0, status: "open" },
+    { id: "b2", due_date: "2025-03-01", total: 300, amount_paid: 0, discount_taken: 0, status: "void" },
+  ],
+  statements: [],
+  transactions: [
+    { id: "t1", date: "2025-01-05", amount: 3000, type: "income", category: "Sales", account_id: "bank", vendor_id: null, customer_id: "initech" },
+    { id: "t2", date: "2025-01-10", amount: 500, type: "expense", category: "Rent", account_id: "bank", vendor_id: "acme", customer_id: null },
+    { id: "t3", date: "2025-02-03", amount: 250, type: "expense", category: "Software", account_id: "bank", vendor_id: "globex", customer_id: null },
+    { id: "t4", date: "2025-02-20", amount: 250, type: "expense", category: "Rent", account_id: "bank", vendor_id: "acme", customer_id: null },
+    { id: "t5", date: "2025-03-01", amount: 1000, type: "income", category: "Sales", account_id: "bank", vendor_id: null, customer_id: null },
+    // Transfers move cash between accounts and are not income or spend
+    { id: "t6", date: "2025-03-15", amount: 400, type: "transfer", category: null, account_id: "bank", vendor_id: null, customer_id: null },
+  ],
+};
+
+describe("buildDashboardData", () => {
+  const data = buildDashboardData(ledger, TODAY);
+
+  it("computes the headline metrics", () => {
+    expect(data.metrics).toEqual({
+      cashOnHand: 4000,
+      monthlyBurnRate: 333.33,
+      overdueInvoices: 1500,
+      revenue: 4000,
+      expenses: 1000,
+      profit: 3000,
+      accountsReceivable: 2300,
+      accountsPayable: 500,
+    });
+  });
+
+  it("computes the transaction statistics, leaving transfers out", () => {
+    expect(data.statistics).toEqual({
+      totalTransactions: 5,
+      transactionCount: 5,
+      averageTransactionSize: 1000,
+      largestTransaction: 3000,
+      invoiceCount: 3,
+      expenseCount: 3,
+    });
+    expect(data.timeRange).toEqual({ start: "2025-01-05", end: "2025-03-01" });
+  });
+
+  it("ranks vendors, customers and categories by amount", () => {
+    expect(data.topEntities).toEqual({
+      topVendors: [
+        { name: "Acme", amount: 750, percentage: 75 },
+        { name: "Globex", amount: 250, percentage: 25 },
+      ],
+      // Income without a customer counts towards the total but is not ranked
+      topCustomers: [{ name: "Initech", amount: 3000, percentage: 75 }],
+      topCategories: [
+        { name: "Rent", amount: 750, percentage: 75 },
+        { name: "Software", amount: 250, percentage: 25 },
+      ],
+    });
+    expect(data.availableCategories).toEqual(["Rent", "Software"]);
+  });
+
+  it("computes the financial health ratios", () => {
+    const health = data.financialHealth!;
+    expect(health.profitMargin).toBe(75);
+    expect(health.expenseRatio).toBe(25);
+    expect(health.cashRunway).toBeCloseTo(4000 / 333.33, 6);
+    expect(health.arTurnover).toBeCloseTo(4000 / 2300, 6);
+  });
+
+  it("totals each month", () => {
+    expect(data.monthlyData).toEqual([
+      { month: "2025-01", income: 3000, expenses: 500, net: 2500, cashFlow: 2500 },
+      { month: "2025-02", income: 0, expenses: 500, net: -500, cashFlow: -500 },
+      { month: "2025-03", income: 1000, expenses: 0, net: 1000, cashFlow: 1000 },
+    ]);
+    expect(data.yearlyData).toEqual([{ year: "2025", income: 4000, expenses: 1000, net: 3000, cashFlow: 3000 }]);
+  });
+
+  it("limits flows to the period and takes cash at its end", () => {
+    const february = buildDashboardData(ledger, TODAY, { start: "2025-02-01", end: "2025-02-28" });
+    expect(february.metrics.revenue).toBeNull();
+    expect(february.metrics.expenses).toBe(500);
+    expect(february.metrics.profit).toBe(-500);
+    expect(february.metrics.monthlyBurnRate).toBe(500);
+    expect(february.metrics.cashOnHand).toBe(3000);
+    expect(february.financialHealth?.profitMargin).toBeNull();
+  });
+
+  it("handles ledgers too long to spread into Math.max", () => {
+    const transactions = Array.from({ length: 200_000 }, (_, i) => ({
+      ...ledger.transactions[0],
+      id: `bulk-${i}`,
+      amount: i + 1,
+    }));
+    const bulk = buildDashboardData({ ...ledger, transactions }, TODAY);
+    expect(bulk.statistics.largestTransaction).toBe(200_000);
+  });
+
+  it("returns null for metrics the ledger cannot support", () => {
+    const empty = buildDashboardData(
+      { accounts: [], vendors: [], customers: [], invoices: [], bills: [], statements: [], transactions: [] },
+      TODAY
+    );
+    expect(empty.metrics).toEqual({
+      cashOnHand: null,
+      monthlyBurnRate: null,
+      overdueInvoices: null,
+      revenue: null,
+      expenses: null,
+      profit: null,
+      accountsReceivable: null,
+      accountsPayable: null,
+    });
+    expect(empty.timeRange).toBeNull();
+    expect(empty.dataTypes).toEqual([]);
+  });
+});
+
+describe("cashBalance", () => {
+  it("starts from the latest statement's closing balance", () => {
+    const statements = [
+      { account_id: "bank", period_end: "2024-12-31", closing_balance: 900 },
+      { account_id: "bank", period_end: "2025-01-31", closing_balance: 3600 },
+    ];
+    // Only February and March activity comes after the statement: -250 - 250 + 1000
+    expect(cashBalance(ledger.accounts, ledger.transactions, statements)).toBe(4100);
+  });
+
+  it("is null without a cash account", () => {
+    expect(cashBalance([ledger.accounts[1]], ledger.transactions)).toBeNull();
+  });
+});
+
+describe("outstanding balances", () => {
+  it("leaves out drafts, paid and void documents", () => {
+    expect(invoiceOutstanding({ id: "d", due_date: TODAY, total: 500, amount_paid: 0, status: "draft" })).toBe(0);
+    expect(invoiceOutstanding(ledger.invoices[0])).toBe(1500);
+    expect(billOutstanding(ledger.bills[1])).toBe(0);
+  });
+
+  it("takes an early-payment discount off what is owed", () => {
+    expect(billOutstanding({ id: "b", due_date: TODAY, total: 1000, amount_paid: 490, discount_taken: 10, status: "partially_paid" })).toBe(500);
+  });
+});
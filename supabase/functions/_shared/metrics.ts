@@ -0,0 +1,333 @@
+// Deterministic dashboard metrics computed from ledger rows.
+// Shared by the dashboard-metrics edge function and the web app (via the
+// `@shared` alias), so it must stay free of Deno and browser specific imports.
+
+// Only the ledger columns the metrics need; full table rows satisfy these
+export interface LedgerAccount {
+  id: string;
+  type: string;
+  subtype: string | null;
+  opening_balance: number;
+}
+
+export interface LedgerTransaction {
+  id: string;
+  date: string;
+  amount: number;
+  type: string;
+  category: string | null;
+  account_id: string | null;
+  vendor_id: string | null;
+  customer_id: string | null;
+}
+
+export interface LedgerInvoice {
+  id: string;
+  due_date: string;
+  total: number;
+  amount_paid: number;
+  status: string;
+}
+
+export interface LedgerBill {
+  id: string;
+  due_date: string;
+  total: number;
+  amount_paid: number;
+  // Early-payment discount taken when the bill was settled
+  discount_taken: number;
+  status: string;
+}
+
+// The bank's own balance for an account at the end of an imported statement
+export interface LedgerStatement {
+  account_id: string;
+  period_end: string;
+  closing_balance: number | null;
+}
+
+export interface LedgerRows {
+  accounts: LedgerAccount[];
+  vendors: { id: string; name: string }[];
+  customers: { id: string; name: string }[];
+  invoices: LedgerInvoice[];
+  bills: LedgerBill[];
+  statements: LedgerStatement[];
+  transactions: LedgerTransaction[];
+}
+
+export interface DashboardMetrics {
+  cashOnHand: number | null;
+  monthlyBurnRate: number | null;
+  overdueInvoices: number | null;
+  revenue: number | null;
+  expenses: number | null;
+  profit: number | null;
+  accountsReceivable: number | null;
+  accountsPayable: number | null;
+}
+
+export interface Statistics {
+  totalTransactions?: number | null;
+  averageTransactionSize?: number | null;
+  largestTransaction?: number | null;
+  transactionCount?: number | null;
+  invoiceCount?: number | null;
+  expenseCount?: number | null;
+}
+
+export interface TopEntity {
+  name: string;
+  amount: number;
+  percentage?: number;
+}
+
+export interface TopEntities {
+  topVendors?: TopEntity[];
+  topCustomers?: TopEntity[];
+  topCategories?: TopEntity[];
+}
+
+export interface FinancialHealth {
+  profitMargin?: number | null;
+  expenseRatio?: number | null;
+  cashRunway?: number | null;
+  arTurnover?: number | null;
+}
+
+export interface PeriodTotals {
+  income: number;
+  expenses: number;
+  net: number;
+  cashFlow?: number;
+}
+
+export interface DashboardData {
+  metrics: DashboardMetrics;
+  statistics?: Statistics;
+  topEntities?: TopEntities;
+  financialHealth?: FinancialHealth;
+  dataTypes: string[];
+  availableCategories: string[];
+  timeRange: { start: string; end: string } | null;
+  monthlyData?: Array<PeriodTotals & { month: string }>;
+  yearlyData?: Array<PeriodTotals & { year: string }>;
+  categoryBreakdown?: Array<{
+    category: string;
+    amount: number;
+    percentage: number;
+  }>;
+}
+
+const TOP_ENTITY_LIMIT = 5;
+const UNCATEGORIZED = "Uncategorized";
+
+// Account subtypes whose balances count as cash on hand
+export const CASH_ACCOUNT_SUBTYPES = ["bank", "cash"];
+
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const sum = (values: number[]) => round2(values.reduce((total, value) => total + value, 0));
+
+const toAmount = (value: number | string | null | undefined) => Number(value) || 0;
+
+export function isCashAccount(account: LedgerAccount): boolean {
+  return account.type === "asset" && CASH_ACCOUNT_SUBTYPES.includes(account.subtype || "");
+}
+
+export function invoiceOutstanding(invoice: LedgerInvoice): number {
+  if (invoice.status === "paid" || invoice.status === "void" || invoice.status === "draft") return 0;
+  return Math.max(0, round2(toAmount(invoice.total) - toAmount(invoice.amount_paid)));
+}
+
+export function billOutstanding(bill: LedgerBill): number {
+  if (bill.status === "paid" || bill.status === "void") return 0;
+  return Math.max(0, round2(toAmount(bill.total) - toAmount(bill.amount_paid) - toAmount(bill.discount_taken)));
+}
+
+/**
+ * Cash across cash accounts. An account with an imported bank statement
+ * starts from the latest statement's closing balance and adds only the income
+ * and expenses after it; other accounts start from their opening balance.
+ * Rows without an account are assumed to be cash and, once any statement is
+ * in, assumed to be on it unless dated after the latest one. Null when there
+ * are no cash accounts. Pass only rows and statements up to the balance date.
+ */
+export function cashBalance(
+  accounts: LedgerAccount[],
+  transactions: Pick<LedgerTransaction, "date" | "amount" | "type" | "account_id">[],
+  statements: LedgerStatement[] = []
+): number | null {
+  const cashAccounts = accounts.filter(isCashAccount);
+  if (cashAccounts.length === 0) return null;
+  const cashAccountIds = new Set(cashAccounts.map((a) => a.id));
+
+  const latest = new Map<string, LedgerStatement>();
+  for (const statement of statements) {
+    if (statement.closing_balance === null || !cashAccountIds.has(statement.account_id)) continue;
+    const current = latest.get(statement.account_id);
+    if (!current || statement.period_end > current.period_end) latest.set(statement.account_id, statement);
+  }
+  const lastStatementEnd = Array.from(latest.values()).reduce((max, s) => (s.period_end > max ? s.period_end : max), "");
+  const reconciledThrough = (accountId: string | null) =>
+    accountId ? latest.get(accountId)?.period_end || "" : lastStatementEnd;
+
+  return round2(
+    sum(cashAccounts.map((a) => toAmount(latest.has(a.id) ? latest.get(a.id).closing_balance : a.opening_balance))) +
+      sum(transactions
+        .filter((t) => (t.type === "income" || t.type === "expense") && (!t.account_id || cashAccountIds.has(t.account_id)))
+        .filter((t) => t.date > reconciledThrough(t.account_id))
+        .map((t) => (t.type === "income" ? toAmount(t.amount) : -toAmount(t.amount))))
+  );
+}
+
+// Number of calendar months spanned by two YYYY-MM-DD dates, inclusive
+function monthsBetween(start: string, end: string): number {
+  const [startYear, startMonth] = start.split("-").map(Number);
+  const [endYear, endMonth] = end.split("-").map(Number);
+  return (endYear - startYear) * 12 + (endMonth - startMonth) + 1;
+}
+
+function groupTotals(transactions: LedgerTransaction[], keyOf: (t: LedgerTransaction) => string) {
+  const groups = new Map<string, { income: number; expenses: number }>();
+  for (const t of transactions) {
+    const key = keyOf(t);
+    const group = groups.get(key) || { income: 0, expenses: 0 };
+    if (t.type === "income") group.income += toAmount(t.amount);
+    if (t.type === "expense") group.expenses += toAmount(t.amount);
+    groups.set(key, group);
+  }
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]) => {
+      const net = round2(group.income - group.expenses);
+      return { key, income: round2(group.income), expenses: round2(group.expenses), net, cashFlow: net };
+    });
+}
+
+function rankEntities(
+  transactions: LedgerTransaction[],
+  nameOf: (t: LedgerTransaction) => string | null,
+  total: number
+): TopEntity[] {
+  const totals = new Map<string, number>();
+  for (const t of transactions) {
+    const name = nameOf(t);
+    if (!name) continue;
+    totals.set(name, (totals.get(name) || 0) + toAmount(t.amount));
+  }
+  return Array.from(totals.entries())
+    .sort(([, a], [, b]) => b - a)
+    .map(([name, amount]) => ({
+      name,
+      amount: round2(amount),
+      percentage: total > 0 ? (amount / total) * 100 : undefined,
+    }));
+}
+
+export interface DashboardPeriod {
+  start?: string; // YYYY-MM-DD, inclusive
+  end?: string; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * Build the dashboard view model from ledger rows.
+ * Metrics that the ledger cannot support (e.g. no cash accounts or no invoices)
+ * are returned as null so the dashboard hides them instead of guessing.
+ * Flow figures cover `period`; cash on hand is the balance at the end of it,
+ * so the ledger should include every transaction up to `period.end`.
+ */
+export function buildDashboardData(
+  ledger: LedgerRows,
+  today: string = new Date().toISOString().slice(0, 10),
+  period: DashboardPeriod = {}
+): DashboardData {
+  const { accounts, vendors, customers, invoices, bills, statements } = ledger;
+  const settled = ledger.transactions.filter(
+    (t) => (t.type === "income" || t.type === "expense") && (!period.end || t.date <= period.end)
+  );
+  const transactions = settled.filter((t) => !period.start || t.date >= period.start);
+  const income = transactions.filter((t) => t.type === "income");
+  const expenseRows = transactions.filter((t) => t.type === "expense");
+
+  const revenue = sum(income.map((t) => toAmount(t.amount)));
+  const expenses = sum(expenseRows.map((t) => toAmount(t.amount)));
+  const profit = round2(revenue - expenses);
+
+  const dates = transactions.map((t) => t.date).sort();
+  const timeRange = dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null;
+  const monthCount = timeRange ? monthsBetween(timeRange.start, timeRange.end) : 0;
+
+  const cashOnHand = cashBalance(
+    accounts,
+    settled,
+    statements.filter((s) => !period.end || s.period_end <= period.end)
+  );
+
+  const monthlyBurnRate = monthCount > 0 && expenseRows.length > 0 ? round2(expenses / monthCount) : null;
+
+  const openInvoices = invoices.filter((i) => invoiceOutstanding(i) > 0);
+  const accountsReceivable = invoices.length > 0 ? sum(openInvoices.map(invoiceOutstanding)) : null;
+  const overdueInvoices = invoices.length > 0
+    ? sum(openInvoices.filter((i) => i.due_date < today).map(invoiceOutstanding))
+    : null;
+
+  const accountsPayable = bills.length > 0 ? sum(bills.map(billOutstanding)) : null;
+
+  const vendorNames = new Map(vendors.map((v) => [v.id, v.name]));
+  const customerNames = new Map(customers.map((c) => [c.id, c.name]));
+  const categoryRanking = rankEntities(expenseRows, (t) => t.category || UNCATEGORIZED, expenses);
+
+  const amounts = transactions.map((t) => toAmount(t.amount));
+
+  const dataTypes: string[] = [];
+  if (income.length > 0) dataTypes.push("Income");
+  if (expenseRows.length > 0) dataTypes.push("Expenses");
+  if (transactions.length > 0) dataTypes.push("Transactions");
+  if (invoices.length > 0) dataTypes.push("Invoices");
+  if (bills.length > 0) dataTypes.push("Bills");
+
+  return {
+    metrics: {
+      cashOnHand,
+      monthlyBurnRate,
+      overdueInvoices,
+      revenue: income.length > 0 ? revenue : null,
+      expenses: expenseRows.length > 0 ? expenses : null,
+      profit: transactions.length > 0 ? profit : null,
+      accountsReceivable,
+      accountsPayable,
+    },
+    statistics: {
+      totalTransactions: transactions.length,
+      transactionCount: transactions.length,
+      averageTransactionSize: amounts.length > 0 ? round2(sum(amounts) / amounts.length) : null,
+      largestTransaction: amounts.length > 0 ? amounts.reduce((a, b) => Math.max(a, b)) : null,
+      invoiceCount: invoices.length,
+      expenseCount: expenseRows.length,
+    },
+    topEntities: {
+      topVendors: rankEntities(expenseRows, (t) => (t.vendor_id ? vendorNames.get(t.vendor_id) || null : null), expenses)
+        .slice(0, TOP_ENTITY_LIMIT),
+      topCustomers: rankEntities(income, (t) => (t.customer_id ? customerNames.get(t.customer_id) || null : null), revenue)
+        .slice(0, TOP_ENTITY_LIMIT),
+      topCategories: categoryRanking.slice(0, TOP_ENTITY_LIMIT),
+    },
+    financialHealth: {
+      profitMargin: revenue > 0 ? (profit / revenue) * 100 : null,
+      expenseRatio: revenue > 0 ? (expenses / revenue) * 100 : null,
+      cashRunway: cashOnHand !== null && monthlyBurnRate ? cashOnHand / monthlyBurnRate : null,
+      arTurnover: accountsReceivable ? revenue / accountsReceivable : null,
+    },
+    dataTypes,
+    availableCategories: categoryRanking.map((c) => c.name),
+    timeRange,
+    monthlyData: groupTotals(transactions, (t) => t.date.slice(0, 7)).map(({ key, ...totals }) => ({ month: key, ...totals })),
+    yearlyData: groupTotals(transactions, (t) => t.date.slice(0, 4)).map(({ key, ...totals }) => ({ year: key, ...totals })),
+    categoryBreakdown: categoryRanking.map((c) => ({
+      category: c.name,
+      amount: c.amount,
+      percentage: c.percentage ?? 0,
+    })),
+  };
+}
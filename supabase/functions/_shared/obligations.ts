@@ -0,0 +1,267 @@
+// The regulation calendar: deadlines computed from each obligation's
+// schedule, joined to the filings that record work on them. Deadlines
+// without a filing are pending; past ones are overdue until completed or
+// marked not required. Pure like metrics.ts.
+import { addDays, daysOverdue } from "./aging.ts";
+
+export const OBLIGATION_FREQUENCIES = ["monthly", "quarterly", "semiannual", "annual", "once"] as const;
+
+export type ObligationFrequency = (typeof OBLIGATION_FREQUENCIES)[number];
+
+export const OBLIGATION_FREQUENCY_LABELS: Record<ObligationFrequency, string> = {
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  semiannual: "Every six months",
+  annual: "Annually",
+  once: "Once",
+};
+
+const FREQUENCY_MONTHS: Record<ObligationFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  semiannual: 6,
+  annual: 12,
+  once: 0,
+};
+
+export type FilingStatus = "in_progress" | "completed" | "not_required";
+
+export interface Obligation {
+  id: string;
+  name: string;
+  reference: string | null;
+  authority: string | null;
+  description: string | null;
+  frequency: ObligationFrequency;
+  first_due_date: string;
+  end_date: string | null;
+  reminder_days: number;
+  assignee: string | null;
+  checklist: string[];
+  is_active: boolean;
+}
+
+export interface ObligationFiling {
+  id: string;
+  obligation_id: string;
+  due_date: string;
+  status: FilingStatus;
+  assignee: string | null;
+  completed_steps: string[];
+  notes: string | null;
+  completed_at: string | null;
+  completed_by: string | null;
+}
+
+export const DEADLINE_STATUSES = ["overdue", "due_soon", "upcoming", "in_progress", "completed", "not_required"] as const;
+
+export type DeadlineStatus = (typeof DEADLINE_STATUSES)[number];
+
+export const DEADLINE_STATUS_LABELS: Record<DeadlineStatus, string> = {
+  overdue: "Overdue",
+  due_soon: "Due soon",
+  upcoming: "Upcoming",
+  in_progress: "In progress",
+  completed: "Completed",
+  not_required: "Not required",
+};
+
+export interface Deadline {
+  // Obligation id and due date; stable, so it can name a filing before one exists
+  key: string;
+  obligation: Obligation;
+  dueDate: string;
+  // Negative once the deadline has passed
+  daysUntil: number;
+  status: DeadlineStatus;
+  filing: ObligationFiling | null;
+  assignee: string | null;
+  stepsDone: number;
+  stepsTotal: number;
+}
+
+export interface DeadlineOptions {
+  start: string;
+  end: string;
+  asOf: string;
+}
+
+// Deadlines still open this far back are reported as overdue
+export const OVERDUE_LOOKBACK_DAYS = 365;
+
+// Common recurring obligations, offered as starting points
+export const OBLIGATION_TEMPLATES: {
+  name: string;
+  reference: string;
+  authority: string;
+  frequency: ObligationFrequency;
+  checklist: string[];
+}[] = [
+  {
+    name: "Sales tax return",
+    reference: "Sales & use tax",
+    authority: "State Dept. of Revenue",
+    frequency: "monthly",
+    checklist: ["Reconcile taxable sales", "Prepare return", "Review and file", "Pay tax due"],
+  },
+  {
+    name: "Quarterly payroll tax return",
+    reference: "Form 941",
+    authority: "IRS",
+    frequency: "quarterly",
+    checklist: ["Reconcile payroll register", "Prepare Form 941", "Review and file", "Confirm deposits"],
+  },
+  {
+    name: "Annual payroll reconciliation",
+    reference: "Form W-2 / W-3",
+    authority: "SSA",
+    frequency: "annual",
+    checklist: ["Verify employee details", "Issue W-2s", "File W-3"],
+  },
+  {
+    name: "Contractor information returns",
+    reference: "Form 1099-NEC",
+    authority: "IRS",
+    frequency: "annual",
+    checklist: ["Collect missing W-9s", "Issue 1099s", "File with the IRS"],
+  },
+  {
+    name: "Annual corporate tax return",
+    reference: "Form 1120",
+    authority: "IRS",
+    frequency: "annual",
+    checklist: ["Close the books", "Prepare return", "Partner review", "File and pay"],
+  },
+  {
+    name: "Annual report",
+    reference: "Annual report",
+    authority: "Secretary of State",
+    frequency: "annual",
+    checklist: ["Confirm officers and address", "File report", "Pay fee"],
+  },
+];
+
+// The anchor date moved by whole months, clamped to the end of shorter months
+function addMonthsToDate(date: string, count: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const index = year * 12 + (month - 1) + count;
+  const targetYear = Math.floor(index / 12);
+  const targetMonth = (index % 12) + 1;
+  const lastDay = new Date(Date.UTC(targetYear, targetMonth, 0)).getUTCDate();
+  return `${targetYear}-${String(targetMonth).padStart(2, "0")}-${String(Math.min(day, lastDay)).padStart(2, "0")}`;
+}
+
+/** The obligation's due dates from `start` to `end`, inclusive. */
+export function dueDatesBetween(
+  obligation: Pick<Obligation, "frequency" | "first_due_date" | "end_date">,
+  start: string,
+  end: string,
+): string[] {
+  const last = obligation.end_date && obligation.end_date < end ? obligation.end_date : end;
+  const step = FREQUENCY_MONTHS[obligation.frequency];
+  if (step === 0) {
+    const due = obligation.first_due_date;
+    return due >= start && due <= last ? [due] : [];
+  }
+  const dates: string[] = [];
+  // Step from the anchor each time so a 31st stays the 31st where it exists
+  for (let k = 0; ; k++) {
+    const due = addMonthsToDate(obligation.first_due_date, k * step);
+    if (due > last) break;
+    if (due >= start) dates.push(due);
+  }
+  return dates;
+}
+
+/** The next deadline on or after `asOf`, or null when the schedule has ended. */
+export function nextDueDate(
+  obligation: Pick<Obligation, "frequency" | "first_due_date" | "end_date">,
+  asOf: string,
+): string | null {
+  const step = FREQUENCY_MONTHS[obligation.frequency];
+  // One full cycle ahead always contains the next deadline, if there is one
+  const horizon = step === 0 ? obligation.first_due_date : addMonthsToDate(asOf, step);
+  return dueDatesBetween(obligation, asOf, horizon > asOf ? horizon : asOf)[0] ?? null;
+}
+
+function deadlineStatus(filing: ObligationFiling | null, daysUntil: number, reminderDays: number): DeadlineStatus {
+  if (filing?.status === "completed") return "completed";
+  if (filing?.status === "not_required") return "not_required";
+  if (daysUntil < 0) return "overdue";
+  if (filing?.status === "in_progress") return "in_progress";
+  return daysUntil <= reminderDays ? "due_soon" : "upcoming";
+}
+
+/**
+ * Deadlines of the active obligations due from `start` to `end`, plus any
+ * earlier ones (within OVERDUE_LOOKBACK_DAYS) that are still open, by date.
+ */
+export function buildDeadlines(obligations: Obligation[], filings: ObligationFiling[], options: DeadlineOptions): Deadline[] {
+  const filingsByKey = new Map(filings.map((f) => [`${f.obligation_id}:${f.due_date}`, f]));
+  const lookback = addDays(options.asOf, -OVERDUE_LOOKBACK_DAYS);
+  const deadlines: Deadline[] = [];
+
+  for (const obligation of obligations) {
+    if (!obligation.is_active) continue;
+    const from = lookback < options.start ? lookback : options.start;
+    for (const dueDate of dueDatesBetween(obligation, from, options.end)) {
+      const key = `${obligation.id}:${dueDate}`;
+      const filing = filingsByKey.get(key) ?? null;
+      const daysUntil = -daysOverdue(dueDate, options.asOf);
+      const status = deadlineStatus(filing, daysUntil, obligation.reminder_days);
+      if (dueDate < options.start && status !== "overdue") continue;
+      const steps = new Set(filing?.completed_steps || []);
+      deadlines.push({
+        key,
+        obligation,
+        dueDate,
+        daysUntil,
+        status,
+        filing,
+        assignee: filing?.assignee || obligation.assignee,
+        stepsDone: obligation.checklist.filter((step) => steps.has(step)).length,
+        stepsTotal: obligation.checklist.length,
+      });
+    }
+  }
+
+  return deadlines.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.obligation.name.localeCompare(b.obligation.name));
+}
+
+/** Completed, in progress and pending counts, as the chat's status pie shows them. */
+export function deadlineBreakdown(deadlines: Deadline[]) {
+  return {
+    completed: deadlines.filter((d) => d.status === "completed" || d.status === "not_required").length,
+    inProgress: deadlines.filter((d) => d.status === "in_progress").length,
+    pending: deadlines.filter((d) => d.status === "overdue" || d.status === "due_soon" || d.status === "upcoming").length,
+  };
+}
+
+/**
+ * Checklist and regulation rows for the chat's compliance report
+ * (src/lib/agentOutput.ts), built from the calendar rather than prose.
+ */
+export function deadlineGraphData(deadlines: Deadline[]) {
+  const regulations = new Map<string, { id: string; name: string; description: string }>();
+  for (const d of deadlines) {
+    const o = d.obligation;
+    regulations.set(o.id, {
+      id: o.reference || o.name,
+      name: o.name,
+      description:
+        o.description ||
+        `${OBLIGATION_FREQUENCY_LABELS[o.frequency]}${o.authority ? `, filed with ${o.authority}` : ""}`,
+    });
+  }
+  return {
+    checklists: deadlines.map((d) => ({
+      id: d.obligation.reference || d.obligation.name,
+      name: d.obligation.name,
+      status: DEADLINE_STATUS_LABELS[d.status],
+      dueDate: d.dueDate,
+      assignee: d.assignee,
+    })),
+    regulations: Array.from(regulations.values()),
+    statusBreakdown: deadlineBreakdown(deadlines),
+  };
+}
@@ -0,0 +1,220 @@
+// Accounts payable figures from bill rows: the aging report, days payable
+// outstanding, which bills to pay this week and the payments the cash
+// forecast should expect. Pure like metrics.ts.
+import { billOutstanding, round2, type LedgerBill } from "./metrics.ts";
+import {
+  addDays,
+  ageOpenItems,
+  daysOverdue,
+  periodStart,
+  turnoverDays,
+  type AgingReport,
+} from "./aging.ts";
+import type { ScheduledPayment } from "./forecast.ts";
+
+export interface PayableBill extends LedgerBill {
+  bill_number: string;
+  vendor_id: string | null;
+  issue_date: string;
+  terms_days: number;
+  discount_percent: number;
+  discount_days: number | null;
+  approval_status: string;
+  scheduled_date: string | null;
+}
+
+// Window of purchases DPO is measured over
+export const DPO_PERIOD_DAYS = 90;
+
+// Days ahead the payment plan looks for bills falling due
+export const PAYMENT_WINDOW_DAYS = 7;
+
+export const NO_VENDOR = "No vendor";
+
+export function buildPayablesAging(
+  bills: PayableBill[],
+  vendors: { id: string; name: string }[],
+  asOf: string
+): AgingReport {
+  const items = bills.map((bill) => ({
+    id: bill.id,
+    partyId: bill.vendor_id,
+    issueDate: bill.issue_date,
+    dueDate: bill.due_date,
+    outstanding: billOutstanding(bill),
+  }));
+  return ageOpenItems(items, vendors, asOf, NO_VENDOR);
+}
+
+/**
+ * Days payable outstanding: payables on `asOf` over bills received in the
+ * preceding `periodDays`, times `periodDays`. Null without any bills in the
+ * window.
+ */
+export function daysPayableOutstanding(
+  bills: PayableBill[],
+  asOf: string,
+  periodDays = DPO_PERIOD_DAYS
+): number | null {
+  const from = periodStart(asOf, periodDays);
+  const purchases = bills
+    .filter((b) => b.status !== "void" && b.issue_date >= from && b.issue_date <= asOf)
+    .reduce((total, b) => total + (Number(b.total) || 0), 0);
+  const payables = bills
+    .filter((b) => b.issue_date <= asOf)
+    .reduce((total, b) => total + billOutstanding(b), 0);
+  return turnoverDays(payables, purchases, periodDays);
+}
+
+export interface EarlyPaymentDiscount {
+  amount: number;
+  // Last day the discount can be taken
+  deadline: string;
+  // Annualised return from paying early instead of on the due date
+  annualRate: number;
+}
+
+// The discount still on offer on `asOf`; it needs the whole bill paid at once
+export function earlyPaymentDiscount(bill: PayableBill, asOf: string): EarlyPaymentDiscount | null {
+  const percent = Number(bill.discount_percent) || 0;
+  if (percent <= 0 || bill.discount_days === null || bill.discount_days === undefined) return null;
+  if (Number(bill.amount_paid) > 0 || billOutstanding(bill) <= 0) return null;
+  const deadline = addDays(bill.issue_date, bill.discount_days);
+  if (deadline < asOf) return null;
+  // Days the payment is brought forward: from the discount deadline to the due date
+  const daysEarly = Math.max(1, daysOverdue(deadline, bill.due_date));
+  return {
+    amount: round2((Number(bill.total) * percent) / 100),
+    deadline,
+    annualRate: (percent / (100 - percent)) * (365 / daysEarly),
+  };
+}
+
+export type PaymentReason = "overdue" | "due" | "discount";
+
+export const PAYMENT_REASON_LABELS: Record<PaymentReason, string> = {
+  overdue: "Overdue",
+  due: "Due this week",
+  discount: "Early-payment discount",
+};
+
+export interface PaymentSuggestion {
+  billId: string;
+  reason: PaymentReason;
+  // What to pay, net of any discount taken
+  amount: number;
+  discount: number;
+  payBy: string;
+}
+
+export interface PaymentPlan {
+  asOf: string;
+  windowEnd: string;
+  // Cash on hand less the reserve; null when cash on hand is unknown
+  cashAvailable: number | null;
+  suggestions: PaymentSuggestion[];
+  // Bills that qualify but do not fit in the cash available
+  deferred: PaymentSuggestion[];
+  total: number;
+  savings: number;
+}
+
+const REASON_ORDER: Record<PaymentReason, number> = { overdue: 0, due: 1, discount: 2 };
+
+/**
+ * Which approved bills to pay in the next `PAYMENT_WINDOW_DAYS`: overdue bills
+ * first (oldest first), then bills falling due (soonest first), then bills
+ * whose early-payment discount would lapse (best annual return first). Each is
+ * taken while it fits in cash on hand above `reserve`; without a known cash
+ * balance every candidate is suggested.
+ */
+export function suggestBillPayments(
+  bills: PayableBill[],
+  options: { asOf: string; cashOnHand: number | null; reserve?: number }
+): PaymentPlan {
+  const { asOf, cashOnHand } = options;
+  const windowEnd = addDays(asOf, PAYMENT_WINDOW_DAYS - 1);
+
+  // Lower ranks come first within a reason
+  const candidates: { suggestion: PaymentSuggestion; rank: number }[] = [];
+  for (const bill of bills) {
+    const outstanding = billOutstanding(bill);
+    if (outstanding <= 0 || bill.approval_status !== "approved") continue;
+    const discount = earlyPaymentDiscount(bill, asOf);
+    if (bill.due_date < asOf) {
+      candidates.push({
+        suggestion: { billId: bill.id, reason: "overdue", amount: outstanding, discount: 0, payBy: asOf },
+        rank: -daysOverdue(bill.due_date, asOf),
+      });
+    } else if (discount && discount.deadline <= windowEnd) {
+      // Paying by the deadline beats paying on the due date, even when that is also this week
+      candidates.push({
+        suggestion: {
+          billId: bill.id,
+          reason: "discount",
+          amount: round2(outstanding - discount.amount),
+          discount: discount.amount,
+          payBy: discount.deadline,
+        },
+        rank: -discount.annualRate,
+      });
+    } else if (bill.due_date <= windowEnd) {
+      candidates.push({
+        suggestion: { billId: bill.id, reason: "due", amount: outstanding, discount: 0, payBy: bill.due_date },
+        rank: 0,
+      });
+    }
+  }
+  candidates.sort(
+    (a, b) =>
+      REASON_ORDER[a.suggestion.reason] - REASON_ORDER[b.suggestion.reason] ||
+      a.rank - b.rank ||
+      a.suggestion.payBy.localeCompare(b.suggestion.payBy)
+  );
+
+  const cashAvailable = cashOnHand === null ? null : round2(cashOnHand - (options.reserve ?? 0));
+  let remaining = cashAvailable ?? Infinity;
+  const suggestions: PaymentSuggestion[] = [];
+  const deferred: PaymentSuggestion[] = [];
+  for (const { suggestion } of candidates) {
+    if (suggestion.amount <= remaining + 0.005) {
+      suggestions.push(suggestion);
+      remaining -= suggestion.amount;
+    } else {
+      deferred.push(suggestion);
+    }
+  }
+
+  return {
+    asOf,
+    windowEnd,
+    cashAvailable,
+    suggestions,
+    deferred,
+    total: round2(suggestions.reduce((total, s) => total + s.amount, 0)),
+    savings: round2(suggestions.reduce((total, s) => total + s.discount, 0)),
+  };
+}
+
+/**
+ * Open bills as payments for the cash forecast: on the scheduled date when
+ * one is set, otherwise on the due date. Rejected bills are left out; bills
+ * still awaiting approval are expected to be paid.
+ */
+export function scheduledBillPayments(
+  bills: PayableBill[],
+  vendors: { id: string; name: string }[] = []
+): ScheduledPayment[] {
+  const vendorNames = new Map(vendors.map((v) => [v.id, v.name]));
+  return bills
+    .filter((bill) => bill.approval_status !== "rejected" && billOutstanding(bill) > 0)
+    .map((bill) => {
+      const vendor = bill.vendor_id ? vendorNames.get(bill.vendor_id) : undefined;
+      return {
+        date: bill.scheduled_date || bill.due_date,
+        amount: billOutstanding(bill),
+        label: vendor ? `${vendor} bill ${bill.bill_number}` : `Bill ${bill.bill_number}`,
+        vendorId: bill.vendor_id ?? undefined,
+      };
+    });
+}
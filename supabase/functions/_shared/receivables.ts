@@ -0,0 +1,72 @@
+// Accounts receivable figures from invoice rows: the aging report, days sales
+// outstanding and the customers most overdue. Pure like metrics.ts so the
+// receivables page and the dashboard work from the same numbers.
+import { invoiceOutstanding, type LedgerInvoice } from "./metrics.ts";
+import { ageOpenItems, periodStart, topOverdue, turnoverDays, type AgingReport, type AgingRow } from "./aging.ts";
+
+export interface ReceivableInvoice extends LedgerInvoice {
+  invoice_number: string;
+  customer_id: string | null;
+  issue_date: string;
+}
+
+// Window of credit sales DSO is measured over
+export const DSO_PERIOD_DAYS = 90;
+
+export const NO_CUSTOMER = "No customer";
+
+/**
+ * What each customer owes on `asOf`, split by how far past due it is. Rows
+ * are sorted by overdue amount, then by total owed.
+ */
+export function buildAgingReport(
+  invoices: ReceivableInvoice[],
+  customers: { id: string; name: string }[],
+  asOf: string
+): AgingReport {
+  const items = invoices.map((invoice) => ({
+    id: invoice.id,
+    partyId: invoice.customer_id,
+    issueDate: invoice.issue_date,
+    dueDate: invoice.due_date,
+    outstanding: invoiceOutstanding(invoice),
+  }));
+  return ageOpenItems(items, customers, asOf, NO_CUSTOMER);
+}
+
+export function topOverdueCustomers(report: AgingReport, limit = 5): AgingRow[] {
+  return topOverdue(report, limit);
+}
+
+/**
+ * Days sales outstanding: receivables on `asOf` over credit sales invoiced in
+ * the preceding `periodDays`, times `periodDays`. Null without any sales in
+ * the window.
+ */
+export function daysSalesOutstanding(
+  invoices: ReceivableInvoice[],
+  asOf: string,
+  periodDays = DSO_PERIOD_DAYS
+): number | null {
+  const from = periodStart(asOf, periodDays);
+  const sales = invoices
+    .filter((i) => i.status !== "draft" && i.status !== "void" && i.issue_date >= from && i.issue_date <= asOf)
+    .reduce((total, i) => total + (Number(i.total) || 0), 0);
+  const receivables = invoices
+    .filter((i) => i.issue_date <= asOf)
+    .reduce((total, i) => total + invoiceOutstanding(i), 0);
+  return turnoverDays(receivables, sales, periodDays);
+}
+
+// "INV-0041" -> "INV-0042"; numbers without a numeric suffix are ignored
+export function nextInvoiceNumber(numbers: string[], prefix = "INV-"): string {
+  let best: { prefix: string; value: number; width: number } | null = null;
+  for (const number of numbers) {
+    const match = number.match(/^(.*?)(\d+)$/);
+    if (!match) continue;
+    const value = Number(match[2]);
+    if (!best || value > best.value) best = { prefix: match[1], value, width: match[2].length };
+  }
+  if (!best) return `${prefix}0001`;
+  return `${best.prefix}${String(best.value + 1).padStart(best.width, "0")}`;
+}
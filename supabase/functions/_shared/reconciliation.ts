@@ -0,0 +1,235 @@
+// Bank reconciliation: pairs imported statement lines with ledger
+// transactions or open invoices, and compares each bank account's statement
+// balance with the ledger. Pure like metrics.ts.
+import {
+  invoiceOutstanding,
+  round2,
+  type LedgerAccount,
+  type LedgerInvoice,
+  type LedgerStatement,
+  type LedgerTransaction,
+} from "./metrics.ts";
+import { daysOverdue } from "./aging.ts";
+
+export interface BankLine {
+  id: string;
+  account_id: string;
+  date: string;
+  amount: number; // positive is money in
+  description: string | null;
+  reference: string | null;
+  status: string;
+  transaction_id: string | null;
+}
+
+export interface MatchableTransaction extends LedgerTransaction {
+  description: string | null;
+  reference: string | null;
+}
+
+export interface MatchableInvoice extends LedgerInvoice {
+  invoice_number: string;
+  issue_date: string;
+}
+
+export type MatchTarget = { kind: "transaction"; id: string } | { kind: "invoice"; id: string };
+
+export interface MatchSuggestion {
+  lineId: string;
+  target: MatchTarget;
+  confidence: number; // 0..1
+  reasons: string[];
+}
+
+// How far a ledger date may sit from the bank's booking date
+export const MATCH_DATE_WINDOW_DAYS = 5;
+
+// Suggestions below this are not shown
+export const MIN_MATCH_CONFIDENCE = 0.5;
+
+// Suggestions "Accept all" takes without a second look
+export const AUTO_ACCEPT_CONFIDENCE = 0.85;
+
+const toAmount = (value: number | string | null | undefined) => Number(value) || 0;
+
+const cents = (value: number) => Math.round(toAmount(value) * 100);
+
+const signed = (t: Pick<LedgerTransaction, "amount" | "type">) =>
+  t.type === "income" ? toAmount(t.amount) : -toAmount(t.amount);
+
+// A matched line whose transaction has since been deleted is open again
+export const isReconciled = (line: Pick<BankLine, "status" | "transaction_id">) =>
+  line.status === "matched" && !!line.transaction_id;
+
+const words = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]+/g, " ").trim();
+
+/**
+ * Whether `text` mentions `reference` as a whole word, with or without its
+ * separators: "INV-0042", "inv 0042" and "INV0042" all mention INV-0042.
+ */
+export function mentionsReference(text: string | null, reference: string | null): boolean {
+  if (!text || !reference) return false;
+  const needle = words(reference);
+  const compact = needle.replace(/ /g, "");
+  if (compact.length < 3) return false;
+  const haystack = ` ${words(text)} `;
+  return haystack.includes(` ${needle} `) || haystack.split(" ").includes(compact);
+}
+
+const lineText = (line: BankLine) => [line.description, line.reference].filter(Boolean).join(" ");
+
+const dayLabel = (days: number) => (days === 0 ? "Same date" : `${days} day${days === 1 ? "" : "s"} apart`);
+
+interface Candidate {
+  suggestion: MatchSuggestion;
+  date: string;
+}
+
+function transactionCandidates(
+  line: BankLine,
+  byAmount: Map<number, MatchableTransaction[]>,
+  windowDays: number
+): Candidate[] {
+  const text = lineText(line);
+  return (byAmount.get(cents(line.amount)) || [])
+    .filter((t) => !t.account_id || t.account_id === line.account_id)
+    .map((t) => ({ t, days: Math.abs(daysOverdue(t.date, line.date)) }))
+    .filter(({ days }) => days <= windowDays)
+    .map(({ t, days }) => {
+      const reference =
+        (mentionsReference(text, t.reference) && t.reference) ||
+        (mentionsReference([t.description, t.reference].filter(Boolean).join(" "), line.reference) && line.reference);
+      const reasons = ["Same amount", dayLabel(days)];
+      if (reference) reasons.push(`Reference ${reference}`);
+      // Amount is a given; closeness in time and a shared reference add the rest
+      const confidence = 0.6 + 0.25 * (1 - days / (windowDays + 1)) + (reference ? 0.15 : 0);
+      return { suggestion: { lineId: line.id, target: { kind: "transaction", id: t.id }, confidence, reasons }, date: t.date };
+    });
+}
+
+function invoiceCandidates(line: BankLine, invoices: MatchableInvoice[]): Candidate[] {
+  if (line.amount <= 0) return [];
+  const text = lineText(line);
+  const candidates: Candidate[] = [];
+  for (const invoice of invoices) {
+    const outstanding = invoiceOutstanding(invoice);
+    if (outstanding <= 0 || line.date < invoice.issue_date) continue;
+    const exact = Math.abs(outstanding - line.amount) < 0.005;
+    const mentioned = mentionsReference(text, invoice.invoice_number);
+    // A part payment needs the invoice number to tie it to this invoice
+    if (!exact && !(mentioned && line.amount < outstanding)) continue;
+    const reasons = [exact ? "Pays the balance in full" : "Part payment"];
+    if (mentioned) reasons.push(`Mentions ${invoice.invoice_number}`);
+    candidates.push({
+      suggestion: {
+        lineId: line.id,
+        target: { kind: "invoice", id: invoice.id },
+        confidence: (exact ? 0.55 : 0.35) + (mentioned ? 0.4 : 0),
+        reasons,
+      },
+      date: invoice.issue_date,
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Suggest one ledger transaction or open invoice for each open statement
+ * line. Transactions must have the same signed amount, sit within
+ * `windowDays` of the line and belong to its account or to none. Invoices
+ * take money in that clears their balance or quotes their number. Each
+ * transaction and invoice is used once, best-scoring pairs first; a line
+ * with several equally good candidates is marked down so it gets a look.
+ */
+export function suggestMatches(
+  lines: BankLine[],
+  transactions: MatchableTransaction[],
+  invoices: MatchableInvoice[],
+  windowDays = MATCH_DATE_WINDOW_DAYS
+): MatchSuggestion[] {
+  const taken = new Set(lines.filter(isReconciled).map((l) => l.transaction_id));
+  const byAmount = new Map<number, MatchableTransaction[]>();
+  for (const t of transactions) {
+    if ((t.type !== "income" && t.type !== "expense") || taken.has(t.id)) continue;
+    const key = cents(signed(t));
+    byAmount.set(key, [...(byAmount.get(key) || []), t]);
+  }
+
+  const candidates: Candidate[] = [];
+  for (const line of lines) {
+    if (line.status === "ignored" || isReconciled(line)) continue;
+    const forLine = [...transactionCandidates(line, byAmount, windowDays), ...invoiceCandidates(line, invoices)];
+    const best = Math.max(...forLine.map((c) => c.suggestion.confidence));
+    const tied = forLine.filter((c) => best - c.suggestion.confidence < 0.001);
+    if (tied.length > 1) {
+      for (const c of tied) {
+        c.suggestion.confidence -= 0.15;
+        c.suggestion.reasons.push(`${tied.length - 1} other equally likely match${tied.length === 2 ? "" : "es"}`);
+      }
+    }
+    candidates.push(...forLine.filter((c) => c.suggestion.confidence >= MIN_MATCH_CONFIDENCE));
+  }
+
+  candidates.sort(
+    (a, b) =>
+      b.suggestion.confidence - a.suggestion.confidence ||
+      a.date.localeCompare(b.date) ||
+      a.suggestion.lineId.localeCompare(b.suggestion.lineId)
+  );
+  const usedLines = new Set<string>();
+  const usedTargets = new Set<string>();
+  const suggestions: MatchSuggestion[] = [];
+  for (const { suggestion } of candidates) {
+    const targetKey = `${suggestion.target.kind}:${suggestion.target.id}`;
+    if (usedLines.has(suggestion.lineId) || usedTargets.has(targetKey)) continue;
+    usedLines.add(suggestion.lineId);
+    usedTargets.add(targetKey);
+    suggestions.push({ ...suggestion, confidence: round2(Math.min(1, suggestion.confidence)) });
+  }
+  return suggestions;
+}
+
+export interface AccountReconciliation {
+  accountId: string;
+  // Latest imported closing balance and its date; null before any statement
+  statementBalance: number | null;
+  statementDate: string | null;
+  // Opening balance plus the account's own transactions up to statementDate
+  // (or `asOf` without a statement)
+  ledgerBalance: number;
+  difference: number | null;
+  openLines: number;
+  reconciledLines: number;
+}
+
+/** Compare a bank account's latest statement balance with what the ledger says it should be. */
+export function reconcileAccount(
+  account: LedgerAccount,
+  statements: LedgerStatement[],
+  lines: BankLine[],
+  transactions: Pick<LedgerTransaction, "date" | "amount" | "type" | "account_id">[],
+  asOf: string
+): AccountReconciliation {
+  const latest = statements
+    .filter((s) => s.account_id === account.id && s.closing_balance !== null && s.period_end <= asOf)
+    .sort((a, b) => a.period_end.localeCompare(b.period_end))
+    .pop();
+  const through = latest?.period_end || asOf;
+  const ledgerBalance = round2(
+    toAmount(account.opening_balance) +
+      transactions
+        .filter((t) => t.account_id === account.id && (t.type === "income" || t.type === "expense") && t.date <= through)
+        .reduce((total, t) => total + signed(t), 0)
+  );
+  const statementBalance = latest ? toAmount(latest.closing_balance) : null;
+  const accountLines = lines.filter((l) => l.account_id === account.id);
+  return {
+    accountId: account.id,
+    statementBalance,
+    statementDate: latest?.period_end || null,
+    ledgerBalance,
+    difference: statementBalance === null ? null : round2(statementBalance - ledgerBalance),
+    openLines: accountLines.filter((l) => l.status !== "ignored" && !isReconciled(l)).length,
+    reconciledLines: accountLines.filter(isReconciled).length,
+  };
+}
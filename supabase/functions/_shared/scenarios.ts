@@ -0,0 +1,319 @@
+// What-if scenarios layered on the cash forecast (forecast.ts). A scenario is
+// a list of adjustments; the baseline is the scenario with none. Pure like
+// metrics.ts so the scenario workspace and the agent's create_scenario tool
+// compute the same figures.
+//
+// Profit here is operating profit on the forecast's cash basis: revenue less
+// spend, headcount, depreciation of capex and loan interest. Capex and loan
+// principal move cash but not profit.
+import { round2, type LedgerTransaction } from "./metrics.ts";
+import type { CashForecast } from "./forecast.ts";
+
+export const REVENUE_CHANNELS = ["Retail In-Store", "Online", "Wholesale"] as const;
+
+export const ADJUSTMENT_TYPES = ["revenue", "headcount", "price", "capex", "loan"] as const;
+
+export type AdjustmentType = (typeof ADJUSTMENT_TYPES)[number];
+
+export const ADJUSTMENT_LABELS: Record<AdjustmentType, string> = {
+  revenue: "Revenue change",
+  headcount: "New headcount",
+  price: "Price change",
+  capex: "One-off capex",
+  loan: "Loan drawdown",
+};
+
+// Months are YYYY-MM; an adjustment with a start month applies from then on
+export type ScenarioAdjustment =
+  | {
+      type: "revenue";
+      // One channel, or all revenue when null
+      channel: string | null;
+      changePct: number;
+      startMonth: string;
+      endMonth?: string | null;
+    }
+  | {
+      type: "headcount";
+      role?: string | null;
+      count: number;
+      // Fully loaded cost of one person per month
+      monthlyCost: number;
+      startMonth: string;
+    }
+  | {
+      type: "price";
+      changePct: number;
+      // Expected change in volume in response, usually negative for a rise
+      volumeChangePct?: number | null;
+      startMonth: string;
+    }
+  | {
+      type: "capex";
+      description?: string | null;
+      amount: number;
+      month: string;
+      // Straight-line depreciation period for the profit figure
+      usefulLifeMonths?: number | null;
+    }
+  | {
+      type: "loan";
+      amount: number;
+      month: string;
+      annualRatePct: number;
+      // Repaid in equal monthly instalments from the month after drawdown
+      termMonths: number;
+    };
+
+export interface ScenarioMonth {
+  month: string;
+  inflows: number;
+  outflows: number;
+  net: number;
+  cash: number;
+  profit: number;
+}
+
+export interface ScenarioSummary {
+  endingCash: number;
+  lowestCash: number;
+  lowestMonth: string;
+  // Months until cash first goes below zero; null when it lasts the whole horizon
+  runwayMonths: number | null;
+  totalProfit: number;
+}
+
+export interface ScenarioResult {
+  months: ScenarioMonth[];
+  summary: ScenarioSummary;
+  warnings: string[];
+}
+
+const DEFAULT_USEFUL_LIFE_MONTHS = 36;
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Share of revenue by channel over the twelve months to `asOf`, keyed by lower-cased name
+export function revenueChannelMix(
+  transactions: (Pick<LedgerTransaction, "date" | "amount" | "type"> & { channel: string | null })[],
+  asOf: string
+): Map<string, number> {
+  const since = `${Number(asOf.slice(0, 4)) - 1}${asOf.slice(4, 10)}`;
+  const totals = new Map<string, number>();
+  let total = 0;
+  for (const t of transactions) {
+    if (t.type !== "income" || t.date <= since || t.date > asOf) continue;
+    const amount = Number(t.amount) || 0;
+    const channel = t.channel?.trim().toLowerCase();
+    if (channel) totals.set(channel, (totals.get(channel) || 0) + amount);
+    total += amount;
+  }
+  const mix = new Map<string, number>();
+  if (total > 0) for (const [channel, amount] of totals) mix.set(channel, amount / total);
+  return mix;
+}
+
+const monthText = (value: unknown) => {
+  const text = String(value ?? "").trim().slice(0, 7);
+  return MONTH_PATTERN.test(text) ? text : null;
+};
+
+const numberValue = (value: unknown) => {
+  const n = typeof value === "string" ? Number(value.replace(/[%,$\s]/g, "")) : Number(value);
+  return value === null || value === undefined || value === "" || !Number.isFinite(n) ? null : n;
+};
+
+const textValue = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+
+/**
+ * Check adjustments from the editor or the agent. Percentages are plain
+ * numbers (-20 means a 20% drop) and months YYYY-MM; invalid entries are
+ * reported and left out.
+ */
+export function parseAdjustments(raw: unknown): { adjustments: ScenarioAdjustment[]; errors: string[] } {
+  const items = typeof raw === "string" ? safeJson(raw) : raw;
+  if (!Array.isArray(items)) return { adjustments: [], errors: ["adjustments must be a list"] };
+
+  const adjustments: ScenarioAdjustment[] = [];
+  const errors: string[] = [];
+  items.forEach((item, index) => {
+    const at = `Adjustment ${index + 1}`;
+    const a = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+    const startMonth = monthText(a.startMonth ?? a.month);
+    switch (a.type) {
+      case "revenue": {
+        const changePct = numberValue(a.changePct);
+        if (changePct === null || changePct < -100) errors.push(`${at}: changePct must be a number of at least -100`);
+        else if (!startMonth) errors.push(`${at}: startMonth must be YYYY-MM`);
+        else adjustments.push({ type: "revenue", channel: textValue(a.channel), changePct, startMonth, endMonth: monthText(a.endMonth) });
+        break;
+      }
+      case "headcount": {
+        const count = numberValue(a.count);
+        const monthlyCost = numberValue(a.monthlyCost);
+        if (count === null || count <= 0) errors.push(`${at}: count must be positive`);
+        else if (monthlyCost === null || monthlyCost < 0) errors.push(`${at}: monthlyCost must be zero or more`);
+        else if (!startMonth) errors.push(`${at}: startMonth must be YYYY-MM`);
+        else adjustments.push({ type: "headcount", role: textValue(a.role), count, monthlyCost, startMonth });
+        break;
+      }
+      case "price": {
+        const changePct = numberValue(a.changePct);
+        const volumeChangePct = numberValue(a.volumeChangePct);
+        if (changePct === null || changePct <= -100) errors.push(`${at}: changePct must be a number above -100`);
+        else if (volumeChangePct !== null && volumeChangePct < -100) errors.push(`${at}: volumeChangePct must be at least -100`);
+        else if (!startMonth) errors.push(`${at}: startMonth must be YYYY-MM`);
+        else adjustments.push({ type: "price", changePct, volumeChangePct, startMonth });
+        break;
+      }
+      case "capex": {
+        const amount = numberValue(a.amount);
+        const usefulLifeMonths = numberValue(a.usefulLifeMonths);
+        if (amount === null || amount <= 0) errors.push(`${at}: amount must be positive`);
+        else if (!startMonth) errors.push(`${at}: month must be YYYY-MM`);
+        else if (usefulLifeMonths !== null && usefulLifeMonths < 1) errors.push(`${at}: usefulLifeMonths must be at least 1`);
+        else adjustments.push({ type: "capex", description: textValue(a.description), amount, month: startMonth, usefulLifeMonths });
+        break;
+      }
+      case "loan": {
+        const amount = numberValue(a.amount);
+        const annualRatePct = numberValue(a.annualRatePct) ?? 0;
+        const termMonths = numberValue(a.termMonths);
+        if (amount === null || amount <= 0) errors.push(`${at}: amount must be positive`);
+        else if (!startMonth) errors.push(`${at}: month must be YYYY-MM`);
+        else if (annualRatePct < 0) errors.push(`${at}: annualRatePct must be zero or more`);
+        else if (termMonths === null || termMonths < 1) errors.push(`${at}: termMonths must be at least 1`);
+        else adjustments.push({ type: "loan", amount, month: startMonth, annualRatePct, termMonths: Math.round(termMonths) });
+        break;
+      }
+      default:
+        errors.push(`${at}: unknown type "${String(a.type ?? "")}", expected one of ${ADJUSTMENT_TYPES.join(", ")}`);
+    }
+  });
+  return { adjustments, errors };
+}
+
+function safeJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+const formatAmount = (value: number) => `$${Math.round(value).toLocaleString("en-US")}`;
+const formatPct = (value: number) => `${value > 0 ? "+" : ""}${value}%`;
+
+// One line for lists and tool results, e.g. "Online revenue -20% from 2025-07"
+export function describeAdjustment(a: ScenarioAdjustment): string {
+  switch (a.type) {
+    case "revenue":
+      return `${a.channel || "All"} revenue ${formatPct(a.changePct)} from ${a.startMonth}${a.endMonth ? ` to ${a.endMonth}` : ""}`;
+    case "headcount":
+      return `${a.count} × ${a.role || "new hire"} at ${formatAmount(a.monthlyCost)}/month from ${a.startMonth}`;
+    case "price":
+      return `Prices ${formatPct(a.changePct)}${a.volumeChangePct ? `, volume ${formatPct(a.volumeChangePct)}` : ""} from ${a.startMonth}`;
+    case "capex":
+      return `${a.description || "Capex"} ${formatAmount(a.amount)} in ${a.month}`;
+    case "loan":
+      return `Loan ${formatAmount(a.amount)} in ${a.month} at ${a.annualRatePct}% over ${a.termMonths} months`;
+  }
+}
+
+const monthIndex = (month: string) => Number(month.slice(0, 4)) * 12 + Number(month.slice(5, 7)) - 1;
+
+/** Apply `adjustments` to the forecast months of `baseline`. */
+export function applyScenario(
+  baseline: CashForecast,
+  channelMix: Map<string, number>,
+  adjustments: ScenarioAdjustment[]
+): ScenarioResult {
+  const warnings: string[] = [];
+  for (const a of adjustments) {
+    if (a.type === "revenue" && a.channel && !channelMix.has(a.channel.toLowerCase())) {
+      warnings.push(`No recent ${a.channel} revenue, so "${describeAdjustment(a)}" has no effect`);
+    }
+  }
+
+  const forecastMonths = baseline.months.filter((m) => m.kind === "forecast");
+  let cash = baseline.openingCash;
+  const months: ScenarioMonth[] = forecastMonths.map((m) => {
+    const drivers = m.drivers!;
+    const revenue = drivers.baselineIncome + drivers.collections;
+    const spend = drivers.baselineExpenses + drivers.recurringBills + drivers.scheduledPayments;
+    const at = monthIndex(m.month);
+    let revenueChange = 0;
+    let costs = 0;
+    let cashIn = 0;
+    let cashOut = 0;
+    // Depreciation, and the interest inside loan payments: profit only, cash is counted above
+    let profitCosts = 0;
+
+    for (const a of adjustments) {
+      switch (a.type) {
+        case "revenue": {
+          if (at < monthIndex(a.startMonth) || (a.endMonth && at > monthIndex(a.endMonth))) break;
+          const share = a.channel ? channelMix.get(a.channel.toLowerCase()) || 0 : 1;
+          revenueChange += revenue * share * (a.changePct / 100);
+          break;
+        }
+        case "price":
+          if (at >= monthIndex(a.startMonth)) {
+            revenueChange += revenue * ((1 + a.changePct / 100) * (1 + (a.volumeChangePct || 0) / 100) - 1);
+          }
+          break;
+        case "headcount":
+          if (at >= monthIndex(a.startMonth)) costs += a.count * a.monthlyCost;
+          break;
+        case "capex": {
+          const since = at - monthIndex(a.month);
+          const life = a.usefulLifeMonths || DEFAULT_USEFUL_LIFE_MONTHS;
+          if (since === 0) cashOut += a.amount;
+          if (since >= 0 && since < life) profitCosts += a.amount / life;
+          break;
+        }
+        case "loan": {
+          const since = at - monthIndex(a.month);
+          if (since === 0) cashIn += a.amount;
+          if (since < 1 || since > a.termMonths) break;
+          const rate = a.annualRatePct / 100 / 12;
+          const payment = rate > 0 ? (a.amount * rate) / (1 - (1 + rate) ** -a.termMonths) : a.amount / a.termMonths;
+          // Balance after (since - 1) payments, so this month's interest is on it
+          const balance =
+            rate > 0
+              ? a.amount * (1 + rate) ** (since - 1) - (payment * ((1 + rate) ** (since - 1) - 1)) / rate
+              : a.amount - payment * (since - 1);
+          cashOut += payment;
+          profitCosts += balance * rate;
+          break;
+        }
+      }
+    }
+
+    const inflows = revenue + revenueChange + cashIn;
+    const outflows = spend + costs + cashOut;
+    cash += inflows - outflows;
+    return {
+      month: m.month,
+      inflows: round2(inflows),
+      outflows: round2(outflows),
+      net: round2(inflows - outflows),
+      cash: round2(cash),
+      profit: round2(revenue + revenueChange - spend - costs - profitCosts),
+    };
+  });
+
+  const lowest = months.reduce((min, m) => (m.cash < min.cash ? m : min), months[0]);
+  const firstNegative = months.findIndex((m) => m.cash < 0);
+  return {
+    months,
+    summary: {
+      endingCash: months[months.length - 1].cash,
+      lowestCash: lowest.cash,
+      lowestMonth: lowest.month,
+      runwayMonths: firstNegative === -1 ? null : firstNegative,
+      totalProfit: round2(months.reduce((total, m) => total + m.profit, 0)),
+    },
+    warnings,
+  };
+}
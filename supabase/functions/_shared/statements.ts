@@ -0,0 +1,493 @@
+// Financial statements (income statement, balance sheet and indirect cash
+// flow statement) built from ledger rows. Pure like metrics.ts, so the web app
+// can use it through the `@shared` alias.
+//
+// The ledger is single entry: each income or expense transaction is a cash
+// movement through its account (rows without one are cash, as on the
+// dashboard). Invoices put revenue on an accrual basis through the movement
+// in receivables, so a payment imported from the bank is never counted twice.
+// Transfers only carry one side and are left out.
+import {
+  isCashAccount,
+  round2,
+  type LedgerAccount,
+  type LedgerInvoice,
+  type LedgerTransaction,
+} from "./metrics.ts";
+
+export interface StatementAccount extends LedgerAccount {
+  name: string;
+  code: string | null;
+}
+
+export interface StatementInvoice extends LedgerInvoice {
+  issue_date: string;
+}
+
+export interface StatementTransaction extends LedgerTransaction {
+  invoice_id: string | null;
+}
+
+export interface StatementLedger {
+  accounts: StatementAccount[];
+  invoices: StatementInvoice[];
+  transactions: StatementTransaction[];
+}
+
+export interface StatementPeriod {
+  start?: string; // YYYY-MM-DD, inclusive; open means from the first entry
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export type StatementKind = "income-statement" | "balance-sheet" | "cash-flow";
+
+export type StatementRowKind = "section" | "line" | "subtotal" | "total";
+
+export interface StatementRow {
+  // Stable across periods so comparative columns line up, e.g. "revenue:Sales"
+  id: string;
+  label: string;
+  kind: StatementRowKind;
+  amount: number;
+  // Ledger transactions behind a line, for drill-down
+  transactionIds: string[];
+}
+
+export interface FinancialStatement {
+  kind: StatementKind;
+  title: string;
+  period: StatementPeriod;
+  rows: StatementRow[];
+  // Should be zero: assets minus liabilities and equity, or the cash flow
+  // total minus the actual change in cash
+  difference: number;
+}
+
+export interface ComparativeColumn {
+  label: string;
+  period: StatementPeriod;
+}
+
+export interface ComparativeRow {
+  id: string;
+  label: string;
+  kind: StatementRowKind;
+  // One entry per column; null when the row does not appear in that period
+  amounts: (number | null)[];
+  transactionIds: string[][];
+}
+
+export interface ComparativeStatement {
+  kind: StatementKind;
+  title: string;
+  columns: ComparativeColumn[];
+  rows: ComparativeRow[];
+  differences: number[];
+}
+
+export const STATEMENT_TITLES: Record<StatementKind, string> = {
+  "income-statement": "Income Statement",
+  "balance-sheet": "Balance Sheet",
+  "cash-flow": "Cash Flow Statement",
+};
+
+const UNCATEGORIZED = "Uncategorized";
+
+// Expense categories reported as cost of sales, above gross profit
+const COST_OF_SALES = /\b(cogs|cost of (goods|sales|revenue))\b/i;
+
+// Non-cash account subtypes whose movements are investing or financing
+// rather than operating cash flows
+const INVESTING_SUBTYPES = ["fixed_asset", "equipment", "property", "investment"];
+const FINANCING_SUBTYPES = ["loan", "long_term_debt", "note_payable", "mortgage"];
+
+const toAmount = (value: number | string | null | undefined) => Number(value) || 0;
+
+const isFlow = (t: StatementTransaction) => t.type === "income" || t.type === "expense";
+
+// Cash effect of a transaction on the account it went through
+const signed = (t: StatementTransaction) => (t.type === "income" ? toAmount(t.amount) : -toAmount(t.amount));
+
+const dayBefore = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().slice(0, 10);
+};
+
+function row(id: string, label: string, kind: StatementRowKind, amount = 0, transactionIds: string[] = []): StatementRow {
+  return { id, label, kind, amount: round2(amount), transactionIds };
+}
+
+/**
+ * Shared lookups for one ledger. Every figure is derived from the same
+ * classification, which is what keeps the three statements consistent.
+ */
+function analyseLedger(ledger: StatementLedger, today: string) {
+  const accountsById = new Map(ledger.accounts.map((a) => [a.id, a]));
+  const cashAccounts = ledger.accounts.filter(isCashAccount);
+  // Other balance sheet accounts that transactions can settle through,
+  // e.g. a credit card (liability) or equipment (asset)
+  const otherAccounts = ledger.accounts.filter(
+    (a) => (a.type === "asset" && !isCashAccount(a)) || a.type === "liability"
+  );
+  const otherAccountIds = new Set(otherAccounts.map((a) => a.id));
+  const flows = ledger.transactions.filter(isFlow);
+
+  // Which balance sheet account a transaction went through; null is cash
+  const settlementOf = (t: StatementTransaction) =>
+    t.account_id && otherAccountIds.has(t.account_id) ? t.account_id : null;
+
+  // With a single cash account, unassigned transactions belong to it
+  const cashLineOf = (t: StatementTransaction) => {
+    const account = t.account_id ? accountsById.get(t.account_id) : undefined;
+    if (account && isCashAccount(account)) return account.id;
+    return cashAccounts.length === 1 ? cashAccounts[0].id : "unassigned";
+  };
+
+  const linkedPayments = new Map<string, StatementTransaction[]>();
+  for (const t of flows) {
+    if (t.type !== "income" || !t.invoice_id) continue;
+    linkedPayments.set(t.invoice_id, [...(linkedPayments.get(t.invoice_id) || []), t]);
+  }
+
+  // Amount still owed on an invoice at the end of `date`. Payments recorded
+  // as linked transactions count from their date; any other paid amount is
+  // assumed to have arrived by the due date (or today, if that is sooner).
+  const receivableAt = (invoice: StatementInvoice, date: string) => {
+    if (invoice.status === "draft" || invoice.status === "void" || invoice.issue_date > date) return 0;
+    const total = toAmount(invoice.total);
+    const paid = invoice.status === "paid" ? total : toAmount(invoice.amount_paid);
+    const payments = linkedPayments.get(invoice.id) || [];
+    const linkedTotal = payments.reduce((s, t) => s + toAmount(t.amount), 0);
+    const linkedByDate = payments.filter((t) => t.date <= date).reduce((s, t) => s + toAmount(t.amount), 0);
+    const assumedPaidOn = invoice.due_date < today ? invoice.due_date : today;
+    const otherPaid = date >= assumedPaidOn ? Math.max(0, paid - linkedTotal) : 0;
+    return Math.max(0, total - linkedByDate - otherPaid);
+  };
+
+  const receivablesAt = (date: string | null) =>
+    date === null ? 0 : round2(ledger.invoices.reduce((s, i) => s + receivableAt(i, date), 0));
+
+  // Flow transactions within an inclusive range; a null end means none
+  const flowsBetween = (start: string | undefined, end: string | null) =>
+    end === null ? [] : flows.filter((t) => (!start || t.date >= start) && t.date <= end);
+
+  // Balance of a non-cash account: an expense charged to a card raises the
+  // liability, a refund lowers it; asset accounts move the other way
+  const accountBalanceAt = (account: StatementAccount, date: string | null) => {
+    const movement = flowsBetween(undefined, date)
+      .filter((t) => t.account_id === account.id)
+      .reduce((s, t) => s + signed(t), 0);
+    return round2(toAmount(account.opening_balance) + (account.type === "liability" ? -movement : movement));
+  };
+
+  const cashAt = (date: string | null) =>
+    round2(
+      cashAccounts.reduce((s, a) => s + toAmount(a.opening_balance), 0) +
+      flowsBetween(undefined, date).filter((t) => settlementOf(t) === null).reduce((s, t) => s + signed(t), 0)
+    );
+
+  return {
+    cashAccounts,
+    otherAccounts,
+    settlementOf,
+    cashLineOf,
+    receivablesAt,
+    flowsBetween,
+    accountBalanceAt,
+    cashAt,
+  };
+}
+
+type LedgerAnalysis = ReturnType<typeof analyseLedger>;
+
+const accountLabel = (account: StatementAccount) => (account.code ? `${account.code} ${account.name}` : account.name);
+
+function categoryLines(prefix: string, transactions: StatementTransaction[]): StatementRow[] {
+  const groups = new Map<string, StatementTransaction[]>();
+  for (const t of transactions) {
+    const category = t.category || UNCATEGORIZED;
+    groups.set(category, [...(groups.get(category) || []), t]);
+  }
+  return Array.from(groups.entries())
+    .map(([category, rows]) =>
+      row(`${prefix}:${category}`, category, "line", rows.reduce((s, t) => s + toAmount(t.amount), 0), rows.map((t) => t.id))
+    )
+    .sort((a, b) => b.amount - a.amount);
+}
+
+function incomeStatementRows(analysis: LedgerAnalysis, period: StatementPeriod) {
+  const flows = analysis.flowsBetween(period.start, period.end);
+  const income = flows.filter((t) => t.type === "income");
+  const expenses = flows.filter((t) => t.type === "expense");
+  const costOfSales = expenses.filter((t) => COST_OF_SALES.test(t.category || ""));
+  const operating = expenses.filter((t) => !COST_OF_SALES.test(t.category || ""));
+
+  const openingReceivables = analysis.receivablesAt(period.start ? dayBefore(period.start) : null);
+  const receivablesMovement = round2(analysis.receivablesAt(period.end) - openingReceivables);
+
+  const revenueLines = categoryLines("revenue", income);
+  if (receivablesMovement !== 0) {
+    revenueLines.push(
+      row("revenue:receivables", "Movement in invoiced receivables", "line", receivablesMovement,
+        income.filter((t) => t.invoice_id).map((t) => t.id))
+    );
+  }
+  const costLines = categoryLines("cost-of-sales", costOfSales);
+  const expenseLines = categoryLines("expense", operating);
+
+  const totalOf = (lines: StatementRow[]) => round2(lines.reduce((s, l) => s + l.amount, 0));
+  const revenue = totalOf(revenueLines);
+  const cost = totalOf(costLines);
+  const operatingExpenses = totalOf(expenseLines);
+  const netIncome = round2(revenue - cost - operatingExpenses);
+
+  const rows: StatementRow[] = [
+    row("revenue", "Revenue", "section"),
+    ...revenueLines,
+    row("revenue:total", "Total revenue", "subtotal", revenue),
+  ];
+  if (costLines.length > 0) {
+    rows.push(
+      row("cost-of-sales", "Cost of sales", "section"),
+      ...costLines,
+      row("cost-of-sales:total", "Total cost of sales", "subtotal", cost),
+      row("gross-profit", "Gross profit", "total", revenue - cost)
+    );
+  }
+  rows.push(
+    row("expense", "Operating expenses", "section"),
+    ...expenseLines,
+    row("expense:total", "Total operating expenses", "subtotal", operatingExpenses),
+    row("net-income", "Net income", "total", netIncome)
+  );
+
+  return { rows, netIncome, receivablesMovement };
+}
+
+export function buildIncomeStatement(
+  ledger: StatementLedger,
+  period: StatementPeriod,
+  today: string = new Date().toISOString().slice(0, 10)
+): FinancialStatement {
+  const { rows } = incomeStatementRows(analyseLedger(ledger, today), period);
+  return { kind: "income-statement", title: STATEMENT_TITLES["income-statement"], period, rows, difference: 0 };
+}
+
+/**
+ * Balance sheet at `period.end`. Earnings before `period.start` show as
+ * retained earnings and the rest as current period earnings.
+ */
+export function buildBalanceSheet(
+  ledger: StatementLedger,
+  period: StatementPeriod,
+  today: string = new Date().toISOString().slice(0, 10)
+): FinancialStatement {
+  const analysis = analyseLedger(ledger, today);
+  const date = period.end;
+  const flowsToDate = analysis.flowsBetween(undefined, date);
+
+  // Cash by account, following the same assignment as the dashboard
+  const cashRows = new Map<string, { label: string; amount: number; ids: string[] }>();
+  for (const account of analysis.cashAccounts) {
+    cashRows.set(account.id, { label: accountLabel(account), amount: toAmount(account.opening_balance), ids: [] });
+  }
+  for (const t of flowsToDate.filter((t) => analysis.settlementOf(t) === null)) {
+    const key = analysis.cashLineOf(t);
+    const line = cashRows.get(key) || { label: "Cash (unassigned transactions)", amount: 0, ids: [] };
+    line.amount += signed(t);
+    line.ids.push(t.id);
+    cashRows.set(key, line);
+  }
+  const cashLines = Array.from(cashRows.entries()).map(([id, line]) =>
+    row(`cash:${id}`, line.label, "line", line.amount, line.ids)
+  );
+
+  const receivables = analysis.receivablesAt(date);
+  const accountLine = (account: StatementAccount) =>
+    row(
+      `account:${account.id}`,
+      accountLabel(account),
+      "line",
+      analysis.accountBalanceAt(account, date),
+      flowsToDate.filter((t) => t.account_id === account.id).map((t) => t.id)
+    );
+
+  const assetLines = [
+    ...cashLines,
+    ...(receivables !== 0
+      ? [row("receivables", "Accounts receivable", "line", receivables,
+          flowsToDate.filter((t) => t.invoice_id).map((t) => t.id))]
+      : []),
+    ...analysis.otherAccounts.filter((a) => a.type === "asset").map(accountLine),
+  ];
+  const liabilityLines = analysis.otherAccounts.filter((a) => a.type === "liability").map(accountLine);
+
+  // Opening balances are what the books started with; earnings are the
+  // accrual net income since then
+  const equityAccounts = ledger.accounts.filter((a) => a.type === "equity");
+  const openingNet = ledger.accounts
+    .filter((a) => a.type === "asset" || a.type === "liability")
+    .reduce((s, a) => s + (a.type === "liability" ? -1 : 1) * toAmount(a.opening_balance), 0);
+  const equityOpening = equityAccounts.reduce((s, a) => s + toAmount(a.opening_balance), 0);
+
+  const priorEnd = period.start ? dayBefore(period.start) : null;
+  const retained = priorEnd ? incomeStatementRows(analysis, { end: priorEnd }).netIncome : 0;
+  const current = incomeStatementRows(analysis, period).netIncome;
+
+  const equityLines = [
+    ...equityAccounts.map((a) => row(`account:${a.id}`, accountLabel(a), "line", toAmount(a.opening_balance))),
+    ...(round2(openingNet - equityOpening) !== 0
+      ? [row("equity:opening", "Opening balance equity", "line", openingNet - equityOpening)]
+      : []),
+    row("equity:retained", "Retained earnings", "line", retained),
+    row("equity:current", "Current period earnings", "line", current),
+  ];
+
+  const totalOf = (lines: StatementRow[]) => round2(lines.reduce((s, l) => s + l.amount, 0));
+  const assets = totalOf(assetLines);
+  const liabilities = totalOf(liabilityLines);
+  const equity = totalOf(equityLines);
+
+  return {
+    kind: "balance-sheet",
+    title: STATEMENT_TITLES["balance-sheet"],
+    period,
+    rows: [
+      row("assets", "Assets", "section"),
+      ...assetLines,
+      row("assets:total", "Total assets", "total", assets),
+      row("liabilities", "Liabilities", "section"),
+      ...liabilityLines,
+      row("liabilities:total", "Total liabilities", "subtotal", liabilities),
+      row("equity", "Equity", "section"),
+      ...equityLines,
+      row("equity:total", "Total equity", "subtotal", equity),
+      row("liabilities-equity:total", "Total liabilities and equity", "total", liabilities + equity),
+    ],
+    difference: round2(assets - liabilities - equity),
+  };
+}
+
+/**
+ * Indirect method: start from net income and reverse the movements in
+ * receivables and non-cash accounts to arrive at the change in cash.
+ */
+export function buildCashFlowStatement(
+  ledger: StatementLedger,
+  period: StatementPeriod,
+  today: string = new Date().toISOString().slice(0, 10)
+): FinancialStatement {
+  const analysis = analyseLedger(ledger, today);
+  const priorEnd = period.start ? dayBefore(period.start) : null;
+  const periodFlows = analysis.flowsBetween(period.start, period.end);
+  const { netIncome, receivablesMovement } = incomeStatementRows(analysis, period);
+
+  const movementLine = (account: StatementAccount) => {
+    const change = analysis.accountBalanceAt(account, period.end) - analysis.accountBalanceAt(account, priorEnd);
+    // Cash goes up when a liability grows and down when an asset does
+    return row(
+      `account:${account.id}`,
+      `Change in ${account.name}`,
+      "line",
+      account.type === "liability" ? change : -change,
+      periodFlows.filter((t) => t.account_id === account.id).map((t) => t.id)
+    );
+  };
+  const activityOf = (account: StatementAccount) => {
+    const subtype = account.subtype || "";
+    if (account.type === "asset" && INVESTING_SUBTYPES.includes(subtype)) return "investing";
+    if (account.type === "liability" && FINANCING_SUBTYPES.includes(subtype)) return "financing";
+    return "operating";
+  };
+  const linesFor = (activity: string) =>
+    analysis.otherAccounts
+      .filter((a) => activityOf(a) === activity)
+      .map(movementLine)
+      .filter((l) => l.amount !== 0 || l.transactionIds.length > 0);
+
+  const operatingLines = [
+    row("net-income", "Net income", "line", netIncome, periodFlows.map((t) => t.id)),
+    ...(receivablesMovement !== 0
+      ? [row("receivables", "Change in accounts receivable", "line", -receivablesMovement,
+          periodFlows.filter((t) => t.invoice_id).map((t) => t.id))]
+      : []),
+    ...linesFor("operating"),
+  ];
+  const investingLines = linesFor("investing");
+  const financingLines = linesFor("financing");
+
+  const totalOf = (lines: StatementRow[]) => round2(lines.reduce((s, l) => s + l.amount, 0));
+  const operating = totalOf(operatingLines);
+  const investing = totalOf(investingLines);
+  const financing = totalOf(financingLines);
+  const netChange = round2(operating + investing + financing);
+
+  const openingCash = analysis.cashAt(priorEnd);
+  const closingCash = analysis.cashAt(period.end);
+  const cashIds = periodFlows.filter((t) => analysis.settlementOf(t) === null).map((t) => t.id);
+
+  return {
+    kind: "cash-flow",
+    title: STATEMENT_TITLES["cash-flow"],
+    period,
+    rows: [
+      row("operating", "Operating activities", "section"),
+      ...operatingLines,
+      row("operating:total", "Net cash from operating activities", "subtotal", operating),
+      row("investing", "Investing activities", "section"),
+      ...investingLines,
+      row("investing:total", "Net cash from investing activities", "subtotal", investing),
+      row("financing", "Financing activities", "section"),
+      ...financingLines,
+      row("financing:total", "Net cash from financing activities", "subtotal", financing),
+      row("net-change", "Net change in cash", "total", netChange, cashIds),
+      row("cash:opening", "Cash at beginning of period", "line", openingCash),
+      row("cash:closing", "Cash at end of period", "total", closingCash),
+    ],
+    difference: round2(netChange - (closingCash - openingCash)),
+  };
+}
+
+export const STATEMENT_BUILDERS: Record<
+  StatementKind,
+  (ledger: StatementLedger, period: StatementPeriod, today?: string) => FinancialStatement
+> = {
+  "income-statement": buildIncomeStatement,
+  "balance-sheet": buildBalanceSheet,
+  "cash-flow": buildCashFlowStatement,
+};
+
+/**
+ * Line statements for several periods up into columns. A row missing from
+ * the first period (say a category with no spend this month) is placed after
+ * the row it follows in the period where it does appear.
+ */
+export function compareStatements(statements: FinancialStatement[], labels: string[]): ComparativeStatement {
+  const order: StatementRow[] = [];
+  for (const statement of statements) {
+    statement.rows.forEach((r, index) => {
+      if (order.some((o) => o.id === r.id)) return;
+      const previous = statement.rows[index - 1];
+      const at = previous ? order.findIndex((o) => o.id === previous.id) + 1 : 0;
+      order.splice(at, 0, r);
+    });
+  }
+
+  return {
+    kind: statements[0].kind,
+    title: statements[0].title,
+    columns: statements.map((s, i) => ({ label: labels[i], period: s.period })),
+    rows: order.map((r) => {
+      const matches = statements.map((s) => s.rows.find((candidate) => candidate.id === r.id));
+      return {
+        id: r.id,
+        label: r.label,
+        kind: r.kind,
+        amounts: matches.map((m) => (m && m.kind !== "section" ? m.amount : null)),
+        transactionIds: matches.map((m) => m?.transactionIds || []),
+      };
+    }),
+    differences: statements.map((s) => s.difference),
+  };
+}
@@ -0,0 +1,73 @@
+// Normalise Bedrock Agent trace events into the small BedrockTrace shape that
+// CFOChat's parseBedrockTraces understands. Everything the chat does not render
+// (model prompts, knowledge base lookups, guardrail details) is dropped, which
+// keeps the payload small and avoids leaking the agent's system prompt.
+import type { TracePart } from "npm:@aws-sdk/client-bedrock-agent-runtime";
+
+export interface BedrockTrace {
+  // Set when the step happened inside a collaborator such as fmo-expense-agent-tracker
+  collaboratorName?: string;
+  trace: {
+    orchestrationTrace: {
+      rationale?: { text: string };
+      invocationInput?: {
+        agentCollaboratorInvocationInput?: {
+          agentCollaboratorName: string;
+          input: { text: string };
+        };
+      };
+      observation?: {
+        agentCollaboratorInvocationOutput?: {
+          agentCollaboratorName: string;
+          output: { text: string };
+        };
+        finalResponse?: { text: string };
+      };
+    };
+  };
+}
+
+export function normalizeTrace(part: TracePart): BedrockTrace | null {
+  const orchestration = part.trace?.orchestrationTrace;
+  if (!orchestration) return null;
+
+  // The supervisor is the only entry in callerChain; collaborators add themselves
+  const collaboratorName = (part.callerChain?.length ?? 0) > 1 ? part.collaboratorName : undefined;
+  const normalized: BedrockTrace["trace"]["orchestrationTrace"] = {};
+
+  if (orchestration.rationale?.text) {
+    normalized.rationale = { text: orchestration.rationale.text };
+  }
+
+  const invocation = orchestration.invocationInput?.agentCollaboratorInvocationInput;
+  if (invocation?.agentCollaboratorName && invocation.input?.text) {
+    normalized.invocationInput = {
+      agentCollaboratorInvocationInput: {
+        agentCollaboratorName: invocation.agentCollaboratorName,
+        input: { text: invocation.input.text },
+      },
+    };
+  }
+
+  const collaboratorOutput = orchestration.observation?.agentCollaboratorInvocationOutput;
+  if (collaboratorOutput?.agentCollaboratorName && collaboratorOutput.output?.text) {
+    normalized.observation = {
+      agentCollaboratorInvocationOutput: {
+        agentCollaboratorName: collaboratorOutput.agentCollaboratorName,
+        output: { text: collaboratorOutput.output.text },
+      },
+    };
+  }
+
+  // A collaborator's final answer is already reported to the supervisor as its
+  // invocation output, so only the supervisor's final response is kept
+  const finalText = orchestration.observation?.finalResponse?.text;
+  if (finalText && !collaboratorName) {
+    normalized.observation = { ...normalized.observation, finalResponse: { text: finalText } };
+  }
+
+  if (Object.keys(normalized).length === 0) return null;
+  return collaboratorName
+    ? { collaboratorName, trace: { orchestrationTrace: normalized } }
+    : { trace: { orchestrationTrace: normalized } };
+}
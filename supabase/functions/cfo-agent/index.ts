@@ -1,8 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import {
-  BedrockAgentRuntimeClient,
-  InvokeAgentCommand,
-} from "npm:@aws-sdk/client-bedrock-agent-runtime";
+import { AGENT_TOOLS } from "../_shared/agentTools.ts";
+import { buildAttachmentContext, MAX_ATTACHMENT_CHARS } from "../_shared/attachments.ts";
+import { createLLMProvider } from "../_shared/llm/index.ts";
+import type { BedrockTrace } from "../_shared/traces.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,37 +11,13 @@ const corsHeaders = {
   "Access-Control-Expose-Headers": "X-Session-Id", // Expose session ID header to frontend
 };
 
-// --- AWS Configuration ---
-// These are read from your Supabase secrets.
-const AWS_REGION = Deno.env.get("AWS_REGION");
-const AWS_ACCESS_KEY_ID = Deno.env.get("AWS_ACCESS_KEY_ID");
-const AWS_SECRET_ACCESS_KEY = Deno.env.get("AWS_SECRET_ACCESS_KEY");
-const AWS_BEDROCK_AGENT_ID = Deno.env.get("AWS_BEDROCK_AGENT_ID");
-const AWS_BEDROCK_AGENT_ALIAS_ID = Deno.env.get("AWS_BEDROCK_AGENT_ALIAS_ID");
+const encoder = new TextEncoder();
 
-// Check that all secrets are set
-if (
-  !AWS_REGION || !AWS_ACCESS_KEY_ID || !AWS_SECRET_ACCESS_KEY ||
-  !AWS_BEDROCK_AGENT_ID || !AWS_BEDROCK_AGENT_ALIAS_ID
-) {
-  console.error(
-    "CRITICAL ERROR: Missing one or more AWS secrets in Supabase environment.",
-  );
-  console.error(
-    "Please set: AWS_REGION, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_BEDROCK_AGENT_ID, AWS_BEDROCK_AGENT_ALIAS_ID",
-  );
+// One Server-Sent Event frame
+function sseEvent(event: string, data: unknown) {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 }
 
-// Initialize the Bedrock AGENT client (this is the correct client)
-// This client handles ALL authentication (SigV4) for you automatically.
-const client = new BedrockAgentRuntimeClient({
-  region: AWS_REGION,
-  credentials: {
-    accessKeyId: AWS_ACCESS_KEY_ID!,
-    secretAccessKey: AWS_SECRET_ACCESS_KEY!,
-  },
-});
-
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -54,6 +30,10 @@ serve(async (req) => {
     const message = formData.get("message") as string;
     const files = formData.getAll("files") as File[];
 
+    // Clients that send `Accept: text/event-stream` get chunks and traces as
+    // they arrive; everyone else gets the single JSON response.
+    const wantsStream = (req.headers.get("accept") || "").includes("text/event-stream");
+
     // --- IMPORTANT FOR MEMORY ---
     // Your React app should send a 'sessionId' in the FormData
     // If it doesn't, every message will start a new conversation
@@ -70,45 +50,76 @@ serve(async (req) => {
     }
 
     // --- File Handling ---
-    // This just informs the agent *about* the files.
-    // The agent's Knowledge Base *cannot* read these uploaded files.
-    let promptText = message;
+    // The agent can only read inputText, so attachments are extracted here
+    // (CSV/XLSX tables, PDF text, OFX statements) and appended to the prompt.
+    let promptText = message || "Please analyse the attached files.";
     if (files.length > 0) {
-      const fileNames = files.map((f) => f.name).join(", ");
-      promptText += `\n\n[User has attached the following files: ${fileNames}]`;
+      const attachmentContext = await buildAttachmentContext(
+        files,
+        Math.max(2000, MAX_ATTACHMENT_CHARS - promptText.length),
+      );
+      promptText += `\n\n${attachmentContext}`;
     }
 
-    // 2. Prepare the command to send to the Bedrock AGENT
-    // This calls your AGENT, not a base model.
-    const command = new InvokeAgentCommand({
-      agentId: AWS_BEDROCK_AGENT_ID, // Uses your secret
-      agentAliasId: AWS_BEDROCK_AGENT_ALIAS_ID, // Uses your secret
-      sessionId: sessionId,
-      inputText: promptText,
-    });
+    // 2. Send the prompt to the configured model backend (LLM_PROVIDER)
+    // Aborting the request (e.g. the user pressed cancel) stops the model call too
+    const provider = await createLLMProvider();
+    // Tools let the agent act on the workspace, e.g. save a what-if scenario
+    const events = provider.stream({ sessionId, inputText: promptText, tools: AGENT_TOOLS, signal: req.signal });
 
-    // 3. Securely call the Bedrock Agent API
-    // The SDK handles all the complex signing that was failing
-    const response = await client.send(command);
+    if (wantsStream) {
+      const stream = new ReadableStream({
+        async start(controller) {
+          controller.enqueue(sseEvent("session", { sessionId }));
+          try {
+            for await (const event of events) {
+              if (event.type === "chunk") {
+                controller.enqueue(sseEvent("chunk", { text: event.text }));
+              } else {
+                controller.enqueue(sseEvent("trace", { trace: event.trace }));
+              }
+            }
+            controller.enqueue(sseEvent("done", { sessionId }));
+          } catch (err) {
+            if (!req.signal.aborted) {
+              console.error(`Error streaming ${provider.name} response:`, err);
+              controller.enqueue(sseEvent("error", { error: err instanceof Error ? err.message : "Unknown error" }));
+            }
+          } finally {
+            try {
+              controller.close();
+            } catch (_e) {
+              // Already closed because the client went away
+            }
+          }
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          "X-Session-Id": sessionId,
+        },
+      });
+    }
 
-    // 4. Decode the streaming response
+    // 3. Collect the whole response
     let bedrockResponseText = "";
-    const decoder = new TextDecoder();
-    if (response.completion) {
-      for await (const chunk of response.completion) {
-        if (chunk.chunk) {
-          bedrockResponseText += decoder.decode(chunk.chunk.bytes);
-        }
-      }
+    const traces: BedrockTrace[] = [];
+    for await (const event of events) {
+      if (event.type === "chunk") bedrockResponseText += event.text;
+      else traces.push(event.trace);
     }
 
-    // 5. Send the final text answer back to your React app
+    // 4. Send the final text answer back to your React app
     // This matches the response format your CFOChat.tsx is expecting
     return new Response(
       JSON.stringify({
         response: bedrockResponseText,
         visualizationData: null,
-        traces: null,
+        traces,
         sessionId: sessionId, // Include session ID in response body
       }),
       {
@@ -120,7 +131,7 @@ serve(async (req) => {
       },
     );
   } catch (err) {
-    console.error("Error calling Bedrock Agent:", err);
+    console.error("Error calling the model:", err);
     // Note: We can't read formData again here as it's already been consumed
     // Generate a new session ID for error responses
     const errorSessionId = crypto.randomUUID();
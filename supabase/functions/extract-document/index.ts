@@ -0,0 +1,74 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { extractText, getDocumentProxy } from "npm:unpdf@1";
+import { extractInvoice, type ExtractedInvoice } from "../_shared/invoiceExtraction.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+const decoder = new TextDecoder();
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Factur-X and ZUGFeRD PDFs carry the invoice as an embedded XML file, which
+ * is exact where the printed text is not. Plain PDFs fall back to the text
+ * layer; scanned images have neither and are left for manual entry.
+ */
+async function extractFromPdf(bytes: Uint8Array): Promise<ExtractedInvoice | null> {
+  const pdf = await getDocumentProxy(bytes);
+  const attachments = ((await pdf.getAttachments()) || {}) as Record<string, { filename: string; content: Uint8Array }>;
+  for (const attachment of Object.values(attachments)) {
+    if (!/\.xml$/i.test(attachment.filename)) continue;
+    const extracted = extractInvoice({ xml: decoder.decode(attachment.content) });
+    if (extracted) return extracted;
+  }
+  const { text } = await extractText(pdf, { mergePages: true });
+  return extractInvoice({ text: String(text) });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const formData = await req.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return json({ error: "A file is required" }, 400);
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return json({ error: "File is larger than 10 MB" }, 413);
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const isXml = /\.xml$/i.test(file.name) || /xml/.test(file.type);
+    const extraction = isXml ? extractInvoice({ xml: decoder.decode(bytes) }) : await extractFromPdf(bytes);
+
+    if (!extraction) {
+      return json(
+        {
+          error: isXml
+            ? "Not a UBL or Factur-X/ZUGFeRD invoice"
+            : "PDF has no text layer (scanned image); enter it by hand",
+        },
+        422,
+      );
+    }
+    return json({ extraction });
+  } catch (err) {
+    console.error("Error extracting document:", err);
+    return json({ error: err instanceof Error ? err.message : "Unknown error" }, 500);
+  }
+});
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createServiceClient, fetchAllRows } from "../_shared/ledger.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,7 +12,12 @@ serve(async (req) => {
   }
 
   try {
-    const { data, type = "financial" } = await req.json();
+    const body = await req.json();
+    const type = body.type || "financial";
+    // Callers can either post records directly or ask for the imported ledger
+    const data = body.source === "ledger"
+      ? await loadLedgerTransactions(body.start, body.end)
+      : body.data;
 
     if (!data || !Array.isArray(data)) {
       return new Response(
@@ -38,6 +44,23 @@ serve(async (req) => {
   }
 });
 
+// Read ledger transactions in the { date, amount, category, type } shape processFinancialData expects
+function loadLedgerTransactions(start?: string, end?: string) {
+  const supabase = createServiceClient();
+  return fetchAllRows<{ date: string; amount: number; category: string | null; type: string }>(
+    "transactions",
+    (from, to) => {
+      let query = supabase
+        .from("transactions")
+        .select("date, amount, category, type")
+        .in("type", ["income", "expense"]);
+      if (start) query = query.gte("date", start);
+      if (end) query = query.lte("date", end);
+      return query.order("date").order("id").range(from, to);
+    },
+  );
+}
+
 function processData(data: any[], type: string) {
   switch (type) {
     case "financial":
@@ -0,0 +1,115 @@
+-- Core ledger tables backing the CFO dashboard.
+-- Amounts are stored as positive numerics; the direction of a transaction
+-- comes from its `type` column.
+
+CREATE TYPE public.account_type AS ENUM ('asset', 'liability', 'equity', 'income', 'expense');
+CREATE TYPE public.transaction_type AS ENUM ('income', 'expense', 'transfer');
+CREATE TYPE public.invoice_status AS ENUM ('draft', 'sent', 'partially_paid', 'paid', 'void');
+
+CREATE TABLE public.accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT,
+  name TEXT NOT NULL,
+  type public.account_type NOT NULL,
+  -- Finer grained classification, e.g. 'bank', 'cash', 'credit_card'
+  subtype TEXT,
+  opening_balance NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  opening_balance_date DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.vendors (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  email TEXT,
+  default_category TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.customers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  email TEXT,
+  -- Revenue channel the customer usually buys through (Retail In-Store, Online, Wholesale)
+  channel TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_number TEXT NOT NULL UNIQUE,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  issue_date DATE NOT NULL,
+  due_date DATE NOT NULL,
+  total NUMERIC(14, 2) NOT NULL CHECK (total >= 0),
+  amount_paid NUMERIC(14, 2) NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  status public.invoice_status NOT NULL DEFAULT 'sent',
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  date DATE NOT NULL,
+  description TEXT,
+  amount NUMERIC(14, 2) NOT NULL CHECK (amount >= 0),
+  type public.transaction_type NOT NULL,
+  category TEXT,
+  -- Revenue channel for income rows (Retail In-Store, Online, Wholesale)
+  channel TEXT,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  reference TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX transactions_date_idx ON public.transactions (date);
+CREATE INDEX transactions_type_date_idx ON public.transactions (type, date);
+CREATE INDEX transactions_vendor_id_idx ON public.transactions (vendor_id);
+CREATE INDEX transactions_customer_id_idx ON public.transactions (customer_id);
+CREATE INDEX invoices_due_date_idx ON public.invoices (due_date);
+
+-- Keep updated_at current on every write
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER accounts_set_updated_at BEFORE UPDATE ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+CREATE TRIGGER vendors_set_updated_at BEFORE UPDATE ON public.vendors
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+CREATE TRIGGER customers_set_updated_at BEFORE UPDATE ON public.customers
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+CREATE TRIGGER invoices_set_updated_at BEFORE UPDATE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+CREATE TRIGGER transactions_set_updated_at BEFORE UPDATE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- The app runs without user accounts for now, so the ledger is readable and
+-- writable with the publishable key.
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vendors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public access to accounts" ON public.accounts FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to vendors" ON public.vendors FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to customers" ON public.customers FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to invoices" ON public.invoices FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to transactions" ON public.transactions FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,19 @@
+-- Saved column mappings for the CSV/XLSX import wizard
+CREATE TABLE public.import_presets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  -- { columns: { date: "Date", amount: "Amount", ... }, defaultType, dateFormat }
+  mapping JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER import_presets_set_updated_at BEFORE UPDATE ON public.import_presets
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Imported rows remember which file they came from so a bad import can be rolled back
+ALTER TABLE public.transactions ADD COLUMN import_batch_id UUID;
+CREATE INDEX transactions_import_batch_id_idx ON public.transactions (import_batch_id);
+
+ALTER TABLE public.import_presets ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public access to import_presets" ON public.import_presets FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,37 @@
+-- Persisted CFO chat conversations
+CREATE TABLE public.chat_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL DEFAULT 'New conversation',
+  pinned BOOLEAN NOT NULL DEFAULT false,
+  -- Bedrock agent session, so resuming a thread keeps the agent's memory
+  session_id TEXT NOT NULL,
+  last_message_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.chat_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID NOT NULL REFERENCES public.chat_threads(id) ON DELETE CASCADE,
+  -- Order within the thread; reasoning steps are stored alongside the answers
+  position INTEGER NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('user', 'rationale', 'agent_call', 'agent_response', 'final_response')),
+  content TEXT NOT NULL,
+  agent_name TEXT,
+  visualization_data JSONB,
+  -- [{ name, size, type }]; file contents are not kept
+  attachments JSONB,
+  cancelled BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (thread_id, position)
+);
+
+CREATE INDEX chat_threads_last_message_at_idx ON public.chat_threads (pinned DESC, last_message_at DESC);
+
+CREATE TRIGGER chat_threads_set_updated_at BEFORE UPDATE ON public.chat_threads
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.chat_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public access to chat_threads" ON public.chat_threads FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to chat_messages" ON public.chat_messages FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,27 @@
+-- Monthly spending budgets, compared against expense transactions in the
+-- variance report
+CREATE TYPE public.budget_dimension AS ENUM ('category', 'department', 'vendor');
+
+CREATE TABLE public.budgets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  dimension public.budget_dimension NOT NULL,
+  -- Category or department name, or the vendor's name
+  name TEXT NOT NULL,
+  -- First day of the budgeted month
+  month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  amount NUMERIC(14, 2) NOT NULL CHECK (amount >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (dimension, name, month)
+);
+
+CREATE INDEX budgets_month_idx ON public.budgets (month);
+
+CREATE TRIGGER budgets_set_updated_at BEFORE UPDATE ON public.budgets
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Department (cost centre) that incurred the spend, so it can be budgeted
+ALTER TABLE public.transactions ADD COLUMN department TEXT;
+
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public access to budgets" ON public.budgets FOR ALL USING (true) WITH CHECK (true);
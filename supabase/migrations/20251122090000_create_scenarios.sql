@@ -0,0 +1,18 @@
+-- What-if scenarios: a named list of adjustments applied on top of the cash
+-- forecast (supabase/functions/_shared/scenarios.ts describes the shape)
+CREATE TABLE public.scenarios (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  adjustments JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(adjustments) = 'array'),
+  -- Who created it: someone in the workspace, or the agent's create_scenario tool
+  source TEXT NOT NULL DEFAULT 'user' CHECK (source IN ('user', 'agent')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER scenarios_set_updated_at BEFORE UPDATE ON public.scenarios
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.scenarios ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public access to scenarios" ON public.scenarios FOR ALL USING (true) WITH CHECK (true);
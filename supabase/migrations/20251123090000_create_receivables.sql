@@ -0,0 +1,76 @@
+-- Accounts receivable: invoice line items, and payments recorded against an
+-- invoice as linked income transactions
+CREATE TABLE public.invoice_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  description TEXT NOT NULL,
+  quantity NUMERIC(14, 4) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price NUMERIC(14, 2) NOT NULL CHECK (unit_price >= 0),
+  amount NUMERIC(14, 2) GENERATED ALWAYS AS (round(quantity * unit_price, 2)) STORED,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX invoice_lines_invoice_id_idx ON public.invoice_lines (invoice_id, position);
+CREATE INDEX invoices_customer_id_idx ON public.invoices (customer_id);
+CREATE INDEX transactions_invoice_id_idx ON public.transactions (invoice_id);
+
+CREATE TRIGGER invoice_lines_set_updated_at BEFORE UPDATE ON public.invoice_lines
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Record a (possibly partial) payment: the income transaction and the
+-- invoice's amount_paid and status change together or not at all
+CREATE OR REPLACE FUNCTION public.record_invoice_payment(
+  p_invoice_id UUID,
+  p_amount NUMERIC,
+  p_date DATE,
+  p_account_id UUID DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  outstanding NUMERIC;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found', p_invoice_id;
+  END IF;
+  IF invoice.status IN ('draft', 'void', 'paid') THEN
+    RAISE EXCEPTION 'Invoice % is %, so no payment can be recorded', invoice.invoice_number, invoice.status;
+  END IF;
+
+  outstanding := invoice.total - invoice.amount_paid;
+  IF p_amount <= 0 OR p_amount > outstanding THEN
+    RAISE EXCEPTION 'Payment must be more than 0 and at most the % outstanding', outstanding;
+  END IF;
+
+  INSERT INTO public.transactions (date, description, amount, type, channel, account_id, customer_id, invoice_id, reference)
+  VALUES (
+    p_date,
+    'Payment for invoice ' || invoice.invoice_number,
+    p_amount,
+    'income',
+    (SELECT channel FROM public.customers WHERE id = invoice.customer_id),
+    p_account_id,
+    invoice.customer_id,
+    invoice.id,
+    p_reference
+  );
+
+  UPDATE public.invoices
+  SET amount_paid = amount_paid + p_amount,
+      status = CASE WHEN amount_paid + p_amount >= total THEN 'paid' ELSE 'partially_paid' END::public.invoice_status
+  WHERE id = invoice.id
+  RETURNING * INTO invoice;
+
+  RETURN invoice;
+END;
+$$;
+
+ALTER TABLE public.invoice_lines ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public access to invoice_lines" ON public.invoice_lines FOR ALL USING (true) WITH CHECK (true);
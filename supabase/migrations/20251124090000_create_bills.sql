@@ -0,0 +1,114 @@
+-- Accounts payable: vendor bills with terms, early-payment discounts and an
+-- approval state, paid through linked expense transactions
+CREATE TYPE public.bill_status AS ENUM ('open', 'partially_paid', 'paid', 'void');
+CREATE TYPE public.bill_approval_status AS ENUM ('pending', 'approved', 'rejected');
+
+CREATE TABLE public.bills (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bill_number TEXT NOT NULL,
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  issue_date DATE NOT NULL,
+  due_date DATE NOT NULL,
+  -- Days from the issue date to the due date, e.g. 30 for net 30
+  terms_days INTEGER NOT NULL DEFAULT 30 CHECK (terms_days >= 0),
+  -- Early-payment discount, e.g. 2% within 10 days for "2/10 net 30"
+  discount_percent NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (discount_percent >= 0 AND discount_percent < 100),
+  discount_days INTEGER CHECK (discount_days >= 0),
+  total NUMERIC(14, 2) NOT NULL CHECK (total >= 0),
+  amount_paid NUMERIC(14, 2) NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  discount_taken NUMERIC(14, 2) NOT NULL DEFAULT 0 CHECK (discount_taken >= 0),
+  status public.bill_status NOT NULL DEFAULT 'open',
+  approval_status public.bill_approval_status NOT NULL DEFAULT 'pending',
+  approved_at TIMESTAMPTZ,
+  -- Date payment is planned for; the cash forecast uses it instead of the due date
+  scheduled_date DATE,
+  category TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (vendor_id, bill_number)
+);
+
+CREATE INDEX bills_due_date_idx ON public.bills (due_date);
+CREATE INDEX bills_vendor_id_idx ON public.bills (vendor_id);
+
+ALTER TABLE public.transactions ADD COLUMN bill_id UUID REFERENCES public.bills(id) ON DELETE SET NULL;
+CREATE INDEX transactions_bill_id_idx ON public.transactions (bill_id);
+
+CREATE TRIGGER bills_set_updated_at BEFORE UPDATE ON public.bills
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Record a (possibly partial) payment like record_invoice_payment. Taking the
+-- early-payment discount settles the bill, so it needs the full discounted
+-- amount paid within the discount window.
+CREATE OR REPLACE FUNCTION public.record_bill_payment(
+  p_bill_id UUID,
+  p_amount NUMERIC,
+  p_date DATE,
+  p_account_id UUID DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_take_discount BOOLEAN DEFAULT false
+)
+RETURNS public.bills
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  bill public.bills;
+  discount NUMERIC := 0;
+  outstanding NUMERIC;
+BEGIN
+  SELECT * INTO bill FROM public.bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill % not found', p_bill_id;
+  END IF;
+  IF bill.status IN ('void', 'paid') THEN
+    RAISE EXCEPTION 'Bill % is %, so no payment can be recorded', bill.bill_number, bill.status;
+  END IF;
+  IF bill.approval_status <> 'approved' THEN
+    RAISE EXCEPTION 'Bill % must be approved before it is paid', bill.bill_number;
+  END IF;
+
+  IF p_take_discount THEN
+    IF bill.discount_percent = 0 OR bill.discount_days IS NULL OR bill.amount_paid > 0
+      OR p_date > bill.issue_date + bill.discount_days THEN
+      RAISE EXCEPTION 'The early-payment discount on bill % is not available', bill.bill_number;
+    END IF;
+    discount := round(bill.total * bill.discount_percent / 100, 2);
+    IF p_amount <> bill.total - discount THEN
+      RAISE EXCEPTION 'Taking the discount requires paying the full % in one payment', bill.total - discount;
+    END IF;
+  END IF;
+
+  outstanding := bill.total - bill.amount_paid - discount;
+  IF p_amount <= 0 OR p_amount > outstanding THEN
+    RAISE EXCEPTION 'Payment must be more than 0 and at most the % outstanding', outstanding;
+  END IF;
+
+  INSERT INTO public.transactions (date, description, amount, type, category, account_id, vendor_id, bill_id, reference)
+  VALUES (
+    p_date,
+    'Payment for bill ' || bill.bill_number,
+    p_amount,
+    'expense',
+    bill.category,
+    p_account_id,
+    bill.vendor_id,
+    bill.id,
+    p_reference
+  );
+
+  UPDATE public.bills
+  SET amount_paid = amount_paid + p_amount,
+      discount_taken = discount,
+      status = CASE WHEN amount_paid + p_amount + discount >= total THEN 'paid' ELSE 'partially_paid' END::public.bill_status,
+      scheduled_date = NULL
+  WHERE id = bill.id
+  RETURNING * INTO bill;
+
+  RETURN bill;
+END;
+$$;
+
+ALTER TABLE public.bills ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public access to bills" ON public.bills FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,129 @@
+-- Bank statements imported from OFX/QFX, CAMT.053 or CSV files, and their
+-- lines as reconciled against the ledger. Amounts on statement lines are
+-- signed as the bank reports them: positive for money in, negative for out.
+CREATE TYPE public.bank_line_status AS ENUM ('unmatched', 'matched', 'ignored');
+
+CREATE TABLE public.bank_statements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  format TEXT NOT NULL CHECK (format IN ('ofx', 'camt053', 'csv')),
+  file_name TEXT,
+  -- Account number as printed on the statement, for reference only
+  account_number TEXT,
+  currency TEXT,
+  period_start DATE,
+  period_end DATE NOT NULL,
+  opening_balance NUMERIC(14, 2),
+  -- The bank's balance at the end of period_end; cash on hand builds on it
+  closing_balance NUMERIC(14, 2),
+  line_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.bank_statement_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  statement_id UUID NOT NULL REFERENCES public.bank_statements(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  amount NUMERIC(14, 2) NOT NULL,
+  description TEXT,
+  reference TEXT,
+  -- The bank's id for the line (FITID, AcctSvcrRef), or a fingerprint of it,
+  -- so importing an overlapping statement skips lines already loaded
+  external_id TEXT NOT NULL,
+  status public.bank_line_status NOT NULL DEFAULT 'unmatched',
+  -- Ledger transaction the line was reconciled to; a matched line whose
+  -- transaction was deleted counts as unmatched again
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  matched_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (account_id, external_id)
+);
+
+CREATE INDEX bank_statements_account_id_idx ON public.bank_statements (account_id, period_end);
+CREATE INDEX bank_statement_lines_account_date_idx ON public.bank_statement_lines (account_id, date);
+CREATE INDEX bank_statement_lines_transaction_id_idx ON public.bank_statement_lines (transaction_id);
+
+CREATE TRIGGER bank_statements_set_updated_at BEFORE UPDATE ON public.bank_statements
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+CREATE TRIGGER bank_statement_lines_set_updated_at BEFORE UPDATE ON public.bank_statement_lines
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Reconcile a statement line to an existing transaction, to an invoice (which
+-- records the payment), or, with neither, to a new transaction made from the
+-- line itself. The transaction takes the statement's account if it had none.
+CREATE OR REPLACE FUNCTION public.reconcile_bank_line(
+  p_line_id UUID,
+  p_transaction_id UUID DEFAULT NULL,
+  p_invoice_id UUID DEFAULT NULL,
+  p_category TEXT DEFAULT NULL
+)
+RETURNS public.bank_statement_lines
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  line public.bank_statement_lines;
+  matched_id UUID;
+BEGIN
+  SELECT * INTO line FROM public.bank_statement_lines WHERE id = p_line_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Statement line % not found', p_line_id;
+  END IF;
+  IF line.status = 'matched' AND line.transaction_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Statement line is already reconciled';
+  END IF;
+
+  IF p_transaction_id IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM public.bank_statement_lines
+      WHERE transaction_id = p_transaction_id AND status = 'matched' AND id <> line.id
+    ) THEN
+      RAISE EXCEPTION 'That transaction is already reconciled to another statement line';
+    END IF;
+    UPDATE public.transactions
+    SET account_id = COALESCE(account_id, line.account_id)
+    WHERE id = p_transaction_id
+    RETURNING id INTO matched_id;
+    IF matched_id IS NULL THEN
+      RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+    END IF;
+  ELSIF p_invoice_id IS NOT NULL THEN
+    IF line.amount <= 0 THEN
+      RAISE EXCEPTION 'Only money received can pay an invoice';
+    END IF;
+    PERFORM public.record_invoice_payment(p_invoice_id, line.amount, line.date, line.account_id, COALESCE(line.reference, line.description));
+    SELECT id INTO matched_id FROM public.transactions
+    WHERE invoice_id = p_invoice_id
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1;
+  ELSE
+    INSERT INTO public.transactions (date, description, amount, type, category, account_id, reference)
+    VALUES (
+      line.date,
+      line.description,
+      abs(line.amount),
+      CASE WHEN line.amount >= 0 THEN 'income' ELSE 'expense' END::public.transaction_type,
+      p_category,
+      line.account_id,
+      line.reference
+    )
+    RETURNING id INTO matched_id;
+  END IF;
+
+  UPDATE public.bank_statement_lines
+  SET status = 'matched', transaction_id = matched_id, matched_at = now()
+  WHERE id = line.id
+  RETURNING * INTO line;
+
+  RETURN line;
+END;
+$$;
+
+ALTER TABLE public.bank_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public access to bank_statements" ON public.bank_statements FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to bank_statement_lines" ON public.bank_statement_lines FOR ALL USING (true) WITH CHECK (true);
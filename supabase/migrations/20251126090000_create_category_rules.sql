@@ -0,0 +1,63 @@
+-- Automatic transaction categorisation: user-defined rules, plus a record on
+-- each transaction of how its category was chosen so hand corrections can be
+-- learned from and are never overwritten by a re-run.
+CREATE TYPE public.category_source AS ENUM ('manual', 'rule', 'learned');
+
+CREATE TABLE public.category_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  -- Conditions; every one that is set must hold
+  payee_contains TEXT,
+  min_amount NUMERIC(14, 2),
+  max_amount NUMERIC(14, 2),
+  account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE,
+  -- Income or expense only; null applies to both
+  transaction_type public.transaction_type,
+  -- Lower runs first; the first matching rule wins
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (payee_contains IS NOT NULL OR min_amount IS NOT NULL OR max_amount IS NOT NULL OR account_id IS NOT NULL),
+  CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+);
+
+CREATE TRIGGER category_rules_set_updated_at BEFORE UPDATE ON public.category_rules
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Null source means the category came with the row (import or manual entry)
+ALTER TABLE public.transactions
+  ADD COLUMN category_source public.category_source,
+  ADD COLUMN category_rule_id UUID REFERENCES public.category_rules(id) ON DELETE SET NULL,
+  ADD COLUMN category_reason TEXT;
+
+CREATE INDEX transactions_category_source_idx ON public.transactions (category_source);
+
+-- Apply a batch of categorisation results in one statement. Each element is
+-- {"id", "category", "source", "rule_id", "reason"}; hand-set categories are
+-- left alone even if a stale preview includes them.
+CREATE OR REPLACE FUNCTION public.apply_category_changes(p_changes JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  UPDATE public.transactions t
+  SET category = c.category,
+      category_source = c.source::public.category_source,
+      category_rule_id = c.rule_id,
+      category_reason = c.reason
+  FROM jsonb_to_recordset(p_changes) AS c(id UUID, category TEXT, source TEXT, rule_id UUID, reason TEXT)
+  WHERE t.id = c.id
+    AND t.category_source IS DISTINCT FROM 'manual';
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+ALTER TABLE public.category_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public access to category_rules" ON public.category_rules FOR ALL USING (true) WITH CHECK (true);
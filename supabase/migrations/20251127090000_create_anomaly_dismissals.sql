@@ -0,0 +1,15 @@
+-- Anomaly detection runs over the ledger on every read, so only the
+-- findings someone has looked at and dismissed are stored. Card and POS
+-- exports also carry a time of day, which after-hours spend is checked on.
+ALTER TABLE public.transactions ADD COLUMN transaction_time TIME;
+
+CREATE TABLE public.anomaly_dismissals (
+  -- The finding's stable key, e.g. duplicate_payment:<ids>
+  key TEXT NOT NULL PRIMARY KEY,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.anomaly_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public access to anomaly_dismissals" ON public.anomaly_dismissals FOR ALL USING (true) WITH CHECK (true);
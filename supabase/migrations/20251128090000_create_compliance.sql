@@ -0,0 +1,141 @@
+-- Compliance rules engine: configurable rules evaluated over the ledger and a
+-- register of the findings they raise. Findings are keyed by rule and subject
+-- so re-running the checks updates them in place and keeps their status,
+-- owner and resolution notes.
+CREATE TYPE public.compliance_rule_kind AS ENUM (
+  'approval_threshold',
+  'receipt_required',
+  'vendor_tax_docs',
+  'segregation_of_duties'
+);
+
+CREATE TYPE public.compliance_severity AS ENUM ('high', 'medium', 'low');
+
+CREATE TYPE public.compliance_finding_status AS ENUM ('open', 'in_review', 'resolved', 'waived');
+
+CREATE TABLE public.compliance_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  kind public.compliance_rule_kind NOT NULL,
+  -- Amount the rule starts at; per payment, or per vendor and year for tax docs
+  threshold NUMERIC(14, 2) CHECK (threshold IS NULL OR threshold >= 0),
+  -- Limit the rule to one expense category; null checks every category
+  category TEXT,
+  severity public.compliance_severity NOT NULL DEFAULT 'medium',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (kind = 'segregation_of_duties' OR threshold IS NOT NULL)
+);
+
+CREATE TRIGGER compliance_rules_set_updated_at BEFORE UPDATE ON public.compliance_rules
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+INSERT INTO public.compliance_rules (name, kind, threshold, severity) VALUES
+  ('Approval over $5,000', 'approval_threshold', 5000, 'high'),
+  ('Receipt over $75', 'receipt_required', 75, 'medium'),
+  ('Vendor tax form over $600 a year', 'vendor_tax_docs', 600, 'medium'),
+  ('Bill approver differs from preparer', 'segregation_of_duties', NULL, 'high');
+
+CREATE TABLE public.compliance_findings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Rule id and subject, e.g. "<rule id>:txn:<transaction id>"
+  key TEXT NOT NULL UNIQUE,
+  rule_id UUID REFERENCES public.compliance_rules(id) ON DELETE SET NULL,
+  kind public.compliance_rule_kind NOT NULL,
+  severity public.compliance_severity NOT NULL,
+  title TEXT NOT NULL,
+  detail TEXT NOT NULL,
+  date DATE NOT NULL,
+  amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  transaction_ids UUID[] NOT NULL DEFAULT '{}',
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  bill_id UUID REFERENCES public.bills(id) ON DELETE SET NULL,
+  status public.compliance_finding_status NOT NULL DEFAULT 'open',
+  owner TEXT,
+  resolution_notes TEXT,
+  resolved_at TIMESTAMPTZ,
+  -- Resolved because a re-run no longer raised it; a later run reopens it
+  auto_resolved BOOLEAN NOT NULL DEFAULT false,
+  first_detected_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_detected_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX compliance_findings_status_idx ON public.compliance_findings (status);
+
+CREATE TRIGGER compliance_findings_set_updated_at BEFORE UPDATE ON public.compliance_findings
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Vendor tax documentation (W-9 or equivalent) for the tax docs rule
+ALTER TABLE public.vendors
+  ADD COLUMN tax_id TEXT,
+  ADD COLUMN tax_form_received_on DATE;
+
+-- Who entered and approved a bill, for the segregation of duties rule
+ALTER TABLE public.bills
+  ADD COLUMN entered_by TEXT,
+  ADD COLUMN approved_by TEXT;
+
+-- Store the result of a compliance run. p_findings holds every finding the
+-- active rules raise now, each {"key", "rule_id", "kind", "severity", "title",
+-- "detail", "date", "amount", "transaction_ids", "vendor_id", "bill_id"}.
+-- New keys open a finding; known keys are refreshed without touching their
+-- status, owner or notes, and reopen if a previous run cleared them; open
+-- findings the run no longer raises are resolved automatically.
+CREATE OR REPLACE FUNCTION public.sync_compliance_findings(p_findings JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  opened INTEGER;
+  cleared INTEGER;
+BEGIN
+  WITH incoming AS (
+    SELECT *
+    FROM jsonb_to_recordset(p_findings) AS f(
+      key TEXT, rule_id UUID, kind TEXT, severity TEXT, title TEXT, detail TEXT,
+      date DATE, amount NUMERIC, transaction_ids UUID[], vendor_id UUID, bill_id UUID
+    )
+  ),
+  upserted AS (
+    INSERT INTO public.compliance_findings AS cf
+      (key, rule_id, kind, severity, title, detail, date, amount, transaction_ids, vendor_id, bill_id)
+    SELECT key, rule_id, kind::public.compliance_rule_kind, severity::public.compliance_severity, title, detail,
+           date, COALESCE(amount, 0), COALESCE(transaction_ids, '{}'), vendor_id, bill_id
+    FROM incoming
+    ON CONFLICT (key) DO UPDATE
+    SET rule_id = EXCLUDED.rule_id,
+        severity = EXCLUDED.severity,
+        title = EXCLUDED.title,
+        detail = EXCLUDED.detail,
+        date = EXCLUDED.date,
+        amount = EXCLUDED.amount,
+        transaction_ids = EXCLUDED.transaction_ids,
+        vendor_id = EXCLUDED.vendor_id,
+        bill_id = EXCLUDED.bill_id,
+        last_detected_at = now(),
+        status = CASE WHEN cf.auto_resolved THEN 'open'::public.compliance_finding_status ELSE cf.status END,
+        resolved_at = CASE WHEN cf.auto_resolved THEN NULL ELSE cf.resolved_at END,
+        auto_resolved = false
+    RETURNING (xmax = 0) AS inserted
+  )
+  SELECT count(*) FILTER (WHERE inserted) INTO opened FROM upserted;
+
+  UPDATE public.compliance_findings
+  SET status = 'resolved', resolved_at = now(), auto_resolved = true
+  WHERE status IN ('open', 'in_review')
+    AND key NOT IN (SELECT f->>'key' FROM jsonb_array_elements(p_findings) AS f);
+  GET DIAGNOSTICS cleared = ROW_COUNT;
+
+  RETURN jsonb_build_object('opened', opened, 'cleared', cleared);
+END;
+$$;
+
+ALTER TABLE public.compliance_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.compliance_findings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public access to compliance_rules" ON public.compliance_rules FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to compliance_findings" ON public.compliance_findings FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,81 @@
+-- Regulatory obligations and their deadlines: recurring filings such as sales
+-- tax, payroll and annual returns, each deadline's checklist progress and
+-- completion, and the evidence filed for it. Deadlines are computed from the
+-- obligation's schedule; a filing row exists once work on one has started.
+CREATE TYPE public.obligation_frequency AS ENUM ('monthly', 'quarterly', 'semiannual', 'annual', 'once');
+
+CREATE TYPE public.filing_status AS ENUM ('in_progress', 'completed', 'not_required');
+
+CREATE TABLE public.compliance_obligations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Regulation, form or registration number, e.g. "Form 941"
+  reference TEXT,
+  -- Who the filing goes to, e.g. "IRS" or "State Dept. of Revenue"
+  authority TEXT,
+  description TEXT,
+  frequency public.obligation_frequency NOT NULL,
+  -- Later deadlines repeat from this one, on the same day of the month
+  first_due_date DATE NOT NULL,
+  -- No deadlines after this date, e.g. when a registration is closed
+  end_date DATE,
+  -- Days before a deadline it shows as due soon
+  reminder_days INTEGER NOT NULL DEFAULT 14 CHECK (reminder_days >= 0),
+  assignee TEXT,
+  -- Steps to tick off for every deadline
+  checklist TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= first_due_date)
+);
+
+CREATE TRIGGER compliance_obligations_set_updated_at BEFORE UPDATE ON public.compliance_obligations
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE TABLE public.compliance_filings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  obligation_id UUID NOT NULL REFERENCES public.compliance_obligations(id) ON DELETE CASCADE,
+  due_date DATE NOT NULL,
+  status public.filing_status NOT NULL DEFAULT 'in_progress',
+  -- Overrides the obligation's assignee for this deadline
+  assignee TEXT,
+  completed_steps TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  completed_at TIMESTAMPTZ,
+  completed_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (obligation_id, due_date)
+);
+
+CREATE TRIGGER compliance_filings_set_updated_at BEFORE UPDATE ON public.compliance_filings
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Files kept in the compliance-evidence storage bucket
+CREATE TABLE public.compliance_evidence (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  filing_id UUID NOT NULL REFERENCES public.compliance_filings(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  content_type TEXT,
+  size_bytes BIGINT,
+  uploaded_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX compliance_evidence_filing_id_idx ON public.compliance_evidence (filing_id);
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('compliance-evidence', 'compliance-evidence', false)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.compliance_obligations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.compliance_filings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.compliance_evidence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public access to compliance_obligations" ON public.compliance_obligations FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to compliance_filings" ON public.compliance_filings FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to compliance_evidence" ON public.compliance_evidence FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to compliance evidence files" ON storage.objects FOR ALL
+  USING (bucket_id = 'compliance-evidence') WITH CHECK (bucket_id = 'compliance-evidence');
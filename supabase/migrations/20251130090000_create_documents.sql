@@ -0,0 +1,42 @@
+-- The document vault: receipts, invoices and contracts kept in storage and
+-- attached to the transaction, vendor, invoice or bill they support. A
+-- receipt or invoice attached to an expense satisfies the receipt rule.
+CREATE TYPE public.document_kind AS ENUM ('receipt', 'invoice', 'contract', 'other');
+
+CREATE TABLE public.documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind public.document_kind NOT NULL DEFAULT 'receipt',
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  content_type TEXT,
+  size_bytes BIGINT,
+  -- Small JPEG data URL for image files, so the vault lists without downloads
+  thumbnail TEXT,
+  notes TEXT,
+  uploaded_by TEXT,
+  -- What the document supports; it stays in the vault if that record goes
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  bill_id UUID REFERENCES public.bills(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX documents_transaction_id_idx ON public.documents (transaction_id);
+CREATE INDEX documents_vendor_id_idx ON public.documents (vendor_id);
+CREATE INDEX documents_invoice_id_idx ON public.documents (invoice_id);
+CREATE INDEX documents_bill_id_idx ON public.documents (bill_id);
+
+CREATE TRIGGER documents_set_updated_at BEFORE UPDATE ON public.documents
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public access to documents" ON public.documents FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to document files" ON storage.objects FOR ALL
+  USING (bucket_id = 'documents') WITH CHECK (bucket_id = 'documents');
@@ -0,0 +1,46 @@
+-- Drafts read from uploaded invoices and receipts (UBL, Factur-X/ZUGFeRD or
+-- the PDF text layer). A person reviews each one and posts it as a bill or a
+-- transaction; nothing reaches the ledger without that confirmation.
+CREATE TYPE public.document_draft_status AS ENUM ('pending', 'posted', 'discarded');
+CREATE TYPE public.document_draft_target AS ENUM ('transaction', 'bill');
+
+CREATE TABLE public.document_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  status public.document_draft_status NOT NULL DEFAULT 'pending',
+  target public.document_draft_target NOT NULL DEFAULT 'transaction',
+  -- ubl, cii or pdf_text
+  source_format TEXT NOT NULL,
+  -- invoice, credit_note or receipt
+  document_type TEXT NOT NULL DEFAULT 'invoice',
+  invoice_number TEXT,
+  vendor_name TEXT,
+  vendor_tax_id TEXT,
+  issue_date DATE,
+  due_date DATE,
+  currency TEXT,
+  subtotal NUMERIC(14, 2),
+  tax NUMERIC(14, 2),
+  total NUMERIC(14, 2),
+  category TEXT,
+  -- [{ description, quantity, unitPrice, amount }]
+  lines JSONB NOT NULL DEFAULT '[]',
+  -- What the extraction was unsure of, for the reviewer
+  warnings TEXT[] NOT NULL DEFAULT '{}',
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  bill_id UUID REFERENCES public.bills(id) ON DELETE SET NULL,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX document_drafts_status_idx ON public.document_drafts (status);
+CREATE INDEX document_drafts_document_id_idx ON public.document_drafts (document_id);
+
+CREATE TRIGGER document_drafts_set_updated_at BEFORE UPDATE ON public.document_drafts
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.document_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public access to document drafts" ON public.document_drafts FOR ALL USING (true) WITH CHECK (true);
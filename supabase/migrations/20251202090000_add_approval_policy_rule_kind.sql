@@ -0,0 +1,4 @@
+-- Compliance rule for spend that an approval policy covers but that has not
+-- been signed off. Added on its own because a new enum value cannot be used
+-- in the transaction that adds it; the approvals migration seeds the rule.
+ALTER TYPE public.compliance_rule_kind ADD VALUE IF NOT EXISTS 'approval_policy';
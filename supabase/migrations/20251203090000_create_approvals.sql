@@ -0,0 +1,284 @@
+-- Approval workflows: policies by amount, category and vendor name the
+-- approvers a bill or expense needs, in order. Each request keeps a copy of
+-- what was asked for and an append-only history of every request, decision
+-- and comment, so the record stands even if the policy or the spend changes.
+CREATE TYPE public.approval_subject AS ENUM ('bill', 'expense');
+CREATE TYPE public.approval_request_status AS ENUM ('pending', 'approved', 'rejected');
+CREATE TYPE public.approval_action_kind AS ENUM ('requested', 'approved', 'rejected', 'commented');
+
+CREATE TABLE public.approval_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  applies_to public.approval_subject NOT NULL DEFAULT 'bill',
+  -- Spend over this amount needs approval
+  threshold NUMERIC(14, 2) NOT NULL DEFAULT 0 CHECK (threshold >= 0),
+  -- Limit the policy to one category or vendor; null covers all of them
+  category TEXT,
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE CASCADE,
+  -- Who signs off, one name per step, in order
+  approvers TEXT[] NOT NULL CHECK (cardinality(approvers) > 0),
+  -- Lower runs first; the first matching policy applies
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER approval_policies_set_updated_at BEFORE UPDATE ON public.approval_policies
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE TABLE public.approval_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject public.approval_subject NOT NULL,
+  bill_id UUID REFERENCES public.bills(id) ON DELETE SET NULL,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  policy_id UUID REFERENCES public.approval_policies(id) ON DELETE SET NULL,
+  -- Copied when the request is raised
+  policy_name TEXT NOT NULL,
+  approvers TEXT[] NOT NULL,
+  amount NUMERIC(14, 2) NOT NULL,
+  description TEXT NOT NULL,
+  spend_date DATE NOT NULL,
+  requested_by TEXT,
+  status public.approval_request_status NOT NULL DEFAULT 'pending',
+  -- Zero-based index into approvers of the step waiting for a decision
+  current_step INTEGER NOT NULL DEFAULT 0,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One live request per bill or expense; a rejected one can be raised again
+CREATE UNIQUE INDEX approval_requests_live_bill_idx ON public.approval_requests (bill_id)
+  WHERE status IN ('pending', 'approved');
+CREATE UNIQUE INDEX approval_requests_live_transaction_idx ON public.approval_requests (transaction_id)
+  WHERE status IN ('pending', 'approved');
+CREATE INDEX approval_requests_status_idx ON public.approval_requests (status);
+
+CREATE TRIGGER approval_requests_set_updated_at BEFORE UPDATE ON public.approval_requests
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE TABLE public.approval_actions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.approval_requests(id),
+  action public.approval_action_kind NOT NULL,
+  -- Zero-based step the action was taken at
+  step INTEGER NOT NULL DEFAULT 0,
+  actor TEXT,
+  comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX approval_actions_request_id_idx ON public.approval_actions (request_id);
+
+-- The history is the audit record: rows are only ever added
+CREATE OR REPLACE FUNCTION public.prevent_approval_action_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Approval history is append-only';
+END;
+$$;
+
+CREATE TRIGGER approval_actions_append_only BEFORE UPDATE OR DELETE ON public.approval_actions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_approval_action_changes();
+
+-- Requests are never deleted and what they record never changes. Only the
+-- progress of a pending request moves, and links clear if the bill,
+-- transaction or policy they point at is deleted.
+CREATE OR REPLACE FUNCTION public.protect_approval_requests()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Approval requests are part of the audit record and cannot be deleted';
+  END IF;
+  IF NEW.subject IS DISTINCT FROM OLD.subject
+    OR NEW.policy_name IS DISTINCT FROM OLD.policy_name
+    OR NEW.approvers IS DISTINCT FROM OLD.approvers
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.spend_date IS DISTINCT FROM OLD.spend_date
+    OR NEW.requested_by IS DISTINCT FROM OLD.requested_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR (NEW.bill_id IS DISTINCT FROM OLD.bill_id AND NEW.bill_id IS NOT NULL)
+    OR (NEW.transaction_id IS DISTINCT FROM OLD.transaction_id AND NEW.transaction_id IS NOT NULL)
+    OR (NEW.policy_id IS DISTINCT FROM OLD.policy_id AND NEW.policy_id IS NOT NULL)
+  THEN
+    RAISE EXCEPTION 'Approval requests cannot be edited';
+  END IF;
+  IF OLD.status <> 'pending' AND (
+    NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.current_step IS DISTINCT FROM OLD.current_step
+    OR NEW.decided_at IS DISTINCT FROM OLD.decided_at
+  ) THEN
+    RAISE EXCEPTION 'A decided approval request cannot change';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER approval_requests_protect BEFORE UPDATE OR DELETE ON public.approval_requests
+  FOR EACH ROW EXECUTE FUNCTION public.protect_approval_requests();
+
+-- Raise a request for a bill or an expense transaction under a policy,
+-- copying the policy's approvers and the spend's amount and description.
+CREATE OR REPLACE FUNCTION public.request_approval(
+  p_subject TEXT,
+  p_subject_id UUID,
+  p_policy_id UUID,
+  p_requested_by TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.approval_requests
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  chosen public.approval_policies%ROWTYPE;
+  request public.approval_requests%ROWTYPE;
+  spend_amount NUMERIC;
+  spend_description TEXT;
+  spend_on DATE;
+  requester TEXT := NULLIF(trim(p_requested_by), '');
+BEGIN
+  SELECT * INTO chosen FROM public.approval_policies WHERE id = p_policy_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval policy % not found', p_policy_id;
+  END IF;
+
+  IF p_subject = 'bill' THEN
+    SELECT b.total, 'Bill ' || b.bill_number || COALESCE(' from ' || v.name, ''), b.issue_date
+    INTO spend_amount, spend_description, spend_on
+    FROM public.bills b LEFT JOIN public.vendors v ON v.id = b.vendor_id
+    WHERE b.id = p_subject_id;
+  ELSIF p_subject = 'expense' THEN
+    SELECT t.amount, COALESCE(v.name, NULLIF(trim(t.description), ''), 'Expense'), t.date
+    INTO spend_amount, spend_description, spend_on
+    FROM public.transactions t LEFT JOIN public.vendors v ON v.id = t.vendor_id
+    WHERE t.id = p_subject_id;
+  ELSE
+    RAISE EXCEPTION 'Approvals are for bills or expenses, not %', p_subject;
+  END IF;
+  IF spend_amount IS NULL THEN
+    RAISE EXCEPTION '% % not found', initcap(p_subject), p_subject_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.approval_requests
+    WHERE status IN ('pending', 'approved')
+      AND (bill_id = p_subject_id OR transaction_id = p_subject_id)
+  ) THEN
+    RAISE EXCEPTION 'This % already has an approval request', p_subject;
+  END IF;
+
+  INSERT INTO public.approval_requests
+    (subject, bill_id, transaction_id, policy_id, policy_name, approvers, amount, description, spend_date, requested_by)
+  VALUES (
+    p_subject::public.approval_subject,
+    CASE WHEN p_subject = 'bill' THEN p_subject_id END,
+    CASE WHEN p_subject = 'expense' THEN p_subject_id END,
+    chosen.id, chosen.name, chosen.approvers, spend_amount, spend_description, spend_on, requester
+  )
+  RETURNING * INTO request;
+
+  INSERT INTO public.approval_actions (request_id, action, step, actor, comment)
+  VALUES (request.id, 'requested', 0, requester, NULLIF(trim(p_comment), ''));
+
+  RETURN request;
+END;
+$$;
+
+-- Record one approver's decision. Only the named approver of the current
+-- step may decide, never whoever raised the request, and nobody twice. The
+-- last approval, or any rejection, settles the request and the bill's own
+-- approval with it.
+CREATE OR REPLACE FUNCTION public.decide_approval(
+  p_request_id UUID,
+  p_decision TEXT,
+  p_actor TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.approval_requests
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  request public.approval_requests%ROWTYPE;
+  decided_by TEXT := NULLIF(trim(p_actor), '');
+  note TEXT := NULLIF(trim(p_comment), '');
+  approver TEXT;
+  settled BOOLEAN;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Decision must be approved or rejected';
+  END IF;
+  IF decided_by IS NULL THEN
+    RAISE EXCEPTION 'Set your name in Settings before deciding approvals';
+  END IF;
+
+  SELECT * INTO request FROM public.approval_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval request % not found', p_request_id;
+  END IF;
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request is already %', request.status;
+  END IF;
+
+  approver := request.approvers[request.current_step + 1];
+  IF lower(trim(approver)) <> lower(decided_by) THEN
+    RAISE EXCEPTION 'Step % is for %', request.current_step + 1, approver;
+  END IF;
+  IF lower(COALESCE(request.requested_by, '')) = lower(decided_by) THEN
+    RAISE EXCEPTION 'A request cannot be decided by the person who raised it';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.approval_actions
+    WHERE request_id = request.id AND action = 'approved' AND lower(approval_actions.actor) = lower(decided_by)
+  ) THEN
+    RAISE EXCEPTION '% has already approved an earlier step', decided_by;
+  END IF;
+  IF p_decision = 'rejected' AND note IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for the rejection';
+  END IF;
+
+  INSERT INTO public.approval_actions (request_id, action, step, actor, comment)
+  VALUES (request.id, p_decision::public.approval_action_kind, request.current_step, decided_by, note);
+
+  settled := p_decision = 'rejected' OR request.current_step + 1 >= cardinality(request.approvers);
+  UPDATE public.approval_requests
+  SET status = CASE WHEN settled THEN p_decision ELSE 'pending' END::public.approval_request_status,
+      current_step = CASE WHEN settled THEN current_step ELSE current_step + 1 END,
+      decided_at = CASE WHEN settled THEN now() END
+  WHERE id = request.id
+  RETURNING * INTO request;
+
+  IF settled AND request.bill_id IS NOT NULL THEN
+    UPDATE public.bills
+    SET approval_status = request.status::text::public.bill_approval_status,
+        approved_by = CASE WHEN request.status = 'approved' THEN decided_by END,
+        approved_at = CASE WHEN request.status = 'approved' THEN now() END
+    WHERE id = request.bill_id;
+  END IF;
+
+  RETURN request;
+END;
+$$;
+
+-- Unapproved spend shows up in the compliance register
+ALTER TABLE public.compliance_rules DROP CONSTRAINT compliance_rules_check;
+ALTER TABLE public.compliance_rules ADD CONSTRAINT compliance_rules_kind_threshold_check
+  CHECK (kind IN ('segregation_of_duties', 'approval_policy') OR threshold IS NOT NULL);
+
+INSERT INTO public.compliance_rules (name, kind, threshold, severity) VALUES
+  ('Spend approved under the approval policies', 'approval_policy', NULL, 'high');
+
+ALTER TABLE public.approval_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public access to approval_policies" ON public.approval_policies FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to approval_requests" ON public.approval_requests FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access to approval_actions" ON public.approval_actions FOR ALL USING (true) WITH CHECK (true);